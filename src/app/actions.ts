@@ -6,7 +6,10 @@
 
 import { getCompanySettings, getUserCount } from "@/modules/core/lib/db";
 import { runScheduledTasks } from "@/lib/cron-runner";
+import { startNotificationOutboxWorker } from "@/modules/notifications/lib/notifications-engine";
+import { startTelegramBot } from "@/modules/notifications/lib/telegram-bot";
 import { logError } from "@/modules/core/lib/logger";
+import { runAsSystem } from "@/modules/core/lib/authorization";
 
 // This flag ensures that the cron jobs are only initialized once per server start.
 let cronInitialized = false;
@@ -19,6 +22,8 @@ export async function getInitialPageData(): Promise<{ hasUsers: boolean, company
   if (!cronInitialized) {
     console.log("Server action triggered. Initializing cron runner...");
     await runScheduledTasks();
+    await startNotificationOutboxWorker();
+    await runAsSystem(() => startTelegramBot()).catch(error => logError("Failed to start the Telegram bot", { error: error.message }));
     cronInitialized = true;
   }
   // --- END CRON JOBS ---
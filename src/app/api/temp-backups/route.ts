@@ -25,7 +25,7 @@ const dbDirectory = path.join(process.cwd(), 'dbs');
  * @returns {Promise<NextResponse>} A response object containing the file stream or an error.
  */
 export async function GET(request: NextRequest) {
-    // This now uses the server-side, cookie-based `getCurrentUser` function.
+    // Resolves the opaque session cookie through the `sessions` table; revoked or expired sessions get a 401.
     const user = await getCurrentUser();
     if (!user) {
         return new NextResponse('Unauthorized: No active session.', { status: 401 });
@@ -24,7 +24,7 @@ const TEMP_EXPORT_DIR = path.join(process.cwd(), 'temp_files', 'exports');
  * @returns {Promise<NextResponse>} A response object containing the file stream or an error.
  */
 export async function GET(request: NextRequest) {
-    // This now uses the server-side, cookie-based `getCurrentUser` function.
+    // Resolves the opaque session cookie through the `sessions` table; revoked or expired sessions get a 401.
     const user = await getCurrentUser();
     if (!user) {
         return new NextResponse('Unauthorized: You must be logged in to download files.', { status: 401 });
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview `GET /api/v1/customers`: the customers imported from the ERP.
+ * Sellers restricted to their own customers only receive those.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints, paginate } from '@/modules/core/lib/api-schemas';
+import { getAllCustomers } from '@/modules/core/lib/db';
+import { authorizeAction } from '@/modules/core/lib/authorization';
+import { getScopedCustomerIds } from '@/modules/core/lib/data-scopes';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.customers, async (query) => {
+        const user = await authorizeAction('GET /api/v1/customers');
+        const scopedCustomerIds = await getScopedCustomerIds(user);
+        const allowedIds = scopedCustomerIds ? new Set(scopedCustomerIds) : null;
+        const search = query.search?.toLowerCase();
+        const customers = (await getAllCustomers()).filter(customer =>
+            (!allowedIds || allowedIds.has(customer.id)) &&
+            (!search || customer.id.toLowerCase().includes(search) || customer.name.toLowerCase().includes(search) || (customer.taxId || '').includes(search))
+        );
+        return paginate(customers, query);
+    });
+}
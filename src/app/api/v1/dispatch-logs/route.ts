@@ -0,0 +1,17 @@
+/**
+ * @fileoverview `GET /api/v1/dispatch-logs`: dispatches verified in the dispatch check.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints, paginate, toDateRange } from '@/modules/core/lib/api-schemas';
+import { getDispatchLogs } from '@/modules/warehouse/lib/actions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.dispatchLogs, async (query) => {
+        return paginate(await getDispatchLogs(toDateRange(query)), query);
+    });
+}
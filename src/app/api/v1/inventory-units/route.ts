@@ -0,0 +1,17 @@
+/**
+ * @fileoverview `GET /api/v1/inventory-units`: physical inventory units registered in the warehouse.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints, paginate, toDateRange } from '@/modules/core/lib/api-schemas';
+import { getInventoryUnits } from '@/modules/warehouse/lib/actions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.inventoryUnits, async (query) => {
+        return paginate(await getInventoryUnits(toDateRange(query)), query);
+    });
+}
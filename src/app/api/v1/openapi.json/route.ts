@@ -0,0 +1,14 @@
+/**
+ * @fileoverview `GET /api/v1/openapi.json`: the OpenAPI document of the REST API,
+ * generated from its Zod schemas. It describes the API only and needs no token.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { buildOpenApiDocument } from '@/modules/core/lib/openapi';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
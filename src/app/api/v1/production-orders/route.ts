@@ -0,0 +1,29 @@
+/**
+ * @fileoverview `GET /api/v1/production-orders`: production orders of the planner,
+ * with the same filters, permissions and data scopes as the planner screen.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints } from '@/modules/core/lib/api-schemas';
+import { getOrders } from '@/modules/planner/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.productionOrders, async (query) => {
+        const result = await getOrders({
+            page: query.page,
+            pageSize: query.pageSize,
+            isArchived: query.archived,
+            filters: { searchTerm: query.search, status: query.status },
+        });
+        return {
+            data: query.archived ? result.archivedOrders : result.activeOrders,
+            total: query.archived ? result.totalArchivedCount : result.totalActiveCount,
+            page: query.page,
+            pageSize: query.pageSize,
+        };
+    });
+}
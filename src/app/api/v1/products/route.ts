@@ -0,0 +1,22 @@
+/**
+ * @fileoverview `GET /api/v1/products`: the product catalog imported from the ERP.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints, paginate } from '@/modules/core/lib/api-schemas';
+import { getAllProducts } from '@/modules/core/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.products, async (query) => {
+        const search = query.search?.toLowerCase();
+        const products = (await getAllProducts()).filter(product =>
+            (!query.active || product.active === query.active) &&
+            (!search || product.id.toLowerCase().includes(search) || product.description.toLowerCase().includes(search))
+        );
+        return paginate(products, query);
+    });
+}
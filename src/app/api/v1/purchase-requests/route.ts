@@ -0,0 +1,29 @@
+/**
+ * @fileoverview `GET /api/v1/purchase-requests`: purchase requests, with the same
+ * filters, permissions and data scopes as the purchase requests screen.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints } from '@/modules/core/lib/api-schemas';
+import { getRequests } from '@/modules/requests/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.purchaseRequests, async (query) => {
+        const result = await getRequests({
+            page: query.page,
+            pageSize: query.pageSize,
+            isArchived: query.archived,
+            filters: { searchTerm: query.search, status: query.status },
+        });
+        return {
+            data: result.requests,
+            total: query.archived ? result.totalArchived : result.totalActive,
+            page: query.page,
+            pageSize: query.pageSize,
+        };
+    });
+}
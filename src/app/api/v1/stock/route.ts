@@ -0,0 +1,18 @@
+/**
+ * @fileoverview `GET /api/v1/stock`: ERP stock levels per item and warehouse.
+ */
+
+import type { NextRequest } from 'next/server';
+import { handleApiRequest } from '@/modules/core/lib/api-v1';
+import { apiEndpoints, paginate } from '@/modules/core/lib/api-schemas';
+import { getAllStock } from '@/modules/core/lib/db';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return handleApiRequest(request, apiEndpoints.stock, async (query) => {
+        const stock = (await getAllStock()).filter(entry => !query.itemId || entry.itemId === query.itemId);
+        return paginate(stock, query);
+    });
+}
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Admin page for browsing the audit trail of users, roles and settings changes.
+ * Events can be filtered by actor, entity and date, and exported to Excel.
+ */
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAuditEvents, getAuditActors } from "@/modules/core/lib/audit-actions";
+import type { AuditAction, AuditEntityType, AuditEvent, DateRange } from "@/modules/core/types";
+import { RefreshCw, Calendar as CalendarIcon, FilterX, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
+import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useDebounce } from "use-debounce";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { exportToExcel } from "@/modules/core/lib/excel-export";
+
+const ALL = 'all';
+
+const entityLabels: Record<AuditEntityType, string> = {
+  user: 'Usuario',
+  role: 'Rol',
+  session: 'Sesiones',
+  login_lockout: 'Bloqueo de Acceso',
+  api_token: 'Token de API',
+  company_settings: 'Config. General',
+  api_settings: 'Config. de API',
+  sql_config: 'Config. SQL',
+  import_queries: 'Consultas de Importación',
+  email_settings: 'Config. Correo',
+  ldap_settings: 'Config. Directorio (LDAP)',
+  stock_settings: 'Config. Inventario',
+  warehouse_settings: 'Config. Almacenes',
+  planner_settings: 'Config. Planificador',
+  request_settings: 'Config. Compras',
+  notification_settings: 'Config. Notificaciones',
+  notification_template: 'Plantilla de Notificación',
+  notification_rule: 'Regla de Notificación',
+  scheduled_task: 'Tarea Programada',
+  cost_assistant_settings: 'Config. Asist. Costos',
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: 'Creación',
+  update: 'Modificación',
+  delete: 'Eliminación',
+  reset: 'Restablecimiento',
+  revoke: 'Revocación',
+  unlock: 'Desbloqueo',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(vacío)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const formatChanges = (event: AuditEvent): string[] =>
+  Object.entries(event.changes).map(([field, change]) =>
+    event.action === 'create' ? `${field}: ${formatValue(change.after)}`
+    : event.action === 'delete' ? `${field}: ${formatValue(change.before)}`
+    : `${field}: ${formatValue(change.before)} → ${formatValue(change.after)}`
+  );
+
+export default function AuditTrailPage() {
+  const { isAuthorized } = useAuthorization(['admin:audit:read']);
+  const { setTitle } = usePageTitle();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actors, setActors] = useState<{ actorId: number | null; actorName: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Filter state
+  const [actorFilter, setActorFilter] = useState<string>(ALL);
+  const [entityFilter, setEntityFilter] = useState<string>(ALL);
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [dateFilter, setDateFilter] = useState<DateRange | undefined>(undefined);
+  const [debouncedEntityId] = useDebounce(entityIdFilter, 500);
+
+  const fetchEvents = async (isRefreshAction = false) => {
+    if (isRefreshAction) {
+        setIsRefreshing(true);
+    } else {
+        setIsLoading(true);
+    }
+
+    try {
+        const [fetchedEvents, fetchedActors] = await Promise.all([
+            getAuditEvents({
+                actorId: actorFilter === ALL ? undefined : Number(actorFilter),
+                entityType: entityFilter === ALL ? undefined : entityFilter as AuditEntityType,
+                entityId: debouncedEntityId.trim() || undefined,
+                dateRange: dateFilter,
+            }),
+            getAuditActors(),
+        ]);
+        setEvents(fetchedEvents);
+        setActors(fetchedActors);
+    } catch (error) {
+        console.error("Failed to fetch audit events:", error);
+    } finally {
+        if (isRefreshAction) {
+            setIsRefreshing(false);
+        } else {
+            setIsLoading(false);
+        }
+    }
+  };
+
+  useEffect(() => {
+    setTitle("Auditoría de Cambios");
+    if (isAuthorized) {
+        fetchEvents(false);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setTitle, isAuthorized, actorFilter, entityFilter, debouncedEntityId, dateFilter]);
+
+  const handleClearFilters = () => {
+    setActorFilter(ALL);
+    setEntityFilter(ALL);
+    setEntityIdFilter('');
+    setDateFilter(undefined);
+  };
+
+  const handleExport = () => {
+    exportToExcel({
+        fileName: `auditoria-${new Date().toISOString().split('T')[0]}`,
+        sheetName: 'Auditoría',
+        headers: ['Fecha y Hora', 'Usuario', 'Entidad', 'ID', 'Acción', 'Cambios'],
+        data: events.map(event => [
+            format(new Date(event.timestamp), 'dd/MM/yyyy HH:mm:ss'),
+            event.actorName,
+            entityLabels[event.entityType] || event.entityType,
+            event.entityId,
+            actionLabels[event.action] || event.action,
+            formatChanges(event).join('\n'),
+        ]),
+        columnWidths: [20, 25, 25, 15, 18, 80],
+    });
+  };
+
+  if (isAuthorized === false) {
+    return null;
+  }
+
+  return (
+      <main className="flex-1 p-4 md:p-6 lg:p-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle>Auditoría de Cambios</CardTitle>
+                <CardDescription>
+                  Quién cambió usuarios, roles, seguridad y configuraciones, con el valor anterior y el nuevo de cada campo.
+                </CardDescription>
+              </div>
+              <div className="flex w-full sm:w-auto gap-2">
+                <Button variant="outline" onClick={() => fetchEvents(true)} className="flex-1 sm:flex-initial" disabled={isRefreshing}>
+                  {isRefreshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Refrescar
+                </Button>
+                <Button variant="outline" onClick={handleExport} className="flex-1 sm:flex-initial" disabled={events.length === 0}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Exportar a Excel
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row flex-wrap gap-4">
+                <Select value={actorFilter} onValueChange={setActorFilter}>
+                    <SelectTrigger className="w-full md:w-[220px]">
+                        <SelectValue placeholder="Usuario" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>Todos los usuarios</SelectItem>
+                        {actors.filter(actor => actor.actorId !== null).map(actor => (
+                            <SelectItem key={actor.actorId} value={String(actor.actorId)}>{actor.actorName}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select value={entityFilter} onValueChange={setEntityFilter}>
+                    <SelectTrigger className="w-full md:w-[240px]">
+                        <SelectValue placeholder="Entidad" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>Todas las entidades</SelectItem>
+                        {Object.entries(entityLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input
+                    placeholder="ID de la entidad..."
+                    value={entityIdFilter}
+                    onChange={(e) => setEntityIdFilter(e.target.value)}
+                    className="w-full md:w-[180px]"
+                />
+                <Popover>
+                    <PopoverTrigger asChild>
+                        <Button
+                            variant={"outline"}
+                            className={cn(
+                            "w-full md:w-[300px] justify-start text-left font-normal",
+                            !dateFilter && "text-muted-foreground"
+                            )}
+                        >
+                            <CalendarIcon className="mr-2 h-4 w-4" />
+                            {dateFilter?.from ? (
+                            dateFilter.to ? (
+                                <>
+                                {format(dateFilter.from, "LLL dd, y", { locale: es })} -{" "}
+                                {format(dateFilter.to, "LLL dd, y", { locale: es })}
+                                </>
+                            ) : (
+                                format(dateFilter.from, "LLL dd, y", { locale: es })
+                            )
+                            ) : (
+                            <span>Todas las fechas</span>
+                            )}
+                        </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                            initialFocus
+                            mode="range"
+                            defaultMonth={dateFilter?.from}
+                            selected={dateFilter}
+                            onSelect={setDateFilter}
+                            numberOfMonths={2}
+                            locale={es}
+                        />
+                    </PopoverContent>
+                </Popover>
+                <Button variant="ghost" onClick={handleClearFilters}>
+                    <FilterX className="mr-2 h-4 w-4" />
+                    Limpiar Filtros
+                </Button>
+            </div>
+            <ScrollArea className="h-[60vh] rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">Fecha y Hora</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>Entidad</TableHead>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Cambios</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && !isRefreshing ? (
+                     <TableRow>
+                        <TableCell colSpan={5} className="h-24 text-center">
+                           <div className="flex justify-center items-center gap-2">
+                             <Loader2 className="h-5 w-5 animate-spin"/>
+                             <span>Cargando eventos...</span>
+                           </div>
+                        </TableCell>
+                    </TableRow>
+                  ) : events.length > 0 ? (
+                    events.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell className="font-medium">
+                          {format(new Date(event.timestamp), "dd/MM/yyyy HH:mm:ss", { locale: es })}
+                        </TableCell>
+                        <TableCell>{event.actorName}</TableCell>
+                        <TableCell>
+                          <span>{entityLabels[event.entityType] || event.entityType}</span>
+                          <span className="block text-xs text-muted-foreground">ID: {event.entityId}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={event.action === 'delete' ? 'destructive' : event.action === 'create' ? 'secondary' : 'outline'}>
+                            {actionLabels[event.action] || event.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {Object.keys(event.changes).length > 0 ? (
+                            <ul className="text-xs space-y-1 font-mono break-all">
+                              {formatChanges(event).map((line, index) => <li key={index}>{line}</li>)}
+                            </ul>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Sin detalle de campos.</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center">
+                        No hay eventos de auditoría con los filtros actuales.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </main>
+  );
+}
@@ -14,6 +14,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/modules/core/hooks/use-toast";
 import type { Company } from "@/modules/core/types";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -289,6 +290,148 @@ export default function GeneralSettingsPage() {
                 </CardContent>
             </Card>
 
+            <Card className="mt-6">
+                <CardHeader>
+                    <CardTitle>Seguridad de Inicio de Sesión</CardTitle>
+                    <CardDescription>Protección contra intentos de acceso por fuerza bruta. Usa 0 en un límite para desactivarlo.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                      <Label htmlFor="loginMaxAttempts">Intentos Fallidos por Cuenta</Label>
+                      <Input 
+                          id="loginMaxAttempts"
+                          type="number"
+                          min={0}
+                          value={companyData.loginMaxAttempts ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Cantidad de intentos fallidos tras la cual la cuenta se bloquea temporalmente.
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="loginIpMaxAttempts">Intentos Fallidos por IP</Label>
+                      <Input 
+                          id="loginIpMaxAttempts"
+                          type="number"
+                          min={0}
+                          value={companyData.loginIpMaxAttempts ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Límite de intentos fallidos desde una misma dirección IP, sin importar la cuenta.
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="loginDelayAfterAttempts">Retraso Progresivo Después de</Label>
+                      <Input 
+                          id="loginDelayAfterAttempts"
+                          type="number"
+                          min={0}
+                          value={companyData.loginDelayAfterAttempts ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          A partir de este número de fallos, cada intento incorrecto tarda el doble en responder (máx. 30s).
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="loginLockoutMinutes">Duración del Bloqueo (minutos)</Label>
+                      <Input 
+                          id="loginLockoutMinutes"
+                          type="number"
+                          min={1}
+                          value={companyData.loginLockoutMinutes ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Tiempo que dura el bloqueo. Los fallos más antiguos que este periodo dejan de contar.
+                      </p>
+                  </div>
+                </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+                <CardHeader>
+                    <CardTitle>Política de Contraseñas</CardTitle>
+                    <CardDescription>Reglas que deben cumplir las contraseñas nuevas. Usa 0 en los plazos o el historial para desactivarlos.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                      <Label htmlFor="passwordMinLength">Longitud Mínima</Label>
+                      <Input 
+                          id="passwordMinLength"
+                          type="number"
+                          min={6}
+                          value={companyData.passwordMinLength ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Cantidad mínima de caracteres (nunca menos de 6).
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="passwordHistoryCount">Contraseñas Anteriores no Reutilizables</Label>
+                      <Input 
+                          id="passwordHistoryCount"
+                          type="number"
+                          min={0}
+                          value={companyData.passwordHistoryCount ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Impide volver a usar cualquiera de las últimas N contraseñas del usuario.
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="passwordMaxAgeDays">Vigencia Máxima (días)</Label>
+                      <Input 
+                          id="passwordMaxAgeDays"
+                          type="number"
+                          min={0}
+                          value={companyData.passwordMaxAgeDays ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Al vencer, el usuario deberá cambiar su contraseña en el siguiente inicio de sesión.
+                      </p>
+                  </div>
+                  <div className="space-y-2">
+                      <Label htmlFor="tempPasswordExpiryMinutes">Vigencia de Contraseñas Temporales (minutos)</Label>
+                      <Input 
+                          id="tempPasswordExpiryMinutes"
+                          type="number"
+                          min={0}
+                          value={companyData.tempPasswordExpiryMinutes ?? ''}
+                          onChange={handleNumberChange}
+                      />
+                      <p className="text-xs text-muted-foreground pt-1">
+                          Tiempo durante el cual sirve la contraseña enviada por correo al recuperar el acceso.
+                      </p>
+                  </div>
+                  <div className="space-y-3 md:col-span-2">
+                      <Label>Caracteres Requeridos</Label>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {([
+                              ['passwordRequireUppercase', 'Mayúsculas'],
+                              ['passwordRequireLowercase', 'Minúsculas'],
+                              ['passwordRequireNumber', 'Números'],
+                              ['passwordRequireSymbol', 'Símbolos'],
+                          ] as const).map(([key, label]) => (
+                              <div key={key} className="flex items-center space-x-2">
+                                  <Switch
+                                      id={key}
+                                      checked={!!companyData[key]}
+                                      onCheckedChange={(checked) => setCompanyData(prev => prev ? { ...prev, [key]: checked } : null)}
+                                  />
+                                  <Label htmlFor={key} className="font-normal">{label}</Label>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+                </CardContent>
+            </Card>
+
             <Card className="mt-6">
                 <CardFooter className="border-t px-6 py-4">
                   <Button>
@@ -2,7 +2,9 @@
 /**
  * @fileoverview Admin page for managing data imports from external sources (files or SQL DB).
  * This component allows administrators to configure import paths, connection strings,
- * and SQL queries, and to trigger the import processes.
+ * and SQL queries (optionally incremental, with a watermark column), to trigger the import
+ * processes, and to review the outcome of the last SQL import of each data type and the
+ * history of the synchronizations.
  */
 "use client";
 
@@ -12,42 +14,25 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { useToast } from "@/modules/core/hooks/use-toast";
 import { logError, logInfo } from "@/modules/core/lib/logger";
 import { Loader2, FileUp, Database, Save } from "lucide-react";
-import type { Company, SqlConfig, ImportQuery } from '@/modules/core/types';
+import type { Company, SqlConfig, ImportQuery, ImportSyncState, SyncRun } from '@/modules/core/types';
 import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
-import { importData, getCompanySettings, saveCompanySettings, testSqlConnection, saveSqlConfig, saveImportQueries, getImportQueries, importAllDataFromFiles } from '@/modules/core/lib/db';
+import { importData, getCompanySettings, saveCompanySettings, testSqlConnection, saveSqlConfig, saveImportQueries, getImportQueries, importAllDataFromFiles, getImportSyncStates, getSyncRuns } from '@/modules/core/lib/db';
 import { getSqlConfig } from '@/modules/core/lib/config-db';
 import { useAuthorization } from '@/modules/core/hooks/useAuthorization';
+import { IMPORT_TYPES, IMPORT_TYPE_LABELS, INCREMENTAL_IMPORT_TABLES, SINCE_PLACEHOLDER, DEFAULT_FULL_SYNC_INTERVAL_HOURS, type ImportType } from '@/modules/core/lib/import-types';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { SyncHistory } from '@/components/dashboard/sync-history';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
 
-type ImportType = ImportQuery['type'];
-const importTypes: ImportType[] = ['customers', 'products', 'exemptions', 'stock', 'locations', 'cabys', 'suppliers', 'erp_order_headers', 'erp_order_lines', 'erp_purchase_order_headers', 'erp_purchase_order_lines', 'erp_invoice_headers', 'erp_invoice_lines', 'vendedores', 'direcciones_embarque', 'nominas', 'puestos', 'departamentos', 'empleados', 'vehiculos'];
-
-const importTypeTranslations: { [key in ImportType]: string } = {
-    customers: 'Clientes',
-    products: 'Artículos',
-    exemptions: 'Exoneraciones',
-    stock: 'Existencias',
-    locations: 'Ubicaciones',
-    cabys: 'Catálogo CABYS',
-    suppliers: 'Proveedores',
-    erp_order_headers: 'Pedidos ERP (Cabeceras)',
-    erp_order_lines: 'Pedidos ERP (Líneas)',
-    erp_purchase_order_headers: 'Órdenes de Compra ERP (Cabeceras)',
-    erp_purchase_order_lines: 'Órdenes de Compra ERP (Líneas)',
-    erp_invoice_headers: 'Facturas ERP (Cabeceras)',
-    erp_invoice_lines: 'Facturas ERP (Líneas)',
-    vendedores: 'Vendedores',
-    direcciones_embarque: 'Direcciones de Embarque',
-    nominas: 'Nóminas',
-    puestos: 'Puestos',
-    departamentos: 'Departamentos',
-    empleados: 'Empleados',
-    vehiculos: 'Vehículos',
-};
+const importTypes = IMPORT_TYPES;
+const importTypeTranslations = IMPORT_TYPE_LABELS;
 
 const defaultQueries: { [key in ImportType]?: string } = {
     customers: "SELECT [CLIENTE], [NOMBRE], [DIRECCION], [TELEFONO1], [CONTRIBUYENTE], [MONEDA], [LIMITE_CREDITO], [CONDICION_PAGO], [VENDEDOR], [ACTIVO], [E_MAIL], [EMAIL_DOC_ELECTRONICO] FROM [GAREND].[CLIENTE]",
@@ -72,6 +57,11 @@ const defaultQueries: { [key in ImportType]?: string } = {
 };
 
 
+const formatSyncDate = (value: string | null) => value ? format(parseISO(value), "dd/MM/yyyy HH:mm", { locale: es }) : '—';
+
+/** Dates are stored in ISO format; other watermarks (document numbers) are shown as they are. */
+const formatWatermark = (value: string | null) => value && /^\d{4}-\d{2}-\d{2}T/.test(value) ? formatSyncDate(value) : value || '—';
+
 const importTypeFieldMapping: { [key in ImportType]?: keyof Company } = {
     customers: 'customerFilePath',
     products: 'productFilePath',
@@ -97,15 +87,30 @@ export default function ImportDataPage() {
     const [companyData, setCompanyData] = useState<Company | null>(null);
     const [sqlConfig, setSqlConfig] = useState<SqlConfig>({});
     const [importQueries, setImportQueries] = useState<ImportQuery[]>([]);
+    const [syncStates, setSyncStates] = useState<ImportSyncState[]>([]);
+    const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+    const [isLoadingSyncRuns, setIsLoadingSyncRuns] = useState(true);
+    const [initialSyncRunId, setInitialSyncRunId] = useState<string | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const { setTitle } = usePageTitle();
 
+    const loadSyncStates = useCallback(async () => {
+        setSyncStates(await getImportSyncStates().catch(() => []));
+    }, []);
+
+    const loadSyncRuns = useCallback(async () => {
+        setIsLoadingSyncRuns(true);
+        setSyncRuns(await getSyncRuns().catch(() => []));
+        setIsLoadingSyncRuns(false);
+    }, []);
+
     useEffect(() => {
         setTitle("Importar Datos");
         const loadConfig = async () => {
             const [company, sql, queries] = await Promise.all([
                 getCompanySettings(),
-                getSqlConfig(),
+                // Only users with 'admin:import:sql-config' may read the connection settings.
+                getSqlConfig().catch(() => null),
                 getImportQueries()
             ]);
             setCompanyData(company);
@@ -120,7 +125,11 @@ export default function ImportDataPage() {
             setImportQueries(updatedQueries);
         };
         loadConfig();
-    }, [setTitle]);
+        loadSyncStates();
+        loadSyncRuns();
+        // The sync warning and the failure notifications link here with the synchronization to show.
+        setInitialSyncRunId(new URLSearchParams(window.location.search).get('syncRun'));
+    }, [setTitle, loadSyncStates, loadSyncRuns]);
 
     /**
      * Handles the import of a single data type (e.g., customers).
@@ -146,6 +155,8 @@ export default function ImportDataPage() {
         } finally {
             setIsProcessing(false);
             setProcessingType(null);
+            if (companyData?.importMode === 'sql') loadSyncStates();
+            loadSyncRuns();
         }
     };
     
@@ -173,6 +184,8 @@ export default function ImportDataPage() {
         } finally {
             setIsProcessing(false);
             setProcessingType(null);
+            loadSyncStates();
+            loadSyncRuns();
         }
     }
     
@@ -185,12 +198,12 @@ export default function ImportDataPage() {
         setSqlConfig((prev: SqlConfig) => ({ ...prev, [field]: value }));
     };
 
-    const handleQueryChange = (type: ImportType, query: string) => {
+    const handleQueryChange = (type: ImportType, changes: Partial<Omit<ImportQuery, 'type'>>) => {
         const existingQuery = importQueries.find(q => q.type === type);
         if (existingQuery) {
-            setImportQueries(importQueries.map(q => q.type === type ? { ...q, query } : q));
+            setImportQueries(importQueries.map(q => q.type === type ? { ...q, ...changes } : q));
         } else {
-            setImportQueries([...importQueries, { type, query }]);
+            setImportQueries([...importQueries, { type, query: '', ...changes }]);
         }
     };
     
@@ -310,6 +323,43 @@ export default function ImportDataPage() {
                              {isProcessing && processingType === 'full-sql-import' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Database className="mr-2 h-5 w-5" />}
                             Importar Todos los Datos desde ERP
                         </Button>
+                        {syncStates.length > 0 && (
+                            <Table className="mt-6">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Tipo de Dato</TableHead>
+                                        <TableHead>Última Sincronización</TableHead>
+                                        <TableHead>Marca de Agua</TableHead>
+                                        <TableHead className="text-right">Filas Traídas</TableHead>
+                                        <TableHead className="text-right">Filas Locales</TableHead>
+                                        <TableHead>Última Reconciliación</TableHead>
+                                        <TableHead className="text-right">Eliminadas</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {importTypes.map(type => {
+                                        const state = syncStates.find(s => s.type === type);
+                                        if (!state) return null;
+                                        return (
+                                            <TableRow key={type}>
+                                                <TableCell className="font-medium">{importTypeTranslations[type]}</TableCell>
+                                                <TableCell>
+                                                    <div className="flex items-center gap-2">
+                                                        {formatSyncDate(state.lastSyncAt)}
+                                                        <Badge variant={state.lastSyncMode === 'incremental' ? 'secondary' : 'outline'}>{state.lastSyncMode === 'incremental' ? 'Incremental' : 'Completa'}</Badge>
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell className="font-mono text-xs">{formatWatermark(state.lastWatermark)}</TableCell>
+                                                <TableCell className="text-right">{state.lastRowCount.toLocaleString('es-CR')}</TableCell>
+                                                <TableCell className="text-right">{state.localRowCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell>{formatSyncDate(state.lastFullSyncAt)}</TableCell>
+                                                <TableCell className="text-right">{state.lastDeletedCount.toLocaleString('es-CR')}</TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
                      </CardContent>
                 </Card>
             )}
@@ -367,6 +417,9 @@ export default function ImportDataPage() {
                                  <CardDescription className="mb-4">
                                     Define la consulta SELECT para cada tipo de dato. El sistema mapeará las columnas automáticamente según los nombres definidos en la documentación.
                                 </CardDescription>
+                                <p className="mb-4 text-sm text-muted-foreground">
+                                    Para sincronizar de forma incremental, indica una columna que solo crece (fecha de modificación o número de documento) y filtra la consulta con <code className="font-mono">{SINCE_PLACEHOLDER}</code>, por ejemplo: <code className="font-mono">WHERE ({SINCE_PLACEHOLDER} IS NULL OR [UPDATEDDATE] &gt;= {SINCE_PLACEHOLDER})</code>. En las reconciliaciones completas se recibe NULL y se eliminan los registros que ya no existen en el ERP.
+                                </p>
                                 <div className="space-y-4">
                                     {importTypes.map(type => (
                                         <div key={type} className="space-y-2">
@@ -374,11 +427,38 @@ export default function ImportDataPage() {
                                             <Textarea
                                                 id={`query-${type}`}
                                                 value={importQueries.find(q => q.type === type)?.query || ''}
-                                                onChange={(e: ChangeEvent<HTMLTextAreaElement>) => handleQueryChange(type, e.target.value)}
+                                                onChange={(e: ChangeEvent<HTMLTextAreaElement>) => handleQueryChange(type, { query: e.target.value })}
                                                 placeholder={`SELECT ... FROM tu_tabla_de_${type}`}
                                                 rows={4}
                                                 className="font-mono text-xs"
                                             />
+                                            {INCREMENTAL_IMPORT_TABLES[type] && (
+                                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                    <div className="space-y-1">
+                                                        <Label htmlFor={`watermark-${type}`} className="text-xs">Columna de marca de agua (opcional)</Label>
+                                                        <Input
+                                                            id={`watermark-${type}`}
+                                                            value={importQueries.find(q => q.type === type)?.watermarkColumn || ''}
+                                                            onChange={(e: ChangeEvent<HTMLInputElement>) => handleQueryChange(type, { watermarkColumn: e.target.value })}
+                                                            placeholder="Ej: UPDATEDDATE"
+                                                            className="font-mono text-xs"
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        <Label htmlFor={`full-sync-${type}`} className="text-xs">Reconciliación completa cada (horas)</Label>
+                                                        <Input
+                                                            id={`full-sync-${type}`}
+                                                            type="number"
+                                                            min={1}
+                                                            max={720}
+                                                            value={importQueries.find(q => q.type === type)?.fullSyncIntervalHours ?? ''}
+                                                            onChange={(e: ChangeEvent<HTMLInputElement>) => handleQueryChange(type, { fullSyncIntervalHours: e.target.value === '' ? null : Number(e.target.value) })}
+                                                            placeholder={String(DEFAULT_FULL_SYNC_INTERVAL_HOURS)}
+                                                            disabled={!importQueries.find(q => q.type === type)?.watermarkColumn}
+                                                        />
+                                                    </div>
+                                                </div>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
@@ -388,6 +468,8 @@ export default function ImportDataPage() {
                 </Accordion>
             )}
 
+            <SyncHistory runs={syncRuns} isLoading={isLoadingSyncRuns} initialRunId={initialSyncRunId} onRefresh={loadSyncRuns} />
+
             <Card>
                 <CardFooter>
                     <Button type="button" onClick={handleSaveAllConfigs} disabled={isSaving}>
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Admin page for the LDAP / Active Directory login provider.
+ * Configures the directory connection, the search used to find users, and the
+ * mapping from directory groups to application roles. Includes a connection test.
+ */
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/modules/core/hooks/use-toast";
+import type { LdapSettings, LdapTestResult, Role } from "@/modules/core/types";
+import { logError } from "@/modules/core/lib/logger";
+import { getLdapSettings, saveLdapSettings, testLdapSettings } from "@/modules/core/lib/ldap-service";
+import { getAllRoles } from "@/modules/core/lib/db";
+import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
+import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { KeyRound, PlugZap, Save, Loader2, PlusCircle, Trash2 } from "lucide-react";
+
+const DENY_ACCESS_VALUE = '__deny__';
+
+export default function LdapSettingsPage() {
+    const { isAuthorized } = useAuthorization(['admin:settings:ldap']);
+    const { toast } = useToast();
+    const { setTitle } = usePageTitle();
+
+    const [settings, setSettings] = useState<LdapSettings | null>(null);
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isTesting, setIsTesting] = useState(false);
+    const [testLogin, setTestLogin] = useState('');
+    const [testResult, setTestResult] = useState<LdapTestResult | null>(null);
+
+    useEffect(() => {
+        setTitle("Directorio (LDAP)");
+        const fetchSettings = async () => {
+            try {
+                const [savedSettings, savedRoles] = await Promise.all([getLdapSettings(), getAllRoles()]);
+                setSettings(savedSettings);
+                setRoles(savedRoles);
+            } catch (error: any) {
+                logError("Failed to fetch LDAP settings", { error: error.message });
+                toast({ title: "Error", description: "No se pudo cargar la configuración del directorio.", variant: "destructive" });
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        if (isAuthorized) {
+            fetchSettings();
+        }
+    }, [setTitle, isAuthorized, toast]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!settings) return;
+        setIsSaving(true);
+        try {
+            await saveLdapSettings({
+                ...settings,
+                groupRoleMappings: settings.groupRoleMappings.filter(mapping => mapping.group.trim() && mapping.roleId),
+            });
+            toast({ title: "Configuración Guardada", description: "Los ajustes del directorio han sido guardados." });
+        } catch (error: any) {
+            logError("Failed to save LDAP settings", { error: error.message });
+            toast({ title: "Error", description: "No se pudieron guardar los ajustes del directorio.", variant: "destructive" });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleTest = async () => {
+        if (!settings) return;
+        setIsTesting(true);
+        setTestResult(null);
+        try {
+            const result = await testLdapSettings(settings, testLogin);
+            setTestResult(result);
+            toast({
+                title: "Conexión Exitosa",
+                description: testLogin && !result.user ? `Conectado, pero no se encontró un único usuario para "${testLogin}".` : "El servidor respondió correctamente.",
+            });
+        } catch (error: any) {
+            logError("LDAP connection test failed", { error: error.message });
+            toast({ title: "Error de Conexión", description: `No se pudo conectar al directorio: ${error.message}`, variant: "destructive" });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { id, value } = e.target;
+        setSettings(prev => prev ? { ...prev, [id]: value } : null);
+    };
+
+    const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { id, value } = e.target;
+        const numValue = value === '' ? '' : parseInt(value, 10);
+        if (value === '' || !isNaN(Number(numValue))) {
+            setSettings(prev => prev ? { ...prev, [id]: numValue } : null);
+        }
+    };
+
+    const handleMappingChange = (index: number, field: 'group' | 'roleId', value: string) => {
+        setSettings(prev => prev ? {
+            ...prev,
+            groupRoleMappings: prev.groupRoleMappings.map((mapping, i) => i === index ? { ...mapping, [field]: value } : mapping),
+        } : null);
+    };
+
+    const addMapping = () => {
+        setSettings(prev => prev ? { ...prev, groupRoleMappings: [...prev.groupRoleMappings, { group: '', roleId: '' }] } : null);
+    };
+
+    const removeMapping = (index: number) => {
+        setSettings(prev => prev ? { ...prev, groupRoleMappings: prev.groupRoleMappings.filter((_, i) => i !== index) } : null);
+    };
+
+    const getRoleName = (roleId: string | null) => roles.find(r => r.id === roleId)?.name || roleId;
+
+    if (isAuthorized === false) {
+        return null;
+    }
+
+    if (isLoading || !settings) {
+        return (
+            <main className="flex-1 p-4 md:p-6 lg:p-8">
+                <div className="mx-auto max-w-4xl space-y-6">
+                    <Skeleton className="h-96 w-full" />
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <main className="flex-1 p-4 md:p-6 lg:p-8">
+            <form onSubmit={handleSave}>
+                <div className="mx-auto max-w-4xl space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <div className="flex items-center gap-4">
+                                <KeyRound className="h-8 w-8 text-primary"/>
+                                <div>
+                                    <CardTitle>Directorio Corporativo (LDAP / Active Directory)</CardTitle>
+                                    <CardDescription>
+                                        Permite iniciar sesión con las credenciales del directorio. Los usuarios se crean automáticamente en su primer ingreso.
+                                        El administrador inicial siempre ingresa con su contraseña local.
+                                    </CardDescription>
+                                </div>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            <div className="flex items-center space-x-2">
+                                <Switch id="enabled" checked={settings.enabled} onCheckedChange={(checked) => setSettings(prev => prev ? { ...prev, enabled: checked } : null)} />
+                                <Label htmlFor="enabled">Habilitar inicio de sesión con LDAP</Label>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div className="space-y-2">
+                                    <Label htmlFor="url">URL del Servidor</Label>
+                                    <Input id="url" value={settings.url} onChange={handleChange} placeholder="ldap://localhost:389" />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="timeoutMs">Tiempo de Espera (ms)</Label>
+                                    <Input id="timeoutMs" type="number" value={settings.timeoutMs || ''} onChange={handleNumberChange} placeholder="5000" />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="bindDn">DN de la Cuenta de Servicio</Label>
+                                    <Input id="bindDn" value={settings.bindDn} onChange={handleChange} placeholder="cn=admin,dc=empresa,dc=local" />
+                                    <p className="text-xs text-muted-foreground">Déjalo vacío para buscar de forma anónima.</p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="bindPassword">Contraseña de la Cuenta de Servicio</Label>
+                                    <Input id="bindPassword" type="password" value={settings.bindPassword} onChange={handleChange} placeholder="••••••••" />
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Switch id="startTls" checked={settings.startTls} onCheckedChange={(checked) => setSettings(prev => prev ? { ...prev, startTls: checked } : null)} />
+                                    <Label htmlFor="startTls">Usar StartTLS (solo con ldap://)</Label>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Switch id="tlsRejectUnauthorized" checked={settings.tlsRejectUnauthorized} onCheckedChange={(checked) => setSettings(prev => prev ? { ...prev, tlsRejectUnauthorized: checked } : null)} />
+                                    <Label htmlFor="tlsRejectUnauthorized">Validar el certificado del servidor</Label>
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Búsqueda de Usuarios</CardTitle>
+                            <CardDescription>
+                                El filtro se usa para encontrar al usuario con el valor que escribe al iniciar sesión. Usa {'{{username}}'} como marcador.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="baseDn">DN Base de Búsqueda</Label>
+                                <Input id="baseDn" value={settings.baseDn} onChange={handleChange} placeholder="ou=people,dc=empresa,dc=local" />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="userFilter">Filtro de Usuario</Label>
+                                <Input id="userFilter" value={settings.userFilter} onChange={handleChange} className="font-mono text-xs" />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="emailAttribute">Atributo de Correo</Label>
+                                <Input id="emailAttribute" value={settings.emailAttribute} onChange={handleChange} placeholder="mail" />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="nameAttribute">Atributo de Nombre</Label>
+                                <Input id="nameAttribute" value={settings.nameAttribute} onChange={handleChange} placeholder="cn" />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="groupAttribute">Atributo de Grupos</Label>
+                                <Input id="groupAttribute" value={settings.groupAttribute} onChange={handleChange} placeholder="memberOf" />
+                                <p className="text-xs text-muted-foreground">En OpenLDAP requiere el overlay memberof.</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Mapeo de Grupos a Roles</CardTitle>
+                            <CardDescription>
+                                Se aplica el primer grupo de la lista al que pertenezca el usuario. Indica el DN completo del grupo o solo su CN.
+                                El rol se actualiza en cada inicio de sesión.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Grupo del Directorio</TableHead>
+                                        <TableHead className="w-56">Rol</TableHead>
+                                        <TableHead className="w-12"></TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {settings.groupRoleMappings.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={3} className="text-center text-muted-foreground">No hay grupos mapeados.</TableCell>
+                                        </TableRow>
+                                    )}
+                                    {settings.groupRoleMappings.map((mapping, index) => (
+                                        <TableRow key={index}>
+                                            <TableCell>
+                                                <Input value={mapping.group} onChange={(e) => handleMappingChange(index, 'group', e.target.value)} placeholder="cn=bodega,ou=groups,dc=empresa,dc=local" />
+                                            </TableCell>
+                                            <TableCell>
+                                                <Select value={mapping.roleId} onValueChange={(value) => handleMappingChange(index, 'roleId', value)}>
+                                                    <SelectTrigger><SelectValue placeholder="Seleccionar rol..." /></SelectTrigger>
+                                                    <SelectContent>
+                                                        {roles.map(role => <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>)}
+                                                    </SelectContent>
+                                                </Select>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Button type="button" variant="ghost" size="icon" onClick={() => removeMapping(index)}>
+                                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                            <Button type="button" variant="outline" onClick={addMapping}>
+                                <PlusCircle className="mr-2 h-4 w-4" />
+                                Agregar Grupo
+                            </Button>
+                            <div className="space-y-2 max-w-sm">
+                                <Label>Rol para usuarios sin grupo mapeado</Label>
+                                <Select value={settings.defaultRoleId || DENY_ACCESS_VALUE} onValueChange={(value) => setSettings(prev => prev ? { ...prev, defaultRoleId: value === DENY_ACCESS_VALUE ? '' : value } : null)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={DENY_ACCESS_VALUE}>Denegar el acceso</SelectItem>
+                                        {roles.map(role => <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Probar Conexión</CardTitle>
+                            <CardDescription>
+                                Verifica la conexión y la cuenta de servicio con los valores actuales (sin guardarlos). Opcionalmente busca un usuario para ver sus grupos y el rol que recibiría.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2 max-w-sm">
+                                <Label htmlFor="testLogin">Usuario de Prueba (opcional)</Label>
+                                <Input id="testLogin" value={testLogin} onChange={(e) => setTestLogin(e.target.value)} placeholder="usuario@empresa.com" />
+                            </div>
+                            {testResult?.user && (
+                                <div className="rounded-md border p-4 text-sm space-y-1">
+                                    <p><span className="font-semibold">DN:</span> <span className="font-mono text-xs">{testResult.user.dn}</span></p>
+                                    <p><span className="font-semibold">Nombre:</span> {testResult.user.name}</p>
+                                    <p><span className="font-semibold">Correo:</span> {testResult.user.email}</p>
+                                    <p><span className="font-semibold">Grupos:</span> {testResult.user.groups.length > 0 ? testResult.user.groups.join('; ') : 'Ninguno'}</p>
+                                    <p><span className="font-semibold">Rol asignado:</span> {testResult.user.roleId ? getRoleName(testResult.user.roleId) : 'Acceso denegado'}</p>
+                                </div>
+                            )}
+                        </CardContent>
+                        <CardFooter>
+                            <Button type="button" variant="outline" onClick={handleTest} disabled={isTesting}>
+                                {isTesting ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <PlugZap className="mr-2 h-4 w-4" />}
+                                Probar Conexión
+                            </Button>
+                        </CardFooter>
+                    </Card>
+
+                    <Card>
+                        <CardFooter className="border-t px-6 py-4">
+                            <Button type="submit" disabled={isSaving}>
+                                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Save className="mr-2 h-4 w-4"/>}
+                                Guardar Toda la Configuración
+                            </Button>
+                        </CardFooter>
+                    </Card>
+                </div>
+            </form>
+        </main>
+    );
+}
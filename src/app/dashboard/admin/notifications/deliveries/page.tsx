@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Admin page listing the deliveries of the notification outbox.
+ * Shows, per rule, which notifications are pending, sent, failing or dead-lettered,
+ * with the last error, and lets administrators resend any of them.
+ */
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ArrowLeft, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
+import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
+import { useToast } from "@/modules/core/hooks/use-toast";
+import { getAllNotificationRules, getNotificationDeliveries, resendNotificationDelivery } from "@/modules/notifications/lib/actions";
+import { NOTIFICATION_EVENTS } from "@/modules/notifications/lib/notification-events";
+import type { NotificationDelivery, NotificationDeliveryStatus, NotificationRule } from "@/modules/core/types";
+
+const ALL = 'all';
+
+const statusLabels: Record<NotificationDeliveryStatus, string> = {
+  pending: 'Pendiente',
+  sent: 'Enviado',
+  failed: 'Fallido (reintentando)',
+  dead: 'Fallido (descartado)',
+};
+
+const statusVariants: Record<NotificationDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  sent: 'secondary',
+  failed: 'default',
+  dead: 'destructive',
+};
+
+const formatDate = (value: string | null) => value ? format(new Date(value), "dd/MM/yyyy HH:mm:ss", { locale: es }) : '-';
+
+export default function NotificationDeliveriesPage() {
+  const { isAuthorized, hasPermission } = useAuthorization(['admin:notifications:read']);
+  const { setTitle } = usePageTitle();
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [resendingId, setResendingId] = useState<number | null>(null);
+  const [ruleFilter, setRuleFilter] = useState<string>(ALL);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+
+  const fetchDeliveries = async (isRefreshAction = false) => {
+    if (isRefreshAction) {
+        setIsRefreshing(true);
+    } else {
+        setIsLoading(true);
+    }
+    try {
+        const [fetchedDeliveries, fetchedRules] = await Promise.all([
+            getNotificationDeliveries({
+                ruleId: ruleFilter === ALL ? undefined : Number(ruleFilter),
+                status: statusFilter === ALL ? undefined : statusFilter as NotificationDeliveryStatus,
+            }),
+            getAllNotificationRules(),
+        ]);
+        setDeliveries(fetchedDeliveries);
+        setRules(fetchedRules);
+    } catch (error: any) {
+        toast({ title: 'Error al Cargar', description: error.message, variant: 'destructive' });
+    } finally {
+        if (isRefreshAction) {
+            setIsRefreshing(false);
+        } else {
+            setIsLoading(false);
+        }
+    }
+  };
+
+  useEffect(() => {
+    setTitle("Historial de Envíos");
+    if (isAuthorized) {
+        fetchDeliveries(false);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setTitle, isAuthorized, ruleFilter, statusFilter]);
+
+  const handleResend = async (delivery: NotificationDelivery) => {
+    setResendingId(delivery.id);
+    try {
+        const updated = await resendNotificationDelivery(delivery.id);
+        if (updated) {
+            setDeliveries(prev => prev.map(d => d.id === updated.id ? updated : d));
+        }
+        if (updated?.status === 'sent') {
+            toast({ title: 'Notificación Reenviada', description: `La notificación de "${delivery.ruleName}" fue enviada.` });
+        } else {
+            toast({ title: 'Reenvío en Cola', description: updated?.lastError || 'La notificación se enviará en el próximo ciclo.', variant: updated?.lastError ? 'destructive' : 'default' });
+        }
+    } catch (error: any) {
+        toast({ title: 'Error al Reenviar', description: error.message, variant: 'destructive' });
+    } finally {
+        setResendingId(null);
+    }
+  };
+
+  if (isAuthorized === false) {
+    return null;
+  }
+
+  return (
+      <main className="flex-1 p-4 md:p-6 lg:p-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle>Historial de Envíos</CardTitle>
+                <CardDescription>
+                  Cada evento se guarda antes de enviarse. Los envíos fallidos se reintentan con espera exponencial y, tras agotar los intentos, quedan descartados hasta que se reenvíen.
+                </CardDescription>
+              </div>
+              <div className="flex w-full sm:w-auto gap-2">
+                <Button variant="outline" asChild className="flex-1 sm:flex-initial">
+                  <Link href="/dashboard/admin/notifications"><ArrowLeft className="mr-2 h-4 w-4" />Volver a Reglas</Link>
+                </Button>
+                <Button variant="outline" onClick={() => fetchDeliveries(true)} className="flex-1 sm:flex-initial" disabled={isRefreshing}>
+                  {isRefreshing ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <RefreshCw className="mr-2 h-4 w-4" />}
+                  Refrescar
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row flex-wrap gap-4">
+                <Select value={ruleFilter} onValueChange={setRuleFilter}>
+                    <SelectTrigger className="w-full md:w-[280px]">
+                        <SelectValue placeholder="Regla" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>Todas las reglas</SelectItem>
+                        {rules.map(rule => (
+                            <SelectItem key={rule.id} value={String(rule.id)}>{rule.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="w-full md:w-[240px]">
+                        <SelectValue placeholder="Estado" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>Todos los estados</SelectItem>
+                        {Object.entries(statusLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <ScrollArea className="h-[60vh] rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">Creado</TableHead>
+                    <TableHead>Regla</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead className="text-center">Intentos</TableHead>
+                    <TableHead>Detalle</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && !isRefreshing ? (
+                     <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                           <div className="flex justify-center items-center gap-2">
+                             <Loader2 className="h-5 w-5 animate-spin"/>
+                             <span>Cargando envíos...</span>
+                           </div>
+                        </TableCell>
+                    </TableRow>
+                  ) : deliveries.length > 0 ? (
+                    deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell className="font-medium">{formatDate(delivery.createdAt)}</TableCell>
+                        <TableCell>
+                          <span>{delivery.ruleName}</span>
+                          <span className="block text-xs text-muted-foreground">{NOTIFICATION_EVENTS.find(e => e.id === delivery.event)?.name || delivery.event}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[delivery.status]}>{statusLabels[delivery.status] || delivery.status}</Badge>
+                        </TableCell>
+                        <TableCell className="text-center">{delivery.attempts}</TableCell>
+                        <TableCell className="text-xs">
+                          {delivery.status === 'sent' && <span>Enviado el {formatDate(delivery.sentAt)}</span>}
+                          {delivery.status === 'failed' && <span className="block">Próximo intento: {formatDate(delivery.nextAttemptAt)}</span>}
+                          {delivery.lastError && <span className="block text-destructive break-all">{delivery.lastError}</span>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {hasPermission('admin:notifications:write') && delivery.status !== 'pending' && (
+                            <Button variant="outline" size="sm" onClick={() => handleResend(delivery)} disabled={resendingId !== null}>
+                              {resendingId === delivery.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <RotateCcw className="mr-2 h-4 w-4" />}
+                              Reenviar
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        No hay envíos con los filtros actuales.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </main>
+  );
+}
@@ -9,23 +9,28 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger, DialogClose } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/modules/core/hooks/use-toast';
 import { usePageTitle } from '@/modules/core/hooks/usePageTitle';
 import { useAuthorization } from '@/modules/core/hooks/useAuthorization';
-import type { NotificationRule, NotificationEventId, ScheduledTask } from '@/modules/core/types';
-import { getAllNotificationRules, saveNotificationRule, deleteNotificationRule, getAllScheduledTasks, saveScheduledTask, deleteScheduledTask } from '@/modules/notifications/lib/actions';
+import type { NotificationRule, NotificationEventId, NotificationActionType, NotificationConditionOperator, NotificationRuleCondition, ScheduledTask, ScheduledTaskRun, ScheduledTaskRunStatus, ScheduledTaskRunSummary, TelegramDestination, WebhookConfig } from '@/modules/core/types';
+import { getAllNotificationRules, getNotificationServiceSettings, saveNotificationRule, deleteNotificationRule, testNotificationWebhook, getAllScheduledTasks, saveScheduledTask, deleteScheduledTask, runScheduledTaskNow, getScheduledTaskRuns, getScheduledTaskRunSummaries } from '@/modules/notifications/lib/actions';
 import { NOTIFICATION_EVENTS } from '@/modules/notifications/lib/notification-events';
+import { OPERATORS_BY_FIELD_TYPE } from '@/modules/notifications/lib/notification-conditions';
 import { AVAILABLE_TASKS } from '@/lib/task-registry';
-import { PlusCircle, Trash2, Edit, Loader2, Settings, AlertTriangle } from 'lucide-react';
+import { getDefaultTaskParams } from '@/lib/task-params';
+import { TaskParamsFields } from '@/components/dashboard/task-params-fields';
+import { PlusCircle, Trash2, Edit, Loader2, Settings, Send, History, FileText, Play, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import Link from 'next/link';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import cronParser from 'cron-parser';
+import { DEFAULT_TASK_TIMEZONE, TASK_TIMEZONES, getCronPreview } from '@/lib/cron-schedule';
 
 const emptyRule: Omit<NotificationRule, 'id'> = {
     name: '',
@@ -33,34 +38,100 @@ const emptyRule: Omit<NotificationRule, 'id'> = {
     action: 'sendEmail',
     recipients: [],
     subject: '',
+    conditions: [],
     enabled: true,
 };
 
+const defaultWebhook: WebhookConfig = {
+    url: '',
+    secret: '',
+    headers: {},
+    timeoutMs: 10000,
+    maxRetries: 3,
+};
+
+const actionLabels: Record<NotificationActionType, string> = {
+    sendEmail: 'Correo',
+    sendTelegram: 'Telegram',
+    sendWebhook: 'Webhook',
+};
+
+const operatorLabels: Record<NotificationConditionOperator, string> = {
+    equals: 'es igual a',
+    notEquals: 'es distinto de',
+    in: 'es uno de',
+    gt: 'es mayor que',
+    lt: 'es menor que',
+    contains: 'contiene',
+};
+
+/** Parses one "Name: value" header per line, ignoring blank or malformed lines. */
+function parseHeadersText(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const separatorIndex = line.indexOf(':');
+        if (separatorIndex <= 0) continue;
+        const name = line.slice(0, separatorIndex).trim();
+        if (name) headers[name] = line.slice(separatorIndex + 1).trim();
+    }
+    return headers;
+}
+
+const formatHeadersText = (headers?: Record<string, string>) => Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
 const emptyTask: Omit<ScheduledTask, 'id'> = {
     name: '',
     schedule: '0 2 * * *', // Every day at 2 AM
     taskId: 'sync-erp',
     enabled: true,
+    params: getDefaultTaskParams(AVAILABLE_TASKS['sync-erp']?.params),
+    timezone: DEFAULT_TASK_TIMEZONE,
 };
 
-function CronDescription({ schedule }: { schedule: string }) {
-    try {
-        const interval = cronParser.parseExpression(schedule);
-        const readable = interval.stringify(false);
-        const nextRun = interval.next().toDate();
-        return (
-            <p className="text-xs text-muted-foreground">
-                Se ejecutará {readable.charAt(0).toLowerCase() + readable.slice(1)}. Próxima ejecución: {nextRun.toLocaleString('es-CR')}.
-            </p>
-        );
-    } catch (err) {
+// Radix selects do not accept an empty value, so tasks without a time zone use this one.
+const SERVER_TIMEZONE = '__server__';
+
+function CronPreview({ schedule, timezone }: { schedule: string; timezone?: string | null }) {
+    const preview = getCronPreview(schedule, timezone);
+    if (!preview) {
         return <p className="text-xs text-destructive">Expresión cron inválida.</p>;
     }
+    return (
+        <div className="text-xs text-muted-foreground space-y-1">
+            <p className="font-medium text-foreground">{preview.description}{timezone ? ` (${timezone})` : ''}.</p>
+            <p>Próximas ejecuciones:</p>
+            <ul className="list-disc pl-5">
+                {preview.nextRuns.map(run => <li key={run.getTime()}>{run.toLocaleString('es-CR', timezone ? { timeZone: timezone } : undefined)}</li>)}
+            </ul>
+        </div>
+    );
+}
+
+const runStatusBadges: Record<ScheduledTaskRunStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+    running: { label: 'En ejecución', variant: 'secondary' },
+    success: { label: 'Exitosa', variant: 'default' },
+    error: { label: 'Error', variant: 'destructive' },
+    timeout: { label: 'Tiempo agotado', variant: 'destructive' },
+    skipped: { label: 'Omitida', variant: 'outline' },
+};
+
+function RunStatusBadge({ status }: { status: ScheduledTaskRunStatus }) {
+    const { label, variant } = runStatusBadges[status];
+    return <Badge variant={variant}>{status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}{label}</Badge>;
+}
+
+function formatRunDuration(durationMs: number | null): string {
+    if (durationMs === null) return '-';
+    if (durationMs < 1000) return `${durationMs} ms`;
+    const seconds = Math.round(durationMs / 1000);
+    return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
 }
 
+const formatRunDate = (date: string | null) => date ? new Date(date).toLocaleString('es-CR') : '-';
+
 
 export default function AutomationManagerPage() {
-    useAuthorization(['admin:access']);
+    const { hasPermission } = useAuthorization(['admin:access']);
     const { setTitle } = usePageTitle();
     const { toast } = useToast();
     
@@ -74,6 +145,9 @@ export default function AutomationManagerPage() {
     const [currentRule, setCurrentRule] = useState<Omit<NotificationRule, 'id'> | NotificationRule>(emptyRule);
     const [selectedModule, setSelectedModule] = useState('');
     const [ruleToDelete, setRuleToDelete] = useState<NotificationRule | null>(null);
+    const [webhookHeadersText, setWebhookHeadersText] = useState('');
+    const [isTestingWebhook, setIsTestingWebhook] = useState(false);
+    const [telegramDestinations, setTelegramDestinations] = useState<TelegramDestination[]>([]);
 
     // --- Scheduled Tasks State ---
     const [tasks, setTasks] = useState<ScheduledTask[]>([]);
@@ -81,18 +155,27 @@ export default function AutomationManagerPage() {
     const [isEditingTask, setIsEditingTask] = useState(false);
     const [currentTask, setCurrentTask] = useState<Omit<ScheduledTask, 'id'> | ScheduledTask>(emptyTask);
     const [taskToDelete, setTaskToDelete] = useState<ScheduledTask | null>(null);
+    const [runSummaries, setRunSummaries] = useState<ScheduledTaskRunSummary[]>([]);
+    const [startingTaskId, setStartingTaskId] = useState<number | null>(null);
+    const [historyTask, setHistoryTask] = useState<ScheduledTask | null>(null);
+    const [taskRuns, setTaskRuns] = useState<ScheduledTaskRun[]>([]);
+    const [isLoadingRuns, setIsLoadingRuns] = useState(false);
 
     useEffect(() => {
         setTitle("Gestor de Automatización");
         const fetchData = async () => {
             setIsLoading(true);
             try {
-                const [fetchedRules, fetchedTasks] = await Promise.all([
+                const [fetchedRules, fetchedTasks, telegramSettings, fetchedRunSummaries] = await Promise.all([
                     getAllNotificationRules(),
                     getAllScheduledTasks(),
+                    getNotificationServiceSettings('telegram'),
+                    getScheduledTaskRunSummaries(),
                 ]);
                 setRules(fetchedRules);
                 setTasks(fetchedTasks);
+                setRunSummaries(fetchedRunSummaries);
+                setTelegramDestinations(telegramSettings.telegram?.destinations || []);
             } catch (error: any) {
                 toast({ title: 'Error', description: 'No se pudieron cargar las reglas y tareas.', variant: 'destructive' });
             } finally {
@@ -105,23 +188,62 @@ export default function AutomationManagerPage() {
     // --- Memoized values for Notification Rules ---
     const eventModules = useMemo(() => Array.from(new Set(NOTIFICATION_EVENTS.map(e => e.module))), []);
     const eventsForSelectedModule = useMemo(() => NOTIFICATION_EVENTS.filter(e => e.module === selectedModule), [selectedModule]);
+    const eventFields = useMemo(() => NOTIFICATION_EVENTS.find(e => e.id === currentRule.event)?.fields || [], [currentRule.event]);
 
     // --- Handlers for Notification Rules ---
     const handleRuleFormChange = (field: keyof typeof currentRule, value: any) => setCurrentRule(prev => ({ ...prev, [field]: value }));
+    // Recipients mean emails for one action and Telegram destinations for the other.
+    const handleActionChange = (action: NotificationActionType) => setCurrentRule(prev => ({ ...prev, action, recipients: prev.action === action ? prev.recipients : [] }));
+    const toggleTelegramDestination = (destinationId: string, checked: boolean) => handleRuleFormChange('recipients', checked
+        ? [...currentRule.recipients, destinationId]
+        : currentRule.recipients.filter(id => id !== destinationId));
+    const describeRecipients = (rule: NotificationRule) => rule.action !== 'sendTelegram'
+        ? null
+        : rule.recipients.length === 0
+            ? 'Chat principal'
+            : rule.recipients.map(id => telegramDestinations.find(d => d.id === id)?.name || id).join(', ');
+    const handleWebhookChange = (field: keyof WebhookConfig, value: any) => setCurrentRule(prev => ({ ...prev, webhook: { ...defaultWebhook, ...prev.webhook, [field]: value } }));
+    const buildRuleToSave = () => currentRule.action === 'sendWebhook'
+        ? { ...currentRule, webhook: { ...defaultWebhook, ...currentRule.webhook, headers: parseHeadersText(webhookHeadersText) } }
+        : { ...currentRule, webhook: null };
+    const handleEventChange = (eventId: NotificationEventId) => {
+        // Keep only the conditions whose field also exists in the new event's catalog.
+        const fields = NOTIFICATION_EVENTS.find(e => e.id === eventId)?.fields || [];
+        setCurrentRule(prev => ({ ...prev, event: eventId, conditions: (prev.conditions || []).filter(c => fields.some(f => f.path === c.field)) }));
+    };
     const handleModuleChange = (moduleName: string) => {
         setSelectedModule(moduleName);
         const firstEventOfModule = NOTIFICATION_EVENTS.find(e => e.module === moduleName)?.id;
-        if (firstEventOfModule) handleRuleFormChange('event', firstEventOfModule);
+        if (firstEventOfModule) handleEventChange(firstEventOfModule);
     };
 
+    // --- Handlers for rule conditions ---
+    const addCondition = () => {
+        const field = eventFields[0];
+        if (!field) return;
+        handleRuleFormChange('conditions', [...(currentRule.conditions || []), { field: field.path, operator: OPERATORS_BY_FIELD_TYPE[field.type][0], value: '' }]);
+    };
+    const updateCondition = (index: number, changes: Partial<NotificationRuleCondition>) => {
+        handleRuleFormChange('conditions', (currentRule.conditions || []).map((c, i) => i === index ? { ...c, ...changes } : c));
+    };
+    const handleConditionFieldChange = (index: number, path: string) => {
+        const field = eventFields.find(f => f.path === path);
+        if (field) updateCondition(index, { field: path, operator: OPERATORS_BY_FIELD_TYPE[field.type][0], value: '' });
+    };
+    const removeCondition = (index: number) => handleRuleFormChange('conditions', (currentRule.conditions || []).filter((_, i) => i !== index));
+
     const handleSaveRule = async () => {
         if (!currentRule.name || !currentRule.event || !currentRule.action || (currentRule.action === 'sendEmail' && currentRule.recipients.length === 0)) {
             toast({ title: 'Datos incompletos', description: 'Nombre, evento, acción y al menos un destinatario (para correos) son requeridos.', variant: 'destructive' });
             return;
         }
+        if (currentRule.action === 'sendWebhook' && !currentRule.webhook?.url) {
+            toast({ title: 'Datos incompletos', description: 'La URL del webhook es requerida.', variant: 'destructive' });
+            return;
+        }
         setIsSubmitting(true);
         try {
-            const savedRule = await saveNotificationRule(currentRule);
+            const savedRule = await saveNotificationRule(buildRuleToSave());
             setRules(prev => isEditingRule ? prev.map(r => r.id === savedRule.id ? savedRule : r) : [...prev, savedRule]);
             setIsRuleFormOpen(false);
             toast({ title: 'Regla Guardada', description: `La regla "${savedRule.name}" ha sido guardada.` });
@@ -130,6 +252,24 @@ export default function AutomationManagerPage() {
         } finally { setIsSubmitting(false); }
     };
 
+    const handleTestWebhook = async () => {
+        if (!currentRule.webhook?.url) {
+            toast({ title: 'Datos incompletos', description: 'Indique la URL del webhook antes de enviar una prueba.', variant: 'destructive' });
+            return;
+        }
+        setIsTestingWebhook(true);
+        try {
+            const result = await testNotificationWebhook(buildRuleToSave());
+            if (result.ok) {
+                toast({ title: 'Webhook Respondió Correctamente', description: `HTTP ${result.status} en ${result.durationMs} ms (${result.attempts} intento(s)).` });
+            } else {
+                toast({ title: 'Falló el Envío de Prueba', description: `${result.error} (${result.attempts} intento(s)).`, variant: 'destructive' });
+            }
+        } catch (error: any) {
+            toast({ title: 'Error en la Prueba', description: error.message, variant: 'destructive' });
+        } finally { setIsTestingWebhook(false); }
+    };
+
     const handleDeleteRule = async () => {
         if (!ruleToDelete) return;
         setIsSubmitting(true);
@@ -146,11 +286,13 @@ export default function AutomationManagerPage() {
     const openRuleForm = (rule?: NotificationRule) => {
         if (rule) {
             setCurrentRule(rule);
+            setWebhookHeadersText(formatHeadersText(rule.webhook?.headers));
             setSelectedModule(NOTIFICATION_EVENTS.find(e => e.id === rule.event)?.module || '');
             setIsEditingRule(true);
         } else {
             const firstModule = eventModules[0] || '';
             setCurrentRule(emptyRule);
+            setWebhookHeadersText('');
             setSelectedModule(firstModule);
             handleModuleChange(firstModule);
             setIsEditingRule(false);
@@ -160,6 +302,8 @@ export default function AutomationManagerPage() {
 
     // --- Handlers for Scheduled Tasks ---
     const handleTaskFormChange = (field: keyof typeof currentTask, value: any) => setCurrentTask(prev => ({ ...prev, [field]: value }));
+    // Each action declares its own parameters, so changing it starts from the defaults of the new one.
+    const handleTaskActionChange = (taskId: string) => setCurrentTask(prev => ({ ...prev, taskId, params: getDefaultTaskParams(AVAILABLE_TASKS[taskId]?.params) }));
     
     const handleSaveTask = async () => {
         if (!currentTask.name || !currentTask.schedule || !currentTask.taskId) {
@@ -177,6 +321,15 @@ export default function AutomationManagerPage() {
         } finally { setIsSubmitting(false); }
     };
 
+    const handleToggleTask = async (task: ScheduledTask, enabled: boolean) => {
+        try {
+            const savedTask = await saveScheduledTask({ ...task, enabled });
+            setTasks(prev => prev.map(t => t.id === savedTask.id ? savedTask : t));
+        } catch (error: any) {
+            toast({ title: 'Error al Guardar', description: error.message, variant: 'destructive' });
+        }
+    };
+
     const handleDeleteTask = async () => {
         if (!taskToDelete) return;
         setIsSubmitting(true);
@@ -190,6 +343,34 @@ export default function AutomationManagerPage() {
         } finally { setIsSubmitting(false); }
     };
 
+    const handleRunTaskNow = async (task: ScheduledTask) => {
+        setStartingTaskId(task.id);
+        try {
+            const run = await runScheduledTaskNow(task.id);
+            setRunSummaries(prev => [...prev.filter(s => s.scheduledTaskId !== task.id), { scheduledTaskId: task.id, lastRun: run, lastSuccessAt: prev.find(s => s.scheduledTaskId === task.id)?.lastSuccessAt ?? null }]);
+            toast({ title: 'Tarea Iniciada', description: `"${task.name}" se está ejecutando. Consulte su historial para ver el resultado.` });
+        } catch (error: any) {
+            toast({ title: 'No se pudo ejecutar', description: error.message, variant: 'destructive' });
+        } finally { setStartingTaskId(null); }
+    };
+
+    const loadTaskHistory = async (task: ScheduledTask) => {
+        setIsLoadingRuns(true);
+        try {
+            const [runs, summaries] = await Promise.all([getScheduledTaskRuns(task.id), getScheduledTaskRunSummaries()]);
+            setTaskRuns(runs);
+            setRunSummaries(summaries);
+        } catch (error: any) {
+            toast({ title: 'Error', description: 'No se pudo cargar el historial de la tarea.', variant: 'destructive' });
+        } finally { setIsLoadingRuns(false); }
+    };
+
+    const openTaskHistory = (task: ScheduledTask) => {
+        setHistoryTask(task);
+        setTaskRuns([]);
+        loadTaskHistory(task);
+    };
+
     const openTaskForm = (task?: ScheduledTask) => {
         if (task) {
             setCurrentTask(task);
@@ -226,6 +407,12 @@ export default function AutomationManagerPage() {
                                 <Button variant="outline" asChild>
                                     <Link href="/dashboard/admin/notifications/settings"><Settings className="mr-2 h-4 w-4"/> Configurar Servicios</Link>
                                 </Button>
+                                <Button variant="outline" asChild>
+                                    <Link href="/dashboard/admin/notifications/templates"><FileText className="mr-2 h-4 w-4"/> Plantillas</Link>
+                                </Button>
+                                <Button variant="outline" asChild>
+                                    <Link href="/dashboard/admin/notifications/deliveries"><History className="mr-2 h-4 w-4"/> Historial de Envíos</Link>
+                                </Button>
                                 <Button onClick={() => openRuleForm()}><PlusCircle className="mr-2 h-4 w-4"/> Nueva Regla</Button>
                             </div>
                             <Table>
@@ -242,8 +429,11 @@ export default function AutomationManagerPage() {
                                     {rules.length > 0 ? rules.map(rule => (
                                         <TableRow key={rule.id}>
                                             <TableCell className="font-medium">{rule.name}</TableCell>
-                                            <TableCell>{NOTIFICATION_EVENTS.find(e => e.id === rule.event)?.name || rule.event}</TableCell>
-                                            <TableCell>{rule.action === 'sendEmail' ? 'Correo' : 'Telegram'}</TableCell>
+                                            <TableCell>
+                                                {NOTIFICATION_EVENTS.find(e => e.id === rule.event)?.name || rule.event}
+                                                {!!rule.conditions?.length && <span className="block text-xs text-muted-foreground">{rule.conditions.length} condición(es)</span>}
+                                            </TableCell>
+                                            <TableCell>{actionLabels[rule.action] || rule.action}{describeRecipients(rule) && <p className="text-xs text-muted-foreground">{describeRecipients(rule)}</p>}</TableCell>
                                             <TableCell><Switch checked={rule.enabled} onCheckedChange={(checked) => saveNotificationRule({ ...rule, enabled: checked })}/></TableCell>
                                             <TableCell className="text-right">
                                                 <Button variant="ghost" size="icon" onClick={() => openRuleForm(rule)}><Edit className="h-4 w-4"/></Button>
@@ -263,12 +453,6 @@ export default function AutomationManagerPage() {
 
                         {/* SCHEDULED TASKS TAB */}
                         <TabsContent value="tasks">
-                            <Alert variant="destructive" className="my-4">
-                                <AlertTriangle className="h-4 w-4" />
-                                <AlertDescription>
-                                    Los cambios en las tareas programadas (crear, editar, eliminar) solo se aplicarán después de que se **reinicie el servidor** de la aplicación.
-                                </AlertDescription>
-                            </Alert>
                              <div className="flex justify-end my-4">
                                 <Button onClick={() => openTaskForm()}><PlusCircle className="mr-2 h-4 w-4"/> Nueva Tarea</Button>
                             </div>
@@ -278,18 +462,32 @@ export default function AutomationManagerPage() {
                                         <TableHead>Nombre de la Tarea</TableHead>
                                         <TableHead>Horario (Cron)</TableHead>
                                         <TableHead>Acción a Ejecutar</TableHead>
+                                        <TableHead>Última Ejecución Exitosa</TableHead>
                                         <TableHead>Estado</TableHead>
                                         <TableHead className="text-right">Acciones</TableHead>
                                     </TableRow>
                                 </TableHeader>
                                 <TableBody>
-                                    {tasks.length > 0 ? tasks.map(task => (
+                                    {tasks.length > 0 ? tasks.map(task => {
+                                        const summary = runSummaries.find(s => s.scheduledTaskId === task.id);
+                                        return (
                                         <TableRow key={task.id}>
                                             <TableCell className="font-medium">{task.name}</TableCell>
-                                            <TableCell className="font-mono">{task.schedule}</TableCell>
+                                            <TableCell>
+                                                <p className="font-mono">{task.schedule}</p>
+                                                <p className="text-xs text-muted-foreground">{getCronPreview(task.schedule, task.timezone, 0)?.description}{task.timezone ? ` (${task.timezone})` : ''}</p>
+                                            </TableCell>
                                             <TableCell>{AVAILABLE_TASKS[task.taskId]?.name || task.taskId}</TableCell>
-                                            <TableCell><Switch checked={task.enabled} onCheckedChange={(checked) => saveScheduledTask({ ...task, enabled: checked })}/></TableCell>
+                                            <TableCell>
+                                                <div className="flex flex-col items-start gap-1">
+                                                    <span className="text-sm">{summary?.lastSuccessAt ? formatRunDate(summary.lastSuccessAt) : 'Nunca'}</span>
+                                                    {summary?.lastRun && summary.lastRun.status !== 'success' && <RunStatusBadge status={summary.lastRun.status} />}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell><Switch checked={task.enabled} onCheckedChange={(checked) => handleToggleTask(task, checked)}/></TableCell>
                                             <TableCell className="text-right">
+                                                <Button variant="ghost" size="icon" title="Ejecutar ahora" onClick={() => handleRunTaskNow(task)} disabled={startingTaskId === task.id || summary?.lastRun?.status === 'running'}>{startingTaskId === task.id ? <Loader2 className="h-4 w-4 animate-spin"/> : <Play className="h-4 w-4"/>}</Button>
+                                                <Button variant="ghost" size="icon" title="Historial de ejecuciones" onClick={() => openTaskHistory(task)}><History className="h-4 w-4"/></Button>
                                                 <Button variant="ghost" size="icon" onClick={() => openTaskForm(task)}><Edit className="h-4 w-4"/></Button>
                                                 <AlertDialog>
                                                     <AlertDialogTrigger asChild><Button variant="ghost" size="icon" onClick={() => setTaskToDelete(task)}><Trash2 className="h-4 w-4 text-destructive"/></Button></AlertDialogTrigger>
@@ -300,7 +498,8 @@ export default function AutomationManagerPage() {
                                                 </AlertDialog>
                                             </TableCell>
                                         </TableRow>
-                                    )) : <TableRow><TableCell colSpan={5} className="text-center h-24">No hay tareas programadas.</TableCell></TableRow>}
+                                        );
+                                    }) : <TableRow><TableCell colSpan={6} className="text-center h-24">No hay tareas programadas.</TableCell></TableRow>}
                                 </TableBody>
                             </Table>
                         </TabsContent>
@@ -314,10 +513,83 @@ export default function AutomationManagerPage() {
                     <DialogHeader><DialogTitle>{isEditingRule ? 'Editar Regla' : 'Nueva Regla de Notificación'}</DialogTitle></DialogHeader>
                     <div className="grid gap-4 py-4">
                         <div className="space-y-2"><Label htmlFor="rule-name">Nombre de la Regla</Label><Input id="rule-name" value={currentRule.name} onChange={(e) => handleRuleFormChange('name', e.target.value)} placeholder="Ej: Notificar Despachos a Logística" /></div>
-                        <div className="grid grid-cols-2 gap-4"><div className="space-y-2"><Label htmlFor="rule-module">Módulo</Label><Select value={selectedModule} onValueChange={handleModuleChange}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{eventModules.map(module => <SelectItem key={module} value={module}>{module}</SelectItem>)}</SelectContent></Select></div><div className="space-y-2"><Label htmlFor="rule-event">Disparador (Evento)</Label><Select value={currentRule.event} onValueChange={(val) => handleRuleFormChange('event', val as NotificationEventId)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{eventsForSelectedModule.map(event => <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>)}</SelectContent></Select></div></div>
-                        <div className="space-y-2"><Label>Acción</Label><Select value={currentRule.action} onValueChange={(val) => handleRuleFormChange('action', val)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="sendEmail">Enviar Correo Electrónico</SelectItem><SelectItem value="sendTelegram">Enviar a Telegram</SelectItem></SelectContent></Select></div>
+                        <div className="grid grid-cols-2 gap-4"><div className="space-y-2"><Label htmlFor="rule-module">Módulo</Label><Select value={selectedModule} onValueChange={handleModuleChange}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{eventModules.map(module => <SelectItem key={module} value={module}>{module}</SelectItem>)}</SelectContent></Select></div><div className="space-y-2"><Label htmlFor="rule-event">Disparador (Evento)</Label><Select value={currentRule.event} onValueChange={(val) => handleEventChange(val as NotificationEventId)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{eventsForSelectedModule.map(event => <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>)}</SelectContent></Select></div></div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Condiciones (Opcional)</Label>
+                                <Button type="button" variant="outline" size="sm" onClick={addCondition} disabled={eventFields.length === 0}><PlusCircle className="mr-2 h-4 w-4"/> Agregar Condición</Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">La regla solo se activa cuando se cumplen todas las condiciones. En campos de líneas (ej. artículos), basta con que una línea cumpla.</p>
+                            {(currentRule.conditions || []).map((condition, index) => {
+                                const field = eventFields.find(f => f.path === condition.field);
+                                const useOptions = field && (field.type === 'boolean' || (field.options && condition.operator !== 'in' && condition.operator !== 'contains'));
+                                return (
+                                    <div key={index} className="grid grid-cols-[1fr_140px_1fr_auto] gap-2 items-center">
+                                        <Select value={condition.field} onValueChange={(val) => handleConditionFieldChange(index, val)}>
+                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                            <SelectContent>{eventFields.map(f => <SelectItem key={f.path} value={f.path}>{f.label}</SelectItem>)}</SelectContent>
+                                        </Select>
+                                        <Select value={condition.operator} onValueChange={(val) => updateCondition(index, { operator: val as NotificationConditionOperator })}>
+                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                            <SelectContent>{(field ? OPERATORS_BY_FIELD_TYPE[field.type] : []).map(op => <SelectItem key={op} value={op}>{operatorLabels[op]}</SelectItem>)}</SelectContent>
+                                        </Select>
+                                        {useOptions ? (
+                                            <Select value={condition.value} onValueChange={(val) => updateCondition(index, { value: val })}>
+                                                <SelectTrigger><SelectValue placeholder="Seleccione..." /></SelectTrigger>
+                                                <SelectContent>
+                                                    {(field.type === 'boolean' ? [{ value: 'true', label: 'Sí' }, { value: 'false', label: 'No' }] : field.options || []).map(option => (
+                                                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        ) : (
+                                            <Input
+                                                type={field?.type === 'number' && condition.operator !== 'in' ? 'number' : 'text'}
+                                                value={condition.value}
+                                                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                                                placeholder={condition.operator === 'in' ? 'valor1, valor2' : 'Valor'}
+                                            />
+                                        )}
+                                        <Button type="button" variant="ghost" size="icon" onClick={() => removeCondition(index)}><Trash2 className="h-4 w-4"/></Button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="space-y-2"><Label>Acción</Label><Select value={currentRule.action} onValueChange={(val) => handleActionChange(val as NotificationActionType)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent><SelectItem value="sendEmail">Enviar Correo Electrónico</SelectItem><SelectItem value="sendTelegram">Enviar a Telegram</SelectItem><SelectItem value="sendWebhook">Enviar a Webhook (HTTP POST)</SelectItem></SelectContent></Select></div>
                         {currentRule.action === 'sendEmail' && <div className="space-y-2"><Label htmlFor="rule-recipients">Destinatarios (Correos)</Label><Input id="rule-recipients" value={currentRule.recipients.join(', ')} onChange={(e) => handleRuleFormChange('recipients', e.target.value.split(',').map(s => s.trim()))} placeholder="correo1@ejemplo.com, correo2@ejemplo.com" /><p className="text-xs text-muted-foreground">Separar por comas.</p></div>}
-                        {currentRule.action === 'sendEmail' && <div className="space-y-2"><Label htmlFor="rule-subject">Asunto del Correo (Opcional)</Label><Input id="rule-subject" value={currentRule.subject || ''} onChange={(e) => handleRuleFormChange('subject', e.target.value)} placeholder="Asunto personalizado..."/></div>}
+                        {currentRule.action === 'sendEmail' && <div className="space-y-2"><Label htmlFor="rule-subject">Asunto del Correo (Opcional)</Label><Input id="rule-subject" value={currentRule.subject || ''} onChange={(e) => handleRuleFormChange('subject', e.target.value)} placeholder="Vacío: usa el asunto de la plantilla. Ej: Despacho {{documentId}} verificado"/></div>}
+                        {currentRule.action === 'sendTelegram' && (
+                            <div className="space-y-2">
+                                <Label>Destinos de Telegram</Label>
+                                {telegramDestinations.length === 0 ? (
+                                    <p className="text-xs text-muted-foreground">No hay destinos registrados; se usará el chat principal. Puedes registrar grupos y temas en <Link href="/dashboard/admin/notifications/settings" className="underline">Configuración de Servicios</Link>.</p>
+                                ) : (
+                                    <>
+                                        <div className="grid gap-2 rounded-md border p-3 sm:grid-cols-2">
+                                            {telegramDestinations.map(destination => (
+                                                <div key={destination.id} className="flex items-center gap-2">
+                                                    <Checkbox id={`destination-${destination.id}`} checked={currentRule.recipients.includes(destination.id)} onCheckedChange={(checked) => toggleTelegramDestination(destination.id, checked === true)} />
+                                                    <Label htmlFor={`destination-${destination.id}`} className="font-normal">{destination.name}</Label>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-muted-foreground">Sin destinos seleccionados se usa el chat principal.</p>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        {currentRule.action === 'sendWebhook' && (
+                            <div className="grid gap-4 rounded-md border p-4">
+                                <div className="space-y-2"><Label htmlFor="webhook-url">URL del Webhook</Label><Input id="webhook-url" value={currentRule.webhook?.url || ''} onChange={(e) => handleWebhookChange('url', e.target.value.trim())} placeholder="https://mi-sistema.ejemplo.com/hooks/clic-tools" /><p className="text-xs text-muted-foreground">Se envía un POST con el evento en formato JSON.</p></div>
+                                <div className="space-y-2"><Label htmlFor="webhook-secret">Secreto de Firma (Opcional)</Label><Input id="webhook-secret" type="password" value={currentRule.webhook?.secret || ''} onChange={(e) => handleWebhookChange('secret', e.target.value)} autoComplete="new-password" /><p className="text-xs text-muted-foreground">Si se indica, cada envío incluye el encabezado X-Clic-Signature (HMAC-SHA256 de &quot;timestamp.cuerpo&quot;) y X-Clic-Timestamp.</p></div>
+                                <div className="space-y-2"><Label htmlFor="webhook-headers">Encabezados Adicionales</Label><Textarea id="webhook-headers" rows={3} value={webhookHeadersText} onChange={(e) => setWebhookHeadersText(e.target.value)} placeholder={'Authorization: Bearer abc123\nX-Origen: clic-tools'} className="font-mono text-xs" /><p className="text-xs text-muted-foreground">Uno por línea, con el formato Nombre: valor.</p></div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2"><Label htmlFor="webhook-timeout">Tiempo de Espera (ms)</Label><Input id="webhook-timeout" type="number" min={1000} max={60000} step={1000} value={currentRule.webhook?.timeoutMs ?? defaultWebhook.timeoutMs} onChange={(e) => handleWebhookChange('timeoutMs', Number(e.target.value))} /></div>
+                                    <div className="space-y-2"><Label htmlFor="webhook-retries">Reintentos</Label><Input id="webhook-retries" type="number" min={0} max={5} value={currentRule.webhook?.maxRetries ?? defaultWebhook.maxRetries} onChange={(e) => handleWebhookChange('maxRetries', Number(e.target.value))} /><p className="text-xs text-muted-foreground">Con espera exponencial (1s, 2s, 4s...).</p></div>
+                                </div>
+                                <div><Button type="button" variant="outline" onClick={handleTestWebhook} disabled={isTestingWebhook}>{isTestingWebhook ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Send className="mr-2 h-4 w-4"/>}Enviar Payload de Prueba</Button></div>
+                            </div>
+                        )}
                     </div>
                     <DialogFooter><DialogClose asChild><Button type="button" variant="ghost">Cancelar</Button></DialogClose><Button onClick={handleSaveRule} disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}Guardar Regla</Button></DialogFooter>
                 </DialogContent>
@@ -325,7 +597,7 @@ export default function AutomationManagerPage() {
 
             {/* Dialog for Scheduled Tasks */}
             <Dialog open={isTaskFormOpen} onOpenChange={setIsTaskFormOpen}>
-                <DialogContent>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader><DialogTitle>{isEditingTask ? 'Editar Tarea Programada' : 'Nueva Tarea Programada'}</DialogTitle></DialogHeader>
                      <div className="grid gap-4 py-4">
                         <div className="space-y-2"><Label htmlFor="task-name">Nombre de la Tarea</Label><Input id="task-name" value={currentTask.name} onChange={(e) => handleTaskFormChange('name', e.target.value)} placeholder="Ej: Sincronización Diaria del ERP" /></div>
@@ -333,13 +605,70 @@ export default function AutomationManagerPage() {
                             <Label htmlFor="task-schedule">Horario (Expresión Cron)</Label>
                             <Input id="task-schedule" className="font-mono" value={currentTask.schedule} onChange={(e) => handleTaskFormChange('schedule', e.target.value)} />
                              <a href="https://crontab.guru/" target="_blank" rel="noopener noreferrer" className="text-xs text-muted-foreground underline hover:text-primary">Ayuda de Cron</a>
-                            <CronDescription schedule={currentTask.schedule} />
+                            <CronPreview schedule={currentTask.schedule} timezone={currentTask.timezone} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="task-timezone">Zona Horaria</Label>
+                            <Select value={currentTask.timezone || SERVER_TIMEZONE} onValueChange={(val) => handleTaskFormChange('timezone', val === SERVER_TIMEZONE ? null : val)}>
+                                <SelectTrigger id="task-timezone"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {TASK_TIMEZONES.map(zone => <SelectItem key={zone.id} value={zone.id}>{zone.label}</SelectItem>)}
+                                    <SelectItem value={SERVER_TIMEZONE}>Hora del servidor</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="task-id">Acción a Ejecutar</Label>
+                            <Select value={currentTask.taskId} onValueChange={handleTaskActionChange}><SelectTrigger id="task-id"><SelectValue /></SelectTrigger><SelectContent>{Object.entries(AVAILABLE_TASKS).map(([id, task]) => <SelectItem key={id} value={id} disabled={![task.permission].flat().some(hasPermission)}>{task.name}</SelectItem>)}</SelectContent></Select>
+                            <p className="text-xs text-muted-foreground">{AVAILABLE_TASKS[currentTask.taskId]?.description}</p>
+                        </div>
+                        <TaskParamsFields definition={AVAILABLE_TASKS[currentTask.taskId]} values={currentTask.params || {}} telegramDestinations={telegramDestinations} onChange={(params) => handleTaskFormChange('params', params)} />
+                        <div className="space-y-2">
+                            <Label htmlFor="task-timeout">Tiempo Límite (minutos)</Label>
+                            <Input id="task-timeout" type="number" min={1} max={1440} value={currentTask.timeoutMinutes ?? ''} onChange={(e) => handleTaskFormChange('timeoutMinutes', e.target.value === '' ? null : Number(e.target.value))} placeholder="60" />
+                            <p className="text-xs text-muted-foreground">Si la ejecución tarda más, se registra como &quot;Tiempo agotado&quot;. La acción no vuelve a iniciarse mientras la anterior siga en curso.</p>
                         </div>
-                        <div className="space-y-2"><Label htmlFor="task-id">Acción a Ejecutar</Label><Select value={currentTask.taskId} onValueChange={(val) => handleTaskFormChange('taskId', val)}><SelectTrigger><SelectValue /></SelectTrigger><SelectContent>{Object.entries(AVAILABLE_TASKS).map(([id, task]) => <SelectItem key={id} value={id}>{task.name}</SelectItem>)}</SelectContent></Select></div>
                     </div>
                     <DialogFooter><DialogClose asChild><Button type="button" variant="ghost">Cancelar</Button></DialogClose><Button onClick={handleSaveTask} disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}Guardar Tarea</Button></DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Dialog for the run history of a Scheduled Task */}
+            <Dialog open={!!historyTask} onOpenChange={(open) => !open && setHistoryTask(null)}>
+                <DialogContent className="sm:max-w-4xl">
+                    <DialogHeader><DialogTitle>Historial de Ejecuciones: {historyTask?.name}</DialogTitle></DialogHeader>
+                    <div className="max-h-[60vh] overflow-y-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Inicio</TableHead>
+                                    <TableHead>Origen</TableHead>
+                                    <TableHead>Estado</TableHead>
+                                    <TableHead>Duración</TableHead>
+                                    <TableHead>Resultado</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isLoadingRuns ? (
+                                    <TableRow><TableCell colSpan={5} className="text-center h-24"><Loader2 className="mx-auto h-6 w-6 animate-spin"/></TableCell></TableRow>
+                                ) : taskRuns.length > 0 ? taskRuns.map(run => (
+                                    <TableRow key={run.id}>
+                                        <TableCell className="whitespace-nowrap">{formatRunDate(run.startedAt)}</TableCell>
+                                        <TableCell>{run.triggerType === 'manual' ? `Manual (${run.triggeredBy})` : 'Programada'}</TableCell>
+                                        <TableCell><RunStatusBadge status={run.status} /></TableCell>
+                                        <TableCell className="whitespace-nowrap">{formatRunDuration(run.durationMs)}</TableCell>
+                                        <TableCell className="max-w-sm break-words font-mono text-xs">{run.error ? <span className="text-destructive">{run.error}</span> : run.resultSummary || '-'}</TableCell>
+                                    </TableRow>
+                                )) : <TableRow><TableCell colSpan={5} className="text-center h-24">Esta tarea aún no se ha ejecutado.</TableCell></TableRow>}
+                            </TableBody>
+                        </Table>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => historyTask && loadTaskHistory(historyTask)} disabled={isLoadingRuns}><RefreshCw className="mr-2 h-4 w-4"/>Actualizar</Button>
+                        <DialogClose asChild><Button type="button" variant="ghost">Cerrar</Button></DialogClose>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </main>
     );
 }
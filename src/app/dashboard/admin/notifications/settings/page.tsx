@@ -3,17 +3,19 @@
  */
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/modules/core/hooks/use-toast';
 import { usePageTitle } from '@/modules/core/hooks/usePageTitle';
 import { useAuthorization } from '@/modules/core/hooks/useAuthorization';
-import type { NotificationServiceConfig } from '@/modules/core/types';
-import { getNotificationServiceSettings, saveNotificationServiceSettings } from '@/modules/notifications/lib/actions';
-import { Save, Loader2, Bot, AtSign } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { NotificationServiceConfig, TelegramBotConfig, TelegramDestination, TelegramSettings } from '@/modules/core/types';
+import { getNotificationServiceSettings, saveNotificationServiceSettings, testTelegramDestination } from '@/modules/notifications/lib/actions';
+import { Save, Loader2, Bot, AtSign, PlusCircle, Send, Trash2, Users } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 
 export default function NotificationSettingsPage() {
@@ -25,35 +27,69 @@ export default function NotificationSettingsPage() {
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [settings, setSettings] = useState<NotificationServiceConfig | null>(null);
 
+    const [testingDestinationIndex, setTestingDestinationIndex] = useState<number | null>(null);
+
+    const fetchSettings = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const telegramSettings = await getNotificationServiceSettings('telegram');
+            setSettings({ telegram: telegramSettings.telegram || { botToken: '', chatId: '' } });
+        } catch (error: any) {
+            toast({ title: 'Error', description: 'No se pudieron cargar los ajustes.', variant: 'destructive' });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [toast]);
+
     useEffect(() => {
         setTitle("Configuración de Servicios de Notificación");
-        const fetchSettings = async () => {
-            setIsLoading(true);
-            try {
-                const telegramSettings = await getNotificationServiceSettings('telegram');
-                setSettings({ telegram: telegramSettings.telegram || { botToken: '', chatId: '' } });
-            } catch (error: any) {
-                toast({ title: 'Error', description: 'No se pudieron cargar los ajustes.', variant: 'destructive' });
-            } finally {
-                setIsLoading(false);
-            }
-        };
         fetchSettings();
-    }, [setTitle, toast]);
+    }, [setTitle, fetchSettings]);
 
-    const handleTelegramChange = (field: 'botToken' | 'chatId', value: string) => {
+    const handleTelegramChange = <K extends keyof TelegramSettings>(field: K, value: TelegramSettings[K]) => {
         setSettings(prev => prev ? ({
             ...prev,
             telegram: { ...prev.telegram, [field]: value }
         }) : null);
     };
 
+    const updateBot = (index: number, changes: Partial<TelegramBotConfig>) => {
+        handleTelegramChange('bots', (settings?.telegram.bots || []).map((bot, i) => i === index ? { ...bot, ...changes } : bot));
+    };
+    const removeBot = (index: number) => {
+        const removed = settings?.telegram.bots?.[index];
+        handleTelegramChange('bots', (settings?.telegram.bots || []).filter((_, i) => i !== index));
+        // Destinations of a removed bot fall back to the main bot.
+        if (removed?.id) {
+            handleTelegramChange('destinations', (settings?.telegram.destinations || []).map(d => d.botId === removed.id ? { ...d, botId: undefined } : d));
+        }
+    };
+    const updateDestination = (index: number, changes: Partial<TelegramDestination>) => {
+        handleTelegramChange('destinations', (settings?.telegram.destinations || []).map((destination, i) => i === index ? { ...destination, ...changes } : destination));
+    };
+
+    const handleTestDestination = async (index: number) => {
+        const destination = settings?.telegram.destinations?.[index];
+        if (!settings || !destination) return;
+        setTestingDestinationIndex(index);
+        try {
+            await testTelegramDestination(settings.telegram, destination);
+            toast({ title: 'Mensaje Enviado', description: `Revisa el chat del destino "${destination.name}".` });
+        } catch (error: any) {
+            toast({ title: 'Error al Enviar', description: error.message, variant: 'destructive' });
+        } finally {
+            setTestingDestinationIndex(null);
+        }
+    };
+
     const handleSave = async () => {
         if (!settings) return;
         setIsSubmitting(true);
         try {
             await saveNotificationServiceSettings('telegram', settings.telegram);
             toast({ title: 'Configuración Guardada', description: 'Los ajustes de Telegram han sido guardados.' });
+            // Reload to get the IDs assigned to new bots and destinations.
+            await fetchSettings();
         } catch (error: any) {
             toast({ title: 'Error al Guardar', description: error.message, variant: 'destructive' });
         } finally {
@@ -103,6 +139,108 @@ export default function NotificationSettingsPage() {
                                     Para obtener el ID, puedes usar bots como @userinfobot en Telegram. Debe empezar con un guion (-) si es un canal o grupo.
                                 </p>
                             </div>
+                            <div className="flex items-start space-x-3 rounded-md border p-3">
+                                <Switch
+                                    id="commandsEnabled"
+                                    checked={!!settings.telegram?.commandsEnabled}
+                                    onCheckedChange={(checked) => handleTelegramChange('commandsEnabled', checked)}
+                                />
+                                <div className="space-y-1">
+                                    <Label htmlFor="commandsEnabled">Responder comandos</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        El bot atiende /stock, /op, /sc y /aprobar de los usuarios que vincularon su cuenta desde su perfil, con sus mismos permisos. Consulta a Telegram periódicamente (long polling), por lo que no necesita una URL pública.
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="apiBaseUrl">URL de la API de Bots (opcional)</Label>
+                                <Input
+                                    id="apiBaseUrl"
+                                    value={settings.telegram?.apiBaseUrl || ''}
+                                    onChange={(e) => handleTelegramChange('apiBaseUrl', e.target.value)}
+                                    placeholder="https://api.telegram.org"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Déjala vacía para usar Telegram. Sirve para un servidor local de la API de Bots o un servidor simulado de pruebas.
+                                </p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2"><Users className="h-6 w-6"/>Destinos de Telegram</CardTitle>
+                            <CardDescription>Grupos, canales o temas a los que las reglas pueden enviar mensajes; por ejemplo, el grupo de planta o el de logística. Las reglas sin destino usan el Chat ID principal.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {(settings.telegram.destinations || []).map((destination, index) => (
+                                <div key={destination.id || `new-${index}`} className="space-y-3 rounded-md border p-3">
+                                    <div className="grid gap-3 md:grid-cols-2">
+                                        <div className="space-y-1">
+                                            <Label>Nombre</Label>
+                                            <Input value={destination.name} onChange={(e) => updateDestination(index, { name: e.target.value })} placeholder="Ej: Grupo de Planta" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label>Chat ID</Label>
+                                            <Input value={destination.chatId} onChange={(e) => updateDestination(index, { chatId: e.target.value })} placeholder="Ej: -1001234567890" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label>ID de Tema (opcional)</Label>
+                                            <Input value={destination.threadId || ''} onChange={(e) => updateDestination(index, { threadId: e.target.value })} placeholder="Solo para grupos con temas" />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label>Bot</Label>
+                                            <Select value={destination.botId || 'main'} onValueChange={(value) => updateDestination(index, { botId: value === 'main' ? undefined : value })}>
+                                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="main">Bot principal</SelectItem>
+                                                    {(settings.telegram.bots || []).filter(bot => bot.id).map(bot => <SelectItem key={bot.id} value={bot.id}>{bot.name}</SelectItem>)}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    </div>
+                                    <div className="flex justify-end gap-2">
+                                        <Button type="button" variant="outline" size="sm" onClick={() => handleTestDestination(index)} disabled={testingDestinationIndex !== null || !destination.chatId}>
+                                            {testingDestinationIndex === index ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Send className="mr-2 h-4 w-4" />}
+                                            Enviar Prueba
+                                        </Button>
+                                        <Button type="button" variant="ghost" size="sm" onClick={() => handleTelegramChange('destinations', (settings.telegram.destinations || []).filter((_, i) => i !== index))}>
+                                            <Trash2 className="mr-2 h-4 w-4 text-destructive" />Eliminar
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                            <Button type="button" variant="outline" onClick={() => handleTelegramChange('destinations', [...(settings.telegram.destinations || []), { id: '', name: '', chatId: '' }])}>
+                                <PlusCircle className="mr-2 h-4 w-4" />Añadir Destino
+                            </Button>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2"><Bot className="h-6 w-6"/>Bots Adicionales</CardTitle>
+                            <CardDescription>Opcional. Úsalos cuando un destino deba recibir los mensajes desde otro bot que el principal. Los comandos solo los responde el bot principal.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {(settings.telegram.bots || []).map((bot, index) => (
+                                <div key={bot.id || `new-${index}`} className="grid items-end gap-3 rounded-md border p-3 md:grid-cols-[1fr_1fr_auto]">
+                                    <div className="space-y-1">
+                                        <Label>Nombre</Label>
+                                        <Input value={bot.name} onChange={(e) => updateBot(index, { name: e.target.value })} placeholder="Ej: Bot de Logística" />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <Label>Token</Label>
+                                        <Input type="password" value={bot.botToken} onChange={(e) => updateBot(index, { botToken: e.target.value })} />
+                                    </div>
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => removeBot(index)} title="Eliminar bot">
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </div>
+                            ))}
+                            {(settings.telegram.bots || []).some(bot => !bot.id) && (
+                                <p className="text-xs text-muted-foreground">Guarda la configuración para poder asignar los bots nuevos a un destino.</p>
+                            )}
+                            <Button type="button" variant="outline" onClick={() => handleTelegramChange('bots', [...(settings.telegram.bots || []), { id: '', name: '', botToken: '' }])}>
+                                <PlusCircle className="mr-2 h-4 w-4" />Añadir Bot
+                            </Button>
                         </CardContent>
                     </Card>
                     <Card>
@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Admin page to edit the notification templates of each event and channel.
+ * The preview is rendered in the browser, on every keystroke, against a sample payload of the event.
+ */
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ArrowLeft, Loader2, RotateCcw, Save, AlertTriangle } from "lucide-react";
+import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
+import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
+import { useToast } from "@/modules/core/hooks/use-toast";
+import { getNotificationTemplates, saveNotificationTemplate, resetNotificationTemplate } from "@/modules/notifications/lib/actions";
+import { NOTIFICATION_EVENTS } from "@/modules/notifications/lib/notification-events";
+import { renderTemplate, findUnsupportedTelegramTags } from "@/modules/notifications/lib/template-engine";
+import { buildTemplateContext, COMMON_TEMPLATE_VARIABLES, DERIVED_TEMPLATE_VARIABLES } from "@/modules/notifications/lib/templates/template-context";
+import { SAMPLE_EVENT_PAYLOADS } from "@/modules/notifications/lib/templates/sample-payloads";
+import { DEFAULT_NOTIFICATION_TEMPLATES } from "@/modules/notifications/lib/templates/default-templates";
+import type { NotificationChannel, NotificationEventId, NotificationTemplate } from "@/modules/core/types";
+
+const SYNTAX_HELP: { syntax: string; description: string }[] = [
+  { syntax: '{{campo}}', description: 'Inserta un valor. Use puntos para campos anidados: {{rack.name}}.' },
+  { syntax: '{{cantidad | number}}', description: 'Filtros: number, date, datetime, upper, lower y default:"texto".' },
+  { syntax: '{{#each items}}...{{/each}}', description: 'Repite el contenido por cada línea. Dentro: {{@index}}, {{@first}}, {{@last}}.' },
+  { syntax: '{{#if campo}}...{{else}}...{{/if}}', description: 'Muestra contenido si el campo tiene valor (o con {{#unless}}, si no lo tiene).' },
+];
+
+export default function NotificationTemplatesPage() {
+  const { isAuthorized, hasPermission } = useAuthorization(['admin:notifications:read']);
+  const { setTitle } = usePageTitle();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<NotificationEventId>(NOTIFICATION_EVENTS[0].id);
+  const [channel, setChannel] = useState<NotificationChannel>('email');
+  const [draft, setDraft] = useState({ subject: '', body: '' });
+
+  const canWrite = hasPermission('admin:notifications:write');
+  const current = templates.find(t => t.event === selectedEvent && t.channel === channel);
+  const isDirty = !!current && (draft.subject !== current.subject || draft.body !== current.body);
+  const eventDefinition = NOTIFICATION_EVENTS.find(e => e.id === selectedEvent);
+
+  const fetchTemplates = async () => {
+    setIsLoading(true);
+    try {
+        setTemplates(await getNotificationTemplates());
+    } catch (error: any) {
+        toast({ title: 'Error al Cargar', description: error.message, variant: 'destructive' });
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setTitle("Plantillas de Notificación");
+    if (isAuthorized) {
+        fetchTemplates();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setTitle, isAuthorized]);
+
+  useEffect(() => {
+    if (current) setDraft({ subject: current.subject, body: current.body });
+  }, [current]);
+
+  const preview = useMemo(() => {
+    const context = buildTemplateContext(selectedEvent, SAMPLE_EVENT_PAYLOADS[selectedEvent], {
+        baseUrl: typeof window !== 'undefined' ? window.location.origin : '',
+        ruleName: 'Regla de ejemplo',
+        eventName: eventDefinition?.name || selectedEvent,
+    });
+    try {
+        const subject = channel === 'email' ? renderTemplate(draft.subject, context, { escape: false }) : '';
+        const body = renderTemplate(draft.body, context);
+        const html = channel === 'telegram'
+            ? `<div style="font-family: Arial, sans-serif; font-size: 14px; white-space: pre-wrap; padding: 12px;">${body}</div>`
+            : body;
+        return { subject, html, error: null as string | null };
+    } catch (error: any) {
+        return { subject: '', html: '', error: error.message as string };
+    }
+  }, [selectedEvent, channel, draft, eventDefinition]);
+
+  const unsupportedTags = channel === 'telegram' ? findUnsupportedTelegramTags(draft.body) : [];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+        await saveNotificationTemplate({ event: selectedEvent, channel, subject: draft.subject, body: draft.body });
+        setTemplates(prev => prev.map(t => t.event === selectedEvent && t.channel === channel ? { ...t, ...draft, isCustom: true } : t));
+        toast({ title: 'Plantilla Guardada', description: 'Las próximas notificaciones usarán esta plantilla.' });
+    } catch (error: any) {
+        toast({ title: 'Error al Guardar', description: error.message, variant: 'destructive' });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+        await resetNotificationTemplate(selectedEvent, channel);
+        const defaults = DEFAULT_NOTIFICATION_TEMPLATES[selectedEvent][channel];
+        setTemplates(prev => prev.map(t => t.event === selectedEvent && t.channel === channel ? { ...t, ...defaults, isCustom: false, updatedAt: null, updatedBy: null } : t));
+        toast({ title: 'Plantilla Restablecida', description: 'Se volvió a la plantilla predeterminada.' });
+    } catch (error: any) {
+        toast({ title: 'Error al Restablecer', description: error.message, variant: 'destructive' });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  if (isAuthorized === false) {
+    return null;
+  }
+
+  return (
+      <main className="flex-1 p-4 md:p-6 lg:p-8">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle>Plantillas de Notificación</CardTitle>
+                <CardDescription>
+                  Personaliza el asunto y el contenido de los correos y mensajes de Telegram de cada evento. La vista previa usa datos de ejemplo.
+                </CardDescription>
+              </div>
+              <Button variant="outline" asChild>
+                <Link href="/dashboard/admin/notifications"><ArrowLeft className="mr-2 h-4 w-4" />Volver a Reglas</Link>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4 md:items-center">
+                <Select value={selectedEvent} onValueChange={(value) => setSelectedEvent(value as NotificationEventId)}>
+                    <SelectTrigger className="w-full md:w-[420px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        {NOTIFICATION_EVENTS.map(event => <SelectItem key={event.id} value={event.id}>{event.module}: {event.name}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <Tabs value={channel} onValueChange={(value) => setChannel(value as NotificationChannel)}>
+                    <TabsList>
+                        <TabsTrigger value="email">Correo</TabsTrigger>
+                        <TabsTrigger value="telegram">Telegram</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+                {current && (
+                    <Badge variant={current.isCustom ? 'default' : 'secondary'}>
+                        {current.isCustom ? `Personalizada${current.updatedBy ? ` por ${current.updatedBy}` : ''}` : 'Predeterminada'}
+                    </Badge>
+                )}
+            </div>
+
+            {isLoading ? (
+                <Skeleton className="h-[60vh] w-full" />
+            ) : (
+                <div className="grid gap-6 lg:grid-cols-2">
+                    <div className="space-y-4">
+                        {channel === 'email' && (
+                            <div className="space-y-2">
+                                <Label htmlFor="template-subject">Asunto</Label>
+                                <Input id="template-subject" value={draft.subject} onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))} disabled={!canWrite} className="font-mono text-xs" />
+                                <p className="text-xs text-muted-foreground">Si una regla define su propio asunto, este se reemplaza por el de la regla.</p>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="template-body">{channel === 'email' ? 'Cuerpo (HTML)' : 'Mensaje (HTML de Telegram: b, i, u, s, a, code, pre)'}</Label>
+                            <Textarea id="template-body" value={draft.body} onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))} disabled={!canWrite} rows={22} className="font-mono text-xs" />
+                        </div>
+                        {unsupportedTags.length > 0 && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>Telegram no admite estas etiquetas: {unsupportedTags.map(tag => `<${tag}>`).join(', ')}.</AlertDescription>
+                            </Alert>
+                        )}
+                        {canWrite && (
+                            <div className="flex gap-2">
+                                <Button onClick={handleSave} disabled={isSaving || !isDirty || !!preview.error || unsupportedTags.length > 0}>
+                                    {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Save className="mr-2 h-4 w-4"/>}Guardar Plantilla
+                                </Button>
+                                <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                        <Button variant="outline" disabled={isSaving || !current?.isCustom}><RotateCcw className="mr-2 h-4 w-4"/>Restablecer Predeterminada</Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                        <AlertDialogHeader>
+                                            <AlertDialogTitle>¿Restablecer la plantilla?</AlertDialogTitle>
+                                            <AlertDialogDescription>Se eliminará la versión personalizada y se usará la plantilla predeterminada del sistema.</AlertDialogDescription>
+                                        </AlertDialogHeader>
+                                        <AlertDialogFooter>
+                                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                            <AlertDialogAction onClick={handleReset}>Restablecer</AlertDialogAction>
+                                        </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                </AlertDialog>
+                            </div>
+                        )}
+                        <Accordion type="multiple" className="w-full">
+                            <AccordionItem value="syntax">
+                                <AccordionTrigger>Sintaxis</AccordionTrigger>
+                                <AccordionContent>
+                                    <ul className="space-y-2 text-sm">
+                                        {SYNTAX_HELP.map(item => <li key={item.syntax}><code className="font-mono text-xs">{item.syntax}</code> <span className="text-muted-foreground">{item.description}</span></li>)}
+                                    </ul>
+                                </AccordionContent>
+                            </AccordionItem>
+                            <AccordionItem value="fields">
+                                <AccordionTrigger>Campos Disponibles</AccordionTrigger>
+                                <AccordionContent>
+                                    <ul className="space-y-1 text-sm">
+                                        {[...(eventDefinition?.fields || []), ...(DERIVED_TEMPLATE_VARIABLES[selectedEvent] || []), ...COMMON_TEMPLATE_VARIABLES].map(field => (
+                                            <li key={field.path}><code className="font-mono text-xs">{`{{${field.path}}}`}</code> <span className="text-muted-foreground">{field.label}</span></li>
+                                        ))}
+                                    </ul>
+                                </AccordionContent>
+                            </AccordionItem>
+                        </Accordion>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Vista Previa</Label>
+                        {preview.error ? (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>{preview.error}</AlertDescription>
+                            </Alert>
+                        ) : (
+                            <>
+                                {channel === 'email' && <p className="text-sm rounded-md border p-2"><span className="text-muted-foreground">Asunto:</span> {preview.subject}</p>}
+                                <iframe title="Vista previa de la plantilla" sandbox="" srcDoc={preview.html} className="h-[60vh] w-full rounded-md border bg-white" />
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+  );
+}
@@ -38,6 +38,8 @@ export default function AdminDashboardPage() {
                     return hasPermission('admin:settings:api');
                 case 'admin:settings:email':
                     return hasPermission('admin:settings:email');
+                case 'admin:settings:ldap':
+                    return hasPermission('admin:settings:ldap');
                 case 'admin:notifications:read':
                     return hasPermission('admin:notifications:read');
                 case 'admin:settings:planner':
@@ -22,6 +22,8 @@ import { cn } from "@/lib/utils";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { StatusSlaSettingsFields } from "@/components/dashboard/status-sla";
+import { PLANNER_SLA_STATUSES } from "@/modules/core/lib/status-sla";
 import { useRouter } from "next/navigation";
 
 const defaultColors = [ '#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#ff7300', '#0088fe', '#00c49f', '#ffbb28' ];
@@ -527,6 +529,21 @@ export default function PlannerSettingsPage() {
                             </AccordionContent>
                         </AccordionItem>
                     </Card>
+                    <Card>
+                        <AccordionItem value="status-sla">
+                            <AccordionTrigger className="p-6">
+                                <CardTitle>SLA por Estado y Escalamiento</CardTitle>
+                            </AccordionTrigger>
+                            <AccordionContent className="p-6 pt-0">
+                                <CardDescription className="mb-4">Define cuántas horas puede permanecer una orden en cada estado antes de escalarla. Las órdenes vencidas se marcan en la lista.</CardDescription>
+                                <StatusSlaSettingsFields
+                                    sla={settings.statusSla}
+                                    statuses={PLANNER_SLA_STATUSES}
+                                    onChange={(statusSla) => setSettings(prev => prev ? { ...prev, statusSla } : null)}
+                                />
+                            </AccordionContent>
+                        </AccordionItem>
+                    </Card>
                 </Accordion>
 
                 <Card>
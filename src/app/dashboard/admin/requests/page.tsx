@@ -20,6 +20,8 @@ import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Checkbox } from "@/components/ui/checkbox";
+import { StatusSlaSettingsFields } from "@/components/dashboard/status-sla";
+import { REQUEST_SLA_STATUSES } from "@/modules/core/lib/status-sla";
 
 const availableColumns = [
     { id: 'consecutive', label: 'Solicitud' },
@@ -310,6 +312,21 @@ export default function RequestSettingsPage() {
                             </AccordionContent>
                         </AccordionItem>
                     </Card>
+                    <Card>
+                        <AccordionItem value="status-sla">
+                            <AccordionTrigger className="p-6">
+                                <CardTitle>SLA por Estado y Escalamiento</CardTitle>
+                            </AccordionTrigger>
+                            <AccordionContent className="p-6 pt-0">
+                                <CardDescription className="mb-4">Define cuántas horas puede permanecer una solicitud en cada estado antes de escalarla. Las solicitudes vencidas se marcan en la lista.</CardDescription>
+                                <StatusSlaSettingsFields
+                                    sla={settings.statusSla}
+                                    statuses={REQUEST_SLA_STATUSES}
+                                    onChange={(statusSla) => setSettings(prev => prev ? { ...prev, statusSla } : null)}
+                                />
+                            </AccordionContent>
+                        </AccordionItem>
+                    </Card>
                 </Accordion>
 
                 <div className="grid gap-6 md:grid-cols-2">
@@ -4,7 +4,7 @@
  */
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -36,6 +36,7 @@ import {
     AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -54,12 +55,13 @@ import {
     AccordionTrigger,
 } from "@/components/ui/accordion";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { permissionGroups, permissionTranslations, permissionTree } from "@/modules/core/lib/permissions";
+import { permissionGroups, permissionTranslations, getParentPermissions, getChildPermissions, resolveEffectivePermissions, validateRoleHierarchy } from "@/modules/core/lib/permissions";
 
 const emptyRole: Role = {
     id: "",
     name: "",
     permissions: [],
+    inheritsFrom: [],
 }
 
 export default function RolesPage() {
@@ -93,20 +95,47 @@ export default function RolesPage() {
         }
     }, [isAuthorized, fetchRoles, setTitle]);
     
-    const getParentPermissions = (permission: string): string[] => {
-        const parents: string[] = [];
-        for (const parent in permissionTree) {
-            if (permissionTree[parent as keyof typeof permissionTree]?.includes(permission)) {
-                parents.push(parent);
-                parents.push(...getParentPermissions(parent));
+    // Permissions the role being edited receives from its parent roles, keyed by permission.
+    const inheritedPermissions = useMemo(() => {
+        const formRoles = [...roles.filter(role => role.id !== roleFormData.id), roleFormData];
+        return new Map(
+            resolveEffectivePermissions(roleFormData.id, formRoles)
+                .filter(p => p.sourceRoleId !== roleFormData.id)
+                .map(p => [p.permission, roles.find(role => role.id === p.sourceRoleId)?.name || p.sourceRoleId])
+        );
+    }, [roles, roleFormData]);
+
+    const handleParentRoleChange = (parentRoleId: string, checked: boolean) => {
+        setRoleFormData(currentRole => {
+            const parents = new Set(currentRole.inheritsFrom || []);
+            if (checked) {
+                parents.add(parentRoleId);
+            } else {
+                parents.delete(parentRoleId);
             }
-        }
-        return parents;
+            return { ...currentRole, inheritsFrom: Array.from(parents) };
+        });
     };
-    
-    const getChildPermissions = (permission: string): string[] => {
-        const children = permissionTree[permission as keyof typeof permissionTree] || [];
-        return children.flatMap(child => [child, ...getChildPermissions(child)]);
+
+    /**
+     * Validates and saves the full list of roles, then reloads them, since the server
+     * completes each role with the parent permissions its permissions require.
+     * @returns True if the roles were saved.
+     */
+    const persistRoles = async (updatedRoles: Role[]): Promise<boolean> => {
+        const hierarchyError = validateRoleHierarchy(updatedRoles);
+        if (hierarchyError) {
+            toast({ title: "Herencia de Roles Inválida", description: hierarchyError, variant: "destructive" });
+            return false;
+        }
+        try {
+            await saveAllRoles(updatedRoles);
+            setRoles(await getAllRoles());
+            return true;
+        } catch (error: any) {
+            toast({ title: "Error al Guardar Roles", description: error.message, variant: "destructive" });
+            return false;
+        }
     };
 
     const handleFormPermissionChange = (permission: string, checked: boolean) => {
@@ -139,25 +168,26 @@ export default function RolesPage() {
             return;
         }
 
-        let updatedRoles;
+        if (!isEditing && roles.some(role => role.id === roleFormData.id)) {
+            toast({ title: "Error", description: "El ID del rol ya existe.", variant: "destructive" });
+            return;
+        }
+
+        const updatedRoles = isEditing
+            ? roles.map(role => role.id === roleFormData.id ? roleFormData : role)
+            : [...roles, roleFormData];
+        if (!(await persistRoles(updatedRoles))) {
+            return;
+        }
 
         if (isEditing) {
-            updatedRoles = roles.map(role => role.id === roleFormData.id ? roleFormData : role);
             toast({ title: `Rol Actualizado`, description: `El rol "${roleFormData.name}" ha sido actualizado.` });
             await logInfo(`Role updated`, { role: roleFormData.name });
         } else {
-            if (roles.some(role => role.id === roleFormData.id)) {
-                toast({ title: "Error", description: "El ID del rol ya existe.", variant: "destructive" });
-                return;
-            }
-            updatedRoles = [...roles, roleFormData];
             toast({ title: `Rol Creado`, description: `El rol "${roleFormData.name}" ha sido añadido.` });
             await logInfo(`New role created`, { role: roleFormData.name });
         }
         
-        setRoles(updatedRoles);
-        await saveAllRoles(updatedRoles);
-        
         setRoleFormOpen(false);
     }
 
@@ -173,7 +203,8 @@ export default function RolesPage() {
         setRoleFormData({
             id: `${roleToCopy.id}-copia`,
             name: `${roleToCopy.name} (Copia)`,
-            permissions: [...roleToCopy.permissions]
+            permissions: [...roleToCopy.permissions],
+            inheritsFrom: [...(roleToCopy.inheritsFrom || [])],
         });
         setIsEditing(false);
         setRoleFormOpen(true);
@@ -187,12 +218,33 @@ export default function RolesPage() {
     };
 
 
+    const handleTwoFactorRequirementChange = async (roleToUpdate: Role, requireTwoFactor: boolean) => {
+        const updatedRoles = roles.map(role => role.id === roleToUpdate.id ? { ...role, requireTwoFactor } : role);
+        if (!(await persistRoles(updatedRoles))) {
+            return;
+        }
+        toast({
+            title: requireTwoFactor ? "Verificación en Dos Pasos Requerida" : "Verificación en Dos Pasos Opcional",
+            description: requireTwoFactor
+                ? `Los usuarios con el rol "${roleToUpdate.name}" deberán usar un código de verificación al iniciar sesión.`
+                : `Los usuarios con el rol "${roleToUpdate.name}" pueden decidir si usan la verificación en dos pasos.`,
+        });
+        await logInfo(`Two-factor requirement ${requireTwoFactor ? 'enabled' : 'disabled'} for role`, { role: roleToUpdate.name });
+    };
+
     const handleDeleteRole = async () => {
         if (!roleToDelete) return;
 
+        const dependentRoles = roles.filter(role => role.inheritsFrom?.includes(roleToDelete.id));
+        if (dependentRoles.length > 0) {
+            toast({ title: "No se puede eliminar", description: `Los roles ${dependentRoles.map(role => `"${role.name}"`).join(', ')} heredan de "${roleToDelete.name}".`, variant: "destructive" });
+            setRoleToDelete(null);
+            return;
+        }
         const updatedRoles = roles.filter(role => role.id !== roleToDelete.id);
-        setRoles(updatedRoles);
-        await saveAllRoles(updatedRoles);
+        if (!(await persistRoles(updatedRoles))) {
+            return;
+        }
 
         toast({ title: "Rol Eliminado", description: `El rol "${roleToDelete.name}" ha sido eliminado.`, variant: 'destructive'});
         await logWarn("Rol eliminado", { role: roleToDelete.name });
@@ -273,9 +325,24 @@ export default function RolesPage() {
                 <CardHeader className="flex flex-row items-center justify-between">
                   <div className="space-y-1">
                     <CardTitle className="text-xl">{role.name}</CardTitle>
-                    <Badge variant="secondary" className="w-fit">{role.id}</Badge>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary" className="w-fit">{role.id}</Badge>
+                        {(role.inheritsFrom || []).length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                                Hereda de: {role.inheritsFrom!.map(parentId => roles.find(r => r.id === parentId)?.name || parentId).join(', ')}
+                            </span>
+                        )}
+                    </div>
                   </div>
                   <div className="flex items-center gap-2">
+                     <div className="flex items-center space-x-2 mr-2">
+                        <Switch
+                            id={`require-2fa-${role.id}`}
+                            checked={!!role.requireTwoFactor}
+                            onCheckedChange={(checked) => handleTwoFactorRequirementChange(role, checked)}
+                        />
+                        <Label htmlFor={`require-2fa-${role.id}`} className="text-sm font-normal">Requerir 2FA</Label>
+                     </div>
                      <Button variant="outline" size="sm" onClick={() => openEditDialog(role)}>
                         <Edit2 className="mr-2 h-4 w-4" />
                         Editar Permisos
@@ -343,6 +410,24 @@ export default function RolesPage() {
                             />
                         </div>
                     </div>
+                    {roleFormData.id !== 'admin' && (
+                        <div className="space-y-2">
+                            <h4 className="font-medium">Hereda de</h4>
+                            <p className="text-xs text-muted-foreground">El rol recibe todos los permisos de los roles seleccionados, además de los que marques abajo.</p>
+                            <div className="flex flex-wrap gap-4">
+                                {roles.filter(role => role.id !== 'admin' && role.id !== roleFormData.id).map(role => (
+                                    <div key={`parent-${role.id}`} className="flex items-center space-x-2">
+                                        <Checkbox
+                                            id={`parent-${role.id}`}
+                                            checked={!!roleFormData.inheritsFrom?.includes(role.id)}
+                                            onCheckedChange={(checked) => handleParentRoleChange(role.id, checked === true)}
+                                        />
+                                        <Label htmlFor={`parent-${role.id}`} className="font-normal text-sm">{role.name}</Label>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     <div className="space-y-4">
                         <h4 className="font-medium">Permisos</h4>
                         <ScrollArea className="h-72 w-full rounded-md border p-4">
@@ -352,19 +437,23 @@ export default function RolesPage() {
                                         <AccordionTrigger>{groupName}</AccordionTrigger>
                                         <AccordionContent>
                                             <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pl-2">
-                                                {permissions.map((permission) => (
+                                                {permissions.map((permission) => {
+                                                const inheritedFrom = roleFormData.permissions.includes(permission) ? undefined : inheritedPermissions.get(permission);
+                                                return (
                                                 <div key={`form-${permission}`} className="flex items-center space-x-2">
                                                     <Checkbox
                                                     id={`form-${permission}`}
-                                                    checked={roleFormData.permissions.includes(permission)}
+                                                    checked={roleFormData.permissions.includes(permission) || !!inheritedFrom}
                                                     onCheckedChange={(checked) => handleFormPermissionChange(permission, checked === true)}
-                                                    disabled={roleFormData.id === 'admin'}
+                                                    disabled={roleFormData.id === 'admin' || !!inheritedFrom}
                                                     />
-                                                    <Label htmlFor={`form-${permission}`} className={`font-normal text-sm ${roleFormData.id === 'admin' ? 'text-muted-foreground' : ''}`}>
+                                                    <Label htmlFor={`form-${permission}`} className={`font-normal text-sm ${roleFormData.id === 'admin' || inheritedFrom ? 'text-muted-foreground' : ''}`}>
                                                     {permissionTranslations[permission as keyof typeof permissionTranslations] || permission}
+                                                    {inheritedFrom && <span className="block text-xs">Heredado de {inheritedFrom}</span>}
                                                     </Label>
                                                 </div>
-                                                ))}
+                                                );
+                                                })}
                                             </div>
                                         </AccordionContent>
                                     </AccordionItem>
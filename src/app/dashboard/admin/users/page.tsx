@@ -49,24 +49,29 @@ import {
   DropdownMenuLabel,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { User, Role } from "@/modules/core/types";
+import type { User, Role, LoginLockout, PasswordPolicy, AuthProvider, UserDataScopes, DispatchContainer, WarehouseLocation } from "@/modules/core/types";
 import { Badge } from "@/components/ui/badge";
-import { MoreHorizontal, PlusCircle } from "lucide-react";
+import { MoreHorizontal, PlusCircle, Lock, Unlock, ShieldCheck } from "lucide-react";
 import { useToast } from "@/modules/core/hooks/use-toast";
 import { logInfo, logWarn, logError } from "@/modules/core/lib/logger";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { getAllUsers, saveAllUsers, addUser as addUserAction } from "@/modules/core/lib/auth-client";
+import { getAllUsers, saveAllUsers, addUser as addUserAction, forceLogoutUser, getLoginLockouts, unlockLoginLockout, unlockUserAccount, resetUserTwoFactor, getPasswordPolicy, startImpersonation } from "@/modules/core/lib/auth-client";
+import { validatePassword, describePasswordPolicy } from "@/modules/core/lib/password-policy";
 import { getAllRoles } from "@/modules/core/lib/db";
 import { Separator } from "@/components/ui/separator";
 import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
+import { useAuth } from "@/modules/core/hooks/useAuth";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Checkbox } from "@/components/ui/checkbox";
 import { getInitials } from "@/lib/utils";
+import { format, parseISO } from "date-fns";
+import { getContainers, getLocations } from "@/modules/warehouse/lib/actions";
+import { renderLocationPathAsString } from "@/modules/warehouse/lib/utils";
 
 type NewUserForm = Omit<User, 'id' | 'avatar' | 'recentActivity' | 'securityQuestion' | 'securityAnswer'> & {
     password: string;
@@ -90,10 +95,12 @@ const emptyUser: NewUserForm = {
  * Handles fetching users and roles, and provides UI for all CRUD operations.
  */
 export default function UsersPage() {
-    const { isAuthorized } = useAuthorization(['users:create', 'users:read', 'users:update', 'users:delete']);
+    const { isAuthorized, hasPermission } = useAuthorization(['users:create', 'users:read', 'users:update', 'users:delete']);
+    const { user: currentUser } = useAuth();
     const { toast } = useToast();
     const [users, setUsers] = useState<User[]>([]);
     const [roles, setRoles] = useState<Role[]>([]);
+    const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const { setTitle } = usePageTitle();
 
@@ -106,13 +113,20 @@ export default function UsersPage() {
     const [userToDelete, setUserToDelete] = useState<User | null>(null);
     
     const [newPassword, setNewPassword] = useState("");
+    const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+    const [containers, setContainers] = useState<DispatchContainer[]>([]);
+    const [locations, setLocations] = useState<WarehouseLocation[]>([]);
 
     const fetchAllData = async () => {
         try {
             setIsLoading(true);
-            const [usersData, rolesData] = await Promise.all([
+            const [usersData, rolesData, lockoutsData, policyData, containersData, locationsData] = await Promise.all([
                 getAllUsers(),
-                getAllRoles()
+                getAllRoles(),
+                getLoginLockouts().catch(() => [] as LoginLockout[]),
+                getPasswordPolicy().catch(() => null),
+                getContainers().catch(() => [] as DispatchContainer[]),
+                getLocations().catch(() => [] as WarehouseLocation[]),
             ]);
 
             const roleIds = new Set(rolesData.map(r => r.id));
@@ -126,6 +140,10 @@ export default function UsersPage() {
 
             setUsers(sanitizedUsers);
             setRoles(rolesData);
+            setLockouts(lockoutsData);
+            setPasswordPolicy(policyData);
+            setContainers(containersData);
+            setLocations(locationsData);
         } catch (error) {
             console.error("Failed to fetch user data:", error);
             toast({
@@ -154,9 +172,9 @@ export default function UsersPage() {
         try {
             await saveAllUsers(updatedUsers);
             setUsers(updatedUsers); // Update local state to match DB
-        } catch (error) {
-            logError("Failed to save users to DB", { error });
-            toast({ title: "Error", description: "No se pudieron guardar los cambios en la base de datos.", variant: "destructive" });
+        } catch (error: any) {
+            logError("Failed to save users to DB", { error: error.message });
+            toast({ title: "Error", description: error.message || "No se pudieron guardar los cambios en la base de datos.", variant: "destructive" });
         }
     }
     
@@ -172,8 +190,9 @@ export default function UsersPage() {
             toast({ title: "Correo Duplicado", description: "Ya existe un usuario con este correo electrónico.", variant: "destructive" });
             return;
         }
-        if (newUser.password.length < 6) {
-            toast({ title: "Contraseña Débil", description: "La contraseña debe tener al menos 6 caracteres.", variant: "destructive"});
+        const passwordErrors = passwordPolicy ? validatePassword(newUser.password, passwordPolicy) : [];
+        if (passwordErrors.length > 0) {
+            toast({ title: "Contraseña Débil", description: passwordErrors.join(' '), variant: "destructive"});
             return;
         }
         
@@ -200,10 +219,11 @@ export default function UsersPage() {
 
         let userToUpdate = { ...currentUserToEdit };
 
-        // Handle password change if a new one is provided
-        if (newPassword) {
-            if (newPassword.length < 6) {
-                toast({ title: "Contraseña Débil", description: "La nueva contraseña debe tener al menos 6 caracteres.", variant: "destructive" });
+        // Handle password change if a new one is provided (directory users keep their LDAP password)
+        if (newPassword && userToUpdate.authProvider !== 'ldap') {
+            const passwordErrors = passwordPolicy ? validatePassword(newPassword, passwordPolicy) : [];
+            if (passwordErrors.length > 0) {
+                toast({ title: "Contraseña Débil", description: passwordErrors.join(' '), variant: "destructive" });
                 return;
             }
             userToUpdate.password = newPassword;
@@ -240,6 +260,102 @@ export default function UsersPage() {
         setUserToDelete(null);
     }
 
+    /**
+     * Closes every active session of a user, forcing them to log in again.
+     * @param user - The user to log out.
+     */
+    const handleForceLogout = async (user: User) => {
+        try {
+            const closed = await forceLogoutUser(user.id);
+            toast({ title: "Sesiones Cerradas", description: `Se cerraron ${closed} sesión(es) de ${user.name}.` });
+        } catch (error: any) {
+            logError("Failed to force logout user", { error: error.message, userId: user.id });
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    }
+
+    /**
+     * Starts viewing the application as a user, to see exactly the screens and data they see.
+     * @param user - The user to impersonate.
+     */
+    const handleImpersonate = async (user: User) => {
+        try {
+            await startImpersonation(user.id);
+            // A full reload so every screen is loaded again with the impersonated user's permissions.
+            window.location.href = '/dashboard';
+        } catch (error: any) {
+            logError("Failed to start impersonation", { error: error.message, userId: user.id });
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    }
+
+    /**
+     * Lifts a login lockout (account or IP) caused by too many failed attempts.
+     * @param lockout - The lockout to remove.
+     */
+    const handleUnlockLockout = async (lockout: LoginLockout) => {
+        try {
+            await unlockLoginLockout(lockout.id);
+            setLockouts(prev => prev.filter(l => l.id !== lockout.id));
+            toast({ title: "Bloqueo Eliminado", description: `Se desbloqueó ${lockout.scope === 'ip' ? 'la IP' : 'la cuenta'} ${lockout.identifier}.` });
+        } catch (error: any) {
+            logError("Failed to lift login lockout", { error: error.message, lockoutId: lockout.id });
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    }
+
+    /**
+     * Unlocks a user's account, resetting their failed login attempts.
+     * @param user - The user to unlock.
+     */
+    const handleUnlockUser = async (user: User) => {
+        try {
+            await unlockUserAccount(user.id);
+            setLockouts(prev => prev.filter(l => !(l.scope === 'account' && l.identifier === user.email.trim().toLowerCase())));
+            toast({ title: "Cuenta Desbloqueada", description: `${user.name} ya puede iniciar sesión nuevamente.` });
+        } catch (error: any) {
+            logError("Failed to unlock user account", { error: error.message, userId: user.id });
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    }
+
+    /**
+     * Resets a user's two-factor authentication, e.g. after they lose their authenticator device.
+     * @param user - The user whose second factor will be removed.
+     */
+    const handleResetTwoFactor = async (user: User) => {
+        try {
+            await resetUserTwoFactor(user.id);
+            setUsers(prev => prev.map(u => u.id === user.id ? { ...u, totpEnabled: false } : u));
+            toast({ title: "Verificación en Dos Pasos Restablecida", description: `${user.name} deberá configurarla de nuevo si su rol la requiere.` });
+        } catch (error: any) {
+            logError("Failed to reset user two-factor authentication", { error: error.message, userId: user.id });
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    }
+
+    /**
+     * Adds or removes one ID from a list-based data scope of the user being edited.
+     * @param key - The scope to change.
+     * @param id - The container or location ID.
+     * @param checked - Whether the ID should be included.
+     */
+    const toggleScopeId = (key: 'dispatchContainerIds' | 'locationIds', id: number, checked: boolean) => {
+        if (!currentUserToEdit) return;
+        const scopes: UserDataScopes = currentUserToEdit.dataScopes || {};
+        const ids = new Set(scopes[key] || []);
+        if (checked) ids.add(id); else ids.delete(id);
+        setCurrentUserToEdit({ ...currentUserToEdit, dataScopes: { ...scopes, [key]: Array.from(ids) } });
+    }
+
+    // Only locations with children can be the root of a subtree scope.
+    const scopeableLocations = locations
+        .filter(l => locations.some(child => child.parentId === l.id))
+        .map(l => ({ id: l.id, label: renderLocationPathAsString(l.id, locations) }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+    const isUserLocked = (user: User) => lockouts.some(l => l.scope === 'account' && l.identifier === user.email.trim().toLowerCase());
+
     const openEditDialog = (user: User) => {
         // Deep copy to avoid modifying state directly while editing
         setCurrentUserToEdit(JSON.parse(JSON.stringify(user))); 
@@ -315,6 +431,7 @@ export default function UsersPage() {
                                 <div className="space-y-2">
                                     <Label htmlFor="password">Contraseña</Label>
                                     <Input id="password" type="password" value={newUser.password || ''} onChange={e => setNewUser({...newUser, password: e.target.value})} />
+                                    {passwordPolicy && <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>}
                                 </div>
                                 <div className="flex items-center space-x-2">
                                     <Checkbox 
@@ -373,7 +490,7 @@ export default function UsersPage() {
                                             <AvatarFallback>{getInitials(user.name)}</AvatarFallback>
                                         </Avatar>
                                         <div className="flex flex-col">
-                                            <span>{user.name}</span>
+                                            <span className="flex items-center gap-2">{user.name}{isUserLocked(user) && <Lock className="h-3 w-3 text-destructive" />}{!!user.totpEnabled && <ShieldCheck className="h-3 w-3 text-green-600" />}{user.authProvider === 'ldap' && <Badge variant="outline" className="px-1 py-0 text-[10px]">LDAP</Badge>}</span>
                                             <span className="text-muted-foreground text-xs sm:hidden">{user.email}</span>
                                         </div>
                                     </TableCell>
@@ -398,6 +515,12 @@ export default function UsersPage() {
                                         <DropdownMenuContent align="end">
                                         <DropdownMenuLabel>Acciones</DropdownMenuLabel>
                                         <DropdownMenuItem onSelect={() => openEditDialog(user)}>Editar</DropdownMenuItem>
+                                        {hasPermission('admin:impersonate') && user.id !== currentUser?.id && (
+                                            <DropdownMenuItem onSelect={() => handleImpersonate(user)}>Ver como este Usuario</DropdownMenuItem>
+                                        )}
+                                        <DropdownMenuItem onSelect={() => handleForceLogout(user)}>Forzar Cierre de Sesión</DropdownMenuItem>
+                                        <DropdownMenuItem onSelect={() => handleUnlockUser(user)}>Desbloquear Cuenta</DropdownMenuItem>
+                                        {!!user.totpEnabled && <DropdownMenuItem onSelect={() => handleResetTwoFactor(user)}>Restablecer Verificación en Dos Pasos</DropdownMenuItem>}
                                         <AlertDialog onOpenChange={(open) => !open && setUserToDelete(null)}>
                                             <AlertDialogTrigger asChild>
                                                 <Button
@@ -432,6 +555,50 @@ export default function UsersPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Cuentas Bloqueadas</CardTitle>
+            <CardDescription>
+              Cuentas y direcciones IP bloqueadas temporalmente por exceso de intentos fallidos de inicio de sesión.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {lockouts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No hay bloqueos activos.</p>
+            ) : (
+                <div className="rounded-lg border">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Tipo</TableHead>
+                                <TableHead>Cuenta / IP</TableHead>
+                                <TableHead className="hidden sm:table-cell">Intentos Fallidos</TableHead>
+                                <TableHead>Bloqueado Hasta</TableHead>
+                                <TableHead><span className="sr-only">Acciones</span></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {lockouts.map((lockout) => (
+                                <TableRow key={lockout.id}>
+                                    <TableCell><Badge variant={lockout.scope === 'ip' ? 'secondary' : 'destructive'}>{lockout.scope === 'ip' ? 'IP' : 'Cuenta'}</Badge></TableCell>
+                                    <TableCell className="font-medium">{lockout.identifier}</TableCell>
+                                    <TableCell className="hidden sm:table-cell">{lockout.failedCount}</TableCell>
+                                    <TableCell>{lockout.lockedUntil ? format(parseISO(lockout.lockedUntil), 'dd/MM/yyyy HH:mm') : '-'}</TableCell>
+                                    <TableCell className="text-right">
+                                        <Button variant="outline" size="sm" onClick={() => handleUnlockLockout(lockout)}>
+                                            <Unlock className="mr-2 h-4 w-4" />
+                                            Desbloquear
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            )}
+          </CardContent>
+        </Card>
       </main>
 
        {/* Edit User Dialog */}
@@ -481,6 +648,79 @@ export default function UsersPage() {
                                     </SelectContent>
                                 </Select>
                             </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="edit-authProvider">Autenticación</Label>
+                                <Select value={currentUserToEdit.authProvider || 'local'} onValueChange={(value) => setCurrentUserToEdit({...currentUserToEdit, authProvider: value as AuthProvider})} disabled={currentUserToEdit.id === 1}>
+                                    <SelectTrigger id="edit-authProvider">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="local">Contraseña local</SelectItem>
+                                        <SelectItem value="ldap">Directorio corporativo (LDAP)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                                {currentUserToEdit.id === 1 && <p className="text-xs text-muted-foreground">El administrador inicial siempre usa su contraseña local.</p>}
+                            </div>
+                            {hasPermission('users:update') && (
+                            <>
+                            <Separator className="my-6" />
+                            <div className="space-y-4">
+                                <div>
+                                    <Label>Alcance de Datos</Label>
+                                    <p className="text-xs text-muted-foreground">Limita los registros que el usuario puede ver, además de los permisos de su rol. Sin selección, no hay restricción.</p>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <Checkbox
+                                        id="scope-own-customers"
+                                        checked={!!currentUserToEdit.dataScopes?.ownCustomersOnly}
+                                        onCheckedChange={checked => setCurrentUserToEdit({ ...currentUserToEdit, dataScopes: { ...currentUserToEdit.dataScopes, ownCustomersOnly: !!checked } })}
+                                    />
+                                    <Label htmlFor="scope-own-customers" className="font-normal">
+                                        Solo clientes cuyo vendedor coincide con su alias ERP
+                                    </Label>
+                                </div>
+                                {currentUserToEdit.dataScopes?.ownCustomersOnly && !currentUserToEdit.erpAlias && (
+                                    <p className="text-xs text-destructive">Sin alias ERP, el usuario no verá ningún cliente.</p>
+                                )}
+                                <div className="space-y-2">
+                                    <Label className="font-normal">Contenedores de despacho</Label>
+                                    <ScrollArea className="h-28 rounded-md border p-2">
+                                        {containers.length === 0 ? (
+                                            <p className="text-xs text-muted-foreground">No hay contenedores.</p>
+                                        ) : containers.map(container => (
+                                            <div key={container.id} className="flex items-center space-x-2 py-1">
+                                                <Checkbox
+                                                    id={`scope-container-${container.id}`}
+                                                    checked={currentUserToEdit.dataScopes?.dispatchContainerIds?.includes(container.id!) || false}
+                                                    onCheckedChange={checked => toggleScopeId('dispatchContainerIds', container.id!, !!checked)}
+                                                />
+                                                <Label htmlFor={`scope-container-${container.id}`} className="font-normal">{container.name}</Label>
+                                            </div>
+                                        ))}
+                                    </ScrollArea>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="font-normal">Ubicaciones de almacén (incluye todo lo que contienen)</Label>
+                                    <ScrollArea className="h-36 rounded-md border p-2">
+                                        {scopeableLocations.length === 0 ? (
+                                            <p className="text-xs text-muted-foreground">No hay ubicaciones.</p>
+                                        ) : scopeableLocations.map(location => (
+                                            <div key={location.id} className="flex items-center space-x-2 py-1">
+                                                <Checkbox
+                                                    id={`scope-location-${location.id}`}
+                                                    checked={currentUserToEdit.dataScopes?.locationIds?.includes(location.id) || false}
+                                                    onCheckedChange={checked => toggleScopeId('locationIds', location.id, !!checked)}
+                                                />
+                                                <Label htmlFor={`scope-location-${location.id}`} className="font-normal">{location.label}</Label>
+                                            </div>
+                                        ))}
+                                    </ScrollArea>
+                                </div>
+                            </div>
+                            </>
+                            )}
+                            {currentUserToEdit.authProvider !== 'ldap' && (
+                            <>
                             <Separator className="my-6" />
                             <div className="space-y-2">
                                 <Label htmlFor="edit-password">Nueva Contraseña</Label>
@@ -493,8 +733,10 @@ export default function UsersPage() {
                                 />
                             </div>
                             <p className="text-xs text-muted-foreground text-center">
-                                Solo complete el campo de contraseña si desea cambiarla.
+                                Solo complete el campo de contraseña si desea cambiarla.{passwordPolicy && ` ${describePasswordPolicy(passwordPolicy)}`}
                             </p>
+                            </>
+                            )}
                         </div>
                     </ScrollArea>
                 )}
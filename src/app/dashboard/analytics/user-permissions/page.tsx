@@ -2,7 +2,7 @@
 /**
  * @fileoverview Page for the User Permissions Report.
  * It displays a filterable and sortable list of all users, their assigned roles,
- * and the specific permissions granted by those roles.
+ * and the effective permissions granted by those roles, including the ones inherited from parent roles.
  */
 'use client';
 
@@ -61,7 +61,7 @@ export default function UserPermissionsReportPage() {
                 <CardHeader>
                     <CardTitle>Reporte de Permisos de Usuario</CardTitle>
                     <CardDescription>
-                        Audita qué permisos tiene cada usuario según el rol que se le ha asignado en el sistema.
+                        Audita qué permisos tiene cada usuario según el rol que se le ha asignado en el sistema. Los permisos heredados de otro rol indican el rol de origen.
                     </CardDescription>
                 </CardHeader>
                 <CardContent className="flex flex-wrap gap-4 items-center">
@@ -102,7 +102,7 @@ export default function UserPermissionsReportPage() {
                                     <TableHead className="cursor-pointer hover:bg-muted" onClick={() => actions.handleSort('roleName')}>
                                         <div className="flex items-center gap-2">Rol {renderSortIcon('roleName')}</div>
                                     </TableHead>
-                                    <TableHead>Permisos Asignados</TableHead>
+                                    <TableHead>Permisos Efectivos</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
@@ -124,9 +124,16 @@ export default function UserPermissionsReportPage() {
                                             </TableCell>
                                             <TableCell>
                                                 <div className="flex flex-wrap gap-1">
-                                                    {item.permissions.length > 0 ? item.permissions.map(perm => (
-                                                        <Badge key={perm} variant="outline" className="font-normal">{selectors.translatePermission(perm)}</Badge>
-                                                    )) : (
+                                                    {item.permissions.length > 0 ? item.permissions.map(perm => {
+                                                        const source = item.permissionSources[perm];
+                                                        const isInherited = source !== item.roleName;
+                                                        return (
+                                                            <Badge key={perm} variant={isInherited ? 'secondary' : 'outline'} className="font-normal" title={`Otorgado por el rol ${source}`}>
+                                                                {selectors.translatePermission(perm)}
+                                                                {isInherited && <span className="ml-1 text-muted-foreground">· {source}</span>}
+                                                            </Badge>
+                                                        );
+                                                    }) : (
                                                         <span className="text-xs text-muted-foreground">Sin permisos específicos.</span>
                                                     )}
                                                 </div>
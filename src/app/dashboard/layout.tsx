@@ -9,6 +9,7 @@
 
 import { AppSidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
+import { ImpersonationBanner } from "@/components/layout/impersonation-banner";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { usePageTitle, PageTitleProvider } from "@/modules/core/hooks/usePageTitle";
 import { useAuth, REDIRECT_URL_KEY } from "@/modules/core/hooks/useAuth";
@@ -20,6 +21,7 @@ function DashboardContent({ children }: { children: React.ReactNode }) {
   const { title } = usePageTitle();
   return (
     <>
+      <ImpersonationBanner />
       <Header title={title} />
       <div className="flex-1 overflow-auto">{children}</div>
     </>
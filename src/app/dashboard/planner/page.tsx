@@ -22,6 +22,7 @@ import { SearchInput } from '@/components/ui/search-input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ProductionOrder, ProductionOrderPriority, PlannerNotePayload, AdministrativeActionPayload } from '@/modules/core/types';
 import { Badge } from '@/components/ui/badge';
+import { StatusSlaBadge } from '@/components/dashboard/status-sla';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from "@/components/ui/checkbox";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -125,6 +126,7 @@ export default function PlannerPage() {
                         <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
                             {!!order.reopened && <Badge variant="destructive"><RefreshCcw className="mr-1 h-3 w-3" /> Reabierta</Badge>}
                             {!!order.hasBeenModified && <Badge variant="destructive" className="animate-pulse"><AlertTriangle className="mr-1 h-3 w-3" /> Modificado</Badge>}
+                            <StatusSlaBadge sla={plannerSettings?.statusSla} status={order.status} statusChangedAt={order.statusChangedAt} />
                              <Button variant="ghost" size="icon" onClick={() => actions.handleOpenHistory(order)}><History className="h-4 w-4" /></Button>
                              <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -1,7 +1,10 @@
 /**
  * @fileoverview User profile settings page.
  * Allows the currently logged-in user to update their personal information,
- * security question, and password. This is the single source of truth for user self-service updates.
+ * security question, and password, review or close their active sessions,
+ * manage their two-factor authentication, their personal API tokens and how they
+ * receive notifications.
+ * This is the single source of truth for user self-service updates.
  */
 "use client";
 
@@ -18,17 +21,27 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/modules/core/hooks/use-toast";
-import type { User } from "@/modules/core/types";
+import type { User, UserSession, TwoFactorStatus, TwoFactorSetup, PasswordPolicy, ApiToken, UserNotificationPreferences, UserNotificationCategory, UserNotificationChannel, NotificationDeliveryMode, TelegramAccountLink } from "@/modules/core/types";
 import { Skeleton } from "@/components/ui/skeleton";
 import { logInfo, logError } from "@/modules/core/lib/logger";
 import { Separator } from "@/components/ui/separator";
-import { getAllUsers, saveAllUsers, comparePasswords } from "@/modules/core/lib/auth-client";
+import { getAllUsers, saveAllUsers, comparePasswords, getMySessions, closeAllMySessions, getTwoFactorStatus, startTwoFactorEnrollment, confirmTwoFactorEnrollment, regenerateRecoveryCodes, disableTwoFactor, getPasswordPolicy } from "@/modules/core/lib/auth-client";
+import { validatePassword, describePasswordPolicy } from "@/modules/core/lib/password-policy";
 import { usePageTitle } from "@/modules/core/hooks/usePageTitle";
 import { useDropzone } from "react-dropzone";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { Camera } from "lucide-react";
+import { Bell, Camera, KeyRound, Loader2, LogOut, MonitorSmartphone, ShieldCheck, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
 import { useAuth } from "@/modules/core/hooks/useAuth";
 import { getInitials } from "@/lib/utils";
+import { getMyApiTokens, createApiToken, revokeApiToken } from "@/modules/core/lib/api-tokens";
+import { permissionTranslations } from "@/modules/core/lib/permissions";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getMyNotificationPreferences, saveMyNotificationPreferences, getMyTelegramLink, createMyTelegramLinkCode, unlinkMyTelegramAccount } from "@/modules/notifications/lib/actions";
+import { USER_NOTIFICATION_CATEGORIES, USER_NOTIFICATION_CHANNELS, NOTIFICATION_DELIVERY_MODES } from "@/modules/notifications/lib/user-notification-preferences";
 
 /**
  * Renders the user profile settings page.
@@ -37,7 +50,7 @@ import { getInitials } from "@/lib/utils";
  */
 export default function ProfilePage() {
   const { toast } = useToast();
-  const { user, isReady, refreshAuth } = useAuth();
+  const { user, userRole, isReady, refreshAuth, logout } = useAuth();
   const { setTitle } = usePageTitle();
   
   const [formData, setFormData] = useState({
@@ -58,6 +71,203 @@ export default function ProfilePage() {
     confirm: "",
   });
 
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isClosingSessions, setIsClosingSessions] = useState(false);
+
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [twoFactorPassword, setTwoFactorPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isTwoFactorProcessing, setIsTwoFactorProcessing] = useState(false);
+
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [newTokenName, setNewTokenName] = useState("");
+  const [newTokenDays, setNewTokenDays] = useState("90");
+  const [newTokenPermissions, setNewTokenPermissions] = useState<string[]>([]);
+  const [createdTokenSecret, setCreatedTokenSecret] = useState<string | null>(null);
+  const [isCreatingToken, setIsCreatingToken] = useState(false);
+
+  const [notificationPrefs, setNotificationPrefs] = useState<UserNotificationPreferences | null>(null);
+  const [isSavingNotificationPrefs, setIsSavingNotificationPrefs] = useState(false);
+  const [telegramLink, setTelegramLink] = useState<{ link: TelegramAccountLink | null; botUsername: string | null } | null>(null);
+  const [telegramLinkCode, setTelegramLinkCode] = useState<{ code: string; expiresAt: string; botUsername: string | null } | null>(null);
+
+  const loadTwoFactorStatus = useCallback(async () => {
+    try {
+      setTwoFactorStatus(await getTwoFactorStatus());
+    } catch (error: any) {
+      logError("Failed to load two-factor status", { error: error.message });
+    }
+  }, []);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await getMySessions());
+    } catch (error: any) {
+      logError("Failed to load user sessions", { error: error.message });
+    }
+  }, []);
+
+  const loadApiTokens = useCallback(async () => {
+    try {
+      setApiTokens(await getMyApiTokens());
+    } catch (error: any) {
+      logError("Failed to load API tokens", { error: error.message });
+    }
+  }, []);
+
+  const loadNotificationPrefs = useCallback(async () => {
+    try {
+      setNotificationPrefs(await getMyNotificationPreferences());
+    } catch (error: any) {
+      logError("Failed to load notification preferences", { error: error.message });
+    }
+  }, []);
+
+  const loadTelegramLink = useCallback(async () => {
+    try {
+      setTelegramLink(await getMyTelegramLink());
+    } catch (error: any) {
+      logError("Failed to load Telegram link", { error: error.message });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadSessions();
+      loadTwoFactorStatus();
+      loadApiTokens();
+      loadNotificationPrefs();
+      loadTelegramLink();
+      getPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null));
+    }
+  }, [user, loadSessions, loadTwoFactorStatus, loadApiTokens, loadNotificationPrefs, loadTelegramLink]);
+
+  const runTwoFactorAction = async (action: () => Promise<void>) => {
+    setIsTwoFactorProcessing(true);
+    try {
+      await action();
+      setTwoFactorCode("");
+      setTwoFactorPassword("");
+      await loadTwoFactorStatus();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsTwoFactorProcessing(false);
+    }
+  };
+
+  const handleStartTwoFactor = () => runTwoFactorAction(async () => {
+    setRecoveryCodes([]);
+    setTwoFactorSetup(await startTwoFactorEnrollment());
+  });
+
+  const handleConfirmTwoFactor = () => runTwoFactorAction(async () => {
+    setRecoveryCodes(await confirmTwoFactorEnrollment(twoFactorCode));
+    setTwoFactorSetup(null);
+    toast({ title: "Verificación en Dos Pasos Activada", description: "Guarda tus códigos de recuperación en un lugar seguro." });
+  });
+
+  const handleRegenerateRecoveryCodes = () => runTwoFactorAction(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(twoFactorCode));
+    toast({ title: "Códigos Regenerados", description: "Los códigos anteriores ya no son válidos." });
+  });
+
+  const handleDisableTwoFactor = () => runTwoFactorAction(async () => {
+    await disableTwoFactor(twoFactorPassword);
+    setRecoveryCodes([]);
+    toast({ title: "Verificación en Dos Pasos Desactivada" });
+  });
+
+  const toggleNewTokenPermission = (permission: string, checked: boolean) => {
+    setNewTokenPermissions(prev => checked ? [...prev, permission] : prev.filter(p => p !== permission));
+  };
+
+  const handleCreateApiToken = async () => {
+    setIsCreatingToken(true);
+    try {
+      const { secret } = await createApiToken({ name: newTokenName, permissions: newTokenPermissions, expiresInDays: Number(newTokenDays) || null });
+      setCreatedTokenSecret(secret);
+      setNewTokenName("");
+      setNewTokenPermissions([]);
+      await loadApiTokens();
+      toast({ title: "Token Creado", description: "Copia el token ahora; no se volverá a mostrar." });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsCreatingToken(false);
+    }
+  };
+
+  const handleRevokeApiToken = async (token: ApiToken) => {
+    try {
+      await revokeApiToken(token.id);
+      setApiTokens(prev => prev.filter(t => t.id !== token.id));
+      toast({ title: "Token Revocado", description: `El token "${token.name}" ya no puede usarse.` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const toggleNotificationChannel = (category: UserNotificationCategory, channel: UserNotificationChannel, checked: boolean) => {
+    setNotificationPrefs(prev => prev && ({
+      ...prev,
+      channels: { ...prev.channels, [category]: { ...prev.channels[category], [channel]: checked } },
+    }));
+  };
+
+  const handleSaveNotificationPrefs = async () => {
+    if (!notificationPrefs) return;
+    setIsSavingNotificationPrefs(true);
+    try {
+      setNotificationPrefs(await saveMyNotificationPreferences(notificationPrefs));
+      toast({ title: "Preferencias Guardadas", description: "Tus preferencias de notificación se actualizaron." });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSavingNotificationPrefs(false);
+    }
+  };
+
+  const handleCreateTelegramLinkCode = async () => {
+    try {
+      setTelegramLinkCode(await createMyTelegramLinkCode());
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleRefreshTelegramLink = async () => {
+    setTelegramLinkCode(null);
+    await Promise.all([loadTelegramLink(), loadNotificationPrefs()]);
+  };
+
+  const handleUnlinkTelegram = async () => {
+    try {
+      await unlinkMyTelegramAccount();
+      toast({ title: "Telegram Desvinculado", description: "El bot ya no responderá tus comandos ni te enviará notificaciones." });
+      await handleRefreshTelegramLink();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleCloseAllSessions = async () => {
+    setIsClosingSessions(true);
+    try {
+      const closed = await closeAllMySessions();
+      toast({ title: "Sesiones Cerradas", description: `Se cerraron ${closed} sesión(es). Debes iniciar sesión de nuevo.` });
+      logout();
+    } catch (error: any) {
+      logError("Failed to close all user sessions", { error: error.message });
+      toast({ title: "Error", description: "No se pudieron cerrar las sesiones.", variant: "destructive" });
+      setIsClosingSessions(false);
+    }
+  };
+
   useEffect(() => {
     setTitle("Configuración de Perfil");
     if (user) {
@@ -130,10 +340,11 @@ export default function ProfilePage() {
         });
         return;
       }
-      if (passwords.new.length < 6) {
+      const passwordErrors = passwordPolicy ? validatePassword(passwords.new, passwordPolicy) : [];
+      if (passwordErrors.length > 0) {
         toast({
           title: "Contraseña Débil",
-          description: "La nueva contraseña debe tener al menos 6 caracteres.",
+          description: passwordErrors.join(' '),
           variant: "destructive",
         });
         return;
@@ -249,10 +460,10 @@ export default function ProfilePage() {
                   <Input
                     id="erpAlias"
                     value={formData.erpAlias || ''}
-                    onChange={handleProfileChange}
-                    placeholder="Tu nombre de usuario en el sistema ERP"
+                    readOnly
+                    placeholder="Sin alias asignado"
                   />
-                   <p className="text-xs text-muted-foreground">Este alias se usará para filtrar órdenes y solicitudes por tu usuario del ERP.</p>
+                   <p className="text-xs text-muted-foreground">Este alias se usará para filtrar órdenes y solicitudes por tu usuario del ERP. Solo un administrador de usuarios puede cambiarlo.</p>
                 </div>
                 <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                   <div className="space-y-2">
@@ -298,6 +509,17 @@ export default function ProfilePage() {
                     </div>
                 </div>
                 <Separator className="my-6" />
+                {user.impersonatedBy ? (
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-medium">Contraseña</h3>
+                    <p className="text-sm text-muted-foreground">La contraseña y la verificación en dos pasos solo las puede cambiar {user.name}, no mientras ves la aplicación como este usuario.</p>
+                  </div>
+                ) : user.authProvider === 'ldap' ? (
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-medium">Contraseña</h3>
+                    <p className="text-sm text-muted-foreground">Tu cuenta usa el directorio corporativo (LDAP). Cambia tu contraseña desde las herramientas de tu organización.</p>
+                  </div>
+                ) : (
                 <div className="space-y-4">
                     <h3 className="text-lg font-medium">Cambiar Contraseña</h3>
                     <div className="space-y-2">
@@ -307,18 +529,290 @@ export default function ProfilePage() {
                     <div className="space-y-2">
                         <Label htmlFor="new">Nueva Contraseña</Label>
                         <Input id="new" type="password" value={passwords.new} onChange={handlePasswordChange}/>
+                        {passwordPolicy && <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>}
                     </div>
                      <div className="space-y-2">
                         <Label htmlFor="confirm">Confirmar Nueva Contraseña</Label>
                         <Input id="confirm" type="password" value={passwords.confirm} onChange={handlePasswordChange}/>
                     </div>
                 </div>
+                )}
               </CardContent>
               <CardFooter className="border-t px-6 py-4">
                 <Button>Guardar Cambios</Button>
               </CardFooter>
             </Card>
           </form>
+          {notificationPrefs && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Bell className="h-5 w-5" />Preferencias de Notificación</CardTitle>
+              <CardDescription>
+                Elige por dónde recibir cada tipo de notificación y si el correo y Telegram llegan al momento o agrupados en un resumen.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="py-2 text-left font-medium">Categoría</th>
+                      {USER_NOTIFICATION_CHANNELS.map(channel => (
+                        <th key={channel.id} className="py-2 text-center font-medium">{channel.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {USER_NOTIFICATION_CATEGORIES.map(category => (
+                      <tr key={category.id} className="border-b last:border-0">
+                        <td className="py-2">{category.label}</td>
+                        {USER_NOTIFICATION_CHANNELS.map(channel => (
+                          <td key={channel.id} className="py-2 text-center">
+                            <Checkbox
+                              checked={notificationPrefs.channels[category.id][channel.id]}
+                              onCheckedChange={(checked) => toggleNotificationChannel(category.id, channel.id, !!checked)}
+                              aria-label={`${category.label}: ${channel.label}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Entrega por correo y Telegram</Label>
+                  <Select value={notificationPrefs.mode} onValueChange={(value) => setNotificationPrefs({ ...notificationPrefs, mode: value as NotificationDeliveryMode })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {NOTIFICATION_DELIVERY_MODES.map(mode => <SelectItem key={mode.id} value={mode.id}>{mode.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {notificationPrefs.mode === 'daily' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="digest-hour">Hora del resumen diario (0-23)</Label>
+                    <Input id="digest-hour" type="number" min={0} max={23} value={notificationPrefs.digestHour} onChange={(e) => setNotificationPrefs({ ...notificationPrefs, digestHour: Number(e.target.value) })} />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Switch id="quiet-hours" checked={notificationPrefs.quietHours.enabled} onCheckedChange={(checked) => setNotificationPrefs({ ...notificationPrefs, quietHours: { ...notificationPrefs.quietHours, enabled: checked } })} />
+                  <Label htmlFor="quiet-hours">Horas de silencio</Label>
+                </div>
+                {notificationPrefs.quietHours.enabled && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="quiet-start">Desde</Label>
+                      <Input id="quiet-start" type="time" value={notificationPrefs.quietHours.start} onChange={(e) => setNotificationPrefs({ ...notificationPrefs, quietHours: { ...notificationPrefs.quietHours, start: e.target.value } })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quiet-end">Hasta</Label>
+                      <Input id="quiet-end" type="time" value={notificationPrefs.quietHours.end} onChange={(e) => setNotificationPrefs({ ...notificationPrefs, quietHours: { ...notificationPrefs.quietHours, end: e.target.value } })} />
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">Durante las horas de silencio el correo y Telegram se retienen y se envían al terminar. La campana no se ve afectada.</p>
+              </div>
+              <div className="space-y-2 rounded-md border p-3">
+                <Label>Cuenta de Telegram</Label>
+                {telegramLink?.link ? (
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">
+                      Vinculada{telegramLink.link.telegramUsername ? <> con <span className="font-medium">@{telegramLink.link.telegramUsername}</span></> : null} desde el {format(parseISO(telegramLink.link.linkedAt), 'dd/MM/yyyy')}. Puedes consultar existencias, órdenes y solicitudes con /ayuda.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleUnlinkTelegram}>Desvincular</Button>
+                  </div>
+                ) : telegramLinkCode ? (
+                  <div className="space-y-2 text-sm">
+                    <p>
+                      Envía <span className="font-mono rounded bg-muted px-1">/vincular {telegramLinkCode.code}</span> en un chat privado con {telegramLinkCode.botUsername ? <a href={`https://t.me/${telegramLinkCode.botUsername}?start=${telegramLinkCode.code}`} target="_blank" rel="noreferrer" className="underline">@{telegramLinkCode.botUsername}</a> : "el bot del sistema"}. El código vence a las {format(parseISO(telegramLinkCode.expiresAt), 'HH:mm')}.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleRefreshTelegramLink}>Ya lo envié</Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">Vincula tu cuenta para recibir notificaciones privadas y consultar el sistema desde el bot.</p>
+                    <Button variant="outline" size="sm" onClick={handleCreateTelegramLinkCode}>Vincular</Button>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+            <CardFooter className="border-t px-6 py-4">
+              <Button onClick={handleSaveNotificationPrefs} disabled={isSavingNotificationPrefs}>
+                {isSavingNotificationPrefs && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Guardar Preferencias
+              </Button>
+            </CardFooter>
+          </Card>
+          )}
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><MonitorSmartphone className="h-5 w-5" />Sesiones Activas</CardTitle>
+              <CardDescription>
+                Dispositivos y navegadores donde tu cuenta tiene una sesión abierta.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {sessions.length > 0 ? sessions.map(session => (
+                <div key={session.id} className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium truncate">{session.userAgent || 'Navegador desconocido'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      IP: {session.ip || 'N/A'} · Inicio: {format(parseISO(session.createdAt), 'dd/MM/yyyy HH:mm')} · Última actividad: {format(parseISO(session.lastSeenAt), 'dd/MM/yyyy HH:mm')}
+                    </p>
+                  </div>
+                  {session.isCurrent && <span className="shrink-0 text-xs font-semibold text-green-600">Esta sesión</span>}
+                </div>
+              )) : (
+                <p className="text-sm text-muted-foreground">No hay sesiones activas registradas.</p>
+              )}
+            </CardContent>
+            <CardFooter className="border-t px-6 py-4">
+              <Button variant="destructive" onClick={handleCloseAllSessions} disabled={isClosingSessions}>
+                {isClosingSessions ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                Cerrar Todas mis Sesiones
+              </Button>
+            </CardFooter>
+          </Card>
+          {!user.impersonatedBy && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><ShieldCheck className="h-5 w-5" />Verificación en Dos Pasos</CardTitle>
+              <CardDescription>
+                Protege tu cuenta pidiendo un código de una aplicación autenticadora (Google Authenticator, Microsoft Authenticator, etc.) al iniciar sesión.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!twoFactorStatus ? (
+                <Skeleton className="h-10 w-full" />
+              ) : twoFactorStatus.enabled ? (
+                <>
+                  <p className="text-sm">
+                    <span className="font-semibold text-green-600">Activada.</span> Te quedan {twoFactorStatus.remainingRecoveryCodes} código(s) de recuperación.
+                  </p>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor="two-factor-code">Código de la Aplicación</Label>
+                      <div className="flex gap-2">
+                        <Input id="two-factor-code" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={twoFactorCode} onChange={(e) => setTwoFactorCode(e.target.value)} placeholder="123456" />
+                        <Button variant="outline" onClick={handleRegenerateRecoveryCodes} disabled={isTwoFactorProcessing || !twoFactorCode}>Regenerar Códigos</Button>
+                      </div>
+                    </div>
+                    {!twoFactorStatus.requiredByRole && (
+                      <div className="space-y-2">
+                        <Label htmlFor="two-factor-password">Contraseña Actual</Label>
+                        <div className="flex gap-2">
+                          <Input id="two-factor-password" type="password" value={twoFactorPassword} onChange={(e) => setTwoFactorPassword(e.target.value)} />
+                          <Button variant="destructive" onClick={handleDisableTwoFactor} disabled={isTwoFactorProcessing || !twoFactorPassword}>Desactivar</Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  {twoFactorStatus.requiredByRole && <p className="text-xs text-muted-foreground">Tu rol requiere la verificación en dos pasos, por lo que no se puede desactivar.</p>}
+                </>
+              ) : twoFactorSetup ? (
+                <div className="flex flex-col gap-4 md:flex-row md:items-start">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={twoFactorSetup.qrCodeDataUrl} alt="Código QR para la aplicación autenticadora" className="h-44 w-44 rounded-md border" />
+                  <div className="space-y-3">
+                    <p className="text-sm">Escanea el código QR con tu aplicación autenticadora, o ingresa esta clave manualmente:</p>
+                    <p className="font-mono text-sm break-all rounded-md bg-muted p-2">{twoFactorSetup.secret}</p>
+                    <Label htmlFor="two-factor-confirm">Código de 6 dígitos</Label>
+                    <div className="flex gap-2">
+                      <Input id="two-factor-confirm" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={twoFactorCode} onChange={(e) => setTwoFactorCode(e.target.value)} placeholder="123456" />
+                      <Button onClick={handleConfirmTwoFactor} disabled={isTwoFactorProcessing || !twoFactorCode}>Verificar y Activar</Button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-muted-foreground">
+                    {twoFactorStatus.requiredByRole ? "Tu rol requiere la verificación en dos pasos. Actívala ahora o se te pedirá en tu próximo inicio de sesión." : "La verificación en dos pasos no está activada."}
+                  </p>
+                  <Button onClick={handleStartTwoFactor} disabled={isTwoFactorProcessing}>
+                    {isTwoFactorProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Activar
+                  </Button>
+                </div>
+              )}
+              {recoveryCodes.length > 0 && (
+                <div className="space-y-2 rounded-md border border-amber-500 p-4">
+                  <p className="text-sm font-medium">Códigos de recuperación</p>
+                  <p className="text-xs text-muted-foreground">Cada código sirve una sola vez si pierdes acceso a tu aplicación. Guárdalos ahora; no se volverán a mostrar.</p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                    {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          )}
+          {!user.impersonatedBy && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><KeyRound className="h-5 w-5" />Tokens de API</CardTitle>
+              <CardDescription>
+                Permiten que scripts y sistemas externos consulten la API REST (<span className="font-mono">/api/v1</span>) en tu nombre, solo con los permisos que elijas. La documentación está en <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline font-mono">/api/v1/openapi.json</a>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {apiTokens.length > 0 ? apiTokens.map(token => (
+                <div key={token.id} className="flex items-start justify-between gap-4 rounded-md border p-3 text-sm">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium truncate">{token.name} <span className="font-mono text-xs text-muted-foreground">{token.tokenPrefix}…</span></p>
+                    <p className="text-xs text-muted-foreground">
+                      Creado: {format(parseISO(token.createdAt), 'dd/MM/yyyy')} · Vence: {token.expiresAt ? format(parseISO(token.expiresAt), 'dd/MM/yyyy') : 'Nunca'} · Último uso: {token.lastUsedAt ? format(parseISO(token.lastUsedAt), 'dd/MM/yyyy HH:mm') : 'Nunca'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Permisos: {token.permissions.map(p => permissionTranslations[p] || p).join(', ')}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleRevokeApiToken(token)} title="Revocar token">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              )) : (
+                <p className="text-sm text-muted-foreground">No tienes tokens de API.</p>
+              )}
+              {createdTokenSecret && (
+                <div className="space-y-2 rounded-md border border-amber-500 p-4">
+                  <p className="text-sm font-medium">Nuevo token</p>
+                  <p className="text-xs text-muted-foreground">Cópialo ahora y guárdalo en un lugar seguro; no se volverá a mostrar.</p>
+                  <p className="font-mono text-sm break-all rounded-md bg-muted p-2">{createdTokenSecret}</p>
+                </div>
+              )}
+              <Separator />
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-name">Nombre del Token</Label>
+                  <Input id="api-token-name" value={newTokenName} onChange={(e) => setNewTokenName(e.target.value)} placeholder="Ej: Integración ERP" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-days">Vigencia (días, vacío = sin vencimiento)</Label>
+                  <Input id="api-token-days" type="number" min={1} value={newTokenDays} onChange={(e) => setNewTokenDays(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Permisos del Token</Label>
+                <ScrollArea className="h-40 rounded-md border p-2">
+                  {(userRole?.permissions || []).map(permission => (
+                    <div key={permission} className="flex items-center space-x-2 py-1">
+                      <Checkbox id={`api-token-perm-${permission}`} checked={newTokenPermissions.includes(permission)} onCheckedChange={(checked) => toggleNewTokenPermission(permission, !!checked)} />
+                      <Label htmlFor={`api-token-perm-${permission}`} className="font-normal">{permissionTranslations[permission] || permission}</Label>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </div>
+            </CardContent>
+            <CardFooter className="border-t px-6 py-4">
+              <Button onClick={handleCreateApiToken} disabled={isCreatingToken || !newTokenName.trim() || newTokenPermissions.length === 0}>
+                {isCreatingToken ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Crear Token
+              </Button>
+            </CardFooter>
+          </Card>
+          )}
         </div>
       </main>
   );
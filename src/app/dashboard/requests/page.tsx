@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { StatusSlaBadge } from '@/components/dashboard/status-sla';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { FilePlus, Loader2, Check, MoreVertical, History, RefreshCcw, AlertTriangle, Undo2, PackageCheck, Truck, XCircle, Home, Pencil, FilterX, CalendarIcon, Users, User as UserIcon, ChevronLeft, ChevronRight, Layers, Lightbulb, FileDown, FileSpreadsheet, Info, Send, ShoppingBag, DollarSign, Filter } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
@@ -117,6 +118,9 @@ export default function PurchaseRequestPage() {
                             <CardTitle className="text-lg">{request.consecutive} - [{request.itemId}] {request.itemDescription}</CardTitle>
                             <CardDescription>Cliente: {request.clientName} {requestSettings?.showCustomerTaxId ? `(${request.clientTaxId})` : ''}</CardDescription>
                         </div>
+                        <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
+                            <StatusSlaBadge sla={requestSettings?.statusSla} status={request.status} statusChangedAt={request.statusChangedAt} />
+                        </div>
                     </div>
                 </CardHeader>
                 <CardContent className="p-4 pt-0">
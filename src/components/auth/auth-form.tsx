@@ -27,18 +27,22 @@ import { Label } from "@/components/ui/label";
 import { useRouter } from "next/navigation";
 import { Loader2, Network, UserPlus, AlertTriangle } from "lucide-react";
 import React, { useState, useEffect } from "react";
-import type { User } from "@/modules/core/types";
+import type { User, TwoFactorSetup, PasswordPolicy } from "@/modules/core/types";
 import { useToast } from "@/modules/core/hooks/use-toast";
 import {
   login,
   getAllUsers,
   saveAllUsers,
   sendRecoveryEmail,
+  verifyTwoFactorLogin,
+  getPasswordPolicy,
 } from "@/modules/core/lib/auth-client";
+import { validatePassword, describePasswordPolicy } from "@/modules/core/lib/password-policy";
 import { logInfo, logWarn, logError } from "@/modules/core/lib/logger";
 import { useAuth } from "@/modules/core/hooks/useAuth";
 import { SetupWizard } from "./setup-wizard";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { format, parseISO } from "date-fns";
 
 interface AuthFormProps {
   clientInfo: {
@@ -67,12 +71,19 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
   const [error, setError] = useState<string | null>(null);
 
   // Auth flow state
-  const [authStep, setAuthStep] = useState<"login" | "force_change" | "recovery_success">("login");
+  const [authStep, setAuthStep] = useState<"login" | "two_factor" | "two_factor_codes" | "force_change" | "recovery_success">("login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [userForPasswordChange, setUserForPasswordChange] = useState<User | null>(null);
 
+  // Two-factor step state
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[]>([]);
+  const [pendingLogin, setPendingLogin] = useState<{ user: User, forcePasswordChange: boolean } | null>(null);
+
   // Recovery dialog state
   const [isRecoveryDialogOpen, setRecoveryDialogOpen] = useState(false);
   const [recoveryEmail, setRecoveryEmail] = useState("");
@@ -80,6 +91,7 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
   // New password state
   const [newPassword, setNewPassword] = useState("");
   const [confirmNewPassword, setConfirmNewPassword] = useState("");
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
   
   useEffect(() => {
     // If the user is already logged in, redirect them to the dashboard.
@@ -106,21 +118,78 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
       const loginResult = await login(email, password, clientInfo);
 
       if (loginResult.user) {
-        if (loginResult.forcePasswordChange) {
-          setUserForPasswordChange(loginResult.user);
-          setAuthStep("force_change");
+        await completeLogin(loginResult.user, loginResult.forcePasswordChange);
+      } else if (loginResult.twoFactor) {
+        setChallengeToken(loginResult.twoFactor.challengeToken);
+        setTwoFactorSetup(loginResult.twoFactor.setup || null);
+        setTwoFactorCode("");
+        setAuthStep("two_factor");
+      } else if (loginResult.lockedUntil) {
+        toast({ title: "Acceso Bloqueado Temporalmente", description: `Demasiados intentos fallidos. Intenta de nuevo después de las ${format(parseISO(loginResult.lockedUntil), 'HH:mm')}.`, variant: "destructive" });
+      } else if (loginResult.temporaryPasswordExpired) {
+        toast({ title: "Contraseña Temporal Expirada", description: "Solicita una nueva desde \"¿Olvidaste tu contraseña?\".", variant: "destructive" });
+      } else {
+        toast({ title: "Credenciales Incorrectas", variant: "destructive" });
+      }
+    } catch (error: any) {
+      toast({ title: "Error de Inicio de Sesión", description: error.message, variant: "destructive" });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const completeLogin = async (loggedInUser: User, forcePasswordChange: boolean) => {
+    if (forcePasswordChange) {
+      setPasswordPolicy(await getPasswordPolicy().catch(() => null));
+      setUserForPasswordChange(loggedInUser);
+      setAuthStep("force_change");
+    } else {
+      // Pass the user object directly to refreshAuth to avoid race conditions
+      const refreshedUser = await refreshAuth(loggedInUser);
+      if (refreshedUser) {
+        redirectAfterLogin();
+      } else {
+         throw new Error("La sesión no se pudo establecer después del login.");
+      }
+    }
+  };
+
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setIsProcessing(true);
+    try {
+      const result = await verifyTwoFactorLogin(challengeToken, twoFactorCode, clientInfo);
+      if (result.user) {
+        if (result.recoveryCodes?.length) {
+          setNewRecoveryCodes(result.recoveryCodes);
+          setPendingLogin({ user: result.user, forcePasswordChange: result.forcePasswordChange });
+          setAuthStep("two_factor_codes");
         } else {
-          // Pass the user object directly to refreshAuth to avoid race conditions
-          const refreshedUser = await refreshAuth(loginResult.user);
-          if (refreshedUser) {
-            redirectAfterLogin();
-          } else {
-             throw new Error("La sesión no se pudo establecer después del login.");
-          }
+          await completeLogin(result.user, result.forcePasswordChange);
         }
+      } else if (result.lockedUntil) {
+        toast({ title: "Acceso Bloqueado Temporalmente", description: `Demasiados intentos fallidos. Intenta de nuevo después de las ${format(parseISO(result.lockedUntil), 'HH:mm')}.`, variant: "destructive" });
+        returnToLogin();
+      } else if (result.challengeExpired) {
+        toast({ title: "Verificación Expirada", description: "Vuelve a ingresar tu contraseña.", variant: "destructive" });
+        returnToLogin();
       } else {
-        toast({ title: "Credenciales Incorrectas", variant: "destructive" });
+        setTwoFactorCode("");
+        toast({ title: "Código Incorrecto", variant: "destructive" });
       }
+    } catch (error: any) {
+      toast({ title: "Error de Verificación", description: error.message, variant: "destructive" });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleContinueAfterRecoveryCodes = async () => {
+    if (!pendingLogin) return;
+    setIsProcessing(true);
+    try {
+      await completeLogin(pendingLogin.user, pendingLogin.forcePasswordChange);
     } catch (error: any) {
       toast({ title: "Error de Inicio de Sesión", description: error.message, variant: "destructive" });
     } finally {
@@ -130,8 +199,9 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
 
   const handleSetNewPassword = async () => {
     if (!userForPasswordChange) return;
-    if (newPassword.length < 6) {
-      toast({ title: "Contraseña Débil", description: "Debe tener al menos 6 caracteres.", variant: "destructive" });
+    const passwordErrors = passwordPolicy ? validatePassword(newPassword, passwordPolicy) : [];
+    if (passwordErrors.length > 0) {
+      toast({ title: "Contraseña Débil", description: passwordErrors.join(' '), variant: "destructive" });
       return;
     }
     if (newPassword !== confirmNewPassword) {
@@ -148,7 +218,7 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
       setAuthStep("recovery_success");
     } catch (error: any) {
       logError("Failed to set new password", { error: error.message });
-      toast({ title: "Error", description: "No se pudo actualizar la contraseña.", variant: "destructive" });
+      toast({ title: "Error", description: error.message || "No se pudo actualizar la contraseña.", variant: "destructive" });
     } finally {
       setIsProcessing(false);
     }
@@ -176,6 +246,11 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
     setNewPassword("");
     setConfirmNewPassword("");
     setUserForPasswordChange(null);
+    setChallengeToken(null);
+    setTwoFactorSetup(null);
+    setTwoFactorCode("");
+    setNewRecoveryCodes([]);
+    setPendingLogin(null);
     setAuthStep("login");
   };
   
@@ -194,6 +269,8 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
   const getHeaderDescription = () => {
     if (isLoading) return "Verificando el estado del sistema...";
     if (error) return "Ocurrió un error al inicializar.";
+    if (authStep === 'two_factor') return twoFactorSetup ? "Tu rol requiere verificación en dos pasos. Configura tu aplicación autenticadora." : "Ingresa el código de tu aplicación autenticadora.";
+    if (authStep === 'two_factor_codes') return "Guarda tus códigos de recuperación.";
     if (authStep === 'force_change') return "Por seguridad, debes establecer una nueva contraseña.";
     if (authStep === 'recovery_success') return "Tu contraseña ha sido actualizada.";
     return hasUsers ? "Inicia sesión para acceder a tus herramientas" : "Completa la configuración para crear tu cuenta de administrador";
@@ -206,10 +283,41 @@ export function AuthForm({ clientInfo, initialData }: AuthFormProps) {
     if (hasUsers === false) return <SetupWizard clientInfo={clientInfo} />;
 
     switch (authStep) {
+      case 'two_factor':
+        return (
+          <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+            {twoFactorSetup && (
+              <div className="flex flex-col items-center gap-2 text-center">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={twoFactorSetup.qrCodeDataUrl} alt="Código QR para la aplicación autenticadora" className="h-44 w-44 rounded-md border" />
+                <p className="text-sm text-muted-foreground">Escanea el código o ingresa la clave manualmente:</p>
+                <p className="font-mono text-sm break-all rounded-md bg-muted p-2">{twoFactorSetup.secret}</p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">{twoFactorSetup ? "Código de 6 dígitos" : "Código de verificación o de recuperación"}</Label>
+              <Input id="two-factor-code" autoComplete="one-time-code" autoFocus value={twoFactorCode} onChange={(e) => setTwoFactorCode(e.target.value)} placeholder="123456" required />
+            </div>
+            <CardFooter className="p-0 pt-4 flex-col gap-2">
+              <Button type="submit" className="w-full" disabled={isProcessing}>{isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Verificar</Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={returnToLogin}>Cancelar</Button>
+            </CardFooter>
+          </form>
+        );
+      case 'two_factor_codes':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Cada código sirve una sola vez si pierdes acceso a tu aplicación autenticadora. No se volverán a mostrar.</p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+              {newRecoveryCodes.map(code => <span key={code}>{code}</span>)}
+            </div>
+            <CardFooter className="p-0 pt-4"><Button onClick={handleContinueAfterRecoveryCodes} className="w-full" disabled={isProcessing}>{isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Ya los guardé, continuar</Button></CardFooter>
+          </div>
+        );
       case 'force_change':
         return (
           <div className="space-y-4">
-            <div className="space-y-2"><Label htmlFor="new-password">Nueva Contraseña</Label><Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} required /></div>
+            <div className="space-y-2"><Label htmlFor="new-password">Nueva Contraseña</Label><Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} required />{passwordPolicy && <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>}</div>
             <div className="space-y-2"><Label htmlFor="confirm-new-password">Confirmar Nueva Contraseña</Label><Input id="confirm-new-password" type="password" value={confirmNewPassword} onChange={(e) => setConfirmNewPassword(e.target.value)} required /></div>
             <CardFooter className="p-0 pt-4"><Button onClick={handleSetNewPassword} className="w-full" disabled={isProcessing}>{isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Establecer Nueva Contraseña</Button></CardFooter>
           </div>
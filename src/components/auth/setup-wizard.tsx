@@ -6,11 +6,14 @@
  */
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/modules/core/hooks/use-toast";
 import { logError } from "@/modules/core/lib/logger";
 import { createFirstUser } from "@/modules/core/lib/user-actions";
+import { getPasswordPolicy } from "@/modules/core/lib/auth-client";
+import { validatePassword, describePasswordPolicy } from "@/modules/core/lib/password-policy";
+import type { PasswordPolicy } from "@/modules/core/types";
 import { Button } from "@/components/ui/button";
 import { CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -37,6 +40,12 @@ export function SetupWizard({ clientInfo }: SetupWizardProps) {
     whatsapp: ""
   });
 
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    getPasswordPolicy().then(setPasswordPolicy).catch(() => setPasswordPolicy(null));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { id, value } = e.target;
     setFormData(prev => ({ ...prev, [id]: value }));
@@ -52,8 +61,9 @@ export function SetupWizard({ clientInfo }: SetupWizardProps) {
         toast({ title: "Contraseñas no coinciden", description: "La contraseña y su confirmación deben ser iguales.", variant: "destructive" });
         return;
     }
-    if (formData.password.length < 6) {
-        toast({ title: "Contraseña Débil", description: "La contraseña debe tener al menos 6 caracteres.", variant: "destructive" });
+    const passwordErrors = passwordPolicy ? validatePassword(formData.password, passwordPolicy) : [];
+    if (passwordErrors.length > 0) {
+        toast({ title: "Contraseña Débil", description: passwordErrors.join(' '), variant: "destructive" });
         return;
     }
 
@@ -84,6 +94,7 @@ export function SetupWizard({ clientInfo }: SetupWizardProps) {
       <div className="space-y-2">
         <Label htmlFor="password">Contraseña</Label>
         <Input id="password" type="password" value={formData.password} onChange={handleChange} required />
+        {passwordPolicy && <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>}
       </div>
       <div className="space-y-2">
         <Label htmlFor="confirmPassword">Confirmar Contraseña</Label>
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Shared pieces of the status SLAs of purchase requests and production orders:
+ * the settings section of their admin pages and the "overdue in status" badge of their lists.
+ */
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Timer } from 'lucide-react';
+import type { StatusSlaSettings } from '@/modules/core/types';
+import { STATUS_SLA_ESCALATION_LEVELS, formatSlaHours, getStatusSlaState } from '@/modules/core/lib/status-sla';
+
+interface StatusSlaSettingsFieldsProps<S extends string> {
+    sla: StatusSlaSettings<S>;
+    statuses: { status: S; label: string }[];
+    onChange: (sla: StatusSlaSettings<S>) => void;
+}
+
+export function StatusSlaSettingsFields<S extends string>({ sla, statuses, onChange }: StatusSlaSettingsFieldsProps<S>) {
+    const handleHoursChange = (status: S, value: string) => {
+        const hoursByStatus = { ...sla.hoursByStatus };
+        if (value === '' || Number(value) <= 0) {
+            delete hoursByStatus[status];
+        } else {
+            hoursByStatus[status] = Number(value);
+        }
+        onChange({ ...sla, hoursByStatus });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center space-x-2">
+                <Switch id="sla-enabled" checked={sla.enabled} onCheckedChange={(checked) => onChange({ ...sla, enabled: checked })} />
+                <Label htmlFor="sla-enabled">Activar SLA por estado y escalamiento</Label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+                {statuses.map(({ status, label }) => (
+                    <div key={status} className="space-y-2">
+                        <Label htmlFor={`sla-${status}`}>{label} (horas)</Label>
+                        <Input id={`sla-${status}`} type="number" min={1} value={sla.hoursByStatus[status] ?? ''} onChange={(e) => handleHoursChange(status, e.target.value)} placeholder="Sin SLA" disabled={!sla.enabled} />
+                    </div>
+                ))}
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="sla-interval">Horas entre escalamientos</Label>
+                <Input id="sla-interval" type="number" min={1} className="max-w-xs" value={sla.escalationIntervalHours} onChange={(e) => onChange({ ...sla, escalationIntervalHours: Number(e.target.value) })} disabled={!sla.enabled} />
+                <p className="text-xs text-muted-foreground">
+                    Al vencer el SLA se avisa a: {STATUS_SLA_ESCALATION_LEVELS.map(level => level.label.toLowerCase()).join(', luego ')}, dejando este intervalo entre cada aviso.
+                    Cada aviso queda en el historial. Requiere programar la tarea &quot;Escalar Solicitudes y Órdenes Vencidas en su Estado&quot;.
+                </p>
+            </div>
+        </div>
+    );
+}
+
+interface StatusSlaBadgeProps {
+    sla: StatusSlaSettings | undefined;
+    status: string;
+    statusChangedAt: string | undefined;
+}
+
+/** Shows how long an entity has been in its status when it exceeded the SLA. Renders nothing otherwise. */
+export function StatusSlaBadge({ sla, status, statusChangedAt }: StatusSlaBadgeProps) {
+    const state = getStatusSlaState(sla, status, statusChangedAt);
+    if (!state?.isOverdue) return null;
+    return (
+        <Badge variant="destructive" title={`SLA del estado: ${formatSlaHours(state.limitHours)}`}>
+            <Timer className="mr-1 h-3 w-3" /> Vencida en estado ({formatSlaHours(state.elapsedHours)})
+        </Badge>
+    );
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview History of the ERP synchronizations: one row per synchronization with a summary
+ * of what changed in the local data, and a dialog with the detail of each imported data type.
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { History, Loader2, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SyncRun } from '@/modules/core/types';
+import { IMPORT_TYPE_LABELS } from '@/modules/core/lib/import-types';
+
+interface SyncHistoryProps {
+    runs: SyncRun[];
+    isLoading: boolean;
+    /** Synchronization whose detail is opened on load, e.g. from the link of the sync warning. */
+    initialRunId?: string | null;
+    onRefresh: () => void;
+}
+
+type SyncGroup = {
+    runId: string;
+    startedAt: string;
+    durationMs: number;
+    source: SyncRun['source'];
+    triggeredBy: string;
+    runs: SyncRun[];
+    failedCount: number;
+};
+
+const formatDate = (value: string) => format(parseISO(value), "dd/MM/yyyy HH:mm:ss", { locale: es });
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : ms < 60000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+
+/** Lists the changes of an imported data type, e.g. "3 nuevos, 14 desactivados". */
+function describeChanges(run: SyncRun): string[] {
+    const parts: [number | null, string, string][] = [
+        [run.insertedCount, 'nuevo', 'nuevos'],
+        [run.updatedCount, 'actualizado', 'actualizados'],
+        [run.deletedCount, 'eliminado', 'eliminados'],
+        [run.deactivatedCount, 'desactivado', 'desactivados'],
+        [run.reactivatedCount, 'reactivado', 'reactivados'],
+    ];
+    return parts.filter(([count]) => count).map(([count, singular, plural]) => `${count!.toLocaleString('es-CR')} ${count === 1 ? singular : plural}`);
+}
+
+function groupRuns(runs: SyncRun[]): SyncGroup[] {
+    const groups = new Map<string, SyncGroup>();
+    for (const run of runs) {
+        const group = groups.get(run.runId);
+        if (!group) {
+            groups.set(run.runId, { runId: run.runId, startedAt: run.startedAt, durationMs: run.durationMs, source: run.source, triggeredBy: run.triggeredBy, runs: [run], failedCount: run.status === 'error' ? 1 : 0 });
+            continue;
+        }
+        group.runs.push(run);
+        group.durationMs += run.durationMs;
+        if (run.startedAt < group.startedAt) group.startedAt = run.startedAt;
+        if (run.status === 'error') group.failedCount++;
+    }
+    // Runs come newest first; the detail lists the data types in import order.
+    return Array.from(groups.values()).map(group => ({ ...group, runs: group.runs.reverse() }));
+}
+
+function GroupStatusBadge({ group }: { group: SyncGroup }) {
+    if (group.failedCount === 0) return <Badge className="bg-green-600 hover:bg-green-600">Exitosa</Badge>;
+    if (group.failedCount === group.runs.length) return <Badge variant="destructive">Fallida</Badge>;
+    return <Badge variant="destructive">{group.failedCount} con error</Badge>;
+}
+
+export function SyncHistory({ runs, isLoading, initialRunId, onRefresh }: SyncHistoryProps) {
+    const groups = useMemo(() => groupRuns(runs), [runs]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [initialRunShown, setInitialRunShown] = useState(false);
+
+    useEffect(() => {
+        if (initialRunShown || !initialRunId || !groups.some(group => group.runId === initialRunId)) return;
+        setSelectedRunId(initialRunId);
+        setInitialRunShown(true);
+    }, [groups, initialRunId, initialRunShown]);
+
+    const selectedGroup = groups.find(group => group.runId === selectedRunId);
+
+    return (
+        <Card id="sync-history">
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                    <CardTitle>Historial de Sincronizaciones</CardTitle>
+                    <CardDescription>
+                        Cada sincronización con el ERP, con los registros nuevos, actualizados, eliminados y desactivados en los datos locales.
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={onRefresh} disabled={isLoading}>
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                    Refrescar
+                </Button>
+            </CardHeader>
+            <CardContent>
+                {groups.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">{isLoading ? 'Cargando historial...' : 'Aún no hay sincronizaciones registradas.'}</p>
+                ) : (
+                    <ScrollArea className="h-[28rem]">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Fecha</TableHead>
+                                    <TableHead>Estado</TableHead>
+                                    <TableHead>Origen</TableHead>
+                                    <TableHead>Ejecutada por</TableHead>
+                                    <TableHead>Duración</TableHead>
+                                    <TableHead>Qué cambió</TableHead>
+                                    <TableHead className="text-right">Detalle</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {groups.map(group => {
+                                    const changes = group.runs
+                                        .map(run => ({ run, parts: describeChanges(run) }))
+                                        .filter(({ parts }) => parts.length > 0);
+                                    return (
+                                        <TableRow key={group.runId}>
+                                            <TableCell className="whitespace-nowrap">{formatDate(group.startedAt)}</TableCell>
+                                            <TableCell><GroupStatusBadge group={group} /></TableCell>
+                                            <TableCell>{group.source === 'sql' ? 'SQL Server' : 'Archivos'}</TableCell>
+                                            <TableCell>{group.triggeredBy}</TableCell>
+                                            <TableCell className="whitespace-nowrap">{formatDuration(group.durationMs)}</TableCell>
+                                            <TableCell className="text-sm">
+                                                {changes.length === 0
+                                                    ? <span className="text-muted-foreground">Sin cambios</span>
+                                                    : changes.map(({ run, parts }) => (
+                                                        <div key={run.id}><span className="font-medium">{IMPORT_TYPE_LABELS[run.type]}:</span> {parts.join(', ')}</div>
+                                                    ))}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <Button variant="ghost" size="icon" onClick={() => setSelectedRunId(group.runId)} title="Ver detalle">
+                                                    <History className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </ScrollArea>
+                )}
+            </CardContent>
+
+            <Dialog open={!!selectedGroup} onOpenChange={(open) => !open && setSelectedRunId(null)}>
+                <DialogContent className="max-w-5xl">
+                    {selectedGroup && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle>Sincronización del {formatDate(selectedGroup.startedAt)}</DialogTitle>
+                                <DialogDescription>
+                                    {selectedGroup.source === 'sql' ? 'SQL Server' : 'Archivos'} · Ejecutada por {selectedGroup.triggeredBy} · {formatDuration(selectedGroup.durationMs)}
+                                </DialogDescription>
+                            </DialogHeader>
+                            <ScrollArea className="max-h-[60vh]">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Tipo de Dato</TableHead>
+                                            <TableHead>Estado</TableHead>
+                                            <TableHead className="text-right">Leídos</TableHead>
+                                            <TableHead className="text-right">Nuevos</TableHead>
+                                            <TableHead className="text-right">Actualizados</TableHead>
+                                            <TableHead className="text-right">Eliminados</TableHead>
+                                            <TableHead className="text-right">Desactivados</TableHead>
+                                            <TableHead>Duración</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {selectedGroup.runs.map(run => (
+                                            <TableRow key={run.id}>
+                                                <TableCell className="font-medium">
+                                                    {IMPORT_TYPE_LABELS[run.type]}
+                                                    {run.mode && <span className="ml-2 text-xs text-muted-foreground">({run.mode === 'incremental' ? 'incremental' : 'completa'})</span>}
+                                                    {run.error && <p className="mt-1 text-xs font-normal text-destructive">{run.error}</p>}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {run.status === 'success'
+                                                        ? <Badge className="bg-green-600 hover:bg-green-600">Exitosa</Badge>
+                                                        : <Badge variant="destructive">Error</Badge>}
+                                                </TableCell>
+                                                <TableCell className="text-right">{run.rowCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell className="text-right">{run.insertedCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell className="text-right">{run.updatedCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell className="text-right">{run.deletedCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell className="text-right">{run.deactivatedCount?.toLocaleString('es-CR') ?? '—'}</TableCell>
+                                                <TableCell className="whitespace-nowrap">{formatDuration(run.durationMs)}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </ScrollArea>
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
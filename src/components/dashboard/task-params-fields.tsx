@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Form of the parameters of a scheduled task, rendered from the Zod schema the
+ * task declares in the registry.
+ */
+'use client';
+
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import type { TelegramDestination } from '@/modules/core/types';
+import type { TaskDefinition } from '@/lib/task-registry';
+import { describeTaskParams, type TaskParamField } from '@/lib/task-params';
+
+interface TaskParamsFieldsProps {
+    definition: TaskDefinition | undefined;
+    values: Record<string, unknown>;
+    telegramDestinations: TelegramDestination[];
+    onChange: (values: Record<string, unknown>) => void;
+}
+
+function CheckboxList({ id, options, selected, onChange }: { id: string; options: { value: string; label: string }[]; selected: string[]; onChange: (selected: string[]) => void }) {
+    return (
+        <div className="grid gap-2 sm:grid-cols-2">
+            {options.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                        id={`${id}-${option.value}`}
+                        checked={selected.includes(option.value)}
+                        onCheckedChange={(checked) => onChange(checked === true ? [...selected, option.value] : selected.filter(value => value !== option.value))}
+                    />
+                    <Label htmlFor={`${id}-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export function TaskParamsFields({ definition, values, telegramDestinations, onChange }: TaskParamsFieldsProps) {
+    const fields = describeTaskParams(definition?.params, definition?.optionLabels);
+    if (fields.length === 0) return null;
+
+    const setValue = (key: string, value: unknown) => onChange({ ...values, [key]: value });
+    const asList = (value: unknown) => Array.isArray(value) ? value.map(String) : [];
+
+    const renderField = (field: TaskParamField) => {
+        const id = `task-param-${field.key}`;
+        const value = values[field.key];
+        switch (field.kind) {
+            case 'boolean':
+                return (
+                    <div key={field.key} className="flex items-center space-x-2">
+                        <Switch id={id} checked={value === true} onCheckedChange={(checked) => setValue(field.key, checked)} />
+                        <Label htmlFor={id}>{field.label}</Label>
+                    </div>
+                );
+            case 'number':
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label htmlFor={id}>{field.label}</Label>
+                        <Input id={id} type="number" min={field.min} max={field.max} value={typeof value === 'number' ? value : ''} onChange={(e) => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))} />
+                    </div>
+                );
+            case 'select':
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label htmlFor={id}>{field.label}</Label>
+                        <Select value={typeof value === 'string' ? value : undefined} onValueChange={(val) => setValue(field.key, val)}>
+                            <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+                            <SelectContent>{field.options?.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}</SelectContent>
+                        </Select>
+                    </div>
+                );
+            case 'multiselect':
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label>{field.label}</Label>
+                        <CheckboxList id={id} options={field.options || []} selected={asList(value)} onChange={(selected) => setValue(field.key, selected)} />
+                    </div>
+                );
+            case 'telegramDestinations':
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label>{field.label}</Label>
+                        {telegramDestinations.length > 0
+                            ? <CheckboxList id={id} options={telegramDestinations.map(d => ({ value: d.id, label: d.name }))} selected={asList(value)} onChange={(selected) => setValue(field.key, selected)} />
+                            : <p className="text-xs text-muted-foreground">No hay destinos de Telegram configurados.</p>}
+                    </div>
+                );
+            case 'list':
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label htmlFor={id}>{field.label}</Label>
+                        <Textarea id={id} rows={3} value={asList(value).join('\n')} onChange={(e) => setValue(field.key, e.target.value.split('\n'))} placeholder="Un valor por línea" />
+                    </div>
+                );
+            default:
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <Label htmlFor={id}>{field.label}</Label>
+                        <Input id={id} value={typeof value === 'string' ? value : ''} onChange={(e) => setValue(field.key, e.target.value)} />
+                    </div>
+                );
+        }
+    };
+
+    return (
+        <div className="space-y-4 rounded-md border p-4">
+            <p className="text-sm font-medium">Parámetros</p>
+            {fields.map(renderField)}
+        </div>
+    );
+}
@@ -5,7 +5,8 @@
  */
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { UserNav } from "./user-nav";
 import { NotificationBell } from "./notification-bell";
@@ -14,6 +15,8 @@ import { useAuthorization } from "@/modules/core/hooks/useAuthorization";
 import { useToast } from "@/modules/core/hooks/use-toast";
 import { logError, logInfo } from "@/modules/core/lib/logger";
 import { syncAllData } from "@/modules/core/lib/actions";
+import { getLastFailedSyncRun } from "@/modules/core/lib/db";
+import type { SyncRun } from "@/modules/core/types";
 import { addSuggestion } from "@/modules/core/lib/suggestions-actions";
 import { format, parseISO } from 'date-fns';
 import { cn } from "@/lib/utils";
@@ -39,10 +42,24 @@ function HeaderActions() {
     const [suggestion, setSuggestion] = useState("");
     const [isSubmittingSuggestion, setIsSubmittingSuggestion] = useState(false);
     const [isSuggestionDialogOpen, setSuggestionDialogOpen] = useState(false);
+    const [lastFailedSync, setLastFailedSync] = useState<SyncRun | null>(null);
 
     const isSyncOld = companyData?.lastSyncTimestamp && companyData?.syncWarningHours 
       ? (new Date().getTime() - parseISO(companyData.lastSyncTimestamp).getTime()) > (companyData.syncWarningHours * 60 * 60 * 1000) 
       : false;
+    const canReadSyncHistory = hasPermission('admin:import:run');
+
+    // When the data is out of date, the warning links to the last failed import to see why,
+    // as long as it failed after the last successful synchronization.
+    const failedSinceLastSync = lastFailedSync && companyData?.lastSyncTimestamp
+      && parseISO(lastFailedSync.startedAt).getTime() > parseISO(companyData.lastSyncTimestamp).getTime()
+      ? lastFailedSync
+      : null;
+
+    useEffect(() => {
+      if (!isSyncOld || !canReadSyncHistory) return;
+      getLastFailedSyncRun().then(setLastFailedSync).catch(() => setLastFailedSync(null));
+    }, [isSyncOld, canReadSyncHistory]);
 
     const handleFullSync = async () => {
       if (!hasPermission('admin:import:run')) {
@@ -115,13 +132,23 @@ function HeaderActions() {
                     </Button>
                 </div>
             )}
-            {companyData?.lastSyncTimestamp && (
+            {companyData?.lastSyncTimestamp && (isSyncOld && failedSinceLastSync ? (
+                <Link
+                    href={`/dashboard/admin/import?syncRun=${failedSinceLastSync.runId}`}
+                    title={`Última sincronización fallida: ${format(parseISO(failedSinceLastSync.startedAt), 'dd/MM/yy HH:mm')}. ${failedSinceLastSync.error || ''}`}
+                    className="hidden items-center gap-2 text-sm p-2 border rounded-lg sm:flex text-red-500 font-medium border-red-500/50 bg-red-50 hover:underline"
+                >
+                    <Clock className="h-4 w-4" />
+                    <span className="hidden lg:inline">Última Sinc:</span>
+                    <strong>{format(parseISO(companyData.lastSyncTimestamp), 'dd/MM/yy HH:mm')}</strong>
+                </Link>
+            ) : (
                 <div className={cn("hidden items-center gap-2 text-sm text-muted-foreground p-2 border rounded-lg sm:flex", isSyncOld && "text-red-500 font-medium border-red-500/50 bg-red-50")}>
                     <Clock className="h-4 w-4" />
                     <span className="hidden lg:inline">Última Sinc:</span>
                     <strong>{format(parseISO(companyData.lastSyncTimestamp), 'dd/MM/yy HH:mm')}</strong>
                 </div>
-            )}
+            ))}
              {hasPermission('admin:import:run') && (
                 <Button onClick={handleFullSync} disabled={isSyncing} variant="outline" className="h-9 w-9 p-0 sm:w-auto sm:px-3">
                     {isSyncing ? <Loader2 className="animate-spin h-4 w-4" /> : <RefreshCw className={cn("h-4 w-4", isSyncOld && "animate-pulse text-red-500")}/>}
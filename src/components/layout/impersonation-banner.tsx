@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Persistent banner shown while an administrator is viewing the application
+ * as another user. It names both people and ends the impersonation with one click.
+ */
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/modules/core/hooks/useAuth";
+import { useToast } from "@/modules/core/hooks/use-toast";
+import { stopImpersonation } from "@/modules/core/lib/auth-client";
+import { Button } from "@/components/ui/button";
+import { Eye, Loader2, LogOut } from "lucide-react";
+
+/**
+ * Renders the impersonation banner, or nothing outside of an impersonation session.
+ * @returns {JSX.Element | null} The banner.
+ */
+export function ImpersonationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!user?.impersonatedBy) {
+    return null;
+  }
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+      // A full reload discards every piece of state loaded as the impersonated user.
+      window.location.href = '/dashboard/admin/users';
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      setIsStopping(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-500 px-4 py-2 text-sm text-amber-950 shrink-0">
+      <Eye className="h-4 w-4" />
+      <span>
+        <strong>{user.impersonatedBy.name}</strong>, estás viendo la aplicación como <strong>{user.name}</strong>. Los cambios quedarán registrados a nombre de ambos.
+      </span>
+      <Button size="sm" variant="outline" className="h-7 border-amber-950/40 bg-amber-100 hover:bg-amber-200" onClick={handleStop} disabled={isStopping}>
+        {isStopping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+        Volver a mi cuenta
+      </Button>
+    </div>
+  );
+}
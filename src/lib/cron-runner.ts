@@ -1,18 +1,179 @@
 /**
  * @fileoverview This file contains the "engine" for running scheduled tasks.
  * It reads tasks from the database and uses node-cron to schedule them.
+ * Every run is recorded in the scheduled_task_runs table, whether it was fired by its
+ * schedule or started by hand from the admin page.
  * This script should be run once when the server starts.
  */
 'use server';
 
 import cron from 'node-cron';
-import { getAllScheduledTasks } from '@/modules/notifications/lib/db';
+import type { ScheduledTask, ScheduledTaskRun, ScheduledTaskRunTrigger } from '@/modules/core/types';
+import {
+  getAllScheduledTasks,
+  getScheduledTaskById,
+} from '@/modules/notifications/lib/db';
+import {
+  createScheduledTaskRun,
+  finishScheduledTaskRun,
+  closeInterruptedScheduledTaskRuns,
+} from '@/modules/notifications/lib/server-db';
 import { AVAILABLE_TASKS } from './task-registry';
-import { logInfo, logError } from '@/modules/core/lib/logger';
+import { parseTaskParams } from './task-params';
+import { logInfo, logWarn, logError } from '@/modules/core/lib/logger';
+import { authorizeAction, runAsSystem } from '@/modules/core/lib/authorization';
+
+/** Minutes a run may take before it is reported as timed out, when its task sets no timeout. */
+const DEFAULT_TASK_TIMEOUT_MINUTES = 60;
+const MAX_RESULT_SUMMARY_LENGTH = 500;
 
 // In-memory store for currently running cron jobs
 const scheduledJobs = new Map<number, cron.ScheduledTask>();
 
+// Registry ids of the actions running right now. An action is never started twice at once,
+// even from two scheduled tasks, and it stays locked until it really ends, also after a timeout.
+const runningActions = new Set<string>();
+
+let interruptedRunsClosed = false;
+
+class TaskTimeoutError extends Error {}
+
+function summarizeResult(result: unknown): string | null {
+  if (result === undefined || result === null) return null;
+  const text = typeof result === 'string' ? result : JSON.stringify(result);
+  return text.length > MAX_RESULT_SUMMARY_LENGTH ? `${text.slice(0, MAX_RESULT_SUMMARY_LENGTH - 3)}...` : text;
+}
+
+/**
+ * Starts a run of a scheduled task and records it.
+ * @returns The recorded run and a promise that settles once the run is recorded as finished,
+ * or null when the action of the task is already running.
+ */
+async function startTaskRun(task: ScheduledTask, triggerType: ScheduledTaskRunTrigger, triggeredBy: string | null): Promise<{ run: ScheduledTaskRun; completion: Promise<void> } | null> {
+  const definition = AVAILABLE_TASKS[task.taskId];
+  if (!definition) {
+    throw new Error(`La acción "${task.taskId}" no existe.`);
+  }
+  if (runningActions.has(task.taskId)) return null;
+  runningActions.add(task.taskId);
+
+  let run: ScheduledTaskRun;
+  try {
+    run = await createScheduledTaskRun({ scheduledTaskId: task.id, taskId: task.taskId, triggerType, triggeredBy, status: 'running' });
+  } catch (error) {
+    runningActions.delete(task.taskId);
+    throw error;
+  }
+
+  console.log(`🏃‍♂️ Running scheduled task: ${task.name}`);
+  await logInfo(`Scheduled task started: ${task.name}`, { taskId: task.taskId, runId: run.id, trigger: triggerType, triggeredBy });
+
+  // Scheduled tasks have no user session, so they run with system privileges.
+  const execution = runAsSystem(async () => definition.action(parseTaskParams(definition.params, task.params)));
+  execution.then(() => undefined, () => undefined).then(() => runningActions.delete(task.taskId));
+
+  const timeoutMinutes = task.timeoutMinutes || DEFAULT_TASK_TIMEOUT_MINUTES;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TaskTimeoutError(`La tarea superó el tiempo límite de ${timeoutMinutes} minuto(s).`)), timeoutMinutes * 60 * 1000);
+  });
+
+  const completion = (async () => {
+    try {
+      const result = await Promise.race([execution, timeout]);
+      await finishScheduledTaskRun(run.id, { status: 'success', resultSummary: summarizeResult(result) });
+      await logInfo(`Scheduled task finished successfully: ${task.name}`, { taskId: task.taskId, runId: run.id });
+    } catch (error: any) {
+      const timedOut = error instanceof TaskTimeoutError;
+      await finishScheduledTaskRun(run.id, { status: timedOut ? 'timeout' : 'error', error: error.message });
+      await logError(timedOut ? `Scheduled task timed out: ${task.name}` : `Scheduled task failed: ${task.name}`, { taskId: task.taskId, runId: run.id, error: error.message });
+    } finally {
+      clearTimeout(timer);
+    }
+  })();
+
+  return { run, completion };
+}
+
+/**
+ * Runs a task fired by its schedule. When its action is still running from a previous run
+ * the run is recorded as skipped.
+ */
+async function runOnSchedule(task: ScheduledTask) {
+  try {
+    const started = await startTaskRun(task, 'schedule', null);
+    if (started) {
+      await started.completion;
+      return;
+    }
+    await createScheduledTaskRun({
+      scheduledTaskId: task.id, taskId: task.taskId, triggerType: 'schedule', triggeredBy: null, status: 'skipped',
+      error: 'Omitida: la ejecución anterior de esta acción sigue en curso.',
+    });
+    await logWarn(`Scheduled task skipped because its previous run is still in progress: ${task.name}`, { taskId: task.taskId });
+  } catch (error: any) {
+    await logError(`Scheduled task could not be started: ${task.name}`, { taskId: task.taskId, error: error.message });
+  }
+}
+
+/**
+ * Starts a scheduled task right away, on behalf of the current user. It does not wait for the
+ * task to finish; its outcome is recorded in the run history.
+ * @returns The run, recorded as running.
+ */
+export async function runScheduledTaskNow(scheduledTaskId: number): Promise<ScheduledTaskRun> {
+  const user = await authorizeAction('runScheduledTaskNow', 'admin:notifications:write');
+  const task = await getScheduledTaskById(scheduledTaskId);
+  if (!task) {
+    throw new Error('La tarea programada no existe.');
+  }
+  const definition = AVAILABLE_TASKS[task.taskId];
+  if (definition) {
+    await authorizeAction('runScheduledTaskNow', definition.permission);
+  }
+  const started = await startTaskRun(task, 'manual', user.name);
+  if (!started) {
+    throw new Error('La acción de esta tarea ya se está ejecutando. Espere a que termine.');
+  }
+  return started.run;
+}
+
+/**
+ * Schedules the job of an enabled task, replacing the job it had.
+ * @returns False when the schedule or the action of the task is invalid.
+ */
+async function scheduleJob(task: ScheduledTask): Promise<boolean> {
+  scheduledJobs.get(task.id)?.stop();
+  scheduledJobs.delete(task.id);
+  if (!cron.validate(task.schedule) || !AVAILABLE_TASKS[task.taskId]) {
+    await logError(`Invalid task configuration skipped: ${task.name}`, { taskId: task.taskId, schedule: task.schedule });
+    console.error(`- ❌ Invalid cron schedule or unknown task ID for '${task.name}'. Skipping.`);
+    return false;
+  }
+  const job = cron.schedule(task.schedule, () => runOnSchedule(task), task.timezone ? { timezone: task.timezone } : {});
+  scheduledJobs.set(task.id, job);
+  console.log(`- ✅ Scheduled '${task.name}' with schedule '${task.schedule}'${task.timezone ? ` (${task.timezone})` : ''}`);
+  return true;
+}
+
+/**
+ * Applies the saved state of a task to the running jobs: reschedules it with its current
+ * schedule, or stops it when it was disabled or deleted. Called after every change to a task,
+ * so changes take effect without restarting the server.
+ */
+export async function refreshScheduledTask(scheduledTaskId: number): Promise<void> {
+  await authorizeAction('refreshScheduledTask', 'admin:notifications:write');
+  const task = await getScheduledTaskById(scheduledTaskId);
+  if (task?.enabled) {
+    await scheduleJob(task);
+    return;
+  }
+  scheduledJobs.get(scheduledTaskId)?.stop();
+  if (scheduledJobs.delete(scheduledTaskId)) {
+    console.log(`- ⏹️ Stopped scheduled task ${scheduledTaskId}`);
+  }
+}
+
 /**
  * Reads tasks from the DB, stops existing jobs, and schedules new ones.
  */
@@ -29,6 +190,14 @@ export async function runScheduledTasks() {
   }
 
   try {
+    if (!interruptedRunsClosed) {
+      interruptedRunsClosed = true;
+      const closedRuns = await closeInterruptedScheduledTaskRuns();
+      if (closedRuns > 0) {
+        await logWarn(`Closed ${closedRuns} scheduled task run(s) interrupted by a server restart.`);
+      }
+    }
+
     const tasks = await getAllScheduledTasks();
     const activeTasks = tasks.filter(task => task.enabled);
 
@@ -40,26 +209,9 @@ export async function runScheduledTasks() {
     console.log(`- Found ${activeTasks.length} active task(s) to schedule.`);
 
     for (const task of activeTasks) {
-      if (cron.validate(task.schedule) && AVAILABLE_TASKS[task.taskId]) {
-        const job = cron.schedule(task.schedule, async () => {
-          console.log(`🏃‍♂️ Running scheduled task: ${task.name}`);
-          await logInfo(`Scheduled task started: ${task.name}`, { taskId: task.taskId, schedule: task.schedule });
-          try {
-            const action = AVAILABLE_TASKS[task.taskId].action;
-            await action();
-            await logInfo(`Scheduled task finished successfully: ${task.name}`);
-          } catch (error: any) {
-            await logError(`Scheduled task failed: ${task.name}`, { taskId: task.taskId, error: error.message });
-          }
-        });
-        scheduledJobs.set(task.id, job);
-        console.log(`- ✅ Scheduled '${task.name}' with schedule '${task.schedule}'`);
-      } else {
-        await logError(`Invalid task configuration skipped: ${task.name}`, { taskId: task.taskId, schedule: task.schedule });
-        console.error(`- ❌ Invalid cron schedule or unknown task ID for '${task.name}'. Skipping.`);
-      }
+      await scheduleJob(task);
     }
-    
+
     console.log(`🚀 Cron runner initialization complete. ${scheduledJobs.size} jobs running.`);
 
   } catch (error: any) {
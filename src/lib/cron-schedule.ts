@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Cron schedules of the scheduled tasks: the time zones offered in the task
+ * editor and the preview of a schedule, that is its description in Spanish and its next runs.
+ * Pure module, safe to import from both server and client code.
+ */
+
+import cronParser from 'cron-parser';
+
+/** Time zone of the new tasks, so their schedule does not depend on the time zone of the server. */
+export const DEFAULT_TASK_TIMEZONE = 'America/Costa_Rica';
+
+export const TASK_TIMEZONES: { id: string; label: string }[] = [
+    { id: 'America/Costa_Rica', label: 'Costa Rica (UTC-6)' },
+    { id: 'America/Guatemala', label: 'Guatemala (UTC-6)' },
+    { id: 'America/Mexico_City', label: 'Ciudad de México (UTC-6)' },
+    { id: 'America/Panama', label: 'Panamá (UTC-5)' },
+    { id: 'America/Bogota', label: 'Bogotá (UTC-5)' },
+    { id: 'America/New_York', label: 'Nueva York' },
+    { id: 'UTC', label: 'UTC' },
+];
+
+const DAY_NAMES_PLURAL = ['domingos', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábados'];
+const MONTH_NAMES = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+/**
+ * Checks that a time zone is an IANA name known to the runtime (e.g. "America/Costa_Rica").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('es-CR', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function joinList(items: (string | number)[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} y ${items[items.length - 1]}`;
+}
+
+/** Returns the step of values evenly spaced from 0 across the whole range (e.g. 0,15,30,45), or null. */
+function stepOf(values: readonly number[], size: number): number | null {
+    if (values.length < 2 || values[0] !== 0) return null;
+    const step = values[1] - values[0];
+    return values.every((value, index) => value === index * step) && values[values.length - 1] + step >= size ? step : null;
+}
+
+function describeTime(minutes: readonly number[], hours: readonly number[]): string {
+    if (hours.length === 24) {
+        if (minutes.length === 60) return 'cada minuto';
+        const step = stepOf(minutes, 60);
+        if (step) return `cada ${step} minutos`;
+        return minutes.length === 1 ? `cada hora, en el minuto ${minutes[0]}` : `cada hora, en los minutos ${joinList([...minutes])}`;
+    }
+    const hourStep = stepOf(hours, 24);
+    if (hourStep && minutes.length === 1) return `cada ${hourStep} horas, en el minuto ${minutes[0]}`;
+    if (minutes.length * hours.length <= 8) {
+        return `a las ${joinList(hours.flatMap(hour => minutes.map(minute => `${pad(hour)}:${pad(minute)}`)))}`;
+    }
+    return `en los minutos ${joinList([...minutes])} de las horas ${joinList([...hours])}`;
+}
+
+function describeDays(daysOfMonth: readonly (number | 'L')[], daysOfWeek: readonly number[], months: readonly number[]): string {
+    const weekDays = Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b);
+    const parts: string[] = [];
+    if (daysOfMonth.length < 31) {
+        const days = daysOfMonth.map(day => day === 'L' ? 'último' : day);
+        if (days.length === 1) parts.push(days[0] === 'último' ? 'el último día de cada mes' : `el día ${days[0]} de cada mes`);
+        else parts.push(`los días ${joinList(days)} de cada mes`);
+    }
+    if (weekDays.length < 7) {
+        if (weekDays.join() === '1,2,3,4,5') parts.push('de lunes a viernes');
+        else if (weekDays.join() === '0,6') parts.push('los fines de semana');
+        else parts.push(`los ${joinList(weekDays.map(day => DAY_NAMES_PLURAL[day]))}`);
+    }
+    const days = parts.length > 0 ? parts.join(' o ') : 'todos los días';
+    return months.length < 12 ? `${days}, solo en ${joinList(months.map(month => MONTH_NAMES[month - 1]))}` : days;
+}
+
+export type CronPreview = {
+    /** The schedule in Spanish, e.g. "A las 02:00, de lunes a viernes". */
+    description: string;
+    nextRuns: Date[];
+};
+
+/**
+ * Describes a cron schedule and computes its next runs.
+ * @param schedule - The cron expression.
+ * @param timeZone - The time zone the schedule is read in; the one of the runtime when empty.
+ * @param count - How many next runs to compute.
+ * @returns null when the expression is invalid.
+ */
+export function getCronPreview(schedule: string, timeZone?: string | null, count = 5): CronPreview | null {
+    try {
+        const interval = cronParser.parseExpression(schedule, timeZone ? { tz: timeZone } : {});
+        const { minute, hour, dayOfMonth, dayOfWeek, month } = interval.fields;
+        const description = `${describeTime(minute, hour)}, ${describeDays(dayOfMonth, dayOfWeek, month)}`;
+        const nextRuns = Array.from({ length: count }, () => interval.next().toDate());
+        return { description: description.charAt(0).toUpperCase() + description.slice(1), nextRuns };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Parameters of scheduled tasks. Each task of the registry may declare a Zod
+ * object schema; the admin page renders it as a form and the runner validates the stored
+ * values against it before every run. Only the Zod constructs listed in `TaskParamField`
+ * are translated into form fields.
+ * Pure module, safe to import from both server and client code.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+
+/** Parameters whose values are Telegram destination ids are rendered as the list of destinations. */
+export const TELEGRAM_DESTINATIONS_PARAM = 'telegramDestinationIds';
+
+export type TaskParamField = {
+    key: string;
+    /** Taken from the description of the Zod schema of the field. */
+    label: string;
+    kind: 'text' | 'number' | 'boolean' | 'select' | 'multiselect' | 'list' | 'telegramDestinations';
+    options?: { value: string; label: string }[];
+    min?: number;
+    max?: number;
+};
+
+/**
+ * A list of values typed one per line in the form. Blank lines are dropped before validating.
+ * @param item - The schema of each value.
+ */
+export function listParam<T extends ZodTypeAny>(item: T) {
+    const clean = (value: unknown) => Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : value;
+    return z.preprocess(clean, z.array(item));
+}
+
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+    if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+    if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+    return schema;
+}
+
+/**
+ * Lists the form fields of a parameter schema.
+ * @param schema - The parameter schema of a task.
+ * @param optionLabels - Labels of the enum values, by value.
+ */
+export function describeTaskParams(schema: z.AnyZodObject | undefined, optionLabels: Record<string, string> = {}): TaskParamField[] {
+    if (!schema) return [];
+    const toOptions = (values: string[]) => values.map(value => ({ value, label: optionLabels[value] || value }));
+
+    return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([key, field]) => {
+        const label = field.description || key;
+        const inner = unwrap(field);
+        if (key === TELEGRAM_DESTINATIONS_PARAM) return { key, label, kind: 'telegramDestinations' };
+        if (inner instanceof z.ZodBoolean) return { key, label, kind: 'boolean' };
+        if (inner instanceof z.ZodNumber) {
+            return { key, label, kind: 'number', min: inner.minValue ?? undefined, max: inner.maxValue ?? undefined };
+        }
+        if (inner instanceof z.ZodEnum) return { key, label, kind: 'select', options: toOptions(inner.options) };
+        if (inner instanceof z.ZodArray) {
+            const element = unwrap(inner.element);
+            return element instanceof z.ZodEnum
+                ? { key, label, kind: 'multiselect', options: toOptions(element.options) }
+                : { key, label, kind: 'list' };
+        }
+        return { key, label, kind: 'text' };
+    });
+}
+
+/**
+ * Gets the values a task starts with when it is scheduled: the defaults of its schema.
+ */
+export function getDefaultTaskParams(schema: z.AnyZodObject | undefined): Record<string, unknown> {
+    if (!schema) return {};
+    const result = schema.safeParse({});
+    return result.success ? result.data : {};
+}
+
+/**
+ * Validates stored parameter values against the schema of a task, filling in the defaults.
+ * @throws {Error} With a Spanish message naming the invalid fields.
+ */
+export function parseTaskParams(schema: z.AnyZodObject | undefined, params: Record<string, unknown> | null | undefined): Record<string, unknown> {
+    if (!schema) return {};
+    const result = schema.safeParse(params ?? {});
+    if (!result.success) {
+        const fields = result.error.issues.map(issue => {
+            const key = String(issue.path[0] ?? '');
+            const label = (schema.shape as Record<string, ZodTypeAny>)[key]?.description || key;
+            return `${label}: ${issue.message}`;
+        });
+        throw new Error(`Parámetros inválidos. ${fields.join('; ')}`);
+    }
+    return result.data;
+}
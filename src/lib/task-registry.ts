@@ -2,32 +2,150 @@
  * @fileoverview This file acts as a central registry for all available "actions"
  * that can be triggered by the scheduled task system (cron jobs).
  * To add a new automated task, you must define the function that performs the action
- * and then register it here.
+ * and then register it here. Tasks that need parameters declare them as a Zod object
+ * schema (see `task-params.ts`); the action receives the validated values.
  */
 
-import { syncAllData } from '@/modules/core/lib/actions';
-// Example for future: import { sendDailyProductionSummaryToTelegram } from '@/modules/analytics/lib/actions';
+import { z } from 'zod';
+import { syncAllData, cleanupAllExportFiles } from '@/modules/core/lib/actions';
+import { clearLogs } from '@/modules/core/lib/logger';
+import { backupAllForUpdate, deleteOldUpdateBackups } from '@/modules/core/lib/db';
+import { IMPORT_TYPES, IMPORT_TYPE_LABELS } from '@/modules/core/lib/import-types';
+import { notifyOverdueOrders, escalateOverdueOrders } from '@/modules/planner/lib/db';
+import { escalateOverdueRequests } from '@/modules/requests/lib/db';
+import { sendNotificationDigests } from '@/modules/notifications/lib/user-notification-service';
+import { sendDailyProductionSummary, sendPurchaseSuggestionDigest, sendDispatchDaySummary, checkExemptionExpiry } from '@/modules/notifications/lib/scheduled-reports';
+import { TELEGRAM_DESTINATIONS_PARAM, listParam } from './task-params';
 
-interface TaskDefinition {
+export interface TaskDefinition<P extends z.AnyZodObject = z.AnyZodObject> {
     name: string;
     description: string;
-    action: () => Promise<any>;
+    /**
+     * Permission needed to schedule or run the task, besides `admin:notifications:write`; holding any
+     * one of them is enough. Tasks run as the system, so this is what keeps them within the rights of
+     * whoever sets them up (e.g. only users who can clear logs can schedule their cleanup).
+     */
+    permission: string | string[];
+    params?: P;
+    /** Labels of the enum values of the parameters, by value. */
+    optionLabels?: Record<string, string>;
+    action: (params: z.infer<P>) => Promise<any>;
 }
 
+/** Keeps the parameters of the action typed by the schema of the task. */
+function defineTask<P extends z.AnyZodObject>(definition: TaskDefinition<P>): TaskDefinition {
+    return definition as unknown as TaskDefinition;
+}
+
+const reportRecipientParams = {
+    emails: listParam(z.string().email()).default([]).describe('Correos destinatarios'),
+    [TELEGRAM_DESTINATIONS_PARAM]: z.array(z.string()).default([]).describe('Destinos de Telegram'),
+    sendWhenEmpty: z.boolean().default(false).describe('Enviar aunque no haya nada que informar'),
+};
+
+const reportDayParam = z.enum(['today', 'yesterday']).default('yesterday').describe('Día del reporte');
+const reportDayLabels = { today: 'Hoy', yesterday: 'Ayer' };
+
 /**
  * A dictionary of all predefined tasks that can be scheduled.
  * The key is a unique identifier that will be stored in the database.
  */
 export const AVAILABLE_TASKS: Record<string, TaskDefinition> = {
-    'sync-erp': {
+    'sync-erp': defineTask({
         name: 'Sincronizar Datos Completos del ERP',
-        description: 'Ejecuta la importación de clientes, productos, existencias, etc., desde la fuente de datos configurada (archivos o SQL).',
-        action: syncAllData,
-    },
-    // Example of a future task:
-    // 'send-daily-report-telegram': {
-    //     name: 'Enviar Resumen de Producción a Telegram',
-    //     description: 'Compila un resumen de las órdenes completadas del día y lo envía al canal de Telegram configurado.',
-    //     action: async () => { /* logic to generate and send report */ },
-    // },
+        description: 'Ejecuta la importación de clientes, productos, existencias, etc., desde la fuente de datos configurada (archivos o SQL). Si no se marca ningún tipo, se importan todos.',
+        permission: 'admin:import:run',
+        params: z.object({
+            importTypes: z.array(z.enum(IMPORT_TYPES)).default([]).describe('Tipos de datos a importar'),
+        }),
+        optionLabels: IMPORT_TYPE_LABELS,
+        action: ({ importTypes }) => syncAllData(importTypes),
+    }),
+    'check-overdue-orders': defineTask({
+        name: 'Notificar Órdenes de Producción Atrasadas',
+        description: 'Busca las órdenes abiertas cuya fecha de entrega ya pasó y activa el evento de notificación "Orden de Producción atrasada" una vez por orden.',
+        permission: 'admin:notifications:write',
+        action: notifyOverdueOrders,
+    }),
+    'check-status-slas': defineTask({
+        name: 'Escalar Solicitudes y Órdenes Vencidas en su Estado',
+        description: 'Revisa las solicitudes de compra y órdenes de producción que superaron el SLA de su estado y avisa al siguiente nivel de la cadena de escalamiento: solicitante, responsables del estado y administradores. Se recomienda ejecutarla cada hora.',
+        permission: 'admin:notifications:write',
+        action: async () => ({
+            requests: await escalateOverdueRequests(),
+            orders: await escalateOverdueOrders(),
+        }),
+    }),
+    'send-notification-digests': defineTask({
+        name: 'Enviar Resúmenes de Notificaciones',
+        description: 'Envía por correo y Telegram los resúmenes horarios o diarios de los usuarios que los eligieron en su perfil, y las notificaciones retenidas durante sus horas de silencio. Debe programarse al menos cada hora (por ejemplo "0 * * * *").',
+        permission: 'admin:notifications:write',
+        action: sendNotificationDigests,
+    }),
+    'daily-production-summary': defineTask({
+        name: 'Enviar Resumen Diario de Producción',
+        description: 'Envía la lista de órdenes de producción completadas en el día, con las cantidades entregadas y defectuosas.',
+        permission: 'analytics:production-report:read',
+        params: z.object({ day: reportDayParam, ...reportRecipientParams }),
+        optionLabels: reportDayLabels,
+        action: sendDailyProductionSummary,
+    }),
+    'purchase-suggestion-digest': defineTask({
+        name: 'Enviar Resumen de Sugerencias de Compra',
+        description: 'Analiza los pedidos del ERP del período indicado y envía los artículos cuyo faltante no cubren las existencias ni las órdenes de compra en tránsito.',
+        permission: 'analytics:purchase-suggestions:read',
+        params: z.object({
+            daysBack: z.number().int().min(1).max(365).default(30).describe('Días de pedidos del ERP a analizar'),
+            onlyWithoutRequests: z.boolean().default(true).describe('Omitir artículos que ya tienen solicitudes de compra activas'),
+            ...reportRecipientParams,
+        }),
+        action: sendPurchaseSuggestionDigest,
+    }),
+    'dispatch-day-summary': defineTask({
+        name: 'Enviar Resumen de Despachos del Día',
+        description: 'Envía los documentos verificados en el chequeo de despacho del día, señalando los que tuvieron diferencias entre lo requerido y lo verificado.',
+        permission: 'analytics:dispatch-report:read',
+        params: z.object({ day: reportDayParam, ...reportRecipientParams }),
+        optionLabels: reportDayLabels,
+        action: sendDispatchDaySummary,
+    }),
+    'check-exemption-expiry': defineTask({
+        name: 'Avisar Exoneraciones por Vencer',
+        description: 'Envía la lista de exoneraciones de clientes que vencen en los próximos días para renovarlas a tiempo.',
+        permission: 'hacienda:query',
+        params: z.object({
+            daysAhead: z.number().int().min(1).max(365).default(30).describe('Días de anticipación'),
+            ...reportRecipientParams,
+        }),
+        action: checkExemptionExpiry,
+    }),
+    'cleanup-logs': defineTask({
+        name: 'Limpiar Registros del Sistema',
+        description: 'Elimina los registros (logs) del tipo indicado. Por defecto conserva los de los últimos 30 días.',
+        permission: 'admin:logs:clear',
+        params: z.object({
+            type: z.enum(['operational', 'system', 'all']).default('operational').describe('Registros a eliminar'),
+            deleteAllTime: z.boolean().default(false).describe('Eliminar también los de los últimos 30 días'),
+        }),
+        optionLabels: { operational: 'Operativos (INFO)', system: 'Sistema (WARN y ERROR)', all: 'Todos' },
+        action: ({ type, deleteAllTime }) => clearLogs('Tarea programada', type, deleteAllTime),
+    }),
+    'cleanup-exports': defineTask({
+        name: 'Limpiar Archivos de Exportación Temporales',
+        description: 'Elimina del servidor los archivos Excel generados por las exportaciones.',
+        permission: ['admin:maintenance:backup', 'admin:maintenance:reset'],
+        action: async () => ({ deletedFiles: await cleanupAllExportFiles() }),
+    }),
+    'backup-databases': defineTask({
+        name: 'Respaldar Bases de Datos',
+        description: 'Crea un respaldo de todas las bases de datos del sistema, el mismo que se usa antes de una actualización.',
+        permission: 'admin:maintenance:backup',
+        params: z.object({
+            keepOnlyLatest: z.boolean().default(true).describe('Eliminar los respaldos anteriores y conservar solo el nuevo'),
+        }),
+        action: async ({ keepOnlyLatest }) => {
+            await backupAllForUpdate();
+            return { deletedOldFiles: keepOnlyLatest ? await deleteOldUpdateBackups() : 0 };
+        },
+    }),
 };
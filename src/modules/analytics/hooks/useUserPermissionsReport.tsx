@@ -16,7 +16,7 @@ import { exportToExcel } from '@/modules/core/lib/excel-export';
 import { generateDocument } from '@/modules/core/lib/pdf-generator';
 import { useAuth } from '@/modules/core/hooks/useAuth';
 import { format } from 'date-fns';
-import { permissionTranslations } from '@/modules/core/lib/permissions';
+import { permissionTranslations, resolveEffectivePermissions } from '@/modules/core/lib/permissions';
 
 export interface UserPermissionRow {
     userId: number;
@@ -24,7 +24,8 @@ export interface UserPermissionRow {
     userEmail: string;
     roleId: string;
     roleName: string;
-    permissions: string[];
+    permissions: string[]; // Effective permissions, including those inherited from parent roles.
+    permissionSources: Record<string, string>; // The name of the role that grants each permission.
 }
 
 export type SortKey = 'userName' | 'roleName';
@@ -67,15 +68,18 @@ export function useUserPermissionsReport() {
         updateState({ isLoading: true });
         try {
             const { users, roles } = await getUserPermissionsReportData();
+            const roleNames = new Map(roles.map(r => [r.id, r.name]));
             const reportData = users.map(user => {
                 const role = roles.find(r => r.id === user.role);
+                const effectivePermissions = role ? resolveEffectivePermissions(role.id, roles) : [];
                 return {
                     userId: user.id,
                     userName: user.name,
                     userEmail: user.email,
                     roleId: user.role,
                     roleName: role ? role.name : 'Rol Inválido',
-                    permissions: role ? role.permissions : [],
+                    permissions: effectivePermissions.map(p => p.permission),
+                    permissionSources: Object.fromEntries(effectivePermissions.map(p => [p.permission, roleNames.get(p.sourceRoleId) || p.sourceRoleId])),
                 };
             });
             updateState({ data: reportData });
@@ -127,13 +131,15 @@ export function useUserPermissionsReport() {
     
     const translatePermission = (perm: string) => (permissionTranslations as Record<string, string>)[perm] || perm;
 
+    const describeGrant = (item: UserPermissionRow, perm: string) => `${translatePermission(perm)} (${item.permissionSources[perm]})`;
+
     const handleExportExcel = () => {
         const headers = ["Usuario", "Correo", "Rol", "Permisos"];
         const dataToExport = filteredData.map(item => [
             item.userName,
             item.userEmail,
             item.roleName,
-            item.permissions.map(translatePermission).join(', ')
+            item.permissions.map(perm => describeGrant(item, perm)).join(', ')
         ]);
         exportToExcel({
             fileName: 'reporte_permisos_usuario',
@@ -164,7 +170,7 @@ export function useUserPermissionsReport() {
         const tableRows = filteredData.map(item => [
             `${item.userName}\n${item.userEmail}`,
             item.roleName,
-            item.permissions.map(translatePermission).join(', ')
+            item.permissions.map(perm => describeGrant(item, perm)).join(', ')
         ]);
 
         const doc = generateDocument({
@@ -14,6 +14,7 @@ import { getPlannerSettings, getCompletedOrdersByDateRange } from '@/modules/pla
 import { reformatEmployeeName } from '@/lib/utils';
 import { renderLocationPathAsString } from '@/modules/warehouse/lib/utils';
 import { getAllUsersForReport } from '@/modules/core/lib/auth';
+import { authorizeAction } from '@/modules/core/lib/authorization';
 
 interface ReportFilters {
     productId?: string | null;
@@ -33,6 +34,7 @@ interface FullProductionReportData {
  * @returns A promise that resolves to the structured production report data, including planner settings.
  */
 export async function getProductionReportData(options: { dateRange: DateRange, filters?: ReportFilters }): Promise<FullProductionReportData> {
+    await authorizeAction('getProductionReportData', 'analytics:production-report:read');
     const { dateRange, filters } = options;
     
     let allOrders = await getCompletedOrdersByDateRange(dateRange, filters);
@@ -75,6 +77,7 @@ export async function getProductionReportData(options: { dateRange: DateRange, f
 
 
 export async function getUserPermissionsReportData(): Promise<{ users: User[], roles: Role[] }> {
+    await authorizeAction('getUserPermissionsReportData', 'analytics:user-permissions:read');
     try {
         const [users, roles] = await Promise.all([
             getAllUsersForReport(),
@@ -89,6 +92,7 @@ export async function getUserPermissionsReportData(): Promise<{ users: User[], r
 
 
 export async function getActiveTransitsReportData(dateRange: DateRange): Promise<TransitReportItem[]> {
+    await authorizeAction('getActiveTransitsReportData', 'analytics:transits-report:read');
     if (!dateRange.from) {
         throw new Error("Date 'from' is required for the transits report.");
     }
@@ -138,6 +142,7 @@ export async function getActiveTransitsReportData(dateRange: DateRange): Promise
 
 
 export async function getReceivingReportData({ dateRange }: { dateRange?: DateRange }): Promise<{ units: InventoryUnit[], locations: WarehouseLocation[] }> {
+    await authorizeAction('getReceivingReportData', 'analytics:receiving-report:read');
     try {
         const [units, locations] = await Promise.all([
             getPhysicalInventory(dateRange),
@@ -152,6 +157,7 @@ export async function getReceivingReportData({ dateRange }: { dateRange?: DateRa
 
 
 export async function getPhysicalInventoryReportData({ dateRange }: { dateRange?: DateRange }): Promise<{ comparisonData: PhysicalInventoryComparisonItem[], allLocations: WarehouseLocation[] }> {
+    await authorizeAction('getPhysicalInventoryReportData', 'analytics:physical-inventory-report:read');
     try {
         const [physicalInventory, erpStock, allProducts, allLocations] = await Promise.all([
             getPhysicalInventory(dateRange),
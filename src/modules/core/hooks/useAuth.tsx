@@ -13,6 +13,7 @@ import { getCurrentUser as getCurrentUserClient, getInitialAuthData, logout as c
 import { getUnreadSuggestionsCount as getUnreadSuggestionsCountAction } from "@/modules/core/lib/suggestions-actions";
 import { getExchangeRate } from "../lib/api-actions";
 import { getNotificationsForUser } from "../lib/notifications-actions";
+import { resolveEffectivePermissions } from "../lib/permissions";
 
 export const REDIRECT_URL_KEY = 'redirectUrl';
 
@@ -146,7 +147,8 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
 
       if (currentUser && data.roles.length > 0) {
         const role = data.roles.find((r: Role) => r.id === currentUser.role);
-        setUserRole(role || null);
+        // Inherited permissions are folded in, so every permission check sees the role's effective set.
+        setUserRole(role ? { ...role, permissions: resolveEffectivePermissions(role.id, data.roles).map(p => p.permission) } : null);
       } else {
         setUserRole(null);
       }
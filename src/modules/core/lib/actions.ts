@@ -7,14 +7,19 @@ import fs from 'fs';
 import path from 'path';
 import { importAllDataFromFiles as importAllData } from './db';
 import { logWarn } from './logger';
+import { authorizeAction, runAsSystem } from './authorization';
+import type { ImportType } from './import-types';
 
 /**
  * A server action that triggers a full data synchronization from the configured source (file or SQL).
- * This function is safe to call from client components.
+ * This function is safe to call from client components. Warehouse users may also refresh the data,
+ * so once the caller is authorized the import itself runs with system privileges.
+ * @param {ImportType[]} [types] - Limits the synchronization to these data types; all of them when empty.
  * @returns {Promise<{ type: string; count: number; }[]>} A promise that resolves to an array of import results.
  */
-export async function syncAllData(): Promise<{ type: string; count: number; }[]> {
-    return await importAllData();
+export async function syncAllData(types: ImportType[] = []): Promise<{ type: string; count: number; }[]> {
+    await authorizeAction('syncAllData', ['admin:import:run', 'warehouse:access']);
+    return await runAsSystem(() => importAllData(types));
 }
 
 /**
@@ -23,6 +28,7 @@ export async function syncAllData(): Promise<{ type: string; count: number; }[]>
  * It relies on a process manager (like PM2 or IIS) to automatically restart the application.
  */
 export async function shutdownServer(): Promise<void> {
+    await authorizeAction('shutdownServer', 'admin:maintenance:restore');
     await logWarn("SERVER SHUTDOWN INITIATED VIA ACTION. This will terminate the process.");
     // A small delay to ensure any final logs can be written
     setTimeout(() => {
@@ -35,6 +41,7 @@ export async function shutdownServer(): Promise<void> {
  * @returns {Promise<number>} The number of files deleted.
  */
 export async function cleanupAllExportFiles(): Promise<number> {
+    await authorizeAction('cleanupAllExportFiles', ['admin:maintenance:backup', 'admin:maintenance:reset']);
     const exportDir = path.join(process.cwd(), 'temp_files', 'exports');
     if (!fs.existsSync(exportDir)) {
         return 0;
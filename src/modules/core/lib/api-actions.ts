@@ -8,6 +8,7 @@
 import { getApiSettings as getApiSettingsDb } from './db';
 import { getEmailSettings as getEmailSettingsDb } from './email-service';
 import { logError, logWarn } from './logger';
+import { authorizeAction } from './authorization';
 import type { ApiSettings, EmailSettings } from '../types';
 
 /**
@@ -15,6 +16,7 @@ import type { ApiSettings, EmailSettings } from '../types';
  * @returns {Promise<any>} The JSON response from the external API or an error object.
  */
 export async function getExchangeRate(): Promise<any> {
+    await authorizeAction('getExchangeRate');
     try {
         const apiSettings = await getApiSettingsDb();
         if (!apiSettings?.exchangeRateApi) {
@@ -47,6 +49,7 @@ export async function getExchangeRate(): Promise<any> {
  * @returns {Promise<any>} The JSON response from the external API or an error object.
  */
 export async function getExemptionStatus(authNumber: string): Promise<any> {
+    await authorizeAction('getExemptionStatus');
     if (!authNumber) {
         return { error: true, message: "Authorization number is required", status: 400 };
     }
@@ -94,6 +97,7 @@ export async function getExemptionStatus(authNumber: string): Promise<any> {
  * @returns {Promise<ApiSettings | null>} The API settings.
  */
 export async function getApiSettings(): Promise<ApiSettings | null> {
+    await authorizeAction('getApiSettings');
     return getApiSettingsDb();
 }
 
@@ -103,5 +107,6 @@ export async function getApiSettings(): Promise<ApiSettings | null> {
  * @returns {Promise<Partial<EmailSettings>>} The email settings.
  */
 export async function getEmailSettings(): Promise<Partial<EmailSettings>> {
+    await authorizeAction('getEmailSettings');
     return getEmailSettingsDb();
 }
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Zod schemas and endpoint definitions of the `/api/v1` REST API.
+ * The same definitions validate incoming queries (see `api-v1.ts`) and generate the
+ * OpenAPI document (see `openapi.ts`), so the documentation cannot drift from the code.
+ * Response schemas describe the main fields; records may carry additional ones.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+
+/**
+ * An `/api/v1` endpoint. All endpoints are GET requests returning JSON.
+ */
+export type ApiEndpoint<Q extends ZodTypeAny = ZodTypeAny> = {
+    path: string;
+    tag: string;
+    summary: string;
+    /** Holding any one of these permissions (both the user and the token) grants access. */
+    permissions: string[];
+    query: Q;
+    response: ZodTypeAny;
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+const pageFields = {
+    page: z.coerce.number().int().min(0).default(0).describe('Página, empezando en 0.'),
+    pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE).describe(`Registros por página (máximo ${MAX_PAGE_SIZE}).`),
+};
+
+const dateRangeFields = {
+    from: z.string().date().optional().describe('Fecha inicial (YYYY-MM-DD).'),
+    to: z.string().date().optional().describe('Fecha final inclusiva (YYYY-MM-DD).'),
+};
+
+const searchField = z.string().trim().min(1).optional().describe('Texto a buscar.');
+
+const archivedField = z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+    .describe('Si es true, devuelve los registros archivados (finalizados o cancelados).');
+
+const statusListField = z.string().optional().transform(value => value ? value.split(',').map(s => s.trim()).filter(Boolean) : undefined)
+    .describe('Estados separados por coma.');
+
+const paginated = (item: ZodTypeAny) => z.object({
+    data: z.array(item),
+    total: z.number().int().describe('Total de registros que cumplen el filtro.'),
+    page: z.number().int(),
+    pageSize: z.number().int(),
+});
+
+export const ApiProductSchema = z.object({
+    id: z.string(),
+    description: z.string(),
+    classification: z.string(),
+    unit: z.string(),
+    active: z.enum(['S', 'N']),
+    isBasicGood: z.enum(['S', 'N']),
+    cabys: z.string(),
+    barcode: z.string().optional(),
+}).passthrough();
+
+export const ApiStockSchema = z.object({
+    itemId: z.string(),
+    stockByWarehouse: z.record(z.number()).describe('Existencias por bodega.'),
+    totalStock: z.number(),
+});
+
+export const ApiCustomerSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    taxId: z.string(),
+    salesperson: z.string(),
+    currency: z.string(),
+    creditLimit: z.number(),
+    active: z.enum(['S', 'N']),
+    email: z.string(),
+}).passthrough();
+
+export const ApiProductionOrderSchema = z.object({
+    id: z.number().int(),
+    consecutive: z.string(),
+    requestDate: z.string(),
+    deliveryDate: z.string(),
+    customerId: z.string(),
+    customerName: z.string(),
+    productId: z.string(),
+    productDescription: z.string(),
+    quantity: z.number(),
+    priority: z.string(),
+    status: z.string(),
+    requestedBy: z.string(),
+    erpOrderNumber: z.string().nullable().optional(),
+}).passthrough();
+
+export const ApiPurchaseRequestSchema = z.object({
+    id: z.number().int(),
+    consecutive: z.string(),
+    requestDate: z.string(),
+    requiredDate: z.string(),
+    clientId: z.string(),
+    clientName: z.string(),
+    itemId: z.string(),
+    itemDescription: z.string(),
+    quantity: z.number(),
+    priority: z.string(),
+    status: z.string(),
+    requestedBy: z.string(),
+    erpOrderNumber: z.string().nullable().optional(),
+}).passthrough();
+
+export const ApiInventoryUnitSchema = z.object({
+    id: z.number().int(),
+    unitCode: z.string().nullable().optional(),
+    productId: z.string(),
+    humanReadableId: z.string().nullable().optional(),
+    documentId: z.string().nullable().optional(),
+    locationId: z.number().int().nullable(),
+    quantity: z.number(),
+    createdAt: z.string(),
+    createdBy: z.string(),
+}).passthrough();
+
+export const ApiDispatchLogSchema = z.object({
+    id: z.number().int(),
+    documentId: z.string(),
+    documentType: z.string(),
+    verifiedAt: z.string(),
+    verifiedByUserName: z.string(),
+    items: z.array(z.object({
+        itemCode: z.string(),
+        description: z.string(),
+        requiredQuantity: z.number(),
+        verifiedQuantity: z.number(),
+    }).passthrough()),
+    clientId: z.string().nullable().optional(),
+    clientName: z.string().nullable().optional(),
+}).passthrough();
+
+/**
+ * Every endpoint of the API, keyed by resource. Route handlers import their own entry.
+ */
+export const apiEndpoints = {
+    products: {
+        path: '/api/v1/products',
+        tag: 'Catálogo',
+        summary: 'Lista los artículos.',
+        permissions: ['dashboard:access'],
+        query: z.object({ search: searchField, active: z.enum(['S', 'N']).optional(), ...pageFields }),
+        response: paginated(ApiProductSchema),
+    },
+    stock: {
+        path: '/api/v1/stock',
+        tag: 'Catálogo',
+        summary: 'Lista las existencias por artículo y bodega.',
+        permissions: ['dashboard:access'],
+        query: z.object({ itemId: z.string().optional().describe('Código de artículo exacto.'), ...pageFields }),
+        response: paginated(ApiStockSchema),
+    },
+    customers: {
+        path: '/api/v1/customers',
+        tag: 'Catálogo',
+        summary: 'Lista los clientes (respetando el alcance de datos del usuario).',
+        permissions: ['dashboard:access'],
+        query: z.object({ search: searchField, ...pageFields }),
+        response: paginated(ApiCustomerSchema),
+    },
+    productionOrders: {
+        path: '/api/v1/production-orders',
+        tag: 'Planificador',
+        summary: 'Lista las órdenes de producción.',
+        permissions: ['planner:read'],
+        query: z.object({ search: searchField, status: statusListField, archived: archivedField, ...pageFields }),
+        response: paginated(ApiProductionOrderSchema),
+    },
+    purchaseRequests: {
+        path: '/api/v1/purchase-requests',
+        tag: 'Compras',
+        summary: 'Lista las solicitudes de compra.',
+        permissions: ['requests:read'],
+        query: z.object({ search: searchField, status: statusListField, archived: archivedField, ...pageFields }),
+        response: paginated(ApiPurchaseRequestSchema),
+    },
+    inventoryUnits: {
+        path: '/api/v1/inventory-units',
+        tag: 'Almacén',
+        summary: 'Lista las unidades de inventario creadas en el rango de fechas (sin rango, las 200 más recientes).',
+        permissions: ['warehouse:access'],
+        query: z.object({ ...dateRangeFields, ...pageFields }),
+        response: paginated(ApiInventoryUnitSchema),
+    },
+    dispatchLogs: {
+        path: '/api/v1/dispatch-logs',
+        tag: 'Almacén',
+        summary: 'Lista los despachos verificados en el rango de fechas.',
+        permissions: ['warehouse:dispatch-check:use', 'analytics:dispatch-report:read'],
+        query: z.object({ ...dateRangeFields, ...pageFields }),
+        response: paginated(ApiDispatchLogSchema),
+    },
+} satisfies Record<string, ApiEndpoint>;
+
+/**
+ * Returns one page of an in-memory list, in the response shape shared by all list endpoints.
+ * @param items - The full, already filtered list.
+ * @param query - The requested page and page size.
+ * @returns The page and the total count.
+ */
+export function paginate<T>(items: T[], query: { page: number; pageSize: number }) {
+    const start = query.page * query.pageSize;
+    return { data: items.slice(start, start + query.pageSize), total: items.length, page: query.page, pageSize: query.pageSize };
+}
+
+/**
+ * Converts optional YYYY-MM-DD query dates into the date range used by the data functions.
+ * @param query - The parsed query.
+ * @returns The range, or undefined when no start date was given.
+ */
+export function toDateRange(query: { from?: string; to?: string }): { from: Date; to?: Date } | undefined {
+    if (!query.from) return undefined;
+    return { from: new Date(`${query.from}T00:00:00`), to: query.to ? new Date(`${query.to}T00:00:00`) : undefined };
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Server actions to manage the personal API tokens of the current user.
+ * Tokens authenticate scripts and external systems against the `/api/v1` endpoints
+ * (see `api-v1.ts`). Only a SHA-256 hash of each secret is stored, like session tokens.
+ */
+"use server";
+
+import crypto from 'crypto';
+import { connectDb } from './db';
+import type { ApiToken } from '../types';
+import { authorizeAction, assertNotImpersonating } from './authorization';
+import { hasPermission } from './auth';
+import { logInfo } from './logger';
+import { recordAuditEvent } from './audit';
+import { hashApiToken } from './api-v1';
+
+const TOKEN_PREFIX = 'ct_';
+const MAX_TOKEN_NAME_LENGTH = 80;
+
+type ApiTokenRow = Omit<ApiToken, 'permissions'> & { permissions: string };
+
+const toApiToken = (row: ApiTokenRow): ApiToken => ({ ...row, permissions: JSON.parse(row.permissions || '[]') });
+
+/**
+ * Lists the API tokens of the current user, without their secrets.
+ * @returns The tokens, the most recent first.
+ */
+export async function getMyApiTokens(): Promise<ApiToken[]> {
+    const user = await authorizeAction('getMyApiTokens');
+    const db = await connectDb();
+    const rows = db.prepare('SELECT id, userId, name, tokenPrefix, permissions, createdAt, expiresAt, lastUsedAt FROM api_tokens WHERE userId = ? ORDER BY createdAt DESC')
+        .all(user.id) as ApiTokenRow[];
+    return rows.map(toApiToken);
+}
+
+/**
+ * Creates a personal API token for the current user.
+ * A token can only be granted permissions its owner holds, and it never outlives them:
+ * every request is also checked against the owner's current permissions.
+ * @param data - The token name, the permissions it may use and an optional lifetime in days.
+ * @returns The token metadata and its secret, which is shown only this once.
+ */
+export async function createApiToken(data: { name: string; permissions: string[]; expiresInDays?: number | null }): Promise<{ token: ApiToken; secret: string }> {
+    const user = await authorizeAction('createApiToken');
+    await assertNotImpersonating(user, 'createApiToken');
+
+    const name = data.name.trim();
+    if (!name || name.length > MAX_TOKEN_NAME_LENGTH) {
+        throw new Error(`El nombre del token es obligatorio y debe tener como máximo ${MAX_TOKEN_NAME_LENGTH} caracteres.`);
+    }
+    const permissions = [...new Set(data.permissions)];
+    if (permissions.length === 0) {
+        throw new Error('Selecciona al menos un permiso para el token.');
+    }
+    for (const permission of permissions) {
+        if (!(await hasPermission(user.id, permission))) {
+            throw new Error(`No puedes otorgar al token el permiso '${permission}' porque no lo tienes.`);
+        }
+    }
+
+    const secret = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const createdAt = new Date();
+    const expiresAt = data.expiresInDays && data.expiresInDays > 0
+        ? new Date(createdAt.getTime() + data.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+    const db = await connectDb();
+    const info = db.prepare('INSERT INTO api_tokens (userId, name, tokenHash, tokenPrefix, permissions, createdAt, expiresAt) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(user.id, name, hashApiToken(secret), secret.slice(0, TOKEN_PREFIX.length + 6), JSON.stringify(permissions), createdAt.toISOString(), expiresAt);
+    const token = toApiToken(db.prepare('SELECT id, userId, name, tokenPrefix, permissions, createdAt, expiresAt, lastUsedAt FROM api_tokens WHERE id = ?').get(info.lastInsertRowid) as ApiTokenRow);
+
+    await logInfo(`User ${user.name} created API token '${name}'.`, { tokenId: token.id, permissions });
+    await recordAuditEvent(user, { entityType: 'api_token', entityId: token.id, before: null, after: { userId: user.id, name, permissions, expiresAt } });
+    return { token, secret };
+}
+
+/**
+ * Revokes one of the current user's API tokens; requests using it are rejected from then on.
+ * @param tokenId - The ID of the token to revoke.
+ */
+export async function revokeApiToken(tokenId: number): Promise<void> {
+    const user = await authorizeAction('revokeApiToken');
+    const db = await connectDb();
+    const row = db.prepare('SELECT id, userId, name, tokenPrefix, permissions, createdAt, expiresAt, lastUsedAt FROM api_tokens WHERE id = ? AND userId = ?').get(tokenId, user.id) as ApiTokenRow | undefined;
+    if (!row) {
+        throw new Error('El token no existe o no te pertenece.');
+    }
+    db.prepare('DELETE FROM api_tokens WHERE id = ?').run(tokenId);
+    await logInfo(`User ${user.name} revoked API token '${row.name}'.`, { tokenId });
+    await recordAuditEvent(user, { entityType: 'api_token', entityId: tokenId, action: 'revoke', before: { name: row.name, permissions: JSON.parse(row.permissions) }, after: null });
+}
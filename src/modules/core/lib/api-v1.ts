@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Request handling shared by the `/api/v1` REST endpoints.
+ * Each route handler calls `handleApiRequest`, which authenticates the personal API token sent as
+ * `Authorization: Bearer <token>`, validates the query string with the endpoint's Zod schema and
+ * runs the handler on behalf of the token owner (see `runWithApiToken`). The handler then calls the
+ * same guarded functions as the screens, so permissions and data scopes apply unchanged.
+ * This module has no "use server" directive; it is only imported by route handlers and server code.
+ */
+
+import crypto from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { ZodError, type ZodTypeAny, type z } from 'zod';
+import type { User } from '@/modules/core/types';
+import { connectDb } from './db';
+import { AuthorizationError, authorizeAction, runWithApiToken, type ApiTokenCaller } from './authorization';
+import { parseDataScopes } from './data-scopes';
+import { logError, logWarn } from './logger';
+import type { ApiEndpoint } from './api-schemas';
+
+/**
+ * Hashes an API token secret for storage and lookup.
+ * @param secret - The token secret.
+ * @returns The hex-encoded SHA-256 hash.
+ */
+export function hashApiToken(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Resolves the bearer token of a request to its owner.
+ * Expired tokens, and tokens whose owner no longer exists, are rejected.
+ * @param request - The incoming request.
+ * @returns The authenticated caller, or null when the token is missing or invalid.
+ */
+async function authenticateApiToken(request: NextRequest): Promise<ApiTokenCaller | null> {
+    const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') || '');
+    if (!match) {
+        return null;
+    }
+    const db = await connectDb();
+    const token = db.prepare('SELECT id, userId, permissions, expiresAt FROM api_tokens WHERE tokenHash = ?').get(hashApiToken(match[1])) as
+        { id: number; userId: number; permissions: string; expiresAt: string | null } | undefined;
+    if (!token || (token.expiresAt && token.expiresAt <= new Date().toISOString())) {
+        return null;
+    }
+    const row = db.prepare('SELECT * FROM users WHERE id = ?').get(token.userId) as (Omit<User, 'dataScopes'> & { dataScopes: string | null }) | undefined;
+    if (!row) {
+        return null;
+    }
+    db.prepare('UPDATE api_tokens SET lastUsedAt = ? WHERE id = ?').run(new Date().toISOString(), token.id);
+
+    const { password: _password, totpSecret: _totpSecret, totpRecoveryCodes: _totpRecoveryCodes, ...user } = row;
+    return {
+        user: { ...user, dataScopes: parseDataScopes(row.dataScopes) },
+        tokenId: token.id,
+        permissions: JSON.parse(token.permissions || '[]'),
+    };
+}
+
+const errorResponse = (status: number, message: string, details?: unknown) =>
+    NextResponse.json({ error: message, ...(details ? { details } : {}) }, { status });
+
+/**
+ * Runs an `/api/v1` endpoint: authenticates the token, checks the endpoint permissions, parses the
+ * query and maps errors to JSON responses (400 invalid query, 401 bad token, 403 missing permission,
+ * 500 otherwise).
+ * @param request - The incoming request.
+ * @param endpoint - The endpoint definition, whose query schema validates the query string.
+ * @param handler - Produces the response body from the parsed query, on behalf of the token owner.
+ * @returns The JSON response.
+ */
+export async function handleApiRequest<Q extends ZodTypeAny>(
+    request: NextRequest,
+    endpoint: ApiEndpoint<Q>,
+    handler: (query: z.infer<Q>) => Promise<unknown>
+): Promise<NextResponse> {
+    const caller = await authenticateApiToken(request);
+    if (!caller) {
+        await logWarn(`API request to ${endpoint.path} rejected: missing, invalid or expired token.`);
+        return errorResponse(401, 'Token de API inválido, vencido o ausente.');
+    }
+
+    try {
+        const query = endpoint.query.parse(Object.fromEntries(request.nextUrl.searchParams));
+        const body = await runWithApiToken(caller, async () => {
+            await authorizeAction(`GET ${endpoint.path}`, endpoint.permissions);
+            return handler(query);
+        });
+        return NextResponse.json(body);
+    } catch (error) {
+        if (error instanceof ZodError) {
+            return errorResponse(400, 'Parámetros de consulta inválidos.', error.flatten().fieldErrors);
+        }
+        if (error instanceof AuthorizationError) {
+            return errorResponse(403, error.message);
+        }
+        await logError(`API request to ${endpoint.path} failed`, { error: (error as Error).message, tokenId: caller.tokenId });
+        return errorResponse(500, 'Error interno del servidor.');
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Server actions for reading the audit trail of users, roles and settings changes.
+ * Events are written by `recordAuditEvent` (see `audit.ts`); this file only exposes queries.
+ */
+"use server";
+
+import { connectDb } from './db';
+import type { AuditEntityType, AuditEvent, DateRange } from '../types';
+import { authorizeAction } from './authorization';
+import { logError } from './logger';
+
+const MAX_AUDIT_EVENTS = 1000;
+
+/**
+ * Retrieves audit events matching the given filters, the most recent first.
+ * @param filters Optional actor, entity type, entity ID and date range filters.
+ * @returns Up to 1000 matching events.
+ */
+export async function getAuditEvents(filters: {
+    actorId?: number;
+    entityType?: AuditEntityType;
+    entityId?: string;
+    dateRange?: DateRange;
+} = {}): Promise<AuditEvent[]> {
+    await authorizeAction('getAuditEvents', 'admin:audit:read');
+    const db = await connectDb();
+    try {
+        const whereClauses: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (filters.actorId !== undefined) {
+            whereClauses.push('actorId = ?');
+            params.push(filters.actorId);
+        }
+        if (filters.entityType) {
+            whereClauses.push('entityType = ?');
+            params.push(filters.entityType);
+        }
+        if (filters.entityId) {
+            whereClauses.push('entityId LIKE ?');
+            params.push(`%${filters.entityId}%`);
+        }
+        if (filters.dateRange?.from) {
+            whereClauses.push('timestamp >= ?');
+            params.push(new Date(filters.dateRange.from).toISOString());
+        }
+        if (filters.dateRange?.to) {
+            const toDate = new Date(filters.dateRange.to);
+            toDate.setHours(23, 59, 59, 999);
+            whereClauses.push('timestamp <= ?');
+            params.push(toDate.toISOString());
+        }
+
+        const where = whereClauses.length > 0 ? ` WHERE ${whereClauses.join(' AND ')}` : '';
+        const rows = db.prepare(`SELECT * FROM audit_events${where} ORDER BY timestamp DESC, id DESC LIMIT ${MAX_AUDIT_EVENTS}`).all(...params) as (Omit<AuditEvent, 'changes'> & { changes: string })[];
+        return rows.map(row => ({ ...row, changes: JSON.parse(row.changes || '{}') }));
+    } catch (error) {
+        await logError('Failed to get audit events', { error: (error as Error).message });
+        return [];
+    }
+}
+
+/**
+ * Lists everyone who appears as the author of at least one audit event, for the actor filter.
+ * Uses the name stored with the events, so deleted users are still listed.
+ * @returns The distinct actors, sorted by name.
+ */
+export async function getAuditActors(): Promise<{ actorId: number | null; actorName: string }[]> {
+    await authorizeAction('getAuditActors', 'admin:audit:read');
+    const db = await connectDb();
+    return db.prepare('SELECT actorId, MAX(actorName) as actorName FROM audit_events GROUP BY actorId ORDER BY actorName').all() as { actorId: number | null; actorName: string }[];
+}
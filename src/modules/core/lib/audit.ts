@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Audit trail for changes to users, roles, settings and security state.
+ * Mutating server actions read the entity before and after writing it and call
+ * `recordAuditEvent`, which stores who made the change and a field-level before/after diff
+ * in the `audit_events` table of the main database. Secrets are never stored in clear.
+ * This module has no "use server" directive; it is only imported by server-side code.
+ */
+
+import type { AuditAction, AuditEntityType, AuditFieldChange, User } from '@/modules/core/types';
+import { connectDb } from './db';
+import { logError } from './logger';
+import { getActorName } from './authorization';
+
+const MASKED_VALUE = '••••••';
+const SECRET_KEYS = new Set([
+    'password', 'bindPassword', 'smtpPass', 'botToken', 'totpSecret', 'totpRecoveryCodes', 'securityAnswer', 'secret', 'headers',
+]);
+
+type AuditRecord = object | null | undefined;
+
+/**
+ * Masks the secret fields nested in a value, such as the secret of the webhook of a notification rule.
+ */
+function maskNestedSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(maskNestedSecrets);
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+        [key, SECRET_KEYS.has(key) ? (field == null ? field : MASKED_VALUE) : maskNestedSecrets(field)]
+    ));
+}
+
+/**
+ * Compares two versions of an entity field by field.
+ * Values are compared by their JSON form, so nested arrays and objects
+ * (e.g., role permissions) count as changed only when their content differs.
+ * @param before - The entity before the change, or null when it was created.
+ * @param after - The entity after the change, or null when it was deleted.
+ * @returns The changed fields; secret fields are masked, also inside nested objects.
+ */
+export function diffAuditRecords(before: AuditRecord, after: AuditRecord): Record<string, AuditFieldChange> {
+    const changes: Record<string, AuditFieldChange> = {};
+    const beforeFields = (before || {}) as Record<string, unknown>;
+    const afterFields = (after || {}) as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+        const beforeValue = beforeFields[key] ?? null;
+        const afterValue = afterFields[key] ?? null;
+        if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+            continue;
+        }
+        changes[key] = SECRET_KEYS.has(key)
+            ? { before: beforeValue === null ? null : MASKED_VALUE, after: afterValue === null ? null : MASKED_VALUE }
+            : { before: maskNestedSecrets(beforeValue), after: maskNestedSecrets(afterValue) };
+    }
+    return changes;
+}
+
+/**
+ * Stores an audit event. Updates with no effective change are skipped.
+ * Failures are logged but never thrown, so auditing cannot break the change itself.
+ * @param actor - The user who made the change (the system user for scheduled work). During an
+ *   impersonation session the impersonating admin is stored as the actor, credited as acting as the user.
+ * @param event - What changed.
+ * @param event.entityType - The kind of entity.
+ * @param event.entityId - The ID of the entity (for single-row settings, a fixed key such as the service name).
+ * @param event.action - The kind of change; defaults to create, update or delete depending on `before`/`after`.
+ * @param event.before - The entity before the change, or null when it was created.
+ * @param event.after - The entity after the change, or null when it was deleted.
+ */
+export async function recordAuditEvent(actor: User, event: {
+    entityType: AuditEntityType;
+    entityId: string | number;
+    action?: AuditAction;
+    before?: AuditRecord;
+    after?: AuditRecord;
+}): Promise<void> {
+    const changes = diffAuditRecords(event.before, event.after);
+    const action: AuditAction = event.action ?? (!event.before ? 'create' : !event.after ? 'delete' : 'update');
+    if (action === 'update' && Object.keys(changes).length === 0) {
+        return;
+    }
+    try {
+        const db = await connectDb();
+        db.prepare(
+            'INSERT INTO audit_events (timestamp, actorId, actorName, entityType, entityId, action, changes) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        ).run(new Date().toISOString(), actor.impersonatedBy?.id ?? actor.id, getActorName(actor), event.entityType, String(event.entityId), action, JSON.stringify(changes));
+    } catch (error) {
+        await logError('Failed to record audit event', { error: (error as Error).message, entityType: event.entityType, entityId: event.entityId });
+    }
+}
+
+/**
+ * Records one event per changed item of a collection saved as a whole (users, roles).
+ * Items are matched by ID: new IDs are creations, missing IDs are deletions.
+ * @param actor - The user who made the change.
+ * @param entityType - The kind of entity held by the collection.
+ * @param before - The items before saving.
+ * @param after - The items after saving.
+ */
+export async function recordAuditCollectionChanges<T extends { id: string | number }>(actor: User, entityType: AuditEntityType, before: T[], after: T[]): Promise<void> {
+    const beforeById = new Map(before.map(item => [String(item.id), item]));
+    const afterById = new Map(after.map(item => [String(item.id), item]));
+    for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+        await recordAuditEvent(actor, {
+            entityType,
+            entityId: id,
+            before: beforeById.get(id),
+            after: afterById.get(id),
+        });
+    }
+}
+
+/**
+ * Reads a key-value settings table (e.g., `email_settings`) as a plain object,
+ * to capture the before/after state of a settings save.
+ * @param db - The database holding the table (main or module database).
+ * @param table - The table name; must be a trusted constant.
+ * @returns The settings keyed by name, with their stored string values.
+ */
+export function readKeyValueSnapshot(db: import('better-sqlite3').Database, table: string): Record<string, string> {
+    const rows = db.prepare(`SELECT key, value FROM ${table}`).all() as { key: string; value: string }[];
+    return Object.fromEntries(rows.map(row => [row.key, row.value]));
+}
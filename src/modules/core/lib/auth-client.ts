@@ -5,7 +5,7 @@
  */
 'use client';
 
-import type { User } from '@/modules/core/types';
+import type { User, UserSession, LoginLockout, TwoFactorStatus, TwoFactorSetup, PasswordPolicy } from '@/modules/core/types';
 import { 
     getAllUsers as getAllUsersServer, 
     login as loginServer, 
@@ -16,18 +16,102 @@ import {
     getInitialAuthData as getInitialAuthDataServer,
     sendPasswordRecoveryEmail as sendRecoveryEmailServer,
     getCurrentUser as getCurrentUserServer,
+    getMySessions as getMySessionsServer,
+    closeAllMySessions as closeAllMySessionsServer,
+    forceLogoutUser as forceLogoutUserServer,
+    getLoginLockouts as getLoginLockoutsServer,
+    unlockLoginLockout as unlockLoginLockoutServer,
+    unlockUserAccount as unlockUserAccountServer,
+    verifyTwoFactorLogin as verifyTwoFactorLoginServer,
+    getTwoFactorStatus as getTwoFactorStatusServer,
+    startTwoFactorEnrollment as startTwoFactorEnrollmentServer,
+    confirmTwoFactorEnrollment as confirmTwoFactorEnrollmentServer,
+    regenerateRecoveryCodes as regenerateRecoveryCodesServer,
+    disableTwoFactor as disableTwoFactorServer,
+    resetUserTwoFactor as resetUserTwoFactorServer,
+    getPasswordPolicy as getPasswordPolicyServer,
+    startImpersonation as startImpersonationServer,
+    stopImpersonation as stopImpersonationServer,
 } from '@/modules/core/lib/auth';
 
 /**
  * Logs in a user by calling the server-side login function which sets a session cookie.
  * @param {string} email - The user's email.
  * @param {string} password - The password provided by the user.
- * @returns {Promise<{ user: User | null, forcePasswordChange: boolean }>} A promise that resolves to the login result.
+ * @returns A promise that resolves to the login result, including a pending two-factor challenge when required.
  */
-export async function login(email: string, password: string, clientInfo: { ip: string; host: string; }): Promise<{ user: User | null, forcePasswordChange: boolean }> {
+export async function login(email: string, password: string, clientInfo: { ip: string; host: string; }): Promise<{ user: User | null, forcePasswordChange: boolean, lockedUntil?: string, temporaryPasswordExpired?: boolean, twoFactor?: { challengeToken: string, setup?: TwoFactorSetup } }> {
     return await loginServer(email, password, clientInfo);
 }
 
+/**
+ * Completes a login that requires a second factor, using an authenticator or recovery code.
+ * @param {string} challengeToken - The token returned by `login`.
+ * @param {string} code - The TOTP or recovery code.
+ * @returns A promise that resolves to the login result.
+ */
+export async function verifyTwoFactorLogin(challengeToken: string, code: string, clientInfo: { ip: string; host: string; }): Promise<{ user: User | null, forcePasswordChange: boolean, lockedUntil?: string, recoveryCodes?: string[], challengeExpired?: boolean }> {
+    return await verifyTwoFactorLoginServer(challengeToken, code, clientInfo);
+}
+
+/**
+ * Retrieves the two-factor authentication state of the logged-in user.
+ * @returns {Promise<TwoFactorStatus>} The current status.
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return await getTwoFactorStatusServer();
+}
+
+/**
+ * Starts enrolling an authenticator app for the logged-in user.
+ * @returns {Promise<TwoFactorSetup>} The secret and QR code to scan.
+ */
+export async function startTwoFactorEnrollment(): Promise<TwoFactorSetup> {
+    return await startTwoFactorEnrollmentServer();
+}
+
+/**
+ * Confirms the enrollment with a code from the authenticator app.
+ * @param {string} code - The TOTP code.
+ * @returns {Promise<string[]>} The recovery codes to show once.
+ */
+export async function confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+    return await confirmTwoFactorEnrollmentServer(code);
+}
+
+/**
+ * Replaces the logged-in user's recovery codes.
+ * @param {string} code - A current TOTP code.
+ * @returns {Promise<string[]>} The new recovery codes.
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+    return await regenerateRecoveryCodesServer(code);
+}
+
+/**
+ * Turns off two-factor authentication for the logged-in user.
+ * @param {string} password - The user's current password.
+ */
+export async function disableTwoFactor(password: string): Promise<void> {
+    return await disableTwoFactorServer(password);
+}
+
+/**
+ * Resets another user's two-factor authentication. Requires 'users:update'.
+ * @param {number} userId - The ID of the target user.
+ */
+export async function resetUserTwoFactor(userId: number): Promise<void> {
+    return await resetUserTwoFactorServer(userId);
+}
+
+/**
+ * Retrieves the configured password policy, used to validate passwords in forms.
+ * @returns {Promise<PasswordPolicy>} The effective password policy.
+ */
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+    return await getPasswordPolicyServer();
+}
+
 /**
  * Logs out the current user by invalidating the session cookie on the server.
  */
@@ -45,6 +129,73 @@ export async function getCurrentUser(): Promise<User | null> {
     return await getCurrentUserServer();
 }
 
+/**
+ * Starts viewing the application as another user. Requires 'admin:impersonate'.
+ * @param {number} userId - The ID of the user to impersonate.
+ * @returns {Promise<User>} The impersonated user, marked with the impersonating admin.
+ */
+export async function startImpersonation(userId: number): Promise<User> {
+    return await startImpersonationServer(userId);
+}
+
+/**
+ * Ends the current impersonation and returns to the admin's own account.
+ * @returns {Promise<User | null>} The admin user, or null if the session expired.
+ */
+export async function stopImpersonation(): Promise<User | null> {
+    return await stopImpersonationServer();
+}
+
+/**
+ * Lists the active sessions of the logged-in user.
+ * @returns {Promise<UserSession[]>} The user's sessions, with the current one flagged.
+ */
+export async function getMySessions(): Promise<UserSession[]> {
+    return await getMySessionsServer();
+}
+
+/**
+ * Closes every session of the logged-in user, including the current one.
+ * @returns {Promise<number>} The number of sessions closed.
+ */
+export async function closeAllMySessions(): Promise<number> {
+    return await closeAllMySessionsServer();
+}
+
+/**
+ * Forces another user to log out of every device. Requires 'users:update'.
+ * @param {number} userId - The ID of the target user.
+ * @returns {Promise<number>} The number of sessions closed.
+ */
+export async function forceLogoutUser(userId: number): Promise<number> {
+    return await forceLogoutUserServer(userId);
+}
+
+/**
+ * Lists the accounts and IPs currently locked out by the brute-force protection. Requires 'users:read'.
+ * @returns {Promise<LoginLockout[]>} The active lockouts.
+ */
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+    return await getLoginLockoutsServer();
+}
+
+/**
+ * Lifts a specific login lockout. Requires 'users:update'.
+ * @param {number} lockoutId - The ID of the lockout record.
+ */
+export async function unlockLoginLockout(lockoutId: number): Promise<void> {
+    return await unlockLoginLockoutServer(lockoutId);
+}
+
+/**
+ * Unlocks a user's account after too many failed logins. Requires 'users:update'.
+ * @param {number} userId - The ID of the user to unlock.
+ * @returns {Promise<boolean>} True if the account had failed attempts recorded.
+ */
+export async function unlockUserAccount(userId: number): Promise<boolean> {
+    return await unlockUserAccountServer(userId);
+}
+
 /**
  * Retrieves all users from the server.
  * This is a client-side wrapper for the server-side function.
@@ -78,11 +229,10 @@ export async function saveAllUsers(users: User[]): Promise<void> {
  * This is a client-side wrapper for the server-side password comparison.
  * @param {number} userId - The ID of the user whose password hash should be retrieved.
  * @param {string} password - The plaintext password to check.
- * @param {object} [clientInfo] - Optional client IP and host for logging.
  * @returns {Promise<boolean>} True if the password matches the hash.
  */
-export async function comparePasswords(userId: number, password: string, clientInfo?: { ip: string, host: string }): Promise<boolean> {
-    return await comparePasswordsServer(userId, password, clientInfo);
+export async function comparePasswords(userId: number, password: string): Promise<boolean> {
+    return await comparePasswordsServer(userId, password);
 }
 
 /**
@@ -21,6 +21,12 @@ export const UserSchema = z.object({
   securityQuestion: z.string().optional().nullable(),
   securityAnswer: z.string().optional().nullable(),
   forcePasswordChange: z.union([z.boolean(), z.number()]).optional(),
+  authProvider: z.enum(['local', 'ldap']).optional(),
+  dataScopes: z.object({
+    dispatchContainerIds: z.array(z.number().int()).optional(),
+    ownCustomersOnly: z.boolean().optional(),
+    locationIds: z.array(z.number().int()).optional(),
+  }).optional().nullable(),
 });
 
 
@@ -29,7 +35,8 @@ export const UserSchema = z.object({
 export const NewUserSchema = z.object({
     name: z.string().min(2, { message: "El nombre es requerido." }),
     email: z.string().email({ message: "El formato del correo no es válido." }),
-    password: z.string().min(6, { message: "La contraseña debe tener al menos 6 caracteres." }),
+    // Length and complexity are enforced against the configurable password policy.
+    password: z.string().min(1, { message: "La contraseña es requerida." }),
     role: z.string(),
     phone: z.string().optional(),
     whatsapp: z.string().optional(),
@@ -10,22 +10,474 @@
 
 import { connectDb, getAllRoles, getCompanySettings, getAllCustomers, getAllProducts, getAllStock, getAllExemptions, getExemptionLaws, getUnreadSuggestions, getDbModules } from './db';
 import { sendEmail, getEmailSettings as getEmailSettingsFromDb } from './email-service';
-import type { User, ExchangeRateApiResponse, EmailSettings, Role } from '@/modules/core/types';
+import type { User, ExchangeRateApiResponse, EmailSettings, Role, UserSession, LoginLockout, Company, TwoFactorStatus, TwoFactorSetup, PasswordPolicy, AuthProvider } from '@/modules/core/types';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { logInfo, logWarn, logError } from './logger';
 import { headers, cookies } from 'next/headers';
 import { getExchangeRate, getEmailSettings } from './api-actions';
 import { NewUserSchema, UserSchema } from './auth-schemas';
 import { confirmModification as confirmPlannerModificationServer } from '../../planner/lib/db';
 import { revalidatePath } from 'next/cache';
+import { authorizeAction, authorizeOwner, runAsSystem, assertNotImpersonating } from './authorization';
+import { generateTotpSecret, buildOtpAuthUrl, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from './totp';
+import QRCode from 'qrcode';
+import { getPasswordPolicyFromSettings, validatePassword } from './password-policy';
+import { authenticateLdapUser, resolveLdapRole } from './ldap';
+import { getLdapSettings } from './ldap-service';
+import { recordAuditEvent, recordAuditCollectionChanges } from './audit';
+import { resolveEffectivePermissions } from './permissions';
+import { parseDataScopes, serializeDataScopes } from './data-scopes';
+import { triggerNotificationEvent } from '../../notifications/lib/notifications-engine';
 
 const DB_FILE = 'intratool.db';
 const SALT_ROUNDS = 10;
 const SESSION_COOKIE_NAME = 'clic-tools-session';
 const SESSION_DURATION = 8 * 60 * 60 * 1000; // 8 hours in milliseconds
+const SESSION_TOUCH_INTERVAL = 60 * 1000; // Only refresh lastSeenAt once per minute
+const MAX_LOGIN_DELAY = 30 * 1000; // Upper bound for the progressive delay after failed logins
+const TWO_FACTOR_CHALLENGE_DURATION = 5 * 60 * 1000; // Time allowed to enter the second factor after the password
+const MAX_TWO_FACTOR_ATTEMPTS = 5; // Wrong codes allowed per challenge before the password must be re-entered
+const INITIAL_ADMIN_ID = 1; // Created by the setup wizard; always authenticates locally so the system stays reachable if the directory is down
+
+type SessionRow = Omit<UserSession, 'isCurrent'> & { tokenHash: string };
+
+type LoginThrottleSettings = {
+    maxAttempts: number;
+    delayAfterAttempts: number;
+    lockoutMinutes: number;
+    ipMaxAttempts: number;
+};
+
+type TwoFactorChallengeRow = {
+    id: number;
+    tokenHash: string;
+    userId: number;
+    expiresAt: string;
+    attempts: number;
+};
+
+type LoginResult = {
+    user: User | null;
+    forcePasswordChange: boolean;
+    lockedUntil?: string;
+    temporaryPasswordExpired?: boolean;
+    twoFactor?: { challengeToken: string; setup?: TwoFactorSetup };
+};
+
+/**
+ * Hashes a session token so that only the digest is ever stored in the database.
+ * A leaked database therefore cannot be used to hijack active sessions.
+ * @param token - The opaque token stored in the client's cookie.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+function hashSessionToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Writes (or clears, when maxAge is 0) the session cookie.
+ * @param value - The cookie value.
+ * @param maxAge - Lifetime in seconds.
+ */
+function setSessionCookie(value: string, maxAge: number) {
+    // Use an environment variable to control the 'secure' flag. Default to false for LAN.
+    const useSecureCookie = process.env.CLIC_TOOLS_COOKIE_SECURE === 'true';
+    cookies().set(SESSION_COOKIE_NAME, value, {
+        httpOnly: true,
+        secure: useSecureCookie,
+        sameSite: 'lax',
+        maxAge,
+        path: '/',
+    });
+}
+
+/**
+ * Creates a new session row for a user and returns the opaque token for the cookie.
+ * Expired sessions are purged opportunistically on every new login.
+ * @param userId - The ID of the authenticated user.
+ * @param clientInfo - Client IP and host captured at login.
+ * @returns The random session token.
+ */
+async function createSession(userId: number, clientInfo: { ip: string; host: string; }): Promise<string> {
+    const db = await connectDb();
+    const token = crypto.randomBytes(32).toString('hex');
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const userAgent = headers().get('user-agent');
+
+    db.prepare('DELETE FROM sessions WHERE expiresAt <= ?').run(nowIso);
+    db.prepare(`
+        INSERT INTO sessions (tokenHash, userId, createdAt, expiresAt, lastSeenAt, ip, userAgent)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(hashSessionToken(token), userId, nowIso, new Date(now.getTime() + SESSION_DURATION).toISOString(), nowIso, clientInfo.ip || null, userAgent || null);
+
+    return token;
+}
+
+/**
+ * Resolves the session referenced by the request's cookie.
+ * Returns null for missing, unknown, revoked or expired sessions.
+ * @returns The session row, or null if the request is not authenticated.
+ */
+async function getSessionFromCookie(): Promise<SessionRow | null> {
+    const token = cookies().get(SESSION_COOKIE_NAME)?.value;
+    if (!token) {
+        return null;
+    }
+
+    const db = await connectDb();
+    const session = db.prepare('SELECT * FROM sessions WHERE tokenHash = ?').get(hashSessionToken(token)) as SessionRow | undefined;
+    if (!session) {
+        return null;
+    }
+
+    const now = Date.now();
+    if (new Date(session.expiresAt).getTime() <= now) {
+        db.prepare('DELETE FROM sessions WHERE id = ?').run(session.id);
+        return null;
+    }
+
+    if (now - new Date(session.lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL) {
+        session.lastSeenAt = new Date(now).toISOString();
+        db.prepare('UPDATE sessions SET lastSeenAt = ? WHERE id = ?').run(session.lastSeenAt, session.id);
+    }
+
+    return session;
+}
+
+/**
+ * Reads the brute-force protection settings configured in the general settings.
+ * A limit of 0 disables the corresponding lockout.
+ * @param db - The main database connection.
+ * @returns The login throttle settings, with defaults for missing values.
+ */
+function getLoginThrottleSettings(db: import('better-sqlite3').Database): LoginThrottleSettings {
+    const row = db.prepare('SELECT loginMaxAttempts, loginDelayAfterAttempts, loginLockoutMinutes, loginIpMaxAttempts FROM company_settings WHERE id = 1').get() as Partial<Company> | undefined;
+    return {
+        maxAttempts: row?.loginMaxAttempts ?? 5,
+        delayAfterAttempts: row?.loginDelayAfterAttempts ?? 3,
+        lockoutMinutes: row?.loginLockoutMinutes || 15,
+        ipMaxAttempts: row?.loginIpMaxAttempts ?? 20,
+    };
+}
+
+/**
+ * Returns the lockout for an account or IP if it is currently in effect.
+ * @param db - The main database connection.
+ * @param scope - Whether the identifier is an email or an IP address.
+ * @param identifier - The normalized email or the IP address.
+ * @returns The active lockout, or null if logins are allowed.
+ */
+function getActiveLockout(db: import('better-sqlite3').Database, scope: LoginLockout['scope'], identifier: string): LoginLockout | null {
+    if (!identifier) return null;
+    const row = db.prepare('SELECT * FROM login_attempts WHERE scope = ? AND identifier = ? AND lockedUntil > ?')
+        .get(scope, identifier, new Date().toISOString()) as LoginLockout | undefined;
+    return row || null;
+}
+
+/**
+ * Registers a failed login attempt and locks the source once the limit is reached.
+ * Failures older than the lockout window no longer count, so the counter restarts after it.
+ * @param db - The main database connection.
+ * @param scope - Whether the identifier is an email or an IP address.
+ * @param identifier - The normalized email or the IP address.
+ * @param maxAttempts - The number of failures that triggers a lockout (0 disables it).
+ * @param lockoutMinutes - How long the lockout lasts, also used as the counting window.
+ * @returns The updated failure counter and lockout expiry.
+ */
+function recordFailedLogin(db: import('better-sqlite3').Database, scope: LoginLockout['scope'], identifier: string, maxAttempts: number, lockoutMinutes: number): Pick<LoginLockout, 'failedCount' | 'lockedUntil'> {
+    const now = Date.now();
+    const windowMs = lockoutMinutes * 60 * 1000;
+    const existing = db.prepare('SELECT * FROM login_attempts WHERE scope = ? AND identifier = ?').get(scope, identifier) as LoginLockout | undefined;
+
+    const failedCount = existing && now - new Date(existing.lastFailedAt).getTime() < windowMs ? existing.failedCount + 1 : 1;
+    const lockedUntil = maxAttempts > 0 && failedCount >= maxAttempts ? new Date(now + windowMs).toISOString() : null;
+
+    db.prepare(`
+        INSERT INTO login_attempts (scope, identifier, failedCount, lastFailedAt, lockedUntil)
+        VALUES (@scope, @identifier, @failedCount, @lastFailedAt, @lockedUntil)
+        ON CONFLICT(scope, identifier) DO UPDATE SET
+            failedCount = excluded.failedCount,
+            lastFailedAt = excluded.lastFailedAt,
+            lockedUntil = excluded.lockedUntil
+    `).run({ scope, identifier, failedCount, lastFailedAt: new Date(now).toISOString(), lockedUntil });
+
+    return { failedCount, lockedUntil };
+}
+
+/**
+ * Raises the login lockout notification. There is no session at this point, so it runs as the system.
+ * @param email - The email used in the failed attempts.
+ * @param scope - Whether the account or the client IP was locked.
+ * @param attempt - The failure counter and lockout expiry returned by `recordFailedLogin`.
+ * @param clientInfo - The IP address and host of the client.
+ */
+function notifyLoginLockout(email: string, scope: LoginLockout['scope'], attempt: Pick<LoginLockout, 'failedCount' | 'lockedUntil'>, clientInfo: { ip: string; host: string; }): void {
+    runAsSystem(() => triggerNotificationEvent('onLoginLockout', {
+        email,
+        scope,
+        failedCount: attempt.failedCount,
+        lockedUntil: attempt.lockedUntil!,
+        ip: clientInfo.ip,
+        host: clientInfo.host,
+    })).catch(e => console.error("Failed to trigger login lockout notification:", e));
+}
+
+/**
+ * Counts a wrong password against the account and the client IP, the same way for the login
+ * and for the password checks made from an open session.
+ * Raises the lockout notification when this failure locks either of them, and otherwise
+ * applies the progressive delay before answering.
+ * @param db - The main database connection.
+ * @param email - The email of the account whose password was wrong.
+ * @param clientInfo - The IP address and host of the client.
+ * @param throttle - The brute-force protection settings.
+ * @returns The lockout expiry if this failure locked the account or the IP.
+ */
+async function registerFailedPassword(db: import('better-sqlite3').Database, email: string, clientInfo: { ip: string; host: string; }, throttle: LoginThrottleSettings): Promise<string | undefined> {
+    const accountAttempt = recordFailedLogin(db, 'account', email.trim().toLowerCase(), throttle.maxAttempts, throttle.lockoutMinutes);
+    const ipAttempt = clientInfo.ip ? recordFailedLogin(db, 'ip', clientInfo.ip, throttle.ipMaxAttempts, throttle.lockoutMinutes) : null;
+    const lockedUntil = accountAttempt.lockedUntil || ipAttempt?.lockedUntil || undefined;
+    if (lockedUntil) {
+        await logWarn(`Login locked for email: ${email} after too many failed attempts.`, { email, ...clientInfo, accountFailures: accountAttempt.failedCount, ipFailures: ipAttempt?.failedCount, lockedUntil });
+        if (accountAttempt.lockedUntil) {
+            notifyLoginLockout(email, 'account', accountAttempt, clientInfo);
+        } else if (ipAttempt?.lockedUntil) {
+            notifyLoginLockout(email, 'ip', ipAttempt, clientInfo);
+        }
+        return lockedUntil;
+    }
+
+    // Progressive delay: every failure beyond the threshold doubles the wait before answering.
+    const excessFailures = accountAttempt.failedCount - throttle.delayAfterAttempts;
+    if (excessFailures > 0) {
+        const delay = Math.min(1000 * 2 ** (excessFailures - 1), MAX_LOGIN_DELAY);
+        await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    return undefined;
+}
+
+/**
+ * Reads the client IP and host from the headers of the current request.
+ * Used where the client info must not be taken from the caller.
+ * @returns The IP address and host of the client.
+ */
+function getRequestClientInfo(): { ip: string; host: string; } {
+    const headerList = headers();
+    return {
+        ip: headerList.get('x-forwarded-for') || 'N/A',
+        host: headerList.get('host') || 'N/A',
+    };
+}
+
+/**
+ * Reads the password policy configured in the general settings.
+ * @param db - The main database connection.
+ * @returns The effective password policy.
+ */
+function readPasswordPolicy(db: import('better-sqlite3').Database): PasswordPolicy {
+    const row = db.prepare(`
+        SELECT passwordMinLength, passwordRequireUppercase, passwordRequireLowercase, passwordRequireNumber,
+               passwordRequireSymbol, passwordMaxAgeDays, passwordHistoryCount, tempPasswordExpiryMinutes
+        FROM company_settings WHERE id = 1
+    `).get() as Partial<Company> | undefined;
+    return getPasswordPolicyFromSettings(row);
+}
 
 /**
- * Checks if a user has a specific permission.
+ * Ensures a new plaintext password complies with the password policy.
+ * For existing users, the password is also compared with their current one and
+ * the last hashes kept in `password_history`.
+ * @param db - The main database connection.
+ * @param password - The candidate password, in plaintext.
+ * @param userId - The ID of the user changing their password, if they already exist.
+ * @throws {Error} With a user-facing message if the password is not allowed.
+ */
+function assertPasswordAllowed(db: import('better-sqlite3').Database, password: string, userId?: number): void {
+    const policy = readPasswordPolicy(db);
+    const errors = validatePassword(password, policy);
+    if (errors.length > 0) {
+        throw new Error(`La contraseña no cumple la política de seguridad. ${errors.join(' ')}`);
+    }
+    if (userId === undefined || policy.historyCount <= 0) {
+        return;
+    }
+    const current = db.prepare('SELECT password FROM users WHERE id = ?').get(userId) as { password: string } | undefined;
+    const history = db.prepare('SELECT passwordHash FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?').all(userId, policy.historyCount) as { passwordHash: string }[];
+    const previousHashes = [...(current?.password ? [current.password] : []), ...history.map(h => h.passwordHash)];
+    if (previousHashes.some(hash => bcrypt.compareSync(password, hash))) {
+        throw new Error(`No puedes reutilizar ninguna de tus últimas ${policy.historyCount} contraseñas.`);
+    }
+}
+
+/**
+ * Records that a user's password changed: stores its hash in the history (keeping only
+ * as many entries as the policy needs), restarts its age and drops any temporary-password expiry.
+ * @param db - The main database connection.
+ * @param userId - The ID of the user.
+ * @param passwordHash - The bcrypt hash of the new password.
+ */
+function recordPasswordChange(db: import('better-sqlite3').Database, userId: number, passwordHash: string): void {
+    const policy = readPasswordPolicy(db);
+    const now = new Date().toISOString();
+    db.prepare('INSERT INTO password_history (userId, passwordHash, createdAt) VALUES (?, ?, ?)').run(userId, passwordHash, now);
+    db.prepare('DELETE FROM password_history WHERE userId = ? AND id NOT IN (SELECT id FROM password_history WHERE userId = ? ORDER BY id DESC LIMIT ?)')
+        .run(userId, userId, policy.historyCount);
+    db.prepare('UPDATE users SET passwordChangedAt = ?, tempPasswordExpiresAt = NULL WHERE id = ?').run(now, userId);
+}
+
+/**
+ * Generates a random temporary password that satisfies the password policy.
+ * @param policy - The policy the password must comply with.
+ * @returns The plaintext temporary password.
+ */
+function generateTemporaryPassword(policy: PasswordPolicy): string {
+    const pools = [
+        'ABCDEFGHJKLMNPQRSTUVWXYZ',
+        'abcdefghijkmnopqrstuvwxyz',
+        '23456789',
+        ...(policy.requireSymbol ? ['!@#$%&*?'] : []),
+    ];
+    const allChars = pools.join('');
+    const chars = pools.map(pool => pool[crypto.randomInt(pool.length)]);
+    while (chars.length < Math.max(policy.minLength, 10)) {
+        chars.push(allChars[crypto.randomInt(allChars.length)]);
+    }
+    // Shuffle so the guaranteed characters are not always at the start.
+    for (let i = chars.length - 1; i > 0; i--) {
+        const j = crypto.randomInt(i + 1);
+        [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+    return chars.join('');
+}
+
+/**
+ * Removes every server-only secret (password hash, TOTP secret, recovery code hashes)
+ * from a user record before it is returned to the client.
+ * @param user - The full user row.
+ * @returns The user without its secrets.
+ */
+function toClientUser(user: User): User {
+    const { password: _password, totpSecret: _totpSecret, totpRecoveryCodes: _totpRecoveryCodes, ...clientUser } = user;
+    return { ...clientUser, totpEnabled: !!clientUser.totpEnabled, authProvider: clientUser.authProvider || 'local', dataScopes: parseDataScopes(clientUser.dataScopes) };
+}
+
+/**
+ * Checks whether the given role forces its members to use two-factor authentication.
+ * @param db - The main database connection.
+ * @param roleId - The ID of the role.
+ * @returns True if the role requires a second factor.
+ */
+function isTwoFactorRequiredForRole(db: import('better-sqlite3').Database, roleId: string): boolean {
+    const role = db.prepare('SELECT requireTwoFactor FROM roles WHERE id = ?').get(roleId) as { requireTwoFactor: number | null } | undefined;
+    return !!role?.requireTwoFactor;
+}
+
+/**
+ * Stores a new, not yet confirmed TOTP secret for a user and renders the QR code to enroll it.
+ * The secret only becomes active once the user proves it with a valid code.
+ * @param db - The main database connection.
+ * @param user - The user enrolling.
+ * @returns The secret and its provisioning QR code.
+ */
+async function createPendingTwoFactorSetup(db: import('better-sqlite3').Database, user: Pick<User, 'id' | 'email'>): Promise<TwoFactorSetup> {
+    const secret = generateTotpSecret();
+    db.prepare('UPDATE users SET totpSecret = ?, totpEnabled = 0, totpRecoveryCodes = NULL WHERE id = ?').run(secret, user.id);
+    const company = db.prepare('SELECT systemName FROM company_settings WHERE id = 1').get() as { systemName: string | null } | undefined;
+    const qrCodeDataUrl = await QRCode.toDataURL(buildOtpAuthUrl(secret, user.email, company?.systemName || 'Clic-Tools'));
+    return { secret, qrCodeDataUrl };
+}
+
+/**
+ * Replaces a user's recovery codes with a fresh set. Only the hashes are stored.
+ * @param db - The main database connection.
+ * @param userId - The ID of the user.
+ * @returns The new plaintext codes, to be shown once.
+ */
+function replaceRecoveryCodes(db: import('better-sqlite3').Database, userId: number): string[] {
+    const codes = generateRecoveryCodes();
+    db.prepare('UPDATE users SET totpRecoveryCodes = ? WHERE id = ?').run(JSON.stringify(codes.map(hashRecoveryCode)), userId);
+    return codes;
+}
+
+/**
+ * Consumes a recovery code if it belongs to the user. Each code works only once.
+ * @param db - The main database connection.
+ * @param user - The full user row.
+ * @param code - The code typed by the user.
+ * @returns True if the code was valid and has been consumed.
+ */
+function consumeRecoveryCode(db: import('better-sqlite3').Database, user: User, code: string): boolean {
+    const hashes: string[] = JSON.parse(user.totpRecoveryCodes || '[]');
+    const index = hashes.indexOf(hashRecoveryCode(code));
+    if (index === -1) {
+        return false;
+    }
+    hashes.splice(index, 1);
+    db.prepare('UPDATE users SET totpRecoveryCodes = ? WHERE id = ?').run(JSON.stringify(hashes), user.id);
+    return true;
+}
+
+/**
+ * Verifies credentials against the LDAP directory, when that provider is enabled.
+ * @param login - The identifier typed by the user.
+ * @param password - The plaintext password.
+ * @returns The directory data and the role resolved from the user's groups, or null if the
+ * provider is disabled, the credentials are wrong, the directory is unreachable or no role applies.
+ */
+async function authenticateWithDirectory(login: string, password: string): Promise<{ email: string; name: string; roleId: string } | null> {
+    const settings = await runAsSystem(getLdapSettings);
+    if (!settings.enabled) {
+        return null;
+    }
+    try {
+        const entry = await authenticateLdapUser(settings, login, password);
+        if (!entry) {
+            return null;
+        }
+        const roleId = resolveLdapRole(entry.groups, settings.groupRoleMappings, settings.defaultRoleId);
+        if (!roleId) {
+            await logWarn(`Directory user '${entry.dn}' has no group mapped to a role; login refused.`, { groups: entry.groups });
+            return null;
+        }
+        return { email: entry.email, name: entry.name, roleId };
+    } catch (error: any) {
+        await logError('LDAP authentication failed: the directory could not be queried.', { error: error.message, url: settings.url });
+        return null;
+    }
+}
+
+/**
+ * Creates or refreshes the local row of a directory user after a successful LDAP bind.
+ * Rows are matched by email, so an existing local account with the directory email is
+ * converted to a directory account (except the initial administrator, which stays local).
+ * The name and role are taken from the directory on every login, so group changes apply
+ * at the next sign-in. The stored password hash is random and never usable.
+ * @param db - The main database connection.
+ * @param directoryUser - The directory data and resolved role.
+ * @returns The up-to-date user row, or null if the email belongs to the initial administrator.
+ */
+function provisionDirectoryUser(db: import('better-sqlite3').Database, directoryUser: { email: string; name: string; roleId: string }): User | null {
+    const existingUser = db.prepare('SELECT * FROM users WHERE lower(email) = lower(?)').get(directoryUser.email) as User | undefined;
+    if (existingUser?.id === INITIAL_ADMIN_ID) {
+        return null;
+    }
+    if (existingUser) {
+        db.prepare("UPDATE users SET name = ?, role = ?, authProvider = 'ldap' WHERE id = ?").run(directoryUser.name, directoryUser.roleId, existingUser.id);
+        return db.prepare('SELECT * FROM users WHERE id = ?').get(existingUser.id) as User;
+    }
+    const highestIdResult = db.prepare('SELECT MAX(id) as maxId FROM users').get() as { maxId: number | null };
+    const nextId = (highestIdResult.maxId || 0) + 1;
+    db.prepare(
+        `INSERT INTO users (id, name, email, password, avatar, role, recentActivity, forcePasswordChange, passwordChangedAt, authProvider)
+         VALUES (?, ?, ?, ?, '', ?, 'Usuario creado desde el directorio corporativo.', 0, ?, 'ldap')`
+    ).run(nextId, directoryUser.name, directoryUser.email, bcrypt.hashSync(crypto.randomBytes(32).toString('hex'), SALT_ROUNDS), directoryUser.roleId, new Date().toISOString());
+    return db.prepare('SELECT * FROM users WHERE id = ?').get(nextId) as User;
+}
+
+/**
+ * Checks if a user has a specific permission, granted by their role or inherited from its parent roles.
  * Admins are always granted permission.
  * @param userId - The ID of the user to check.
  * @param permission - The permission string to validate.
@@ -38,51 +490,100 @@ export async function hasPermission(userId: number, permission: string): Promise
     if (!userRoleInfo) return false;
     if (userRoleInfo.role === 'admin') return true; // Admins have all permissions
 
-    const role = db.prepare('SELECT permissions FROM roles WHERE id = ?').get(userRoleInfo.role) as { permissions: string } | undefined;
-    if (!role) return false;
-
-    const permissions: string[] = JSON.parse(role.permissions);
-    return permissions.includes(permission);
+    const roles = await getAllRoles();
+    return resolveEffectivePermissions(userRoleInfo.role, roles).some(p => p.permission === permission);
 }
 
 
 /**
  * Attempts to log in a user with the given credentials.
  * It securely compares the provided password with the stored hash.
+ * Failed attempts are counted per account and per client IP. Beyond the configured threshold each
+ * failure is answered with a growing delay, and reaching the limit locks the source temporarily.
+ * When the user has two-factor authentication enabled (or their role requires it), no session is
+ * created yet: a short-lived challenge token is returned instead, to be completed with
+ * `verifyTwoFactorLogin`. Users who still have to enroll also receive the enrollment QR code.
+ * Passwords older than the policy's maximum age are flagged for a forced change, and expired
+ * temporary (recovery) passwords are refused.
+ * When the LDAP provider is enabled, credentials that do not match a local password are verified
+ * with an LDAP bind, and directory users get a local row on their first login. The initial
+ * administrator never goes through the directory, so it remains a local fallback account.
  * @param {string} email - The user's email.
  * @param {string} passwordProvided - The password provided by the user.
- * @returns {Promise<{ user: User | null, forcePasswordChange: boolean }>} The user object and a flag indicating if a password change is required.
+ * @returns {Promise<LoginResult>} The user object, a flag indicating if a password change is required, the lockout expiry when the login was refused, and the pending two-factor challenge if any.
  */
-export async function login(email: string, passwordProvided: string, clientInfo: { ip: string; host: string; }): Promise<{ user: User | null, forcePasswordChange: boolean }> {
+export async function login(email: string, passwordProvided: string, clientInfo: { ip: string; host: string; }): Promise<LoginResult> {
   const db = await connectDb();
   const logMeta = { email, ...clientInfo };
+  const accountKey = email.trim().toLowerCase();
   try {
+    const throttle = getLoginThrottleSettings(db);
+    const activeLockout = getActiveLockout(db, 'ip', clientInfo.ip) || getActiveLockout(db, 'account', accountKey);
+    if (activeLockout?.lockedUntil) {
+      await logWarn(`Login refused for email: ${email} because the ${activeLockout.scope === 'ip' ? 'IP address' : 'account'} is locked.`, { ...logMeta, lockedUntil: activeLockout.lockedUntil });
+      return { user: null, forcePasswordChange: false, lockedUntil: activeLockout.lockedUntil };
+    }
+
     const stmt = db.prepare('SELECT * FROM users WHERE email = ?');
-    const user: User | undefined = stmt.get(email) as User | undefined;
+    let user: User | undefined = stmt.get(email) as User | undefined;
+    let isMatch = false;
 
-    if (user && user.password) {
-      const isMatch = await bcrypt.compare(passwordProvided, user.password);
-      if (isMatch) {
-        // Correctly exclude the password from the returned object.
-        const { password: _, ...userWithoutPassword } = user;
-        
-        // Use an environment variable to control the 'secure' flag. Default to false for LAN.
-        const useSecureCookie = process.env.CLIC_TOOLS_COOKIE_SECURE === 'true';
-
-        // Create session cookie
-        cookies().set(SESSION_COOKIE_NAME, String(user.id), {
-            httpOnly: true,
-            secure: useSecureCookie,
-            maxAge: SESSION_DURATION / 1000, // seconds
-            path: '/',
-        });
-
-        await logInfo(`User '${user.name}' logged in successfully.`, logMeta);
-        return { user: userWithoutPassword as User, forcePasswordChange: !!user.forcePasswordChange };
+    if (user && user.authProvider !== 'ldap' && user.password) {
+      isMatch = await bcrypt.compare(passwordProvided, user.password);
+    }
+    if (!isMatch && user?.id !== INITIAL_ADMIN_ID) {
+      const directoryUser = await authenticateWithDirectory(email, passwordProvided);
+      const provisionedUser = directoryUser ? provisionDirectoryUser(db, directoryUser) : null;
+      if (provisionedUser) {
+        user = provisionedUser;
+        isMatch = true;
+        await logInfo(`User '${user.name}' authenticated against the LDAP directory.`, { ...logMeta, role: user.role });
+      } else if (directoryUser) {
+        await logWarn(`Directory login refused for email: ${email} because it matches the initial administrator, which only signs in locally.`, logMeta);
       }
     }
+
+    if (user && isMatch) {
+      // Directory passwords are recovered and expired by the directory's own policy.
+      if (user.authProvider !== 'ldap') {
+        if (user.tempPasswordExpiresAt && new Date(user.tempPasswordExpiresAt).getTime() <= Date.now()) {
+          await logWarn(`Login refused for user '${user.name}': the temporary recovery password has expired.`, logMeta);
+          return { user: null, forcePasswordChange: false, temporaryPasswordExpired: true };
+        }
+
+        const passwordPolicy = readPasswordPolicy(db);
+        const passwordAgeMs = user.passwordChangedAt ? Date.now() - new Date(user.passwordChangedAt).getTime() : 0;
+        if (!user.forcePasswordChange && passwordPolicy.maxAgeDays > 0 && passwordAgeMs > passwordPolicy.maxAgeDays * 24 * 60 * 60 * 1000) {
+          db.prepare('UPDATE users SET forcePasswordChange = 1 WHERE id = ?').run(user.id);
+          user.forcePasswordChange = true;
+          await logInfo(`Password of user '${user.name}' reached its maximum age; a change will be required.`, logMeta);
+        }
+      }
+
+      if (user.totpEnabled || isTwoFactorRequiredForRole(db, user.role)) {
+        // The account failure counter is kept until the second factor is also verified.
+        const challengeToken = crypto.randomBytes(32).toString('hex');
+        db.prepare('DELETE FROM two_factor_challenges WHERE expiresAt <= ?').run(new Date().toISOString());
+        db.prepare('INSERT INTO two_factor_challenges (tokenHash, userId, expiresAt, attempts) VALUES (?, ?, ?, 0)')
+          .run(hashSessionToken(challengeToken), user.id, new Date(Date.now() + TWO_FACTOR_CHALLENGE_DURATION).toISOString());
+        const setup = user.totpEnabled ? undefined : await createPendingTwoFactorSetup(db, user);
+        await logInfo(`User '${user.name}' passed the password check and must now provide a second factor.`, { ...logMeta, enrolling: !!setup });
+        return { user: null, forcePasswordChange: false, twoFactor: { challengeToken, setup } };
+      }
+
+      db.prepare("DELETE FROM login_attempts WHERE scope = 'account' AND identifier = ?").run(accountKey);
+
+      // Create a server-side session and hand only its opaque token to the browser.
+      const sessionToken = await createSession(user.id, clientInfo);
+      setSessionCookie(sessionToken, SESSION_DURATION / 1000);
+
+      await logInfo(`User '${user.name}' logged in successfully.`, logMeta);
+      return { user: toClientUser(user), forcePasswordChange: !!user.forcePasswordChange };
+    }
     await logWarn(`Failed login attempt for email: ${email}`, logMeta);
-    return { user: null, forcePasswordChange: false };
+
+    const lockedUntil = await registerFailedPassword(db, email, clientInfo, throttle);
+    return { user: null, forcePasswordChange: false, lockedUntil };
   } catch (error: any) {
     console.error('Login error:', error);
     await logError(`Login process failed for email: ${email}`, { error: error.message, ...logMeta});
@@ -90,29 +591,311 @@ export async function login(email: string, passwordProvided: string, clientInfo:
   }
 }
 
+/**
+ * Completes a login that is waiting for its second factor.
+ * Accepts either a code from the authenticator app or one of the user's recovery codes.
+ * If the user was enrolling during this login, the secret is activated and a first set of
+ * recovery codes is returned so they can be shown once.
+ * Wrong codes count as failed logins for the account, and a challenge is discarded after
+ * too many wrong codes, so the password must be entered again.
+ * @param {string} challengeToken - The token returned by `login`.
+ * @param {string} code - The TOTP or recovery code.
+ * @returns The same result as `login`, plus the new recovery codes after a first enrollment and
+ * a flag telling the client the challenge is no longer valid.
+ */
+export async function verifyTwoFactorLogin(challengeToken: string, code: string, clientInfo: { ip: string; host: string; }): Promise<{ user: User | null, forcePasswordChange: boolean, lockedUntil?: string, recoveryCodes?: string[], challengeExpired?: boolean }> {
+  const db = await connectDb();
+  const challenge = db.prepare('SELECT * FROM two_factor_challenges WHERE tokenHash = ?').get(hashSessionToken(challengeToken)) as TwoFactorChallengeRow | undefined;
+  if (!challenge || new Date(challenge.expiresAt).getTime() <= Date.now()) {
+    if (challenge) db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+    return { user: null, forcePasswordChange: false, challengeExpired: true };
+  }
+
+  const user = db.prepare('SELECT * FROM users WHERE id = ?').get(challenge.userId) as User | undefined;
+  if (!user || !user.totpSecret) {
+    db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+    return { user: null, forcePasswordChange: false, challengeExpired: true };
+  }
+
+  const logMeta = { email: user.email, ...clientInfo };
+  const accountKey = user.email.trim().toLowerCase();
+  try {
+    const activeLockout = getActiveLockout(db, 'account', accountKey);
+    if (activeLockout?.lockedUntil) {
+      db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+      return { user: null, forcePasswordChange: false, lockedUntil: activeLockout.lockedUntil };
+    }
+
+    const isEnrolled = !!user.totpEnabled;
+    const isValid = verifyTotp(user.totpSecret, code) || (isEnrolled && consumeRecoveryCode(db, user, code));
+    if (!isValid) {
+      await logWarn(`Invalid two-factor code for user '${user.name}'.`, logMeta);
+      const throttle = getLoginThrottleSettings(db);
+      const accountAttempt = recordFailedLogin(db, 'account', accountKey, throttle.maxAttempts, throttle.lockoutMinutes);
+      const attempts = challenge.attempts + 1;
+      if (accountAttempt.lockedUntil) {
+        notifyLoginLockout(user.email, 'account', accountAttempt, clientInfo);
+      }
+      if (accountAttempt.lockedUntil || attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+        return { user: null, forcePasswordChange: false, lockedUntil: accountAttempt.lockedUntil || undefined, challengeExpired: true };
+      }
+      db.prepare('UPDATE two_factor_challenges SET attempts = ? WHERE id = ?').run(attempts, challenge.id);
+      return { user: null, forcePasswordChange: false };
+    }
+
+    db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+    db.prepare("DELETE FROM login_attempts WHERE scope = 'account' AND identifier = ?").run(accountKey);
+
+    let recoveryCodes: string[] | undefined;
+    if (!isEnrolled) {
+      db.prepare('UPDATE users SET totpEnabled = 1 WHERE id = ?').run(user.id);
+      recoveryCodes = replaceRecoveryCodes(db, user.id);
+      await logInfo(`User '${user.name}' enrolled in two-factor authentication during login.`, logMeta);
+    }
+
+    const sessionToken = await createSession(user.id, clientInfo);
+    setSessionCookie(sessionToken, SESSION_DURATION / 1000);
+
+    await logInfo(`User '${user.name}' logged in successfully with two-factor authentication.`, logMeta);
+    return { user: toClientUser({ ...user, totpEnabled: true }), forcePasswordChange: !!user.forcePasswordChange, recoveryCodes };
+  } catch (error: any) {
+    await logError(`Two-factor verification failed for user '${user.name}'.`, { error: error.message, ...logMeta });
+    return { user: null, forcePasswordChange: false };
+  }
+}
+
+/**
+ * Returns the two-factor authentication state of the current user.
+ * @returns {Promise<TwoFactorStatus>} Whether it is enabled, required by the role, and how many recovery codes remain.
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const currentUser = await authorizeAction('getTwoFactorStatus');
+    const db = await connectDb();
+    const row = db.prepare('SELECT totpEnabled, totpRecoveryCodes FROM users WHERE id = ?').get(currentUser.id) as Pick<User, 'totpEnabled' | 'totpRecoveryCodes'> | undefined;
+    return {
+        enabled: !!row?.totpEnabled,
+        requiredByRole: isTwoFactorRequiredForRole(db, currentUser.role),
+        remainingRecoveryCodes: row?.totpEnabled ? (JSON.parse(row.totpRecoveryCodes || '[]') as string[]).length : 0,
+    };
+}
+
+/**
+ * Starts enrolling an authenticator app for the current user.
+ * @returns {Promise<TwoFactorSetup>} The new secret and its QR code.
+ */
+export async function startTwoFactorEnrollment(): Promise<TwoFactorSetup> {
+    const currentUser = await authorizeAction('startTwoFactorEnrollment');
+    await assertNotImpersonating(currentUser, 'startTwoFactorEnrollment');
+    const db = await connectDb();
+    const row = db.prepare('SELECT totpEnabled FROM users WHERE id = ?').get(currentUser.id) as Pick<User, 'totpEnabled'> | undefined;
+    if (row?.totpEnabled) {
+        throw new Error('La autenticación en dos pasos ya está activada.');
+    }
+    return createPendingTwoFactorSetup(db, currentUser);
+}
 
+/**
+ * Activates the pending TOTP secret of the current user once they prove it with a valid code.
+ * @param {string} code - A code from the authenticator app.
+ * @returns {Promise<string[]>} The recovery codes, to be shown once.
+ */
+export async function confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+    const currentUser = await authorizeAction('confirmTwoFactorEnrollment');
+    await assertNotImpersonating(currentUser, 'confirmTwoFactorEnrollment');
+    const db = await connectDb();
+    const row = db.prepare('SELECT totpSecret, totpEnabled FROM users WHERE id = ?').get(currentUser.id) as Pick<User, 'totpSecret' | 'totpEnabled'> | undefined;
+    if (!row?.totpSecret || row.totpEnabled) {
+        throw new Error('No hay una configuración de dos pasos pendiente.');
+    }
+    if (!verifyTotp(row.totpSecret, code)) {
+        throw new Error('El código no es válido. Revisa la hora de tu dispositivo e intenta de nuevo.');
+    }
+    db.prepare('UPDATE users SET totpEnabled = 1 WHERE id = ?').run(currentUser.id);
+    const codes = replaceRecoveryCodes(db, currentUser.id);
+    await logInfo(`User '${currentUser.name}' enabled two-factor authentication.`);
+    await recordAuditEvent(currentUser, { entityType: 'user', entityId: currentUser.id, before: { totpEnabled: false }, after: { totpEnabled: true } });
+    return codes;
+}
+
+/**
+ * Generates a new set of recovery codes for the current user, invalidating the old ones.
+ * @param {string} code - A current code from the authenticator app, to confirm possession.
+ * @returns {Promise<string[]>} The new recovery codes, to be shown once.
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const currentUser = await authorizeAction('regenerateRecoveryCodes');
+    await assertNotImpersonating(currentUser, 'regenerateRecoveryCodes');
+    const db = await connectDb();
+    const row = db.prepare('SELECT totpSecret, totpEnabled FROM users WHERE id = ?').get(currentUser.id) as Pick<User, 'totpSecret' | 'totpEnabled'> | undefined;
+    if (!row?.totpEnabled || !row.totpSecret) {
+        throw new Error('La autenticación en dos pasos no está activada.');
+    }
+    if (!verifyTotp(row.totpSecret, code)) {
+        throw new Error('El código no es válido.');
+    }
+    const codes = replaceRecoveryCodes(db, currentUser.id);
+    await logInfo(`User '${currentUser.name}' regenerated their two-factor recovery codes.`);
+    return codes;
+}
+
+/**
+ * Turns off two-factor authentication for the current user after confirming their password.
+ * Not allowed when the user's role requires a second factor.
+ * @param {string} password - The user's current password.
+ */
+export async function disableTwoFactor(password: string): Promise<void> {
+    const currentUser = await authorizeAction('disableTwoFactor');
+    await assertNotImpersonating(currentUser, 'disableTwoFactor');
+    const db = await connectDb();
+    if (isTwoFactorRequiredForRole(db, currentUser.role)) {
+        throw new Error('Tu rol requiere la autenticación en dos pasos; no se puede desactivar.');
+    }
+    if (!(await comparePasswords(currentUser.id, password))) {
+        throw new Error('La contraseña no es correcta.');
+    }
+    db.prepare('UPDATE users SET totpSecret = NULL, totpEnabled = 0, totpRecoveryCodes = NULL WHERE id = ?').run(currentUser.id);
+    await logInfo(`User '${currentUser.name}' disabled two-factor authentication.`);
+    await recordAuditEvent(currentUser, { entityType: 'user', entityId: currentUser.id, before: { totpEnabled: true }, after: { totpEnabled: false } });
+}
+
+/**
+ * Resets another user's two-factor authentication (e.g., after losing their phone and recovery codes).
+ * If their role requires it, they will be asked to enroll again on their next login.
+ * @param {number} userId - The ID of the user to reset.
+ */
+export async function resetUserTwoFactor(userId: number): Promise<void> {
+    const currentUser = await authorizeAction('resetUserTwoFactor', 'users:update');
+    const db = await connectDb();
+    const user = db.prepare('SELECT name, totpEnabled FROM users WHERE id = ?').get(userId) as { name: string, totpEnabled: number | null } | undefined;
+    if (!user) {
+        throw new Error('Usuario no encontrado.');
+    }
+    db.prepare('UPDATE users SET totpSecret = NULL, totpEnabled = 0, totpRecoveryCodes = NULL WHERE id = ?').run(userId);
+    await logInfo(`Admin '${currentUser.name}' reset the two-factor authentication of user '${user.name}'.`, { userId });
+    await recordAuditEvent(currentUser, { entityType: 'user', entityId: userId, action: 'reset', before: { totpEnabled: !!user.totpEnabled }, after: { totpEnabled: false } });
+}
+
+/**
+ * Returns the password policy so forms can validate passwords before submitting them.
+ * Not guarded: the policy is not sensitive and is needed by the initial setup wizard,
+ * before any user exists.
+ * @returns {Promise<PasswordPolicy>} The effective password policy.
+ */
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+    const db = await connectDb();
+    return readPasswordPolicy(db);
+}
+
+/**
+ * Logs out the current user by deleting their session row and clearing the cookie.
+ */
 export async function logout(): Promise<void> {
-    const cookieStore = cookies();
-    const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME);
-    
-    if (sessionCookie && sessionCookie.value) {
-        const userId = Number(sessionCookie.value);
+    const session = await getSessionFromCookie();
+
+    if (session) {
         const db = await connectDb();
-        const user = db.prepare('SELECT name FROM users WHERE id = ?').get(userId) as { name: string } | undefined;
+        db.prepare('DELETE FROM sessions WHERE id = ?').run(session.id);
+        const user = db.prepare('SELECT name FROM users WHERE id = ?').get(session.userId) as { name: string } | undefined;
         if (user) {
-            await logInfo(`User '${user.name}' logged out.`, { userId });
+            await logInfo(`User '${user.name}' logged out.`, { userId: session.userId });
         }
     }
-    
-    const useSecureCookie = process.env.CLIC_TOOLS_COOKIE_SECURE === 'true';
-    
+
     // Invalidate the cookie
-    cookieStore.set(SESSION_COOKIE_NAME, '', {
-        httpOnly: true,
-        secure: useSecureCookie,
-        maxAge: 0,
-        path: '/',
-    });
+    setSessionCookie('', 0);
+}
+
+/**
+ * Lists the active sessions of the currently authenticated user.
+ * @returns {Promise<UserSession[]>} The sessions, newest activity first, with the current one flagged.
+ */
+export async function getMySessions(): Promise<UserSession[]> {
+    const session = await getSessionFromCookie();
+    if (!session) {
+        return [];
+    }
+    const db = await connectDb();
+    const rows = db.prepare('SELECT id, userId, createdAt, expiresAt, lastSeenAt, ip, userAgent FROM sessions WHERE userId = ? AND expiresAt > ? ORDER BY lastSeenAt DESC')
+        .all(session.userId, new Date().toISOString()) as UserSession[];
+    return rows.map(row => ({ ...row, isCurrent: row.id === session.id }));
+}
+
+/**
+ * Closes every session of the currently authenticated user, including the current one.
+ * The client is expected to return to the login page afterwards.
+ * @returns {Promise<number>} The number of sessions that were closed.
+ */
+export async function closeAllMySessions(): Promise<number> {
+    const session = await getSessionFromCookie();
+    if (!session) {
+        return 0;
+    }
+    const db = await connectDb();
+    const result = db.prepare('DELETE FROM sessions WHERE userId = ?').run(session.userId);
+    setSessionCookie('', 0);
+    await logInfo(`User with ID ${session.userId} closed all of their sessions.`, { count: result.changes });
+    return result.changes;
+}
+
+/**
+ * Forces a user to log out everywhere by deleting all of their sessions.
+ * Only callable by users with the 'users:update' permission.
+ * @param {number} userId - The ID of the user whose sessions will be closed.
+ * @returns {Promise<number>} The number of sessions that were closed.
+ */
+export async function forceLogoutUser(userId: number): Promise<number> {
+    const currentUser = await authorizeAction('forceLogoutUser', 'users:update');
+    const db = await connectDb();
+    const result = db.prepare('DELETE FROM sessions WHERE userId = ?').run(userId);
+    await logInfo(`Admin '${currentUser.name}' forced logout of user ID ${userId}.`, { count: result.changes });
+    await recordAuditEvent(currentUser, { entityType: 'session', entityId: userId, action: 'revoke', before: { activeSessions: result.changes }, after: { activeSessions: 0 } });
+    return result.changes;
+}
+
+/**
+ * Lists the accounts and IP addresses that are currently locked out after too many failed logins.
+ * @returns {Promise<LoginLockout[]>} The active lockouts, the most recent first.
+ */
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+    await authorizeAction('getLoginLockouts', 'users:read');
+    const db = await connectDb();
+    return db.prepare('SELECT * FROM login_attempts WHERE lockedUntil > ? ORDER BY lastFailedAt DESC')
+        .all(new Date().toISOString()) as LoginLockout[];
+}
+
+/**
+ * Lifts a login lockout (account or IP) before it expires and resets its failure counter.
+ * @param {number} lockoutId - The ID of the lockout record.
+ */
+export async function unlockLoginLockout(lockoutId: number): Promise<void> {
+    const currentUser = await authorizeAction('unlockLoginLockout', 'users:update');
+    const db = await connectDb();
+    const lockout = db.prepare('SELECT * FROM login_attempts WHERE id = ?').get(lockoutId) as LoginLockout | undefined;
+    if (!lockout) return;
+    db.prepare('DELETE FROM login_attempts WHERE id = ?').run(lockoutId);
+    await logInfo(`Admin '${currentUser.name}' lifted the login lockout for ${lockout.scope} '${lockout.identifier}'.`, { failedCount: lockout.failedCount });
+    await recordAuditEvent(currentUser, { entityType: 'login_lockout', entityId: `${lockout.scope}:${lockout.identifier}`, action: 'unlock', before: { failedCount: lockout.failedCount, lockedUntil: lockout.lockedUntil }, after: null });
+}
+
+/**
+ * Unlocks a user's account, clearing the failed login counter tied to their email.
+ * @param {number} userId - The ID of the user to unlock.
+ * @returns {Promise<boolean>} True if the account had failed attempts recorded.
+ */
+export async function unlockUserAccount(userId: number): Promise<boolean> {
+    const currentUser = await authorizeAction('unlockUserAccount', 'users:update');
+    const db = await connectDb();
+    const user = db.prepare('SELECT name, email FROM users WHERE id = ?').get(userId) as { name: string, email: string } | undefined;
+    if (!user) {
+        throw new Error('Usuario no encontrado.');
+    }
+    const result = db.prepare("DELETE FROM login_attempts WHERE scope = 'account' AND identifier = ?").run(user.email.trim().toLowerCase());
+    await logInfo(`Admin '${currentUser.name}' unlocked the account of user '${user.name}'.`, { userId });
+    if (result.changes > 0) {
+        await recordAuditEvent(currentUser, { entityType: 'login_lockout', entityId: `account:${user.email.trim().toLowerCase()}`, action: 'unlock', before: { locked: true }, after: { locked: false } });
+    }
+    return result.changes > 0;
 }
 
 /**
@@ -133,15 +916,12 @@ async function getAllUsersWithPasswords(): Promise<User[]> {
 
 /**
  * Retrieves all users from the database for client-side consumption.
- * Passwords are removed before sending the data.
+ * Passwords and two-factor secrets are removed before sending the data.
  * @returns {Promise<User[]>} A promise that resolves to an array of all users without passwords.
  */
 export async function getAllUsers(): Promise<User[]> {
     const users = await getAllUsersWithPasswords();
-    return users.map(u => {
-        const { password: _, ...userWithoutPassword } = u;
-        return userWithoutPassword;
-    }) as User[];
+    return users.map(toClientUser);
 }
 
 /**
@@ -154,11 +934,8 @@ export async function getAllUsersForReport(): Promise<User[]> {
     try {
         const stmt = db.prepare('SELECT * FROM users ORDER BY name');
         const users = stmt.all() as User[];
-        // Ensure passwords are never sent to the client.
-        return users.map(u => {
-            const { password: _, ...userWithoutPassword } = u;
-            return userWithoutPassword;
-        }) as User[];
+        // Ensure passwords and two-factor secrets are never sent to the client.
+        return users.map(toClientUser);
     } catch (error: any) {
         await logError('getAllUsersForReport', { error: (error as Error).message });
         return [];
@@ -171,6 +948,7 @@ export async function getAllUsersForReport(): Promise<User[]> {
  * @returns The newly created user object, without the password hash.
  */
 export async function addUser(userData: Omit<User, 'id' | 'avatar' | 'recentActivity' | 'securityQuestion' | 'securityAnswer'> & { password: string, forcePasswordChange: boolean }): Promise<User> {
+  const actor = await authorizeAction('addUser', 'users:create');
   const db = await connectDb();
 
   // Validate data against the schema first
@@ -178,6 +956,7 @@ export async function addUser(userData: Omit<User, 'id' | 'avatar' | 'recentActi
   if (!validationResult.success) {
       throw new Error(`Validation failed: ${validationResult.error.errors.map(e => e.message).join(', ')}`);
   }
+  assertPasswordAllowed(db, validationResult.data.password);
   
   const hashedPassword = bcrypt.hashSync(validationResult.data.password, SALT_ROUNDS);
 
@@ -212,24 +991,38 @@ export async function addUser(userData: Omit<User, 'id' | 'avatar' | 'recentActi
     securityAnswer: userToCreate.securityAnswer || null,
     forcePasswordChange: userToCreate.forcePasswordChange ? 1 : 0,
   });
+  recordPasswordChange(db, userToCreate.id, hashedPassword);
 
   const { password: _, ...userWithoutPassword } = userToCreate;
   await logInfo(`Admin added a new user: ${userToCreate.name}`, { role: userToCreate.role });
+  await recordAuditEvent(actor, { entityType: 'user', entityId: userToCreate.id, before: null, after: db.prepare('SELECT * FROM users WHERE id = ?').get(userToCreate.id) as User });
   return userWithoutPassword as User;
 }
 
 /**
  * Saves the entire list of users to the database.
  * This is an "all-or-nothing" operation that replaces all existing users.
- * It handles password hashing for new or changed passwords.
+ * Any password that differs from the stored hash is taken as a new plaintext password: it must comply with
+ * the password policy and is hashed here, so a client can never store a hash of its own choosing.
+ * Callers without 'users:update' or 'users:delete' can only save their own record,
+ * and never change their own role, authentication provider, ERP alias or data scopes, nor lift a forced
+ * password change other than by setting a new password. Directory (LDAP) users cannot
+ * get a local password, and the initial administrator always stays a local account.
  * @param {User[]} users - The full array of users to save.
  * @returns {Promise<void>}
  */
 export async function saveAllUsers(users: User[]): Promise<void> {
+   const currentUser = await authorizeAction('saveAllUsers');
+   const canManageUsers = currentUser.role === 'admin' || await hasPermission(currentUser.id, 'users:update') || await hasPermission(currentUser.id, 'users:delete');
+   if (!canManageUsers) {
+       users = users
+           .filter(u => u.id === currentUser.id)
+           .map(u => ({ ...u, role: currentUser.role }));
+   }
    const db = await connectDb();
    const upsert = db.prepare(`
-    INSERT INTO users (id, name, email, password, phone, whatsapp, erpAlias, avatar, role, recentActivity, securityQuestion, securityAnswer, forcePasswordChange) 
-    VALUES (@id, @name, @email, @password, @phone, @whatsapp, @erpAlias, @avatar, @role, @recentActivity, @securityQuestion, @securityAnswer, @forcePasswordChange)
+    INSERT INTO users (id, name, email, password, phone, whatsapp, erpAlias, avatar, role, recentActivity, securityQuestion, securityAnswer, forcePasswordChange, authProvider, dataScopes) 
+    VALUES (@id, @name, @email, @password, @phone, @whatsapp, @erpAlias, @avatar, @role, @recentActivity, @securityQuestion, @securityAnswer, @forcePasswordChange, @authProvider, @dataScopes)
     ON CONFLICT(id) DO UPDATE SET
         name = excluded.name,
         email = excluded.email,
@@ -242,14 +1035,36 @@ export async function saveAllUsers(users: User[]): Promise<void> {
         recentActivity = excluded.recentActivity,
         securityQuestion = excluded.securityQuestion,
         securityAnswer = excluded.securityAnswer,
-        forcePasswordChange = excluded.forcePasswordChange
+        forcePasswordChange = excluded.forcePasswordChange,
+        authProvider = excluded.authProvider,
+        dataScopes = excluded.dataScopes
    `);
 
-    const transaction = db.transaction((usersToSave: User[]) => {
-        const existingUsersMap = new Map<number, { pass: string | undefined; force: boolean | number | undefined }>(
-            (db.prepare('SELECT id, password, forcePasswordChange FROM users').all() as User[]).map(u => [u.id, { pass: u.password, force: u.forcePasswordChange }])
-        );
+    const existingUsersMap = new Map<number, { pass: string | undefined; force: boolean | number | undefined; provider: User['authProvider']; erpAlias: string | null; scopes: string | null }>(
+        (db.prepare('SELECT id, password, forcePasswordChange, authProvider, erpAlias, dataScopes FROM users').all() as (Omit<User, 'dataScopes'> & { dataScopes: string | null })[])
+            .map(u => [u.id, { pass: u.password, force: u.forcePasswordChange, provider: u.authProvider || 'local', erpAlias: u.erpAlias || null, scopes: u.dataScopes }])
+    );
+    const resolveAuthProvider = (user: Pick<User, 'id' | 'authProvider'>): AuthProvider => {
+        const existingProvider = existingUsersMap.get(user.id)?.provider || 'local';
+        if (user.id === INITIAL_ADMIN_ID || !canManageUsers) return existingProvider;
+        return user.authProvider || existingProvider;
+    };
+    const isNewPassword = (userId: number, password: string | undefined): password is string =>
+        !!password && password !== existingUsersMap.get(userId)?.pass;
+
+    // Reject new passwords that break the policy before anything is written.
+    for (const user of users) {
+        const existingUserData = existingUsersMap.get(user.id);
+        if (isNewPassword(user.id, user.password)) {
+            await assertNotImpersonating(currentUser, 'saveAllUsers');
+            if (resolveAuthProvider(user) === 'ldap') {
+                throw new Error(`La contraseña de ${user.name} se administra en el directorio corporativo (LDAP) y no se puede cambiar aquí.`);
+            }
+            assertPasswordAllowed(db, user.password, existingUserData ? user.id : undefined);
+        }
+    }
 
+    const transaction = db.transaction((usersToSave: User[]) => {
         for (const user of usersToSave) {
           // Validate each user object before processing
           const validationResult = UserSchema.safeParse(user);
@@ -259,34 +1074,43 @@ export async function saveAllUsers(users: User[]): Promise<void> {
           }
 
           const validatedUser = validationResult.data;
-          let passwordToSave = validatedUser.password;
           const existingUserData = existingUsersMap.get(validatedUser.id);
-          
-          if (passwordToSave && passwordToSave !== existingUserData?.pass) {
-              if (!passwordToSave.startsWith('$2a$')) { // Basic check if it's not already a hash
-                  passwordToSave = bcrypt.hashSync(passwordToSave, SALT_ROUNDS);
-              }
-          } else {
-             passwordToSave = existingUserData?.pass;
-          }
+          const passwordToSave = isNewPassword(validatedUser.id, validatedUser.password)
+              ? bcrypt.hashSync(validatedUser.password, SALT_ROUNDS)
+              : existingUserData?.pass;
+          const passwordChanged = passwordToSave !== existingUserData?.pass;
+          // Setting a new password is the only way for anyone but a user manager to clear a forced change.
+          const forcePasswordChange = canManageUsers ? validatedUser.forcePasswordChange : !passwordChanged && existingUserData?.force;
 
           const userToInsert = {
             ...validatedUser,
             password: passwordToSave,
             phone: validatedUser.phone || null,
             whatsapp: validatedUser.whatsapp || null,
-            erpAlias: validatedUser.erpAlias || null,
+            // The ERP alias decides which customers a scoped user sees, so it follows the same rule as data scopes.
+            erpAlias: canManageUsers ? validatedUser.erpAlias || null : existingUserData?.erpAlias ?? null,
             securityQuestion: validatedUser.securityQuestion || null,
             securityAnswer: validatedUser.securityAnswer || null,
-            forcePasswordChange: validatedUser.forcePasswordChange ? 1 : 0,
+            forcePasswordChange: forcePasswordChange ? 1 : 0,
+            authProvider: resolveAuthProvider(validatedUser),
+            // Only user managers can change data scopes; anyone else keeps the stored ones.
+            dataScopes: canManageUsers ? serializeDataScopes(validatedUser.dataScopes) : existingUserData?.scopes ?? null,
           };
           upsert.run(userToInsert);
+          if (passwordChanged && passwordToSave) {
+              recordPasswordChange(db, validatedUser.id, passwordToSave);
+          }
         }
     });
 
+    const savedUserIds = new Set(users.map(u => u.id));
+    const readSavedUsers = () => (db.prepare('SELECT * FROM users').all() as User[]).filter(u => savedUserIds.has(u.id));
+    const usersBefore = readSavedUsers();
+
     try {
         transaction(users);
         await logInfo(`${users.length} user records were processed for saving.`);
+        await recordAuditCollectionChanges(currentUser, 'user', usersBefore, readSavedUsers());
     } catch (error) {
         await logError('Failed to save all users (saveAllUsers)', { error: (error as Error).message });
         throw new Error('Database transaction failed to save users.');
@@ -294,54 +1118,142 @@ export async function saveAllUsers(users: User[]): Promise<void> {
 }
 
 /**
- * Securely compares a plaintext password with a user's stored bcrypt hash.
+ * Securely compares a plaintext password with a user's stored bcrypt hash,
+ * or with the directory password for users provisioned from LDAP.
+ * Only the user themselves can check their password, and wrong passwords count towards the
+ * same lockout as failed logins, so this cannot be used to guess a password around it.
  * @param {number} userId - The ID of the user whose password should be checked.
  * @param {string} password - The plaintext password to check.
- * @param {object} [clientInfo] - Optional client IP and host for logging.
  * @returns {Promise<boolean>} True if the password matches the hash.
  */
-export async function comparePasswords(userId: number, password: string, clientInfo?: { ip: string, host: string }): Promise<boolean> {
+export async function comparePasswords(userId: number, password: string): Promise<boolean> {
+    await authorizeOwner('comparePasswords', userId);
     const db = await connectDb();
-    const user = db.prepare('SELECT password FROM users WHERE id = ?').get(userId) as User | undefined;
+    const user = db.prepare('SELECT email, password, authProvider FROM users WHERE id = ?').get(userId) as User | undefined;
 
     if (!user || !user.password) {
         return false;
     }
+
+    const clientInfo = getRequestClientInfo();
+    const throttle = getLoginThrottleSettings(db);
+    const activeLockout = getActiveLockout(db, 'ip', clientInfo.ip) || getActiveLockout(db, 'account', user.email.trim().toLowerCase());
+    if (activeLockout?.lockedUntil) {
+        await logWarn(`Password comparison refused for email: ${user.email} because the ${activeLockout.scope === 'ip' ? 'IP address' : 'account'} is locked.`, { email: user.email, ...clientInfo, lockedUntil: activeLockout.lockedUntil });
+        return false;
+    }
     
-    const isMatch = await bcrypt.compare(password, user.password);
+    const isMatch = user.authProvider === 'ldap'
+        ? !!(await authenticateWithDirectory(user.email, password))
+        : await bcrypt.compare(password, user.password);
     if (!isMatch) {
-      await logWarn('Password comparison failed during settings update/recovery.', clientInfo);
+        await logWarn('Password comparison failed during settings update/recovery.', { email: user.email, ...clientInfo });
+        await registerFailedPassword(db, user.email, clientInfo, throttle);
     }
     return isMatch;
 }
 
 /**
  * Retrieves the currently authenticated user based on the session cookie.
+ * The cookie only carries an opaque token, which is resolved through the
+ * `sessions` table; expired or revoked sessions yield null.
  * This is a server-only function.
  * @returns {Promise<User | null>} The user object or null if not authenticated.
  */
 export async function getCurrentUser(): Promise<User | null> {
-    const cookieStore = cookies();
-    const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME);
-
-    if (!sessionCookie || !sessionCookie.value) {
+    const session = await getSessionFromCookie();
+    if (!session) {
         return null;
     }
 
-    const userId = Number(sessionCookie.value);
-    if (isNaN(userId)) {
+    const db = await connectDb();
+    const user = db.prepare('SELECT * FROM users WHERE id = ?').get(session.userId) as User | undefined;
+
+    if (!user) {
         return null;
     }
 
+    if (session.impersonatedUserId) {
+        const impersonatedUser = db.prepare('SELECT * FROM users WHERE id = ?').get(session.impersonatedUserId) as User | undefined;
+        // The impersonation ends by itself if the target disappears or the admin loses the permission meanwhile.
+        if (impersonatedUser && await hasPermission(user.id, 'admin:impersonate')) {
+            return { ...toClientUser(impersonatedUser), impersonatedBy: { id: user.id, name: user.name } };
+        }
+        db.prepare('UPDATE sessions SET impersonatedUserId = NULL WHERE id = ?').run(session.id);
+    }
+
+    return toClientUser(user);
+}
+
+/**
+ * Checks whether a user holds every permission of a role, so that impersonating
+ * someone with that role can never grant the impersonator more access than they already have.
+ * @param db - The main database.
+ * @param userId - The ID of the impersonator.
+ * @param roleId - The role of the user to impersonate.
+ * @returns True if the role grants nothing beyond the user's own permissions.
+ */
+async function holdsAllPermissionsOfRole(db: import('better-sqlite3').Database, userId: number, roleId: string): Promise<boolean> {
+    const userRole = db.prepare('SELECT role FROM users WHERE id = ?').get(userId) as { role: string } | undefined;
+    if (userRole?.role === 'admin') return true;
+    if (roleId === 'admin') return false;
+    const permissions = resolveEffectivePermissions(roleId, await getAllRoles());
+    for (const { permission } of permissions) {
+        if (!(await hasPermission(userId, permission))) return false;
+    }
+    return true;
+}
+
+/**
+ * Starts viewing the application as another user, within the current session.
+ * Until `stopImpersonation` is called, the session resolves to the target user, so screens,
+ * permissions and data are exactly what they see; changes are credited to both people.
+ * Requires 'admin:impersonate' and at least the permissions of the target's role.
+ * @param {number} userId - The ID of the user to impersonate.
+ * @returns {Promise<User>} The impersonated user, marked with the impersonator.
+ */
+export async function startImpersonation(userId: number): Promise<User> {
+    const currentUser = await authorizeAction('startImpersonation', 'admin:impersonate');
+    if (currentUser.impersonatedBy) {
+        throw new Error('Ya estás viendo la aplicación como otro usuario. Termina esa sesión primero.');
+    }
+    if (currentUser.id === userId) {
+        throw new Error('No puedes suplantarte a ti mismo.');
+    }
+    const session = await getSessionFromCookie();
     const db = await connectDb();
-    const user = db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as User | undefined;
+    const target = db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as User | undefined;
+    if (!session || !target) {
+        throw new Error('Usuario no encontrado.');
+    }
+    if (!(await holdsAllPermissionsOfRole(db, currentUser.id, target.role))) {
+        throw new Error(`No puedes ver la aplicación como ${target.name}: su rol tiene permisos que tú no tienes.`);
+    }
 
-    if (!user) {
+    db.prepare('UPDATE sessions SET impersonatedUserId = ? WHERE id = ?').run(target.id, session.id);
+    await logInfo(`Admin '${currentUser.name}' started impersonating user '${target.name}'.`, { userId: target.id });
+    await recordAuditEvent(currentUser, { entityType: 'session', entityId: session.id, action: 'create', after: { impersonatedUserId: target.id, impersonatedUserName: target.name } });
+    return { ...toClientUser(target), impersonatedBy: { id: currentUser.id, name: currentUser.name } };
+}
+
+/**
+ * Ends the impersonation of the current session and returns to the administrator's own account.
+ * Only needs a valid session: the impersonated user may lack every admin permission.
+ * @returns {Promise<User | null>} The administrator, or null if the session is no longer valid.
+ */
+export async function stopImpersonation(): Promise<User | null> {
+    const session = await getSessionFromCookie();
+    if (!session) {
         return null;
     }
-
-    const { password: _, ...userWithoutPassword } = user;
-    return userWithoutPassword as User;
+    const currentUser = await getCurrentUser();
+    const db = await connectDb();
+    db.prepare('UPDATE sessions SET impersonatedUserId = NULL WHERE id = ?').run(session.id);
+    if (currentUser?.impersonatedBy) {
+        await logInfo(`Admin '${currentUser.impersonatedBy.name}' stopped impersonating user '${currentUser.name}'.`, { userId: currentUser.id });
+        await recordAuditEvent(currentUser, { entityType: 'session', entityId: session.id, action: 'delete', before: { impersonatedUserId: currentUser.id, impersonatedUserName: currentUser.name } });
+    }
+    return getCurrentUser();
 }
 
 /**
@@ -407,7 +1319,8 @@ export async function getInitialAuthData() {
 
 /**
  * Handles the password recovery process.
- * Generates a temporary password, updates the user's record, and sends an email.
+ * Generates a temporary password that complies with the password policy and expires after the
+ * configured number of minutes, updates the user's record, and sends an email.
  * @param email - The email of the user requesting recovery.
  * @param clientInfo - Information about the client making the request.
  */
@@ -421,15 +1334,23 @@ export async function sendPasswordRecoveryEmail(email: string, clientInfo: { ip:
         // We don't throw an error to prevent email enumeration attacks. The UI will show a generic message.
         return;
     }
+    if (user.authProvider === 'ldap') {
+        await logWarn(`Password recovery requested for directory user '${user.name}'; their password is managed in LDAP.`, logMeta);
+        return;
+    }
 
-    const tempPassword = Math.random().toString(36).slice(-8);
+    const policy = readPasswordPolicy(db);
+    const tempPassword = generateTemporaryPassword(policy);
     const hashedPassword = await bcrypt.hash(tempPassword, SALT_ROUNDS);
+    const tempPasswordExpiresAt = policy.tempPasswordExpiryMinutes > 0
+        ? new Date(Date.now() + policy.tempPasswordExpiryMinutes * 60 * 1000).toISOString()
+        : null;
 
-    db.prepare('UPDATE users SET password = ?, forcePasswordChange = 1 WHERE id = ?')
-      .run(hashedPassword, user.id);
+    db.prepare('UPDATE users SET password = ?, forcePasswordChange = 1, tempPasswordExpiresAt = ? WHERE id = ?')
+      .run(hashedPassword, tempPasswordExpiresAt, user.id);
 
     try {
-        const emailSettings = await getEmailSettingsFromDb();
+        const emailSettings = await runAsSystem(getEmailSettingsFromDb);
         if (!emailSettings.smtpHost) {
             throw new Error('La configuración de SMTP no está establecida. No se puede enviar el correo.');
         }
@@ -438,11 +1359,12 @@ export async function sendPasswordRecoveryEmail(email: string, clientInfo: { ip:
             .replace('[NOMBRE_USUARIO]', user.name)
             .replace('[CLAVE_TEMPORAL]', tempPassword);
             
-        await sendEmail({
+        // The requester has no session yet, so the email is sent as the system.
+        await runAsSystem(() => sendEmail({
             to: user.email,
             subject: emailSettings.recoveryEmailSubject || 'Recuperación de Contraseña',
             html: emailBody
-        });
+        }));
 
         await logInfo(`Password recovery email sent successfully to ${user.name}.`, logMeta);
     } catch (error: any) {
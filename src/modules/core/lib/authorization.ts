@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Server-side authorization guard for server actions.
+ * Server actions must never trust permissions checked in the browser. Each protected
+ * action calls `authorizeAction` first: it resolves the caller through the session
+ * table, checks the required permission with `hasPermission`, logs every denial and
+ * throws a typed `AuthorizationError` when access is not granted.
+ * This module deliberately has no "use server" directive so its helpers can only be
+ * called from other server code, never invoked directly from the client.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { User } from '@/modules/core/types';
+import { getCurrentUser, hasPermission } from './auth';
+import { logWarn } from './logger';
+
+/**
+ * Error thrown when the caller of a server action is not authenticated
+ * or lacks the permission required to run it.
+ */
+export class AuthorizationError extends Error {
+    readonly action: string;
+    readonly requiredPermissions: string[];
+    readonly userId: number | null;
+
+    constructor(message: string, action: string, requiredPermissions: string[], userId: number | null) {
+        super(message);
+        this.name = 'AuthorizationError';
+        this.action = action;
+        this.requiredPermissions = requiredPermissions;
+        this.userId = userId;
+    }
+}
+
+/**
+ * Pseudo-user returned for trusted server-internal work (e.g., scheduled tasks),
+ * which runs outside of any user request and therefore has no session.
+ */
+export const SYSTEM_USER: User = {
+    id: 0,
+    name: 'Sistema',
+    email: '',
+    phone: '',
+    whatsapp: '',
+    avatar: '',
+    role: 'admin',
+    recentActivity: '',
+};
+
+const systemContext = new AsyncLocalStorage<boolean>();
+
+/**
+ * Caller of an `/api/v1` request, authenticated with a personal API token instead of a session.
+ */
+export type ApiTokenCaller = {
+    user: User;
+    tokenId: number;
+    permissions: string[];
+};
+
+const apiTokenContext = new AsyncLocalStorage<ApiTokenCaller>();
+
+const userContext = new AsyncLocalStorage<User>();
+
+/**
+ * Runs a function as the system, bypassing session checks for every guarded
+ * action it calls. Only reachable from server code, e.g. the cron runner.
+ * @param fn - The work to run.
+ * @returns The result of `fn`.
+ */
+export function runAsSystem<T>(fn: () => Promise<T>): Promise<T> {
+    return systemContext.run(true, fn);
+}
+
+/**
+ * Runs a function on behalf of the owner of an API token. Guarded actions called inside
+ * resolve to the token owner and are only allowed for permissions that both the owner
+ * and the token hold.
+ * @param caller - The authenticated token and its owner.
+ * @param fn - The work to run.
+ * @returns The result of `fn`.
+ */
+export function runWithApiToken<T>(caller: ApiTokenCaller, fn: () => Promise<T>): Promise<T> {
+    return apiTokenContext.run(caller, fn);
+}
+
+/**
+ * Runs a function on behalf of a user identified outside of a browser session
+ * (e.g. a Telegram chat linked to the account). Guarded actions called inside
+ * resolve to that user and are checked against their own permissions.
+ * @param user - The user to act as.
+ * @param fn - The work to run.
+ * @returns The result of `fn`.
+ */
+export function runAsUser<T>(user: User, fn: () => Promise<T>): Promise<T> {
+    // Leave any enclosing system context, so the user's permissions are really checked.
+    return systemContext.run(false, () => userContext.run(user, fn));
+}
+
+/**
+ * Ensures the current caller may run a server action.
+ * When several permissions are given, holding any one of them is enough.
+ * With no permissions, only a valid session is required.
+ * Inside `runWithApiToken`, the token owner is the caller and the token must also hold the permission.
+ * @param action - The name of the action being guarded, used for logging.
+ * @param permissions - The permission (or alternative permissions) required.
+ * @returns The authenticated user.
+ * @throws {AuthorizationError} If there is no valid session or the permission is missing.
+ */
+export async function authorizeAction(action: string, permissions: string | string[] = []): Promise<User> {
+    if (systemContext.getStore()) {
+        return SYSTEM_USER;
+    }
+
+    const requiredPermissions = Array.isArray(permissions) ? permissions : [permissions];
+    const apiCaller = apiTokenContext.getStore();
+    const user = apiCaller ? apiCaller.user : userContext.getStore() ?? await getCurrentUser();
+
+    if (!user) {
+        await logWarn(`Authorization denied for '${action}': no valid session.`, { action, requiredPermissions });
+        throw new AuthorizationError('Tu sesión no es válida o ha expirado. Inicia sesión de nuevo.', action, requiredPermissions, null);
+    }
+
+    if (requiredPermissions.length === 0) {
+        return user;
+    }
+
+    for (const permission of requiredPermissions) {
+        if (apiCaller && !apiCaller.permissions.includes(permission)) {
+            continue;
+        }
+        if (await hasPermission(user.id, permission)) {
+            return user;
+        }
+    }
+
+    await logWarn(`Authorization denied for '${action}': user '${user.name}' lacks the required permission.`, { action, userId: user.id, role: user.role, requiredPermissions, apiTokenId: apiCaller?.tokenId });
+    throw new AuthorizationError('No tienes permiso para realizar esta acción.', action, requiredPermissions, user.id);
+}
+
+/**
+ * Ensures the current caller is the owner of a per-user resource
+ * (preferences, notifications, etc.), identified by the user ID the client sent.
+ * @param action - The name of the action being guarded, used for logging.
+ * @param ownerId - The user ID the action claims to act on.
+ * @returns The authenticated user.
+ * @throws {AuthorizationError} If there is no valid session or the IDs do not match.
+ */
+export async function authorizeOwner(action: string, ownerId: number): Promise<User> {
+    const user = await authorizeAction(action);
+    if (user === SYSTEM_USER || user.id === ownerId) {
+        return user;
+    }
+
+    await logWarn(`Authorization denied for '${action}': user '${user.name}' tried to act on behalf of user ID ${ownerId}.`, { action, userId: user.id, ownerId });
+    throw new AuthorizationError('No tienes permiso para realizar esta acción.', action, [], user.id);
+}
+
+/**
+ * Returns the name to record as the author of a change in history tables.
+ * During an impersonation session both people are credited ("Ana actuando como Luis"),
+ * so work done while supporting a user is never mistaken for the user's own.
+ * @param user - The authenticated user returned by `authorizeAction`.
+ * @param reportedName - The author name sent by the client, kept outside impersonation.
+ * @returns The author name to store.
+ */
+export function getActorName(user: User, reportedName?: string): string {
+    if (user.impersonatedBy) {
+        return `${user.impersonatedBy.name} actuando como ${user.name}`;
+    }
+    return reportedName || user.name;
+}
+
+/**
+ * Refuses actions on the user's own credentials (password, second factor) while an
+ * administrator is impersonating them; those must only ever be changed by the user.
+ * @param user - The authenticated user returned by `authorizeAction`.
+ * @param action - The name of the action being guarded, used for logging.
+ * @throws {AuthorizationError} If the session is an impersonation session.
+ */
+export async function assertNotImpersonating(user: User, action: string): Promise<void> {
+    if (!user.impersonatedBy) {
+        return;
+    }
+    await logWarn(`Authorization denied for '${action}': not allowed while impersonating.`, { action, userId: user.id, impersonatorId: user.impersonatedBy.id });
+    throw new AuthorizationError('Esta acción no está disponible mientras ves la aplicación como otro usuario.', action, [], user.id);
+}
@@ -8,12 +8,14 @@
 
 import { connectDb } from '@/modules/core/lib/db';
 import type { SqlConfig } from '@/modules/core/types';
+import { authorizeAction } from '@/modules/core/lib/authorization';
 
 /**
  * Retrieves the SQL Server connection configuration from the database.
  * @returns {Promise<SqlConfig | null>} The SQL configuration object, or null if not found.
  */
 export async function getSqlConfig(): Promise<SqlConfig | null> {
+    await authorizeAction('getSqlConfig', 'admin:import:sql-config');
     const db = await connectDb();
     try {
         const rows = db.prepare('SELECT key, value FROM sql_config').all() as {key: string, value: string}[];
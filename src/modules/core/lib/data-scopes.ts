@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Row-level data scopes of users.
+ * Permissions decide which screens and actions a user can use; scopes narrow down which
+ * rows those screens return: a checker limited to some dispatch containers, a seller limited
+ * to the customers whose salesperson (VENDEDOR) matches their ERP alias, or a warehouse clerk
+ * limited to a subtree of locations. Scopes are stored as JSON in `users.dataScopes` and are
+ * applied by the server-side queries, never by the client.
+ * This module has no "use server" directive; it is only imported by server-side code.
+ */
+
+import type { User, UserDataScopes } from '@/modules/core/types';
+import { connectDb } from './db';
+
+/**
+ * Reads the scopes stored for a user, tolerating empty or malformed values.
+ * @param value - The stored JSON, or scopes already parsed.
+ * @returns The scopes; an empty object when the user is unrestricted.
+ */
+export function parseDataScopes(value: string | UserDataScopes | null | undefined): UserDataScopes {
+    if (!value) return {};
+    if (typeof value !== 'string') return value;
+    try {
+        return JSON.parse(value) as UserDataScopes;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Drops empty restrictions before storing a user's scopes.
+ * @param scopes - The scopes as edited by an administrator.
+ * @returns The JSON to store, or null when no restriction remains.
+ */
+export function serializeDataScopes(scopes: UserDataScopes | null | undefined): string | null {
+    const normalized: UserDataScopes = {};
+    if (scopes?.dispatchContainerIds?.length) normalized.dispatchContainerIds = [...new Set(scopes.dispatchContainerIds)];
+    if (scopes?.ownCustomersOnly) normalized.ownCustomersOnly = true;
+    if (scopes?.locationIds?.length) normalized.locationIds = [...new Set(scopes.locationIds)];
+    return Object.keys(normalized).length > 0 ? JSON.stringify(normalized) : null;
+}
+
+/**
+ * Resolves the customers a user may see.
+ * A seller restricted to their own customers without an ERP alias sees none.
+ * @param user - The authenticated user.
+ * @returns The allowed customer IDs, or null when the user is not restricted by customer.
+ */
+export async function getScopedCustomerIds(user: User): Promise<string[] | null> {
+    if (!user.dataScopes?.ownCustomersOnly) return null;
+    const alias = user.erpAlias?.trim();
+    if (!alias) return [];
+    const db = await connectDb();
+    const rows = db.prepare('SELECT id FROM customers WHERE salesperson = ? COLLATE NOCASE').all(alias) as { id: string }[];
+    return rows.map(row => row.id);
+}
+
+/**
+ * @param user - The authenticated user.
+ * @returns The dispatch containers the user may see, or null when unrestricted.
+ */
+export function getScopedContainerIds(user: User): number[] | null {
+    return user.dataScopes?.dispatchContainerIds?.length ? user.dataScopes.dispatchContainerIds : null;
+}
+
+/**
+ * @param user - The authenticated user.
+ * @returns The root locations of the subtrees the user may see, or null when unrestricted.
+ */
+export function getScopedLocationIds(user: User): number[] | null {
+    return user.dataScopes?.locationIds?.length ? user.dataScopes.locationIds : null;
+}
+
+/**
+ * Builds a SQL condition restricting a column to the values allowed by a scope.
+ * @param column - The (trusted) column to restrict.
+ * @param values - The allowed values.
+ * @returns The condition and its parameters; an empty scope matches no rows.
+ */
+export function buildScopeCondition<T extends string | number>(column: string, values: T[]): { clause: string; params: T[] } {
+    if (values.length === 0) {
+        return { clause: '1 = 0', params: [] };
+    }
+    return { clause: `${column} IN (${values.map(() => '?').join(',')})`, params: values };
+}
@@ -45,6 +45,8 @@ import {
   FileSearch,
   RotateCcw,
   Printer,
+  KeyRound,
+  History,
 } from "lucide-react";
 import { allAdminPermissions } from "./permissions";
 
@@ -71,6 +73,18 @@ export const initialCompany: Company = {
     quoterShowTaxId: true,
     searchDebounceTime: 500,
     syncWarningHours: 12,
+    loginMaxAttempts: 5,
+    loginDelayAfterAttempts: 3,
+    loginLockoutMinutes: 15,
+    loginIpMaxAttempts: 20,
+    passwordMinLength: 8,
+    passwordRequireUppercase: false,
+    passwordRequireLowercase: false,
+    passwordRequireNumber: false,
+    passwordRequireSymbol: false,
+    passwordMaxAgeDays: 0,
+    passwordHistoryCount: 3,
+    tempPasswordExpiryMinutes: 60,
     importMode: 'file',
     lastSyncTimestamp: null,
     customerFilePath: "",
@@ -297,6 +311,14 @@ export const adminTools: Tool[] = [
         icon: Mail,
         bgColor: 'bg-purple-600',
       },
+      {
+        id: "admin:settings:ldap",
+        name: "Directorio (LDAP)",
+        description: "Inicio de sesión con LDAP / Active Directory y mapeo de grupos a roles.",
+        href: "/dashboard/admin/ldap",
+        icon: KeyRound,
+        bgColor: 'bg-slate-600',
+      },
       {
         id: "admin:notifications:read",
         name: "Gestor de Notificaciones",
@@ -384,6 +406,14 @@ export const adminTools: Tool[] = [
         href: "/dashboard/admin/logs",
         icon: FileTerminal,
         bgColor: 'bg-slate-500',
+      },
+      {
+        id: "admin:audit:read",
+        name: "Auditoría de Cambios",
+        description: "Consultar quién cambió usuarios, roles y configuraciones.",
+        href: "/dashboard/admin/audit",
+        icon: History,
+        bgColor: 'bg-stone-500',
       }
 ];
 
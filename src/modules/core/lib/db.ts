@@ -9,12 +9,18 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { initialCompany, initialRoles } from './data';
+import { validateRoleHierarchy, withRequiredParentPermissions } from './permissions';
 import { DB_MODULES } from './db-modules';
-import type { Company, LogEntry, ApiSettings, User, Product, Customer, Role, QuoteDraft, DatabaseModule, Exemption, ExemptionLaw, StockInfo, StockSettings, ImportQuery, ItemLocation, UpdateBackupInfo, Suggestion, DateRange, Supplier, ErpOrderHeader, ErpOrderLine, Notification, UserPreferences, AuditResult, ErpPurchaseOrderHeader, ErpPurchaseOrderLine, SqlConfig, ProductionOrder, WizardSession, ErpInvoiceHeader, ErpInvoiceLine, Empleado, Vehiculo } from '@/modules/core/types';
+import { IMPORT_TYPES, IMPORT_TYPE_LABELS, INCREMENTAL_IMPORT_TABLES, SINCE_PLACEHOLDER, DEFAULT_FULL_SYNC_INTERVAL_HOURS } from './import-types';
+import { mainDbSchema } from './schema';
+import type { Company, LogEntry, ApiSettings, User, Product, Customer, Role, QuoteDraft, DatabaseModule, Exemption, ExemptionLaw, StockInfo, StockSettings, ImportQuery, ItemLocation, UpdateBackupInfo, Suggestion, DateRange, Supplier, ErpOrderHeader, ErpOrderLine, Notification, UserPreferences, AuditResult, ErpPurchaseOrderHeader, ErpPurchaseOrderLine, SqlConfig, ImportSyncState, ImportSyncMode, SyncRun, ProductionOrder, WizardSession, ErpInvoiceHeader, ErpInvoiceLine, Empleado, Vehiculo } from '@/modules/core/types';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import Papa from 'papaparse';
 import { executeQuery } from './sql-service';
 import { logInfo, logWarn, logError } from './logger';
+import { authorizeAction, authorizeOwner } from './authorization';
+import { recordAuditEvent, recordAuditCollectionChanges, readKeyValueSnapshot } from './audit';
 import { headers, cookies } from 'next/headers';
 import { getExchangeRate, getEmailSettings } from './api-actions';
 import { NewUserSchema, UserSchema } from './auth-schemas';
@@ -25,6 +31,7 @@ import { initializeRequestsDb, runRequestMigrations } from '../../requests/lib/d
 import { initializeWarehouseDb, runWarehouseMigrations } from '../../warehouse/lib/db-init';
 import { initializeCostAssistantDb, runCostAssistantMigrations } from '../../cost-assistant/lib/db';
 import { initializeNotificationsDb, runNotificationsMigrations } from '../../notifications/lib/db';
+import { triggerNotificationEvent } from '../../notifications/lib/notifications-engine';
 import { reformatEmployeeName } from '@/lib/utils';
 import { renderLocationPathAsString } from '@/modules/warehouse/lib/utils';
 
@@ -33,6 +40,7 @@ const SALT_ROUNDS = 10;
 const CABYS_FILE_PATH = path.join(process.cwd(), 'docs', 'Datos', 'cabys.csv');
 const UPDATE_BACKUP_DIR = 'update_backups';
 const VERSION_FILE_PATH = path.join(process.cwd(), 'package.json');
+const IMPORT_PERMISSIONS = ['admin:import:run', 'admin:import:files', 'admin:import:sql'];
 
 /**
  * Initializes the main database with all core system tables.
@@ -55,18 +63,30 @@ export async function initializeMainDatabase(db: import('better-sqlite3').Databa
             securityQuestion TEXT,
             securityAnswer TEXT,
             forcePasswordChange BOOLEAN DEFAULT FALSE,
-            activeWizardSession TEXT
+            activeWizardSession TEXT,
+            totpSecret TEXT,
+            totpEnabled BOOLEAN DEFAULT FALSE,
+            totpRecoveryCodes TEXT,
+            passwordChangedAt TEXT,
+            tempPasswordExpiresAt TEXT,
+            authProvider TEXT DEFAULT 'local',
+            dataScopes TEXT
         );
         CREATE TABLE IF NOT EXISTS roles (
             id TEXT PRIMARY KEY,
             name TEXT NOT NULL,
-            permissions TEXT NOT NULL
+            permissions TEXT NOT NULL,
+            requireTwoFactor BOOLEAN DEFAULT FALSE,
+            inheritsFrom TEXT DEFAULT '[]'
         );
         CREATE TABLE IF NOT EXISTS company_settings (
             id INTEGER PRIMARY KEY,
             name TEXT, taxId TEXT, address TEXT, phone TEXT, email TEXT, logoUrl TEXT,
             systemName TEXT, publicUrl TEXT, quotePrefix TEXT, nextQuoteNumber INTEGER, decimalPlaces INTEGER, quoterShowTaxId BOOLEAN,
             searchDebounceTime INTEGER, syncWarningHours REAL, lastSyncTimestamp TEXT,
+            loginMaxAttempts INTEGER DEFAULT 5, loginDelayAfterAttempts INTEGER DEFAULT 3, loginLockoutMinutes INTEGER DEFAULT 15, loginIpMaxAttempts INTEGER DEFAULT 20,
+            passwordMinLength INTEGER DEFAULT 8, passwordRequireUppercase BOOLEAN DEFAULT FALSE, passwordRequireLowercase BOOLEAN DEFAULT FALSE, passwordRequireNumber BOOLEAN DEFAULT FALSE, passwordRequireSymbol BOOLEAN DEFAULT FALSE,
+            passwordMaxAgeDays INTEGER DEFAULT 0, passwordHistoryCount INTEGER DEFAULT 3, tempPasswordExpiryMinutes INTEGER DEFAULT 60,
             importMode TEXT, customerFilePath TEXT, productFilePath TEXT, exemptionFilePath TEXT, stockFilePath TEXT, locationFilePath TEXT, cabysFilePath TEXT, supplierFilePath TEXT,
             erpPurchaseOrderHeaderFilePath TEXT, erpPurchaseOrderLineFilePath TEXT, erpInvoiceHeaderFilePath TEXT, erpInvoiceLineFilePath TEXT
         );
@@ -86,11 +106,17 @@ export async function initializeMainDatabase(db: import('better-sqlite3').Databa
         CREATE TABLE IF NOT EXISTS cabys_catalog (code TEXT PRIMARY KEY, description TEXT, taxRate REAL);
         CREATE TABLE IF NOT EXISTS stock (itemId TEXT PRIMARY KEY, stockByWarehouse TEXT, totalStock REAL);
         CREATE TABLE IF NOT EXISTS sql_config (key TEXT PRIMARY KEY, value TEXT);
-        CREATE TABLE IF NOT EXISTS import_queries (type TEXT PRIMARY KEY, query TEXT);
+        CREATE TABLE IF NOT EXISTS import_queries (type TEXT PRIMARY KEY, query TEXT, watermarkColumn TEXT, fullSyncIntervalHours INTEGER);
+        CREATE TABLE IF NOT EXISTS sync_runs (id INTEGER PRIMARY KEY AUTOINCREMENT, runId TEXT NOT NULL, type TEXT NOT NULL, source TEXT NOT NULL, mode TEXT, triggeredBy TEXT NOT NULL, startedAt TEXT NOT NULL, durationMs INTEGER NOT NULL, status TEXT NOT NULL, rowCount INTEGER, insertedCount INTEGER, updatedCount INTEGER, deletedCount INTEGER, deactivatedCount INTEGER, reactivatedCount INTEGER, error TEXT);
+        CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs (startedAt);
+        CREATE TABLE IF NOT EXISTS import_sync_state (type TEXT PRIMARY KEY, lastSyncAt TEXT NOT NULL, lastSyncMode TEXT NOT NULL, lastWatermark TEXT, lastRowCount INTEGER NOT NULL DEFAULT 0, lastDeletedCount INTEGER NOT NULL DEFAULT 0, lastFullSyncAt TEXT);
         CREATE TABLE IF NOT EXISTS suggestions (id INTEGER PRIMARY KEY AUTOINCREMENT, content TEXT, userId INTEGER, userName TEXT, isRead INTEGER DEFAULT 0, timestamp TEXT);
         CREATE TABLE IF NOT EXISTS user_preferences (userId INTEGER NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (userId, key));
         CREATE TABLE IF NOT EXISTS notifications (id INTEGER PRIMARY KEY AUTOINCREMENT, userId INTEGER NOT NULL, message TEXT NOT NULL, href TEXT, isRead INTEGER DEFAULT 0, timestamp TEXT NOT NULL, entityId INTEGER, entityType TEXT, taskType TEXT, entityStatus TEXT, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);
         CREATE TABLE IF NOT EXISTS email_settings (key TEXT PRIMARY KEY, value TEXT);
+        CREATE TABLE IF NOT EXISTS ldap_settings (key TEXT PRIMARY KEY, value TEXT);
+        CREATE TABLE IF NOT EXISTS audit_events (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp TEXT NOT NULL, actorId INTEGER, actorName TEXT NOT NULL, entityType TEXT NOT NULL, entityId TEXT NOT NULL, action TEXT NOT NULL, changes TEXT NOT NULL);
+        CREATE INDEX IF NOT EXISTS idx_audit_events_timestamp ON audit_events (timestamp);
         CREATE TABLE IF NOT EXISTS suppliers (id TEXT PRIMARY KEY, name TEXT, alias TEXT, email TEXT, phone TEXT);
         CREATE TABLE IF NOT EXISTS erp_order_headers (PEDIDO TEXT PRIMARY KEY, ESTADO TEXT, CLIENTE TEXT, FECHA_PEDIDO TEXT, FECHA_PROMETIDA TEXT, ORDEN_COMPRA TEXT, TOTAL_UNIDADES REAL, MONEDA_PEDIDO TEXT, USUARIO TEXT);
         CREATE TABLE IF NOT EXISTS erp_order_lines (PEDIDO TEXT, PEDIDO_LINEA INTEGER, ARTICULO TEXT, CANTIDAD_PEDIDA REAL, PRECIO_UNITARIO REAL, PRIMARY KEY (PEDIDO, PEDIDO_LINEA));
@@ -106,6 +132,11 @@ export async function initializeMainDatabase(db: import('better-sqlite3').Databa
         CREATE TABLE IF NOT EXISTS departamentos (DEPARTAMENTO TEXT PRIMARY KEY, DESCRIPCION TEXT, ACTIVO TEXT);
         CREATE TABLE IF NOT EXISTS empleados (EMPLEADO TEXT PRIMARY KEY, NOMBRE TEXT, ACTIVO TEXT, DEPARTAMENTO TEXT, PUESTO TEXT, NOMINA TEXT);
         CREATE TABLE IF NOT EXISTS vehiculos (placa TEXT PRIMARY KEY, marca TEXT);
+        CREATE TABLE IF NOT EXISTS sessions (id INTEGER PRIMARY KEY AUTOINCREMENT, tokenHash TEXT UNIQUE NOT NULL, userId INTEGER NOT NULL, createdAt TEXT NOT NULL, expiresAt TEXT NOT NULL, lastSeenAt TEXT NOT NULL, ip TEXT, userAgent TEXT, impersonatedUserId INTEGER, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);
+        CREATE TABLE IF NOT EXISTS login_attempts (id INTEGER PRIMARY KEY AUTOINCREMENT, scope TEXT NOT NULL, identifier TEXT NOT NULL, failedCount INTEGER NOT NULL DEFAULT 0, lastFailedAt TEXT NOT NULL, lockedUntil TEXT, UNIQUE (scope, identifier));
+        CREATE TABLE IF NOT EXISTS password_history (id INTEGER PRIMARY KEY AUTOINCREMENT, userId INTEGER NOT NULL, passwordHash TEXT NOT NULL, createdAt TEXT NOT NULL, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);
+        CREATE TABLE IF NOT EXISTS api_tokens (id INTEGER PRIMARY KEY AUTOINCREMENT, userId INTEGER NOT NULL, name TEXT NOT NULL, tokenHash TEXT UNIQUE NOT NULL, tokenPrefix TEXT NOT NULL, permissions TEXT NOT NULL, createdAt TEXT NOT NULL, expiresAt TEXT, lastUsedAt TEXT, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);
+        CREATE TABLE IF NOT EXISTS two_factor_challenges (id INTEGER PRIMARY KEY AUTOINCREMENT, tokenHash TEXT UNIQUE NOT NULL, userId INTEGER NOT NULL, expiresAt TEXT NOT NULL, attempts INTEGER NOT NULL DEFAULT 0, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);
     `;
     db.exec(schema);
 
@@ -318,6 +349,40 @@ async function checkAndApplyMigrations(db: import('better-sqlite3').Database) {
             db.exec(`ALTER TABLE users ADD COLUMN activeWizardSession TEXT`);
         }
 
+        if (!userColumns.has('totpEnabled')) {
+            console.log("MIGRATION: Adding two-factor authentication columns to users table.");
+            db.exec(`ALTER TABLE users ADD COLUMN totpSecret TEXT`);
+            db.exec(`ALTER TABLE users ADD COLUMN totpEnabled BOOLEAN DEFAULT FALSE`);
+            db.exec(`ALTER TABLE users ADD COLUMN totpRecoveryCodes TEXT`);
+        }
+
+        if (!userColumns.has('passwordChangedAt')) {
+            console.log("MIGRATION: Adding password policy columns to users table.");
+            db.exec(`ALTER TABLE users ADD COLUMN passwordChangedAt TEXT`);
+            db.exec(`ALTER TABLE users ADD COLUMN tempPasswordExpiresAt TEXT`);
+            // Existing passwords start their maximum age from the moment the policy is introduced.
+            db.prepare(`UPDATE users SET passwordChangedAt = ?`).run(new Date().toISOString());
+        }
+
+        if (!userColumns.has('authProvider')) {
+            console.log("MIGRATION: Adding authProvider to users table.");
+            db.exec(`ALTER TABLE users ADD COLUMN authProvider TEXT DEFAULT 'local'`);
+        }
+        if (!userColumns.has('dataScopes')) {
+            console.log("MIGRATION: Adding dataScopes to users table.");
+            db.exec(`ALTER TABLE users ADD COLUMN dataScopes TEXT`);
+        }
+
+        const rolesTableInfo = db.prepare(`PRAGMA table_info(roles)`).all() as { name: string }[];
+        if (!rolesTableInfo.some(c => c.name === 'requireTwoFactor')) {
+            console.log("MIGRATION: Adding requireTwoFactor to roles table.");
+            db.exec(`ALTER TABLE roles ADD COLUMN requireTwoFactor BOOLEAN DEFAULT FALSE`);
+        }
+        if (!rolesTableInfo.some(c => c.name === 'inheritsFrom')) {
+            console.log("MIGRATION: Adding inheritsFrom to roles table.");
+            db.exec(`ALTER TABLE roles ADD COLUMN inheritsFrom TEXT DEFAULT '[]'`);
+        }
+
         const companyTableInfo = db.prepare(`PRAGMA table_info(company_settings)`).all() as { name: string }[];
         const companyColumns = new Set(companyTableInfo.map(c => c.name));
         
@@ -346,6 +411,18 @@ async function checkAndApplyMigrations(db: import('better-sqlite3').Database) {
         if (!companyColumns.has('logoUrl')) db.exec(`ALTER TABLE company_settings ADD COLUMN logoUrl TEXT`);
         if (!companyColumns.has('searchDebounceTime')) db.exec(`ALTER TABLE company_settings ADD COLUMN searchDebounceTime INTEGER DEFAULT 500`);
         if (!companyColumns.has('lastSyncTimestamp')) db.exec(`ALTER TABLE company_settings ADD COLUMN lastSyncTimestamp TEXT`);
+        if (!companyColumns.has('loginMaxAttempts')) db.exec(`ALTER TABLE company_settings ADD COLUMN loginMaxAttempts INTEGER DEFAULT 5`);
+        if (!companyColumns.has('loginDelayAfterAttempts')) db.exec(`ALTER TABLE company_settings ADD COLUMN loginDelayAfterAttempts INTEGER DEFAULT 3`);
+        if (!companyColumns.has('loginLockoutMinutes')) db.exec(`ALTER TABLE company_settings ADD COLUMN loginLockoutMinutes INTEGER DEFAULT 15`);
+        if (!companyColumns.has('loginIpMaxAttempts')) db.exec(`ALTER TABLE company_settings ADD COLUMN loginIpMaxAttempts INTEGER DEFAULT 20`);
+        if (!companyColumns.has('passwordMinLength')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordMinLength INTEGER DEFAULT 8`);
+        if (!companyColumns.has('passwordRequireUppercase')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordRequireUppercase BOOLEAN DEFAULT FALSE`);
+        if (!companyColumns.has('passwordRequireLowercase')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordRequireLowercase BOOLEAN DEFAULT FALSE`);
+        if (!companyColumns.has('passwordRequireNumber')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordRequireNumber BOOLEAN DEFAULT FALSE`);
+        if (!companyColumns.has('passwordRequireSymbol')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordRequireSymbol BOOLEAN DEFAULT FALSE`);
+        if (!companyColumns.has('passwordMaxAgeDays')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordMaxAgeDays INTEGER DEFAULT 0`);
+        if (!companyColumns.has('passwordHistoryCount')) db.exec(`ALTER TABLE company_settings ADD COLUMN passwordHistoryCount INTEGER DEFAULT 3`);
+        if (!companyColumns.has('tempPasswordExpiryMinutes')) db.exec(`ALTER TABLE company_settings ADD COLUMN tempPasswordExpiryMinutes INTEGER DEFAULT 60`);
 
         const productsTableInfo = db.prepare(`PRAGMA table_info(products)`).all() as { name: string }[];
         const productColumns = new Set(productsTableInfo.map(c => c.name));
@@ -484,6 +561,64 @@ async function checkAndApplyMigrations(db: import('better-sqlite3').Database) {
             console.log("MIGRATION: Creating vehiculos table.");
             db.exec(`CREATE TABLE vehiculos (placa TEXT PRIMARY KEY, marca TEXT);`);
         }
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='sessions'`).get()) {
+            console.log("MIGRATION: Creating sessions table.");
+            db.exec(`CREATE TABLE sessions (id INTEGER PRIMARY KEY AUTOINCREMENT, tokenHash TEXT UNIQUE NOT NULL, userId INTEGER NOT NULL, createdAt TEXT NOT NULL, expiresAt TEXT NOT NULL, lastSeenAt TEXT NOT NULL, ip TEXT, userAgent TEXT, impersonatedUserId INTEGER, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);`);
+        }
+        const sessionColumns = new Set((db.prepare(`PRAGMA table_info(sessions)`).all() as { name: string }[]).map(c => c.name));
+        if (!sessionColumns.has('impersonatedUserId')) {
+            console.log("MIGRATION: Adding impersonatedUserId column to sessions.");
+            db.exec(`ALTER TABLE sessions ADD COLUMN impersonatedUserId INTEGER`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='login_attempts'`).get()) {
+            console.log("MIGRATION: Creating login_attempts table.");
+            db.exec(`CREATE TABLE login_attempts (id INTEGER PRIMARY KEY AUTOINCREMENT, scope TEXT NOT NULL, identifier TEXT NOT NULL, failedCount INTEGER NOT NULL DEFAULT 0, lastFailedAt TEXT NOT NULL, lockedUntil TEXT, UNIQUE (scope, identifier));`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='password_history'`).get()) {
+            console.log("MIGRATION: Creating password_history table.");
+            db.exec(`CREATE TABLE password_history (id INTEGER PRIMARY KEY AUTOINCREMENT, userId INTEGER NOT NULL, passwordHash TEXT NOT NULL, createdAt TEXT NOT NULL, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='two_factor_challenges'`).get()) {
+            console.log("MIGRATION: Creating two_factor_challenges table.");
+            db.exec(`CREATE TABLE two_factor_challenges (id INTEGER PRIMARY KEY AUTOINCREMENT, tokenHash TEXT UNIQUE NOT NULL, userId INTEGER NOT NULL, expiresAt TEXT NOT NULL, attempts INTEGER NOT NULL DEFAULT 0, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='ldap_settings'`).get()) {
+            console.log("MIGRATION: Creating ldap_settings table.");
+            db.exec(`CREATE TABLE ldap_settings (key TEXT PRIMARY KEY, value TEXT);`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='audit_events'`).get()) {
+            console.log("MIGRATION: Creating audit_events table.");
+            db.exec(`CREATE TABLE audit_events (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp TEXT NOT NULL, actorId INTEGER, actorName TEXT NOT NULL, entityType TEXT NOT NULL, entityId TEXT NOT NULL, action TEXT NOT NULL, changes TEXT NOT NULL);`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_audit_events_timestamp ON audit_events (timestamp);`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='api_tokens'`).get()) {
+            console.log("MIGRATION: Creating api_tokens table.");
+            db.exec(`CREATE TABLE api_tokens (id INTEGER PRIMARY KEY AUTOINCREMENT, userId INTEGER NOT NULL, name TEXT NOT NULL, tokenHash TEXT UNIQUE NOT NULL, tokenPrefix TEXT NOT NULL, permissions TEXT NOT NULL, createdAt TEXT NOT NULL, expiresAt TEXT, lastUsedAt TEXT, FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE);`);
+        }
+
+        const importQueryColumns = new Set((db.prepare(`PRAGMA table_info(import_queries)`).all() as { name: string }[]).map(c => c.name));
+        if (!importQueryColumns.has('watermarkColumn')) {
+            console.log("MIGRATION: Adding incremental sync columns to import_queries.");
+            db.exec(`ALTER TABLE import_queries ADD COLUMN watermarkColumn TEXT`);
+            db.exec(`ALTER TABLE import_queries ADD COLUMN fullSyncIntervalHours INTEGER`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='import_sync_state'`).get()) {
+            console.log("MIGRATION: Creating import_sync_state table.");
+            db.exec(`CREATE TABLE import_sync_state (type TEXT PRIMARY KEY, lastSyncAt TEXT NOT NULL, lastSyncMode TEXT NOT NULL, lastWatermark TEXT, lastRowCount INTEGER NOT NULL DEFAULT 0, lastDeletedCount INTEGER NOT NULL DEFAULT 0, lastFullSyncAt TEXT);`);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='sync_runs'`).get()) {
+            console.log("MIGRATION: Creating sync_runs table.");
+            db.exec(`CREATE TABLE sync_runs (id INTEGER PRIMARY KEY AUTOINCREMENT, runId TEXT NOT NULL, type TEXT NOT NULL, source TEXT NOT NULL, mode TEXT, triggeredBy TEXT NOT NULL, startedAt TEXT NOT NULL, durationMs INTEGER NOT NULL, status TEXT NOT NULL, rowCount INTEGER, insertedCount INTEGER, updatedCount INTEGER, deletedCount INTEGER, deactivatedCount INTEGER, reactivatedCount INTEGER, error TEXT);`);
+            db.exec(`CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs (startedAt);`);
+        }
 
 
     } catch (error) {
@@ -511,6 +646,11 @@ export async function getCompanySettings(): Promise<Company | null> {
             // Manually handle boolean conversion from integer
             settings.quoterShowTaxId = Boolean(settings.quoterShowTaxId);
         }
+        if (settings) {
+            for (const key of ['passwordRequireUppercase', 'passwordRequireLowercase', 'passwordRequireNumber', 'passwordRequireSymbol']) {
+                settings[key] = Boolean(settings[key]);
+            }
+        }
         // Use JSON.parse(JSON.stringify()) to serialize and deserialize the data, converting Date objects to strings
         return settings ? JSON.parse(JSON.stringify(settings)) : null;
     } catch (error) {
@@ -531,7 +671,14 @@ export async function getPublicUrl(): Promise<{ publicUrl: string | undefined }
 }
 
 export async function saveCompanySettings(settings: Company): Promise<void> {
+    const actor = await authorizeAction('saveCompanySettings', ['admin:settings:general', 'admin:import:run', 'quotes:create']);
     const db = await connectDb();
+    // The sync timestamp is bookkeeping written by every import; it is left out of the audit trail.
+    const readAuditedCompanySettings = () => {
+        const { lastSyncTimestamp: _lastSyncTimestamp, ...audited } = (db.prepare('SELECT * FROM company_settings WHERE id = 1').get() || {}) as Record<string, unknown>;
+        return audited;
+    };
+    const before = readAuditedCompanySettings();
 
     const transaction = db.transaction((settingsToSave) => {
         const currentSettings = db.prepare('SELECT * FROM company_settings WHERE id = 1').get() as Company | undefined;
@@ -541,6 +688,10 @@ export async function saveCompanySettings(settings: Company): Promise<void> {
 
         // Ensure boolean is saved as number
         (finalSettings as any).quoterShowTaxId = finalSettings.quoterShowTaxId ? 1 : 0;
+        (finalSettings as any).passwordRequireUppercase = finalSettings.passwordRequireUppercase ? 1 : 0;
+        (finalSettings as any).passwordRequireLowercase = finalSettings.passwordRequireLowercase ? 1 : 0;
+        (finalSettings as any).passwordRequireNumber = finalSettings.passwordRequireNumber ? 1 : 0;
+        (finalSettings as any).passwordRequireSymbol = finalSettings.passwordRequireSymbol ? 1 : 0;
         
         const stmt = db.prepare(`
             UPDATE company_settings SET 
@@ -552,7 +703,13 @@ export async function saveCompanySettings(settings: Company): Promise<void> {
                 supplierFilePath = @supplierFilePath, erpPurchaseOrderHeaderFilePath = @erpPurchaseOrderHeaderFilePath,
                 erpPurchaseOrderLineFilePath = @erpPurchaseOrderLineFilePath, erpInvoiceHeaderFilePath = @erpInvoiceHeaderFilePath,
                 erpInvoiceLineFilePath = @erpInvoiceLineFilePath,
-                importMode = @importMode, lastSyncTimestamp = @lastSyncTimestamp, quoterShowTaxId = @quoterShowTaxId, syncWarningHours = @syncWarningHours
+                importMode = @importMode, lastSyncTimestamp = @lastSyncTimestamp, quoterShowTaxId = @quoterShowTaxId, syncWarningHours = @syncWarningHours,
+                loginMaxAttempts = @loginMaxAttempts, loginDelayAfterAttempts = @loginDelayAfterAttempts,
+                loginLockoutMinutes = @loginLockoutMinutes, loginIpMaxAttempts = @loginIpMaxAttempts,
+                passwordMinLength = @passwordMinLength, passwordRequireUppercase = @passwordRequireUppercase,
+                passwordRequireLowercase = @passwordRequireLowercase, passwordRequireNumber = @passwordRequireNumber,
+                passwordRequireSymbol = @passwordRequireSymbol, passwordMaxAgeDays = @passwordMaxAgeDays,
+                passwordHistoryCount = @passwordHistoryCount, tempPasswordExpiryMinutes = @tempPasswordExpiryMinutes
             WHERE id = 1
         `);
         stmt.run(finalSettings);
@@ -564,9 +721,11 @@ export async function saveCompanySettings(settings: Company): Promise<void> {
         console.error("Failed to save company settings:", error);
         throw new Error("Database transaction failed to save company settings.");
     }
+    await recordAuditEvent(actor, { entityType: 'company_settings', entityId: 1, before, after: readAuditedCompanySettings() });
 }
 
 export async function getLogs(filters: {type?: 'operational' | 'system' | 'all'; search?: string; dateRange?: DateRange;} = {}): Promise<LogEntry[]> {
+    await authorizeAction('getLogs', 'admin:logs:read');
     const db = await connectDb();
     try {
         let query = 'SELECT * FROM logs';
@@ -630,6 +789,7 @@ export async function addLog(entry: Omit<LogEntry, "id" | "timestamp">) {
 };
 
 export async function clearLogs(clearedBy: string, type: 'operational' | 'system' | 'all', deleteAllTime: boolean) {
+    await authorizeAction('clearLogs', 'admin:logs:clear');
     const db = await connectDb();
     try {
         const auditLog: Omit<LogEntry, "id" | "timestamp"> = { 
@@ -682,9 +842,12 @@ export async function getApiSettings(): Promise<ApiSettings | null> {
 }
 
 export async function saveApiSettings(settings: ApiSettings): Promise<void> {
+    const actor = await authorizeAction('saveApiSettings', 'admin:settings:api');
     const db = await connectDb();
     try {
+        const before = db.prepare('SELECT * FROM api_settings WHERE id = 1').get() as ApiSettings | undefined;
         db.prepare(`UPDATE api_settings SET exchangeRateApi = @exchangeRateApi, haciendaExemptionApi = @haciendaExemptionApi, haciendaTributariaApi = @haciendaTributariaApi WHERE id = 1`).run(settings);
+        await recordAuditEvent(actor, { entityType: 'api_settings', entityId: 1, before, after: db.prepare('SELECT * FROM api_settings WHERE id = 1').get() as ApiSettings });
     } catch (error) {
         console.error("Failed to save api settings:", error);
     }
@@ -701,6 +864,7 @@ export async function getExemptionLaws(): Promise<ExemptionLaw[]> {
 }
 
 export async function saveExemptionLaws(laws: ExemptionLaw[]): Promise<void> {
+    await authorizeAction('saveExemptionLaws', 'admin:settings:api');
     const db = await connectDb();
     const insert = db.prepare('INSERT OR REPLACE INTO exemption_laws (docType, institutionName, authNumber) VALUES (@docType, @institutionName, @authNumber)');
     const transaction = db.transaction((lawsToSave) => {
@@ -728,6 +892,7 @@ export async function getAllCustomers(): Promise<Customer[]> {
 }
 
 export async function saveAllCustomers(customers: Customer[]): Promise<void> {
+    await authorizeAction('saveAllCustomers', IMPORT_PERMISSIONS);
     const db = await connectDb();
     const insert = db.prepare('INSERT INTO customers (id, name, address, phone, taxId, currency, creditLimit, paymentCondition, salesperson, active, email, electronicDocEmail) VALUES (@id, @name, @address, @phone, @taxId, @currency, @creditLimit, @paymentCondition, @salesperson, @active, @email, @electronicDocEmail)');
     const transaction = db.transaction((customersToSave) => {
@@ -753,6 +918,7 @@ export async function getAllProducts(): Promise<Product[]> {
 }
 
 export async function saveAllProducts(products: Product[]): Promise<void> {
+    await authorizeAction('saveAllProducts', IMPORT_PERMISSIONS);
     const db = await connectDb();
     const insert = db.prepare('INSERT INTO products (id, description, classification, lastEntry, active, notes, unit, isBasicGood, cabys, barcode) VALUES (@id, @description, @classification, @lastEntry, @active, @notes, @unit, @isBasicGood, @cabys, @barcode)');
     
@@ -788,6 +954,7 @@ export async function getAllSuppliers(): Promise<Supplier[]> {
 }
 
 export async function saveAllSuppliers(suppliers: Supplier[]): Promise<void> {
+    await authorizeAction('saveAllSuppliers', IMPORT_PERMISSIONS);
     const db = await connectDb();
     const insert = db.prepare('INSERT INTO suppliers (id, name, alias, email, phone) VALUES (@id, @name, @alias, @email, @phone)');
     const transaction = db.transaction((suppliersToSave) => {
@@ -815,6 +982,7 @@ export async function getAllExemptions(): Promise<Exemption[]> {
 }
 
 export async function saveAllExemptions(exemptions: Exemption[]): Promise<void> {
+    await authorizeAction('saveAllExemptions', IMPORT_PERMISSIONS);
     const db = await connectDb();
     const insert = db.prepare('INSERT OR REPLACE INTO exemptions (code, description, customer, authNumber, startDate, endDate, percentage, docType, institutionName, institutionCode) VALUES (@code, @description, @customer, @authNumber, @startDate, @endDate, @percentage, @docType, @institutionName, @institutionCode)');
     
@@ -843,31 +1011,52 @@ export async function getAllRoles(): Promise<Role[]> {
     const db = await connectDb();
     try {
         const roles = db.prepare('SELECT * FROM roles').all() as any[];
-        return roles.map(role => ({ ...role, permissions: JSON.parse(role.permissions) }));
+        return roles.map(role => ({ ...role, permissions: JSON.parse(role.permissions), requireTwoFactor: !!role.requireTwoFactor, inheritsFrom: JSON.parse(role.inheritsFrom || '[]') }));
     } catch (error) {
         console.error("Failed to get all roles:", error);
         return [];
     }
 }
 
+/**
+ * Replaces all roles. The hierarchy is validated first (parents must exist, no cycles), and
+ * each role is completed with the parent permissions its permissions require in `permissionTree`.
+ * @param roles - The full list of roles to save.
+ * @throws If a role inherits from a missing role or from itself.
+ */
 export async function saveAllRoles(roles: Role[]): Promise<void> {
+    const actor = await authorizeAction('saveAllRoles', ['roles:create', 'roles:update', 'roles:delete']);
+    const hierarchyError = validateRoleHierarchy(roles);
+    if (hierarchyError) {
+        throw new Error(hierarchyError);
+    }
     const db = await connectDb();
-    const insert = db.prepare('INSERT INTO roles (id, name, permissions) VALUES (@id, @name, @permissions)');
-    const transaction = db.transaction((rolesToSave) => {
+    const before = await getAllRoles();
+    const insert = db.prepare('INSERT INTO roles (id, name, permissions, requireTwoFactor, inheritsFrom) VALUES (@id, @name, @permissions, @requireTwoFactor, @inheritsFrom)');
+    const transaction = db.transaction((rolesToSave: Role[]) => {
         db.prepare('DELETE FROM roles').run();
         for(const role of rolesToSave) {
-            insert.run({ ...role, permissions: JSON.stringify(role.permissions) });
+            insert.run({
+                id: role.id,
+                name: role.name,
+                permissions: JSON.stringify(role.id === 'admin' ? role.permissions : withRequiredParentPermissions(role, rolesToSave)),
+                requireTwoFactor: role.requireTwoFactor ? 1 : 0,
+                inheritsFrom: JSON.stringify(role.id === 'admin' ? [] : role.inheritsFrom || []),
+            });
         }
     });
     try {
         transaction(roles);
+        await recordAuditCollectionChanges(actor, 'role', before, await getAllRoles());
     } catch (error) {
         console.error("Failed to save all roles:", error);
     }
 }
 
 export async function resetDefaultRoles(): Promise<void> {
+    const actor = await authorizeAction('resetDefaultRoles', 'roles:update');
     const db = await connectDb();
+    const before = await getAllRoles();
     const insertOrReplace = db.prepare('INSERT OR REPLACE INTO roles (id, name, permissions) VALUES (@id, @name, @permissions)');
     const transaction = db.transaction(() => {
         for (const role of initialRoles) {
@@ -876,6 +1065,7 @@ export async function resetDefaultRoles(): Promise<void> {
     });
     try {
         transaction();
+        await recordAuditCollectionChanges(actor, 'role', before, await getAllRoles());
     } catch(error) {
         console.error("Failed to reset default roles:", error);
     }
@@ -988,26 +1178,20 @@ const parseData = (lines: string[], type: ImportQuery['type']) => {
     return dataArray;
 };
 
-async function updateCabysCatalog(data: any[]): Promise<{ count: number }> {
-    const db = await connectDb();
-    const transaction = db.transaction((rows) => {
-        db.prepare('DELETE FROM cabys_catalog').run();
-        const insertStmt = db.prepare('INSERT INTO cabys_catalog (code, description, taxRate) VALUES (?, ?, ?)');
-        for (const row of rows) {
-            const code = row.code || row.Codigo || row.CODIGO;
-            const description = row.description || row.Descripcion || row.DESCRIPCION;
-            const taxRateValue = row.taxRate ?? (row.Impuesto !== undefined ? parseFloat(String(row.Impuesto).replace('%', '')) / 100 : (row.IMPUESTO !== undefined ? parseFloat(String(row.IMPUESTO).replace('%', '')) / 100 : undefined));
-
-            if (code && description && taxRateValue !== undefined && !isNaN(taxRateValue)) {
-                insertStmt.run(code, description, taxRateValue);
-            }
-        }
+/**
+ * Maps CABYS rows, from a file or a query, to the columns of the catalog, dropping incomplete rows.
+ */
+function toCabysRows(rows: any[]): { code: string, description: string, taxRate: number }[] {
+    return rows.flatMap(row => {
+        const code = row.code || row.Codigo || row.CODIGO;
+        const description = row.description || row.Descripcion || row.DESCRIPCION;
+        const taxRate = row.taxRate ?? (row.Impuesto !== undefined ? parseFloat(String(row.Impuesto).replace('%', '')) / 100 : (row.IMPUESTO !== undefined ? parseFloat(String(row.IMPUESTO).replace('%', '')) / 100 : undefined));
+        return code && description && taxRate !== undefined && !isNaN(taxRate) ? [{ code, description, taxRate }] : [];
     });
-    transaction(data);
-    return { count: data.length };
 }
 
-export async function importDataFromFile(type: 'customers' | 'products' | 'exemptions' | 'stock' | 'locations' | 'cabys' | 'suppliers' | 'erp_purchase_order_headers' | 'erp_purchase_order_lines'): Promise<{ count: number, source: string }> {
+export async function importDataFromFile(type: 'customers' | 'products' | 'exemptions' | 'stock' | 'locations' | 'cabys' | 'suppliers' | 'erp_purchase_order_headers' | 'erp_purchase_order_lines'): Promise<{ count: number, source: string, changes: ImportChanges | null }> {
+    await authorizeAction('importDataFromFile', ['admin:import:run', 'admin:import:files']);
     const companySettings = await getCompanySettings();
     if (!companySettings) throw new Error("No se pudo cargar la configuración de la empresa.");
     
@@ -1027,45 +1211,162 @@ export async function importDataFromFile(type: 'customers' | 'products' | 'exemp
     if (!fs.existsSync(filePath)) throw new Error(`El archivo no fue encontrado: ${filePath}`);
     const fileContent = fs.readFileSync(filePath, 'utf-8');
     const isCsv = filePath.toLowerCase().endsWith('.csv');
-    if (type === 'cabys' && isCsv) {
-        const results = Papa.parse(fileContent, {
-            header: true,
-            skipEmptyLines: true,
-        });
-        const mappedData = results.data.map((row: any) => ({
-            Codigo: row.Codigo,
-            Descripcion: row.Descripcion,
-            Impuesto: row.Impuesto,
-        }));
-        const { count } = await updateCabysCatalog(mappedData);
-        return { count, source: filePath };
-    }
-    const lines = fileContent.split(/\r?\n/).filter(line => line.trim() !== '');
-    const dataArray = parseData(lines, type);
-    if (type === 'customers') await saveAllCustomers(dataArray as Customer[]);
-    else if (type === 'products') await saveAllProducts(dataArray as Product[]);
-    else if (type === 'exemptions') await saveAllExemptions(dataArray as Exemption[]);
-    else if (type === 'stock') {
-        await saveAllStock(dataArray as { itemId: string, warehouseId: string, stock: number }[]);
-        return { count: new Set(dataArray.map(item => item.itemId)).size, source: filePath };
-    }
-    else if (type === 'suppliers') await saveAllSuppliers(dataArray as Supplier[]);
-    else if (type === 'erp_purchase_order_headers') await saveAllErpPurchaseOrderHeaders(dataArray as ErpPurchaseOrderHeader[]);
-    else if (type === 'erp_purchase_order_lines') await saveAllErpPurchaseOrderLines(dataArray as ErpPurchaseOrderLine[]);
-    
-    return { count: dataArray.length, source: filePath };
+    const dataArray = type === 'cabys' && isCsv
+        ? Papa.parse(fileContent, { header: true, skipEmptyLines: true }).data as any[]
+        : parseData(fileContent.split(/\r?\n/).filter(line => line.trim() !== ''), type);
+    const { count, changes } = await writeImportedRows(type, dataArray, true);
+    return { count, source: filePath, changes };
 }
 
-async function importDataFromSql(type: ImportQuery['type']): Promise<{ count: number, source: string }> {
+/** Local table and primary key that the imported rows of a data type are written to. */
+const getImportTarget = (type: ImportQuery['type']) => type === 'cabys' ? { table: 'cabys_catalog', keyColumns: ['code'] } : INCREMENTAL_IMPORT_TABLES[type];
+
+type ImportChanges = Pick<SyncRun, 'insertedCount' | 'updatedCount' | 'deletedCount' | 'deactivatedCount' | 'reactivatedCount'>;
+
+const toSqliteValue = (value: unknown) => value instanceof Date ? value.toISOString() : typeof value === 'boolean' ? Number(value) : value ?? null;
+
+/**
+ * Upserts the rows of an import into their local table by primary key. Each row is compared in SQL
+ * with the stored row it replaces, to count what the import changed. A full reconcile also deletes
+ * the local rows that are no longer in the results.
+ * @returns The rows inserted, updated, deleted, deactivated and reactivated.
+ */
+async function upsertImportedRows(table: string, keyColumns: string[], rows: any[], reconcile: boolean): Promise<ImportChanges> {
     const db = await connectDb();
-    const queryRow = db.prepare('SELECT query FROM import_queries WHERE type = ?').get(type) as { query: string } | undefined;
+    const columns = mainDbSchema[table];
+    const activeColumn = columns.find(col => col === 'active' || col === 'ACTIVO');
+    const byKey = keyColumns.map(col => `${col} = ?`).join(' AND ');
+    const compare = db.prepare(`SELECT (${columns.map(col => `${col} IS ?`).join(' AND ')}) AS unchanged, ${activeColumn ?? 'NULL'} AS active FROM ${table} WHERE ${byKey}`);
+    const insert = db.prepare(`INSERT OR REPLACE INTO ${table} (${columns.join(',')}) VALUES (${columns.map(() => '?').join(',')})`);
+    const remove = db.prepare(`DELETE FROM ${table} WHERE ${byKey}`);
+    const keyOf = (row: any) => JSON.stringify(keyColumns.map(col => String(row[col] ?? '')));
+    const changes: ImportChanges = { insertedCount: 0, updatedCount: 0, deletedCount: 0, deactivatedCount: activeColumn ? 0 : null, reactivatedCount: activeColumn ? 0 : null };
+
+    const transaction = db.transaction(() => {
+        for (const row of rows) {
+            const values = columns.map(col => toSqliteValue(row[col]));
+            const stored = compare.get(...values, ...keyColumns.map(col => toSqliteValue(row[col]))) as { unchanged: number, active: unknown } | undefined;
+            insert.run(...values);
+            if (!stored) {
+                changes.insertedCount!++;
+                continue;
+            }
+            if (!stored.unchanged) changes.updatedCount!++;
+            if (activeColumn && stored.active === 'S' && row[activeColumn] !== 'S') changes.deactivatedCount!++;
+            if (activeColumn && stored.active !== 'S' && row[activeColumn] === 'S') changes.reactivatedCount!++;
+        }
+        if (!reconcile) return;
+        const importedKeys = new Set(rows.map(keyOf));
+        for (const row of db.prepare(`SELECT ${keyColumns.join(',')} FROM ${table}`).all() as any[]) {
+            if (importedKeys.has(keyOf(row))) continue;
+            remove.run(...keyColumns.map(col => row[col]));
+            changes.deletedCount!++;
+        }
+    });
+    transaction();
+    return changes;
+}
+
+/**
+ * Stock rows come per item and warehouse: the warehouses of each imported item are merged into
+ * its local row. A full reconcile replaces the warehouses of each item and deletes the items that
+ * are no longer in the results.
+ * @returns The items inserted, updated and deleted.
+ */
+async function upsertImportedStock(rows: { itemId: string, warehouseId: string, stock: number }[], reconcile: boolean): Promise<ImportChanges> {
+    const db = await connectDb();
+    const importedStock = new Map<string, { [warehouseId: string]: number }>();
+    for (const row of rows) {
+        importedStock.set(row.itemId, { ...importedStock.get(row.itemId), [row.warehouseId]: Number(row.stock) || 0 });
+    }
+    const select = db.prepare('SELECT stockByWarehouse FROM stock WHERE itemId = ?');
+    const upsert = db.prepare('INSERT OR REPLACE INTO stock (itemId, stockByWarehouse, totalStock) VALUES (?, ?, ?)');
+    const remove = db.prepare('DELETE FROM stock WHERE itemId = ?');
+    const changes: ImportChanges = { insertedCount: 0, updatedCount: 0, deletedCount: 0, deactivatedCount: null, reactivatedCount: null };
+
+    const transaction = db.transaction(() => {
+        for (const [itemId, warehouses] of importedStock) {
+            const current = select.get(itemId) as { stockByWarehouse: string } | undefined;
+            const stockByWarehouse: { [warehouseId: string]: number } = { ...(current && !reconcile ? JSON.parse(current.stockByWarehouse) : {}), ...warehouses };
+            const serialized = JSON.stringify(stockByWarehouse);
+            const totalStock = Object.values(stockByWarehouse).reduce((acc, val) => acc + val, 0);
+            upsert.run(itemId, serialized, totalStock);
+            if (!current) changes.insertedCount!++;
+            else if (current.stockByWarehouse !== serialized) changes.updatedCount!++;
+        }
+        if (!reconcile) return;
+        for (const { itemId } of db.prepare('SELECT itemId FROM stock').all() as { itemId: string }[]) {
+            if (importedStock.has(itemId)) continue;
+            remove.run(itemId);
+            changes.deletedCount!++;
+        }
+    });
+    transaction();
+    return changes;
+}
+
+/**
+ * Writes the rows of an import into the local table of its data type. A full import reconciles
+ * the table with the rows, so rows that are no longer in them are deleted.
+ * @returns The number of records imported, and what changed, or null for data types without a local table.
+ */
+async function writeImportedRows(type: ImportQuery['type'], rows: any[], reconcile: boolean): Promise<{ count: number, changes: ImportChanges | null }> {
+    if (type === 'stock') {
+        const changes = await upsertImportedStock(rows as { itemId: string, warehouseId: string, stock: number }[], reconcile);
+        return { count: new Set(rows.map(item => item.itemId)).size, changes };
+    }
+    const target = getImportTarget(type);
+    if (!target) return { count: rows.length, changes: null };
+    const changes = await upsertImportedRows(target.table, target.keyColumns, type === 'cabys' ? toCabysRows(rows) : rows, reconcile);
+    return { count: rows.length, changes };
+}
+
+// Watermarks are stored as text. Dates are stored in ISO format and bound back to the query as dates.
+const serializeWatermark = (value: unknown): string | null => value === null || value === undefined || value === '' ? null : value instanceof Date ? value.toISOString() : String(value);
+const deserializeWatermark = (value: string): Date | string => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value) ? new Date(value) : value;
+
+/**
+ * Finds the highest value of the watermark column in the results of an import query.
+ * @throws {Error} If the column is not among the columns of the results.
+ */
+function getMaxWatermark(rows: any[], column: string, type: ImportQuery['type']): string | null {
+    if (rows.length === 0) return null;
+    const key = Object.keys(rows[0]).find(k => k.toUpperCase() === column.toUpperCase());
+    if (!key) throw new Error(`La columna de marca de agua "${column}" no está en los resultados de la consulta de ${IMPORT_TYPE_LABELS[type]}.`);
+    const isGreater = (a: any, b: any) => a instanceof Date && b instanceof Date ? a.getTime() > b.getTime()
+        : typeof a === 'number' && typeof b === 'number' ? a > b
+        : String(a) > String(b);
+    let max: unknown = null;
+    for (const row of rows) {
+        const value = row[key];
+        if (value !== null && value !== undefined && (max === null || isGreater(value, max))) max = value;
+    }
+    return serializeWatermark(max);
+}
+
+/**
+ * Imports a data type with its configured SQL query. When the query declares a watermark
+ * column, only the rows past the last watermark are fetched and upserted; a full reconcile runs
+ * instead on the first import, and then every `fullSyncIntervalHours`, to detect deleted rows.
+ */
+async function importDataFromSql(type: ImportQuery['type']): Promise<{ count: number, source: string, mode: ImportSyncMode, changes: ImportChanges | null }> {
+    const db = await connectDb();
+    const queryRow = db.prepare('SELECT * FROM import_queries WHERE type = ?').get(type) as ImportQuery | undefined;
     if (!queryRow || !queryRow.query) {
         throw new Error(`No hay una consulta SQL configurada para ${type}.`);
     }
-    
-    await logInfo(`Importando ${type} desde SQL...`, { query: queryRow.query });
-    
-    const dataArray = await executeQuery(queryRow.query);
+    const state = db.prepare('SELECT * FROM import_sync_state WHERE type = ?').get(type) as Omit<ImportSyncState, 'localRowCount'> | undefined;
+    const target = queryRow.watermarkColumn ? INCREMENTAL_IMPORT_TABLES[type] : undefined;
+    const fullSyncIntervalMs = (queryRow.fullSyncIntervalHours || DEFAULT_FULL_SYNC_INTERVAL_HOURS) * 60 * 60 * 1000;
+    const mode: ImportSyncMode = target && state?.lastWatermark && state.lastFullSyncAt && Date.now() - new Date(state.lastFullSyncAt).getTime() < fullSyncIntervalMs
+        ? 'incremental'
+        : 'full';
+    const since = mode === 'incremental' ? state!.lastWatermark : null;
+
+    await logInfo(`Importando ${type} desde SQL...`, { query: queryRow.query, mode, since });
+
+    const query = queryRow.query.split(SINCE_PLACEHOLDER).join('@since');
+    const dataArray = await executeQuery(query, undefined, target ? { since: since === null ? null : deserializeWatermark(since) } : undefined);
     const headerMapping = createHeaderMapping(type);
     const mappedData = dataArray.map(row => {
         const newRow: { [key: string]: any } = {};
@@ -1075,77 +1376,138 @@ async function importDataFromSql(type: ImportQuery['type']): Promise<{ count: nu
         }
         return newRow;
     });
-    if (type === 'customers') await saveAllCustomers(mappedData as Customer[]);
-    else if (type === 'products') await saveAllProducts(mappedData as Product[]);
-    else if (type === 'exemptions') await saveAllExemptions(mappedData as Exemption[]);
-    else if (type === 'stock') {
-        await saveAllStock(mappedData as { itemId: string, warehouseId: string, stock: number }[]);
-        return { count: new Set(mappedData.map(item => item.itemId)).size, source: 'SQL Server' };
-    } else if (type === 'cabys') {
-        const { count } = await updateCabysCatalog(mappedData);
-        return { count, source: 'SQL Server' };
-    } else if (type === 'suppliers') {
-        await saveAllSuppliers(mappedData as Supplier[]);
-    } else if (type === 'erp_order_headers') {
-        await saveAllErpOrderHeaders(mappedData as ErpOrderHeader[]);
-    } else if (type === 'erp_order_lines') {
-        await saveAllErpOrderLines(mappedData as ErpOrderLine[]);
-    } else if (type === 'erp_purchase_order_headers') {
-        await saveAllErpPurchaseOrderHeaders(mappedData as ErpPurchaseOrderHeader[]);
-    } else if (type === 'erp_purchase_order_lines') {
-        await saveAllErpPurchaseOrderLines(mappedData as ErpPurchaseOrderLine[]);
-    } else if (type === 'erp_invoice_headers') {
-        await saveAllErpInvoiceHeaders(mappedData as ErpInvoiceHeader[]);
-    } else if (type === 'erp_invoice_lines') {
-        await saveAllErpInvoiceLines(mappedData as ErpInvoiceLine[]);
-    } else if (type === 'vendedores') {
-        await saveAllGeneric(mappedData, 'vendedores', ['VENDEDOR', 'NOMBRE', 'EMPLEADO']);
-    } else if (type === 'direcciones_embarque') {
-        await saveAllGeneric(mappedData, 'direcciones_embarque', ['CLIENTE', 'DIRECCION', 'DETALLE_DIRECCION', 'DESCRIPCION']);
-    } else if (type === 'nominas') {
-        await saveAllGeneric(mappedData, 'nominas', ['NOMINA', 'DESCRIPCION', 'TIPO_NOMINA']);
-    } else if (type === 'puestos') {
-        await saveAllGeneric(mappedData, 'puestos', ['PUESTO', 'DESCRIPCION', 'ACTIVO']);
-    } else if (type === 'departamentos') {
-        await saveAllGeneric(mappedData, 'departamentos', ['DEPARTAMENTO', 'DESCRIPCION', 'ACTIVO']);
-    } else if (type === 'empleados') {
-        await saveAllGeneric(mappedData, 'empleados', ['EMPLEADO', 'NOMBRE', 'ACTIVO', 'DEPARTAMENTO', 'PUESTO', 'NOMINA']);
-    } else if (type === 'vehiculos') {
-        await saveAllGeneric(mappedData, 'vehiculos', ['placa', 'marca']);
-    }
-    return { count: mappedData.length, source: 'SQL Server' };
+
+    const watermark = target ? getMaxWatermark(dataArray, queryRow.watermarkColumn!, type) ?? since : null;
+    const { count, changes } = await writeImportedRows(type, mappedData, mode === 'full');
+    const deletedCount = changes?.deletedCount ?? 0;
+
+    const now = new Date().toISOString();
+    db.prepare(`
+        INSERT OR REPLACE INTO import_sync_state (type, lastSyncAt, lastSyncMode, lastWatermark, lastRowCount, lastDeletedCount, lastFullSyncAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(type, now, mode, watermark, dataArray.length, mode === 'full' ? deletedCount : state?.lastDeletedCount ?? 0, mode === 'full' ? now : state?.lastFullSyncAt ?? null);
+
+    if (deletedCount > 0) {
+        await logInfo(`Reconciliación de ${type}: ${deletedCount} registro(s) eliminados porque ya no están en el ERP.`);
+    }
+    return { count, source: mode === 'incremental' ? 'SQL Server (incremental)' : 'SQL Server', mode, changes };
+}
+
+/** Data types that are only imported from SQL Server; file mode skips them. */
+const SQL_ONLY_IMPORT_TYPES: ImportQuery['type'][] = ['erp_order_headers', 'erp_order_lines', 'erp_purchase_order_headers', 'erp_purchase_order_lines', 'erp_invoice_headers', 'erp_invoice_lines', 'vendedores', 'direcciones_embarque', 'nominas', 'puestos', 'departamentos', 'empleados', 'vehiculos'];
+
+/** Runs kept per data type in the sync history; older ones are pruned when a new one is recorded. */
+const SYNC_RUNS_TO_KEEP = 200;
+
+const SYNC_HISTORY_PERMISSIONS = [...IMPORT_PERMISSIONS, 'admin:import:sql-config'];
+
+function recordSyncRun(db: Database.Database, run: Omit<SyncRun, 'id'>): void {
+    db.transaction(() => {
+        db.prepare(`
+            INSERT INTO sync_runs (runId, type, source, mode, triggeredBy, startedAt, durationMs, status, rowCount, insertedCount, updatedCount, deletedCount, deactivatedCount, reactivatedCount, error)
+            VALUES (@runId, @type, @source, @mode, @triggeredBy, @startedAt, @durationMs, @status, @rowCount, @insertedCount, @updatedCount, @deletedCount, @deactivatedCount, @reactivatedCount, @error)
+        `).run(run);
+        db.prepare(`
+            DELETE FROM sync_runs WHERE type = ? AND id NOT IN (
+                SELECT id FROM sync_runs WHERE type = ? ORDER BY startedAt DESC LIMIT ?
+            )
+        `).run(run.type, run.type, SYNC_RUNS_TO_KEEP);
+    })();
+}
+
+/**
+ * Imports a data type from the configured source and records the import in the sync history,
+ * with the rows it inserted, updated and deleted.
+ * @param runId - Groups the data types imported by the same synchronization.
+ */
+async function importAndRecord(type: ImportQuery['type'], importMode: Company['importMode'], runId: string, triggeredBy: string): Promise<{ count: number, source: string }> {
+    if (importMode !== 'sql' && SQL_ONLY_IMPORT_TYPES.includes(type)) {
+        return { count: 0, source: 'file (skipped)' };
+    }
+    const db = await connectDb();
+    const startedAt = new Date();
+    const run: Omit<SyncRun, 'id'> = {
+        runId, type, source: importMode === 'sql' ? 'sql' : 'file', mode: null, triggeredBy,
+        startedAt: startedAt.toISOString(), durationMs: 0, status: 'success', rowCount: null,
+        insertedCount: null, updatedCount: null, deletedCount: null, deactivatedCount: null, reactivatedCount: null, error: null,
+    };
+    try {
+        const result: { count: number, source: string, mode?: ImportSyncMode, changes: ImportChanges | null } = importMode === 'sql'
+            ? await importDataFromSql(type)
+            : await importDataFromFile(type as 'customers' | 'products' | 'exemptions' | 'stock' | 'locations' | 'cabys' | 'suppliers' | 'erp_purchase_order_headers' | 'erp_purchase_order_lines');
+        run.rowCount = result.count;
+        run.mode = result.mode ?? null;
+        if (result.changes) Object.assign(run, result.changes);
+        return { count: result.count, source: result.source };
+    } catch (error: any) {
+        run.status = 'error';
+        run.error = error.message;
+        throw error;
+    } finally {
+        run.durationMs = Date.now() - startedAt.getTime();
+        try {
+            recordSyncRun(db, run);
+        } catch (error) {
+            console.error(`Failed to record sync run for ${type}:`, error);
+        }
+    }
 }
 
 export async function importData(type: ImportQuery['type']): Promise<{ count: number, source: string }> {
+    const actor = await authorizeAction('importData', IMPORT_PERMISSIONS);
     const companySettings = await getCompanySettings();
     if (!companySettings) throw new Error("No se pudo cargar la configuración de la empresa.");
     
-    if (companySettings.importMode === 'sql') {
-        return importDataFromSql(type);
-    } else {
-        if (['erp_order_headers', 'erp_order_lines', 'erp_purchase_order_headers', 'erp_purchase_order_lines', 'erp_invoice_headers', 'erp_invoice_lines', 'vendedores', 'direcciones_embarque', 'nominas', 'puestos', 'departamentos', 'empleados', 'vehiculos'].includes(type)) {
-            return { count: 0, source: 'file (skipped)' };
-        }
-        return importDataFromFile(type as 'customers' | 'products' | 'exemptions' | 'stock' | 'locations' | 'cabys' | 'suppliers' | 'erp_purchase_order_headers' | 'erp_purchase_order_lines');
+    return importAndRecord(type, companySettings.importMode, crypto.randomUUID(), actor.name);
+}
+
+/**
+ * Gets the sync history, newest first.
+ * @param limit - The maximum number of imports to return.
+ */
+export async function getSyncRuns(limit = 500): Promise<SyncRun[]> {
+    await authorizeAction('getSyncRuns', SYNC_HISTORY_PERMISSIONS);
+    const db = await connectDb();
+    try {
+        return db.prepare('SELECT * FROM sync_runs ORDER BY startedAt DESC, id DESC LIMIT ?').all(limit) as SyncRun[];
+    } catch (error) {
+        console.error("Failed to get sync runs:", error);
+        return [];
     }
 }
 
-export async function importAllDataFromFiles(): Promise<{ type: string; count: number; }[]> {
+/**
+ * Gets the last import that failed, so the sync warning can point to it.
+ */
+export async function getLastFailedSyncRun(): Promise<SyncRun | null> {
+    await authorizeAction('getLastFailedSyncRun', SYNC_HISTORY_PERMISSIONS);
     const db = await connectDb();
+    try {
+        return (db.prepare(`SELECT * FROM sync_runs WHERE status = 'error' ORDER BY startedAt DESC, id DESC LIMIT 1`).get() as SyncRun | undefined) ?? null;
+    } catch (error) {
+        console.error("Failed to get the last failed sync run:", error);
+        return null;
+    }
+}
+
+/**
+ * Imports the ERP data from the configured source (files or SQL).
+ * @param types - The data types to import; all of them when empty. The last sync timestamp
+ * only moves when every type was imported.
+ */
+export async function importAllDataFromFiles(types: ImportQuery['type'][] = []): Promise<{ type: string; count: number; }[]> {
+    const actor = await authorizeAction('importAllDataFromFiles', 'admin:import:run');
+    const db = await connectDb();
+    const runId = crypto.randomUUID();
     const companySettings = await getCompanySettings();
     if (!companySettings) throw new Error("No se pudo cargar la configuración de la empresa.");
     
-    const importTasks: { type: ImportQuery['type'] }[] = [
-        { type: 'customers' }, { type: 'products' }, { type: 'exemptions' },
-        { type: 'stock' }, { type: 'locations' }, { type: 'cabys' }, { type: 'suppliers' },
-        { type: 'erp_order_headers' }, { type: 'erp_order_lines' },
-        { type: 'erp_purchase_order_headers' }, { type: 'erp_purchase_order_lines' },
-        { type: 'erp_invoice_headers' }, { type: 'erp_invoice_lines' },
-        { type: 'vendedores'}, { type: 'direcciones_embarque' }, { type: 'nominas' },
-        { type: 'puestos' }, { type: 'departamentos' }, { type: 'empleados' }, { type: 'vehiculos' },
-    ];
+    const importTasks: { type: ImportQuery['type'] }[] = IMPORT_TYPES
+        .filter(type => types.length === 0 || types.includes(type))
+        .map(type => ({ type }));
     
     const results: { type: string; count: number; }[] = [];
+    const failures: { type: string; error: string; }[] = [];
     
     for (const task of importTasks) {
         try {
@@ -1153,12 +1515,12 @@ export async function importAllDataFromFiles(): Promise<{ type: string; count: n
                 const filePathKey = `${task.type}FilePath` as keyof Company;
                 const filePath = companySettings[filePathKey] as string | undefined;
 
-                if (!filePath && !['erp_order_headers', 'erp_order_lines', 'erp_purchase_order_headers', 'erp_purchase_order_lines', 'erp_invoice_headers', 'erp_invoice_lines', 'vendedores', 'direcciones_embarque', 'nominas', 'puestos', 'departamentos', 'empleados', 'vehiculos'].includes(task.type)) {
+                if (!filePath && !SQL_ONLY_IMPORT_TYPES.includes(task.type)) {
                     console.log(`Skipping file import for ${task.type}: no file path configured.`);
                     continue;
                 }
             }
-            const result = await importData(task.type);
+            const result = await importAndRecord(task.type, companySettings.importMode, runId, actor.name);
             results.push({ type: task.type, count: result.count });
         } catch (error: any) {
              const queryRow = companySettings.importMode === 'sql' 
@@ -1170,29 +1532,48 @@ export async function importAllDataFromFiles(): Promise<{ type: string; count: n
                 importMode: companySettings.importMode,
                 query: queryRow?.query
             });
+            failures.push({ type: task.type, error: error.message });
         }
     }
 
-    db.prepare('UPDATE company_settings SET lastSyncTimestamp = ? WHERE id = 1')
-      .run(new Date().toISOString());
+    const finishedAt = new Date().toISOString();
+    if (types.length === 0) {
+        db.prepare('UPDATE company_settings SET lastSyncTimestamp = ? WHERE id = 1')
+          .run(finishedAt);
+    }
+
+    if (failures.length > 0) {
+        triggerNotificationEvent('onErpSyncFailed', {
+            runId,
+            importMode: companySettings.importMode,
+            failedCount: failures.length,
+            succeededCount: results.length,
+            failures,
+            finishedAt,
+        }).catch(e => console.error("Failed to trigger ERP sync failure notification:", e));
+    }
     
     return results;
 }
 
 export async function saveSqlConfig(config: SqlConfig): Promise<void> {
+    const actor = await authorizeAction('saveSqlConfig', 'admin:import:sql-config');
     const db = await connectDb();
+    const before = readKeyValueSnapshot(db, 'sql_config');
     const insert = db.prepare('INSERT OR REPLACE INTO sql_config (key, value) VALUES (@key, @value)');
     const transaction = db.transaction((cfg: any) => {
         for(const key in cfg) if (cfg[key as keyof SqlConfig] !== undefined) insert.run({ key, value: cfg[key as keyof SqlConfig] });
     });
     try {
         transaction(config);
+        await recordAuditEvent(actor, { entityType: 'sql_config', entityId: 'sql', before, after: readKeyValueSnapshot(db, 'sql_config') });
     } catch (error) {
         console.error("Failed to save SQL config:", error);
     }
 }
 
 export async function getImportQueries(): Promise<ImportQuery[]> {
+    await authorizeAction('getImportQueries', ['admin:import:sql', 'admin:import:sql-config']);
     const db = await connectDb();
     try {
         return db.prepare('SELECT * FROM import_queries').all() as ImportQuery[];
@@ -1202,18 +1583,75 @@ export async function getImportQueries(): Promise<ImportQuery[]> {
     }
 }
 
+/**
+ * Saves the SQL import queries. Changing the query or the watermark column of a type discards
+ * its watermark, so its next import is a full reconcile.
+ * @throws {Error} If an incremental query is misconfigured.
+ */
 export async function saveImportQueries(queries: ImportQuery[]): Promise<void> {
+    const actor = await authorizeAction('saveImportQueries', 'admin:import:sql-config');
+    const normalized = queries.map(q => ({
+        type: q.type,
+        query: q.query,
+        watermarkColumn: q.watermarkColumn?.trim() || null,
+        fullSyncIntervalHours: q.fullSyncIntervalHours ?? null,
+    }));
+    for (const q of normalized) {
+        if (!q.watermarkColumn) continue;
+        const label = IMPORT_TYPE_LABELS[q.type];
+        if (!INCREMENTAL_IMPORT_TABLES[q.type]) {
+            throw new Error(`${label} no admite la sincronización incremental.`);
+        }
+        if (!q.query.includes(SINCE_PLACEHOLDER)) {
+            throw new Error(`La consulta de ${label} debe filtrar con ${SINCE_PLACEHOLDER} para usar la columna de marca de agua.`);
+        }
+        if (q.fullSyncIntervalHours !== null && (!Number.isInteger(q.fullSyncIntervalHours) || q.fullSyncIntervalHours < 1 || q.fullSyncIntervalHours > 720)) {
+            throw new Error(`La reconciliación completa de ${label} debe ser un número entero de horas entre 1 y 720.`);
+        }
+    }
+
     const db = await connectDb();
-    const insert = db.prepare('INSERT OR REPLACE INTO import_queries (type, query) VALUES (@type, @query)');
-    const transaction = db.transaction((qs) => { for (const q of qs) insert.run(q); });
+    const readQueries = () => Object.fromEntries((db.prepare('SELECT * FROM import_queries').all() as ImportQuery[])
+        .map(q => [q.type, { query: q.query, watermarkColumn: q.watermarkColumn ?? null, fullSyncIntervalHours: q.fullSyncIntervalHours ?? null }]));
+    const before = readQueries();
+    const insert = db.prepare('INSERT OR REPLACE INTO import_queries (type, query, watermarkColumn, fullSyncIntervalHours) VALUES (@type, @query, @watermarkColumn, @fullSyncIntervalHours)');
+    const resetWatermark = db.prepare('UPDATE import_sync_state SET lastWatermark = NULL, lastFullSyncAt = NULL WHERE type = ?');
+    const transaction = db.transaction((qs: typeof normalized) => {
+        for (const q of qs) {
+            insert.run(q);
+            const previous = before[q.type];
+            if (previous && (previous.query !== q.query || previous.watermarkColumn !== q.watermarkColumn)) resetWatermark.run(q.type);
+        }
+    });
     try {
-        transaction(queries);
+        transaction(normalized);
+        await recordAuditEvent(actor, { entityType: 'import_queries', entityId: 'sql', before, after: readQueries() });
     } catch (error) {
         console.error("Failed to save import queries:", error);
     }
 }
 
+/**
+ * Gets the outcome of the last SQL import of each data type, with the rows of its local table.
+ */
+export async function getImportSyncStates(): Promise<ImportSyncState[]> {
+    await authorizeAction('getImportSyncStates', ['admin:import:sql', 'admin:import:sql-config']);
+    const db = await connectDb();
+    try {
+        const states = db.prepare('SELECT * FROM import_sync_state').all() as Omit<ImportSyncState, 'localRowCount'>[];
+        return states.map(state => {
+            const table = getImportTarget(state.type)?.table;
+            const localRowCount = table ? (db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count : null;
+            return { ...state, localRowCount };
+        });
+    } catch (error) {
+        console.error("Failed to get import sync states:", error);
+        return [];
+    }
+}
+
 export async function testSqlConnection(): Promise<void> {
+    await authorizeAction('testSqlConnection', ['admin:import:sql', 'admin:import:sql-config']);
     await executeQuery("SELECT 1"); 
 }
 
@@ -1223,6 +1661,7 @@ export async function getCabysCatalog(): Promise<{ code: string; description: st
 }
 
 export async function getSuggestions(): Promise<Suggestion[]> {
+    await authorizeAction('getSuggestions', 'admin:suggestions:read');
   const db = await connectDb();
   const suggestions = db.prepare('SELECT * FROM suggestions ORDER BY timestamp DESC').all() as Suggestion[];
   return JSON.parse(JSON.stringify(suggestions));
@@ -1241,11 +1680,13 @@ export async function getUnreadSuggestionsCount(): Promise<number> {
 }
 
 export async function markSuggestionAsRead(id: number): Promise<void> {
+    await authorizeAction('markSuggestionAsRead', 'admin:suggestions:read');
   const db = await connectDb();
   db.prepare('UPDATE suggestions SET isRead = 1 WHERE id = ?').run(id);
 }
 
 export async function deleteSuggestion(id: number): Promise<void> {
+    await authorizeAction('deleteSuggestion', 'admin:suggestions:read');
   const db = await connectDb();
   db.prepare('DELETE FROM suggestions WHERE id = ?').run(id);
 }
@@ -1267,6 +1708,7 @@ export async function getAllStock(): Promise<StockInfo[]> {
 }
 
 export async function saveAllStock(stockData: { itemId: string, warehouseId: string, stock: number }[]): Promise<void> {
+    await authorizeAction('saveAllStock', IMPORT_PERMISSIONS);
     const db = await connectDb();
     const stockMap = new Map<string, { [key: string]: number }>();
 
@@ -1313,9 +1755,12 @@ export async function getStockSettings(): Promise<StockSettings> {
 }
 
 export async function saveStockSettings(settings: StockSettings): Promise<void> {
+    const actor = await authorizeAction('saveStockSettings', 'admin:settings:stock');
     const db = await connectDb();
+    const before = readKeyValueSnapshot(db, 'stock_settings');
     db.prepare('INSERT OR REPLACE INTO stock_settings (key, value) VALUES (?, ?)')
       .run('warehouses', JSON.stringify(settings.warehouses));
+    await recordAuditEvent(actor, { entityType: 'stock_settings', entityId: 'stock', before, after: readKeyValueSnapshot(db, 'stock_settings') });
 }
 
 // --- Versioning ---
@@ -1338,6 +1783,7 @@ export async function getCurrentVersion(): Promise<string | null> {
 const backupDir = path.join(dbDirectory, UPDATE_BACKUP_DIR);
 
 export async function backupAllForUpdate(): Promise<void> {
+    await authorizeAction('backupAllForUpdate', 'admin:maintenance:backup');
     if (!fs.existsSync(backupDir)) fs.mkdirSync(backupDir, { recursive: true });
     
     // Create a Windows-compatible timestamp
@@ -1354,6 +1800,7 @@ export async function backupAllForUpdate(): Promise<void> {
 }
 
 export async function listAllUpdateBackups(): Promise<UpdateBackupInfo[]> {
+    await authorizeAction('listAllUpdateBackups', ['admin:maintenance:backup', 'admin:maintenance:restore']);
     if (!fs.existsSync(backupDir)) return [];
     const files = fs.readdirSync(backupDir);
     const backupInfo = files.map(file => {
@@ -1375,6 +1822,7 @@ export async function listAllUpdateBackups(): Promise<UpdateBackupInfo[]> {
 }
 
 export async function restoreDatabase(moduleId: string, backupFile: File): Promise<void> {
+    await authorizeAction('restoreDatabase', 'admin:maintenance:restore');
     if (!moduleId || !backupFile) {
         throw new Error("Module ID and backup file are required.");
     }
@@ -1397,6 +1845,7 @@ export async function restoreDatabase(moduleId: string, backupFile: File): Promi
 }
 
 export async function restoreAllFromUpdateBackup(timestamp: string): Promise<void> {
+    await authorizeAction('restoreAllFromUpdateBackup', 'admin:maintenance:restore');
     const backups = await listAllUpdateBackups();
     const backupsToRestore = backups.filter(b => b.date === timestamp);
 
@@ -1430,6 +1879,7 @@ export async function restoreAllFromUpdateBackup(timestamp: string): Promise<voi
 
 
 export async function deleteOldUpdateBackups(): Promise<number> {
+    await authorizeAction('deleteOldUpdateBackups', 'admin:maintenance:backup');
     const backups = await listAllUpdateBackups();
     const uniqueTimestamps = [...new Set(backups.map(b => b.date))].sort((a,b) => b.localeCompare(a));
     if (uniqueTimestamps.length <= 1) return 0;
@@ -1447,6 +1897,7 @@ export async function deleteOldUpdateBackups(): Promise<number> {
 }
 
 export async function factoryReset(moduleId: string): Promise<void> {
+    await authorizeAction('factoryReset', 'admin:maintenance:reset');
     await addLog({ type: 'WARN', message: `FACTORY RESET triggered for module: ${moduleId}` });
 
     const modulesToReset = moduleId === '__all__' ? DB_MODULES : DB_MODULES.filter(m => m.id === moduleId);
@@ -1476,6 +1927,7 @@ export async function factoryReset(moduleId: string): Promise<void> {
 
 // --- Database Audit ---
 export async function runDatabaseAudit(userName: string): Promise<AuditResult[]> {
+    await authorizeAction('runDatabaseAudit', ['admin:maintenance:backup', 'admin:maintenance:restore', 'admin:maintenance:reset']);
     const results: AuditResult[] = [];
     let overallStatus: 'OK' | 'ERROR' = 'OK';
     const allIssues: string[] = [];
@@ -1556,6 +2008,7 @@ export async function runDatabaseAudit(userName: string): Promise<AuditResult[]>
 }
 
 export async function runSingleModuleMigration(moduleId: string): Promise<void> {
+    await authorizeAction('runSingleModuleMigration', 'admin:maintenance:reset');
     const dbModule = DB_MODULES.find(m => m.id === moduleId);
     if (!dbModule) {
         throw new Error(`Módulo con ID '${moduleId}' no encontrado.`);
@@ -1593,22 +2046,26 @@ export async function confirmPlannerModification(orderId: number, updatedBy: str
 }
 
 export async function saveWizardSession(userId: number, sessionData: WizardSession): Promise<void> {
+    await authorizeOwner('saveWizardSession', userId);
     const db = await connectDb();
     db.prepare(`UPDATE users SET activeWizardSession = ? WHERE id = ?`).run(JSON.stringify(sessionData), userId);
 }
 
 export async function clearWizardSession(userId: number): Promise<void> {
+    await authorizeOwner('clearWizardSession', userId);
     const db = await connectDb();
     db.prepare(`UPDATE users SET activeWizardSession = NULL WHERE id = ?`).run(userId);
 }
 
 export async function getActiveWizardSession(userId: number): Promise<WizardSession | null> {
+    await authorizeOwner('getActiveWizardSession', userId);
     const db = await connectDb();
     const row = db.prepare(`SELECT activeWizardSession FROM users WHERE id = ?`).get(userId) as { activeWizardSession: string | null } | undefined;
     return row?.activeWizardSession ? JSON.parse(row.activeWizardSession) : null;
 }
 
 export async function getInvoicesByIds(documentIds: string[]): Promise<ErpInvoiceHeader[]> {
+    await authorizeAction('getInvoicesByIds');
     const db = await connectDb();
     if (documentIds.length === 0) return [];
     const placeholders = documentIds.map(() => '?').join(',');
@@ -1639,47 +2096,57 @@ async function saveAllGeneric(data: any[], tableName: string, columns: string[])
 }
 
 export async function saveAllErpOrderHeaders(data: ErpOrderHeader[]): Promise<void> {
+    await authorizeAction('saveAllErpOrderHeaders', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_order_headers', ['PEDIDO', 'ESTADO', 'CLIENTE', 'FECHA_PEDIDO', 'FECHA_PROMETIDA', 'ORDEN_COMPRA', 'TOTAL_UNIDADES', 'MONEDA_PEDIDO', 'USUARIO']);
 }
 
 export async function saveAllErpOrderLines(data: ErpOrderLine[]): Promise<void> {
+    await authorizeAction('saveAllErpOrderLines', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_order_lines', ['PEDIDO', 'PEDIDO_LINEA', 'ARTICULO', 'CANTIDAD_PEDIDA', 'PRECIO_UNITARIO']);
 }
 
 export async function saveAllErpPurchaseOrderHeaders(data: ErpPurchaseOrderHeader[]): Promise<void> {
+    await authorizeAction('saveAllErpPurchaseOrderHeaders', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_purchase_order_headers', ['ORDEN_COMPRA', 'PROVEEDOR', 'FECHA_HORA', 'ESTADO', 'CreatedBy']);
 }
 
 export async function getAllErpPurchaseOrderHeaders(): Promise<ErpPurchaseOrderHeader[]> {
+    await authorizeAction('getAllErpPurchaseOrderHeaders');
     const db = await connectDb();
     return db.prepare('SELECT * FROM erp_purchase_order_headers').all() as ErpPurchaseOrderHeader[];
 }
 
 export async function saveAllErpPurchaseOrderLines(data: ErpPurchaseOrderLine[]): Promise<void> {
+    await authorizeAction('saveAllErpPurchaseOrderLines', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_purchase_order_lines', ['ORDEN_COMPRA', 'ARTICULO', 'CANTIDAD_ORDENADA']);
 }
 
 export async function getAllErpPurchaseOrderLines(): Promise<ErpPurchaseOrderLine[]> {
+    await authorizeAction('getAllErpPurchaseOrderLines');
     const db = await connectDb();
     return db.prepare('SELECT * FROM erp_purchase_order_lines').all() as ErpPurchaseOrderLine[];
 }
 
 
 export async function saveAllErpInvoiceHeaders(data: ErpInvoiceHeader[]): Promise<void> {
+    await authorizeAction('saveAllErpInvoiceHeaders', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_invoice_headers', ['CLIENTE', 'NOMBRE_CLIENTE', 'TIPO_DOCUMENTO', 'FACTURA', 'PEDIDO', 'FACTURA_ORIGINAL', 'FECHA', 'FECHA_ENTREGA', 'ANULADA', 'EMBARCAR_A', 'DIRECCION_FACTURA', 'OBSERVACIONES', 'RUTA', 'USUARIO', 'USUARIO_ANULA', 'ZONA', 'VENDEDOR', 'REIMPRESO']);
 }
 
 export async function saveAllErpInvoiceLines(data: ErpInvoiceLine[]): Promise<void> {
+    await authorizeAction('saveAllErpInvoiceLines', IMPORT_PERMISSIONS);
     await saveAllGeneric(data, 'erp_invoice_lines', ['FACTURA', 'TIPO_DOCUMENTO', 'LINEA', 'BODEGA', 'PEDIDO', 'ARTICULO', 'ANULADA', 'FECHA_FACTURA', 'CANTIDAD', 'PRECIO_UNITARIO', 'TOTAL_IMPUESTO1', 'PRECIO_TOTAL', 'DESCRIPCION', 'DOCUMENTO_ORIGEN', 'CANT_DESPACHADA', 'ES_CANASTA_BASICA']);
 }
 
 export async function getUserPreferences(userId: number, key: string): Promise<any | null> {
+    await authorizeOwner('getUserPreferences', userId);
     const db = await connectDb();
     const row = db.prepare('SELECT value FROM user_preferences WHERE userId = ? AND key = ?').get(userId, key) as { value: string } | undefined;
     return row ? JSON.parse(row.value) : null;
 }
 
 export async function saveUserPreferences(userId: number, key: string, value: any): Promise<void> {
+    await authorizeOwner('saveUserPreferences', userId);
     const db = await connectDb();
     db.prepare('INSERT OR REPLACE INTO user_preferences (userId, key, value) VALUES (?, ?, ?)').run(userId, key, JSON.stringify(value));
 }
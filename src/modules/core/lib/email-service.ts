@@ -5,12 +5,15 @@ import nodemailer from 'nodemailer';
 import { connectDb } from './db';
 import type { EmailSettings } from '../types';
 import { logError } from './logger';
+import { authorizeAction } from './authorization';
+import { recordAuditEvent, readKeyValueSnapshot } from './audit';
 
 /**
  * Retrieves email settings from the database.
  * @returns The saved email settings or an empty object.
  */
 export async function getEmailSettings(): Promise<Partial<EmailSettings>> {
+    await authorizeAction('getEmailSettings');
     const db = await connectDb();
     try {
         const rows = db.prepare('SELECT key, value FROM email_settings').all() as { key: string, value: string }[];
@@ -43,7 +46,9 @@ export async function getEmailSettings(): Promise<Partial<EmailSettings>> {
  * @param settings The email settings to save.
  */
 export async function saveEmailSettings(settings: EmailSettings): Promise<void> {
+    const actor = await authorizeAction('saveEmailSettings', ['admin:settings:general', 'admin:settings:email']);
     const db = await connectDb();
+    const before = readKeyValueSnapshot(db, 'email_settings');
     const insert = db.prepare('INSERT OR REPLACE INTO email_settings (key, value) VALUES (?, ?)');
     const transaction = db.transaction((s: EmailSettings) => {
         for (const [key, value] of Object.entries(s)) {
@@ -51,6 +56,7 @@ export async function saveEmailSettings(settings: EmailSettings): Promise<void>
         }
     });
     transaction(settings);
+    await recordAuditEvent(actor, { entityType: 'email_settings', entityId: 'smtp', before, after: readKeyValueSnapshot(db, 'email_settings') });
 }
 
 /**
@@ -86,6 +92,7 @@ function createTransporter(settings: EmailSettings) {
  * @param options.attachments Optional array of attachments.
  */
 export async function sendEmail(options: { to: string | string[], cc?: string, subject: string, html: string, attachments?: any[] }) {
+    await authorizeAction('sendEmail');
     const settings = await getEmailSettings();
     const transporter = createTransporter(settings as EmailSettings);
 
@@ -105,6 +112,7 @@ export async function sendEmail(options: { to: string | string[], cc?: string, s
  * @param testRecipientEmails The email addresses to send the test email to.
  */
 export async function testEmailSettings(settings: EmailSettings, testRecipientEmails: string[]): Promise<void> {
+    await authorizeAction('testEmailSettings', ['admin:settings:general', 'admin:settings:email']);
     const transporter = createTransporter(settings);
     await transporter.sendMail({
         from: `"${settings.smtpUser}" <${settings.smtpUser}>`,
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview The data types imported from the ERP, in import order, with their Spanish labels,
+ * and the local tables of the types that can be synchronized incrementally from SQL Server.
+ * Pure module, safe to import from both server and client code.
+ */
+
+import type { ImportQuery } from '../types';
+
+export type ImportType = ImportQuery['type'];
+
+export const IMPORT_TYPES = ['customers', 'products', 'exemptions', 'stock', 'locations', 'cabys', 'suppliers', 'erp_order_headers', 'erp_order_lines', 'erp_purchase_order_headers', 'erp_purchase_order_lines', 'erp_invoice_headers', 'erp_invoice_lines', 'vendedores', 'direcciones_embarque', 'nominas', 'puestos', 'departamentos', 'empleados', 'vehiculos'] as const satisfies readonly ImportType[];
+
+export const IMPORT_TYPE_LABELS: { [key in ImportType]: string } = {
+    customers: 'Clientes',
+    products: 'Artículos',
+    exemptions: 'Exoneraciones',
+    stock: 'Existencias',
+    locations: 'Ubicaciones',
+    cabys: 'Catálogo CABYS',
+    suppliers: 'Proveedores',
+    erp_order_headers: 'Pedidos ERP (Cabeceras)',
+    erp_order_lines: 'Pedidos ERP (Líneas)',
+    erp_purchase_order_headers: 'Órdenes de Compra ERP (Cabeceras)',
+    erp_purchase_order_lines: 'Órdenes de Compra ERP (Líneas)',
+    erp_invoice_headers: 'Facturas ERP (Cabeceras)',
+    erp_invoice_lines: 'Facturas ERP (Líneas)',
+    vendedores: 'Vendedores',
+    direcciones_embarque: 'Direcciones de Embarque',
+    nominas: 'Nóminas',
+    puestos: 'Puestos',
+    departamentos: 'Departamentos',
+    empleados: 'Empleados',
+    vehiculos: 'Vehículos',
+};
+
+/** Placeholder of the SQL queries replaced by the last watermark of an incremental import. */
+export const SINCE_PLACEHOLDER = '{{since}}';
+
+/** Hours between the full reconciles of an incremental import, when its query sets none. */
+export const DEFAULT_FULL_SYNC_INTERVAL_HOURS = 24;
+
+/**
+ * Local table and primary key of each type that can be imported incrementally: its rows are
+ * upserted by key instead of replacing the table. Stock rows come per warehouse and are merged
+ * into the item row.
+ */
+export const INCREMENTAL_IMPORT_TABLES: { [key in ImportType]?: { table: string; keyColumns: string[] } } = {
+    customers: { table: 'customers', keyColumns: ['id'] },
+    products: { table: 'products', keyColumns: ['id'] },
+    exemptions: { table: 'exemptions', keyColumns: ['code'] },
+    stock: { table: 'stock', keyColumns: ['itemId'] },
+    suppliers: { table: 'suppliers', keyColumns: ['id'] },
+    erp_order_headers: { table: 'erp_order_headers', keyColumns: ['PEDIDO'] },
+    erp_order_lines: { table: 'erp_order_lines', keyColumns: ['PEDIDO', 'PEDIDO_LINEA'] },
+    erp_purchase_order_headers: { table: 'erp_purchase_order_headers', keyColumns: ['ORDEN_COMPRA'] },
+    erp_purchase_order_lines: { table: 'erp_purchase_order_lines', keyColumns: ['ORDEN_COMPRA', 'ARTICULO'] },
+    erp_invoice_headers: { table: 'erp_invoice_headers', keyColumns: ['FACTURA'] },
+    erp_invoice_lines: { table: 'erp_invoice_lines', keyColumns: ['FACTURA', 'TIPO_DOCUMENTO', 'LINEA'] },
+    vendedores: { table: 'vendedores', keyColumns: ['VENDEDOR'] },
+    direcciones_embarque: { table: 'direcciones_embarque', keyColumns: ['CLIENTE', 'DIRECCION'] },
+    nominas: { table: 'nominas', keyColumns: ['NOMINA'] },
+    puestos: { table: 'puestos', keyColumns: ['PUESTO'] },
+    departamentos: { table: 'departamentos', keyColumns: ['DEPARTAMENTO'] },
+    empleados: { table: 'empleados', keyColumns: ['EMPLEADO'] },
+    vehiculos: { table: 'vehiculos', keyColumns: ['placa'] },
+};
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Server actions for the LDAP / Active Directory login provider settings.
+ * Settings are stored as key-value pairs in the `ldap_settings` table, like the email settings.
+ */
+"use server";
+
+import { connectDb } from './db';
+import type { LdapSettings, LdapTestResult } from '../types';
+import { logError, logInfo } from './logger';
+import { authorizeAction } from './authorization';
+import { defaultLdapSettings, lookupLdapUser, resolveLdapRole } from './ldap';
+import { recordAuditEvent, readKeyValueSnapshot } from './audit';
+
+/**
+ * Retrieves the directory settings, filling missing keys with defaults.
+ * @returns The saved LDAP settings.
+ */
+export async function getLdapSettings(): Promise<LdapSettings> {
+    await authorizeAction('getLdapSettings', 'admin:settings:ldap');
+    const db = await connectDb();
+    const settings: LdapSettings = { ...defaultLdapSettings, groupRoleMappings: [] };
+    try {
+        const rows = db.prepare('SELECT key, value FROM ldap_settings').all() as { key: string, value: string }[];
+        for (const row of rows) {
+            switch (row.key) {
+                case 'enabled':
+                case 'startTls':
+                case 'tlsRejectUnauthorized':
+                    settings[row.key] = row.value === 'true';
+                    break;
+                case 'timeoutMs':
+                    settings.timeoutMs = Number(row.value) || defaultLdapSettings.timeoutMs;
+                    break;
+                case 'groupRoleMappings':
+                    settings.groupRoleMappings = JSON.parse(row.value || '[]');
+                    break;
+                case 'url':
+                case 'bindDn':
+                case 'bindPassword':
+                case 'baseDn':
+                case 'userFilter':
+                case 'emailAttribute':
+                case 'nameAttribute':
+                case 'groupAttribute':
+                case 'defaultRoleId':
+                    settings[row.key] = row.value;
+                    break;
+            }
+        }
+    } catch (error) {
+        await logError('getLdapSettings', { error: (error as Error).message });
+    }
+    return settings;
+}
+
+/**
+ * Saves the directory settings.
+ * @param settings The LDAP settings to save.
+ */
+export async function saveLdapSettings(settings: LdapSettings): Promise<void> {
+    const user = await authorizeAction('saveLdapSettings', 'admin:settings:ldap');
+    const db = await connectDb();
+    const before = readKeyValueSnapshot(db, 'ldap_settings');
+    const insert = db.prepare('INSERT OR REPLACE INTO ldap_settings (key, value) VALUES (?, ?)');
+    const transaction = db.transaction((s: LdapSettings) => {
+        for (const [key, value] of Object.entries(s)) {
+            insert.run(key, key === 'groupRoleMappings' ? JSON.stringify(value) : String(value));
+        }
+    });
+    transaction(settings);
+    await recordAuditEvent(user, { entityType: 'ldap_settings', entityId: 'ldap', before, after: readKeyValueSnapshot(db, 'ldap_settings') });
+    await logInfo(`LDAP settings updated by ${user.name}.`, { enabled: settings.enabled, url: settings.url });
+}
+
+/**
+ * Tests the connection and service account and, optionally, looks up a user to preview
+ * the directory data and the role they would receive. The user's password is not checked.
+ * @param settings The settings to test (they do not need to be saved).
+ * @param testLogin An optional login identifier to look up.
+ * @returns The outcome of the test.
+ */
+export async function testLdapSettings(settings: LdapSettings, testLogin?: string): Promise<LdapTestResult> {
+    await authorizeAction('testLdapSettings', 'admin:settings:ldap');
+    const entry = await lookupLdapUser(settings, testLogin?.trim() || undefined);
+    if (!entry) {
+        return { connected: true };
+    }
+    return {
+        connected: true,
+        user: { ...entry, roleId: resolveLdapRole(entry.groups, settings.groupRoleMappings, settings.defaultRoleId) },
+    };
+}
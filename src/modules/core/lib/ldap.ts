@@ -0,0 +1,205 @@
+/**
+ * @fileoverview LDAP / Active Directory bind authentication used as an optional login provider.
+ * The flow is the classic "search then bind": the service account (or an anonymous bind) finds
+ * the user's entry with the configured filter, then a second bind with the user's DN and password
+ * proves the credentials. Nothing here depends on a hosted service, so it works against any
+ * directory reachable from the server, including a local OpenLDAP container.
+ * This module has no "use server" directive; it is only imported by server-side code.
+ */
+
+import { Client, InvalidCredentialsError } from 'ldapts';
+import type { Entry } from 'ldapts';
+import type { LdapGroupRoleMapping, LdapSettings } from '@/modules/core/types';
+
+export const defaultLdapSettings: LdapSettings = {
+    enabled: false,
+    url: 'ldap://localhost:389',
+    startTls: false,
+    tlsRejectUnauthorized: true,
+    bindDn: '',
+    bindPassword: '',
+    baseDn: '',
+    userFilter: '(|(mail={{username}})(uid={{username}})(sAMAccountName={{username}}))',
+    emailAttribute: 'mail',
+    nameAttribute: 'cn',
+    groupAttribute: 'memberOf',
+    groupRoleMappings: [],
+    defaultRoleId: '',
+    timeoutMs: 5000,
+};
+
+/**
+ * The directory data of a user whose credentials were verified.
+ */
+export interface LdapUserEntry {
+    dn: string;
+    email: string;
+    name: string;
+    groups: string[];
+}
+
+/**
+ * Escapes a value for use inside an LDAP search filter (RFC 4515), so a login
+ * identifier can never change the structure of the configured filter.
+ * @param value - The raw value.
+ * @returns The escaped value.
+ */
+function escapeFilterValue(value: string): string {
+    return value.replace(/[\\*()\0]/g, (char) => `\\${char.charCodeAt(0).toString(16).padStart(2, '0')}`);
+}
+
+/**
+ * Reads an attribute from a search entry as a list of strings.
+ * @param entry - The search entry.
+ * @param attribute - The attribute name.
+ * @returns The attribute values; empty if the attribute is missing.
+ */
+function readAttribute(entry: Entry, attribute: string): string[] {
+    const value = attribute ? entry[attribute] : undefined;
+    if (value === undefined) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values.map((item) => (Buffer.isBuffer(item) ? item.toString('utf8') : String(item)));
+}
+
+/**
+ * Converts a search entry into the user data the application needs.
+ * @param entry - The user's search entry.
+ * @param settings - The directory settings, which name the attributes to read.
+ * @param login - The identifier typed by the user, used when an attribute is missing.
+ * @returns The user's directory data.
+ */
+function toUserEntry(entry: Entry, settings: LdapSettings, login: string): LdapUserEntry {
+    return {
+        dn: entry.dn,
+        email: (readAttribute(entry, settings.emailAttribute)[0] || login).toLowerCase(),
+        name: readAttribute(entry, settings.nameAttribute)[0] || login,
+        groups: readAttribute(entry, settings.groupAttribute),
+    };
+}
+
+/**
+ * Opens a client connection, upgrading it with StartTLS when configured.
+ * @param settings - The directory settings.
+ * @returns A connected client; the caller must unbind it.
+ */
+async function openClient(settings: LdapSettings): Promise<Client> {
+    if (!settings.url) {
+        throw new Error('La URL del servidor LDAP no está configurada.');
+    }
+    const tlsOptions = { rejectUnauthorized: settings.tlsRejectUnauthorized };
+    const client = new Client({
+        url: settings.url,
+        timeout: settings.timeoutMs,
+        connectTimeout: settings.timeoutMs,
+        tlsOptions,
+    });
+    if (settings.startTls && settings.url.startsWith('ldap://')) {
+        await client.startTLS(tlsOptions);
+    }
+    return client;
+}
+
+/**
+ * Binds with the service account, or anonymously when no bind DN is configured.
+ * @param client - The connected client.
+ * @param settings - The directory settings.
+ */
+async function bindServiceAccount(client: Client, settings: LdapSettings): Promise<void> {
+    if (settings.bindDn) {
+        await client.bind(settings.bindDn, settings.bindPassword);
+    }
+}
+
+/**
+ * Looks up the single directory entry matching a login identifier.
+ * @param client - A client bound with the service account.
+ * @param settings - The directory settings.
+ * @param login - The identifier typed by the user (usually their email).
+ * @returns The entry, or null if none or more than one entry matched.
+ */
+async function findUserEntry(client: Client, settings: LdapSettings, login: string): Promise<Entry | null> {
+    const filter = settings.userFilter.replace(/\{\{username\}\}/g, escapeFilterValue(login));
+    const { searchEntries } = await client.search(settings.baseDn, {
+        scope: 'sub',
+        filter,
+        attributes: [settings.emailAttribute, settings.nameAttribute, settings.groupAttribute].filter(Boolean),
+        sizeLimit: 2,
+    });
+    return searchEntries.length === 1 ? searchEntries[0] : null;
+}
+
+/**
+ * Verifies a user's credentials against the directory.
+ * @param settings - The directory settings.
+ * @param login - The identifier typed by the user.
+ * @param password - The plaintext password.
+ * @returns The user's directory data, or null if the user was not found or the password is wrong.
+ * @throws If the directory cannot be reached or the service account bind fails.
+ */
+export async function authenticateLdapUser(settings: LdapSettings, login: string, password: string): Promise<LdapUserEntry | null> {
+    // An empty password would turn the user bind into an anonymous bind, which most servers accept.
+    if (!login || !password) return null;
+
+    const client = await openClient(settings);
+    try {
+        await bindServiceAccount(client, settings);
+        const entry = await findUserEntry(client, settings, login);
+        if (!entry) return null;
+
+        try {
+            await client.bind(entry.dn, password);
+        } catch (error) {
+            if (error instanceof InvalidCredentialsError) return null;
+            throw error;
+        }
+
+        return toUserEntry(entry, settings, login);
+    } finally {
+        await client.unbind().catch(() => undefined);
+    }
+}
+
+/**
+ * Checks the connection and service account, and optionally looks up a user without binding as them.
+ * @param settings - The directory settings.
+ * @param login - An optional identifier to look up.
+ * @returns The user's directory data when a login was given and found, otherwise null.
+ * @throws If the directory cannot be reached or the service account bind fails.
+ */
+export async function lookupLdapUser(settings: LdapSettings, login?: string): Promise<LdapUserEntry | null> {
+    const client = await openClient(settings);
+    try {
+        await bindServiceAccount(client, settings);
+        if (!login) return null;
+        const entry = await findUserEntry(client, settings, login);
+        if (!entry) return null;
+        return toUserEntry(entry, settings, login);
+    } finally {
+        await client.unbind().catch(() => undefined);
+    }
+}
+
+/**
+ * Resolves the application role for a set of directory groups.
+ * Mappings are evaluated in order and the first match wins. A mapping matches a group
+ * by its full DN or by its CN, case-insensitively.
+ * @param groups - The group DNs from the user's entry.
+ * @param mappings - The configured group-to-role mappings.
+ * @param defaultRoleId - The role for users with no mapped group; empty to deny access.
+ * @returns The role ID, or null if the user may not log in.
+ */
+export function resolveLdapRole(groups: string[], mappings: LdapGroupRoleMapping[], defaultRoleId: string): string | null {
+    const groupKeys = new Set<string>();
+    for (const group of groups) {
+        const normalized = group.trim().toLowerCase();
+        groupKeys.add(normalized);
+        const cn = /^cn=([^,]+)/.exec(normalized);
+        if (cn) groupKeys.add(cn[1].trim());
+    }
+    for (const mapping of mappings) {
+        if (mapping.roleId && groupKeys.has(mapping.group.trim().toLowerCase())) {
+            return mapping.roleId;
+        }
+    }
+    return defaultRoleId || null;
+}
@@ -8,6 +8,30 @@
 
 import { addLog as dbAddLog, getLogs as dbGetLogs, clearLogs as dbClearLogs } from '@/modules/core/lib/db';
 import type { LogEntry, DateRange } from "@/modules/core/types";
+import { getCurrentUser } from '@/modules/core/lib/auth';
+
+/**
+ * Credits the impersonating admin in entries written during an impersonation session,
+ * so they read "Admin 'X' acting as 'Y'". Outside of a request (e.g., scheduled tasks)
+ * there is no session and the entry is left unchanged.
+ * @param message The message to log.
+ * @param details Optional structured data to include.
+ * @returns The message and details to store.
+ */
+async function withImpersonation(message: string, details?: Record<string, any>): Promise<{ message: string; details?: Record<string, any> }> {
+  try {
+    const user = await getCurrentUser();
+    if (user?.impersonatedBy) {
+      return {
+        message: `[Admin '${user.impersonatedBy.name}' acting as '${user.name}'] ${message}`,
+        details: { ...details, impersonatorId: user.impersonatedBy.id, impersonatedUserId: user.id },
+      };
+    }
+  } catch {
+    // No request scope (cookies are unavailable), so there is no session to attribute.
+  }
+  return { message, details };
+}
 
 /**
  * Logs an informational message.
@@ -15,7 +39,7 @@ import type { LogEntry, DateRange } from "@/modules/core/types";
  * @param details Optional structured data to include.
  */
 export async function logInfo(message: string, details?: Record<string, any>) {
-  await dbAddLog({ type: "INFO", message, details });
+  await dbAddLog({ type: "INFO", ...(await withImpersonation(message, details)) });
 }
 
 /**
@@ -24,7 +48,7 @@ export async function logInfo(message: string, details?: Record<string, any>) {
  * @param details Optional structured data to include.
  */
 export async function logWarn(message: string, details?: Record<string, any>) {
-  await dbAddLog({ type: "WARN", message, details });
+  await dbAddLog({ type: "WARN", ...(await withImpersonation(message, details)) });
 }
 
 /**
@@ -33,7 +57,7 @@ export async function logWarn(message: string, details?: Record<string, any>) {
  * @param details Optional structured data, often including the error object.
  */
 export async function logError(context: string, details?: Record<string, any>) {
-  await dbAddLog({ type: "ERROR", message: context, details });
+  await dbAddLog({ type: "ERROR", ...(await withImpersonation(context, details)) });
 }
 
 /**
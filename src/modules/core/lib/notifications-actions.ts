@@ -7,7 +7,6 @@ import { revalidatePath } from 'next/cache';
 import { 
     getNotifications as dbGetNotifications, 
     markNotificationsAsRead as dbMarkAsRead, 
-    createNotification as dbCreateNotification, 
     getNotificationById, 
     deleteNotificationById 
 } from '@/modules/notifications/lib/db'; 
@@ -16,19 +15,25 @@ import type { Notification, User, ProductionOrderStatus, PurchaseRequestStatus }
 import { updateStatus as updatePlannerStatus, confirmModification } from '@/modules/planner/lib/db';
 import { updateStatus as updateRequestStatus, updatePendingAction } from '@/modules/requests/lib/db';
 import { logError } from '@/modules/core/lib/logger';
+import { authorizeAction, authorizeOwner } from './authorization';
 import { getRolesWithPermission as getRolesWithPermissionFromDb } from '@/modules/planner/lib/db';
+import { getUserPreferences } from './db';
+import { deliverUserNotification } from '@/modules/notifications/lib/user-notification-service';
+import { USER_NOTIFICATION_PREFERENCES_KEY, normalizeUserNotificationPreferences } from '@/modules/notifications/lib/user-notification-preferences';
 
 
 /**
- * Creates a new notification for a single user.
+ * Creates a new notification for a single user, on the channels the user enabled for it.
  * @param notificationData - The data for the notification.
  */
 export async function createNotification(notificationData: Omit<Notification, 'id' | 'timestamp' | 'isRead'>): Promise<void> {
-    await dbCreateNotification(notificationData);
+    await authorizeAction('createNotification');
+    await deliverUserNotification(notificationData);
 }
 
 /**
  * Creates a notification for all users who have a specific permission.
+ * Each user receives it on the channels enabled in their notification preferences.
  * @param permission - The permission string required to receive the notification.
  * @param message - The notification message.
  * @param href - An optional URL for the notification to link to.
@@ -44,6 +49,7 @@ export async function createNotificationForPermission(
     entityType: string,
     taskType: string
 ): Promise<void> {
+    await authorizeAction('createNotificationForPermission');
     const allUsers = await dbGetAllUsers();
     // Get roles that have this permission. Admin is a special case.
     const relevantRoleIds = await getRolesWithPermissionFromDb(permission);
@@ -54,7 +60,7 @@ export async function createNotificationForPermission(
     );
 
     for (const user of targetUsers) {
-        await dbCreateNotification({ 
+        await deliverUserNotification({ 
             userId: user.id, 
             message, 
             href,
@@ -72,7 +78,11 @@ export async function createNotificationForPermission(
  * @returns A promise that resolves to an array of notifications.
  */
 export async function getNotificationsForUser(userId: number): Promise<Notification[]> {
-    return dbGetNotifications(userId);
+    await authorizeOwner('getNotificationsForUser', userId);
+    const notifications = await dbGetNotifications(userId);
+    // Suggestions are listed from the suggestions themselves, so the bell preference is applied here.
+    const preferences = normalizeUserNotificationPreferences(await getUserPreferences(userId, USER_NOTIFICATION_PREFERENCES_KEY));
+    return preferences.channels.suggestions.inApp ? notifications : notifications.filter(n => !n.isSuggestion);
 }
 
 /**
@@ -81,6 +91,7 @@ export async function getNotificationsForUser(userId: number): Promise<Notificat
  * @param userId - The ID of the user who owns the notification, for security.
  */
 export async function markNotificationAsRead(notificationId: number, userId: number): Promise<void> {
+    await authorizeOwner('markNotificationAsRead', userId);
     await dbMarkAsRead([notificationId], userId);
     revalidatePath('/dashboard');
 }
@@ -90,6 +101,7 @@ export async function markNotificationAsRead(notificationId: number, userId: num
  * @param userId - The ID of the user whose notifications should be marked as read.
  */
 export async function markAllNotificationsAsRead(userId: number): Promise<void> {
+    await authorizeOwner('markAllNotificationsAsRead', userId);
     const notifications = await dbGetNotifications(userId);
     const unreadIds = notifications.filter(n => !n.isRead && typeof n.id === 'number').map(n => n.id as number);
     if (unreadIds.length > 0) {
@@ -106,6 +118,7 @@ export async function markAllNotificationsAsRead(userId: number): Promise<void>
  * @param userId - The ID of the user performing the action (for validation).
  */
 export async function executeNotificationAction(notificationId: number, actionType: 'approve' | 'reject', updatedBy: string, userId: number): Promise<{ success: boolean, message: string }> {
+    await authorizeOwner('executeNotificationAction', userId);
     const notification = await getNotificationById(notificationId);
 
     if (!notification || notification.userId !== userId) {
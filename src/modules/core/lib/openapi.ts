@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Builds the OpenAPI 3 document of the `/api/v1` REST API from the Zod
+ * schemas in `api-schemas.ts`. Only the Zod constructs used by those schemas are translated.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+import { apiEndpoints, type ApiEndpoint } from './api-schemas';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Translates a Zod schema into a JSON Schema (OpenAPI 3.0 dialect).
+ * Effects (transforms) are documented by their input schema, which is what clients send.
+ * @param schema - The Zod schema.
+ * @returns The equivalent JSON Schema.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+    const description = schema.description ? { description: schema.description } : {};
+
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodEffects) {
+        const inner = schema instanceof z.ZodOptional ? schema.unwrap() : schema.innerType();
+        return { ...zodToJsonSchema(inner), ...description };
+    }
+    if (schema instanceof z.ZodNullable) {
+        return { ...zodToJsonSchema(schema.unwrap()), nullable: true, ...description };
+    }
+    if (schema instanceof z.ZodDefault) {
+        return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue(), ...description };
+    }
+    if (schema instanceof z.ZodString) {
+        return { type: 'string', ...(schema.isDate ? { format: 'date' } : {}), ...description };
+    }
+    if (schema instanceof z.ZodNumber) {
+        return {
+            type: schema.isInt ? 'integer' : 'number',
+            ...(schema.minValue !== null ? { minimum: schema.minValue } : {}),
+            ...(schema.maxValue !== null ? { maximum: schema.maxValue } : {}),
+            ...description,
+        };
+    }
+    if (schema instanceof z.ZodBoolean) {
+        return { type: 'boolean', ...description };
+    }
+    if (schema instanceof z.ZodEnum) {
+        return { type: 'string', enum: schema.options, ...description };
+    }
+    if (schema instanceof z.ZodArray) {
+        return { type: 'array', items: zodToJsonSchema(schema.element), ...description };
+    }
+    if (schema instanceof z.ZodRecord) {
+        return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema), ...description };
+    }
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, ZodTypeAny>;
+        const required = Object.entries(shape).filter(([, field]) => !field.isOptional()).map(([key]) => key);
+        return {
+            type: 'object',
+            properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, zodToJsonSchema(field)])),
+            ...(required.length > 0 ? { required } : {}),
+            ...(schema._def.unknownKeys === 'passthrough' ? { additionalProperties: true } : {}),
+            ...description,
+        };
+    }
+    return { ...description };
+}
+
+/**
+ * Describes the query string of an endpoint as OpenAPI parameters.
+ * @param endpoint - The endpoint definition.
+ * @returns One parameter per field of the query schema.
+ */
+function toQueryParameters(endpoint: ApiEndpoint) {
+    const shape = (endpoint.query as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+    return Object.entries(shape).map(([name, field]) => {
+        const { description, ...schema } = zodToJsonSchema(field);
+        return { name, in: 'query', required: !field.isOptional(), description, schema };
+    });
+}
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] } } },
+});
+
+/**
+ * Builds the OpenAPI document for every endpoint in `apiEndpoints`.
+ * @param serverUrl - The base URL of this installation, listed as the API server.
+ * @returns The OpenAPI 3.0 document.
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+    const endpoints: ApiEndpoint[] = Object.values(apiEndpoints);
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'Clic-Tools API',
+            version: '1.0.0',
+            description: 'API REST de solo lectura para integraciones. Autentíquese con un token personal creado en "Mi Perfil" (encabezado Authorization: Bearer <token>). '
+                + 'Cada endpoint requiere uno de los permisos indicados, tanto en el usuario como en el token, y respeta el alcance de datos del usuario.',
+        },
+        ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+        components: {
+            securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+        },
+        security: [{ bearerAuth: [] }],
+        paths: Object.fromEntries(endpoints.map(endpoint => [endpoint.path, {
+            get: {
+                tags: [endpoint.tag],
+                summary: endpoint.summary,
+                description: `Permisos requeridos (cualquiera): ${endpoint.permissions.join(', ')}.`,
+                parameters: toQueryParameters(endpoint),
+                responses: {
+                    200: { description: 'OK', content: { 'application/json': { schema: zodToJsonSchema(endpoint.response) } } },
+                    400: errorResponse('Parámetros de consulta inválidos.'),
+                    401: errorResponse('Token ausente, inválido o vencido.'),
+                    403: errorResponse('El usuario o el token no tienen el permiso requerido.'),
+                },
+            },
+        }])),
+    };
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Password policy rules shared by the client and the server.
+ * The client uses them to give immediate feedback on forms; the server enforces
+ * the same rules (plus password history, which needs the stored hashes) before
+ * any password is saved. This module is pure and safe to import anywhere.
+ */
+
+import type { Company, PasswordPolicy } from '@/modules/core/types';
+
+const MIN_ALLOWED_LENGTH = 6;
+
+/**
+ * Builds the password policy from the company settings, applying defaults for missing values.
+ * @param settings - The company settings (or the subset holding the password columns).
+ * @returns The effective password policy.
+ */
+export function getPasswordPolicyFromSettings(settings: Partial<Company> | null | undefined): PasswordPolicy {
+    return {
+        minLength: Math.max(settings?.passwordMinLength ?? 8, MIN_ALLOWED_LENGTH),
+        requireUppercase: !!settings?.passwordRequireUppercase,
+        requireLowercase: !!settings?.passwordRequireLowercase,
+        requireNumber: !!settings?.passwordRequireNumber,
+        requireSymbol: !!settings?.passwordRequireSymbol,
+        maxAgeDays: settings?.passwordMaxAgeDays ?? 0,
+        historyCount: settings?.passwordHistoryCount ?? 3,
+        tempPasswordExpiryMinutes: settings?.tempPasswordExpiryMinutes ?? 60,
+    };
+}
+
+/**
+ * Checks a plaintext password against the length and character class rules of a policy.
+ * @param password - The candidate password.
+ * @param policy - The policy to apply.
+ * @returns The list of unmet rules as user-facing messages; empty if the password is valid.
+ */
+export function validatePassword(password: string, policy: PasswordPolicy): string[] {
+    const errors: string[] = [];
+    if (password.length < policy.minLength) {
+        errors.push(`Debe tener al menos ${policy.minLength} caracteres.`);
+    }
+    if (policy.requireUppercase && !/[A-ZÁÉÍÓÚÑ]/.test(password)) {
+        errors.push('Debe incluir al menos una letra mayúscula.');
+    }
+    if (policy.requireLowercase && !/[a-záéíóúñ]/.test(password)) {
+        errors.push('Debe incluir al menos una letra minúscula.');
+    }
+    if (policy.requireNumber && !/\d/.test(password)) {
+        errors.push('Debe incluir al menos un número.');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9ÁÉÍÓÚÑáéíóúñ]/.test(password)) {
+        errors.push('Debe incluir al menos un símbolo.');
+    }
+    return errors;
+}
+
+/**
+ * Summarizes a policy in one sentence, for use as a hint below password fields.
+ * @param policy - The policy to describe.
+ * @returns A short description, e.g. "Mínimo 8 caracteres, con mayúsculas y números."
+ */
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+    const classes = [
+        policy.requireUppercase && 'mayúsculas',
+        policy.requireLowercase && 'minúsculas',
+        policy.requireNumber && 'números',
+        policy.requireSymbol && 'símbolos',
+    ].filter(Boolean) as string[];
+    const classText = classes.length > 0
+        ? `, con ${classes.length > 1 ? `${classes.slice(0, -1).join(', ')} y ${classes[classes.length - 1]}` : classes[0]}`
+        : '';
+    return `Mínimo ${policy.minLength} caracteres${classText}.`;
+}
@@ -3,6 +3,8 @@
  * Separating this from data.ts breaks a problematic dependency cycle.
  */
 
+import type { Role } from '@/modules/core/types';
+
 export const allAdminPermissions = [
     "admin:access",
     "dashboard:access", "quotes:create", "quotes:generate", "quotes:drafts:create", "quotes:drafts:read", "quotes:drafts:delete",
@@ -10,7 +12,7 @@ export const allAdminPermissions = [
     "requests:view:sale-price", "requests:view:cost", "requests:view:margin",
     "requests:edit:pending", "requests:edit:approved", "requests:reopen",
     "requests:status:review", "requests:status:pending-approval", "requests:status:approve", "requests:status:ordered", "requests:status:received-in-warehouse", "requests:status:entered-erp", "requests:status:cancel", "requests:status:unapproval-request", "requests:status:unapproval-request:approve", "requests:status:revert-to-approved",
-    "planner:access", "planner:read", "planner:read:all", "planner:create", "planner:edit:pending", "planner:edit:approved", "planner:reopen", "planner:receive", "planner:status:review", "planner:status:approve", "planner:status:in-progress", "planner:status:on-hold", 
+    "planner:access", "planner:read", "planner:read:all", "planner:create", "planner:edit:pending", "planner:edit:approved", "planner:reopen", "planner:receive", "planner:status:review", "planner:status:pending-approval", "planner:status:approve", "planner:status:in-progress", "planner:status:on-hold", 
     "planner:status:completed", "planner:status:cancel", "planner:status:cancel-approved", "planner:status:unapprove-request", "planner:status:unapprove-request:approve",
     "planner:priority:update", "planner:machine:assign", "planner:schedule",
     "cost-assistant:access", "cost-assistant:drafts:read-write",
@@ -28,10 +30,10 @@ export const allAdminPermissions = [
     "hacienda:query",
     "analytics:read", "analytics:purchase-suggestions:read", "analytics:purchase-report:read", "analytics:production-report:read", "analytics:transits-report:read", "analytics:user-permissions:read", "analytics:physical-inventory-report:read", "analytics:receiving-report:read", "analytics:dispatch-report:read",
     "users:create", "users:read", "users:update", "users:delete",
-    "roles:create", "roles:read", "roles:update", "roles:delete", "admin:settings:general", "admin:settings:api", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant", "admin:settings:email",
+    "roles:create", "roles:read", "roles:update", "roles:delete", "admin:settings:general", "admin:settings:api", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant", "admin:settings:email", "admin:settings:ldap",
     "admin:suggestions:read", "admin:notifications:read", "admin:notifications:write",
     "admin:import:run", "admin:import:files", "admin:import:sql", "admin:import:sql-config",
-    "admin:logs:read", "admin:logs:clear",
+    "admin:logs:read", "admin:logs:clear", "admin:audit:read", "admin:impersonate",
     "admin:maintenance:backup", "admin:maintenance:restore", "admin:maintenance:reset"
 ];
 
@@ -43,7 +45,7 @@ export const permissionGroups = {
     "Solicitud de Compra (Acciones de Aprobador)": ["requests:reopen", "requests:status:approve", "requests:status:ordered", "requests:status:received-in-warehouse", "requests:status:entered-erp", "requests:status:cancel", "requests:status:revert-to-approved", "requests:status:unapproval-request", "requests:status:unapproval-request:approve"],
     "Solicitud de Compra (Finanzas)": ["requests:view:sale-price", "requests:view:cost", "requests:view:margin"],
     "Planificador de Producción (Lectura y Creación)": ["planner:access", "planner:read", "planner:read:all", "planner:create"],
-    "Planificador de Producción (Edición y Acciones)": ["planner:edit:pending", "planner:edit:approved", "planner:reopen", "planner:receive", "planner:status:review", "planner:status:approve", "planner:status:in-progress", "planner:status:on-hold", 
+    "Planificador de Producción (Edición y Acciones)": ["planner:edit:pending", "planner:edit:approved", "planner:reopen", "planner:receive", "planner:status:review", "planner:status:pending-approval", "planner:status:approve", "planner:status:in-progress", "planner:status:on-hold", 
     "planner:status:completed", "planner:status:cancel", "planner:status:cancel-approved", "planner:status:unapprove-request", "planner:status:unapprove-request:approve", "planner:priority:update", "planner:machine:assign", "planner:schedule"],
     "Asistente de Costos": ["cost-assistant:access", "cost-assistant:drafts:read-write"],
     "Gestión de Almacenes": [
@@ -64,10 +66,10 @@ export const permissionGroups = {
     "Gestión de Roles": ["roles:create", "roles:read", "roles:update", "roles:delete"],
     "Administración del Sistema": [
         "admin:access",
-        "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant",
+        "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:ldap", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant",
         "admin:suggestions:read", "admin:notifications:read", "admin:notifications:write",
         "admin:import:run", "admin:import:files", "admin:import:sql", "admin:import:sql-config",
-        "admin:logs:read", "admin:logs:clear",
+        "admin:logs:read", "admin:logs:clear", "admin:audit:read", "admin:impersonate",
         "admin:maintenance:backup", "admin:maintenance:restore", "admin:maintenance:reset"
     ],
 };
@@ -79,7 +81,7 @@ export const permissionTranslations: { [key: string]: string } = {
     "requests:edit:pending": "Compras: Editar (Pendientes)", "requests:edit:approved": "Compras: Editar (Aprobadas)", "requests:status:review": "Compras: Enviar a Revisión", "requests:status:pending-approval": "Compras: Enviar a Aprobación", "requests:reopen": "Compras: Reabrir", "requests:status:approve": "Compras: Aprobar", "requests:status:ordered": "Compras: Marcar como Ordenada", "requests:status:received-in-warehouse": "Compras: Recibir en Bodega", "requests:status:entered-erp": "Compras: Ingresar a ERP", "requests:status:cancel": "Compras: Cancelar", "requests:status:revert-to-approved": "Compras: Revertir a Aprobada", "requests:status:unapproval-request": "Compras: Solicitar Desaprobación", "requests:status:unapproval-request:approve": "Compras: Aprobar Desaprobación",
     "requests:view:sale-price": "Compras: Ver Precio Venta", "requests:view:cost": "Compras: Ver Costo", "requests:view:margin": "Compras: Ver Margen",
     "planner:access": "Plan.: Acceso General", "planner:read": "Plan.: Leer Órdenes", "planner:read:all": "Plan.: Leer Todas las Órdenes", "planner:create": "Plan.: Crear Órdenes",
-    "planner:edit:pending": "Plan.: Editar (Pendientes)", "planner:edit:approved": "Plan.: Editar (Aprobadas)", "planner:reopen": "Plan.: Reabrir Órdenes", "planner:receive": "Plan.: Recibir en Bodega", "planner:status:review": "Plan.: Enviar a Revisión", "planner:status:approve": "Plan.: Cambiar a Aprobada", "planner:status:in-progress": "Plan.: Cambiar a En Progreso", "planner:status:on-hold": "Plan.: Cambiar a En Espera", 
+    "planner:edit:pending": "Plan.: Editar (Pendientes)", "planner:edit:approved": "Plan.: Editar (Aprobadas)", "planner:reopen": "Plan.: Reabrir Órdenes", "planner:receive": "Plan.: Recibir en Bodega", "planner:status:review": "Plan.: Enviar a Revisión", "planner:status:pending-approval": "Plan.: Enviar a Aprobación", "planner:status:approve": "Plan.: Cambiar a Aprobada", "planner:status:in-progress": "Plan.: Cambiar a En Progreso", "planner:status:on-hold": "Plan.: Cambiar a En Espera", 
     "planner:status:completed": "Plan.: Cambiar a Completada", "planner:status:cancel": "Plan.: Cancelar (Pendientes)", "planner:status:cancel-approved": "Plan.: Cancelar (Aprobadas)", "planner:priority:update": "Plan.: Cambiar Prioridad", "planner:machine:assign": "Plan.: Asignar Máquina", "planner:status:unapprove-request": "Plan.: Solicitar Desaprobación", "planner:status:unapprove-request:approve": "Plan.: Aprobar Desaprobación", "planner:schedule": "Plan.: Programar Fechas",
     "cost-assistant:access": "Asist. Costos: Acceso", "cost-assistant:drafts:read-write": "Asist. Costos: Guardar Borradores",
     "warehouse:access": "Almacén: Acceso General", "warehouse:search:full": "Almacén: Consulta Completa", "warehouse:search:simple": "Almacén: Búsqueda Rápida", 
@@ -97,10 +99,12 @@ export const permissionTranslations: { [key: string]: string } = {
     "analytics:read": "Analíticas: Acceso", "analytics:purchase-suggestions:read": "Analíticas: Sugerencias Compra", "analytics:purchase-report:read": "Analíticas: Reporte Compras", "analytics:production-report:read": "Analíticas: Reporte Producción", "analytics:transits-report:read": "Analíticas: Reporte Tránsitos", "analytics:user-permissions:read": "Analíticas: Reporte Permisos", "analytics:physical-inventory-report:read": "Analíticas: Reporte Inv. Físico", "analytics:receiving-report:read": "Analíticas: Reporte Recepciones", "analytics:dispatch-report:read": "Analíticas: Reporte Despachos",
     "users:create": "Usuarios: Crear", "users:read": "Usuarios: Leer", "users:update": "Usuarios: Actualizar", "users:delete": "Usuarios: Eliminar",
     "roles:create": "Roles: Crear", "roles:read": "Roles: Leer", "roles:update": "Roles: Actualizar", "roles:delete": "Roles: Eliminar",
-    "admin:settings:general": "Admin: Config. General", "admin:settings:api": "Admin: Config. de API", "admin:settings:email": "Admin: Config. Correo", "admin:settings:planner": "Admin: Config. Planificador", "admin:settings:requests": "Admin: Config. Compras", "admin:settings:warehouse": "Admin: Config. Almacenes", "admin:settings:stock": "Admin: Config. Inventario", "admin:settings:cost-assistant": "Admin: Config. Asist. Costos",
+    "admin:settings:general": "Admin: Config. General", "admin:settings:api": "Admin: Config. de API", "admin:settings:email": "Admin: Config. Correo", "admin:settings:ldap": "Admin: Config. Directorio (LDAP)", "admin:settings:planner": "Admin: Config. Planificador", "admin:settings:requests": "Admin: Config. Compras", "admin:settings:warehouse": "Admin: Config. Almacenes", "admin:settings:stock": "Admin: Config. Inventario", "admin:settings:cost-assistant": "Admin: Config. Asist. Costos",
     "admin:suggestions:read": "Admin: Leer Sugerencias", "admin:notifications:read": "Admin: Leer Configs. Notificaciones", "admin:notifications:write": "Admin: Modificar Configs. Notificaciones",
     "admin:import:run": "Admin: Ejecutar Sincronización ERP", "admin:import:files": "Admin: Importar (Archivos)", "admin:import:sql": "Admin: Importar (SQL)", "admin:import:sql-config": "Admin: Configurar SQL",
     "admin:logs:read": "Admin: Ver Registros (Logs)", "admin:logs:clear": "Admin: Limpiar Registros (Logs)",
+    "admin:audit:read": "Admin: Ver Auditoría de Cambios",
+    "admin:impersonate": "Admin: Ver como Otro Usuario",
     "admin:maintenance:backup": "Admin: Mantenimiento (Backup)", "admin:maintenance:restore": "Admin: Mantenimiento (Restaurar)", "admin:maintenance:reset": "Admin: Mantenimiento (Resetear)",
 };
 
@@ -111,10 +115,10 @@ export const adminPermissions = [
     "admin:access",
     "users:create", "users:read", "users:update", "users:delete",
     "roles:create", "roles:read", "roles:update", "roles:delete",
-    "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant",
+    "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:ldap", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant",
     "admin:suggestions:read", "admin:notifications:read", "admin:notifications:write",
     "admin:import:run", "admin:import:files", "admin:import:sql", "admin:import:sql-config",
-    "admin:logs:read", "admin:logs:clear",
+    "admin:logs:read", "admin:logs:clear", "admin:audit:read", "admin:impersonate",
     "admin:maintenance:backup", "admin:maintenance:restore", "admin:maintenance:reset",
 ];
 
@@ -135,7 +139,7 @@ export const analyticsPermissions = [
 
 export const permissionTree: Record<string, string[]> = {
     // Top-level Access
-    "admin:access": ["users:read", "roles:read", "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant", "admin:suggestions:read", "admin:notifications:read", "admin:import:run", "admin:logs:read", "admin:maintenance:backup"],
+    "admin:access": ["users:read", "roles:read", "admin:settings:general", "admin:settings:api", "admin:settings:email", "admin:settings:ldap", "admin:settings:planner", "admin:settings:requests", "admin:settings:warehouse", "admin:settings:stock", "admin:settings:cost-assistant", "admin:suggestions:read", "admin:notifications:read", "admin:import:run", "admin:logs:read", "admin:audit:read", "admin:maintenance:backup"],
     "analytics:read": ["analytics:purchase-suggestions:read", "analytics:purchase-report:read", "analytics:production-report:read", "analytics:transits-report:read", "analytics:user-permissions:read", "analytics:physical-inventory-report:read", "analytics:receiving-report:read", "analytics:dispatch-report:read"],
     "warehouse:access": ["warehouse:search:full", "warehouse:search:simple", "warehouse:receiving-wizard:use", "warehouse:population-wizard:use", "warehouse:inventory-count:create", "warehouse:correction:use", "warehouse:item-assignment:create", "warehouse:locations:create", "warehouse:units:create", "warehouse:locks:manage", "warehouse:dispatch-check:use", "warehouse:dispatch-classifier:use", "warehouse:dispatch-containers:manage", "warehouse:labels:print"],
     "requests:access": ["requests:read"],
@@ -144,7 +148,7 @@ export const permissionTree: Record<string, string[]> = {
     "planner:read": ["planner:read:all", "planner:create"],
 
     // Second-level dependencies
-    "users:read": ["users:create", "users:update", "users:delete"],
+    "users:read": ["users:create", "users:update", "users:delete", "admin:impersonate"],
     "roles:read": ["roles:create", "roles:update", "roles:delete"],
     "admin:import:run": ["admin:import:files", "admin:import:sql", "admin:import:sql-config"],
     "admin:logs:read": ["admin:logs:clear"],
@@ -165,7 +169,8 @@ export const permissionTree: Record<string, string[]> = {
     "requests:view:cost": ["requests:view:sale-price"],
     
     "planner:create": ["planner:edit:pending", "planner:status:review"],
-    "planner:status:review": ["planner:status:approve"],
+    "planner:status:review": ["planner:status:pending-approval"],
+    "planner:status:pending-approval": ["planner:status:approve"],
     "planner:status:approve": ["planner:edit:approved", "planner:status:in-progress", "planner:status:on-hold", "planner:status:completed", "planner:status:cancel-approved", "planner:status:unapprove-request", "planner:status:unapprove-request:approve", "planner:priority:update", "planner:machine:assign", "planner:schedule"],
     "planner:status:on-hold": ["planner:status:in-progress"], // Can resume
     "planner:status:completed": ["planner:receive", "planner:reopen"],
@@ -181,5 +186,114 @@ export const permissionTree: Record<string, string[]> = {
     "warehouse:dispatch-classifier:use": ["warehouse:dispatch:reset"],
 };
 
-    
+/**
+ * Lists every permission a permission depends on, walking `permissionTree` up to the root
+ * (e.g., 'requests:status:approve' requires 'requests:status:pending-approval', ..., 'requests:access').
+ * @param permission - The permission to check.
+ * @returns The required ancestor permissions, nearest first.
+ */
+export function getParentPermissions(permission: string): string[] {
+    const parents: string[] = [];
+    for (const parent in permissionTree) {
+        if (permissionTree[parent]?.includes(permission)) {
+            parents.push(parent);
+            parents.push(...getParentPermissions(parent));
+        }
+    }
+    return parents;
+}
+
+/**
+ * Lists every permission that depends on a permission, at any depth.
+ * @param permission - The permission to check.
+ * @returns The dependent permissions.
+ */
+export function getChildPermissions(permission: string): string[] {
+    const children = permissionTree[permission] || [];
+    return children.flatMap(child => [child, ...getChildPermissions(child)]);
+}
 
+/**
+ * A permission held by a role, with the role that actually grants it:
+ * the role itself, or one of the roles it inherits from.
+ */
+export type EffectivePermission = {
+    permission: string;
+    sourceRoleId: string;
+};
+
+/**
+ * Resolves the full permission set of a role, including everything inherited from its
+ * parent roles at any depth. A permission granted directly wins over an inherited one;
+ * otherwise the nearest ancestor is reported as the source. Cycles are ignored safely.
+ * @param roleId - The role to resolve.
+ * @param roles - All roles.
+ * @returns The effective permissions, each with the role that grants it.
+ */
+export function resolveEffectivePermissions(roleId: string, roles: Role[]): EffectivePermission[] {
+    const rolesById = new Map(roles.map(role => [role.id, role]));
+    const resolved = new Map<string, string>();
+    const visited = new Set<string>();
+    let level = [roleId];
+    while (level.length > 0) {
+        const nextLevel: string[] = [];
+        for (const id of level) {
+            const role = rolesById.get(id);
+            if (!role || visited.has(id)) continue;
+            visited.add(id);
+            for (const permission of role.permissions) {
+                if (!resolved.has(permission)) resolved.set(permission, id);
+            }
+            nextLevel.push(...(role.inheritsFrom || []));
+        }
+        level = nextLevel;
+    }
+    return Array.from(resolved, ([permission, sourceRoleId]) => ({ permission, sourceRoleId }));
+}
+
+/**
+ * Checks the role hierarchy before saving: parents must exist and no role may inherit from itself,
+ * directly or through other roles.
+ * @param roles - All roles, as they are about to be saved.
+ * @returns A message describing the first problem found, or null if the hierarchy is valid.
+ */
+export function validateRoleHierarchy(roles: Role[]): string | null {
+    const rolesById = new Map(roles.map(role => [role.id, role]));
+    for (const role of roles) {
+        for (const parentId of role.inheritsFrom || []) {
+            if (!rolesById.has(parentId)) {
+                return `El rol "${role.name}" hereda de "${parentId}", que no existe.`;
+            }
+        }
+        const pending = [...(role.inheritsFrom || [])];
+        const seen = new Set<string>();
+        while (pending.length > 0) {
+            const id = pending.pop()!;
+            if (id === role.id) {
+                return `El rol "${role.name}" no puede heredar de sí mismo (herencia circular).`;
+            }
+            if (seen.has(id)) continue;
+            seen.add(id);
+            pending.push(...(rolesById.get(id)?.inheritsFrom || []));
+        }
+    }
+    return null;
+}
+
+/**
+ * Adds the parent permissions required by the permissions of a role (see `permissionTree`),
+ * unless the role already receives them by inheritance.
+ * @param role - The role to complete.
+ * @param roles - All roles, used to resolve inherited permissions.
+ * @returns The role's own permissions plus the missing required parents.
+ */
+export function withRequiredParentPermissions(role: Role, roles: Role[]): string[] {
+    const inherited = new Set(resolveEffectivePermissions(role.id, roles).map(p => p.permission));
+    const permissions = new Set(role.permissions);
+    for (const permission of role.permissions) {
+        for (const parent of getParentPermissions(permission)) {
+            if (!inherited.has(parent)) permissions.add(parent);
+        }
+    }
+    return Array.from(permissions);
+}
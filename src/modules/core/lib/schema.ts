@@ -6,9 +6,9 @@
 import type { ExpectedSchema } from '@/modules/core/types';
 
 export const mainDbSchema: ExpectedSchema = {
-    'users': ['id', 'name', 'email', 'password', 'phone', 'whatsapp', 'erpAlias', 'avatar', 'role', 'recentActivity', 'securityQuestion', 'securityAnswer', 'forcePasswordChange', 'activeWizardSession'],
-    'roles': ['id', 'name', 'permissions'],
-    'company_settings': ['id', 'name', 'taxId', 'address', 'phone', 'email', 'logoUrl', 'systemName', 'publicUrl', 'quotePrefix', 'nextQuoteNumber', 'decimalPlaces', 'quoterShowTaxId', 'searchDebounceTime', 'syncWarningHours', 'lastSyncTimestamp', 'importMode', 'customerFilePath', 'productFilePath', 'exemptionFilePath', 'stockFilePath', 'locationFilePath', 'cabysFilePath', 'supplierFilePath', 'erpPurchaseOrderHeaderFilePath', 'erpPurchaseOrderLineFilePath', 'erpInvoiceHeaderFilePath', 'erpInvoiceLineFilePath'],
+    'users': ['id', 'name', 'email', 'password', 'phone', 'whatsapp', 'erpAlias', 'avatar', 'role', 'recentActivity', 'securityQuestion', 'securityAnswer', 'forcePasswordChange', 'activeWizardSession', 'totpSecret', 'totpEnabled', 'totpRecoveryCodes', 'passwordChangedAt', 'tempPasswordExpiresAt', 'authProvider', 'dataScopes'],
+    'roles': ['id', 'name', 'permissions', 'requireTwoFactor', 'inheritsFrom'],
+    'company_settings': ['id', 'name', 'taxId', 'address', 'phone', 'email', 'logoUrl', 'systemName', 'publicUrl', 'quotePrefix', 'nextQuoteNumber', 'decimalPlaces', 'quoterShowTaxId', 'searchDebounceTime', 'syncWarningHours', 'lastSyncTimestamp', 'loginMaxAttempts', 'loginDelayAfterAttempts', 'loginLockoutMinutes', 'loginIpMaxAttempts', 'passwordMinLength', 'passwordRequireUppercase', 'passwordRequireLowercase', 'passwordRequireNumber', 'passwordRequireSymbol', 'passwordMaxAgeDays', 'passwordHistoryCount', 'tempPasswordExpiryMinutes', 'importMode', 'customerFilePath', 'productFilePath', 'exemptionFilePath', 'stockFilePath', 'locationFilePath', 'cabysFilePath', 'supplierFilePath', 'erpPurchaseOrderHeaderFilePath', 'erpPurchaseOrderLineFilePath', 'erpInvoiceHeaderFilePath', 'erpInvoiceLineFilePath'],
     'logs': ['id', 'timestamp', 'type', 'message', 'details'],
     'api_settings': ['id', 'exchangeRateApi', 'haciendaExemptionApi', 'haciendaTributariaApi'],
     'customers': ['id', 'name', 'address', 'phone', 'taxId', 'currency', 'creditLimit', 'paymentCondition', 'salesperson', 'active', 'email', 'electronicDocEmail'],
@@ -19,11 +19,15 @@ export const mainDbSchema: ExpectedSchema = {
     'cabys_catalog': ['code', 'description', 'taxRate'],
     'stock': ['itemId', 'stockByWarehouse', 'totalStock'],
     'sql_config': ['key', 'value'],
-    'import_queries': ['type', 'query'],
+    'import_queries': ['type', 'query', 'watermarkColumn', 'fullSyncIntervalHours'],
+    'sync_runs': ['id', 'runId', 'type', 'source', 'mode', 'triggeredBy', 'startedAt', 'durationMs', 'status', 'rowCount', 'insertedCount', 'updatedCount', 'deletedCount', 'deactivatedCount', 'reactivatedCount', 'error'],
+    'import_sync_state': ['type', 'lastSyncAt', 'lastSyncMode', 'lastWatermark', 'lastRowCount', 'lastDeletedCount', 'lastFullSyncAt'],
     'suggestions': ['id', 'content', 'userId', 'userName', 'isRead', 'timestamp'],
     'user_preferences': ['userId', 'key', 'value'],
     'notifications': ['id', 'userId', 'message', 'href', 'isRead', 'timestamp', 'entityId', 'entityType', 'taskType'],
     'email_settings': ['key', 'value'],
+    'ldap_settings': ['key', 'value'],
+    'audit_events': ['id', 'timestamp', 'actorId', 'actorName', 'entityType', 'entityId', 'action', 'changes'],
     'suppliers': ['id', 'name', 'alias', 'email', 'phone'],
     'erp_order_headers': ['PEDIDO', 'ESTADO', 'CLIENTE', 'FECHA_PEDIDO', 'FECHA_PROMETIDA', 'ORDEN_COMPRA', 'TOTAL_UNIDADES', 'MONEDA_PEDIDO', 'USUARIO'],
     'erp_order_lines': ['PEDIDO', 'PEDIDO_LINEA', 'ARTICULO', 'CANTIDAD_PEDIDA', 'PRECIO_UNITARIO'],
@@ -39,4 +43,9 @@ export const mainDbSchema: ExpectedSchema = {
     'departamentos': ['DEPARTAMENTO', 'DESCRIPCION', 'ACTIVO'],
     'empleados': ['EMPLEADO', 'NOMBRE', 'ACTIVO', 'DEPARTAMENTO', 'PUESTO', 'NOMINA'],
     'vehiculos': ['placa', 'marca'],
+    'sessions': ['id', 'tokenHash', 'userId', 'createdAt', 'expiresAt', 'lastSeenAt', 'ip', 'userAgent', 'impersonatedUserId'],
+    'login_attempts': ['id', 'scope', 'identifier', 'failedCount', 'lastFailedAt', 'lockedUntil'],
+    'password_history': ['id', 'userId', 'passwordHash', 'createdAt'],
+    'two_factor_challenges': ['id', 'tokenHash', 'userId', 'expiresAt', 'attempts'],
+    'api_tokens': ['id', 'userId', 'name', 'tokenHash', 'tokenPrefix', 'permissions', 'createdAt', 'expiresAt', 'lastUsedAt'],
 };
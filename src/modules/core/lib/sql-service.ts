@@ -10,6 +10,7 @@
 import sql from 'mssql';
 import { logError } from '@/modules/core/lib/logger';
 import { getSqlConfig } from '@/modules/core/lib/config-db';
+import { authorizeAction, runAsSystem } from '@/modules/core/lib/authorization';
 
 let pool: sql.ConnectionPool | null = null;
 let isConnecting = false;
@@ -22,7 +23,8 @@ let connectionPromise: Promise<sql.ConnectionPool> | null = null;
  * @throws {Error} If the configuration is incomplete.
  */
 async function getDbConfig(): Promise<sql.config> {
-    const dbConfig = await getSqlConfig();
+    // The connection itself is trusted server code; callers were already authorized by executeQuery.
+    const dbConfig = await runAsSystem(getSqlConfig);
 
     if (!dbConfig || !dbConfig.user || !dbConfig.host || !dbConfig.database) {
         throw new Error("Las credenciales de SQL Server no están configuradas. Por favor, verifica el usuario, servidor y base de datos en la pantalla de administración.");
@@ -127,10 +129,12 @@ async function getConnectionPool(): Promise<sql.ConnectionPool> {
  * Executes a read-only SQL query against the configured database.
  * @param {string} query - The SELECT query to execute.
  * @param {AbortSignal} [signal] - An optional AbortSignal to cancel the query.
+ * @param {Record<string, unknown>} [params] - Values bound to the `@name` parameters of the query.
  * @returns {Promise<any[]>} A promise that resolves to an array of records.
  * @throws {Error} If the query is invalid, is aborted, or if the database connection fails.
  */
-export async function executeQuery(query: string, signal?: AbortSignal): Promise<any[]> {
+export async function executeQuery(query: string, signal?: AbortSignal, params?: Record<string, unknown>): Promise<any[]> {
+    await authorizeAction('executeQuery');
     validateSelectOnly(query);
     
     let connection: sql.ConnectionPool;
@@ -138,6 +142,9 @@ export async function executeQuery(query: string, signal?: AbortSignal): Promise
     try {
         connection = await getConnectionPool();
         const request = connection.request();
+        for (const [name, value] of Object.entries(params || {})) {
+            request.input(name, value);
+        }
         if (signal) {
             signal.addEventListener('abort', () => {
                 request.cancel();
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Service level agreements (SLAs) of the approval statuses of purchase requests
+ * and production orders: the statuses that can have one, the escalation chain followed once an
+ * entity exceeds it and the time calculations shared by the scheduled checker and the lists.
+ * Pure module, safe to import from both server and client code.
+ */
+
+import type { ProductionOrderStatus, PurchaseRequestStatus, StatusSlaEscalationLevel, StatusSlaSettings } from '../types';
+
+type SlaStatusDefinition<S extends string> = {
+    status: S;
+    label: string;
+    /** Permission of the users who move an entity out of the status; they receive the second escalation step. */
+    approverPermission: string;
+};
+
+/** Purchase request statuses that wait for someone's decision and can therefore have an SLA. */
+export const REQUEST_SLA_STATUSES: SlaStatusDefinition<PurchaseRequestStatus>[] = [
+    { status: 'pending', label: 'Pendiente', approverPermission: 'requests:status:review' },
+    { status: 'purchasing-review', label: 'Revisión Compras', approverPermission: 'requests:status:pending-approval' },
+    { status: 'pending-approval', label: 'Pendiente Aprobación', approverPermission: 'requests:status:approve' },
+    { status: 'approved', label: 'Aprobada', approverPermission: 'requests:status:ordered' },
+];
+
+/** Production order statuses that wait for someone's decision and can therefore have an SLA. */
+export const PLANNER_SLA_STATUSES: SlaStatusDefinition<ProductionOrderStatus>[] = [
+    { status: 'pending', label: 'Pendiente', approverPermission: 'planner:status:review' },
+    { status: 'pending-review', label: 'Pendiente Revisión', approverPermission: 'planner:status:pending-approval' },
+    { status: 'pending-approval', label: 'Pendiente Aprobación', approverPermission: 'planner:status:approve' },
+    { status: 'approved', label: 'Aprobada', approverPermission: 'planner:status:in-progress' },
+    { status: 'on-hold', label: 'En Espera', approverPermission: 'planner:status:in-progress' },
+];
+
+/** The escalation chain, in order. The position of a step is its level (1 to 3). */
+export const STATUS_SLA_ESCALATION_LEVELS: { id: StatusSlaEscalationLevel; label: string }[] = [
+    { id: 'owner', label: 'Solicitante' },
+    { id: 'approvers', label: 'Responsables del estado' },
+    { id: 'admins', label: 'Administradores' },
+];
+
+export const DEFAULT_STATUS_SLA_SETTINGS: StatusSlaSettings = {
+    enabled: false,
+    hoursByStatus: {},
+    escalationIntervalHours: 24,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Completes stored SLA settings with the defaults and drops invalid hours.
+ * @param stored - The stored value, or undefined when the module never saved one.
+ */
+export function normalizeStatusSlaSettings<S extends string>(stored: Partial<StatusSlaSettings<S>> | undefined): StatusSlaSettings<S> {
+    const hoursByStatus = Object.fromEntries(Object.entries(stored?.hoursByStatus || {})
+        .filter(([, hours]) => typeof hours === 'number' && hours > 0)) as Partial<Record<S, number>>;
+    const interval = Number(stored?.escalationIntervalHours);
+    return {
+        enabled: !!stored?.enabled,
+        hoursByStatus,
+        escalationIntervalHours: interval > 0 ? interval : DEFAULT_STATUS_SLA_SETTINGS.escalationIntervalHours,
+    };
+}
+
+/**
+ * Checks SLA settings sent by an administrator before saving them.
+ * @throws {Error} With a Spanish message when a value is invalid.
+ */
+export function validateStatusSlaSettings(sla: StatusSlaSettings): void {
+    for (const hours of Object.values(sla.hoursByStatus)) {
+        if (hours !== undefined && (typeof hours !== 'number' || !(hours > 0))) {
+            throw new Error('Las horas de SLA deben ser un número mayor que cero.');
+        }
+    }
+    if (!(sla.escalationIntervalHours > 0)) {
+        throw new Error('El intervalo entre escalamientos debe ser mayor que cero.');
+    }
+}
+
+export type StatusSlaState = {
+    limitHours: number;
+    elapsedHours: number;
+    isOverdue: boolean;
+    /** Escalation level that should have been reached by now: 0 while within the SLA, up to 3. */
+    dueLevel: number;
+};
+
+/**
+ * Measures how long an entity has been in its status against the SLA of that status.
+ * The first escalation step is due when the SLA is exceeded and each next one after `escalationIntervalHours`.
+ * @param sla - The SLA settings of the module.
+ * @param status - The current status of the entity.
+ * @param statusChangedAt - When the entity entered the status.
+ * @param now - The current moment.
+ * @returns null when SLAs are disabled or the status has none.
+ */
+export function getStatusSlaState(sla: StatusSlaSettings | undefined, status: string, statusChangedAt: string | undefined, now: Date = new Date()): StatusSlaState | null {
+    const limitHours = sla?.hoursByStatus[status];
+    if (!sla?.enabled || !limitHours || !statusChangedAt) return null;
+    const enteredAt = new Date(statusChangedAt).getTime();
+    if (Number.isNaN(enteredAt)) return null;
+
+    const elapsedHours = Math.max(0, (now.getTime() - enteredAt) / HOUR_MS);
+    const overdueHours = elapsedHours - limitHours;
+    const dueLevel = overdueHours < 0
+        ? 0
+        : Math.min(STATUS_SLA_ESCALATION_LEVELS.length, 1 + Math.floor(overdueHours / sla.escalationIntervalHours));
+    return { limitHours, elapsedHours, isOverdue: overdueHours >= 0, dueLevel };
+}
+
+/**
+ * Formats a number of hours for people, e.g. "5 h" or "2 d 3 h".
+ */
+export function formatSlaHours(hours: number): string {
+    const wholeHours = Math.floor(hours);
+    if (wholeHours < 1) return 'menos de 1 h';
+    const days = Math.floor(wholeHours / 24);
+    const rest = wholeHours % 24;
+    if (days === 0) return `${rest} h`;
+    return rest === 0 ? `${days} d` : `${days} d ${rest} h`;
+}
@@ -16,6 +16,9 @@ import {
 import type { Suggestion } from '@/modules/core/types';
 import { logInfo, logError } from '@/modules/core/lib/logger';
 import { createNotificationForPermission } from '@/modules/core/lib/notifications-actions';
+import { authorizeAction, authorizeOwner } from '@/modules/core/lib/authorization';
+import { hasPermission } from '@/modules/core/lib/auth';
+import { triggerNotificationEvent } from '@/modules/notifications/lib/notifications-engine';
 
 /**
  * Retrieves all suggestions from the database.
@@ -46,6 +49,7 @@ export async function deleteSuggestion(id: number): Promise<void> {
  * @returns {Promise<Suggestion[]>} A promise that resolves to an array of unread suggestion entries.
  */
 export async function getUnreadSuggestions(): Promise<Suggestion[]> {
+    await authorizeAction('getUnreadSuggestions', 'admin:suggestions:read');
     return dbGetUnreadSuggestions();
 }
 
@@ -54,6 +58,11 @@ export async function getUnreadSuggestions(): Promise<Suggestion[]> {
  * @returns {Promise<number>} A promise that resolves to the number of unread suggestions.
  */
 export async function getUnreadSuggestionsCount(): Promise<number> {
+    // Every user's header asks for this count, so users who cannot read suggestions simply get zero.
+    const user = await authorizeAction('getUnreadSuggestionsCount');
+    if (!(await hasPermission(user.id, 'admin:suggestions:read'))) {
+        return 0;
+    }
     return dbGetUnreadSuggestionsCount();
 }
 
@@ -64,13 +73,15 @@ export async function getUnreadSuggestionsCount(): Promise<number> {
  * @param userName - The name of the user submitting the suggestion.
  */
 export async function addSuggestion(content: string, userId: number, userName: string): Promise<void> {
+    await authorizeOwner('addSuggestion', userId);
     const db = await connectDb();
     let newSuggestionId;
+    const timestamp = new Date().toISOString();
     try {
         const info = db.prepare(`
             INSERT INTO suggestions (content, userId, userName, isRead, timestamp)
             VALUES (?, ?, ?, 0, ?)
-        `).run(content, userId, userName, new Date().toISOString());
+        `).run(content, userId, userName, timestamp);
         newSuggestionId = info.lastInsertRowid;
         
         await logInfo('New suggestion submitted', { user: userName });
@@ -95,5 +106,7 @@ export async function addSuggestion(content: string, userId: number, userName: s
         } catch (notificationError: any) {
             logError("Failed to create notification for new suggestion", { error: notificationError.message, suggestionId: newSuggestionId });
         }
+        triggerNotificationEvent('onSuggestionCreated', { id: Number(newSuggestionId), content, userId, userName, timestamp })
+            .catch(e => console.error("Failed to trigger suggestion notification:", e));
     }
 }
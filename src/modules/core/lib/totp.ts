@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Time-based one-time password (TOTP, RFC 6238) helpers used for two-factor login.
+ * Implements the standard authenticator-app profile: HMAC-SHA1, 6 digits, 30-second steps.
+ * This module has no "use server" directive; it is only imported by server-side code.
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Encodes bytes as an unpadded RFC 4648 base32 string, the format authenticator apps expect.
+ * @param buffer - The bytes to encode.
+ * @returns The base32 string.
+ */
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Decodes an RFC 4648 base32 string, ignoring padding, spaces and case.
+ * @param input - The base32 string.
+ * @returns The decoded bytes.
+ */
+function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Computes the HOTP value (RFC 4226) for a given counter.
+ * @param secret - The raw shared secret.
+ * @param counter - The moving factor (the time step for TOTP).
+ * @returns The zero-padded numeric code.
+ */
+function hotp(secret: Buffer, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+    const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Generates a new random TOTP secret.
+ * @returns The secret, base32-encoded.
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Builds the `otpauth://` URI that authenticator apps read from the enrollment QR code.
+ * @param secret - The base32 secret.
+ * @param accountName - The account label shown in the app (usually the user's email).
+ * @param issuer - The application name shown in the app.
+ * @returns The provisioning URI.
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(TOTP_DIGITS), period: String(TOTP_STEP_SECONDS) });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verifies a TOTP code, accepting one step of clock drift in either direction.
+ * @param secret - The base32 secret.
+ * @param code - The code typed by the user.
+ * @returns True if the code is valid for the current time window.
+ */
+export function verifyTotp(secret: string, code: string): boolean {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+        return false;
+    }
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    for (let drift = -1; drift <= 1; drift++) {
+        const expected = hotp(key, currentStep + drift);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Generates a fresh set of single-use recovery codes (e.g., "4f9c2-a17be").
+ * @returns The plaintext codes, to be shown to the user exactly once.
+ */
+export function generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+}
+
+/**
+ * Hashes a recovery code for storage. Codes are compared case-insensitively and without dashes.
+ * @param code - The plaintext recovery code.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+export function hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.trim().toLowerCase().replace(/-/g, '')).digest('hex');
+}
@@ -9,6 +9,8 @@ import { connectDb, getUserCount } from "@/modules/core/lib/db";
 import type { User } from "@/modules/core/types";
 import bcrypt from 'bcryptjs';
 import { logInfo, logError } from '@/modules/core/lib/logger';
+import { getPasswordPolicy } from '@/modules/core/lib/auth';
+import { validatePassword } from '@/modules/core/lib/password-policy';
 
 const SALT_ROUNDS = 10;
 const DB_FILE = 'intratool.db';
@@ -18,7 +20,7 @@ const DB_FILE = 'intratool.db';
  * This function includes a check to ensure it only runs if no other users exist.
  * @param userData - The data for the new admin user.
  * @param clientInfo - Information about the client making the request, for logging.
- * @throws {Error} If a user already exists in the database.
+ * @throws {Error} If a user already exists in the database or the password breaks the password policy.
  */
 export async function createFirstUser(
   userData: Omit<User, 'id' | 'role' | 'avatar' | 'recentActivity' | 'securityQuestion' | 'securityAnswer' | 'forcePasswordChange' | 'activeWizardSession'> & { password: string },
@@ -32,6 +34,11 @@ export async function createFirstUser(
 
   // Connect to the database. It will be created if it doesn't exist.
   const db = await connectDb(DB_FILE);
+
+  const passwordErrors = validatePassword(userData.password, await getPasswordPolicy());
+  if (passwordErrors.length > 0) {
+    throw new Error(`La contraseña no cumple la política de seguridad. ${passwordErrors.join(' ')}`);
+  }
   
   const hashedPassword = bcrypt.hashSync(userData.password, SALT_ROUNDS);
 
@@ -49,8 +56,8 @@ export async function createFirstUser(
   };
   
   const stmt = db.prepare(
-    `INSERT INTO users (id, name, email, password, phone, whatsapp, avatar, role, recentActivity, forcePasswordChange) 
-     VALUES (@id, @name, @email, @password, @phone, @whatsapp, @avatar, @role, @recentActivity, @forcePasswordChange)`
+    `INSERT INTO users (id, name, email, password, phone, whatsapp, avatar, role, recentActivity, forcePasswordChange, passwordChangedAt) 
+     VALUES (@id, @name, @email, @password, @phone, @whatsapp, @avatar, @role, @recentActivity, @forcePasswordChange, @passwordChangedAt)`
   );
   
   try {
@@ -59,6 +66,7 @@ export async function createFirstUser(
         phone: userToCreate.phone || null,
         whatsapp: userToCreate.whatsapp || null,
         forcePasswordChange: 0,
+        passwordChangedAt: new Date().toISOString(),
     });
     await logInfo(`Initial admin user '${userToCreate.name}' created successfully.`, clientInfo);
   } catch (error: any) {
@@ -24,6 +24,103 @@ export type User = {
   securityAnswer?: string;
   forcePasswordChange?: boolean | number;
   activeWizardSession?: string | null;
+  totpSecret?: string | null; // Server-only; never sent to the client.
+  totpEnabled?: boolean | number;
+  totpRecoveryCodes?: string | null; // Server-only JSON array of hashed recovery codes.
+  passwordChangedAt?: string | null;
+  tempPasswordExpiresAt?: string | null; // Set while the user holds a recovery (temporary) password.
+  authProvider?: AuthProvider; // 'local' (bcrypt) by default; 'ldap' for directory accounts.
+  impersonatedBy?: { id: number; name: string }; // Set on the current user while an admin is viewing the app as them.
+  dataScopes?: UserDataScopes; // Row-level restrictions; stored as JSON.
+};
+
+export type AuthProvider = 'local' | 'ldap';
+
+/**
+ * A personal API token used by scripts and external systems to call the `/api/v1` endpoints
+ * on behalf of its owner. Only a hash of the secret is stored; the secret is shown once, on creation.
+ */
+export type ApiToken = {
+  id: number;
+  userId: number;
+  name: string;
+  tokenPrefix: string; // First characters of the secret, to recognize the token in lists.
+  permissions: string[]; // Subset of the owner's permissions the token may use.
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+};
+
+/**
+ * Row-level restrictions on the data a user can see, on top of their role permissions.
+ * Each restriction is optional; a missing or empty one leaves that kind of data unrestricted.
+ */
+export type UserDataScopes = {
+  dispatchContainerIds?: number[]; // Dispatch containers the user may see and check.
+  ownCustomersOnly?: boolean; // Only customers whose salesperson (VENDEDOR) matches the user's erpAlias.
+  locationIds?: number[]; // Warehouse locations whose subtrees the user may see.
+};
+
+/**
+ * The two-factor authentication state of the current user, as shown in their profile.
+ */
+export type TwoFactorStatus = {
+  enabled: boolean;
+  requiredByRole: boolean;
+  remainingRecoveryCodes: number;
+};
+
+/**
+ * Data needed by the client to enroll an authenticator app: the secret in
+ * base32 (for manual entry) and the provisioning QR code as a data URL.
+ */
+export type TwoFactorSetup = {
+  secret: string;
+  qrCodeDataUrl: string;
+};
+
+/**
+ * Represents an active server-side login session. The opaque token itself is
+ * never exposed; only its metadata is sent to the client.
+ */
+export type UserSession = {
+  id: number;
+  userId: number;
+  createdAt: string;
+  expiresAt: string;
+  lastSeenAt: string;
+  ip: string | null;
+  userAgent: string | null;
+  impersonatedUserId?: number | null;
+  isCurrent?: boolean;
+};
+
+/**
+ * The password rules configured in the general settings.
+ * A value of 0 in `maxAgeDays`, `historyCount` or `tempPasswordExpiryMinutes` disables that rule.
+ */
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  maxAgeDays: number;
+  historyCount: number;
+  tempPasswordExpiryMinutes: number;
+};
+
+/**
+ * Tracks failed login attempts for an account (by email) or a client IP.
+ * When `lockedUntil` is in the future, further logins from that source are refused.
+ */
+export type LoginLockout = {
+  id: number;
+  scope: 'account' | 'ip';
+  identifier: string;
+  failedCount: number;
+  lastFailedAt: string;
+  lockedUntil: string | null;
 };
 
 /**
@@ -44,6 +141,18 @@ export type Company = {
     quoterShowTaxId?: boolean;
     searchDebounceTime?: number;
     syncWarningHours?: number;
+    loginMaxAttempts?: number;
+    loginDelayAfterAttempts?: number;
+    loginLockoutMinutes?: number;
+    loginIpMaxAttempts?: number;
+    passwordMinLength?: number;
+    passwordRequireUppercase?: boolean;
+    passwordRequireLowercase?: boolean;
+    passwordRequireNumber?: boolean;
+    passwordRequireSymbol?: boolean;
+    passwordMaxAgeDays?: number;
+    passwordHistoryCount?: number;
+    tempPasswordExpiryMinutes?: number;
     importMode: 'file' | 'sql';
     lastSyncTimestamp?: string | null;
     customerFilePath?: string;
@@ -78,7 +187,9 @@ export type Tool = {
 export type Role = {
   id: string;
   name: string;
-  permissions: string[];
+  permissions: string[]; // Granted directly; see `inheritsFrom` for the rest.
+  requireTwoFactor?: boolean;
+  inheritsFrom?: string[]; // IDs of the roles whose permissions this role also receives.
 };
 
 /**
@@ -181,6 +292,35 @@ export type LogEntry = {
     details?: any; // Stored as a JSON string in the DB
 };
 
+export type AuditEntityType =
+    | 'user' | 'role' | 'session' | 'login_lockout' | 'api_token'
+    | 'company_settings' | 'api_settings' | 'sql_config' | 'import_queries' | 'email_settings' | 'ldap_settings'
+    | 'stock_settings' | 'warehouse_settings' | 'planner_settings' | 'request_settings' | 'notification_settings' | 'notification_template' | 'notification_rule' | 'scheduled_task' | 'cost_assistant_settings';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'reset' | 'revoke' | 'unlock';
+
+/**
+ * A single field change inside an audit event. Secrets are stored masked.
+ */
+export type AuditFieldChange = {
+    before: unknown;
+    after: unknown;
+};
+
+/**
+ * Represents a recorded change to users, roles or settings: who did what, to which entity and when.
+ */
+export type AuditEvent = {
+    id: number;
+    timestamp: string;
+    actorId: number | null;
+    actorName: string;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    changes: Record<string, AuditFieldChange>; // Stored as a JSON string in the DB
+};
+
 /**
  * Represents the settings for external APIs.
  */
@@ -277,6 +417,8 @@ export type ProductionOrder = {
   shiftId?: string | null;
   previousStatus?: ProductionOrderStatus | null;
   erpOrderNumber?: string;
+  statusChangedAt?: string;
+  slaEscalationLevel?: number;
 };
 
 export type UpdateProductionOrderPayload = Partial<Omit<ProductionOrder, 'id' | 'consecutive' | 'requestDate' | 'status' | 'reopened' | 'erpPackageNumber' | 'erpTicketNumber' | 'machineId' | 'previousStatus' | 'scheduledStartDate' | 'scheduledEndDate' | 'requestedBy' | 'hasBeenModified' | 'lastModifiedBy' | 'lastModifiedAt' | 'shiftId'>> & {
@@ -327,6 +469,18 @@ export type PlannerSettings = {
     pdfExportColumns: string[];
     pdfTopLegend?: string;
     fieldsToTrackChanges: string[];
+    statusSla: StatusSlaSettings<ProductionOrderStatus>;
+};
+
+/** Steps of the escalation chain of an entity that exceeded the SLA of its status, in order. */
+export type StatusSlaEscalationLevel = 'owner' | 'approvers' | 'admins';
+
+export type StatusSlaSettings<S extends string = string> = {
+    enabled: boolean;
+    /** Maximum hours an entity may stay in each status. Statuses without a value have no SLA. */
+    hoursByStatus: Partial<Record<S, number>>;
+    /** Hours between one step of the escalation chain and the next once the SLA is exceeded. */
+    escalationIntervalHours: number;
 };
 
 export type UpdateStatusPayload = {
@@ -400,6 +554,8 @@ export type PurchaseRequest = {
   hasBeenModified?: boolean;
   sourceOrders?: string[];
   involvedClients?: { id: string; name: string }[];
+  statusChangedAt?: string; // When the request entered its current status
+  slaEscalationLevel?: number; // Escalation steps already taken in the current status (0 = none)
   analysis?: {
       cost: number;
       salePrice: number;
@@ -435,6 +591,7 @@ export type RequestSettings = {
     pdfOrientation: 'portrait' | 'landscape';
     erpHeaderQuery?: string;
     erpLinesQuery?: string;
+    statusSla: StatusSlaSettings<PurchaseRequestStatus>;
 };
 
 export type UpdateRequestStatusPayload = {
@@ -630,8 +787,59 @@ export type InventoryItem = {
 export type ImportQuery = {
     type: 'customers' | 'products' | 'exemptions' | 'stock' | 'locations' | 'cabys' | 'suppliers' | 'erp_order_headers' | 'erp_order_lines' | 'erp_purchase_order_headers' | 'erp_purchase_order_lines' | 'erp_invoice_headers' | 'erp_invoice_lines' | 'vendedores' | 'direcciones_embarque' | 'nominas' | 'puestos' | 'departamentos' | 'empleados' | 'vehiculos';
     query: string;
+    /**
+     * Column of the results that only grows, such as a last-modified date or a document number.
+     * When set, the query filters with the {{since}} placeholder and the import is incremental.
+     */
+    watermarkColumn?: string | null;
+    /** Hours between the full reconciles of an incremental import, which also remove deleted rows. */
+    fullSyncIntervalHours?: number | null;
 }
 
+export type ImportSyncMode = 'full' | 'incremental';
+
+/** Outcome of the last SQL import of a data type. */
+export type ImportSyncState = {
+    type: ImportQuery['type'];
+    lastSyncAt: string;
+    lastSyncMode: ImportSyncMode;
+    /** Highest value of the watermark column imported so far. */
+    lastWatermark: string | null;
+    /** Rows returned by the query in the last import. */
+    lastRowCount: number;
+    /** Local rows removed by the last full reconcile because they are no longer in the ERP. */
+    lastDeletedCount: number;
+    lastFullSyncAt: string | null;
+    /** Rows stored in the local table now. */
+    localRowCount: number | null;
+};
+
+export type SyncRunStatus = 'success' | 'error';
+
+/** The import of one data type within an ERP synchronization. */
+export type SyncRun = {
+    id: number;
+    /** Groups the data types imported together by one synchronization. */
+    runId: string;
+    type: ImportQuery['type'];
+    source: 'file' | 'sql';
+    mode: ImportSyncMode | null;
+    triggeredBy: string;
+    startedAt: string;
+    durationMs: number;
+    status: SyncRunStatus;
+    /** Records read from the source. */
+    rowCount: number | null;
+    // Changes in the local table; null when the type has no local table to compare.
+    insertedCount: number | null;
+    updatedCount: number | null;
+    deletedCount: number | null;
+    /** Records whose active flag went from 'S' to another value; null when the table has no such flag. */
+    deactivatedCount: number | null;
+    reactivatedCount: number | null;
+    error: string | null;
+};
+
 export type SqlConfig = {
     host?: string;
     port?: number;
@@ -989,15 +1197,154 @@ export interface EmailSettings {
   recoveryEmailBody: string;
 }
 
+export interface LdapGroupRoleMapping {
+  group: string; // Full group DN or just its CN, matched case-insensitively.
+  roleId: string;
+}
+
+export interface LdapSettings {
+  enabled: boolean;
+  url: string; // e.g. ldap://localhost:389 or ldaps://dc.empresa.local:636
+  startTls: boolean;
+  tlsRejectUnauthorized: boolean;
+  bindDn: string; // Service account used to look users up; empty for anonymous search.
+  bindPassword: string;
+  baseDn: string;
+  userFilter: string; // {{username}} is replaced by the escaped login identifier.
+  emailAttribute: string;
+  nameAttribute: string;
+  groupAttribute: string;
+  groupRoleMappings: LdapGroupRoleMapping[];
+  defaultRoleId: string; // Role for users with no mapped group; empty denies access.
+  timeoutMs: number;
+}
+
+export interface LdapTestResult {
+  connected: boolean;
+  user?: { dn: string; email: string; name: string; groups: string[]; roleId: string | null };
+}
+
 // --- Notification Engine Types ---
-export type NotificationEventId = 'onDispatchCompleted' | 'onReceivingCompleted' | 'onPlannerOrderCreated' | 'onPlannerOrderApproved' | 'onPlannerOrderCompleted' | 'onRequestCreated' | 'onRequestApproved' | 'onRequestOrdered' | 'onRackCreated';
-export type NotificationActionType = 'sendEmail' | 'sendTelegram';
+
+/** Payload of the dispatch check events: the dispatch log plus its client, container and discrepancy summary. */
+export type DispatchCheckNotificationPayload = DispatchLog & {
+  clientId: string;
+  clientName: string;
+  containerId: number | null;
+  hasDiscrepancy: boolean;
+  discrepancyCount: number;
+};
+
+/** Payload of the events raised when someone asks to cancel or unapprove an order or request. */
+export type AdministrativeActionNotificationFields = {
+  pendingAction: AdministrativeAction;
+  actionNotes: string;
+  actionRequestedBy: string;
+};
+
+/**
+ * The payload each notification event carries. Rule conditions, templates and webhooks read it,
+ * so a field renamed here must also be renamed in the event's field catalog and default templates.
+ */
+export type NotificationEventPayloads = {
+  onDispatchCompleted: DispatchCheckNotificationPayload;
+  onDispatchDiscrepancy: DispatchCheckNotificationPayload;
+  onDispatchContainerFinalized: {
+    containerId: number;
+    containerName: string;
+    vehiclePlate: string;
+    driverName: string;
+    helper1Name: string | null;
+    helper2Name: string | null;
+    documentCount: number;
+    documents: { documentId: string; documentType: string; clientName: string | null; verifiedByUserName: string }[];
+    finalizedBy: string;
+  };
+  onReceivingCompleted: InventoryUnit;
+  onRackCreated: { rack: WarehouseLocation; parentPath: string | null; createdBy: string };
+  onInventoryUnitCorrected: {
+    originalUnitCode: string;
+    newUnitCode: string;
+    previousProductId: string;
+    newProductId: string;
+    quantity: number;
+    locationId: number | null;
+    humanReadableId: string | null;
+    documentId: string | null;
+    correctedBy: string;
+  };
+  onPhysicalCountDifference: {
+    itemId: string;
+    itemDescription: string;
+    locationId: number;
+    locationPath: string;
+    previousQuantity: number;
+    countedQuantity: number;
+    difference: number;
+    absoluteDifference: number;
+    differencePercent: number | null; // Null when there was no previous quantity to compare with.
+    countedBy: string;
+  };
+  onPlannerOrderCreated: ProductionOrder;
+  onPlannerOrderApproved: ProductionOrder;
+  onPlannerOrderOnHold: ProductionOrder;
+  onPlannerOrderCompleted: ProductionOrder;
+  onPlannerOrderCanceled: ProductionOrder;
+  onPlannerOrderActionRequested: ProductionOrder & AdministrativeActionNotificationFields;
+  onPlannerOrderOverdue: ProductionOrder & { daysOverdue: number };
+  onRequestCreated: PurchaseRequest;
+  onRequestApproved: PurchaseRequest;
+  onRequestOrdered: PurchaseRequest;
+  onRequestReceivedInWarehouse: PurchaseRequest;
+  onRequestEnteredErp: PurchaseRequest;
+  onRequestCanceled: PurchaseRequest;
+  onRequestActionRequested: PurchaseRequest & AdministrativeActionNotificationFields;
+  onErpSyncFailed: {
+    /** The synchronization in the sync history. */
+    runId: string;
+    importMode: Company['importMode'];
+    failedCount: number;
+    succeededCount: number;
+    failures: { type: string; error: string }[];
+    finishedAt: string;
+  };
+  onLoginLockout: {
+    email: string;
+    scope: LoginLockout['scope'];
+    failedCount: number;
+    lockedUntil: string;
+    ip: string;
+    host: string;
+  };
+  onSuggestionCreated: Omit<Suggestion, 'isRead'>;
+};
+
+export type NotificationEventId = keyof NotificationEventPayloads;
+export type NotificationActionType = 'sendEmail' | 'sendTelegram' | 'sendWebhook';
 
 export interface NotificationEvent {
   id: NotificationEventId;
   module: string;
   name: string;
   description: string;
+  fields: NotificationEventField[]; // Payload fields that rule conditions can filter on.
+}
+
+export type NotificationEventFieldType = 'string' | 'number' | 'boolean';
+
+export interface NotificationEventField {
+  path: string; // Dot path into the payload; a segment that is an array matches if any element does (e.g. 'items.itemCode').
+  label: string;
+  type: NotificationEventFieldType;
+  options?: { value: string; label: string }[];
+}
+
+export type NotificationConditionOperator = 'equals' | 'notEquals' | 'in' | 'gt' | 'lt' | 'contains';
+
+export interface NotificationRuleCondition {
+  field: string;
+  operator: NotificationConditionOperator;
+  value: string; // For 'in', a comma-separated list.
 }
 
 export interface NotificationRule {
@@ -1005,28 +1352,178 @@ export interface NotificationRule {
   name: string;
   event: NotificationEventId;
   action: NotificationActionType;
-  recipients: string[];
+  recipients: string[]; // Email addresses, or Telegram destination IDs (none = the default chat).
   subject?: string;
+  webhook?: WebhookConfig | null;
+  conditions?: NotificationRuleCondition[]; // All must match for the rule to fire.
   enabled: boolean;
 }
 
+/** Message channel of a notification template: email (full HTML) or Telegram (its restricted HTML). */
+export type NotificationChannel = 'email' | 'telegram';
+
+export interface NotificationTemplate {
+  event: NotificationEventId;
+  channel: NotificationChannel;
+  subject: string; // Only used by email.
+  body: string;
+  isCustom: boolean; // False when this is the built-in default.
+  updatedAt?: string | null;
+  updatedBy?: string | null;
+}
+
+/** Target of a 'sendWebhook' rule: the event is POSTed as JSON to `url`. */
+export interface WebhookConfig {
+  url: string;
+  secret?: string; // When set, the body is signed with HMAC-SHA256 (X-Clic-Signature header).
+  headers?: Record<string, string>;
+  timeoutMs: number;
+  maxRetries: number; // Additional attempts after the first one, with exponential backoff.
+}
+
+/**
+ * Delivery state of an outbox entry. 'failed' entries are retried with backoff;
+ * 'dead' entries exhausted their attempts and are only retried by a manual resend.
+ */
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'dead';
+
+/** One rule action queued in the notification outbox for a triggered event. */
+export interface NotificationDelivery {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  event: NotificationEventId;
+  action: NotificationActionType;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+}
+
+/** JSON body POSTed by a 'sendWebhook' rule. */
+export interface WebhookEventBody {
+  event: NotificationEventId;
+  ruleId: number;
+  ruleName: string;
+  occurredAt: string;
+  test?: boolean;
+  data: unknown;
+}
+
+export interface WebhookDeliveryResult {
+  ok: boolean;
+  status: number | null;
+  attempts: number;
+  durationMs: number;
+  responseBody?: string;
+  error?: string;
+}
+
 export interface ScheduledTask {
   id: number;
   name: string;
   schedule: string;
   taskId: string;
   enabled: boolean;
+  /** Minutes after which a run is reported as timed out. Empty uses the default of the runner. */
+  timeoutMinutes?: number | null;
+  /** Values of the parameters declared by the task in the registry. */
+  params?: Record<string, unknown>;
+  /** IANA time zone the schedule is read in (e.g. "America/Costa_Rica"). Empty uses the time zone of the server. */
+  timezone?: string | null;
 }
 
-export interface TelegramSettings {
+export type ScheduledTaskRunStatus = 'running' | 'success' | 'error' | 'timeout' | 'skipped';
+export type ScheduledTaskRunTrigger = 'schedule' | 'manual';
+
+export interface ScheduledTaskRun {
+  id: number;
+  scheduledTaskId: number;
+  taskId: string;
+  triggerType: ScheduledTaskRunTrigger;
+  triggeredBy: string | null;
+  status: ScheduledTaskRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  resultSummary: string | null;
+  error: string | null;
+}
+
+export interface ScheduledTaskRunSummary {
+  scheduledTaskId: number;
+  lastRun: ScheduledTaskRun | null;
+  lastSuccessAt: string | null;
+}
+
+/** An additional Telegram bot, for destinations that must be reached from a different bot than the main one. */
+export interface TelegramBotConfig {
+    id: string;
+    name: string;
     botToken: string;
+}
+
+/** A named chat (group, channel or forum topic) that 'sendTelegram' rules can send to. */
+export interface TelegramDestination {
+    id: string;
+    name: string;
     chatId: string;
+    threadId?: string; // Topic of a forum group (message_thread_id).
+    botId?: string; // One of `TelegramSettings.bots`; empty for the main bot.
+}
+
+export interface TelegramSettings {
+    botToken: string;
+    chatId: string; // Default chat, used by rules that reference no destination.
+    commandsEnabled?: boolean; // Answer commands (/stock, /op...) from linked users, by long polling.
+    apiBaseUrl?: string; // Bot API server; empty for api.telegram.org. Point it to a local or mocked server for testing.
+    bots?: TelegramBotConfig[];
+    destinations?: TelegramDestination[];
+}
+
+/** A Telegram account linked to a user, so the bot can answer their commands on their behalf. */
+export interface TelegramAccountLink {
+    telegramUserId: string;
+    userId: number;
+    telegramUsername: string | null;
+    linkedAt: string;
 }
 
 export interface NotificationServiceConfig {
     telegram: TelegramSettings;
 }
 
+/** Group of in-app notifications that a user can enable per channel in their profile. */
+export type UserNotificationCategory = 'planner' | 'requests' | 'suggestions' | 'general';
+
+/** Where a user receives their notifications: the bell in the app, their email or a private Telegram chat. */
+export type UserNotificationChannel = 'inApp' | 'email' | 'telegram';
+
+/** 'immediate' sends email and Telegram right away; 'hourly' and 'daily' group them in a digest. */
+export type NotificationDeliveryMode = 'immediate' | 'hourly' | 'daily';
+
+export interface UserNotificationPreferences {
+  channels: Record<UserNotificationCategory, Record<UserNotificationChannel, boolean>>;
+  mode: NotificationDeliveryMode;
+  digestHour: number; // Hour of the day (0-23) at which the daily digest is sent.
+  quietHours: { enabled: boolean; start: string; end: string }; // 'HH:mm'; the range may cross midnight.
+  telegramChatId: string; // Private chat of the user with the bot, set only when the account is linked.
+}
+
+/** An email or Telegram notification waiting for the user's next digest (or the end of their quiet hours). */
+export interface NotificationDigestItem {
+  id: number;
+  userId: number;
+  channel: Exclude<UserNotificationChannel, 'inApp'>;
+  category: UserNotificationCategory;
+  message: string;
+  href: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
 // --- NEW DATA TYPES from SQL.txt ---
 export type Vendedor = {
     VENDEDOR: string;
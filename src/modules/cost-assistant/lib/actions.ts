@@ -19,6 +19,8 @@ import * as XLSX from 'xlsx';
 import path from 'path';
 import fs from 'fs';
 import { getUserPreferences, saveUserPreferences } from '@/modules/core/lib/db';
+import { authorizeAction } from '@/modules/core/lib/authorization';
+import { recordAuditEvent } from '@/modules/core/lib/audit';
 
 // Helper to get a value from a potentially nested object
 const getValue = (obj: any, path: string[], defaultValue: any = '') => {
@@ -181,6 +183,7 @@ async function parseInvoice(xmlContent: string, fileIndex: number): Promise<Invo
 }
 
 export async function processInvoiceXmls(xmlContents: string[]): Promise<{ lines: CostAssistantLine[], processedInvoices: ProcessedInvoiceInfo[] }> {
+    await authorizeAction('processInvoiceXmls', 'cost-assistant:access');
     let allLines: CostAssistantLine[] = [];
     const processedInvoices: ProcessedInvoiceInfo[] = [];
 
@@ -231,6 +234,7 @@ const defaultSettings: CostAssistantSettings = {
 };
 
 export async function getCostAssistantSettings(userId: number): Promise<CostAssistantSettings> {
+    await authorizeAction('getCostAssistantSettings', 'cost-assistant:access');
     const userPrefs = await getUserPreferences(userId, 'costAssistantSettings');
     const dbSettings = await getDbSettings();
     const settings = { ...defaultSettings, ...dbSettings, ...userPrefs };
@@ -238,6 +242,7 @@ export async function getCostAssistantSettings(userId: number): Promise<CostAssi
 }
 
 export async function saveCostAssistantSettings(userId: number, settings: Partial<CostAssistantSettings>): Promise<void> {
+    const actor = await authorizeAction('saveCostAssistantSettings', 'cost-assistant:access');
     const { draftPrefix, nextDraftNumber, ...userPrefs } = settings;
     await saveUserPreferences(userId, 'costAssistantSettings', userPrefs);
     
@@ -246,17 +251,21 @@ export async function saveCostAssistantSettings(userId: number, settings: Partia
     if (nextDraftNumber !== undefined) dbSettingsToSave.nextDraftNumber = nextDraftNumber;
     
     if (Object.keys(dbSettingsToSave).length > 0) {
+        const before = await getDbSettings();
         await saveDbSettings(dbSettingsToSave);
+        await recordAuditEvent(actor, { entityType: 'cost_assistant_settings', entityId: 'cost-assistant', before, after: await getDbSettings() });
     }
     await logInfo('Cost Assistant settings updated', { userId });
 }
 
 export async function getAllDrafts(userId: number): Promise<CostAnalysisDraft[]> {
+    await authorizeAction('getAllDrafts', 'cost-assistant:drafts:read-write');
     const drafts = await getAllDraftsServer(userId);
     return JSON.parse(JSON.stringify(drafts));
 }
 
 export async function saveDraft(draft: Omit<CostAnalysisDraft, 'id' | 'createdAt'>): Promise<void> {
+    await authorizeAction('saveDraft', 'cost-assistant:drafts:read-write');
     const settings = await getDbSettings();
     const draftPrefix = settings.draftPrefix || 'AC-';
     const nextDraftNumber = settings.nextDraftNumber || 1;
@@ -265,16 +274,19 @@ export async function saveDraft(draft: Omit<CostAnalysisDraft, 'id' | 'createdAt
 }
 
 export async function deleteDraft(id: string): Promise<void> {
+    await authorizeAction('deleteDraft', 'cost-assistant:drafts:read-write');
     await logInfo('Cost analysis draft deleted', { draftId: id });
     return deleteDraftServer(id);
 }
 
 export async function getNextDraftNumber(): Promise<number> {
+    await authorizeAction('getNextDraftNumber', 'cost-assistant:drafts:read-write');
     const settings = await getDbSettings();
     return settings.nextDraftNumber || 1;
 }
 
 export async function exportForERP(lines: CostAssistantLine[]): Promise<string> {
+    await authorizeAction('exportForERP', 'cost-assistant:access');
     const headers = [
         "Cabys", "Cód. Artículo", "Descripción", "Cant.", "Descuento", 
         "Costo Unit. (s/IVA)", "Costo Unit. (c/IVA)", "Imp. %", "Margen", 
@@ -337,6 +349,7 @@ export async function exportForERP(lines: CostAssistantLine[]): Promise<string>
 
 
 export async function cleanupExportFile(fileName: string): Promise<void> {
+    await authorizeAction('cleanupExportFile', 'cost-assistant:access');
     if (!fileName) {
         throw new Error("Filename is required");
     }
@@ -9,6 +9,7 @@
 import { logError } from '@/modules/core/lib/logger';
 import { getApiSettings, getCabysCatalog } from '@/modules/core/lib/db';
 import type { HaciendaContributorInfo, HaciendaExemptionApiResponse, EnrichedExemptionInfo } from '@/modules/core/types';
+import { authorizeAction } from '@/modules/core/lib/authorization';
 
 // In-memory cache for CABYS data to avoid repeated DB queries.
 let cabysCache: Map<string, { description: string, taxRate: number }> | null = null;
@@ -48,6 +49,7 @@ loadCabysData().catch(console.error);
  * @returns {Promise<HaciendaContributorInfo | { error: boolean; message: string }>} The contributor data or an error object.
  */
 export async function getContributorInfo(taxpayerId: string): Promise<HaciendaContributorInfo | { error: boolean; message: string }> {
+    await authorizeAction('getContributorInfo', 'hacienda:query');
     if (!taxpayerId) {
         return { error: true, message: "El número de identificación es requerido." };
     }
@@ -79,6 +81,7 @@ export async function getContributorInfo(taxpayerId: string): Promise<HaciendaCo
  * @returns {Promise<HaciendaExemptionApiResponse | { error: boolean; message: string; status?: number }>} The exemption data or an error object.
  */
 export async function getExemptionStatus(authNumber: string): Promise<HaciendaExemptionApiResponse | { error: boolean; message: string; status?: number }> {
+    await authorizeAction('getExemptionStatus', ['hacienda:query', 'quotes:create']);
     if (!authNumber) {
         return { error: true, message: "El número de autorización es requerido." };
     }
@@ -112,6 +115,7 @@ export async function getExemptionStatus(authNumber: string): Promise<HaciendaEx
  * @returns {Promise<EnrichedExemptionInfo | { error: boolean; message: string; status?: number }>} The enriched exemption data or an error object.
  */
 export async function getEnrichedExemptionStatus(authNumber: string): Promise<EnrichedExemptionInfo | { error: boolean; message: string; status?: number }> {
+    await authorizeAction('getEnrichedExemptionStatus', 'hacienda:query');
     const exemptionResult = await getExemptionStatus(authNumber);
 
     if ('error' in exemptionResult) {
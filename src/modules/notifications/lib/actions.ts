@@ -3,7 +3,7 @@
  */
 'use server';
 
-import type { NotificationRule, NotificationServiceConfig, ScheduledTask } from '@/modules/core/types';
+import type { NotificationChannel, NotificationDelivery, NotificationEventId, NotificationTemplate, NotificationDeliveryStatus, NotificationRule, NotificationServiceConfig, ScheduledTask, ScheduledTaskRun, ScheduledTaskRunSummary, TelegramAccountLink, TelegramDestination, TelegramSettings, UserNotificationPreferences, WebhookDeliveryResult, WebhookEventBody } from '@/modules/core/types';
 import { logInfo } from '@/modules/core/lib/logger';
 import {
     getAllNotificationRules as getAllRulesServer,
@@ -12,58 +12,381 @@ import {
     getAllScheduledTasks as getAllTasksServer,
     saveScheduledTask as saveTaskServer,
     deleteScheduledTask as deleteTaskServer,
+    getScheduledTaskRuns as getTaskRunsServer,
+    getScheduledTaskRunSummaries as getTaskRunSummariesServer,
     getNotificationServiceSettings as getServiceSettingsServer,
-    saveNotificationServiceSettings as saveServiceSettingsServer
+    saveNotificationServiceSettings as saveServiceSettingsServer,
+    getCustomNotificationTemplates as getCustomTemplatesServer,
+    getScheduledTaskById
 } from './db';
+import {
+    getNotificationDeliveries as getDeliveriesServer,
+    getNotificationDeliveryById as getDeliveryByIdServer,
+    requeueNotificationDelivery as requeueDeliveryServer,
+    saveCustomNotificationTemplate as saveCustomTemplateServer,
+    deleteCustomNotificationTemplate as deleteCustomTemplateServer,
+    getTelegramLinkForUser,
+} from './server-db';
 import { revalidatePath } from 'next/cache';
+import crypto from 'crypto';
+import { authorizeAction, runAsSystem } from '@/modules/core/lib/authorization';
+import { recordAuditEvent } from '@/modules/core/lib/audit';
+import { sendWebhook } from './webhook-service';
+import { sendTelegramTestMessage } from './telegram-service';
+import { NOTIFICATION_EVENTS } from './notification-events';
+import { processNotificationOutbox } from './notifications-engine';
+import { validateRuleConditions } from './notification-conditions';
+import { escapeHtml, findUnsupportedTelegramTags, getTemplateSyntaxError } from './template-engine';
+import { DEFAULT_NOTIFICATION_TEMPLATES } from './templates/default-templates';
+import { getUserPreferences, saveUserPreferences } from '@/modules/core/lib/db';
+import { createTelegramLinkCode, getTelegramBotUsername, startTelegramBot, unlinkTelegramAccount } from './telegram-bot';
+import cron from 'node-cron';
+import { runScheduledTaskNow as startScheduledTaskRun, refreshScheduledTask } from '@/lib/cron-runner';
+import { AVAILABLE_TASKS } from '@/lib/task-registry';
+import { parseTaskParams } from '@/lib/task-params';
+import { isValidTimeZone } from '@/lib/cron-schedule';
+import { USER_NOTIFICATION_PREFERENCES_KEY, normalizeUserNotificationPreferences, validateUserNotificationPreferences } from './user-notification-preferences';
 
 // --- Rules ---
 
 export async function getAllNotificationRules(): Promise<NotificationRule[]> {
+    await authorizeAction('getAllNotificationRules', 'admin:notifications:read');
     return getAllRulesServer();
 }
 
 export async function saveNotificationRule(rule: Omit<NotificationRule, 'id'> | NotificationRule): Promise<NotificationRule> {
+    const actor = await authorizeAction('saveNotificationRule', 'admin:notifications:write');
+    validateRuleConditions(rule.event, rule.conditions);
+    if (rule.action === 'sendTelegram') {
+        const destinations = (await getServiceSettingsServer('telegram')).telegram?.destinations || [];
+        const unknown = rule.recipients.filter(id => !destinations.some(d => d.id === id));
+        if (unknown.length > 0) {
+            throw new Error('La regla usa destinos de Telegram que ya no existen. Vuelve a seleccionarlos.');
+        }
+    }
+    const before = 'id' in rule ? (await getAllRulesServer()).find(r => r.id === rule.id) : undefined;
     const savedRule = await saveRuleServer(rule);
     await logInfo(`Notification rule saved: ${savedRule.name}`, { ruleId: savedRule.id, event: savedRule.event });
+    await recordAuditEvent(actor, { entityType: 'notification_rule', entityId: savedRule.id, before, after: savedRule });
     revalidatePath('/dashboard/admin/notifications');
     return savedRule;
 }
 
 export async function deleteNotificationRule(id: number): Promise<void> {
+    const actor = await authorizeAction('deleteNotificationRule', 'admin:notifications:write');
+    const before = (await getAllRulesServer()).find(r => r.id === id);
     await deleteRuleServer(id);
     await logInfo(`Notification rule deleted`, { ruleId: id });
+    if (before) {
+        await recordAuditEvent(actor, { entityType: 'notification_rule', entityId: id, before, after: null });
+    }
     revalidatePath('/dashboard/admin/notifications');
 }
 
+/**
+ * Sends a sample event to the webhook of a rule, as configured in the editor (it need not be saved yet),
+ * so administrators can check the receiving system before enabling the rule.
+ * @param rule - The rule being edited.
+ * @returns The delivery outcome, including the receiver's response.
+ */
+export async function testNotificationWebhook(rule: Omit<NotificationRule, 'id'> | NotificationRule): Promise<WebhookDeliveryResult> {
+    const actor = await authorizeAction('testNotificationWebhook', 'admin:notifications:write');
+    if (!rule.webhook?.url) {
+        throw new Error('Debe indicar la URL del webhook.');
+    }
+    const event = NOTIFICATION_EVENTS.find(e => e.id === rule.event);
+    const body: WebhookEventBody = {
+        event: rule.event,
+        ruleId: 'id' in rule ? rule.id : 0,
+        ruleName: rule.name || 'Regla sin guardar',
+        occurredAt: new Date().toISOString(),
+        test: true,
+        data: {
+            message: 'Payload de prueba enviado desde Clic-Tools.',
+            eventName: event?.name,
+            sentBy: actor.name,
+        },
+    };
+    const result = await sendWebhook(rule.webhook, rule.event, body);
+    await logInfo(`Test webhook sent for rule: ${body.ruleName}`, { ok: result.ok, status: result.status, attempts: result.attempts });
+    return result;
+}
+
+// --- Templates ---
+
+/**
+ * Lists the template of every event and channel: the custom version when there is one, otherwise the default.
+ */
+export async function getNotificationTemplates(): Promise<NotificationTemplate[]> {
+    await authorizeAction('getNotificationTemplates', 'admin:notifications:read');
+    const customTemplates = await getCustomTemplatesServer();
+    return NOTIFICATION_EVENTS.flatMap(event => (['email', 'telegram'] as NotificationChannel[]).map(channel =>
+        customTemplates.find(t => t.event === event.id && t.channel === channel)
+        ?? { event: event.id, channel, ...DEFAULT_NOTIFICATION_TEMPLATES[event.id][channel], isCustom: false }
+    ));
+}
+
+/**
+ * Saves a custom template after checking its syntax and, for Telegram, that it only uses supported tags.
+ */
+export async function saveNotificationTemplate(template: Pick<NotificationTemplate, 'event' | 'channel' | 'subject' | 'body'>): Promise<void> {
+    const actor = await authorizeAction('saveNotificationTemplate', 'admin:notifications:write');
+    if (!DEFAULT_NOTIFICATION_TEMPLATES[template.event]?.[template.channel]) {
+        throw new Error('Evento o canal de plantilla desconocido.');
+    }
+    if (!template.body.trim()) {
+        throw new Error('El cuerpo de la plantilla no puede estar vacío.');
+    }
+    const syntaxError = getTemplateSyntaxError(template.subject) || getTemplateSyntaxError(template.body);
+    if (syntaxError) {
+        throw new Error(`Error de sintaxis en la plantilla: ${syntaxError}`);
+    }
+    if (template.channel === 'telegram') {
+        const unsupportedTags = findUnsupportedTelegramTags(template.body);
+        if (unsupportedTags.length > 0) {
+            throw new Error(`Telegram no admite las etiquetas: ${unsupportedTags.map(tag => `<${tag}>`).join(', ')}.`);
+        }
+    }
+    const before = (await getCustomTemplatesServer()).find(t => t.event === template.event && t.channel === template.channel);
+    const subject = template.channel === 'email' ? template.subject : '';
+    await saveCustomTemplateServer({ ...template, subject }, actor.name);
+    await logInfo(`Notification template saved: ${template.event} (${template.channel})`);
+    await recordAuditEvent(actor, {
+        entityType: 'notification_template', entityId: `${template.event}:${template.channel}`,
+        before: before ? { subject: before.subject, body: before.body } : null, after: { subject, body: template.body },
+    });
+    revalidatePath('/dashboard/admin/notifications/templates');
+}
+
+/**
+ * Deletes the custom version of a template, so the built-in default applies again.
+ */
+export async function resetNotificationTemplate(event: NotificationEventId, channel: NotificationChannel): Promise<void> {
+    const actor = await authorizeAction('resetNotificationTemplate', 'admin:notifications:write');
+    const before = (await getCustomTemplatesServer()).find(t => t.event === event && t.channel === channel);
+    if (!before) return;
+    await deleteCustomTemplateServer(event, channel);
+    await logInfo(`Notification template reset to default: ${event} (${channel})`);
+    await recordAuditEvent(actor, { entityType: 'notification_template', entityId: `${event}:${channel}`, action: 'reset', before: { subject: before.subject, body: before.body }, after: null });
+    revalidatePath('/dashboard/admin/notifications/templates');
+}
+
+// --- Outbox ---
+
+export async function getNotificationDeliveries(filters: { ruleId?: number; status?: NotificationDeliveryStatus } = {}): Promise<NotificationDelivery[]> {
+    await authorizeAction('getNotificationDeliveries', 'admin:notifications:read');
+    return getDeliveriesServer(filters);
+}
+
+/**
+ * Queues a delivery again, whatever its state (e.g. a dead-lettered one after fixing the SMTP settings),
+ * and delivers it right away.
+ * @returns The delivery after the new attempt.
+ */
+export async function resendNotificationDelivery(id: number): Promise<NotificationDelivery | null> {
+    await authorizeAction('resendNotificationDelivery', 'admin:notifications:write');
+    if (!(await requeueDeliveryServer(id))) {
+        throw new Error('El envío no existe.');
+    }
+    await logInfo(`Notification delivery requeued manually`, { deliveryId: id });
+    await runAsSystem(() => processNotificationOutbox());
+    return getDeliveryByIdServer(id);
+}
+
 // --- Scheduled Tasks ---
 
+/**
+ * Checks the permission of the action of a saved task, so a task can only be changed or removed
+ * by users who could also schedule it.
+ */
+async function authorizeTask(action: string, scheduledTaskId: number): Promise<void> {
+    const saved = await getScheduledTaskById(scheduledTaskId);
+    const definition = saved && AVAILABLE_TASKS[saved.taskId];
+    if (definition) {
+        await authorizeAction(action, definition.permission);
+    }
+}
+
 export async function getAllScheduledTasks(): Promise<ScheduledTask[]> {
+    await authorizeAction('getAllScheduledTasks', 'admin:notifications:read');
     return getAllTasksServer();
 }
 
 export async function saveScheduledTask(task: Omit<ScheduledTask, 'id'> | ScheduledTask): Promise<ScheduledTask> {
-    const savedTask = await saveTaskServer(task);
-    await logInfo(`Scheduled task saved: ${savedTask.name}`, { taskId: savedTask.id, schedule: savedTask.schedule });
+    const actor = await authorizeAction('saveScheduledTask', 'admin:notifications:write');
+    if ('id' in task) {
+        await authorizeTask('saveScheduledTask', task.id);
+    }
+    if (task.timeoutMinutes != null && (!Number.isInteger(task.timeoutMinutes) || task.timeoutMinutes < 1 || task.timeoutMinutes > 1440)) {
+        throw new Error('El tiempo límite debe ser un número entero de minutos entre 1 y 1440.');
+    }
+    const definition = AVAILABLE_TASKS[task.taskId];
+    if (!definition) {
+        throw new Error(`La acción "${task.taskId}" no existe.`);
+    }
+    await authorizeAction('saveScheduledTask', definition.permission);
+    if (!cron.validate(task.schedule)) {
+        throw new Error('La expresión cron del horario no es válida.');
+    }
+    if (task.timezone && !isValidTimeZone(task.timezone)) {
+        throw new Error(`La zona horaria "${task.timezone}" no es válida.`);
+    }
+    const before = 'id' in task ? await getScheduledTaskById(task.id) : null;
+    const savedTask = await saveTaskServer({ ...task, params: parseTaskParams(definition.params, task.params) });
+    await refreshScheduledTask(savedTask.id);
+    await logInfo(`Scheduled task saved: ${savedTask.name}`, { taskId: savedTask.id, schedule: savedTask.schedule, timezone: savedTask.timezone });
+    await recordAuditEvent(actor, { entityType: 'scheduled_task', entityId: savedTask.id, before, after: savedTask });
     revalidatePath('/dashboard/admin/notifications');
     return savedTask;
 }
 
 export async function deleteScheduledTask(id: number): Promise<void> {
+    const actor = await authorizeAction('deleteScheduledTask', 'admin:notifications:write');
+    await authorizeTask('deleteScheduledTask', id);
+    const before = await getScheduledTaskById(id);
     await deleteTaskServer(id);
+    await refreshScheduledTask(id);
     await logInfo(`Scheduled task deleted`, { taskId: id });
+    if (before) {
+        await recordAuditEvent(actor, { entityType: 'scheduled_task', entityId: id, before, after: null });
+    }
     revalidatePath('/dashboard/admin/notifications');
 }
 
+export async function runScheduledTaskNow(id: number): Promise<ScheduledTaskRun> {
+    await authorizeAction('runScheduledTaskNow', 'admin:notifications:write');
+    return startScheduledTaskRun(id);
+}
+
+export async function getScheduledTaskRuns(scheduledTaskId: number): Promise<ScheduledTaskRun[]> {
+    await authorizeAction('getScheduledTaskRuns', 'admin:notifications:read');
+    return getTaskRunsServer(scheduledTaskId);
+}
+
+export async function getScheduledTaskRunSummaries(): Promise<ScheduledTaskRunSummary[]> {
+    await authorizeAction('getScheduledTaskRunSummaries', 'admin:notifications:read');
+    return getTaskRunSummariesServer();
+}
+
 
 // --- Settings ---
 
 export async function getNotificationServiceSettings(service: 'telegram'): Promise<NotificationServiceConfig> {
+    await authorizeAction('getNotificationServiceSettings', 'admin:notifications:read');
     return getServiceSettingsServer(service);
 }
 
-export async function saveNotificationServiceSettings(service: 'telegram', config: any): Promise<void> {
-    await saveServiceSettingsServer(service, config);
+/**
+ * Checks the Telegram bots and destinations registry and assigns IDs to new entries.
+ * @throws {Error} If an entry is incomplete, or a destination still used by a rule was removed.
+ */
+async function prepareTelegramSettings(config: TelegramSettings): Promise<TelegramSettings> {
+    const newId = (prefix: string) => `${prefix}-${crypto.randomBytes(4).toString('hex')}`;
+    const bots = (config.bots || []).map(bot => ({ ...bot, id: bot.id || newId('bot'), name: bot.name.trim(), botToken: bot.botToken.trim() }));
+    const destinations = (config.destinations || []).map(destination => ({
+        ...destination,
+        id: destination.id || newId('dest'),
+        name: destination.name.trim(),
+        chatId: destination.chatId.trim(),
+        threadId: destination.threadId?.trim() || undefined,
+        botId: destination.botId || undefined,
+    }));
+
+    for (const bot of bots) {
+        if (!bot.name || !bot.botToken) throw new Error('Cada bot adicional necesita un nombre y un token.');
+    }
+    for (const destination of destinations) {
+        if (!destination.name || !destination.chatId) throw new Error('Cada destino de Telegram necesita un nombre y un Chat ID.');
+        if (destination.threadId && !/^\d+$/.test(destination.threadId)) throw new Error(`El ID de tema del destino '${destination.name}' debe ser numérico.`);
+        if (destination.botId && !bots.some(b => b.id === destination.botId)) throw new Error(`El destino '${destination.name}' usa un bot que fue eliminado.`);
+    }
+    if (new Set(destinations.map(d => d.name.toLowerCase())).size !== destinations.length) {
+        throw new Error('Los nombres de los destinos de Telegram deben ser únicos.');
+    }
+
+    const usedByRules = (await getAllRulesServer())
+        .filter(rule => rule.action === 'sendTelegram' && rule.recipients.some(id => !destinations.some(d => d.id === id)))
+        .map(rule => rule.name);
+    if (usedByRules.length > 0) {
+        throw new Error(`No se puede eliminar un destino usado por las reglas: ${usedByRules.join(', ')}.`);
+    }
+    return { ...config, bots, destinations };
+}
+
+/**
+ * Sends a test message to a Telegram destination as configured in the editor (it need not be saved yet).
+ * @param settings - The Telegram settings being edited, for the bots.
+ * @param destination - The destination to test.
+ * @throws {Error} If Telegram rejected the message (e.g. the bot is not a member of the chat).
+ */
+export async function testTelegramDestination(settings: TelegramSettings, destination: TelegramDestination): Promise<void> {
+    const actor = await authorizeAction('testTelegramDestination', 'admin:notifications:write');
+    await sendTelegramTestMessage(
+        settings,
+        destination,
+        `<b>Mensaje de prueba</b>\nDestino "${escapeHtml(destination.name)}" configurado correctamente por ${escapeHtml(actor.name)}.`
+    );
+    await logInfo(`Test message sent to Telegram destination: ${destination.name}`);
+}
+
+/** The tokens of additional bots are kept out of the audit trail (the main token is masked by the audit itself). */
+const withoutBotTokens = (telegram?: TelegramSettings) => telegram && { ...telegram, bots: telegram.bots?.map(({ botToken: _botToken, ...bot }) => bot) };
+
+export async function saveNotificationServiceSettings(service: 'telegram', config: TelegramSettings): Promise<void> {
+    const actor = await authorizeAction('saveNotificationServiceSettings', 'admin:notifications:write');
+    const before = await getServiceSettingsServer(service);
+    await saveServiceSettingsServer(service, { [service]: await prepareTelegramSettings(config) });
     await logInfo(`Notification service settings updated for: ${service}`);
+    // The config is keyed by service; audit the service's own fields so secrets like the bot token are masked.
+    await recordAuditEvent(actor, { entityType: 'notification_settings', entityId: service, before: withoutBotTokens(before[service]), after: withoutBotTokens((await getServiceSettingsServer(service))[service]) });
+    // Picks up a new token or API URL, or stops answering commands when they were disabled.
+    await startTelegramBot();
     revalidatePath('/dashboard/admin/notifications/settings');
 }
+
+// --- Personal Preferences ---
+
+/**
+ * Returns the notification preferences of the current user, completed with the defaults.
+ */
+export async function getMyNotificationPreferences(): Promise<UserNotificationPreferences> {
+    const user = await authorizeAction('getMyNotificationPreferences');
+    return normalizeUserNotificationPreferences(await getUserPreferences(user.id, USER_NOTIFICATION_PREFERENCES_KEY));
+}
+
+/**
+ * Saves the notification preferences of the current user.
+ * The Telegram chat is kept as stored: it is only set when the account is linked through the bot.
+ * @throws {Error} If a value is invalid (e.g. Telegram enabled without a linked account).
+ */
+export async function saveMyNotificationPreferences(preferences: UserNotificationPreferences): Promise<UserNotificationPreferences> {
+    const user = await authorizeAction('saveMyNotificationPreferences');
+    const stored = normalizeUserNotificationPreferences(await getUserPreferences(user.id, USER_NOTIFICATION_PREFERENCES_KEY));
+    const normalized = normalizeUserNotificationPreferences({ ...preferences, telegramChatId: stored.telegramChatId });
+    validateUserNotificationPreferences(normalized);
+    await saveUserPreferences(user.id, USER_NOTIFICATION_PREFERENCES_KEY, normalized);
+    await logInfo(`Notification preferences updated by ${user.name}`, { userId: user.id, mode: normalized.mode });
+    return normalized;
+}
+
+/**
+ * Returns the Telegram account linked to the current user, and the bot they talk to.
+ */
+export async function getMyTelegramLink(): Promise<{ link: TelegramAccountLink | null; botUsername: string | null }> {
+    const user = await authorizeAction('getMyTelegramLink');
+    return { link: await getTelegramLinkForUser(user.id), botUsername: await getTelegramBotUsername() };
+}
+
+/**
+ * Creates a one-time code for the current user to send to the bot with /vincular.
+ */
+export async function createMyTelegramLinkCode(): Promise<{ code: string; expiresAt: string; botUsername: string | null }> {
+    const user = await authorizeAction('createMyTelegramLinkCode');
+    const { code, expiresAt } = await createTelegramLinkCode(user.id);
+    return { code, expiresAt, botUsername: await getTelegramBotUsername() };
+}
+
+export async function unlinkMyTelegramAccount(): Promise<void> {
+    const user = await authorizeAction('unlinkMyTelegramAccount');
+    await unlinkTelegramAccount(user.id);
+}
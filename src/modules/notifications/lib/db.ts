@@ -7,9 +7,8 @@
  */
 
 import { connectDb, getUnreadSuggestions as dbGetUnreadSuggestions } from '@/modules/core/lib/db';
-import type { Notification, NotificationRule, NotificationServiceConfig, ScheduledTask, Suggestion } from '@/modules/core/types';
-
-const NOTIFICATIONS_DB_FILE = 'notifications.db';
+import { NOTIFICATIONS_DB_FILE } from './server-db';
+import type { Notification, NotificationEventId, NotificationRule, NotificationServiceConfig, NotificationTemplate, ScheduledTask, ScheduledTaskRun, ScheduledTaskRunSummary, Suggestion } from '@/modules/core/types';
 
 export async function initializeNotificationsDb(db: import('better-sqlite3').Database) {
     const schema = `
@@ -20,6 +19,8 @@ export async function initializeNotificationsDb(db: import('better-sqlite3').Dat
             action TEXT NOT NULL,
             recipients TEXT NOT NULL,
             subject TEXT,
+            webhookConfig TEXT,
+            conditions TEXT,
             enabled INTEGER DEFAULT 1
         );
 
@@ -33,7 +34,83 @@ export async function initializeNotificationsDb(db: import('better-sqlite3').Dat
             name TEXT NOT NULL,
             schedule TEXT NOT NULL,
             taskId TEXT NOT NULL,
-            enabled INTEGER DEFAULT 1
+            enabled INTEGER DEFAULT 1,
+            timeoutMinutes INTEGER,
+            params TEXT,
+            timezone TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS scheduled_task_runs (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            scheduledTaskId INTEGER NOT NULL,
+            taskId TEXT NOT NULL,
+            triggerType TEXT NOT NULL,
+            triggeredBy TEXT,
+            status TEXT NOT NULL,
+            startedAt TEXT NOT NULL,
+            finishedAt TEXT,
+            durationMs INTEGER,
+            resultSummary TEXT,
+            error TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_scheduled_task_runs_task ON scheduled_task_runs (scheduledTaskId, startedAt);
+
+        CREATE TABLE IF NOT EXISTS notification_outbox (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            ruleId INTEGER NOT NULL,
+            ruleName TEXT NOT NULL,
+            event TEXT NOT NULL,
+            action TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'pending',
+            attempts INTEGER NOT NULL DEFAULT 0,
+            lastError TEXT,
+            createdAt TEXT NOT NULL,
+            nextAttemptAt TEXT,
+            sentAt TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox (status, nextAttemptAt);
+
+        CREATE TABLE IF NOT EXISTS notification_templates (
+            event TEXT NOT NULL,
+            channel TEXT NOT NULL,
+            subject TEXT,
+            body TEXT NOT NULL,
+            updatedAt TEXT NOT NULL,
+            updatedBy TEXT,
+            PRIMARY KEY (event, channel)
+        );
+
+        CREATE TABLE IF NOT EXISTS notification_event_keys (
+            event TEXT NOT NULL,
+            entityKey TEXT NOT NULL,
+            createdAt TEXT NOT NULL,
+            PRIMARY KEY (event, entityKey)
+        );
+
+        CREATE TABLE IF NOT EXISTS notification_digest_queue (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            userId INTEGER NOT NULL,
+            channel TEXT NOT NULL,
+            category TEXT NOT NULL,
+            message TEXT NOT NULL,
+            href TEXT,
+            createdAt TEXT NOT NULL,
+            sentAt TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_notification_digest_queue_user ON notification_digest_queue (userId, sentAt);
+
+        CREATE TABLE IF NOT EXISTS telegram_links (
+            telegramUserId TEXT PRIMARY KEY,
+            userId INTEGER NOT NULL UNIQUE,
+            telegramUsername TEXT,
+            linkedAt TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS telegram_link_codes (
+            code TEXT PRIMARY KEY,
+            userId INTEGER NOT NULL,
+            expiresAt TEXT NOT NULL
         );
     `;
     db.exec(schema);
@@ -42,7 +119,7 @@ export async function initializeNotificationsDb(db: import('better-sqlite3').Dat
     db.prepare(`
         INSERT OR IGNORE INTO notification_settings (service, config) 
         VALUES ('telegram', ?)
-    `).run(JSON.stringify({ botToken: '', chatId: '' }));
+    `).run(JSON.stringify({ telegram: { botToken: '', chatId: '' } }));
 
     console.log(`Database ${NOTIFICATIONS_DB_FILE} initialized for Notifications Engine.`);
 }
@@ -60,6 +137,133 @@ export async function runNotificationsMigrations(db: import('better-sqlite3').Da
                 );
             `);
         }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='notification_outbox'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating notification_outbox table.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS notification_outbox (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    ruleId INTEGER NOT NULL,
+                    ruleName TEXT NOT NULL,
+                    event TEXT NOT NULL,
+                    action TEXT NOT NULL,
+                    payload TEXT NOT NULL,
+                    status TEXT NOT NULL DEFAULT 'pending',
+                    attempts INTEGER NOT NULL DEFAULT 0,
+                    lastError TEXT,
+                    createdAt TEXT NOT NULL,
+                    nextAttemptAt TEXT,
+                    sentAt TEXT
+                );
+                CREATE INDEX IF NOT EXISTS idx_notification_outbox_due ON notification_outbox (status, nextAttemptAt);
+            `);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='notification_templates'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating notification_templates table.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS notification_templates (
+                    event TEXT NOT NULL,
+                    channel TEXT NOT NULL,
+                    subject TEXT,
+                    body TEXT NOT NULL,
+                    updatedAt TEXT NOT NULL,
+                    updatedBy TEXT,
+                    PRIMARY KEY (event, channel)
+                );
+            `);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='notification_event_keys'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating notification_event_keys table.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS notification_event_keys (
+                    event TEXT NOT NULL,
+                    entityKey TEXT NOT NULL,
+                    createdAt TEXT NOT NULL,
+                    PRIMARY KEY (event, entityKey)
+                );
+            `);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='notification_digest_queue'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating notification_digest_queue table.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS notification_digest_queue (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    userId INTEGER NOT NULL,
+                    channel TEXT NOT NULL,
+                    category TEXT NOT NULL,
+                    message TEXT NOT NULL,
+                    href TEXT,
+                    createdAt TEXT NOT NULL,
+                    sentAt TEXT
+                );
+                CREATE INDEX IF NOT EXISTS idx_notification_digest_queue_user ON notification_digest_queue (userId, sentAt);
+            `);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='telegram_links'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating telegram_links and telegram_link_codes tables.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS telegram_links (
+                    telegramUserId TEXT PRIMARY KEY,
+                    userId INTEGER NOT NULL UNIQUE,
+                    telegramUsername TEXT,
+                    linkedAt TEXT NOT NULL
+                );
+                CREATE TABLE IF NOT EXISTS telegram_link_codes (
+                    code TEXT PRIMARY KEY,
+                    userId INTEGER NOT NULL,
+                    expiresAt TEXT NOT NULL
+                );
+            `);
+        }
+
+        if (!db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='scheduled_task_runs'`).get()) {
+            console.log("MIGRATION (notifications.db): Creating scheduled_task_runs table.");
+            db.exec(`
+                CREATE TABLE IF NOT EXISTS scheduled_task_runs (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    scheduledTaskId INTEGER NOT NULL,
+                    taskId TEXT NOT NULL,
+                    triggerType TEXT NOT NULL,
+                    triggeredBy TEXT,
+                    status TEXT NOT NULL,
+                    startedAt TEXT NOT NULL,
+                    finishedAt TEXT,
+                    durationMs INTEGER,
+                    resultSummary TEXT,
+                    error TEXT
+                );
+                CREATE INDEX IF NOT EXISTS idx_scheduled_task_runs_task ON scheduled_task_runs (scheduledTaskId, startedAt);
+            `);
+        }
+
+        const tasksTableInfo = db.prepare(`PRAGMA table_info(scheduled_tasks)`).all() as { name: string }[];
+        if (!tasksTableInfo.some(c => c.name === 'timeoutMinutes')) {
+            console.log("MIGRATION (notifications.db): Adding timeoutMinutes to scheduled_tasks.");
+            db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN timeoutMinutes INTEGER`);
+        }
+        if (!tasksTableInfo.some(c => c.name === 'params')) {
+            console.log("MIGRATION (notifications.db): Adding params to scheduled_tasks.");
+            db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN params TEXT`);
+        }
+        if (!tasksTableInfo.some(c => c.name === 'timezone')) {
+            console.log("MIGRATION (notifications.db): Adding timezone to scheduled_tasks.");
+            db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN timezone TEXT`);
+        }
+
+        const rulesTableInfo = db.prepare(`PRAGMA table_info(notification_rules)`).all() as { name: string }[];
+        const ruleColumns = new Set(rulesTableInfo.map(c => c.name));
+        if (!ruleColumns.has('webhookConfig')) {
+            console.log("MIGRATION (notifications.db): Adding webhookConfig to notification_rules.");
+            db.exec(`ALTER TABLE notification_rules ADD COLUMN webhookConfig TEXT`);
+        }
+        if (!ruleColumns.has('conditions')) {
+            console.log("MIGRATION (notifications.db): Adding conditions to notification_rules.");
+            db.exec(`ALTER TABLE notification_rules ADD COLUMN conditions TEXT`);
+        }
     } catch (error) {
         console.error('Error during notifications DB migrations:', error);
     }
@@ -69,18 +273,24 @@ export async function runNotificationsMigrations(db: import('better-sqlite3').Da
 export async function getAllNotificationRules(): Promise<NotificationRule[]> {
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
     const rows = db.prepare('SELECT * FROM notification_rules ORDER BY name ASC').all() as any[];
-    return rows.map(row => ({
+    return rows.map(({ webhookConfig, conditions, ...row }) => ({
         ...row,
         enabled: Boolean(row.enabled),
         recipients: JSON.parse(row.recipients),
+        webhook: webhookConfig ? JSON.parse(webhookConfig) : null,
+        conditions: conditions ? JSON.parse(conditions) : [],
     }));
 }
 
 export async function saveNotificationRule(rule: Omit<NotificationRule, 'id'> | NotificationRule): Promise<NotificationRule> {
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const { webhook, conditions: _conditions, ...ruleData } = rule;
     const dataToSave = {
-        ...rule,
+        ...ruleData,
+        subject: rule.subject ?? null,
         recipients: JSON.stringify(rule.recipients),
+        webhookConfig: rule.action === 'sendWebhook' && webhook ? JSON.stringify(webhook) : null,
+        conditions: rule.conditions?.length ? JSON.stringify(rule.conditions) : null,
         enabled: rule.enabled ? 1 : 0,
     };
 
@@ -93,6 +303,8 @@ export async function saveNotificationRule(rule: Omit<NotificationRule, 'id'> |
                 action = @action,
                 recipients = @recipients,
                 subject = @subject,
+                webhookConfig = @webhookConfig,
+                conditions = @conditions,
                 enabled = @enabled
             WHERE id = @id
         `).run(dataToSave);
@@ -100,8 +312,8 @@ export async function saveNotificationRule(rule: Omit<NotificationRule, 'id'> |
     } else {
         // Create new rule
         const info = db.prepare(`
-            INSERT INTO notification_rules (name, event, action, recipients, subject, enabled)
-            VALUES (@name, @event, @action, @recipients, @subject, @enabled)
+            INSERT INTO notification_rules (name, event, action, recipients, subject, webhookConfig, conditions, enabled)
+            VALUES (@name, @event, @action, @recipients, @subject, @webhookConfig, @conditions, @enabled)
         `).run(dataToSave);
         return { ...rule, id: info.lastInsertRowid as number };
     }
@@ -112,6 +324,29 @@ export async function deleteNotificationRule(id: number): Promise<void> {
     db.prepare('DELETE FROM notification_rules WHERE id = ?').run(id);
 }
 
+// --- Templates ---
+
+/**
+ * Lists the templates customized by administrators. Events and channels without a row use the built-in default.
+ */
+export async function getCustomNotificationTemplates(): Promise<NotificationTemplate[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const rows = db.prepare('SELECT * FROM notification_templates').all() as Omit<NotificationTemplate, 'isCustom'>[];
+    return rows.map(row => ({ ...row, subject: row.subject || '', isCustom: true }));
+}
+
+/**
+ * Records that an event was raised for an entity, for events found by polling (e.g. overdue orders)
+ * that must be raised only once per entity.
+ * @returns True the first time the key is recorded, false if the event was already raised for it.
+ */
+export async function claimNotificationEventKey(eventId: NotificationEventId, entityKey: string): Promise<boolean> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const info = db.prepare('INSERT OR IGNORE INTO notification_event_keys (event, entityKey, createdAt) VALUES (?, ?, ?)')
+        .run(eventId, entityKey, new Date().toISOString());
+    return info.changes > 0;
+}
+
 // --- Scheduled Tasks ---
 export async function getAllScheduledTasks(): Promise<ScheduledTask[]> {
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
@@ -119,25 +354,62 @@ export async function getAllScheduledTasks(): Promise<ScheduledTask[]> {
     return rows.map(row => ({
         ...row,
         enabled: Boolean(row.enabled),
+        params: row.params ? JSON.parse(row.params) : {},
     }));
 }
 
+export async function getScheduledTaskById(id: number): Promise<ScheduledTask | null> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const row = db.prepare('SELECT * FROM scheduled_tasks WHERE id = ?').get(id) as any;
+    return row ? { ...row, enabled: Boolean(row.enabled), params: row.params ? JSON.parse(row.params) : {} } : null;
+}
+
 export async function saveScheduledTask(task: Omit<ScheduledTask, 'id'> | ScheduledTask): Promise<ScheduledTask> {
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
-    const dataToSave = { ...task, enabled: task.enabled ? 1 : 0 };
+    const dataToSave = { ...task, enabled: task.enabled ? 1 : 0, timeoutMinutes: task.timeoutMinutes || null, params: JSON.stringify(task.params || {}), timezone: task.timezone || null };
 
     if ('id' in task && task.id) {
-        db.prepare(`UPDATE scheduled_tasks SET name = @name, schedule = @schedule, taskId = @taskId, enabled = @enabled WHERE id = @id`).run(dataToSave);
+        db.prepare(`UPDATE scheduled_tasks SET name = @name, schedule = @schedule, taskId = @taskId, enabled = @enabled, timeoutMinutes = @timeoutMinutes, params = @params, timezone = @timezone WHERE id = @id`).run(dataToSave);
         return task as ScheduledTask;
     } else {
-        const info = db.prepare(`INSERT INTO scheduled_tasks (name, schedule, taskId, enabled) VALUES (@name, @schedule, @taskId, @enabled)`).run(dataToSave);
+        const info = db.prepare(`INSERT INTO scheduled_tasks (name, schedule, taskId, enabled, timeoutMinutes, params, timezone) VALUES (@name, @schedule, @taskId, @enabled, @timeoutMinutes, @params, @timezone)`).run(dataToSave);
         return { ...task, id: info.lastInsertRowid as number };
     }
 }
 
 export async function deleteScheduledTask(id: number): Promise<void> {
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
-    db.prepare('DELETE FROM scheduled_tasks WHERE id = ?').run(id);
+    db.transaction(() => {
+        db.prepare('DELETE FROM scheduled_task_runs WHERE scheduledTaskId = ?').run(id);
+        db.prepare('DELETE FROM scheduled_tasks WHERE id = ?').run(id);
+    })();
+}
+
+// --- Scheduled Task Runs ---
+
+export async function getScheduledTaskRuns(scheduledTaskId: number, limit = 50): Promise<ScheduledTaskRun[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return db.prepare(`SELECT * FROM scheduled_task_runs WHERE scheduledTaskId = ? ORDER BY startedAt DESC, id DESC LIMIT ?`)
+        .all(scheduledTaskId, limit) as ScheduledTaskRun[];
+}
+
+/**
+ * Gets the last run and the last successful run of every scheduled task that ran at least once.
+ */
+export async function getScheduledTaskRunSummaries(): Promise<ScheduledTaskRunSummary[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const lastRuns = db.prepare(`
+        SELECT * FROM scheduled_task_runs r
+        WHERE id = (SELECT id FROM scheduled_task_runs WHERE scheduledTaskId = r.scheduledTaskId ORDER BY startedAt DESC, id DESC LIMIT 1)
+    `).all() as ScheduledTaskRun[];
+    const lastSuccesses = db.prepare(`
+        SELECT scheduledTaskId, MAX(finishedAt) as lastSuccessAt FROM scheduled_task_runs WHERE status = 'success' GROUP BY scheduledTaskId
+    `).all() as { scheduledTaskId: number; lastSuccessAt: string }[];
+    return lastRuns.map(lastRun => ({
+        scheduledTaskId: lastRun.scheduledTaskId,
+        lastRun,
+        lastSuccessAt: lastSuccesses.find(s => s.scheduledTaskId === lastRun.scheduledTaskId)?.lastSuccessAt ?? null,
+    }));
 }
 
 // --- Settings ---
@@ -145,7 +417,9 @@ export async function getNotificationServiceSettings(service: 'telegram'): Promi
     const db = await connectDb(NOTIFICATIONS_DB_FILE);
     const row = db.prepare('SELECT config FROM notification_settings WHERE service = ?').get(service) as { config: string } | undefined;
     if (row) {
-        return JSON.parse(row.config);
+        const config = JSON.parse(row.config);
+        // Older versions stored the service's fields without the service key.
+        return config[service] ? config : { [service]: config } as NotificationServiceConfig;
     }
     // Return default structure if not found
     return { telegram: { botToken: '', chatId: '' } };
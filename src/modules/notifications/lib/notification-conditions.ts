@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Evaluation and validation of notification rule conditions.
+ * A condition compares one payload field (declared in the event's field catalog in
+ * `notification-events.ts`) with a value; a rule fires only when all its conditions match.
+ * This module is pure and has no "use server" directive, so the rule editor can share it.
+ */
+
+import type { NotificationConditionOperator, NotificationEventFieldType, NotificationEventId, NotificationRule, NotificationRuleCondition } from '@/modules/core/types';
+import { NOTIFICATION_EVENTS } from './notification-events';
+
+/** Operators that make sense for each field type, in the order the editor offers them. */
+export const OPERATORS_BY_FIELD_TYPE: Record<NotificationEventFieldType, NotificationConditionOperator[]> = {
+    string: ['equals', 'notEquals', 'in', 'contains'],
+    number: ['equals', 'notEquals', 'in', 'gt', 'lt'],
+    boolean: ['equals'],
+};
+
+/**
+ * Reads the values at a dot path of the payload. Arrays along the path are flattened,
+ * so `items.itemCode` yields the code of every item.
+ * @param payload - The event payload.
+ * @param path - The field path.
+ * @returns The values found; empty when the path does not exist.
+ */
+export function getPayloadValues(payload: unknown, path: string): unknown[] {
+    let current: unknown[] = [payload];
+    for (const segment of path.split('.')) {
+        current = current.flatMap(value => {
+            if (value === null || value === undefined) return [];
+            const next = Array.isArray(value) ? value.map(element => element?.[segment]) : (value as Record<string, unknown>)[segment];
+            return Array.isArray(next) ? next : [next];
+        }).filter(value => value !== null && value !== undefined);
+    }
+    return current;
+}
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+/**
+ * Compares a single payload value with the condition value.
+ */
+function compareValue(actual: unknown, operator: NotificationConditionOperator, expected: string): boolean {
+    switch (operator) {
+        case 'equals':
+        case 'notEquals':
+            return typeof actual === 'number' ? actual === Number(expected) : normalize(actual) === normalize(expected);
+        case 'in':
+            return expected.split(',').map(normalize).filter(Boolean).includes(normalize(actual));
+        case 'gt':
+            return Number(actual) > Number(expected);
+        case 'lt':
+            return Number(actual) < Number(expected);
+        case 'contains':
+            return normalize(actual).includes(normalize(expected));
+        default:
+            return false;
+    }
+}
+
+/**
+ * Evaluates one condition. For fields with several values (array paths) the condition matches
+ * when any value matches, except `notEquals`, which requires that no value equals the expected one.
+ * @param condition - The condition.
+ * @param payload - The event payload.
+ */
+export function evaluateCondition(condition: NotificationRuleCondition, payload: unknown): boolean {
+    const values = getPayloadValues(payload, condition.field);
+    if (condition.operator === 'notEquals') {
+        return !values.some(value => compareValue(value, 'equals', condition.value));
+    }
+    return values.some(value => compareValue(value, condition.operator, condition.value));
+}
+
+/**
+ * @param rule - The notification rule.
+ * @param payload - The event payload.
+ * @returns True when the rule has no conditions or all of them match.
+ */
+export function matchesRuleConditions(rule: NotificationRule, payload: unknown): boolean {
+    return (rule.conditions || []).every(condition => evaluateCondition(condition, payload));
+}
+
+/**
+ * Checks the conditions of a rule against the field catalog of its event.
+ * @param eventId - The event of the rule.
+ * @param conditions - The conditions to check.
+ * @throws {Error} If a condition uses an unknown field, an operator not valid for the field, or an empty value.
+ */
+export function validateRuleConditions(eventId: NotificationEventId, conditions: NotificationRuleCondition[] = []): void {
+    const fields = NOTIFICATION_EVENTS.find(event => event.id === eventId)?.fields || [];
+    for (const condition of conditions) {
+        const field = fields.find(f => f.path === condition.field);
+        if (!field) {
+            throw new Error(`El campo '${condition.field}' no está disponible para este evento.`);
+        }
+        if (!OPERATORS_BY_FIELD_TYPE[field.type].includes(condition.operator)) {
+            throw new Error(`El operador '${condition.operator}' no es válido para el campo '${field.label}'.`);
+        }
+        if (!condition.value?.toString().trim()) {
+            throw new Error(`La condición sobre '${field.label}' necesita un valor.`);
+        }
+        if (field.type === 'number' && condition.operator !== 'in' && Number.isNaN(Number(condition.value))) {
+            throw new Error(`La condición sobre '${field.label}' necesita un valor numérico.`);
+        }
+    }
+}
@@ -2,7 +2,85 @@
  * @fileoverview Central registry for all possible notification events in the system.
  */
 
-import type { NotificationEvent } from '@/modules/core/types';
+import type { NotificationEvent, NotificationEventField } from '@/modules/core/types';
+
+// --- Field catalogs for rule conditions ---
+
+const priorityOptions = [
+  { value: 'low', label: 'Baja' },
+  { value: 'medium', label: 'Media' },
+  { value: 'high', label: 'Alta' },
+  { value: 'urgent', label: 'Urgente' },
+];
+
+const productionOrderFields: NotificationEventField[] = [
+  { path: 'consecutive', label: 'Consecutivo', type: 'string' },
+  { path: 'customerId', label: 'Código de Cliente', type: 'string' },
+  { path: 'customerName', label: 'Nombre de Cliente', type: 'string' },
+  { path: 'productId', label: 'Código de Producto', type: 'string' },
+  { path: 'quantity', label: 'Cantidad', type: 'number' },
+  { path: 'priority', label: 'Prioridad', type: 'string', options: priorityOptions },
+  {
+    path: 'status', label: 'Estado', type: 'string', options: [
+      { value: 'pending', label: 'Pendiente' },
+      { value: 'pending-review', label: 'Pendiente Revisión' },
+      { value: 'pending-approval', label: 'Pendiente Aprobación' },
+      { value: 'approved', label: 'Aprobada' },
+      { value: 'in-queue', label: 'En Cola' },
+      { value: 'in-progress', label: 'En Progreso' },
+      { value: 'on-hold', label: 'En Espera' },
+      { value: 'completed', label: 'Completada' },
+      { value: 'canceled', label: 'Cancelada' },
+    ],
+  },
+  { path: 'machineId', label: 'Máquina / Asignación', type: 'string' },
+  { path: 'requestedBy', label: 'Solicitado por', type: 'string' },
+];
+
+const administrativeActionFields: NotificationEventField[] = [
+  {
+    path: 'pendingAction', label: 'Acción Solicitada', type: 'string', options: [
+      { value: 'cancellation-request', label: 'Cancelación' },
+      { value: 'unapproval-request', label: 'Desaprobación' },
+    ],
+  },
+  { path: 'actionRequestedBy', label: 'Solicitado por (acción)', type: 'string' },
+];
+
+const dispatchCheckFields: NotificationEventField[] = [
+  { path: 'documentId', label: 'Documento', type: 'string' },
+  { path: 'documentType', label: 'Tipo de Documento', type: 'string' },
+  { path: 'clientId', label: 'Código de Cliente', type: 'string' },
+  { path: 'clientName', label: 'Nombre de Cliente', type: 'string' },
+  { path: 'containerId', label: 'ID de Contenedor', type: 'number' },
+  { path: 'verifiedByUserName', label: 'Verificado por', type: 'string' },
+  { path: 'hasDiscrepancy', label: 'Tiene Discrepancias', type: 'boolean' },
+  { path: 'discrepancyCount', label: 'Líneas con Discrepancia', type: 'number' },
+  { path: 'items.itemCode', label: 'Artículo Verificado (código)', type: 'string' },
+  { path: 'items.description', label: 'Artículo Verificado (descripción)', type: 'string' },
+];
+
+const purchaseRequestFields: NotificationEventField[] = [
+  { path: 'consecutive', label: 'Consecutivo', type: 'string' },
+  { path: 'clientId', label: 'Código de Cliente', type: 'string' },
+  { path: 'clientName', label: 'Nombre de Cliente', type: 'string' },
+  { path: 'itemId', label: 'Código de Artículo', type: 'string' },
+  { path: 'quantity', label: 'Cantidad', type: 'number' },
+  { path: 'priority', label: 'Prioridad', type: 'string', options: priorityOptions },
+  {
+    path: 'status', label: 'Estado', type: 'string', options: [
+      { value: 'pending', label: 'Pendiente' },
+      { value: 'purchasing-review', label: 'Revisión Compras' },
+      { value: 'pending-approval', label: 'Pendiente Aprobación' },
+      { value: 'approved', label: 'Aprobada' },
+      { value: 'ordered', label: 'Ordenada' },
+      { value: 'received-in-warehouse', label: 'Recibido en Bodega' },
+      { value: 'canceled', label: 'Cancelada' },
+    ],
+  },
+  { path: 'purchaseType', label: 'Tipo de Compra', type: 'string', options: [{ value: 'single', label: 'Única' }, { value: 'multiple', label: 'Múltiple' }] },
+  { path: 'requestedBy', label: 'Solicitado por', type: 'string' },
+];
 
 /**
  * A list of all events that can trigger notifications.
@@ -15,18 +93,83 @@ export const NOTIFICATION_EVENTS: NotificationEvent[] = [
     module: 'Almacén',
     name: 'Al finalizar un Chequeo de Despacho',
     description: 'Se activa cuando un usuario finaliza la verificación de una factura, con o sin discrepancias.',
+    fields: dispatchCheckFields,
+  },
+  {
+    id: 'onDispatchDiscrepancy',
+    module: 'Almacén',
+    name: 'Al finalizar un Despacho con Discrepancias',
+    description: 'Se activa solo cuando la verificación de una factura termina con diferencias entre lo requerido y lo verificado.',
+    fields: dispatchCheckFields,
+  },
+  {
+    id: 'onDispatchContainerFinalized',
+    module: 'Almacén',
+    name: 'Al finalizar el Despacho de un Contenedor',
+    description: 'Se activa cuando se cierra un contenedor asignándole vehículo, chofer y ayudantes.',
+    fields: [
+      { path: 'containerName', label: 'Contenedor', type: 'string' },
+      { path: 'vehiclePlate', label: 'Placa del Vehículo', type: 'string' },
+      { path: 'driverName', label: 'Chofer', type: 'string' },
+      { path: 'documentCount', label: 'Cantidad de Documentos', type: 'number' },
+      { path: 'documents.clientName', label: 'Cliente de un Documento', type: 'string' },
+      { path: 'finalizedBy', label: 'Finalizado por', type: 'string' },
+    ],
   },
   {
     id: 'onReceivingCompleted',
     module: 'Almacén',
     name: 'Al registrar una Recepción de Mercadería',
     description: 'Se activa cada vez que se crea una nueva unidad de inventario desde el asistente de recepción.',
+    fields: [
+      { path: 'productId', label: 'Código de Producto', type: 'string' },
+      { path: 'quantity', label: 'Cantidad', type: 'number' },
+      { path: 'humanReadableId', label: 'Lote / ID Legible', type: 'string' },
+      { path: 'documentId', label: 'Documento', type: 'string' },
+      { path: 'locationId', label: 'ID de Ubicación', type: 'number' },
+      { path: 'createdBy', label: 'Registrado por', type: 'string' },
+    ],
   },
   {
     id: 'onRackCreated',
     module: 'Almacén',
     name: 'Al crear un nuevo Rack',
     description: 'Se activa cuando se crea una nueva estructura de rack, ya sea manual o con el asistente.',
+    fields: [
+      { path: 'rack.name', label: 'Nombre del Rack', type: 'string' },
+      { path: 'rack.code', label: 'Código del Rack', type: 'string' },
+      { path: 'parentPath', label: 'Ubicación Padre', type: 'string' },
+      { path: 'createdBy', label: 'Creado con', type: 'string' },
+    ],
+  },
+  {
+    id: 'onInventoryUnitCorrected',
+    module: 'Almacén',
+    name: 'Al corregir una Unidad de Inventario',
+    description: 'Se activa cuando una unidad se anula y se recrea con otro producto desde la pantalla de corrección.',
+    fields: [
+      { path: 'previousProductId', label: 'Producto Original', type: 'string' },
+      { path: 'newProductId', label: 'Producto Corregido', type: 'string' },
+      { path: 'quantity', label: 'Cantidad', type: 'number' },
+      { path: 'documentId', label: 'Documento', type: 'string' },
+      { path: 'correctedBy', label: 'Corregido por', type: 'string' },
+    ],
+  },
+  {
+    id: 'onPhysicalCountDifference',
+    module: 'Almacén',
+    name: 'Al registrar una Diferencia en el Conteo Físico',
+    description: 'Se activa cuando un conteo físico cambia la cantidad registrada en una ubicación. Use una condición sobre la diferencia (absoluta o porcentual) para avisar solo por encima de un umbral.',
+    fields: [
+      { path: 'itemId', label: 'Código de Artículo', type: 'string' },
+      { path: 'locationPath', label: 'Ubicación', type: 'string' },
+      { path: 'previousQuantity', label: 'Cantidad Anterior', type: 'number' },
+      { path: 'countedQuantity', label: 'Cantidad Contada', type: 'number' },
+      { path: 'difference', label: 'Diferencia (contado - anterior)', type: 'number' },
+      { path: 'absoluteDifference', label: 'Diferencia Absoluta', type: 'number' },
+      { path: 'differencePercent', label: 'Diferencia (%)', type: 'number' },
+      { path: 'countedBy', label: 'Contado por', type: 'string' },
+    ],
   },
   // --- Planner Module ---
   {
@@ -34,18 +177,49 @@ export const NOTIFICATION_EVENTS: NotificationEvent[] = [
     module: 'Planificador',
     name: 'Al crear una nueva Orden de Producción',
     description: 'Se activa cuando se guarda una nueva OP, antes de cualquier cambio de estado.',
+    fields: productionOrderFields,
   },
   {
     id: 'onPlannerOrderApproved',
     module: 'Planificador',
     name: 'Cuando una Orden de Producción es APROBADA',
     description: 'Se activa específicamente cuando el estado de una OP cambia a "Aprobada".',
+    fields: productionOrderFields,
+  },
+  {
+    id: 'onPlannerOrderOnHold',
+    module: 'Planificador',
+    name: 'Cuando una Orden de Producción se pone EN ESPERA',
+    description: 'Se activa específicamente cuando el estado de una OP cambia a "En Espera".',
+    fields: productionOrderFields,
   },
   {
     id: 'onPlannerOrderCompleted',
     module: 'Planificador',
     name: 'Cuando una Orden de Producción es COMPLETADA',
     description: 'Se activa específicamente cuando el estado de una OP cambia a "Completada".',
+    fields: productionOrderFields,
+  },
+  {
+    id: 'onPlannerOrderCanceled',
+    module: 'Planificador',
+    name: 'Cuando una Orden de Producción es CANCELADA',
+    description: 'Se activa específicamente cuando el estado de una OP cambia a "Cancelada".',
+    fields: productionOrderFields,
+  },
+  {
+    id: 'onPlannerOrderActionRequested',
+    module: 'Planificador',
+    name: 'Al solicitar la Cancelación o Desaprobación de una OP',
+    description: 'Se activa cuando un usuario pide cancelar o desaprobar una orden y la solicitud queda pendiente de autorización.',
+    fields: [...productionOrderFields, ...administrativeActionFields],
+  },
+  {
+    id: 'onPlannerOrderOverdue',
+    module: 'Planificador',
+    name: 'Cuando una Orden de Producción está ATRASADA',
+    description: 'Se activa una vez por orden cuando su fecha de entrega pasó sin completarla. Requiere la tarea programada "Notificar Órdenes de Producción Atrasadas".',
+    fields: [...productionOrderFields, { path: 'daysOverdue', label: 'Días de Atraso', type: 'number' }],
   },
   // --- Purchase Requests Module ---
   {
@@ -53,17 +227,92 @@ export const NOTIFICATION_EVENTS: NotificationEvent[] = [
     module: 'Solicitud de Compra',
     name: 'Al crear una nueva Solicitud de Compra',
     description: 'Se activa cuando se guarda una nueva solicitud de compra.',
+    fields: purchaseRequestFields,
   },
   {
     id: 'onRequestApproved',
     module: 'Solicitud de Compra',
     name: 'Cuando una Solicitud es APROBADA',
     description: 'Se activa específicamente cuando el estado de una solicitud cambia a "Aprobada".',
+    fields: purchaseRequestFields,
   },
   {
     id: 'onRequestOrdered',
     module: 'Solicitud de Compra',
     name: 'Cuando una Solicitud es ORDENADA',
     description: 'Se activa específicamente cuando el estado de una solicitud cambia a "Ordenada".',
+    fields: purchaseRequestFields,
+  },  {
+    id: 'onRequestReceivedInWarehouse',
+    module: 'Solicitud de Compra',
+    name: 'Cuando una Solicitud es RECIBIDA EN BODEGA',
+    description: 'Se activa específicamente cuando el estado de una solicitud cambia a "Recibido en Bodega".',
+    fields: purchaseRequestFields,
+  },
+  {
+    id: 'onRequestEnteredErp',
+    module: 'Solicitud de Compra',
+    name: 'Cuando una Solicitud es INGRESADA EN EL ERP',
+    description: 'Se activa específicamente cuando el estado de una solicitud cambia a "Ingresado ERP".',
+    fields: purchaseRequestFields,
+  },
+  {
+    id: 'onRequestCanceled',
+    module: 'Solicitud de Compra',
+    name: 'Cuando una Solicitud es CANCELADA',
+    description: 'Se activa específicamente cuando el estado de una solicitud cambia a "Cancelada".',
+    fields: purchaseRequestFields,
+  },
+  {
+    id: 'onRequestActionRequested',
+    module: 'Solicitud de Compra',
+    name: 'Al solicitar la Cancelación o Desaprobación de una Solicitud',
+    description: 'Se activa cuando un usuario pide cancelar o desaprobar una solicitud y la petición queda pendiente de autorización.',
+    fields: [...purchaseRequestFields, ...administrativeActionFields],
+  },
+  // --- System ---
+  {
+    id: 'onErpSyncFailed',
+    module: 'Sistema',
+    name: 'Cuando falla la Sincronización con el ERP',
+    description: 'Se activa al terminar una sincronización completa en la que una o más importaciones fallaron.',
+    fields: [
+      {
+        path: 'importMode', label: 'Modo de Importación', type: 'string', options: [
+          { value: 'file', label: 'Archivos' },
+          { value: 'sql', label: 'SQL' },
+        ],
+      },
+      { path: 'failedCount', label: 'Importaciones Fallidas', type: 'number' },
+      { path: 'succeededCount', label: 'Importaciones Exitosas', type: 'number' },
+      { path: 'failures.type', label: 'Tipo de Dato Fallido', type: 'string' },
+    ],
+  },
+  {
+    id: 'onLoginLockout',
+    module: 'Sistema',
+    name: 'Al bloquearse el Inicio de Sesión',
+    description: 'Se activa cuando una cuenta o una dirección IP queda bloqueada por demasiados intentos fallidos.',
+    fields: [
+      { path: 'email', label: 'Correo', type: 'string' },
+      {
+        path: 'scope', label: 'Bloqueo por', type: 'string', options: [
+          { value: 'account', label: 'Cuenta' },
+          { value: 'ip', label: 'Dirección IP' },
+        ],
+      },
+      { path: 'ip', label: 'Dirección IP', type: 'string' },
+      { path: 'failedCount', label: 'Intentos Fallidos', type: 'number' },
+    ],
+  },
+  {
+    id: 'onSuggestionCreated',
+    module: 'Sistema',
+    name: 'Al recibir una nueva Sugerencia',
+    description: 'Se activa cuando un usuario envía una sugerencia desde el sistema.',
+    fields: [
+      { path: 'userName', label: 'Enviada por', type: 'string' },
+      { path: 'content', label: 'Contenido', type: 'string' },
+    ],
   },
 ];
@@ -1,62 +1,160 @@
 /**
  * @fileoverview The core engine for the configurable notifications system.
- * This file contains the central `triggerNotificationEvent` function.
+ * `triggerNotificationEvent` does not send anything itself: it stores one delivery per matching
+ * rule in the `notification_outbox` table. The outbox worker then delivers them, retrying
+ * failures with exponential backoff until they are sent or dead-lettered, so a mail server or
+ * Telegram outage delays notifications instead of losing them.
  */
 'use server';
 
-import type { NotificationEventId, NotificationRule } from '@/modules/core/types';
-import { getAllNotificationRules } from './db';
+import type { NotificationChannel, NotificationEventId, NotificationEventPayloads, NotificationRule, WebhookEventBody } from '@/modules/core/types';
+import { getAllNotificationRules, getCustomNotificationTemplates } from './db';
+import { enqueueNotificationDeliveries, claimDueNotificationDeliveries, markNotificationDeliverySent, markNotificationDeliveryFailed } from './server-db';
 import { getEmailSettings, sendEmail } from '@/modules/core/lib/email-service';
-import { sendTelegramMessage } from './telegram-service';
+import { sendTelegramMessage, sendTelegramToDestinations } from './telegram-service';
+import { sendWebhook } from './webhook-service';
+import { matchesRuleConditions } from './notification-conditions';
 import { logError, logInfo, logWarn } from '@/modules/core/lib/logger';
+import { authorizeAction, runAsSystem } from '@/modules/core/lib/authorization';
+import { getPublicUrl } from '@/modules/core/lib/db';
+import { NOTIFICATION_EVENTS } from './notification-events';
+import { renderTemplate, escapeHtml } from './template-engine';
+import { buildTemplateContext, LEGACY_SUBJECT_PLACEHOLDERS } from './templates/template-context';
+import { DEFAULT_NOTIFICATION_TEMPLATES } from './templates/default-templates';
 
-// Import all template generators
-import { getDispatchCompletedTemplate } from './templates/dispatch-completed';
-import { getReceivingCompletedTemplate, getRackCreatedTemplate } from './templates/warehouse-templates';
-import { getPlannerOrderCreatedTemplate, getPlannerOrderApprovedTemplate, getPlannerOrderCompletedTemplate } from './templates/planner-templates';
-import { getRequestCreatedTemplate, getRequestApprovedTemplate, getRequestOrderedTemplate } from './templates/requests-templates';
+const OUTBOX_POLL_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+/** Time a claimed delivery stays hidden from other workers while it is being sent. */
+const OUTBOX_LEASE_MS = 10 * 60 * 1000;
+/** Attempts before a delivery is dead-lettered. Retries wait 1, 2, 4, 8... minutes. */
+const OUTBOX_MAX_ATTEMPTS = 6;
+const OUTBOX_BASE_BACKOFF_MS = 60 * 1000;
+
+let outboxTimer: NodeJS.Timeout | null = null;
+let isProcessingOutbox = false;
 
 /**
- * Triggers a notification event, finds matching rules, and executes the actions.
+ * Triggers a notification event: queues a delivery for each enabled rule of the event whose
+ * conditions match the payload, and wakes up the outbox worker.
  * @param eventId The ID of the event being triggered.
- * @param payload The data associated with the event.
+ * @param payload The data associated with the event, typed per event in `NotificationEventPayloads`.
  */
-export async function triggerNotificationEvent(eventId: NotificationEventId, payload: any) {
+export async function triggerNotificationEvent<E extends NotificationEventId>(eventId: E, payload: NotificationEventPayloads[E]) {
+  await authorizeAction('triggerNotificationEvent');
   try {
     const allRules = await getAllNotificationRules();
-    const matchingRules = allRules.filter(rule => rule.event === eventId && rule.enabled);
+    const matchingRules = allRules.filter(rule => rule.event === eventId && rule.enabled && matchesRuleConditions(rule, payload));
 
     if (matchingRules.length === 0) {
       return; // No active rules for this event
     }
 
-    logInfo(`Triggering event '${eventId}' with ${matchingRules.length} matching rules.`);
+    const deliveryIds = await enqueueNotificationDeliveries(matchingRules, eventId, payload);
+    logInfo(`Triggering event '${eventId}' with ${matchingRules.length} matching rules.`, { deliveryIds });
 
-    for (const rule of matchingRules) {
-      try {
-        await executeRuleAction(rule, payload);
-      } catch (error: any) {
-        logError(`Failed to execute action for rule '${rule.name}'`, { ruleId: rule.id, error: error.message });
+    // Deliver right away without making the caller wait; the poller picks up anything left behind.
+    void runAsSystem(() => processNotificationOutbox());
+  } catch (error: any) {
+    logError(`Error during triggerNotificationEvent for event '${eventId}'`, { error: error.message });
+  }
+}
+
+/**
+ * Delivers the due entries of the outbox. Each entry is sent with the rule's current definition;
+ * entries of deleted rules are dead-lettered. Runs one batch at a time per process.
+ * @returns The number of deliveries attempted.
+ */
+export async function processNotificationOutbox(): Promise<number> {
+  await authorizeAction('processNotificationOutbox');
+  if (isProcessingOutbox) {
+    return 0;
+  }
+  isProcessingOutbox = true;
+  let attempted = 0;
+  try {
+    let batch = await claimDueNotificationDeliveries(OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS);
+    while (batch.length > 0) {
+      const rulesById = new Map((await getAllNotificationRules()).map(rule => [rule.id, rule]));
+      for (const delivery of batch) {
+        attempted++;
+        const attempts = delivery.attempts + 1;
+        const rule = rulesById.get(delivery.ruleId);
+        if (!rule) {
+          await markNotificationDeliveryFailed(delivery.id, attempts, 'La regla fue eliminada.', null);
+          continue;
+        }
+        try {
+          await executeRuleAction({ ...rule, event: delivery.event }, delivery.payload);
+          await markNotificationDeliverySent(delivery.id, attempts);
+        } catch (error: any) {
+          const nextAttemptAt = attempts < OUTBOX_MAX_ATTEMPTS
+            ? new Date(Date.now() + OUTBOX_BASE_BACKOFF_MS * 2 ** (attempts - 1)).toISOString()
+            : null;
+          await markNotificationDeliveryFailed(delivery.id, attempts, error.message, nextAttemptAt);
+          if (nextAttemptAt) {
+            logWarn(`Notification delivery failed for rule '${rule.name}', will retry.`, { deliveryId: delivery.id, attempts, nextAttemptAt, error: error.message });
+          } else {
+            logError(`Notification delivery for rule '${rule.name}' moved to dead-letter after ${attempts} attempts.`, { deliveryId: delivery.id, error: error.message });
+          }
+        }
       }
+      batch = await claimDueNotificationDeliveries(OUTBOX_BATCH_SIZE, OUTBOX_LEASE_MS);
     }
   } catch (error: any) {
-    logError(`Error during triggerNotificationEvent for event '${eventId}'`, { error: error.message });
+    logError('Error while processing the notification outbox', { error: error.message });
+  } finally {
+    isProcessingOutbox = false;
   }
+  return attempted;
+}
+
+/**
+ * Starts polling the outbox for due retries. Called once when the server starts, next to the cron runner.
+ */
+export async function startNotificationOutboxWorker() {
+  if (outboxTimer) {
+    return;
+  }
+  outboxTimer = setInterval(() => {
+    void runAsSystem(() => processNotificationOutbox());
+  }, OUTBOX_POLL_INTERVAL_MS);
+  console.log(`📬 Notification outbox worker started (polling every ${OUTBOX_POLL_INTERVAL_MS / 1000}s).`);
+  // Deliver whatever was left pending before the last shutdown.
+  void runAsSystem(() => processNotificationOutbox());
 }
 
 /**
  * Executes the action defined in a notification rule.
+ * Throws when the message could not be delivered, so the outbox can retry it.
  * @param rule The notification rule to execute.
  * @param payload The data payload from the event.
  */
 async function executeRuleAction(rule: NotificationRule, payload: any) {
+  if (rule.action === 'sendWebhook') {
+    // Webhooks carry the raw event data; templates only apply to human-readable messages.
+    if (!rule.webhook?.url) {
+      throw new Error('La regla no tiene una URL de webhook configurada.');
+    }
+    const webhookBody: WebhookEventBody = {
+      event: rule.event,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      occurredAt: new Date().toISOString(),
+      data: payload,
+    };
+    const result = await sendWebhook(rule.webhook, rule.event, webhookBody);
+    if (!result.ok) {
+      throw new Error(`Webhook delivery failed after ${result.attempts} attempt(s): ${result.error}`);
+    }
+    return;
+  }
+
   const { subject, body } = await generateContent(rule, payload);
 
   if (rule.action === 'sendEmail') {
     const emailSettings = await getEmailSettings();
     if (!emailSettings.smtpHost) {
-      logWarn('Email action skipped: SMTP not configured.', { ruleName: rule.name });
-      return;
+      throw new Error('El servidor SMTP no está configurado.');
     }
     await sendEmail({
       to: rule.recipients.join(','),
@@ -64,65 +162,51 @@ async function executeRuleAction(rule: NotificationRule, payload: any) {
       html: body,
     });
   } else if (rule.action === 'sendTelegram') {
-    await sendTelegramMessage(body);
+    // Rules created before the destination registry have no recipients and keep using the default chat.
+    if (rule.recipients.length > 0) {
+      await sendTelegramToDestinations(body, rule.recipients);
+    } else {
+      await sendTelegramMessage(body);
+    }
   }
 }
 
 /**
- * Generates the subject and body content for a notification based on the event.
+ * Renders the subject and body of a notification from the template of its event and channel:
+ * the administrator's custom version if there is one, otherwise the built-in default.
+ * A rule subject, when set, replaces the template subject.
  * @param rule The notification rule.
  * @param payload The event data.
- * @returns An object with the subject and HTML body.
+ * @returns An object with the subject and the (HTML) body.
  */
 async function generateContent(rule: NotificationRule, payload: any): Promise<{ subject: string; body: string }> {
-  const defaultSubject = `Notificación del Sistema: ${rule.name}`;
-  let subject = rule.subject || defaultSubject;
-  let body = `<p>Se ha activado el evento: ${rule.event}</p><pre>${JSON.stringify(payload, null, 2)}</pre>`;
-
-  // --- Template Dispatcher ---
-  switch (rule.event) {
-    // Warehouse
-    case 'onDispatchCompleted':
-      body = getDispatchCompletedTemplate(payload);
-      subject = subject.replace('[DOCUMENT_ID]', payload.documentId);
-      break;
-    case 'onReceivingCompleted':
-        body = await getReceivingCompletedTemplate(payload);
-        subject = subject.replace('[PRODUCT_ID]', payload.productId);
-        break;
-    case 'onRackCreated':
-        body = await getRackCreatedTemplate(payload);
-        subject = subject.replace('[RACK_NAME]', payload.rack.name);
-        break;
-    
-    // Planner
-    case 'onPlannerOrderCreated':
-        body = await getPlannerOrderCreatedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[CLIENT_NAME]', payload.customerName);
-        break;
-    case 'onPlannerOrderApproved':
-        body = await getPlannerOrderApprovedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[CLIENT_NAME]', payload.customerName);
-        break;
-    case 'onPlannerOrderCompleted':
-        body = await getPlannerOrderCompletedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[CLIENT_NAME]', payload.customerName);
-        break;
-
-    // Requests
-    case 'onRequestCreated':
-        body = await getRequestCreatedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[ITEM_DESCRIPTION]', payload.itemDescription);
-        break;
-    case 'onRequestApproved':
-        body = await getRequestApprovedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[ITEM_DESCRIPTION]', payload.itemDescription);
-        break;
-    case 'onRequestOrdered':
-        body = await getRequestOrderedTemplate(payload);
-        subject = subject.replace('[CONSECUTIVE]', payload.consecutive).replace('[ITEM_DESCRIPTION]', payload.itemDescription);
-        break;
-  }
+  const channel: NotificationChannel = rule.action === 'sendTelegram' ? 'telegram' : 'email';
+  const defaultTemplate = DEFAULT_NOTIFICATION_TEMPLATES[rule.event]?.[channel];
+  const customTemplate = (await getCustomNotificationTemplates()).find(t => t.event === rule.event && t.channel === channel);
+
+  const context = buildTemplateContext(rule.event, payload, {
+    baseUrl: (await getPublicUrl())?.publicUrl || '',
+    ruleName: rule.name,
+    eventName: NOTIFICATION_EVENTS.find(e => e.id === rule.event)?.name || rule.event,
+  });
+  const ruleSubject = Object.entries(LEGACY_SUBJECT_PLACEHOLDERS)
+    .reduce((subject, [legacy, placeholder]) => subject.split(legacy).join(placeholder), rule.subject || '');
+
+  const render = (template: { subject: string; body: string }) => ({
+    // Subjects are plain text, so values must not be HTML-escaped (e.g. "P&G" would arrive as "P&amp;G").
+    subject: renderTemplate(ruleSubject || template.subject || `Notificación del Sistema: ${rule.name}`, context, { escape: false }),
+    body: renderTemplate(template.body, context),
+  });
 
-  return { subject, body };
+  if (customTemplate) {
+    try {
+      return render(customTemplate);
+    } catch (error: any) {
+      logWarn(`Custom template for '${rule.event}' (${channel}) could not be rendered, using the default one.`, { error: error.message });
+    }
+  }
+  if (!defaultTemplate) {
+    return { subject: `Notificación del Sistema: ${rule.name}`, body: `<pre>${escapeHtml(JSON.stringify(payload, null, 2))}</pre>` };
+  }
+  return render(defaultTemplate);
 }
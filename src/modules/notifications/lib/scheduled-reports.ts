@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Reports sent by scheduled tasks: the daily production summary, the purchase
+ * suggestion digest, the dispatch day summary and the check of customer exemptions about to
+ * expire. Each one is sent by email and to Telegram destinations chosen in the parameters of
+ * its task, and returns a short summary that is stored in the run history.
+ */
+'use server';
+
+import { addDays, endOfDay, format, startOfDay, subDays } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { authorizeAction } from '@/modules/core/lib/authorization';
+import { getAllCustomers, getAllExemptions } from '@/modules/core/lib/db';
+import { sendEmail } from '@/modules/core/lib/email-service';
+import { logInfo } from '@/modules/core/lib/logger';
+import { getCompletedOrdersByDateRange } from '@/modules/planner/lib/db';
+import { getPurchaseSuggestions } from '@/modules/requests/lib/db';
+import { getDispatchLogs } from '@/modules/warehouse/lib/db';
+import { sendTelegramToDestinations } from './telegram-service';
+import { escapeHtml } from './template-engine';
+
+export type ReportRecipients = {
+    emails: string[];
+    telegramDestinationIds: string[];
+    /** Sends the report even when it has nothing to list. */
+    sendWhenEmpty: boolean;
+};
+
+export type ReportDay = 'today' | 'yesterday';
+
+/** Rows listed in a report; Telegram rejects messages longer than 4096 characters. */
+const MAX_REPORT_ROWS = 25;
+
+const formatDate = (date: Date | string) => format(new Date(date), 'dd/MM/yyyy', { locale: es });
+
+function resolveDay(day: ReportDay): Date {
+    return day === 'yesterday' ? subDays(new Date(), 1) : new Date();
+}
+
+/**
+ * Sends a report to the recipients of its task.
+ * @param title - Subject of the email and heading of the Telegram message.
+ * @param rows - One line per listed record, in plain text; only the first ones are listed.
+ * @param intro - Plain text summary shown before the rows.
+ */
+async function deliverReport(recipients: ReportRecipients, title: string, intro: string, rows: string[]): Promise<void> {
+    if (recipients.emails.length === 0 && recipients.telegramDestinationIds.length === 0) {
+        throw new Error('La tarea no tiene destinatarios: indique correos o destinos de Telegram.');
+    }
+    const listed = rows.slice(0, MAX_REPORT_ROWS).map(escapeHtml);
+    const remaining = rows.length - listed.length;
+    const more = remaining > 0 ? `y ${remaining} más.` : '';
+
+    if (recipients.emails.length > 0) {
+        const html = `<h2>${escapeHtml(title)}</h2><p>${escapeHtml(intro)}</p>${listed.length > 0 ? `<ul>${listed.map(row => `<li>${row}</li>`).join('')}</ul>` : ''}${more ? `<p>${more}</p>` : ''}`;
+        await sendEmail({ to: recipients.emails, subject: title, html });
+    }
+    if (recipients.telegramDestinationIds.length > 0) {
+        const text = [`<b>${escapeHtml(title)}</b>`, escapeHtml(intro), ...listed.map(row => `• ${row}`), more].filter(Boolean).join('\n');
+        await sendTelegramToDestinations(text, recipients.telegramDestinationIds);
+    }
+}
+
+/**
+ * Summarizes the production orders completed on a day.
+ */
+export async function sendDailyProductionSummary(params: ReportRecipients & { day: ReportDay }) {
+    await authorizeAction('sendDailyProductionSummary', 'admin:notifications:write');
+    const day = resolveDay(params.day);
+    const orders = await getCompletedOrdersByDateRange({ from: startOfDay(day), to: endOfDay(day) });
+    if (orders.length === 0 && !params.sendWhenEmpty) return { orders: 0, sent: false };
+
+    const delivered = orders.reduce((sum, order) => sum + (order.deliveredQuantity ?? order.quantity), 0);
+    const defective = orders.reduce((sum, order) => sum + (order.defectiveQuantity ?? 0), 0);
+    await deliverReport(
+        params,
+        `Resumen de producción del ${formatDate(day)}`,
+        orders.length > 0
+            ? `Órdenes completadas: ${orders.length}. Cantidad entregada: ${delivered}. Defectuosa: ${defective}.`
+            : 'No se completaron órdenes de producción.',
+        orders.map(order => `${order.consecutive} - ${order.customerName}: ${order.productDescription} (${order.deliveredQuantity ?? order.quantity})`),
+    );
+    await logInfo('Daily production summary sent', { orders: orders.length });
+    return { orders: orders.length, sent: true };
+}
+
+/**
+ * Lists the items whose ERP orders exceed the stock plus what is in transit.
+ */
+export async function sendPurchaseSuggestionDigest(params: ReportRecipients & { daysBack: number; onlyWithoutRequests: boolean }) {
+    await authorizeAction('sendPurchaseSuggestionDigest', 'admin:notifications:write');
+    const allSuggestions = await getPurchaseSuggestions({ from: subDays(new Date(), params.daysBack), to: new Date() });
+    const suggestions = allSuggestions
+        .filter(suggestion => !params.onlyWithoutRequests || suggestion.existingActiveRequests.length === 0)
+        .sort((a, b) => b.shortage - a.shortage);
+    if (suggestions.length === 0 && !params.sendWhenEmpty) return { suggestions: 0, sent: false };
+
+    await deliverReport(
+        params,
+        `Sugerencias de compra (${suggestions.length})`,
+        suggestions.length > 0
+            ? `Artículos con faltante según los pedidos del ERP de los últimos ${params.daysBack} días.`
+            : `Ningún artículo tiene faltante según los pedidos del ERP de los últimos ${params.daysBack} días.`,
+        suggestions.map(suggestion => `${suggestion.itemId} - ${suggestion.itemDescription}: faltan ${suggestion.shortage}${suggestion.earliestDueDate ? `, para el ${formatDate(suggestion.earliestDueDate)}` : ''}`),
+    );
+    await logInfo('Purchase suggestion digest sent', { suggestions: suggestions.length });
+    return { suggestions: suggestions.length, sent: true };
+}
+
+/**
+ * Summarizes the documents verified for dispatch on a day, flagging those with differences.
+ */
+export async function sendDispatchDaySummary(params: ReportRecipients & { day: ReportDay }) {
+    await authorizeAction('sendDispatchDaySummary', 'admin:notifications:write');
+    const day = resolveDay(params.day);
+    const logs = await getDispatchLogs({ from: day, to: day });
+    if (logs.length === 0 && !params.sendWhenEmpty) return { documents: 0, sent: false };
+
+    const hasDifferences = (log: typeof logs[number]) => log.items.some(item => item.verifiedQuantity !== item.requiredQuantity);
+    const withDifferences = logs.filter(hasDifferences).length;
+    await deliverReport(
+        params,
+        `Resumen de despachos del ${formatDate(day)}`,
+        logs.length > 0
+            ? `Documentos despachados: ${logs.length}. Con diferencias: ${withDifferences}.`
+            : 'No se despacharon documentos.',
+        logs.map(log => `${log.documentId} - ${log.clientName || 'Sin cliente'} (${log.verifiedByUserName}${log.vehiclePlate ? `, ${log.vehiclePlate}` : ''})${hasDifferences(log) ? ' ⚠️ con diferencias' : ''}`),
+    );
+    await logInfo('Dispatch day summary sent', { documents: logs.length, withDifferences });
+    return { documents: logs.length, withDifferences, sent: true };
+}
+
+/**
+ * Lists the customer exemptions that expire within the next days, so they can be renewed in time.
+ */
+export async function checkExemptionExpiry(params: ReportRecipients & { daysAhead: number }) {
+    await authorizeAction('checkExemptionExpiry', 'admin:notifications:write');
+    const now = new Date();
+    const limit = endOfDay(addDays(now, params.daysAhead));
+    const [exemptions, customers] = await Promise.all([getAllExemptions(), getAllCustomers()]);
+    const expiring = exemptions
+        .map(exemption => ({ exemption, endDate: new Date(exemption.endDate) }))
+        .filter(({ endDate }) => !Number.isNaN(endDate.getTime()) && endDate >= startOfDay(now) && endDate <= limit)
+        .sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+    if (expiring.length === 0 && !params.sendWhenEmpty) return { expiring: 0, sent: false };
+
+    const customerName = (id: string) => customers.find(customer => customer.id === id)?.name || id;
+    await deliverReport(
+        params,
+        `Exoneraciones por vencer (${expiring.length})`,
+        expiring.length > 0
+            ? `Exoneraciones de clientes que vencen en los próximos ${params.daysAhead} días.`
+            : `Ninguna exoneración vence en los próximos ${params.daysAhead} días.`,
+        expiring.map(({ exemption, endDate }) => `${customerName(exemption.customer)}: ${exemption.authNumber} (${exemption.institutionName || exemption.description}) vence el ${formatDate(endDate)}`),
+    );
+    await logInfo('Exemption expiry check sent', { expiring: expiring.length });
+    return { expiring: expiring.length, sent: true };
+}
@@ -6,7 +6,14 @@
 import type { ExpectedSchema } from '@/modules/core/types';
 
 export const notificationsSchema: ExpectedSchema = {
-    'notification_rules': ['id', 'name', 'event', 'action', 'recipients', 'subject', 'enabled'],
+    'notification_rules': ['id', 'name', 'event', 'action', 'recipients', 'subject', 'webhookConfig', 'conditions', 'enabled'],
     'notification_settings': ['service', 'config'],
-    'scheduled_tasks': ['id', 'name', 'schedule', 'taskId', 'enabled'],
+    'scheduled_tasks': ['id', 'name', 'schedule', 'taskId', 'enabled', 'timeoutMinutes', 'params', 'timezone'],
+    'scheduled_task_runs': ['id', 'scheduledTaskId', 'taskId', 'triggerType', 'triggeredBy', 'status', 'startedAt', 'finishedAt', 'durationMs', 'resultSummary', 'error'],
+    'notification_templates': ['event', 'channel', 'subject', 'body', 'updatedAt', 'updatedBy'],
+    'notification_event_keys': ['event', 'entityKey', 'createdAt'],
+    'notification_digest_queue': ['id', 'userId', 'channel', 'category', 'message', 'href', 'createdAt', 'sentAt'],
+    'telegram_links': ['telegramUserId', 'userId', 'telegramUsername', 'linkedAt'],
+    'telegram_link_codes': ['code', 'userId', 'expiresAt'],
+    'notification_outbox': ['id', 'ruleId', 'ruleName', 'event', 'action', 'payload', 'status', 'attempts', 'lastError', 'createdAt', 'nextAttemptAt', 'sentAt'],
 };
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Functions of the notifications database that only server code may call: the
+ * Telegram bot, the outbox worker, the scheduler and the guarded actions that wrap them.
+ * Unlike `db.ts`, this is not a server action module, so none of them can be called from the browser.
+ */
+
+import { connectDb } from '@/modules/core/lib/db';
+import type { NotificationChannel, NotificationDelivery, NotificationDeliveryStatus, NotificationDigestItem, NotificationEventId, NotificationRule, NotificationTemplate, ScheduledTaskRun, ScheduledTaskRunStatus, TelegramAccountLink } from '@/modules/core/types';
+
+export const NOTIFICATIONS_DB_FILE = 'notifications.db';
+
+// --- Telegram account links ---
+
+/**
+ * Stores the one-time code a user sends to the bot to link their Telegram account,
+ * replacing any previous code of the user.
+ */
+export async function saveTelegramLinkCode(userId: number, code: string, expiresAt: string): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.transaction(() => {
+        db.prepare('DELETE FROM telegram_link_codes WHERE userId = ? OR expiresAt <= ?').run(userId, new Date().toISOString());
+        db.prepare('INSERT INTO telegram_link_codes (code, userId, expiresAt) VALUES (?, ?, ?)').run(code, userId, expiresAt);
+    })();
+}
+
+/**
+ * Uses up a link code.
+ * @returns The user the code was issued to, or null if it does not exist or expired.
+ */
+export async function consumeTelegramLinkCode(code: string): Promise<number | null> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const row = db.prepare('SELECT userId, expiresAt FROM telegram_link_codes WHERE code = ?').get(code) as { userId: number; expiresAt: string } | undefined;
+    if (!row) return null;
+    db.prepare('DELETE FROM telegram_link_codes WHERE code = ?').run(code);
+    return row.expiresAt > new Date().toISOString() ? row.userId : null;
+}
+
+/**
+ * Links a Telegram account to a user. A user has at most one linked account and an account
+ * belongs to one user, so previous links of either are replaced.
+ */
+export async function saveTelegramLink(link: TelegramAccountLink): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.transaction(() => {
+        db.prepare('DELETE FROM telegram_links WHERE userId = ? OR telegramUserId = ?').run(link.userId, link.telegramUserId);
+        db.prepare('INSERT INTO telegram_links (telegramUserId, userId, telegramUsername, linkedAt) VALUES (@telegramUserId, @userId, @telegramUsername, @linkedAt)').run(link);
+    })();
+}
+
+export async function getTelegramLinkByTelegramUser(telegramUserId: string): Promise<TelegramAccountLink | null> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return (db.prepare('SELECT * FROM telegram_links WHERE telegramUserId = ?').get(telegramUserId) as TelegramAccountLink | undefined) || null;
+}
+
+export async function getTelegramLinkForUser(userId: number): Promise<TelegramAccountLink | null> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return (db.prepare('SELECT * FROM telegram_links WHERE userId = ?').get(userId) as TelegramAccountLink | undefined) || null;
+}
+
+export async function deleteTelegramLinkForUser(userId: number): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare('DELETE FROM telegram_links WHERE userId = ?').run(userId);
+}
+
+// --- Templates ---
+
+export async function saveCustomNotificationTemplate(template: Pick<NotificationTemplate, 'event' | 'channel' | 'subject' | 'body'>, updatedBy: string): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare(`
+        INSERT INTO notification_templates (event, channel, subject, body, updatedAt, updatedBy) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(event, channel) DO UPDATE SET subject = excluded.subject, body = excluded.body, updatedAt = excluded.updatedAt, updatedBy = excluded.updatedBy
+    `).run(template.event, template.channel, template.subject, template.body, new Date().toISOString(), updatedBy);
+}
+
+export async function deleteCustomNotificationTemplate(event: NotificationEventId, channel: NotificationChannel): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare('DELETE FROM notification_templates WHERE event = ? AND channel = ?').run(event, channel);
+}
+
+// --- User digests ---
+
+/**
+ * Holds an email or Telegram notification of a user until their next digest.
+ */
+export async function enqueueNotificationDigestItem(item: Pick<NotificationDigestItem, 'userId' | 'channel' | 'category' | 'message' | 'href'>): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare(`
+        INSERT INTO notification_digest_queue (userId, channel, category, message, href, createdAt)
+        VALUES (@userId, @channel, @category, @message, @href, @createdAt)
+    `).run({ ...item, href: item.href || null, createdAt: new Date().toISOString() });
+}
+
+/**
+ * Lists the users with notifications waiting for a digest, with the time of their previous digest.
+ */
+export async function getPendingNotificationDigestUsers(): Promise<{ userId: number; lastDigestAt: string | null }[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return db.prepare(`
+        SELECT pending.userId, (SELECT MAX(sentAt) FROM notification_digest_queue sent WHERE sent.userId = pending.userId) AS lastDigestAt
+        FROM notification_digest_queue pending
+        WHERE pending.sentAt IS NULL
+        GROUP BY pending.userId
+    `).all() as { userId: number; lastDigestAt: string | null }[];
+}
+
+export async function getPendingNotificationDigestItems(userId: number): Promise<NotificationDigestItem[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return db.prepare('SELECT * FROM notification_digest_queue WHERE userId = ? AND sentAt IS NULL ORDER BY createdAt ASC')
+        .all(userId) as NotificationDigestItem[];
+}
+
+export async function markNotificationDigestItemsSent(ids: number[]): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    if (ids.length === 0) return;
+    const placeholders = ids.map(() => '?').join(',');
+    db.prepare(`UPDATE notification_digest_queue SET sentAt = ? WHERE id IN (${placeholders})`).run(new Date().toISOString(), ...ids);
+}
+
+// --- Outbox ---
+const OUTBOX_COLUMNS = 'id, ruleId, ruleName, event, action, status, attempts, lastError, createdAt, nextAttemptAt, sentAt';
+
+/**
+ * Persists one pending delivery per rule for a triggered event, so the event survives
+ * failures of the target service and server restarts.
+ */
+export async function enqueueNotificationDeliveries(rules: NotificationRule[], eventId: NotificationEventId, payload: any): Promise<number[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const now = new Date().toISOString();
+    const serializedPayload = JSON.stringify(payload ?? null);
+    const insert = db.prepare(`
+        INSERT INTO notification_outbox (ruleId, ruleName, event, action, payload, status, attempts, createdAt, nextAttemptAt)
+        VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)
+    `);
+    const transaction = db.transaction(() => rules.map(rule =>
+        insert.run(rule.id, rule.name, eventId, rule.action, serializedPayload, now, now).lastInsertRowid as number
+    ));
+    return transaction();
+}
+
+/**
+ * Claims the deliveries that are due, pushing their next attempt forward by `leaseMs` so that
+ * no other worker picks them up while they are being delivered.
+ */
+export async function claimDueNotificationDeliveries(limit: number, leaseMs: number): Promise<(NotificationDelivery & { payload: any })[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + leaseMs).toISOString();
+    const claim = db.transaction(() => {
+        const rows = db.prepare(`
+            SELECT ${OUTBOX_COLUMNS}, payload FROM notification_outbox
+            WHERE status IN ('pending', 'failed') AND nextAttemptAt <= ?
+            ORDER BY nextAttemptAt ASC, id ASC LIMIT ?
+        `).all(now.toISOString(), limit) as (NotificationDelivery & { payload: string })[];
+        const lease = db.prepare('UPDATE notification_outbox SET nextAttemptAt = ? WHERE id = ?');
+        rows.forEach(row => lease.run(leaseUntil, row.id));
+        return rows;
+    });
+    return claim().map(row => ({ ...row, payload: JSON.parse(row.payload) }));
+}
+
+export async function markNotificationDeliverySent(id: number, attempts: number): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare(`UPDATE notification_outbox SET status = 'sent', attempts = ?, lastError = NULL, nextAttemptAt = NULL, sentAt = ? WHERE id = ?`)
+        .run(attempts, new Date().toISOString(), id);
+}
+
+/**
+ * Records a failed attempt. Without a next attempt date the delivery is dead-lettered.
+ */
+export async function markNotificationDeliveryFailed(id: number, attempts: number, error: string, nextAttemptAt: string | null): Promise<void> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    db.prepare(`UPDATE notification_outbox SET status = ?, attempts = ?, lastError = ?, nextAttemptAt = ? WHERE id = ?`)
+        .run(nextAttemptAt ? 'failed' : 'dead', attempts, error, nextAttemptAt, id);
+}
+
+export async function getNotificationDeliveries(filters: { ruleId?: number; status?: NotificationDeliveryStatus; limit?: number } = {}): Promise<NotificationDelivery[]> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filters.ruleId !== undefined) {
+        conditions.push('ruleId = ?');
+        params.push(filters.ruleId);
+    }
+    if (filters.status) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM notification_outbox ${where} ORDER BY createdAt DESC, id DESC LIMIT ?`)
+        .all(...params, filters.limit ?? 500) as NotificationDelivery[];
+}
+
+export async function getNotificationDeliveryById(id: number): Promise<NotificationDelivery | null> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    return (db.prepare(`SELECT ${OUTBOX_COLUMNS} FROM notification_outbox WHERE id = ?`).get(id) as NotificationDelivery | undefined) ?? null;
+}
+
+/**
+ * Puts a delivery back in the queue with a fresh set of attempts.
+ * @returns False when the delivery does not exist.
+ */
+export async function requeueNotificationDelivery(id: number): Promise<boolean> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const info = db.prepare(`UPDATE notification_outbox SET status = 'pending', attempts = 0, lastError = NULL, nextAttemptAt = ?, sentAt = NULL WHERE id = ?`)
+        .run(new Date().toISOString(), id);
+    return info.changes > 0;
+}
+
+// --- Scheduled Task Runs ---
+
+/** Runs kept per scheduled task; older ones are pruned when a new run starts. */
+const SCHEDULED_TASK_RUNS_TO_KEEP = 200;
+
+/**
+ * Records the start of a run. Skipped runs are recorded already finished.
+ */
+export async function createScheduledTaskRun(run: Pick<ScheduledTaskRun, 'scheduledTaskId' | 'taskId' | 'triggerType' | 'triggeredBy' | 'status'> & { error?: string | null }): Promise<ScheduledTaskRun> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const startedAt = new Date().toISOString();
+    const finishedAt = run.status === 'running' ? null : startedAt;
+    const row = {
+        ...run,
+        error: run.error ?? null,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt ? 0 : null,
+    };
+    const id = db.transaction(() => {
+        const info = db.prepare(`
+            INSERT INTO scheduled_task_runs (scheduledTaskId, taskId, triggerType, triggeredBy, status, startedAt, finishedAt, durationMs, error)
+            VALUES (@scheduledTaskId, @taskId, @triggerType, @triggeredBy, @status, @startedAt, @finishedAt, @durationMs, @error)
+        `).run(row);
+        db.prepare(`
+            DELETE FROM scheduled_task_runs WHERE scheduledTaskId = ? AND id NOT IN (
+                SELECT id FROM scheduled_task_runs WHERE scheduledTaskId = ? ORDER BY startedAt DESC LIMIT ?
+            )
+        `).run(run.scheduledTaskId, run.scheduledTaskId, SCHEDULED_TASK_RUNS_TO_KEEP);
+        return info.lastInsertRowid as number;
+    })();
+    return { ...row, id, resultSummary: null };
+}
+
+/**
+ * Records the outcome of a run that is still marked as running.
+ * @returns False when the run was already closed (e.g. by its timeout).
+ */
+export async function finishScheduledTaskRun(id: number, outcome: { status: Exclude<ScheduledTaskRunStatus, 'running' | 'skipped'>; resultSummary?: string | null; error?: string | null }): Promise<boolean> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const run = db.prepare(`SELECT startedAt FROM scheduled_task_runs WHERE id = ? AND status = 'running'`).get(id) as { startedAt: string } | undefined;
+    if (!run) return false;
+    const finishedAt = new Date();
+    db.prepare(`UPDATE scheduled_task_runs SET status = ?, finishedAt = ?, durationMs = ?, resultSummary = ?, error = ? WHERE id = ?`)
+        .run(outcome.status, finishedAt.toISOString(), finishedAt.getTime() - new Date(run.startedAt).getTime(), outcome.resultSummary ?? null, outcome.error ?? null, id);
+    return true;
+}
+
+/**
+ * Closes the runs left as running by a previous server process, which can no longer finish.
+ * @returns The number of runs closed.
+ */
+export async function closeInterruptedScheduledTaskRuns(): Promise<number> {
+    const db = await connectDb(NOTIFICATIONS_DB_FILE);
+    const info = db.prepare(`UPDATE scheduled_task_runs SET status = 'error', finishedAt = ?, error = ? WHERE status = 'running'`)
+        .run(new Date().toISOString(), 'Interrumpida: el servidor se reinició durante la ejecución.');
+    return info.changes;
+}
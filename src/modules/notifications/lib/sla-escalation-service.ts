@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Notifies the people of each step of the escalation chain of an entity that
+ * exceeded the SLA of its status: its owner, then the users who can move it out of the status,
+ * then the administrators. Each recipient gets it on the channels of their preferences.
+ */
+'use server';
+
+import type { Notification, ProductionOrderStatus, PurchaseRequestStatus, StatusSlaEscalationLevel, User } from '@/modules/core/types';
+import { getAllRoles } from '@/modules/core/lib/db';
+import { getAllUsers } from '@/modules/core/lib/auth';
+import { resolveEffectivePermissions } from '@/modules/core/lib/permissions';
+import { authorizeAction } from '@/modules/core/lib/authorization';
+import { logWarn } from '@/modules/core/lib/logger';
+import { deliverUserNotification } from './user-notification-service';
+
+export type StatusSlaEscalation = {
+    level: StatusSlaEscalationLevel;
+    /** Name of the user who owns the entity (its requester). */
+    ownerName: string;
+    /** Permission of the users who can move the entity out of its status. */
+    approverPermission: string;
+    message: string;
+    href: string;
+    entityId: number;
+    entityType: 'purchase-request' | 'production-order';
+    entityStatus: ProductionOrderStatus | PurchaseRequestStatus;
+};
+
+async function resolveRecipients(escalation: StatusSlaEscalation, users: User[]): Promise<User[]> {
+    switch (escalation.level) {
+        case 'owner':
+            return users.filter(user => user.name === escalation.ownerName);
+        case 'approvers': {
+            const roles = await getAllRoles();
+            const approverRoleIds = roles
+                .filter(role => role.id !== 'admin' && resolveEffectivePermissions(role.id, roles).some(p => p.permission === escalation.approverPermission))
+                .map(role => role.id);
+            return users.filter(user => approverRoleIds.includes(user.role));
+        }
+        case 'admins':
+            return users.filter(user => user.role === 'admin');
+    }
+}
+
+/**
+ * Sends an escalation step. When nobody matches the step (e.g. the owner was deleted or no role
+ * holds the permission), the administrators receive it so the escalation is never lost.
+ * @returns The names of the users notified.
+ */
+export async function notifyStatusSlaEscalation(escalation: StatusSlaEscalation): Promise<string[]> {
+    await authorizeAction('notifyStatusSlaEscalation', 'admin:notifications:write');
+    const users = await getAllUsers();
+    let recipients = await resolveRecipients(escalation, users);
+    if (recipients.length === 0 && escalation.level !== 'admins') {
+        await logWarn('No recipients for SLA escalation step, notifying administrators instead', { level: escalation.level, entityType: escalation.entityType, entityId: escalation.entityId });
+        recipients = users.filter(user => user.role === 'admin');
+    }
+
+    const notification: Omit<Notification, 'id' | 'timestamp' | 'isRead' | 'userId'> = {
+        message: escalation.message,
+        href: escalation.href,
+        entityId: escalation.entityId,
+        entityType: escalation.entityType,
+        entityStatus: escalation.entityStatus,
+        taskType: 'sla-escalation',
+    };
+    for (const user of recipients) {
+        await deliverUserNotification({ ...notification, userId: user.id });
+    }
+    return recipients.map(user => user.name);
+}
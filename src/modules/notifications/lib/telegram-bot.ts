@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Telegram bot that answers commands from users who linked their Telegram account
+ * from their profile: stock lookups, the status of production orders and purchase requests,
+ * and approvals. Commands run on behalf of the linked user, so their permissions and data scopes apply.
+ *
+ * The bot receives updates by long polling (getUpdates) instead of a webhook, so it works on a LAN
+ * without a public URL. The Bot API URL is configurable (`apiBaseUrl` in the Telegram settings),
+ * which allows running it against a local Bot API server or a mocked one in tests.
+ */
+'use server';
+
+import TelegramBot from 'node-telegram-bot-api';
+import crypto from 'crypto';
+import { format, parseISO } from 'date-fns';
+import type { ProductionOrder, PurchaseRequest, PurchaseRequestStatus, User } from '@/modules/core/types';
+import { AuthorizationError, assertNotImpersonating, authorizeAction, authorizeOwner, runAsSystem, runAsUser } from '@/modules/core/lib/authorization';
+import { getAllUsers } from '@/modules/core/lib/auth';
+import { getAllProducts, getUserPreferences, saveUserPreferences } from '@/modules/core/lib/db';
+import { logError, logInfo } from '@/modules/core/lib/logger';
+import { getOrders, getPlannerSettings, updateStatus as updateOrderStatus } from '@/modules/planner/lib/db';
+import { getStatusConfig } from '@/modules/planner/lib/utils';
+import { getRequests, updateStatus as updateRequestStatus } from '@/modules/requests/lib/db';
+import { getWarehouseData } from '@/modules/warehouse/lib/actions';
+import { renderLocationPathAsString } from '@/modules/warehouse/lib/utils';
+import { getNotificationServiceSettings } from './db';
+import {
+    consumeTelegramLinkCode,
+    deleteTelegramLinkForUser,
+    getTelegramLinkByTelegramUser,
+    saveTelegramLink,
+    saveTelegramLinkCode,
+} from './server-db';
+import { escapeHtml } from './template-engine';
+import { USER_NOTIFICATION_PREFERENCES_KEY, normalizeUserNotificationPreferences } from './user-notification-preferences';
+
+const LINK_CODE_TTL_MINUTES = 10;
+const MAX_SEARCH_RESULTS = 10;
+
+let bot: TelegramBot | null = null;
+let botConfigKey = '';
+let botUsername: string | null = null;
+let lastPollingError = '';
+
+const REQUEST_STATUS_LABELS: Record<PurchaseRequestStatus, string> = {
+    'pending': 'Pendiente',
+    'purchasing-review': 'Revisión Compras',
+    'pending-approval': 'Pendiente Aprobación',
+    'approved': 'Aprobada',
+    'ordered': 'Ordenada',
+    'received-in-warehouse': 'Recibido en Bodega',
+    'entered-erp': 'Ingresado ERP',
+    'canceled': 'Cancelada',
+};
+
+/**
+ * Status from which an order or request can be approved with /aprobar, the same step as in the app.
+ * Whether the user may approve it is checked by the `updateStatus` of each module.
+ */
+const APPROVABLE_STATUS = 'pending-approval';
+
+type BotCommand = {
+    usage: string;
+    description: string;
+    run: (args: string, user: User) => Promise<string>;
+};
+
+const formatDate = (value?: string | null) => value ? format(parseISO(value), 'dd/MM/yyyy') : 'No especificada';
+const formatNumber = (value: number) => value.toLocaleString('es-CR');
+
+/**
+ * Matches a consecutive typed by the user against a document: the full consecutive
+ * (case-insensitive) or just its number ('125' for 'OP-00125').
+ */
+function matchesConsecutive(consecutive: string, query: string): boolean {
+    const normalizedQuery = query.trim().toUpperCase();
+    if (consecutive.toUpperCase() === normalizedQuery) return true;
+    return /^\d+$/.test(normalizedQuery) && Number(consecutive.replace(/\D/g, '')) === Number(normalizedQuery);
+}
+
+async function findOrder(query: string): Promise<ProductionOrder | null> {
+    for (const isArchived of [false, true]) {
+        const result = await getOrders({ page: 0, pageSize: MAX_SEARCH_RESULTS, isArchived, filters: { searchTerm: query.trim() } });
+        const order = (isArchived ? result.archivedOrders : result.activeOrders).find(o => matchesConsecutive(o.consecutive, query));
+        if (order) return order;
+    }
+    return null;
+}
+
+async function findRequest(query: string): Promise<PurchaseRequest | null> {
+    for (const isArchived of [false, true]) {
+        const { requests } = await getRequests({ page: 0, pageSize: MAX_SEARCH_RESULTS, isArchived, filters: { searchTerm: query.trim() } });
+        const request = requests.find(r => matchesConsecutive(r.consecutive, query));
+        if (request) return request;
+    }
+    return null;
+}
+
+/** Looks a document up, treating a missing read permission as "not found" so /aprobar can try both modules. */
+async function findIfAllowed<T>(find: () => Promise<T | null>): Promise<T | null> {
+    try {
+        return await find();
+    } catch (error) {
+        if (error instanceof AuthorizationError) return null;
+        throw error;
+    }
+}
+
+async function describeOrder(order: ProductionOrder): Promise<string> {
+    const statusLabel = getStatusConfig(await getPlannerSettings())[order.status]?.label || order.status;
+    return [
+        `<b>${escapeHtml(order.consecutive)}</b> — ${escapeHtml(order.customerName)}`,
+        `Producto: ${escapeHtml(order.productId)} ${escapeHtml(order.productDescription)}`,
+        `Cantidad: ${formatNumber(order.quantity)}`,
+        `Estado: <b>${escapeHtml(statusLabel)}</b>`,
+        `Entrega: ${formatDate(order.deliveryDate)}`,
+        order.lastStatusUpdateBy ? `Último cambio: ${escapeHtml(order.lastStatusUpdateBy)}${order.lastStatusUpdateNotes ? ` — ${escapeHtml(order.lastStatusUpdateNotes)}` : ''}` : '',
+    ].filter(Boolean).join('\n');
+}
+
+function describeRequest(request: PurchaseRequest): string {
+    return [
+        `<b>${escapeHtml(request.consecutive)}</b> — ${escapeHtml(request.clientName)}`,
+        `Artículo: ${escapeHtml(request.itemId)} ${escapeHtml(request.itemDescription)}`,
+        `Cantidad: ${formatNumber(request.quantity)}`,
+        `Estado: <b>${escapeHtml(REQUEST_STATUS_LABELS[request.status] || request.status)}</b>`,
+        `Requerida: ${formatDate(request.requiredDate)}`,
+        request.arrivalDate ? `Llegada estimada: ${formatDate(request.arrivalDate)}` : '',
+        request.lastStatusUpdateBy ? `Último cambio: ${escapeHtml(request.lastStatusUpdateBy)}${request.lastStatusUpdateNotes ? ` — ${escapeHtml(request.lastStatusUpdateNotes)}` : ''}` : '',
+    ].filter(Boolean).join('\n');
+}
+
+async function stockCommand(query: string): Promise<string> {
+    await authorizeAction('telegramStockCommand', ['warehouse:access', 'warehouse:search:simple', 'warehouse:search:full']);
+    if (!query) return 'Uso: /stock &lt;código o descripción del artículo&gt;';
+
+    const products = await getAllProducts();
+    const needle = query.toLowerCase();
+    let product = products.find(p => p.id.toLowerCase() === needle);
+    if (!product) {
+        const matches = products.filter(p => p.id.toLowerCase().includes(needle) || (p.description || '').toLowerCase().includes(needle));
+        if (matches.length === 0) return `No se encontró ningún artículo para "${escapeHtml(query)}".`;
+        if (matches.length > 1) {
+            const list = matches.slice(0, MAX_SEARCH_RESULTS).map(p => `• <code>${escapeHtml(p.id)}</code> ${escapeHtml(p.description)}`).join('\n');
+            const more = matches.length > MAX_SEARCH_RESULTS ? `\n…y ${matches.length - MAX_SEARCH_RESULTS} más.` : '';
+            return `Se encontraron ${matches.length} artículos. Indica el código:\n${list}${more}`;
+        }
+        product = matches[0];
+    }
+
+    const { stock, locations, inventory, itemLocations, stockSettings } = await getWarehouseData();
+    const lines = [`<b>${escapeHtml(product.id)}</b> — ${escapeHtml(product.description)}`];
+
+    const stockEntry = stock.find(s => s.itemId === product!.id);
+    if (stockEntry) {
+        lines.push(`Existencia ERP: <b>${formatNumber(stockEntry.totalStock)}</b>`);
+        for (const [warehouseId, quantity] of Object.entries(stockEntry.stockByWarehouse)) {
+            if (!quantity) continue;
+            const warehouse = stockSettings.warehouses.find(w => w.id === warehouseId);
+            if (warehouse && !warehouse.isVisible) continue;
+            lines.push(`  • ${escapeHtml(warehouse?.name || warehouseId)}: ${formatNumber(quantity)}`);
+        }
+    } else {
+        lines.push('Sin existencias registradas en el ERP.');
+    }
+
+    const counted = inventory.filter(entry => entry.itemId === product!.id && entry.quantity > 0);
+    const assigned = itemLocations.filter(entry => entry.itemId === product!.id && !counted.some(c => c.locationId === entry.locationId));
+    if (counted.length > 0 || assigned.length > 0) {
+        lines.push('', 'Ubicaciones en almacén:');
+        counted.forEach(entry => lines.push(`  • ${escapeHtml(renderLocationPathAsString(entry.locationId, locations))}: ${formatNumber(entry.quantity)}`));
+        assigned.forEach(entry => lines.push(`  • ${escapeHtml(renderLocationPathAsString(entry.locationId, locations))}`));
+    } else {
+        lines.push('', 'Sin ubicaciones asignadas en el almacén.');
+    }
+    return lines.join('\n');
+}
+
+async function orderCommand(query: string): Promise<string> {
+    if (!query) return 'Uso: /op &lt;consecutivo&gt;';
+    const order = await findOrder(query);
+    return order ? describeOrder(order) : `No se encontró la orden de producción "${escapeHtml(query)}".`;
+}
+
+async function requestCommand(query: string): Promise<string> {
+    if (!query) return 'Uso: /sc &lt;consecutivo&gt;';
+    const request = await findRequest(query);
+    return request ? describeRequest(request) : `No se encontró la solicitud de compra "${escapeHtml(query)}".`;
+}
+
+async function approveCommand(query: string, user: User): Promise<string> {
+    if (!query) return 'Uso: /aprobar &lt;consecutivo&gt;';
+    const notes = 'Aprobada desde Telegram.';
+
+    const order = await findIfAllowed(() => findOrder(query));
+    if (order) {
+        if (order.status !== APPROVABLE_STATUS) {
+            return `La orden ${escapeHtml(order.consecutive)} no está pendiente de aprobación.\n\n${await describeOrder(order)}`;
+        }
+        const updated = await updateOrderStatus({ orderId: order.id, status: 'approved', notes, updatedBy: user.name, reopen: false });
+        await logInfo(`Production order ${updated.consecutive} approved from Telegram by ${user.name}`, { orderId: updated.id });
+        return `✅ Orden aprobada.\n\n${await describeOrder(updated)}`;
+    }
+
+    const request = await findIfAllowed(() => findRequest(query));
+    if (request) {
+        if (request.status !== APPROVABLE_STATUS) {
+            return `La solicitud ${escapeHtml(request.consecutive)} no está pendiente de aprobación.\n\n${describeRequest(request)}`;
+        }
+        const updated = await updateRequestStatus({ requestId: request.id, status: 'approved', notes, updatedBy: user.name, reopen: false });
+        await logInfo(`Purchase request ${updated.consecutive} approved from Telegram by ${user.name}`, { requestId: updated.id });
+        return `✅ Solicitud aprobada.\n\n${describeRequest(updated)}`;
+    }
+
+    return `No se encontró ninguna orden o solicitud "${escapeHtml(query)}" que puedas ver.`;
+}
+
+/** Commands available to linked users. */
+const USER_COMMANDS: Record<string, BotCommand> = {
+    stock: { usage: '/stock <artículo>', description: 'Existencias y ubicaciones de un artículo', run: stockCommand },
+    op: { usage: '/op <consecutivo>', description: 'Estado de una orden de producción', run: orderCommand },
+    sc: { usage: '/sc <consecutivo>', description: 'Estado de una solicitud de compra', run: requestCommand },
+    aprobar: { usage: '/aprobar <consecutivo>', description: 'Aprueba una orden o solicitud pendiente de aprobación', run: approveCommand },
+};
+
+function helpText(linkedUser: User | null): string {
+    const commands = Object.values(USER_COMMANDS).map(c => `${escapeHtml(c.usage)} — ${c.description}`).join('\n');
+    const status = linkedUser
+        ? `Cuenta vinculada: <b>${escapeHtml(linkedUser.name)}</b>. Usa /desvincular para quitar el vínculo.`
+        : 'Tu cuenta de Telegram no está vinculada. Genera un código en tu perfil del sistema y envíalo aquí con /vincular &lt;código&gt;.';
+    return `${status}\n\n<b>Comandos</b>\n${commands}`;
+}
+
+async function findUser(userId: number): Promise<User | null> {
+    return (await getAllUsers()).find(u => u.id === userId) || null;
+}
+
+/**
+ * Stores the user's private chat as their Telegram destination, or clears it
+ * (turning Telegram off in every category) when the account is unlinked.
+ */
+async function updateTelegramPreference(userId: number, chatId: string | null): Promise<void> {
+    await runAsSystem(async () => {
+        const preferences = normalizeUserNotificationPreferences(await getUserPreferences(userId, USER_NOTIFICATION_PREFERENCES_KEY));
+        const channels = chatId ? preferences.channels : Object.fromEntries(
+            Object.entries(preferences.channels).map(([category, enabled]) => [category, { ...enabled, telegram: false }])
+        ) as typeof preferences.channels;
+        await saveUserPreferences(userId, USER_NOTIFICATION_PREFERENCES_KEY, { ...preferences, channels, telegramChatId: chatId || '' });
+    });
+}
+
+async function linkAccount(code: string, message: TelegramBot.Message): Promise<string> {
+    if (message.chat.type !== 'private') {
+        return 'Por seguridad, vincula tu cuenta en un chat privado con el bot.';
+    }
+    if (!code) return 'Uso: /vincular &lt;código&gt;. El código se genera en tu perfil del sistema.';
+
+    const userId = await consumeTelegramLinkCode(code.trim().toUpperCase());
+    const user = userId ? await findUser(userId) : null;
+    if (!user) return 'El código no es válido o ya venció. Genera uno nuevo desde tu perfil.';
+
+    const telegramUserId = String(message.from!.id);
+    await saveTelegramLink({ telegramUserId, userId: user.id, telegramUsername: message.from!.username || null, linkedAt: new Date().toISOString() });
+    await updateTelegramPreference(user.id, String(message.chat.id));
+    await logInfo(`Telegram account linked to user ${user.name}`, { userId: user.id, telegramUserId });
+    return `Listo, ${escapeHtml(user.name)}. Tu cuenta quedó vinculada.\n\n${helpText(user)}`;
+}
+
+async function runCommand(command: string, args: string, message: TelegramBot.Message): Promise<string> {
+    const link = await getTelegramLinkByTelegramUser(String(message.from!.id));
+    const user = link ? await findUser(link.userId) : null;
+
+    switch (command) {
+        case 'start':
+            return args ? linkAccount(args, message) : helpText(user);
+        case 'vincular':
+            return linkAccount(args, message);
+        case 'ayuda':
+        case 'help':
+            return helpText(user);
+        case 'desvincular':
+            if (!user) return 'Tu cuenta de Telegram no está vinculada.';
+            await runAsUser(user, () => unlinkTelegramAccount(user.id));
+            return 'Tu cuenta de Telegram fue desvinculada.';
+    }
+
+    const definition = USER_COMMANDS[command];
+    if (!definition) return 'Comando desconocido. Usa /ayuda para ver los comandos disponibles.';
+    if (!user) return helpText(null);
+    return runAsUser(user, () => definition.run(args, user));
+}
+
+async function handleMessage(instance: TelegramBot, message: TelegramBot.Message): Promise<void> {
+    const text = message.text?.trim();
+    if (!text || !text.startsWith('/') || !message.from) return;
+
+    const [rawCommand, ...rest] = text.split(/\s+/);
+    // In groups commands may come addressed to the bot: /stock@MiBot
+    const command = rawCommand.slice(1).split('@')[0].toLowerCase();
+    const args = rest.join(' ').trim();
+
+    let reply: string;
+    try {
+        reply = await runCommand(command, args, message);
+    } catch (error: any) {
+        if (error instanceof AuthorizationError) {
+            reply = 'No tienes permiso para realizar esta acción.';
+        } else {
+            await logError('Failed to process Telegram command', { error: error.message, command, telegramUserId: message.from.id });
+            reply = 'Ocurrió un error al procesar el comando. Intenta de nuevo más tarde.';
+        }
+    }
+
+    try {
+        await instance.sendMessage(message.chat.id, reply, { parse_mode: 'HTML', reply_to_message_id: message.message_id });
+    } catch (error: any) {
+        await logError('Failed to reply to Telegram command', { error: error.message, command, chatId: message.chat.id });
+    }
+}
+
+async function stopTelegramBot(): Promise<void> {
+    if (!bot) return;
+    const instance = bot;
+    bot = null;
+    botConfigKey = '';
+    botUsername = null;
+    try {
+        await instance.stopPolling({ cancel: true });
+    } catch (error: any) {
+        logError('Failed to stop Telegram bot polling', { error: error.message });
+    }
+}
+
+/**
+ * Starts (or restarts, after the settings changed) long polling for bot commands, or stops it when
+ * commands are disabled. Called when the server starts and whenever the Telegram settings are saved.
+ */
+export async function startTelegramBot(): Promise<void> {
+    await authorizeAction('startTelegramBot', 'admin:notifications:write');
+    const settings = (await getNotificationServiceSettings('telegram')).telegram;
+    const configKey = settings?.commandsEnabled && settings.botToken ? `${settings.botToken}|${settings.apiBaseUrl || ''}` : '';
+    if (configKey === botConfigKey) return;
+
+    await stopTelegramBot();
+    if (!configKey) return;
+
+    const instance = new TelegramBot(settings.botToken, {
+        polling: { autoStart: false, params: { timeout: 30 } },
+        baseApiUrl: settings.apiBaseUrl || undefined,
+    });
+    instance.on('message', (message) => { void handleMessage(instance, message); });
+    instance.on('polling_error', (error) => {
+        // The library retries by itself; log each distinct error once instead of on every retry.
+        if (error.message !== lastPollingError) {
+            lastPollingError = error.message;
+            logError('Telegram bot polling error', { error: error.message });
+        }
+    });
+    bot = instance;
+    botConfigKey = configKey;
+
+    try {
+        botUsername = (await instance.getMe()).username || null;
+        await instance.setMyCommands(Object.entries(USER_COMMANDS).map(([command, definition]) => ({ command, description: definition.description })));
+    } catch (error: any) {
+        logError('Failed to read the Telegram bot profile', { error: error.message });
+    }
+    await instance.startPolling();
+    lastPollingError = '';
+    console.log(`🤖 Telegram bot started${botUsername ? ` as @${botUsername}` : ''} (long polling).`);
+}
+
+/**
+ * Returns the username of the running bot, to tell users where to send their link code.
+ * @returns The username, or null when commands are disabled or the bot could not be reached.
+ */
+export async function getTelegramBotUsername(): Promise<string | null> {
+    return botUsername;
+}
+
+/**
+ * Creates the one-time code a user sends to the bot to link their Telegram account.
+ * @param userId - The user who requested the code.
+ * @returns The code and when it expires.
+ */
+export async function createTelegramLinkCode(userId: number): Promise<{ code: string; expiresAt: string }> {
+    const user = await authorizeOwner('createTelegramLinkCode', userId);
+    await assertNotImpersonating(user, 'createTelegramLinkCode');
+    // Unambiguous characters only (no 0/O, 1/I), so the code is easy to type on a phone.
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const code = Array.from(crypto.randomBytes(8), byte => alphabet[byte % alphabet.length]).join('');
+    const expiresAt = new Date(Date.now() + LINK_CODE_TTL_MINUTES * 60 * 1000).toISOString();
+    await saveTelegramLinkCode(userId, code, expiresAt);
+    return { code, expiresAt };
+}
+
+/**
+ * Removes the Telegram account linked to a user and turns off their Telegram notifications.
+ * @param userId - The user.
+ */
+export async function unlinkTelegramAccount(userId: number): Promise<void> {
+    await authorizeOwner('unlinkTelegramAccount', userId);
+    await deleteTelegramLinkForUser(userId);
+    await updateTelegramPreference(userId, null);
+    await logInfo('Telegram account unlinked', { userId });
+}
@@ -1,11 +1,13 @@
 /**
  * @fileoverview Service for sending messages via a Telegram bot.
+ * This is not a server action module: messages are only sent by the notifications engine,
+ * the user notification service and the scheduled reports, so clients cannot choose the chat.
  */
-'use server';
 
 import TelegramBot from 'node-telegram-bot-api';
 import { getNotificationServiceSettings } from './db';
 import { logError, logInfo } from '@/modules/core/lib/logger';
+import type { TelegramDestination, TelegramSettings } from '@/modules/core/types';
 
 /**
  * Removes HTML tags from a string.
@@ -16,28 +18,61 @@ function stripHtml(html: string): string {
     return html.replace(/<[^>]*>?/gm, '');
 }
 
+const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Sends a message through a bot, truncated to Telegram's maximum length.
+ */
+async function postTelegramMessage(target: { botToken: string; apiBaseUrl?: string; chatId: string; threadId?: string }, message: string): Promise<void> {
+    const bot = new TelegramBot(target.botToken, { baseApiUrl: target.apiBaseUrl || undefined });
+
+    const truncatedMessage = message.length > MAX_MESSAGE_LENGTH 
+        ? message.substring(0, MAX_MESSAGE_LENGTH - 3) + '...' 
+        : message;
+
+    await bot.sendMessage(target.chatId, truncatedMessage, {
+        parse_mode: 'HTML',
+        ...(target.threadId ? { message_thread_id: Number(target.threadId) } : {}),
+    });
+}
+
+/**
+ * Resolves the bot and chat of a registered destination.
+ * @throws {Error} If the destination, or the bot it uses, does not exist or has no token.
+ */
+function resolveTelegramDestination(settings: TelegramSettings, destinationId: string) {
+    const destination = (settings.destinations || []).find(d => d.id === destinationId);
+    if (!destination) {
+        throw new Error(`El destino de Telegram '${destinationId}' no existe.`);
+    }
+    const bot = destination.botId ? (settings.bots || []).find(b => b.id === destination.botId) : null;
+    if (destination.botId && !bot) {
+        throw new Error(`El bot del destino '${destination.name}' no existe.`);
+    }
+    const botToken = bot ? bot.botToken : settings.botToken;
+    if (!botToken || !destination.chatId) {
+        throw new Error(`El destino '${destination.name}' no tiene Token de bot o Chat ID.`);
+    }
+    return { destination, botToken, apiBaseUrl: settings.apiBaseUrl, chatId: destination.chatId, threadId: destination.threadId };
+}
+
 /**
  * Sends a message to the configured Telegram chat.
  * @param message - The message content (can be HTML, will be stripped for plain text, but sent as HTML).
+ * @param chatIdOverride - Sends to this chat instead of the configured one (e.g. a user's private chat with the bot).
  */
-export async function sendTelegramMessage(message: string) {
+export async function sendTelegramMessage(message: string, chatIdOverride?: string) {
     try {
         const settings = await getNotificationServiceSettings('telegram');
-        const { botToken, chatId } = settings.telegram || {};
+        const { botToken, chatId: configuredChatId, apiBaseUrl } = settings.telegram || {};
+        const chatId = chatIdOverride || configuredChatId;
 
         if (!botToken || !chatId) {
             logError('Telegram service not configured.', { botToken: !!botToken, chatId: !!chatId });
             throw new Error('El servicio de Telegram no está configurado (falta Token o Chat ID).');
         }
 
-        const bot = new TelegramBot(botToken);
-
-        const maxLength = 4096;
-        const truncatedMessage = message.length > maxLength 
-            ? message.substring(0, maxLength - 3) + '...' 
-            : message;
-
-        await bot.sendMessage(chatId, truncatedMessage, { parse_mode: 'HTML' });
+        await postTelegramMessage({ botToken, apiBaseUrl, chatId }, message);
         
         logInfo('Successfully sent message to Telegram.', { chatId });
 
@@ -47,3 +82,42 @@ export async function sendTelegramMessage(message: string) {
         throw new Error(`Error al enviar mensaje a Telegram: ${error.message}`);
     }
 }
+
+/**
+ * Sends a message to registered Telegram destinations, each through its own bot.
+ * Every destination is attempted even if an earlier one fails.
+ * @param message - The message content (Telegram HTML).
+ * @param destinationIds - The IDs of the destinations.
+ * @throws {Error} Listing the destinations that could not be reached.
+ */
+export async function sendTelegramToDestinations(message: string, destinationIds: string[]) {
+    const settings = (await getNotificationServiceSettings('telegram')).telegram;
+    const failures: string[] = [];
+
+    for (const destinationId of destinationIds) {
+        try {
+            const target = resolveTelegramDestination(settings, destinationId);
+            await postTelegramMessage(target, message);
+            logInfo('Successfully sent message to Telegram.', { destination: target.destination.name, chatId: target.chatId });
+        } catch (error: any) {
+            logError('Failed to send Telegram message', { error: error.message, destinationId });
+            failures.push(error.message);
+        }
+    }
+
+    if (failures.length > 0) {
+        throw new Error(`Error al enviar mensaje a Telegram: ${failures.join('; ')}`);
+    }
+}
+
+/**
+ * Sends a message to a destination using settings that may not be saved yet, to test them from the editor.
+ * Callers must check `admin:notifications:write`: the bot token and API URL come from the client.
+ * @param settings - The Telegram settings being edited, for the bots.
+ * @param destination - The destination to test.
+ * @param message - The message content (Telegram HTML).
+ */
+export async function sendTelegramTestMessage(settings: TelegramSettings, destination: TelegramDestination, message: string) {
+    const target = resolveTelegramDestination({ ...settings, destinations: [destination] }, destination.id);
+    await postTelegramMessage(target, message);
+}
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview A small logic-less template engine for notification messages.
+ *
+ * Syntax:
+ * - `{{path}}` prints a payload value (dot path, e.g. `rack.name`), HTML-escaped unless the caller
+ *   renders plain text.
+ *   Filters are chained with `|`: `number`, `date`, `datetime`, `upper`, `lower` and
+ *   `default:"text"` (e.g. `{{arrivalDate | date | default:"No especificada"}}`).
+ * - `{{#each items}}...{{/each}}` repeats its content for every element of a list. Inside,
+ *   paths are resolved against the element first and then against the outer context;
+ *   `{{this}}`, `{{@index}}` (starting at 1), `{{@first}}` and `{{@last}}` are also available.
+ * - `{{#if path}}...{{else}}...{{/if}}` and `{{#unless path}}...{{/unless}}` render content
+ *   depending on whether the value is truthy (empty lists, empty text and zero are false).
+ *
+ * This module is pure and has no "use server" directive: the template editor uses it for the live preview.
+ */
+
+import { format } from 'date-fns';
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'value'; path: string; filters: { name: string; arg?: string }[] }
+    | { type: 'each'; path: string; children: TemplateNode[] }
+    | { type: 'if'; path: string; negate: boolean; children: TemplateNode[]; elseChildren: TemplateNode[] };
+
+type BlockFrame = { node: Extract<TemplateNode, { type: 'each' | 'if' }>; inElse: boolean };
+
+const TAG_PATTERN = /\{\{\s*([#/]?)(\w+|@?[\w.]+)?\s*([^}]*?)\s*\}\}/g;
+const KNOWN_FILTERS = ['number', 'date', 'datetime', 'upper', 'lower', 'default'];
+
+/**
+ * Parses a template into a tree.
+ * @param template - The template source.
+ * @returns The parsed nodes.
+ * @throws {Error} With a Spanish message when a block is not closed, closed twice or a filter is unknown.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: BlockFrame[] = [];
+    const currentChildren = () => {
+        const frame = stack[stack.length - 1];
+        if (!frame) return root;
+        return frame.node.type === 'if' && frame.inElse ? frame.node.elseChildren : frame.node.children;
+    };
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(TAG_PATTERN)) {
+        const [tag, sigil, keyword = '', rest] = match;
+        if (match.index! > lastIndex) {
+            currentChildren().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+        }
+        lastIndex = match.index! + tag.length;
+
+        if (sigil === '#') {
+            if (keyword !== 'each' && keyword !== 'if' && keyword !== 'unless') {
+                throw new Error(`Bloque desconocido: {{#${keyword}}}.`);
+            }
+            if (!rest) {
+                throw new Error(`El bloque {{#${keyword}}} necesita un campo.`);
+            }
+            const node: BlockFrame['node'] = keyword === 'each'
+                ? { type: 'each', path: rest, children: [] }
+                : { type: 'if', path: rest, negate: keyword === 'unless', children: [], elseChildren: [] };
+            currentChildren().push(node);
+            stack.push({ node, inElse: false });
+        } else if (sigil === '/') {
+            const frame = stack.pop();
+            const expected = frame?.node.type === 'if' ? (frame.node.negate ? 'unless' : 'if') : frame?.node.type;
+            if (!frame || expected !== keyword) {
+                throw new Error(`Cierre inesperado: {{/${keyword}}}.`);
+            }
+        } else if (keyword === 'else' && !rest) {
+            const frame = stack[stack.length - 1];
+            if (!frame || frame.node.type !== 'if' || frame.inElse) {
+                throw new Error('{{else}} solo puede usarse una vez dentro de un bloque {{#if}} o {{#unless}}.');
+            }
+            frame.inElse = true;
+        } else {
+            const [path, ...filterParts] = `${keyword}${rest}`.split('|').map(part => part.trim());
+            if (!path) {
+                throw new Error(`Marcador vacío: ${tag}.`);
+            }
+            const filters = filterParts.map(part => {
+                const [name, ...argParts] = part.split(':');
+                if (!KNOWN_FILTERS.includes(name.trim())) {
+                    throw new Error(`Filtro desconocido '${name.trim()}' en ${tag}.`);
+                }
+                const arg = argParts.join(':').trim().replace(/^"(.*)"$/, '$1');
+                return { name: name.trim(), arg: argParts.length > 0 ? arg : undefined };
+            });
+            currentChildren().push({ type: 'value', path, filters });
+        }
+    }
+    if (stack.length > 0) {
+        const open = stack[stack.length - 1].node;
+        throw new Error(`Falta cerrar el bloque {{#${open.type === 'if' && open.negate ? 'unless' : open.type} ${open.path}}}.`);
+    }
+    if (lastIndex < template.length) {
+        root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+    return root;
+}
+
+/**
+ * Escapes text for HTML (also valid for Telegram's HTML parse mode).
+ */
+export function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function lookup(scopes: Record<string, unknown>[], path: string): unknown {
+    if (path === 'this') return scopes[0]?.['this'] ?? scopes[0];
+    const [head, ...tail] = path.split('.');
+    const scope = scopes.find(s => s !== null && typeof s === 'object' && head in s);
+    let value: unknown = scope?.[head];
+    for (const segment of tail) {
+        if (value === null || value === undefined) return undefined;
+        value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.trim().length > 0;
+    return Boolean(value);
+}
+
+function applyFilter(value: unknown, filter: { name: string; arg?: string }): unknown {
+    const isEmpty = value === null || value === undefined || value === '';
+    switch (filter.name) {
+        case 'default':
+            return isEmpty ? filter.arg ?? '' : value;
+        case 'number':
+            return isEmpty || Number.isNaN(Number(value)) ? value : Number(value).toLocaleString('es-CR');
+        case 'date':
+        case 'datetime': {
+            if (isEmpty) return value;
+            const date = new Date(value as string);
+            return Number.isNaN(date.getTime()) ? value : format(date, filter.name === 'date' ? 'dd/MM/yyyy' : 'dd/MM/yyyy HH:mm');
+        }
+        case 'upper':
+            return isEmpty ? value : String(value).toUpperCase();
+        case 'lower':
+            return isEmpty ? value : String(value).toLowerCase();
+        default:
+            return value;
+    }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Record<string, unknown>[], escape: boolean): string {
+    return nodes.map(node => {
+        switch (node.type) {
+            case 'text':
+                return node.value;
+            case 'value': {
+                const value = node.filters.reduce(applyFilter, lookup(scopes, node.path));
+                if (value === null || value === undefined) return '';
+                const text = Array.isArray(value) ? value.join(', ') : String(value);
+                return escape ? escapeHtml(text) : text;
+            }
+            case 'each': {
+                const list = lookup(scopes, node.path);
+                if (!Array.isArray(list)) return '';
+                return list.map((element, index) => {
+                    const meta = { '@index': index + 1, '@first': index === 0, '@last': index === list.length - 1, this: element };
+                    const elementScope = element !== null && typeof element === 'object' ? { ...element, ...meta } : meta;
+                    return renderNodes(node.children, [elementScope, ...scopes], escape);
+                }).join('');
+            }
+            case 'if': {
+                const condition = isTruthy(lookup(scopes, node.path)) !== node.negate;
+                return renderNodes(condition ? node.children : node.elseChildren, scopes, escape);
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Renders a template against a context.
+ * @param template - The template source.
+ * @param context - The values available to the placeholders.
+ * @param options - `escape: false` prints values as they are, for plain-text output such as email subjects.
+ * @returns The rendered text.
+ * @throws {Error} If the template has syntax errors.
+ */
+export function renderTemplate(template: string, context: Record<string, unknown>, options: { escape?: boolean } = {}): string {
+    return renderNodes(parseTemplate(template), [context], options.escape ?? true);
+}
+
+/**
+ * Checks the syntax of a template.
+ * @param template - The template source.
+ * @returns The error message, or null when the template is valid.
+ */
+export function getTemplateSyntaxError(template: string): string | null {
+    try {
+        parseTemplate(template);
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+/** Tags accepted by Telegram's HTML parse mode. */
+const TELEGRAM_ALLOWED_TAGS = ['b', 'strong', 'i', 'em', 'u', 'ins', 's', 'strike', 'del', 'a', 'code', 'pre', 'span', 'tg-spoiler', 'blockquote'];
+
+/**
+ * Lists the HTML tags of a template that Telegram would reject.
+ * @param template - The template source.
+ * @returns The distinct disallowed tag names.
+ */
+export function findUnsupportedTelegramTags(template: string): string[] {
+    const tags = Array.from(template.matchAll(/<\/?([a-zA-Z][\w-]*)/g), match => match[1].toLowerCase());
+    return [...new Set(tags.filter(tag => !TELEGRAM_ALLOWED_TAGS.includes(tag)))];
+}
@@ -0,0 +1,551 @@
+/**
+ * @fileoverview Built-in templates of every notification event and channel, written in the
+ * syntax of `template-engine.ts`. They apply until an administrator saves a custom version
+ * in the template editor, and "Restablecer" goes back to them.
+ */
+
+import type { NotificationChannel, NotificationEventId } from '@/modules/core/types';
+
+type TemplateSource = { subject: string; body: string };
+
+const FOOTER = `
+        <div style="background-color: #f8fafc; padding: 12px; text-align: center; font-size: 12px; color: #64748b;">
+            Notificación generada automáticamente por Clic-Tools.
+        </div>`;
+
+/**
+ * Wraps the content of an email in the common layout: colored header, body and an optional link button.
+ */
+const emailLayout = (theme: { background: string; title: string; button: string }, title: string, content: string, buttonLabel?: string) => `
+    <div style="font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: auto; border: 1px solid #ddd; border-radius: 8px;">
+        <div style="background-color: ${theme.background}; padding: 16px;">
+            <h1 style="margin: 0; font-size: 24px; color: ${theme.title};">${title}</h1>
+        </div>
+        <div style="padding: 16px;">${content}${buttonLabel ? `
+            <div style="text-align: center; margin-top: 24px;">
+                <a href="{{url}}" style="background-color: ${theme.button}; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">${buttonLabel}</a>
+            </div>` : ''}
+        </div>${FOOTER}
+    </div>
+`;
+
+const warehouseTheme = { background: '#ecfeff', title: '#0891b2', button: '#06b6d4' };
+const plannerTheme = { background: '#f3e8ff', title: '#6b21a8', button: '#7e22ce' };
+const requestsTheme = { background: '#fffbeb', title: '#b45309', button: '#d97706' };
+const systemTheme = { background: '#f1f5f9', title: '#334155', button: '#475569' };
+const alertTheme = { background: '#fef2f2', title: '#b91c1c', button: '#dc2626' };
+
+const plannerSummary = `
+            <p><strong>Orden de Producción:</strong> {{consecutive}}</p>
+            <p><strong>Cliente:</strong> {{customerName}} ({{customerId}})</p>
+            <p><strong>Producto:</strong> {{productDescription}} ({{productId}})</p>
+            <p><strong>Cantidad Solicitada:</strong> {{quantity | number}}</p>
+            <p><strong>Realizado por:</strong> {{actor}}</p>
+            <p><strong>Fecha del Evento:</strong> {{now | datetime}}</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">`;
+
+const requestSummary = `
+            <p><strong>Solicitud de Compra:</strong> {{consecutive}}</p>
+            <p><strong>Artículo:</strong> {{itemDescription}} ({{itemId}})</p>
+            <p><strong>Cantidad:</strong> {{quantity | number}}</p>
+            <p><strong>Cliente Asociado:</strong> {{clientName | default:"N/A"}}</p>
+            <p><strong>Realizado por:</strong> {{actor}}</p>
+            <p><strong>Fecha del Evento:</strong> {{now | datetime}}</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">`;
+
+const dispatchEmailBody = `
+    <div style="font-family: Arial, sans-serif; color: #333; max-width: 800px; margin: auto; border: 1px solid #ddd; border-radius: 8px; overflow: hidden;">
+        <div style="background-color: {{#if hasDiscrepancy}}#fef2f2{{else}}#f0f9ff{{/if}}; padding: 16px;">
+            <h1 style="margin: 0; font-size: 24px; color: {{#if hasDiscrepancy}}#b91c1c{{else}}#0284c7{{/if}};">
+                {{#if hasDiscrepancy}}Alerta de Despacho con Discrepancias{{else}}Comprobante de Despacho Verificado{{/if}}
+            </h1>
+        </div>
+        <div style="padding: 16px;">
+            <h2 style="font-size: 18px; border-bottom: 1px solid #eee; padding-bottom: 8px; margin-top: 0;">Resumen del Despacho</h2>
+            <p><strong>Documento:</strong> {{documentId}} ({{documentType}})</p>
+            {{#if clientName}}<p><strong>Cliente:</strong> {{clientName}} ({{clientId}})</p>{{/if}}
+            <p><strong>Verificado por:</strong> {{verifiedByUserName}}</p>
+            <p><strong>Fecha y Hora:</strong> {{verifiedAt | datetime}}</p>
+            {{#if notes}}<p><strong>Notas Adicionales:</strong> {{notes}}</p>{{/if}}
+
+            <h2 style="font-size: 18px; border-bottom: 1px solid #eee; padding-bottom: 8px; margin-top: 24px;">Detalle de Artículos</h2>
+            <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <thead>
+                    <tr style="background-color: #f3f4f6; text-align: left;">
+                        <th style="padding: 8px;">Código</th>
+                        <th style="padding: 8px;">Cod. Barras</th>
+                        <th style="padding: 8px;">Descripción</th>
+                        <th style="padding: 8px; text-align: center;">Requerido</th>
+                        <th style="padding: 8px; text-align: center;">Verificado</th>
+                        <th style="padding: 8px; text-align: center;">Diferencia</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {{#each items}}
+                    <tr style="border-bottom: 1px solid #e5e7eb;">
+                        <td style="padding: 8px;">{{itemCode}}</td>
+                        <td style="padding: 8px;">{{barcode | default:"N/A"}}</td>
+                        <td style="padding: 8px;">{{description}}</td>
+                        <td style="padding: 8px; text-align: center;">{{requiredQuantity}}</td>
+                        <td style="padding: 8px; text-align: center; font-weight: bold;">{{verifiedQuantity}}</td>
+                        <td style="padding: 8px; text-align: center; font-weight: bold; color: {{#if hasDifference}}#ef4444{{else}}#22c55e{{/if}};">{{differenceText}}</td>
+                    </tr>
+                    {{/each}}
+                </tbody>
+            </table>
+        </div>${FOOTER}
+    </div>
+`;
+
+/**
+ * Builds a Telegram message: a bold title, one line per entry and an optional link.
+ */
+const telegramMessage = (title: string, lines: string[], linkLabel?: string) =>
+    [`<b>${title}</b>`, '', ...lines, ...(linkLabel ? ['', `<a href="{{url}}">${linkLabel}</a>`] : [])].join('\n');
+
+const plannerTelegramLines = [
+    'OP: <b>{{consecutive}}</b>',
+    'Cliente: {{customerName}}',
+    'Producto: {{productDescription}} ({{productId}})',
+    'Cantidad: {{quantity | number}}',
+    'Realizado por: {{actor}}',
+];
+
+const requestTelegramLines = [
+    'Solicitud: <b>{{consecutive}}</b>',
+    'Artículo: {{itemDescription}} ({{itemId}})',
+    'Cantidad: {{quantity | number}}',
+    'Cliente: {{clientName | default:"N/A"}}',
+    'Realizado por: {{actor}}',
+];
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationEventId, Record<NotificationChannel, TemplateSource>> = {
+    onDispatchCompleted: {
+        email: {
+            subject: '{{#if hasDiscrepancy}}Despacho con discrepancias{{else}}Despacho verificado{{/if}}: {{documentId}}',
+            body: dispatchEmailBody,
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('{{#if hasDiscrepancy}}⚠️ Despacho con discrepancias{{else}}✅ Despacho verificado{{/if}}', [
+                'Documento: <b>{{documentId}}</b> ({{documentType}})',
+                '{{#if clientName}}Cliente: {{clientName}}\n{{/if}}Verificado por: {{verifiedByUserName}}',
+                'Fecha: {{verifiedAt | datetime}}',
+                '{{#if hasDiscrepancy}}\nDiferencias:{{#each items}}{{#if hasDifference}}\n• {{itemCode}} {{description}}: {{differenceText}}{{/if}}{{/each}}{{/if}}',
+            ]),
+        },
+    },
+    onDispatchDiscrepancy: {
+        email: {
+            subject: 'Despacho con discrepancias: {{documentId}} - {{clientName}}',
+            body: dispatchEmailBody,
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('⚠️ Despacho con discrepancias', [
+                'Documento: <b>{{documentId}}</b> ({{documentType}})',
+                '{{#if clientName}}Cliente: {{clientName}}\n{{/if}}Verificado por: {{verifiedByUserName}}',
+                'Líneas con diferencia: {{discrepancyCount}}',
+                '{{#each items}}{{#if hasDifference}}\n• {{itemCode}} {{description}}: {{differenceText}}{{/if}}{{/each}}',
+            ]),
+        },
+    },
+    onDispatchContainerFinalized: {
+        email: {
+            subject: 'Despacho finalizado: {{containerName}} ({{vehiclePlate}})',
+            body: emailLayout(warehouseTheme, 'Despacho de Contenedor Finalizado', `
+            <p>Se ha finalizado el despacho de un contenedor.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Contenedor:</strong> {{containerName}}</p>
+            <p><strong>Vehículo:</strong> {{vehiclePlate}}</p>
+            <p><strong>Chofer:</strong> {{driverName}}</p>
+            {{#if helper1Name}}<p><strong>Ayudantes:</strong> {{helper1Name}}{{#if helper2Name}}, {{helper2Name}}{{/if}}</p>{{/if}}
+            <p><strong>Finalizado por:</strong> {{finalizedBy}}</p>
+            <p><strong>Fecha y Hora:</strong> {{now | datetime}}</p>
+            <h2 style="font-size: 18px; border-bottom: 1px solid #eee; padding-bottom: 8px; margin-top: 24px;">Documentos ({{documentCount}})</h2>
+            <ul>
+                {{#each documents}}<li>{{documentId}} ({{documentType}}) - {{clientName | default:"Sin cliente"}}</li>{{/each}}
+            </ul>`, 'Ir al Centro de Despachos'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🚚 Despacho de contenedor finalizado', [
+                'Contenedor: <b>{{containerName}}</b>',
+                'Vehículo: {{vehiclePlate}}',
+                'Chofer: {{driverName}}',
+                'Documentos: {{documentCount}}{{#each documents}}\n• {{documentId}} - {{clientName | default:"Sin cliente"}}{{/each}}',
+                'Finalizado por: {{finalizedBy}}',
+            ], 'Ir al Centro de Despachos'),
+        },
+    },
+    onReceivingCompleted: {
+        email: {
+            subject: 'Nueva recepción de mercadería: {{productId}}',
+            body: emailLayout(warehouseTheme, 'Nueva Recepción de Mercadería', `
+            <p>Se ha registrado una nueva recepción de mercadería en el almacén.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Producto ID:</strong> {{productId}}</p>
+            <p><strong>ID de Unidad (QR):</strong> {{unitCode}}</p>
+            <p><strong>Cantidad:</strong> {{quantity | number}}</p>
+            <p><strong>Documento de Referencia:</strong> {{documentId | default:"N/A"}}</p>
+            <p><strong>Realizado por:</strong> {{createdBy}}</p>
+            <p><strong>Fecha y Hora:</strong> {{createdAt | datetime}}</p>`, 'Ver en Almacén'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('📦 Nueva recepción de mercadería', [
+                'Producto: <b>{{productId}}</b>',
+                'Unidad: {{unitCode}}',
+                'Cantidad: {{quantity | number}}',
+                'Documento: {{documentId | default:"N/A"}}',
+                'Realizado por: {{createdBy}}',
+            ], 'Ver en Almacén'),
+        },
+    },
+    onRackCreated: {
+        email: {
+            subject: 'Nuevo rack creado: {{rack.name}}',
+            body: emailLayout(warehouseTheme, 'Nuevo Rack Creado', `
+            <p>Se ha creado una nueva estructura de rack en el sistema de almacenes.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Nombre del Rack:</strong> {{rack.name}}</p>
+            <p><strong>Código del Rack:</strong> {{rack.code}}</p>
+            <p><strong>Ubicación Padre:</strong> {{parentPath | default:"Raíz del almacén"}}</p>
+            <p><strong>Creado por:</strong> {{createdBy}}</p>
+            <p><strong>Fecha y Hora:</strong> {{now | datetime}}</p>`, 'Ir a Gestión de Ubicaciones'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🏗️ Nuevo rack creado', [
+                'Rack: <b>{{rack.name}}</b> ({{rack.code}})',
+                'Ubicación padre: {{parentPath | default:"Raíz del almacén"}}',
+                'Creado por: {{createdBy}}',
+            ], 'Ir a Gestión de Ubicaciones'),
+        },
+    },
+    onInventoryUnitCorrected: {
+        email: {
+            subject: 'Corrección de unidad de inventario: {{originalUnitCode}}',
+            body: emailLayout(warehouseTheme, 'Unidad de Inventario Corregida', `
+            <p>Se anuló una unidad de inventario y se creó una nueva con el producto corregido.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Unidad Anulada:</strong> {{originalUnitCode}} ({{previousProductId}})</p>
+            <p><strong>Unidad Nueva:</strong> {{newUnitCode}} ({{newProductId}})</p>
+            <p><strong>Cantidad:</strong> {{quantity | number}}</p>
+            <p><strong>Lote / ID Legible:</strong> {{humanReadableId | default:"N/A"}}</p>
+            <p><strong>Documento de Referencia:</strong> {{documentId | default:"N/A"}}</p>
+            <p><strong>Corregido por:</strong> {{correctedBy}}</p>
+            <p><strong>Fecha y Hora:</strong> {{now | datetime}}</p>`, 'Ver en Almacén'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('✏️ Unidad de inventario corregida', [
+                'Unidad anulada: <b>{{originalUnitCode}}</b> ({{previousProductId}})',
+                'Unidad nueva: <b>{{newUnitCode}}</b> ({{newProductId}})',
+                'Cantidad: {{quantity | number}}',
+                'Corregido por: {{correctedBy}}',
+            ], 'Ver en Almacén'),
+        },
+    },
+    onPhysicalCountDifference: {
+        email: {
+            subject: 'Diferencia en conteo físico: {{itemId}} ({{differenceText}})',
+            body: emailLayout(warehouseTheme, 'Diferencia en Conteo Físico', `
+            <p>Un conteo físico cambió la cantidad registrada de un artículo.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Artículo:</strong> {{itemDescription}} ({{itemId}})</p>
+            <p><strong>Ubicación:</strong> {{locationPath}}</p>
+            <p><strong>Cantidad Anterior:</strong> {{previousQuantity | number}}</p>
+            <p><strong>Cantidad Contada:</strong> {{countedQuantity | number}}</p>
+            <p><strong>Diferencia:</strong> {{differenceText}}{{#if differencePercent}} ({{differencePercent}}%){{/if}}</p>
+            <p><strong>Contado por:</strong> {{countedBy}}</p>
+            <p><strong>Fecha y Hora:</strong> {{now | datetime}}</p>`, 'Ver en Almacén'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🔢 Diferencia en conteo físico', [
+                'Artículo: <b>{{itemId}}</b> {{itemDescription}}',
+                'Ubicación: {{locationPath}}',
+                'Anterior: {{previousQuantity | number}} → Contado: {{countedQuantity | number}}',
+                'Diferencia: <b>{{differenceText}}</b>{{#if differencePercent}} ({{differencePercent}}%){{/if}}',
+                'Contado por: {{countedBy}}',
+            ], 'Ver en Almacén'),
+        },
+    },
+    onPlannerOrderCreated: {
+        email: {
+            subject: 'Nueva orden de producción {{consecutive}} - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Nueva Orden de Producción Creada', `${plannerSummary}
+            <p>Se ha creado una nueva orden de producción y está pendiente de revisión.</p>`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🆕 Nueva orden de producción', plannerTelegramLines, 'Ver Orden'),
+        },
+    },
+    onPlannerOrderApproved: {
+        email: {
+            subject: 'Orden de producción {{consecutive}} aprobada - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Orden de Producción Aprobada', `${plannerSummary}
+            <p>La orden de producción ha sido <strong>APROBADA</strong> y está lista para ser puesta en cola de producción.</p>`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('✅ Orden de producción aprobada', plannerTelegramLines, 'Ver Orden'),
+        },
+    },
+    onPlannerOrderOnHold: {
+        email: {
+            subject: 'Orden de producción {{consecutive}} en espera - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Orden de Producción en Espera', `${plannerSummary}
+            <p>La orden de producción ha sido puesta <strong>EN ESPERA</strong>.</p>
+            {{#if lastStatusUpdateNotes}}<p><strong>Motivo:</strong> {{lastStatusUpdateNotes}}</p>{{/if}}`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('⏸️ Orden de producción en espera', [
+                ...plannerTelegramLines,
+                '{{#if lastStatusUpdateNotes}}Motivo: {{lastStatusUpdateNotes}}{{/if}}',
+            ], 'Ver Orden'),
+        },
+    },
+    onPlannerOrderCompleted: {
+        email: {
+            subject: 'Orden de producción {{consecutive}} completada - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Orden de Producción Completada', `${plannerSummary}
+            <p>La orden de producción ha sido marcada como <strong>COMPLETADA</strong>.</p>
+            <ul>
+                <li><strong>Cantidad Producida:</strong> {{deliveredQuantity | number | default:"N/A"}}</li>
+                <li><strong>Cantidad Defectuosa:</strong> {{defectiveQuantity | number | default:"0"}}</li>
+            </ul>`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🏁 Orden de producción completada', [
+                ...plannerTelegramLines,
+                'Producido: {{deliveredQuantity | number | default:"N/A"}} (defectuoso: {{defectiveQuantity | number | default:"0"}})',
+            ], 'Ver Orden'),
+        },
+    },
+    onPlannerOrderCanceled: {
+        email: {
+            subject: 'Orden de producción {{consecutive}} cancelada - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Orden de Producción Cancelada', `${plannerSummary}
+            <p>La orden de producción ha sido <strong>CANCELADA</strong>.</p>
+            {{#if lastStatusUpdateNotes}}<p><strong>Motivo:</strong> {{lastStatusUpdateNotes}}</p>{{/if}}`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('❌ Orden de producción cancelada', [
+                ...plannerTelegramLines,
+                '{{#if lastStatusUpdateNotes}}Motivo: {{lastStatusUpdateNotes}}{{/if}}',
+            ], 'Ver Orden'),
+        },
+    },
+    onPlannerOrderActionRequested: {
+        email: {
+            subject: 'Solicitud de {{actionLabel}} de la orden {{consecutive}} - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Solicitud de {{actionLabel}} de Orden de Producción', `${plannerSummary}
+            <p>Se ha solicitado la <strong>{{actionLabel}}</strong> de la orden de producción y requiere autorización.</p>
+            <p><strong>Motivo:</strong> {{actionNotes | default:"Sin motivo indicado"}}</p>`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🛑 Solicitud de {{actionLabel}} de OP', [
+                ...plannerTelegramLines,
+                'Motivo: {{actionNotes | default:"Sin motivo indicado"}}',
+            ], 'Ver Orden'),
+        },
+    },
+    onPlannerOrderOverdue: {
+        email: {
+            subject: 'Orden de producción {{consecutive}} atrasada ({{daysOverdue}} días) - {{customerName}}',
+            body: emailLayout(plannerTheme, 'Orden de Producción Atrasada', `
+            <p><strong>Orden de Producción:</strong> {{consecutive}}</p>
+            <p><strong>Cliente:</strong> {{customerName}} ({{customerId}})</p>
+            <p><strong>Producto:</strong> {{productDescription}} ({{productId}})</p>
+            <p><strong>Cantidad Solicitada:</strong> {{quantity | number}}</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p>La fecha de entrega (<strong>{{deliveryDate | date}}</strong>) pasó hace <strong>{{daysOverdue}} día(s)</strong> y la orden aún no se ha completado.</p>
+            <p><strong>Estado Actual:</strong> {{status}}</p>`, 'Ver Orden'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('⏰ Orden de producción atrasada', [
+                'OP: <b>{{consecutive}}</b>',
+                'Cliente: {{customerName}}',
+                'Producto: {{productDescription}} ({{productId}})',
+                'Entrega: {{deliveryDate | date}} ({{daysOverdue}} día(s) de atraso)',
+                'Estado: {{status}}',
+            ], 'Ver Orden'),
+        },
+    },
+    onRequestCreated: {
+        email: {
+            subject: 'Nueva solicitud de compra {{consecutive}} - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Nueva Solicitud de Compra', `${requestSummary}
+            <p>Se ha creado una nueva solicitud de compra y está pendiente de revisión.</p>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🛒 Nueva solicitud de compra', requestTelegramLines, 'Ver Solicitud'),
+        },
+    },
+    onRequestApproved: {
+        email: {
+            subject: 'Solicitud de compra {{consecutive}} aprobada - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de Compra Aprobada', `${requestSummary}
+            <p>La solicitud de compra ha sido <strong>APROBADA</strong> y está lista para ser ordenada.</p>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('✅ Solicitud de compra aprobada', requestTelegramLines, 'Ver Solicitud'),
+        },
+    },
+    onRequestOrdered: {
+        email: {
+            subject: 'Solicitud de compra {{consecutive}} ordenada - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de Compra Ordenada', `${requestSummary}
+            <p>La solicitud de compra ha sido marcada como <strong>ORDENADA</strong>.</p>
+            <ul>
+                <li><strong>Proveedor:</strong> {{manualSupplier | default:"No especificado"}}</li>
+                <li><strong>Fecha Estimada de Llegada:</strong> {{arrivalDate | date | default:"No especificada"}}</li>
+            </ul>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('📑 Solicitud de compra ordenada', [
+                ...requestTelegramLines,
+                'Proveedor: {{manualSupplier | default:"No especificado"}}',
+                'Llegada estimada: {{arrivalDate | date | default:"No especificada"}}',
+            ], 'Ver Solicitud'),
+        },
+    },
+    onRequestReceivedInWarehouse: {
+        email: {
+            subject: 'Solicitud de compra {{consecutive}} recibida en bodega - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de Compra Recibida en Bodega', `${requestSummary}
+            <p>La mercadería de la solicitud de compra ha sido <strong>RECIBIDA EN BODEGA</strong>.</p>
+            <ul>
+                <li><strong>Cantidad Recibida:</strong> {{deliveredQuantity | number | default:"N/A"}}</li>
+                <li><strong>Recibido por:</strong> {{receivedInWarehouseBy | default:"N/A"}}</li>
+            </ul>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('📦 Solicitud recibida en bodega', [
+                ...requestTelegramLines,
+                'Recibido: {{deliveredQuantity | number | default:"N/A"}}',
+            ], 'Ver Solicitud'),
+        },
+    },
+    onRequestEnteredErp: {
+        email: {
+            subject: 'Solicitud de compra {{consecutive}} ingresada en el ERP - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de Compra Ingresada en el ERP', `${requestSummary}
+            <p>La solicitud de compra ha sido <strong>INGRESADA EN EL ERP</strong>.</p>
+            <ul>
+                <li><strong>Número de Ingreso:</strong> {{erpEntryNumber | default:"N/A"}}</li>
+            </ul>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🧾 Solicitud ingresada en el ERP', [
+                ...requestTelegramLines,
+                'Ingreso ERP: {{erpEntryNumber | default:"N/A"}}',
+            ], 'Ver Solicitud'),
+        },
+    },
+    onRequestCanceled: {
+        email: {
+            subject: 'Solicitud de compra {{consecutive}} cancelada - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de Compra Cancelada', `${requestSummary}
+            <p>La solicitud de compra ha sido <strong>CANCELADA</strong>.</p>
+            {{#if lastStatusUpdateNotes}}<p><strong>Motivo:</strong> {{lastStatusUpdateNotes}}</p>{{/if}}`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('❌ Solicitud de compra cancelada', [
+                ...requestTelegramLines,
+                '{{#if lastStatusUpdateNotes}}Motivo: {{lastStatusUpdateNotes}}{{/if}}',
+            ], 'Ver Solicitud'),
+        },
+    },
+    onRequestActionRequested: {
+        email: {
+            subject: 'Solicitud de {{actionLabel}} de la solicitud {{consecutive}} - {{itemDescription}}',
+            body: emailLayout(requestsTheme, 'Solicitud de {{actionLabel}} de Solicitud de Compra', `${requestSummary}
+            <p>Se ha solicitado la <strong>{{actionLabel}}</strong> de la solicitud de compra y requiere autorización.</p>
+            <p><strong>Motivo:</strong> {{actionNotes | default:"Sin motivo indicado"}}</p>`, 'Ver Solicitud'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🛑 Solicitud de {{actionLabel}} de compra', [
+                ...requestTelegramLines,
+                'Motivo: {{actionNotes | default:"Sin motivo indicado"}}',
+            ], 'Ver Solicitud'),
+        },
+    },
+    onErpSyncFailed: {
+        email: {
+            subject: 'Fallo en la sincronización con el ERP ({{failedCount}} importaciones)',
+            body: emailLayout(alertTheme, 'Fallo en la Sincronización con el ERP', `
+            <p>La última sincronización de datos terminó con errores.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Modo de Importación:</strong> {{importMode | upper}}</p>
+            <p><strong>Importaciones Exitosas:</strong> {{succeededCount}}</p>
+            <p><strong>Importaciones Fallidas:</strong> {{failedCount}}</p>
+            <p><strong>Finalizada:</strong> {{finishedAt | datetime}}</p>
+            <ul>
+                {{#each failures}}<li><strong>{{type}}:</strong> {{error}}</li>{{/each}}
+            </ul>`, 'Ir a Importación de Datos'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🚨 Fallo en la sincronización con el ERP', [
+                'Modo: {{importMode | upper}}',
+                'Exitosas: {{succeededCount}} · Fallidas: <b>{{failedCount}}</b>',
+                '{{#each failures}}• {{type}}: {{error}}{{#unless @last}}\n{{/unless}}{{/each}}',
+            ], 'Ir a Importación de Datos'),
+        },
+    },
+    onLoginLockout: {
+        email: {
+            subject: 'Inicio de sesión bloqueado: {{email}}',
+            body: emailLayout(alertTheme, 'Inicio de Sesión Bloqueado', `
+            <p>Se bloqueó {{scopeLabel}} tras demasiados intentos fallidos de inicio de sesión.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 16px 0;">
+            <p><strong>Correo:</strong> {{email}}</p>
+            <p><strong>Dirección IP:</strong> {{ip | default:"Desconocida"}}</p>
+            <p><strong>Equipo:</strong> {{host | default:"Desconocido"}}</p>
+            <p><strong>Intentos Fallidos:</strong> {{failedCount}}</p>
+            <p><strong>Bloqueado hasta:</strong> {{lockedUntil | datetime}}</p>`, 'Ir a Gestión de Usuarios'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('🔒 Inicio de sesión bloqueado', [
+                'Se bloqueó {{scopeLabel}} tras {{failedCount}} intentos fallidos.',
+                'Correo: <b>{{email}}</b>',
+                'IP: {{ip | default:"Desconocida"}}',
+                'Hasta: {{lockedUntil | datetime}}',
+            ], 'Ir a Gestión de Usuarios'),
+        },
+    },
+    onSuggestionCreated: {
+        email: {
+            subject: 'Nueva sugerencia de {{userName}}',
+            body: emailLayout(systemTheme, 'Nueva Sugerencia', `
+            <p><strong>{{userName}}</strong> envió una nueva sugerencia:</p>
+            <blockquote style="margin: 16px 0; padding: 12px 16px; border-left: 4px solid #cbd5e1; background-color: #f8fafc;">{{content}}</blockquote>
+            <p><strong>Fecha y Hora:</strong> {{timestamp | datetime}}</p>`, 'Ver Sugerencias'),
+        },
+        telegram: {
+            subject: '',
+            body: telegramMessage('💡 Nueva sugerencia', [
+                'De: <b>{{userName}}</b>',
+                '',
+                '{{content}}',
+            ], 'Ver Sugerencias'),
+        },
+    },
+};
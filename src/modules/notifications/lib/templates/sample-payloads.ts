@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Sample payloads of each notification event, used to preview templates
+ * in the editor. They mirror the shape of the payloads sent by the modules.
+ */
+
+import type { NotificationEventId } from '@/modules/core/types';
+
+const sampleProductionOrder = {
+    id: 125,
+    consecutive: 'OP-00125',
+    requestDate: '2025-03-03T08:15:00.000Z',
+    deliveryDate: '2025-03-14T00:00:00.000Z',
+    customerId: 'CL-0042',
+    customerName: 'Distribuidora del Valle S.A.',
+    customerTaxId: '3-101-123456',
+    productId: 'PRD-1001',
+    productDescription: 'Caja corrugada 40x30x20',
+    quantity: 5000,
+    priority: 'high',
+    status: 'approved',
+    requestedBy: 'Ana Rodríguez',
+    lastStatusUpdateBy: 'Carlos Méndez',
+    deliveredQuantity: 4950,
+    defectiveQuantity: 50,
+    machineId: 'M-02',
+};
+
+const samplePurchaseRequest = {
+    id: 87,
+    consecutive: 'SC-00087',
+    requestDate: '2025-03-03T08:15:00.000Z',
+    requiredDate: '2025-03-20T00:00:00.000Z',
+    arrivalDate: '2025-03-18T00:00:00.000Z',
+    clientId: 'CL-0042',
+    clientName: 'Distribuidora del Valle S.A.',
+    itemId: 'MP-2040',
+    itemDescription: 'Lámina de cartón kraft 120g',
+    quantity: 1200,
+    priority: 'urgent',
+    purchaseType: 'single',
+    status: 'ordered',
+    requestedBy: 'Ana Rodríguez',
+    lastStatusUpdateBy: 'Luis Castro',
+    manualSupplier: 'Papeles de Centroamérica',
+};
+
+const sampleDispatchCheck = {
+    id: 0,
+    documentId: 'FA-000981',
+    documentType: 'Factura',
+    verifiedAt: '2025-03-05T15:42:10.000Z',
+    verifiedByUserId: 3,
+    verifiedByUserName: 'María Jiménez',
+    notes: 'Acción: finish',
+    clientId: 'CL-0042',
+    clientName: 'Distribuidora del Valle S.A.',
+    containerId: 2,
+    hasDiscrepancy: true,
+    discrepancyCount: 1,
+    items: [
+        { lineId: 1, itemCode: 'PRD-1001', barcode: '7441234500011', description: 'Caja corrugada 40x30x20', requiredQuantity: 100, verifiedQuantity: 100 },
+        { lineId: 2, itemCode: 'PRD-1002', barcode: '', description: 'Caja corrugada 60x40x40', requiredQuantity: 50, verifiedQuantity: 48 },
+    ],
+};
+
+export const SAMPLE_EVENT_PAYLOADS: Record<NotificationEventId, Record<string, unknown>> = {
+    onDispatchCompleted: sampleDispatchCheck,
+    onDispatchDiscrepancy: sampleDispatchCheck,
+    onDispatchContainerFinalized: {
+        containerId: 2,
+        containerName: 'Ruta Zona Norte',
+        vehiclePlate: 'CL-204518',
+        driverName: 'Pedro Solís',
+        helper1Name: 'Mario Araya',
+        helper2Name: null,
+        documentCount: 2,
+        documents: [
+            { documentId: 'FA-000981', documentType: 'Factura', clientName: 'Distribuidora del Valle S.A.', verifiedByUserName: 'María Jiménez' },
+            { documentId: 'FA-000987', documentType: 'Factura', clientName: 'Ferretería El Roble', verifiedByUserName: 'María Jiménez' },
+        ],
+        finalizedBy: 'María Jiménez',
+    },
+    onReceivingCompleted: {
+        id: 311,
+        unitCode: 'U00311',
+        productId: 'MP-2040',
+        humanReadableId: 'LOTE-2503',
+        documentId: 'GR-1188',
+        locationId: 14,
+        quantity: 600,
+        createdAt: '2025-03-05T10:05:00.000Z',
+        createdBy: 'Jorge Vargas',
+    },
+    onRackCreated: {
+        rack: { id: 52, name: 'Rack 07', code: 'R07', type: 'rack', parentId: 3 },
+        parentPath: 'Bodega Central > Pasillo B',
+        createdBy: 'Asistente de Creación',
+    },
+    onInventoryUnitCorrected: {
+        originalUnitCode: 'U00311',
+        newUnitCode: 'U00342',
+        previousProductId: 'MP-2040',
+        newProductId: 'MP-2041',
+        quantity: 600,
+        locationId: 14,
+        humanReadableId: 'LOTE-2503',
+        documentId: 'GR-1188',
+        correctedBy: 'Jorge Vargas',
+    },
+    onPhysicalCountDifference: {
+        itemId: 'PRD-1001',
+        itemDescription: 'Caja corrugada 40x30x20',
+        locationId: 14,
+        locationPath: 'Bodega Central > Pasillo B > Rack 07 > Nivel A > Posición 03',
+        previousQuantity: 120,
+        countedQuantity: 96,
+        difference: -24,
+        absoluteDifference: 24,
+        differencePercent: -20,
+        countedBy: 'Jorge Vargas',
+    },
+    onPlannerOrderCreated: { ...sampleProductionOrder, status: 'pending' },
+    onPlannerOrderApproved: sampleProductionOrder,
+    onPlannerOrderOnHold: { ...sampleProductionOrder, status: 'on-hold', lastStatusUpdateNotes: 'Falta de materia prima' },
+    onPlannerOrderCompleted: { ...sampleProductionOrder, status: 'completed' },
+    onPlannerOrderCanceled: { ...sampleProductionOrder, status: 'canceled', lastStatusUpdateNotes: 'El cliente anuló el pedido' },
+    onPlannerOrderActionRequested: { ...sampleProductionOrder, pendingAction: 'cancellation-request', actionNotes: 'El cliente anuló el pedido', actionRequestedBy: 'Ana Rodríguez' },
+    onPlannerOrderOverdue: { ...sampleProductionOrder, status: 'in-progress', daysOverdue: 3 },
+    onRequestCreated: { ...samplePurchaseRequest, status: 'pending' },
+    onRequestApproved: { ...samplePurchaseRequest, status: 'approved' },
+    onRequestOrdered: samplePurchaseRequest,
+    onRequestReceivedInWarehouse: { ...samplePurchaseRequest, status: 'received-in-warehouse', receivedInWarehouseBy: 'Jorge Vargas', receivedDate: '2025-03-18T14:20:00.000Z', deliveredQuantity: 1200 },
+    onRequestEnteredErp: { ...samplePurchaseRequest, status: 'entered-erp', erpEntryNumber: 'EM-55123' },
+    onRequestCanceled: { ...samplePurchaseRequest, status: 'canceled', lastStatusUpdateNotes: 'Se consiguió el material en otra bodega' },
+    onRequestActionRequested: { ...samplePurchaseRequest, pendingAction: 'unapproval-request', actionNotes: 'La cantidad aprobada es incorrecta', actionRequestedBy: 'Ana Rodríguez' },
+    onErpSyncFailed: {
+        runId: '5f0c7a3e-2b1d-4c8e-9a6f-3d2e1b0a9c8d',
+        importMode: 'sql',
+        failedCount: 2,
+        succeededCount: 18,
+        failures: [
+            { type: 'stock', error: 'Timeout: Request failed to complete in 15000ms' },
+            { type: 'erp_invoice_lines', error: "Invalid object name 'dbo.FACTURA_LINEA'." },
+        ],
+        finishedAt: '2025-03-05T06:00:42.000Z',
+    },
+    onLoginLockout: {
+        email: 'cmendez@empresa.com',
+        scope: 'account',
+        failedCount: 5,
+        lockedUntil: '2025-03-05T09:30:00.000Z',
+        ip: '192.168.1.57',
+        host: 'PC-VENTAS-03',
+    },
+    onSuggestionCreated: {
+        id: 14,
+        content: 'Sería útil poder filtrar las órdenes por máquina en el planificador.',
+        userId: 3,
+        userName: 'María Jiménez',
+        timestamp: '2025-03-05T11:12:00.000Z',
+    },
+};
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Builds the values available to notification templates.
+ * The context is the event payload plus a few common values and, per event, derived fields
+ * that a logic-less template cannot compute itself (links, per-line differences...).
+ * Pure module, shared by the engine and the template editor preview.
+ */
+
+import type { NotificationEventId } from '@/modules/core/types';
+
+/** A placeholder that is not part of the payload, documented in the template editor. */
+export type TemplateVariable = { path: string; label: string };
+
+/** Values available to every template. */
+export const COMMON_TEMPLATE_VARIABLES: TemplateVariable[] = [
+    { path: 'eventName', label: 'Nombre del evento' },
+    { path: 'ruleName', label: 'Nombre de la regla' },
+    { path: 'now', label: 'Fecha y hora del envío (usar con | datetime)' },
+    { path: 'baseUrl', label: 'URL pública del sistema' },
+];
+
+/** Derived values available per event, in addition to the payload fields. */
+const dispatchCheckVariables: TemplateVariable[] = [
+    { path: 'hasDiscrepancy', label: 'Hay diferencias entre lo requerido y lo verificado' },
+    { path: 'items', label: 'Líneas verificadas (usar con #each)' },
+    { path: 'items.difference', label: 'Diferencia de la línea (verificado - requerido)' },
+    { path: 'items.differenceText', label: "Diferencia como texto ('OK', '+2', '-1')" },
+    { path: 'items.hasDifference', label: 'La línea tiene diferencia' },
+];
+const plannerVariables: TemplateVariable[] = [{ path: 'url', label: 'Enlace a la orden' }, { path: 'actor', label: 'Usuario que realizó el cambio' }];
+const requestVariables: TemplateVariable[] = [{ path: 'url', label: 'Enlace a la solicitud' }, { path: 'actor', label: 'Usuario que realizó el cambio' }];
+const actionRequestVariables: TemplateVariable[] = [{ path: 'actionLabel', label: "Acción solicitada como texto ('cancelación', 'desaprobación')" }];
+
+/** Derived values available per event, in addition to the payload fields. */
+export const DERIVED_TEMPLATE_VARIABLES: Partial<Record<NotificationEventId, TemplateVariable[]>> = {
+    onDispatchCompleted: dispatchCheckVariables,
+    onDispatchDiscrepancy: dispatchCheckVariables,
+    onDispatchContainerFinalized: [{ path: 'url', label: 'Enlace al centro de despachos' }],
+    onReceivingCompleted: [{ path: 'url', label: 'Enlace a la búsqueda del producto en el almacén' }],
+    onRackCreated: [{ path: 'url', label: 'Enlace a la gestión de ubicaciones' }],
+    onInventoryUnitCorrected: [{ path: 'url', label: 'Enlace a la búsqueda del producto corregido' }],
+    onPhysicalCountDifference: [
+        { path: 'url', label: 'Enlace a la búsqueda del artículo en el almacén' },
+        { path: 'differenceText', label: "Diferencia como texto ('+2', '-1')" },
+    ],
+    onPlannerOrderCreated: plannerVariables,
+    onPlannerOrderApproved: plannerVariables,
+    onPlannerOrderOnHold: plannerVariables,
+    onPlannerOrderCompleted: plannerVariables,
+    onPlannerOrderCanceled: plannerVariables,
+    onPlannerOrderActionRequested: [...plannerVariables, ...actionRequestVariables],
+    onPlannerOrderOverdue: plannerVariables,
+    onRequestCreated: requestVariables,
+    onRequestApproved: requestVariables,
+    onRequestOrdered: requestVariables,
+    onRequestReceivedInWarehouse: requestVariables,
+    onRequestEnteredErp: requestVariables,
+    onRequestCanceled: requestVariables,
+    onRequestActionRequested: [...requestVariables, ...actionRequestVariables],
+    onErpSyncFailed: [{ path: 'url', label: 'Enlace a la importación de datos' }],
+    onLoginLockout: [
+        { path: 'url', label: 'Enlace a la gestión de usuarios' },
+        { path: 'scopeLabel', label: "Qué se bloqueó ('la cuenta', 'la dirección IP')" },
+    ],
+    onSuggestionCreated: [{ path: 'url', label: 'Enlace al buzón de sugerencias' }],
+};
+
+const formatDifference = (difference: number) => difference === 0 ? 'OK' : difference > 0 ? `+${difference}` : String(difference);
+
+const getActionLabel = (action: string) => action === 'unapproval-request' ? 'desaprobación' : 'cancelación';
+
+/**
+ * Builds the template context of an event.
+ * @param eventId - The event.
+ * @param payload - The event payload.
+ * @param meta - The common values: public URL of the system, rule and event names.
+ * @returns The context for `renderTemplate`.
+ */
+export function buildTemplateContext(
+    eventId: NotificationEventId,
+    payload: any,
+    meta: { baseUrl: string; ruleName: string; eventName: string }
+): Record<string, unknown> {
+    const base = { ...payload, ...meta, now: new Date().toISOString() };
+    const { baseUrl } = meta;
+
+    switch (eventId) {
+        case 'onDispatchCompleted':
+        case 'onDispatchDiscrepancy': {
+            const items = (payload.items || []).map((item: any) => {
+                const difference = item.verifiedQuantity - item.requiredQuantity;
+                return { ...item, difference, hasDifference: difference !== 0, differenceText: formatDifference(difference) };
+            });
+            return { ...base, items, hasDiscrepancy: items.some((item: any) => item.hasDifference) };
+        }
+        case 'onDispatchContainerFinalized':
+            return { ...base, url: `${baseUrl}/dashboard/warehouse/dispatch-center` };
+        case 'onReceivingCompleted':
+            return { ...base, url: `${baseUrl}/dashboard/warehouse/search?q=${encodeURIComponent(payload.productId || '')}` };
+        case 'onRackCreated':
+            return { ...base, url: `${baseUrl}/dashboard/warehouse/locations` };
+        case 'onInventoryUnitCorrected':
+            return { ...base, url: `${baseUrl}/dashboard/warehouse/search?q=${encodeURIComponent(payload.newProductId || '')}` };
+        case 'onPhysicalCountDifference':
+            return { ...base, url: `${baseUrl}/dashboard/warehouse/search?q=${encodeURIComponent(payload.itemId || '')}`, differenceText: formatDifference(payload.difference) };
+        case 'onPlannerOrderCreated':
+        case 'onPlannerOrderApproved':
+        case 'onPlannerOrderOnHold':
+        case 'onPlannerOrderCompleted':
+        case 'onPlannerOrderCanceled':
+        case 'onPlannerOrderOverdue':
+            return { ...base, url: `${baseUrl}/dashboard/planner?search=${payload.consecutive}`, actor: payload.lastStatusUpdateBy || payload.requestedBy };
+        case 'onPlannerOrderActionRequested':
+            return { ...base, url: `${baseUrl}/dashboard/planner?search=${payload.consecutive}`, actor: payload.actionRequestedBy, actionLabel: getActionLabel(payload.pendingAction) };
+        case 'onRequestCreated':
+        case 'onRequestApproved':
+        case 'onRequestOrdered':
+        case 'onRequestReceivedInWarehouse':
+        case 'onRequestEnteredErp':
+        case 'onRequestCanceled':
+            return { ...base, url: `${baseUrl}/dashboard/requests?search=${payload.consecutive}`, actor: payload.lastStatusUpdateBy || payload.requestedBy };
+        case 'onRequestActionRequested':
+            return { ...base, url: `${baseUrl}/dashboard/requests?search=${payload.consecutive}`, actor: payload.actionRequestedBy, actionLabel: getActionLabel(payload.pendingAction) };
+        case 'onErpSyncFailed':
+            return { ...base, url: `${baseUrl}/dashboard/admin/import?syncRun=${payload.runId}` };
+        case 'onLoginLockout':
+            return { ...base, url: `${baseUrl}/dashboard/admin/users`, scopeLabel: payload.scope === 'ip' ? 'la dirección IP' : 'la cuenta' };
+        case 'onSuggestionCreated':
+            return { ...base, url: `${baseUrl}/dashboard/admin/suggestions` };
+        default:
+            return base;
+    }
+}
+
+/**
+ * Bracket placeholders used in rule subjects before templates existed, mapped to the new syntax.
+ */
+export const LEGACY_SUBJECT_PLACEHOLDERS: Record<string, string> = {
+    '[DOCUMENT_ID]': '{{documentId}}',
+    '[PRODUCT_ID]': '{{productId}}',
+    '[RACK_NAME]': '{{rack.name}}',
+    '[CONSECUTIVE]': '{{consecutive}}',
+    '[CLIENT_NAME]': '{{customerName}}',
+    '[ITEM_DESCRIPTION]': '{{itemDescription}}',
+};
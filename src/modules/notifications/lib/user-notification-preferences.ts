@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Per-user notification preferences: the categories users can enable per channel,
+ * the defaults and the time rules of digests and quiet hours.
+ * Pure module, shared by the delivery service, the digest task and the profile page.
+ */
+
+import type { NotificationDeliveryMode, UserNotificationCategory, UserNotificationChannel, UserNotificationPreferences } from '@/modules/core/types';
+
+/** Key under which the preferences are stored in `user_preferences`. */
+export const USER_NOTIFICATION_PREFERENCES_KEY = 'notificationPrefs';
+
+export const USER_NOTIFICATION_CATEGORIES: { id: UserNotificationCategory; label: string; entityTypes: string[] }[] = [
+    { id: 'planner', label: 'Planificador de Producción', entityTypes: ['production-order'] },
+    { id: 'requests', label: 'Solicitudes de Compra', entityTypes: ['purchase-request'] },
+    { id: 'suggestions', label: 'Sugerencias', entityTypes: ['suggestion'] },
+    { id: 'general', label: 'Otras notificaciones', entityTypes: [] },
+];
+
+export const USER_NOTIFICATION_CHANNELS: { id: UserNotificationChannel; label: string }[] = [
+    { id: 'inApp', label: 'Campana' },
+    { id: 'email', label: 'Correo' },
+    { id: 'telegram', label: 'Telegram' },
+];
+
+export const NOTIFICATION_DELIVERY_MODES: { id: NotificationDeliveryMode; label: string }[] = [
+    { id: 'immediate', label: 'Inmediato' },
+    { id: 'hourly', label: 'Resumen cada hora' },
+    { id: 'daily', label: 'Resumen diario' },
+];
+
+/** Only the bell is enabled by default, which is how notifications worked before preferences existed. */
+export const DEFAULT_USER_NOTIFICATION_PREFERENCES: UserNotificationPreferences = {
+    channels: {
+        planner: { inApp: true, email: false, telegram: false },
+        requests: { inApp: true, email: false, telegram: false },
+        suggestions: { inApp: true, email: false, telegram: false },
+        general: { inApp: true, email: false, telegram: false },
+    },
+    mode: 'immediate',
+    digestHour: 7,
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+    telegramChatId: '',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Completes stored preferences with the defaults, so categories or settings added later
+ * keep their default value for users who saved their preferences before.
+ * @param stored - The stored value, or null when the user never saved preferences.
+ */
+export function normalizeUserNotificationPreferences(stored: Partial<UserNotificationPreferences> | null): UserNotificationPreferences {
+    const defaults = DEFAULT_USER_NOTIFICATION_PREFERENCES;
+    const channels = Object.fromEntries(USER_NOTIFICATION_CATEGORIES.map(({ id }) => [
+        id,
+        { ...defaults.channels[id], ...stored?.channels?.[id] },
+    ])) as UserNotificationPreferences['channels'];
+    const quietHours = { ...defaults.quietHours, ...stored?.quietHours };
+    return {
+        channels,
+        mode: NOTIFICATION_DELIVERY_MODES.some(m => m.id === stored?.mode) ? stored!.mode! : defaults.mode,
+        digestHour: Number.isInteger(stored?.digestHour) && stored!.digestHour! >= 0 && stored!.digestHour! <= 23 ? stored!.digestHour! : defaults.digestHour,
+        quietHours: {
+            enabled: !!quietHours.enabled,
+            start: TIME_PATTERN.test(quietHours.start) ? quietHours.start : defaults.quietHours.start,
+            end: TIME_PATTERN.test(quietHours.end) ? quietHours.end : defaults.quietHours.end,
+        },
+        telegramChatId: (stored?.telegramChatId || '').trim(),
+    };
+}
+
+/**
+ * Checks preferences sent by a user before saving them.
+ * @throws {Error} With a Spanish message when a value is invalid.
+ */
+export function validateUserNotificationPreferences(preferences: UserNotificationPreferences): void {
+    if (!NOTIFICATION_DELIVERY_MODES.some(m => m.id === preferences.mode)) {
+        throw new Error('Modo de entrega no válido.');
+    }
+    if (!Number.isInteger(preferences.digestHour) || preferences.digestHour < 0 || preferences.digestHour > 23) {
+        throw new Error('La hora del resumen diario debe estar entre 0 y 23.');
+    }
+    if (preferences.quietHours.enabled && (!TIME_PATTERN.test(preferences.quietHours.start) || !TIME_PATTERN.test(preferences.quietHours.end))) {
+        throw new Error('Las horas de silencio deben tener el formato HH:mm.');
+    }
+    const usesTelegram = USER_NOTIFICATION_CATEGORIES.some(({ id }) => preferences.channels[id]?.telegram);
+    if (usesTelegram && !/^-?\d+$/.test(preferences.telegramChatId.trim())) {
+        throw new Error('Para recibir notificaciones por Telegram vincula primero tu cuenta con el bot.');
+    }
+}
+
+/**
+ * Returns the category of an in-app notification from its entity type.
+ * @param entityType - The entity type of the notification (e.g. 'production-order').
+ */
+export function getUserNotificationCategory(entityType?: string | null): UserNotificationCategory {
+    return USER_NOTIFICATION_CATEGORIES.find(c => entityType && c.entityTypes.includes(entityType))?.id || 'general';
+}
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Checks whether a moment falls within the user's quiet hours (server local time).
+ * A range whose end is earlier than its start crosses midnight (e.g. 22:00 to 07:00).
+ */
+export function isWithinQuietHours(preferences: UserNotificationPreferences, now: Date = new Date()): boolean {
+    const { enabled, start, end } = preferences.quietHours;
+    if (!enabled || start === end) return false;
+    const current = now.getHours() * 60 + now.getMinutes();
+    const startMinutes = toMinutes(start);
+    const endMinutes = toMinutes(end);
+    return startMinutes < endMinutes
+        ? current >= startMinutes && current < endMinutes
+        : current >= startMinutes || current < endMinutes;
+}
+
+/** Tolerance so an hourly task that runs a little earlier than the last time still sends the hourly digest. */
+const HOURLY_DIGEST_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * Checks whether the pending notifications of a user must be sent now.
+ * Notifications held back during the quiet hours of 'immediate' users are due as soon as they end;
+ * hourly digests are due an hour after the previous one and daily digests once a day from `digestHour`.
+ * @param preferences - The user's preferences.
+ * @param lastDigestAt - When the user's previous digest was sent, if ever.
+ * @param now - The current moment.
+ */
+export function isDigestDue(preferences: UserNotificationPreferences, lastDigestAt: string | null, now: Date = new Date()): boolean {
+    if (isWithinQuietHours(preferences, now)) return false;
+    const last = lastDigestAt ? new Date(lastDigestAt) : null;
+    switch (preferences.mode) {
+        case 'immediate':
+            return true;
+        case 'hourly':
+            return !last || now.getTime() - last.getTime() >= 60 * 60 * 1000 - HOURLY_DIGEST_TOLERANCE_MS;
+        case 'daily': {
+            const todaysDigest = new Date(now);
+            todaysDigest.setHours(preferences.digestHour, 0, 0, 0);
+            return now >= todaysDigest && (!last || last < todaysDigest);
+        }
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Delivers the notifications addressed to a user according to their preferences:
+ * the bell in the app, their email and their private Telegram chat, either right away or
+ * grouped in hourly or daily digests. Email and Telegram notifications that fall within the
+ * user's quiet hours wait for the next run of the digest task.
+ * This is not a server action module: the recipient and their addresses are always loaded here,
+ * never taken from the caller.
+ */
+
+import type { Notification, NotificationDigestItem, User, UserNotificationPreferences } from '@/modules/core/types';
+import { getUserPreferences, getPublicUrl } from '@/modules/core/lib/db';
+import { getAllUsers } from '@/modules/core/lib/auth';
+import { sendEmail } from '@/modules/core/lib/email-service';
+import { logError, logInfo } from '@/modules/core/lib/logger';
+import { authorizeAction, runAsSystem } from '@/modules/core/lib/authorization';
+import { createNotification as dbCreateNotification } from './db';
+import {
+    enqueueNotificationDigestItem,
+    getPendingNotificationDigestItems,
+    getPendingNotificationDigestUsers,
+    getTelegramLinkForUser,
+    markNotificationDigestItemsSent,
+} from './server-db';
+import { sendTelegramMessage } from './telegram-service';
+import { escapeHtml } from './template-engine';
+import {
+    USER_NOTIFICATION_CATEGORIES,
+    USER_NOTIFICATION_PREFERENCES_KEY,
+    getUserNotificationCategory,
+    isDigestDue,
+    isWithinQuietHours,
+    normalizeUserNotificationPreferences,
+} from './user-notification-preferences';
+
+type ExternalChannel = NotificationDigestItem['channel'];
+
+/**
+ * Reads the preferences of any user. Notifications are sent on behalf of whoever caused them,
+ * so the read runs as the system rather than as the recipient.
+ */
+async function loadPreferences(userId: number): Promise<UserNotificationPreferences> {
+    const stored = await runAsSystem(() => getUserPreferences(userId, USER_NOTIFICATION_PREFERENCES_KEY));
+    const preferences = normalizeUserNotificationPreferences(stored);
+    // The chat is only trusted while it is the one of the Telegram account linked through the bot.
+    const link = preferences.telegramChatId ? await getTelegramLinkForUser(userId) : null;
+    return link?.telegramUserId === preferences.telegramChatId ? preferences : { ...preferences, telegramChatId: '' };
+}
+
+async function getBaseUrl(): Promise<string> {
+    return (await getPublicUrl())?.publicUrl || '';
+}
+
+const categoryLabel = (category: string) => USER_NOTIFICATION_CATEGORIES.find(c => c.id === category)?.label || category;
+
+async function sendToChannel(channel: ExternalChannel, user: User, preferences: UserNotificationPreferences, subject: string, html: string, telegramText: string): Promise<void> {
+    if (channel === 'email') {
+        await sendEmail({ to: user.email, subject, html });
+    } else {
+        await sendTelegramMessage(telegramText, preferences.telegramChatId);
+    }
+}
+
+/**
+ * Delivers a notification to a user on the channels they enabled for its category.
+ * @param notification - The in-app notification; its `userId` is the recipient and its entity type decides the category.
+ */
+export async function deliverUserNotification(notification: Omit<Notification, 'id' | 'timestamp' | 'isRead'>): Promise<void> {
+    const user = (await runAsSystem(() => getAllUsers())).find(u => u.id === notification.userId);
+    if (!user) return;
+    const preferences = await loadPreferences(user.id);
+    const category = getUserNotificationCategory(notification.entityType);
+    const enabled = preferences.channels[category];
+
+    if (enabled.inApp) {
+        await dbCreateNotification(notification);
+    }
+
+    const channels: ExternalChannel[] = [];
+    if (enabled.email && user.email) channels.push('email');
+    if (enabled.telegram && preferences.telegramChatId) channels.push('telegram');
+    if (channels.length === 0) return;
+
+    const holdForDigest = preferences.mode !== 'immediate' || isWithinQuietHours(preferences);
+    const link = notification.href ? `${await getBaseUrl()}${notification.href}` : '';
+
+    for (const channel of channels) {
+        if (holdForDigest) {
+            await enqueueNotificationDigestItem({ userId: user.id, channel, category, message: notification.message, href: notification.href || null });
+            continue;
+        }
+        try {
+            const message = escapeHtml(notification.message);
+            const html = `<p>${message}</p>${link ? `<p><a href="${escapeHtml(link)}">Ver en el sistema</a></p>` : ''}`;
+            const telegramText = link ? `${message}\n<a href="${escapeHtml(link)}">Ver en el sistema</a>` : message;
+            await sendToChannel(channel, user, preferences, `Notificación: ${categoryLabel(category)}`, html, telegramText);
+        } catch (error: any) {
+            await logError('Failed to send user notification', { error: error.message, userId: user.id, channel });
+        }
+    }
+}
+
+/**
+ * Builds the digest of one channel, grouping the notifications by category.
+ */
+function buildDigest(items: NotificationDigestItem[], baseUrl: string): { html: string; telegramText: string } {
+    const groups = USER_NOTIFICATION_CATEGORIES
+        .map(category => ({ label: category.label, items: items.filter(item => item.category === category.id) }))
+        .filter(group => group.items.length > 0);
+    const linkOf = (item: NotificationDigestItem) => item.href ? escapeHtml(`${baseUrl}${item.href}`) : '';
+
+    const html = groups.map(group => `
+        <h3>${escapeHtml(group.label)} (${group.items.length})</h3>
+        <ul>${group.items.map(item => `<li>${linkOf(item) ? `<a href="${linkOf(item)}">${escapeHtml(item.message)}</a>` : escapeHtml(item.message)}</li>`).join('')}</ul>
+    `).join('');
+    const telegramText = groups.map(group => [
+        `<b>${escapeHtml(group.label)} (${group.items.length})</b>`,
+        ...group.items.map(item => linkOf(item) ? `• <a href="${linkOf(item)}">${escapeHtml(item.message)}</a>` : `• ${escapeHtml(item.message)}`),
+    ].join('\n')).join('\n\n');
+    return { html, telegramText };
+}
+
+/**
+ * Sends the pending email and Telegram notifications of every user whose digest is due.
+ * Registered as a scheduled task; it should run at least every hour.
+ */
+export async function sendNotificationDigests(): Promise<void> {
+    await authorizeAction('sendNotificationDigests', 'admin:notifications:write');
+    const pendingUsers = await getPendingNotificationDigestUsers();
+    if (pendingUsers.length === 0) return;
+
+    const users = await getAllUsers();
+    const baseUrl = await getBaseUrl();
+    let sentDigests = 0;
+
+    for (const { userId, lastDigestAt } of pendingUsers) {
+        const user = users.find(u => u.id === userId);
+        const items = await getPendingNotificationDigestItems(userId);
+        if (!user) {
+            // The user was deleted: nobody is left to read these.
+            await markNotificationDigestItemsSent(items.map(item => item.id));
+            continue;
+        }
+        const preferences = await loadPreferences(userId);
+        if (!isDigestDue(preferences, lastDigestAt)) continue;
+
+        for (const channel of ['email', 'telegram'] as ExternalChannel[]) {
+            const channelItems = items.filter(item => item.channel === channel);
+            if (channelItems.length === 0) continue;
+            const { html, telegramText } = buildDigest(channelItems, baseUrl);
+            const title = `Resumen de notificaciones (${channelItems.length})`;
+            try {
+                await sendToChannel(channel, user, preferences, title, `<h2>${title}</h2>${html}`, `<b>${title}</b>\n\n${telegramText}`);
+                await markNotificationDigestItemsSent(channelItems.map(item => item.id));
+                sentDigests++;
+            } catch (error: any) {
+                // The items stay pending and are retried on the next run.
+                await logError('Failed to send notification digest', { error: error.message, userId, channel });
+            }
+        }
+    }
+
+    if (sentDigests > 0) {
+        await logInfo(`Sent ${sentDigests} notification digest(s).`);
+    }
+}
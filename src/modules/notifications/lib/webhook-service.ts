@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Service for delivering notification events to external systems via HTTP webhooks.
+ * Each delivery is a JSON POST. When the rule has a secret, the receiver can verify the request by
+ * recomputing `HMAC-SHA256(secret, "<timestamp>.<body>")` and comparing it with the
+ * `X-Clic-Signature` header (`sha256=<hex>`); the timestamp is sent in `X-Clic-Timestamp`.
+ * This is deliberately not a server action module, so clients cannot POST to arbitrary URLs through it:
+ * deliveries are only made by the notifications engine and by the webhook test, which requires
+ * `admin:notifications:write`.
+ */
+import crypto from 'crypto';
+import type { WebhookConfig, WebhookDeliveryResult } from '@/modules/core/types';
+import { logError, logInfo, logWarn } from '@/modules/core/lib/logger';
+
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 60000;
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/** Headers set by the service itself, which custom headers cannot override. */
+const RESERVED_HEADERS = ['content-type', 'x-clic-event', 'x-clic-timestamp', 'x-clic-signature', 'x-clic-delivery'];
+
+/**
+ * Signs a webhook body.
+ * @param secret - The shared secret configured in the rule.
+ * @param timestamp - The delivery timestamp (seconds since epoch), part of the signed content to prevent replays.
+ * @param body - The exact JSON body sent.
+ * @returns The signature header value.
+ */
+function signPayload(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * 5xx responses, 408 and 429 are considered transient; other 4xx responses will not succeed on retry.
+ * @param status - The HTTP status code.
+ */
+function isRetryableStatus(status: number): boolean {
+    return status >= 500 || status === 408 || status === 429;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs a JSON payload to a webhook, retrying transient failures with exponential backoff (1s, 2s, 4s...).
+ * @param config - The webhook target, secret, headers, timeout and retry policy.
+ * @param event - The event ID, sent in the `X-Clic-Event` header.
+ * @param payload - The JSON body to send.
+ * @returns The outcome of the delivery; failures are reported in the result rather than thrown.
+ */
+export async function sendWebhook(config: WebhookConfig, event: string, payload: unknown): Promise<WebhookDeliveryResult> {
+    let url: URL;
+    try {
+        url = new URL(config.url);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('protocol');
+    } catch {
+        throw new Error(`La URL del webhook no es válida: ${config.url}`);
+    }
+
+    const timeoutMs = Math.min(Math.max(Number(config.timeoutMs) || 10000, MIN_TIMEOUT_MS), MAX_TIMEOUT_MS);
+    const maxRetries = Math.min(Math.max(Math.floor(Number(config.maxRetries) || 0), 0), MAX_RETRIES);
+    const body = JSON.stringify(payload);
+    const deliveryId = crypto.randomUUID();
+    const customHeaders = Object.fromEntries(
+        Object.entries(config.headers || {}).filter(([name]) => name.trim() && !RESERVED_HEADERS.includes(name.trim().toLowerCase()))
+    );
+
+    const startedAt = Date.now();
+    let lastStatus: number | null = null;
+    let lastError: string | undefined;
+    let responseBody: string | undefined;
+    let attempt = 0;
+
+    while (attempt <= maxRetries) {
+        attempt++;
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const headers: Record<string, string> = {
+            ...customHeaders,
+            'Content-Type': 'application/json',
+            'X-Clic-Event': event,
+            'X-Clic-Timestamp': timestamp,
+            'X-Clic-Delivery': deliveryId,
+        };
+        if (config.secret) {
+            headers['X-Clic-Signature'] = signPayload(config.secret, timestamp, body);
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal, cache: 'no-store' });
+            lastStatus = response.status;
+            responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+            lastError = response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim();
+            if (response.ok || !isRetryableStatus(response.status)) {
+                break;
+            }
+        } catch (error: any) {
+            lastStatus = null;
+            responseBody = undefined;
+            lastError = error.name === 'AbortError' ? `Tiempo de espera agotado (${timeoutMs} ms)` : error.message;
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (attempt <= maxRetries) {
+            const delay = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+            logWarn(`Webhook delivery to ${url.host} failed, retrying in ${delay} ms.`, { event, deliveryId, attempt, error: lastError });
+            await wait(delay);
+        }
+    }
+
+    const result: WebhookDeliveryResult = {
+        ok: lastError === undefined,
+        status: lastStatus,
+        attempts: attempt,
+        durationMs: Date.now() - startedAt,
+        responseBody,
+        error: lastError,
+    };
+
+    if (result.ok) {
+        logInfo(`Webhook delivered to ${url.host}.`, { event, deliveryId, status: lastStatus, attempts: attempt });
+    } else {
+        logError(`Webhook delivery to ${url.host} failed.`, { event, deliveryId, status: lastStatus, attempts: attempt, error: lastError });
+    }
+    return result;
+}
@@ -6,13 +6,48 @@
 import { connectDb, getAllRoles as getAllRolesFromMain } from '../../core/lib/db';
 import { getAllUsers as getAllUsersFromMain } from '../../core/lib/auth';
 import type { ProductionOrder, PlannerSettings, UpdateStatusPayload, UpdateOrderDetailsPayload, ProductionOrderHistoryEntry, RejectCancellationPayload, ProductionOrderStatus, UpdateProductionOrderPayload, CustomStatus, DateRange, PlannerNotePayload, AdministrativeActionPayload, User, PlannerShift } from '../../core/types';
-import { format, parseISO } from 'date-fns';
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { logError } from '../../core/lib/logger';
+import { logError, logInfo } from '../../core/lib/logger';
 import { getAllProducts } from '@/modules/core/lib/db';
+import { authorizeAction, getActorName } from '@/modules/core/lib/authorization';
+import { resolveEffectivePermissions } from '@/modules/core/lib/permissions';
+import { recordAuditEvent } from '@/modules/core/lib/audit';
+import { getScopedCustomerIds, buildScopeCondition } from '@/modules/core/lib/data-scopes';
+import { triggerNotificationEvent } from '@/modules/notifications/lib/notifications-engine';
+import { claimNotificationEventKey } from '@/modules/notifications/lib/db';
+import { notifyStatusSlaEscalation } from '@/modules/notifications/lib/sla-escalation-service';
+import { PLANNER_SLA_STATUSES, STATUS_SLA_ESCALATION_LEVELS, DEFAULT_STATUS_SLA_SETTINGS, normalizeStatusSlaSettings, validateStatusSlaSettings, getStatusSlaState, formatSlaHours } from '@/modules/core/lib/status-sla';
 
 const PLANNER_DB_FILE = 'planner.db';
 
+// Notification event raised when an order enters each status. Other statuses raise none.
+const STATUS_NOTIFICATION_EVENTS: Partial<Record<ProductionOrderStatus, 'onPlannerOrderApproved' | 'onPlannerOrderOnHold' | 'onPlannerOrderCompleted' | 'onPlannerOrderCanceled'>> = {
+    'approved': 'onPlannerOrderApproved',
+    'on-hold': 'onPlannerOrderOnHold',
+    'completed': 'onPlannerOrderCompleted',
+    'canceled': 'onPlannerOrderCanceled',
+};
+
+// Permissions that allow moving an order into each status. Holding any one of them is enough.
+const STATUS_PERMISSIONS: Record<ProductionOrderStatus, string[]> = {
+    'pending': ['planner:status:review', 'planner:status:unapprove-request:approve'],
+    'pending-review': ['planner:status:review', 'planner:status:pending-approval'],
+    'pending-approval': ['planner:status:pending-approval'],
+    'approved': ['planner:status:approve'],
+    'in-queue': ['planner:status:in-progress'],
+    'in-progress': ['planner:status:in-progress'],
+    'on-hold': ['planner:status:on-hold'],
+    'in-maintenance': ['planner:status:on-hold'],
+    'completed': ['planner:status:completed'],
+    'received-in-warehouse': ['planner:receive'],
+    'canceled': ['planner:status:cancel', 'planner:status:unapprove-request:approve'],
+    'custom-1': ['planner:status:in-progress'],
+    'custom-2': ['planner:status:in-progress'],
+    'custom-3': ['planner:status:in-progress'],
+    'custom-4': ['planner:status:in-progress'],
+};
+
 export async function initializePlannerDb(db: import('better-sqlite3').Database) {
     const schema = `
         CREATE TABLE IF NOT EXISTS planner_settings (
@@ -54,7 +89,9 @@ export async function initializePlannerDb(db: import('better-sqlite3').Database)
             machineId TEXT,
             shiftId TEXT,
             previousStatus TEXT,
-            erpOrderNumber TEXT
+            erpOrderNumber TEXT,
+            statusChangedAt TEXT,
+            slaEscalationLevel INTEGER DEFAULT 0
         );
          CREATE TABLE IF NOT EXISTS production_order_history (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -98,6 +135,7 @@ export async function initializePlannerDb(db: import('better-sqlite3').Database)
     db.prepare(`INSERT OR IGNORE INTO planner_settings (key, value) VALUES ('pdfExportColumns', ?)`).run(JSON.stringify(defaultPdfColumns));
     db.prepare(`INSERT OR IGNORE INTO planner_settings (key, value) VALUES ('pdfTopLegend', '')`).run();
     db.prepare(`INSERT OR IGNORE INTO planner_settings (key, value) VALUES ('fieldsToTrackChanges', '[]')`).run();
+    db.prepare(`INSERT OR IGNORE INTO planner_settings (key, value) VALUES ('statusSla', ?)`).run(JSON.stringify(DEFAULT_STATUS_SLA_SETTINGS));
     
     console.log(`Database ${PLANNER_DB_FILE} initialized for Production Planner.`);
 }
@@ -121,6 +159,20 @@ export async function runPlannerMigrations(db: import('better-sqlite3').Database
         if (!plannerColumns.has('customerTaxId')) db.exec(`ALTER TABLE production_orders ADD COLUMN customerTaxId TEXT`);
         if (!plannerColumns.has('shiftId')) db.exec(`ALTER TABLE production_orders ADD COLUMN shiftId TEXT`);
         if (!plannerColumns.has('erpOrderNumber')) db.exec(`ALTER TABLE production_orders ADD COLUMN erpOrderNumber TEXT`);
+        if (!plannerColumns.has('slaEscalationLevel')) db.exec(`ALTER TABLE production_orders ADD COLUMN slaEscalationLevel INTEGER DEFAULT 0`);
+        if (!plannerColumns.has('statusChangedAt')) {
+            console.log("MIGRATION (planner.db): Adding statusChangedAt to production_orders.");
+            db.exec(`ALTER TABLE production_orders ADD COLUMN statusChangedAt TEXT`);
+            // The order entered its status with the first history entry after the last one in another status.
+            db.exec(`
+                UPDATE production_orders SET statusChangedAt = COALESCE(
+                    (SELECT MIN(h.timestamp) FROM production_order_history h
+                     WHERE h.orderId = production_orders.id AND h.status = production_orders.status
+                       AND h.timestamp > COALESCE((SELECT MAX(o.timestamp) FROM production_order_history o
+                                                   WHERE o.orderId = production_orders.id AND o.status != production_orders.status), '')),
+                    requestDate)
+            `);
+        }
         
 
         const historyTable = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='production_order_history'`).get();
@@ -206,6 +258,10 @@ export async function runPlannerMigrations(db: import('better-sqlite3').Database
                 console.log("MIGRATION (planner.db): Adding shiftLabel to settings.");
                 db.prepare(`INSERT INTO planner_settings (key, value) VALUES ('shiftLabel', 'Turno')`).run();
             }
+            if (!db.prepare(`SELECT key FROM planner_settings WHERE key = 'statusSla'`).get()) {
+                console.log("MIGRATION (planner.db): Adding statusSla to settings.");
+                db.prepare(`INSERT INTO planner_settings (key, value) VALUES ('statusSla', ?)`).run(JSON.stringify(DEFAULT_STATUS_SLA_SETTINGS));
+            }
         }
     } catch (error) {
         console.error("Error during planner migrations:", error);
@@ -234,6 +290,7 @@ export async function getPlannerSettings(): Promise<PlannerSettings> {
         pdfExportColumns: [],
         pdfTopLegend: '',
         fieldsToTrackChanges: [],
+        statusSla: normalizeStatusSlaSettings<ProductionOrderStatus>(undefined),
     };
 
     for (const row of settingsRows) {
@@ -253,15 +310,21 @@ export async function getPlannerSettings(): Promise<PlannerSettings> {
         else if (row.key === 'pdfExportColumns') settings.pdfExportColumns = JSON.parse(row.value);
         else if (row.key === 'pdfTopLegend') settings.pdfTopLegend = row.value;
         else if (row.key === 'fieldsToTrackChanges') settings.fieldsToTrackChanges = JSON.parse(row.value);
+        else if (row.key === 'statusSla') settings.statusSla = normalizeStatusSlaSettings(JSON.parse(row.value));
     }
     return settings;
 }
 
 export async function saveSettings(settings: PlannerSettings): Promise<void> {
+    const actor = await authorizeAction('saveSettings', 'admin:settings:planner');
+    if (settings.statusSla) {
+        validateStatusSlaSettings(settings.statusSla);
+    }
     const db = await connectDb(PLANNER_DB_FILE);
+    const before = await getPlannerSettings();
     
     const transaction = db.transaction((settingsToUpdate) => {
-        const keys: (keyof PlannerSettings)[] = ['orderPrefix', 'nextOrderNumber', 'useWarehouseReception', 'showCustomerTaxId', 'machines', 'shifts', 'requireMachineForStart', 'requireShiftForCompletion', 'assignmentLabel', 'shiftLabel', 'customStatuses', 'pdfPaperSize', 'pdfOrientation', 'pdfExportColumns', 'pdfTopLegend', 'fieldsToTrackChanges'];
+        const keys: (keyof PlannerSettings)[] = ['orderPrefix', 'nextOrderNumber', 'useWarehouseReception', 'showCustomerTaxId', 'machines', 'shifts', 'requireMachineForStart', 'requireShiftForCompletion', 'assignmentLabel', 'shiftLabel', 'customStatuses', 'pdfPaperSize', 'pdfOrientation', 'pdfExportColumns', 'pdfTopLegend', 'fieldsToTrackChanges', 'statusSla'];
         for (const key of keys) {
             if (settingsToUpdate[key] !== undefined) {
                 const value = typeof settingsToUpdate[key] === 'object' ? JSON.stringify(settingsToUpdate[key]) : String(settingsToUpdate[key]);
@@ -271,6 +334,7 @@ export async function saveSettings(settings: PlannerSettings): Promise<void> {
     });
 
     transaction(settings);
+    await recordAuditEvent(actor, { entityType: 'planner_settings', entityId: 'planner', before, after: await getPlannerSettings() });
 }
 
 
@@ -286,6 +350,7 @@ export async function getOrders(options: {
         dateRange?: DateRange;
     };
 }): Promise<{ activeOrders: ProductionOrder[]; archivedOrders: ProductionOrder[]; totalActiveCount: number; totalArchivedCount: number; }> {
+    const actor = await authorizeAction('getOrders', 'planner:read');
     const db = await connectDb(PLANNER_DB_FILE);
     const { page, pageSize, isArchived, filters } = options;
 
@@ -293,6 +358,9 @@ export async function getOrders(options: {
     const finalStatus = settings.useWarehouseReception ? 'received-in-warehouse' : 'completed';
     const archivedStatuses = [`'${finalStatus}'`, `'canceled'`];
 
+    // Row-level scope: sellers restricted to their own customers only see those customers' records.
+    const scopedCustomerIds = await getScopedCustomerIds(actor);
+
     const buildQueryParts = async (isArchivedQuery: boolean) => {
         let whereClauses: string[] = [];
         let queryParams: any[] = [];
@@ -341,6 +409,12 @@ export async function getOrders(options: {
             }
         }
 
+        if (scopedCustomerIds) {
+            const scope = buildScopeCondition('po.customerId', scopedCustomerIds);
+            whereClauses.push(scope.clause);
+            queryParams.push(...scope.params);
+        }
+
         return { whereClause: whereClauses.join(' AND '), params: queryParams };
     };
 
@@ -367,6 +441,7 @@ export async function getOrders(options: {
 
 
 export async function addOrder(order: Omit<ProductionOrder, 'id' | 'consecutive' | 'requestDate' | 'status' | 'reopened' | 'erpPackageNumber' | 'erpTicketNumber' | 'machineId' | 'previousStatus' | 'scheduledStartDate' | 'scheduledEndDate' | 'requestedBy' | 'hasBeenModified' | 'lastModifiedBy' | 'lastModifiedAt' | 'shiftId'>, requestedBy: string): Promise<ProductionOrder> {
+    const actor = await authorizeAction('addOrder', 'planner:create');
     const db = await connectDb(PLANNER_DB_FILE);
     
     const settings = await getPlannerSettings();
@@ -398,11 +473,11 @@ export async function addOrder(order: Omit<ProductionOrder, 'id' | 'consecutive'
                 INSERT INTO production_orders (
                     consecutive, requestDate, deliveryDate, customerId, customerName, customerTaxId,
                     productId, productDescription, quantity, priority, status, pendingAction, notes,
-                    requestedBy, inventory, inventoryErp, purchaseOrder
+                    requestedBy, inventory, inventoryErp, purchaseOrder, statusChangedAt
                 ) VALUES (
                     @consecutive, @requestDate, @deliveryDate, @customerId, @customerName, @customerTaxId,
                     @productId, @productDescription, @quantity, @priority, @status, @pendingAction, @notes,
-                    @requestedBy, @inventory, @inventoryErp, @purchaseOrder
+                    @requestedBy, @inventory, @inventoryErp, @purchaseOrder, @requestDate
                 )
             `);
             
@@ -412,13 +487,14 @@ export async function addOrder(order: Omit<ProductionOrder, 'id' | 'consecutive'
             db.prepare(`UPDATE planner_settings SET value = ? WHERE key = 'nextOrderNumber'`).run(nextNumber + 1);
             
             const historyStmt = db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-            historyStmt.run(newOrderId, new Date().toISOString(), 'pending', newOrder.requestedBy, 'Orden creada');
+            historyStmt.run(newOrderId, new Date().toISOString(), 'pending', getActorName(actor, newOrder.requestedBy), 'Orden creada');
             
             return newOrderId;
         });
 
         const newId = transaction();
         const createdOrder = db.prepare('SELECT * FROM production_orders WHERE id = ?').get(newId) as ProductionOrder;
+        triggerNotificationEvent('onPlannerOrderCreated', createdOrder).catch(e => console.error("Failed to trigger order creation notification:", e));
         return createdOrder;
     } catch (error: any) {
         logError("Failed to create order in DB", { context: 'addOrder DB transaction', error: error.message, details: preparedOrder });
@@ -427,6 +503,7 @@ export async function addOrder(order: Omit<ProductionOrder, 'id' | 'consecutive'
 }
 
 export async function updateOrder(payload: UpdateProductionOrderPayload): Promise<ProductionOrder> {
+    const actor = await authorizeAction('updateOrder', ['planner:edit:pending', 'planner:edit:approved']);
     const db = await connectDb(PLANNER_DB_FILE);
     const { orderId, updatedBy, ...dataToUpdate } = payload;
     
@@ -467,7 +544,7 @@ export async function updateOrder(payload: UpdateProductionOrderPayload): Promis
 
         if (hasBeenModified) {
             const historyStmt = db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-            historyStmt.run(orderId, new Date().toISOString(), currentOrder.status, updatedBy, 'Orden editada después de aprobación.');
+            historyStmt.run(orderId, new Date().toISOString(), currentOrder.status, getActorName(actor, updatedBy), 'Orden editada después de aprobación.');
         }
     });
 
@@ -477,6 +554,7 @@ export async function updateOrder(payload: UpdateProductionOrderPayload): Promis
 }
 
 export async function confirmModification(orderId: number, updatedBy: string): Promise<ProductionOrder> {
+    const actor = await authorizeAction('confirmModification', ['planner:status:approve', 'planner:status:unapprove-request:approve']);
     const db = await connectDb(PLANNER_DB_FILE);
     
     const currentOrder = db.prepare('SELECT * FROM production_orders WHERE id = ?').get(orderId) as ProductionOrder | undefined;
@@ -486,7 +564,7 @@ export async function confirmModification(orderId: number, updatedBy: string): P
         db.prepare('UPDATE production_orders SET hasBeenModified = 0, lastModifiedBy = ?, lastModifiedAt = ? WHERE id = ?').run(updatedBy, new Date().toISOString(), orderId);
         
         const historyStmt = db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-        historyStmt.run(orderId, new Date().toISOString(), currentOrder.status, updatedBy, 'Modificación confirmada y alerta eliminada.');
+        historyStmt.run(orderId, new Date().toISOString(), currentOrder.status, getActorName(actor, updatedBy), 'Modificación confirmada y alerta eliminada.');
     });
 
     transaction();
@@ -494,6 +572,7 @@ export async function confirmModification(orderId: number, updatedBy: string): P
 }
 
 export async function updateStatus(payload: UpdateStatusPayload): Promise<ProductionOrder> {
+    const actor = await authorizeAction('updateStatus', payload.reopen ? 'planner:reopen' : STATUS_PERMISSIONS[payload.status]);
     const db = await connectDb(PLANNER_DB_FILE);
     const { orderId, status, notes, updatedBy, reopen, deliveredQuantity, defectiveQuantity, erpPackageNumber, erpTicketNumber } = payload;
 
@@ -526,7 +605,9 @@ export async function updateStatus(payload: UpdateStatusPayload): Promise<Produc
                 erpTicketNumber = @erpTicketNumber,
                 previousStatus = @previousStatus,
                 pendingAction = 'none',
-                hasBeenModified = CASE WHEN @reopened = 1 THEN 0 ELSE hasBeenModified END
+                hasBeenModified = CASE WHEN @reopened = 1 THEN 0 ELSE hasBeenModified END,
+                statusChangedAt = CASE WHEN status != @status THEN @now ELSE statusChangedAt END,
+                slaEscalationLevel = CASE WHEN status != @status THEN 0 ELSE slaEscalationLevel END
             WHERE id = @orderId
         `);
         
@@ -544,19 +625,25 @@ export async function updateStatus(payload: UpdateStatusPayload): Promise<Produc
             erpPackageNumber: erpPackageNumber !== undefined ? erpPackageNumber : currentOrder.erpPackageNumber,
             erpTicketNumber: erpTicketNumber !== undefined ? erpTicketNumber : currentOrder.erpTicketNumber,
             previousStatus,
+            now: new Date().toISOString(),
         });
         
         const historyStmt = db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-        historyStmt.run(orderId, new Date().toISOString(), status, updatedBy, notes);
+        historyStmt.run(orderId, new Date().toISOString(), status, getActorName(actor, updatedBy), notes);
     });
 
     transaction();
     const updatedOrder = db.prepare('SELECT * FROM production_orders WHERE id = ?').get(orderId) as ProductionOrder;
+    const notificationEvent = STATUS_NOTIFICATION_EVENTS[status];
+    if (notificationEvent && status !== currentOrder.status) {
+        triggerNotificationEvent(notificationEvent, updatedOrder).catch(e => console.error("Failed to trigger order status notification:", e));
+    }
     return updatedOrder;
 }
 
 
 export async function updateDetails(payload: UpdateOrderDetailsPayload): Promise<ProductionOrder> {
+    await authorizeAction('updateDetails', ['planner:priority:update', 'planner:machine:assign', 'planner:schedule']);
     const db = await connectDb(PLANNER_DB_FILE);
     const { orderId, updatedBy, priority, machineId, scheduledDateRange, shiftId } = payload;
     
@@ -585,11 +672,13 @@ export async function updateDetails(payload: UpdateOrderDetailsPayload): Promise
 }
 
 export async function getOrderHistory(orderId: number): Promise<ProductionOrderHistoryEntry[]> {
+    await authorizeAction('getOrderHistory', 'planner:read');
     const db = await connectDb(PLANNER_DB_FILE);
     return db.prepare('SELECT * FROM production_order_history WHERE orderId = ? ORDER BY timestamp DESC').all(orderId) as ProductionOrderHistoryEntry[];
 }
 
 export async function addNote(payload: PlannerNotePayload): Promise<ProductionOrder> {
+    const actor = await authorizeAction('addNote', 'planner:read');
     const db = await connectDb(PLANNER_DB_FILE);
     const { orderId, notes, updatedBy } = payload;
     const currentOrder = db.prepare('SELECT status FROM production_orders WHERE id = ?').get(orderId) as { status: ProductionOrderStatus };
@@ -597,12 +686,15 @@ export async function addNote(payload: PlannerNotePayload): Promise<ProductionOr
     if (!currentOrder) throw new Error("Order not found");
 
     db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)')
-      .run(orderId, new Date().toISOString(), currentOrder.status, updatedBy, `Nota agregada: ${notes}`);
+      .run(orderId, new Date().toISOString(), currentOrder.status, getActorName(actor, updatedBy), `Nota agregada: ${notes}`);
 
     return db.prepare('SELECT * FROM production_orders WHERE id = ?').get(orderId) as ProductionOrder;
 }
 
 export async function updatePendingAction(payload: AdministrativeActionPayload): Promise<ProductionOrder> {
+    const actor = await authorizeAction('updatePendingAction', payload.action === 'none'
+        ? 'planner:status:unapprove-request:approve'
+        : ['planner:status:unapprove-request', 'planner:status:cancel-approved']);
     const db = await connectDb(PLANNER_DB_FILE);
     const { entityId, action, notes, updatedBy } = payload;
 
@@ -621,14 +713,97 @@ export async function updatePendingAction(payload: AdministrativeActionPayload):
         const historyNote = action === 'none' 
             ? 'Acción administrativa rechazada/cancelada' 
             : `Solicitud de ${action === 'unapproval-request' ? 'desaprobación' : 'cancelación'} iniciada`;
-        historyStmt.run(entityId, new Date().toISOString(), currentOrder.status, updatedBy, `${historyNote}: ${notes}`);
+        historyStmt.run(entityId, new Date().toISOString(), currentOrder.status, getActorName(actor, updatedBy), `${historyNote}: ${notes}`);
     });
     
     transaction();
     const updatedOrder = db.prepare('SELECT * FROM production_orders WHERE id = ?').get(entityId) as ProductionOrder;
+    if (action !== 'none') {
+        triggerNotificationEvent('onPlannerOrderActionRequested', { ...updatedOrder, pendingAction: action, actionNotes: notes, actionRequestedBy: getActorName(actor, updatedBy) })
+            .catch(e => console.error("Failed to trigger order action request notification:", e));
+    }
     return updatedOrder;
 }
 
+/**
+ * Raises `onPlannerOrderOverdue` for every open order whose delivery date has passed.
+ * Each order is notified once per delivery date, so rescheduling it re-arms the notification.
+ * Run by the 'check-overdue-orders' scheduled task.
+ * @returns The number of orders notified.
+ */
+export async function notifyOverdueOrders(): Promise<number> {
+    await authorizeAction('notifyOverdueOrders', 'admin:notifications:write');
+    const db = await connectDb(PLANNER_DB_FILE);
+    const overdueOrders = db.prepare(`
+        SELECT * FROM production_orders
+        WHERE deliveryDate IS NOT NULL AND deliveryDate != ''
+          AND date(deliveryDate) < date('now', 'localtime')
+          AND status NOT IN ('completed', 'received-in-warehouse', 'canceled')
+    `).all() as ProductionOrder[];
+
+    let notified = 0;
+    for (const order of overdueOrders) {
+        if (!(await claimNotificationEventKey('onPlannerOrderOverdue', `${order.id}:${order.deliveryDate}`))) {
+            continue;
+        }
+        await triggerNotificationEvent('onPlannerOrderOverdue', { ...order, daysOverdue: differenceInCalendarDays(new Date(), parseISO(order.deliveryDate)) });
+        notified++;
+    }
+    return notified;
+}
+
+/**
+ * Escalates the open orders that stayed in a status longer than its SLA, one step of the
+ * chain at a time: the requester, then the users who can move the order forward, then the
+ * administrators. Each step is recorded in the order history and is not repeated until the
+ * order changes status.
+ * Run by the 'check-status-slas' scheduled task.
+ * @returns The number of escalation steps sent.
+ */
+export async function escalateOverdueOrders(): Promise<number> {
+    const actor = await authorizeAction('escalateOverdueOrders', 'admin:notifications:write');
+    const db = await connectDb(PLANNER_DB_FILE);
+    const { statusSla } = await getPlannerSettings();
+    const slaStatuses = PLANNER_SLA_STATUSES.filter(definition => statusSla.hoursByStatus[definition.status]);
+    if (!statusSla.enabled || slaStatuses.length === 0) return 0;
+
+    const candidates = db.prepare(`SELECT * FROM production_orders WHERE status IN (${slaStatuses.map(() => '?').join(',')})`)
+        .all(...slaStatuses.map(definition => definition.status)) as ProductionOrder[];
+
+    let escalations = 0;
+    for (const order of candidates) {
+        const state = getStatusSlaState(statusSla, order.status, order.statusChangedAt);
+        if (!state || state.dueLevel <= (order.slaEscalationLevel || 0)) continue;
+
+        // One step per run, so no step is skipped when several became due since the last run.
+        const level = (order.slaEscalationLevel || 0) + 1;
+        const definition = slaStatuses.find(d => d.status === order.status)!;
+        const step = STATUS_SLA_ESCALATION_LEVELS[level - 1];
+        const summary = `lleva ${formatSlaHours(state.elapsedHours)} en "${definition.label}" (SLA: ${formatSlaHours(state.limitHours)})`;
+        const notified = await notifyStatusSlaEscalation({
+            level: step.id,
+            ownerName: order.requestedBy,
+            approverPermission: definition.approverPermission,
+            message: `La orden ${order.consecutive} ${summary}.`,
+            href: `/dashboard/planner?search=${order.consecutive}`,
+            entityId: order.id,
+            entityType: 'production-order',
+            entityStatus: order.status,
+        });
+
+        db.transaction(() => {
+            db.prepare('UPDATE production_orders SET slaEscalationLevel = ? WHERE id = ?').run(level, order.id);
+            db.prepare('INSERT INTO production_order_history (orderId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)')
+                .run(order.id, new Date().toISOString(), order.status, getActorName(actor), `SLA vencido: ${summary}. Escalado a ${step.label}: ${notified.join(', ') || 'nadie'}.`);
+        })();
+        escalations++;
+    }
+    if (escalations > 0) {
+        await logInfo(`Escalated ${escalations} production order(s) that exceeded their status SLA.`);
+    }
+    return escalations;
+}
+
 export async function getUserByName(name: string): Promise<User | null> {
     const users = await getAllUsersFromMain();
     return users.find(u => u.name === name) || null;
@@ -636,10 +811,11 @@ export async function getUserByName(name: string): Promise<User | null> {
 
 export async function getRolesWithPermission(permission: string): Promise<string[]> {
     const roles = await getAllRolesFromMain();
-    return roles.filter(role => role.id === 'admin' || role.permissions.includes(permission)).map(role => role.id);
+    return roles.filter(role => role.id === 'admin' || resolveEffectivePermissions(role.id, roles).some(p => p.permission === permission)).map(role => role.id);
 }
 
 export async function getCompletedOrdersByDateRange(dateRange: DateRange): Promise<(ProductionOrder & { history: ProductionOrderHistoryEntry[] })[]> {
+    await authorizeAction('getCompletedOrdersByDateRange', ['planner:read', 'analytics:production-report:read']);
     const db = await connectDb(PLANNER_DB_FILE);
     if (!dateRange.from) {
         throw new Error("Date 'from' is required.");
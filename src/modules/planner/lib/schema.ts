@@ -13,7 +13,8 @@ export const plannerSchema: ExpectedSchema = {
         'quantity', 'inventory', 'inventoryErp', 'priority', 'status', 'pendingAction', 'notes',
         'requestedBy', 'approvedBy', 'lastStatusUpdateBy', 'lastStatusUpdateNotes', 'lastModifiedBy',
         'lastModifiedAt', 'hasBeenModified', 'deliveredQuantity', 'defectiveQuantity', 'erpPackageNumber',
-        'erpTicketNumber', 'reopened', 'machineId', 'shiftId', 'previousStatus', 'erpOrderNumber'
+        'erpTicketNumber', 'reopened', 'machineId', 'shiftId', 'previousStatus', 'erpOrderNumber',
+        'statusChangedAt', 'slaEscalationLevel'
     ],
     'production_order_history': ['id', 'orderId', 'timestamp', 'status', 'notes', 'updatedBy'],
 };
@@ -21,13 +21,9 @@ import {
     updateRequestDetails as updateRequestDetailsServer,
     saveCostAnalysis as saveCostAnalysisServer,
     getUserByName as getUserByNameServer,
+    getPurchaseSuggestions as getPurchaseSuggestionsServer,
 } from './db';
 import {
-    getAllProducts, 
-    getAllStock, 
-    getAllCustomers,
-    getAllErpPurchaseOrderHeaders,
-    getAllErpPurchaseOrderLines,
     saveUserPreferences as saveUserPreferencesServer,
     getUserPreferences as getUserPreferencesServer,
 } from '@/modules/core/lib/db';
@@ -202,95 +198,7 @@ export async function getErpOrderData(identifier: string | DateRange): Promise<{
  * @returns A promise that resolves to an array of purchase suggestions.
  */
 export async function getRequestSuggestions(dateRange: DateRange): Promise<PurchaseSuggestion[]> {
-    const { headers, lines } = await getErpOrderDataServer(dateRange);
-    const [allStock, allProducts, allCustomers, erpPoHeaders, erpPoLines] = await Promise.all([
-        getAllStock(),
-        getAllProducts(),
-        getAllCustomers(),
-        getAllErpPurchaseOrderHeaders(),
-        getAllErpPurchaseOrderLines(),
-    ]);
-    const allActiveRequests = await getRequests({ page: 0, pageSize: 99999, isArchived: false, filters: {} }).then(res => res.requests.filter(r => ['pending', 'approved', 'ordered', 'purchasing-review', 'pending-approval'].includes(r.status)));
-
-    const activePoNumbers = new Set(erpPoHeaders.filter((h: any) => h.ESTADO === 'A').map((h: any) => h.ORDEN_COMPRA));
-
-    const requiredItems = new Map<string, { totalRequired: number; sourceOrders: Set<string>; clientIds: Set<string>; erpUsers: Set<string>; earliestCreationDate: Date | null, earliestDueDate: Date | null; }>();
-
-    for (const line of lines) {
-        const header = headers.find(h => h.PEDIDO === line.PEDIDO);
-        if (!header) continue;
-
-        if (!requiredItems.has(line.ARTICULO)) {
-            requiredItems.set(line.ARTICULO, { totalRequired: 0, sourceOrders: new Set(), clientIds: new Set(), erpUsers: new Set(), earliestCreationDate: null, earliestDueDate: null });
-        }
-        
-        const item = requiredItems.get(line.ARTICULO)!;
-        item.totalRequired += line.CANTIDAD_PEDIDA;
-        item.sourceOrders.add(header.PEDIDO);
-        item.clientIds.add(header.CLIENTE);
-        if (header.USUARIO) {
-            item.erpUsers.add(header.USUARIO);
-        }
-        
-        const creationDate = new Date(header.FECHA_PEDIDO);
-        if (!item.earliestCreationDate || creationDate < item.earliestCreationDate) {
-            item.earliestCreationDate = creationDate;
-        }
-
-        const dueDate = new Date(header.FECHA_PROMETIDA);
-        if (!item.earliestDueDate || dueDate < item.earliestDueDate) {
-            item.earliestDueDate = dueDate;
-        }
-    }
-
-    const suggestions: PurchaseSuggestion[] = [];
-
-    for (const [itemId, data] of requiredItems.entries()) {
-        const stockInfo: StockInfo | undefined = allStock.find((s: StockInfo) => s.itemId === itemId);
-        const currentStock = stockInfo?.totalStock ?? 0;
-        
-        const inTransitStock = erpPoLines
-            .filter((line: any) => line.ARTICULO === itemId && activePoNumbers.has(line.ORDEN_COMPRA))
-            .reduce((sum: any, line: any) => sum + line.CANTIDAD_ORDENADA, 0);
-
-        const existingActiveRequests = allActiveRequests.filter(r => r.itemId === itemId);
-        
-        const shortage = data.totalRequired - currentStock - inTransitStock;
-
-        if (shortage > 0) {
-            const productInfo = allProducts.find((p: any) => p.id === itemId);
-            const involvedClients = Array.from(data.clientIds).map(id => {
-                const customer = allCustomers.find((c: any) => c.id === id);
-                return { id, name: customer?.name || 'Desconocido' };
-            });
-            
-            suggestions.push({
-                itemId,
-                itemDescription: productInfo?.description || 'Artículo no encontrado',
-                itemClassification: productInfo?.classification || 'N/A',
-                totalRequired: data.totalRequired,
-                currentStock,
-                inTransitStock,
-                shortage,
-                sourceOrders: Array.from(data.sourceOrders),
-                involvedClients,
-                erpUsers: Array.from(data.erpUsers),
-                earliestCreationDate: data.earliestCreationDate ? data.earliestCreationDate.toISOString() : null,
-                earliestDueDate: data.earliestDueDate ? data.earliestDueDate.toISOString() : null,
-                existingActiveRequests: existingActiveRequests.map(r => ({
-                    id: r.id,
-                    consecutive: r.consecutive,
-                    status: r.status,
-                    quantity: r.quantity,
-                    purchaseOrder: r.purchaseOrder,
-                    erpOrderNumber: r.erpOrderNumber,
-                    requestedBy: r.requestedBy,
-                })),
-            });
-        }
-    }
-
-    return suggestions;
+    return getPurchaseSuggestionsServer(dateRange);
 }
 
 
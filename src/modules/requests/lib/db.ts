@@ -10,10 +10,40 @@ import type { PurchaseRequest, RequestSettings, UpdateRequestStatusPayload, Purc
 import { format, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { executeQuery } from '@/modules/core/lib/sql-service';
-import { getAllProducts, getAllStock, getAllCustomers } from '@/modules/core/lib/db';
+import { getAllProducts, getAllStock, getAllCustomers, getAllErpPurchaseOrderHeaders, getAllErpPurchaseOrderLines } from '@/modules/core/lib/db';
+import { authorizeAction, getActorName } from '@/modules/core/lib/authorization';
+import { resolveEffectivePermissions } from '@/modules/core/lib/permissions';
+import { recordAuditEvent } from '@/modules/core/lib/audit';
+import { getScopedCustomerIds, buildScopeCondition } from '@/modules/core/lib/data-scopes';
+import { triggerNotificationEvent } from '@/modules/notifications/lib/notifications-engine';
+import { notifyStatusSlaEscalation } from '@/modules/notifications/lib/sla-escalation-service';
+import { REQUEST_SLA_STATUSES, STATUS_SLA_ESCALATION_LEVELS, DEFAULT_STATUS_SLA_SETTINGS, normalizeStatusSlaSettings, validateStatusSlaSettings, getStatusSlaState, formatSlaHours } from '@/modules/core/lib/status-sla';
 
 const REQUESTS_DB_FILE = 'requests.db';
 
+const REQUEST_EDIT_PERMISSIONS = ['requests:edit:pending', 'requests:edit:approved'];
+
+// Notification event raised when a request enters each status. Other statuses raise none.
+const STATUS_NOTIFICATION_EVENTS: Partial<Record<PurchaseRequestStatus, 'onRequestApproved' | 'onRequestOrdered' | 'onRequestReceivedInWarehouse' | 'onRequestEnteredErp' | 'onRequestCanceled'>> = {
+    'approved': 'onRequestApproved',
+    'ordered': 'onRequestOrdered',
+    'received-in-warehouse': 'onRequestReceivedInWarehouse',
+    'entered-erp': 'onRequestEnteredErp',
+    'canceled': 'onRequestCanceled',
+};
+
+// Permissions that allow moving a request into each status. Holding any one of them is enough.
+const STATUS_PERMISSIONS: Record<PurchaseRequestStatus, string[]> = {
+    'pending': ['requests:status:review', 'requests:status:unapproval-request:approve'],
+    'purchasing-review': ['requests:status:review', 'requests:status:pending-approval'],
+    'pending-approval': ['requests:status:pending-approval'],
+    'approved': ['requests:status:approve', 'requests:status:revert-to-approved'],
+    'ordered': ['requests:status:ordered'],
+    'received-in-warehouse': ['requests:status:received-in-warehouse'],
+    'entered-erp': ['requests:status:entered-erp'],
+    'canceled': ['requests:status:cancel', 'requests:status:unapproval-request:approve'],
+};
+
 // Helper function to ensure complex fields are in the correct format (array).
 const sanitizeRequest = (request: any): PurchaseRequest => {
   const sanitized = { ...request };
@@ -100,7 +130,9 @@ export async function initializeRequestsDb(db: import('better-sqlite3').Database
             hasBeenModified BOOLEAN DEFAULT FALSE,
             sourceOrders TEXT,
             involvedClients TEXT,
-            analysis TEXT
+            analysis TEXT,
+            statusChangedAt TEXT,
+            slaEscalationLevel INTEGER DEFAULT 0
         );
         CREATE TABLE IF NOT EXISTS purchase_request_history (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -121,6 +153,7 @@ export async function initializeRequestsDb(db: import('better-sqlite3').Database
     db.prepare(`INSERT OR IGNORE INTO request_settings (key, value) VALUES ('useWarehouseReception', 'false')`).run();
     db.prepare(`INSERT OR IGNORE INTO request_settings (key, value) VALUES ('useErpEntry', 'false')`).run();
     db.prepare(`INSERT OR IGNORE INTO request_settings (key, value) VALUES ('showCustomerTaxId', 'true')`).run();
+    db.prepare(`INSERT OR IGNORE INTO request_settings (key, value) VALUES ('statusSla', ?)`).run(JSON.stringify(DEFAULT_STATUS_SLA_SETTINGS));
     
     console.log(`Database ${REQUESTS_DB_FILE} initialized for Purchase Requests.`);
     
@@ -164,6 +197,20 @@ export async function runRequestMigrations(db: import('better-sqlite3').Database
         if (!columns.has('involvedClients')) db.exec(`ALTER TABLE purchase_requests ADD COLUMN involvedClients TEXT`);
         if (!columns.has('inventoryErp')) db.exec(`ALTER TABLE purchase_requests ADD COLUMN inventoryErp REAL`);
         if (!columns.has('analysis')) db.exec(`ALTER TABLE purchase_requests ADD COLUMN analysis TEXT`);
+        if (!columns.has('slaEscalationLevel')) db.exec(`ALTER TABLE purchase_requests ADD COLUMN slaEscalationLevel INTEGER DEFAULT 0`);
+        if (!columns.has('statusChangedAt')) {
+            console.log("MIGRATION (requests.db): Adding statusChangedAt to purchase_requests.");
+            db.exec(`ALTER TABLE purchase_requests ADD COLUMN statusChangedAt TEXT`);
+            // The request entered its status with the first history entry after the last one in another status.
+            db.exec(`
+                UPDATE purchase_requests SET statusChangedAt = COALESCE(
+                    (SELECT MIN(h.timestamp) FROM purchase_request_history h
+                     WHERE h.requestId = purchase_requests.id AND h.status = purchase_requests.status
+                       AND h.timestamp > COALESCE((SELECT MAX(o.timestamp) FROM purchase_request_history o
+                                                   WHERE o.requestId = purchase_requests.id AND o.status != purchase_requests.status), '')),
+                    requestDate)
+            `);
+        }
         
         const settingsTable = db.prepare(`SELECT name FROM sqlite_master WHERE type='table' AND name='request_settings'`).get();
         if(settingsTable){
@@ -198,6 +245,10 @@ export async function runRequestMigrations(db: import('better-sqlite3').Database
                 console.log("MIGRATION (requests.db): Adding useErpEntry to settings.");
                 db.prepare(`INSERT INTO request_settings (key, value) VALUES ('useErpEntry', 'false')`).run();
             }
+            if (!db.prepare(`SELECT key FROM request_settings WHERE key = 'statusSla'`).get()) {
+                console.log("MIGRATION (requests.db): Adding statusSla to settings.");
+                db.prepare(`INSERT INTO request_settings (key, value) VALUES ('statusSla', ?)`).run(JSON.stringify(DEFAULT_STATUS_SLA_SETTINGS));
+            }
         }
     } catch (error) {
         console.error("Error during requests migrations:", error);
@@ -221,6 +272,7 @@ export async function getSettings(): Promise<RequestSettings> {
         pdfExportColumns: [],
         pdfPaperSize: 'letter',
         pdfOrientation: 'portrait',
+        statusSla: normalizeStatusSlaSettings<PurchaseRequestStatus>(undefined),
     };
 
     for (const row of settingsRows) {
@@ -235,15 +287,21 @@ export async function getSettings(): Promise<RequestSettings> {
         else if (row.key === 'pdfExportColumns') settings.pdfExportColumns = JSON.parse(row.value);
         else if (row.key === 'pdfPaperSize') settings.pdfPaperSize = row.value as 'letter' | 'legal';
         else if (row.key === 'pdfOrientation') settings.pdfOrientation = row.value as 'portrait' | 'landscape';
+        else if (row.key === 'statusSla') settings.statusSla = normalizeStatusSlaSettings(JSON.parse(row.value));
     }
     return settings;
 }
 
 export async function saveSettings(settings: RequestSettings): Promise<void> {
+    const actor = await authorizeAction('saveSettings', 'admin:settings:requests');
+    if (settings.statusSla) {
+        validateStatusSlaSettings(settings.statusSla);
+    }
     const db = await connectDb(REQUESTS_DB_FILE);
+    const before = await getSettings();
     
     const transaction = db.transaction((settingsToUpdate) => {
-        const keys: (keyof RequestSettings)[] = ['requestPrefix', 'nextRequestNumber', 'routes', 'shippingMethods', 'useWarehouseReception', 'useErpEntry', 'showCustomerTaxId', 'pdfTopLegend', 'pdfExportColumns', 'pdfPaperSize', 'pdfOrientation'];
+        const keys: (keyof RequestSettings)[] = ['requestPrefix', 'nextRequestNumber', 'routes', 'shippingMethods', 'useWarehouseReception', 'useErpEntry', 'showCustomerTaxId', 'pdfTopLegend', 'pdfExportColumns', 'pdfPaperSize', 'pdfOrientation', 'statusSla'];
         for (const key of keys) {
              if (settingsToUpdate[key] !== undefined) {
                 const value = typeof settingsToUpdate[key] === 'object' ? JSON.stringify(settingsToUpdate[key]) : String(settingsToUpdate[key]);
@@ -253,6 +311,7 @@ export async function saveSettings(settings: RequestSettings): Promise<void> {
     });
 
     transaction(settings);
+    await recordAuditEvent(actor, { entityType: 'request_settings', entityId: 'requests', before, after: await getSettings() });
 }
 
 
@@ -268,6 +327,7 @@ export async function getRequests(options: {
         dateRange?: DateRange;
     };
 }): Promise<{ requests: PurchaseRequest[], totalActive: number, totalArchived: number }> {
+    const actor = await authorizeAction('getRequests', 'requests:read');
     const db = await connectDb(REQUESTS_DB_FILE);
     const { page, pageSize, isArchived, filters } = options;
 
@@ -275,6 +335,9 @@ export async function getRequests(options: {
     const finalStatus = settings.useErpEntry ? 'entered-erp' : (settings.useWarehouseReception ? 'received-in-warehouse' : 'ordered');
     const archivedStatuses = [`'${finalStatus}'`, `'canceled'`];
 
+    // Row-level scope: sellers restricted to their own customers only see those customers' records.
+    const scopedCustomerIds = await getScopedCustomerIds(actor);
+
     const buildQueryParts = async (isArchivedQuery: boolean) => {
         let whereClauses: string[] = [];
         let queryParams: any[] = [];
@@ -323,6 +386,12 @@ export async function getRequests(options: {
             }
         }
 
+        if (scopedCustomerIds) {
+            const scope = buildScopeCondition('clientId', scopedCustomerIds);
+            whereClauses.push(scope.clause);
+            queryParams.push(...scope.params);
+        }
+
         return { whereClause: whereClauses.join(' AND '), params: queryParams };
     };
 
@@ -343,6 +412,7 @@ export async function getRequests(options: {
 }
 
 export async function addRequest(request: Omit<PurchaseRequest, 'id' | 'consecutive' | 'requestDate' | 'status' | 'reopened' | 'requestedBy' | 'deliveredQuantity' | 'receivedInWarehouseBy' | 'receivedDate' | 'previousStatus' | 'lastModifiedAt' | 'lastModifiedBy' | 'hasBeenModified' | 'approvedBy' | 'lastStatusUpdateBy' | 'lastStatusUpdateNotes'>, requestedBy: string): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('addRequest', 'requests:create');
     const db = await connectDb(REQUESTS_DB_FILE);
     
     const settings = await getSettings();
@@ -389,13 +459,13 @@ export async function addRequest(request: Omit<PurchaseRequest, 'id' | 'consecut
                     itemId, itemDescription, quantity, unitSalePrice, salePriceCurrency, requiresCurrency,
                     erpOrderNumber, erpOrderLine, manualSupplier, route, shippingMethod, purchaseOrder,
                     status, pendingAction, notes, requestedBy, reopened, inventory, inventoryErp, priority, purchaseType, arrivalDate,
-                    sourceOrders, involvedClients, analysis
+                    sourceOrders, involvedClients, analysis, statusChangedAt
                 ) VALUES (
                     @consecutive, @requestDate, @requiredDate, @clientId, @clientName, @clientTaxId,
                     @itemId, @itemDescription, @quantity, @unitSalePrice, @salePriceCurrency, @requiresCurrency,
                     @erpOrderNumber, @erpOrderLine, @manualSupplier, @route, @shippingMethod, @purchaseOrder,
                     @status, @pendingAction, @notes, @requestedBy, @reopened, @inventory, @inventoryErp, @priority, @purchaseType, @arrivalDate,
-                    @sourceOrders, @involvedClients, @analysis
+                    @sourceOrders, @involvedClients, @analysis, @requestDate
                 )
             `);
             
@@ -405,14 +475,15 @@ export async function addRequest(request: Omit<PurchaseRequest, 'id' | 'consecut
             db.prepare('UPDATE request_settings SET value = ? WHERE key = \'nextRequestNumber\'').run(nextNumber + 1);
             
             const historyStmt = db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-            historyStmt.run(newRequestId, new Date().toISOString(), 'pending', newRequest.requestedBy, 'Solicitud creada');
+            historyStmt.run(newRequestId, new Date().toISOString(), 'pending', getActorName(actor, newRequest.requestedBy), 'Solicitud creada');
             
             return newRequestId;
         });
 
         const newId = transaction();
-        const createdRequest = db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(newId) as any;
-        return sanitizeRequest(createdRequest);
+        const createdRequest = sanitizeRequest(db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(newId) as any);
+        triggerNotificationEvent('onRequestCreated', createdRequest).catch(e => console.error("Failed to trigger request creation notification:", e));
+        return createdRequest;
     } catch (error: any) {
         logError("Failed to create request in DB", { context: 'addRequest DB transaction', error: error.message, details: preparedRequest });
         throw error;
@@ -420,6 +491,7 @@ export async function addRequest(request: Omit<PurchaseRequest, 'id' | 'consecut
 }
 
 export async function updateRequest(payload: UpdatePurchaseRequestPayload): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('updateRequest', REQUEST_EDIT_PERMISSIONS);
     const db = await connectDb(REQUESTS_DB_FILE);
     const { requestId, updatedBy, ...dataToUpdate } = payload;
     
@@ -479,7 +551,7 @@ export async function updateRequest(payload: UpdatePurchaseRequestPayload): Prom
 
         if (hasBeenModified) {
             const historyStmt = db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-            historyStmt.run(requestId, new Date().toISOString(), currentRequest.status, updatedBy, 'Solicitud editada después de aprobación.');
+            historyStmt.run(requestId, new Date().toISOString(), currentRequest.status, getActorName(actor, updatedBy), 'Solicitud editada después de aprobación.');
         }
     });
 
@@ -489,6 +561,7 @@ export async function updateRequest(payload: UpdatePurchaseRequestPayload): Prom
 }
 
 export async function updateStatus(payload: UpdateRequestStatusPayload): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('updateStatus', payload.reopen ? 'requests:reopen' : STATUS_PERMISSIONS[payload.status]);
     const db = await connectDb(REQUESTS_DB_FILE);
     const { requestId, status, notes, updatedBy, reopen, manualSupplier, erpOrderNumber, erpEntryNumber, deliveredQuantity, arrivalDate } = payload;
 
@@ -540,7 +613,9 @@ export async function updateStatus(payload: UpdateRequestStatusPayload): Promise
                 receivedDate = @receivedDate,
                 arrivalDate = @arrivalDate,
                 previousStatus = @previousStatus,
-                pendingAction = 'none'
+                pendingAction = 'none',
+                statusChangedAt = CASE WHEN status != @status THEN @now ELSE statusChangedAt END,
+                slaEscalationLevel = CASE WHEN status != @status THEN 0 ELSE slaEscalationLevel END
             WHERE id = @requestId
         `);
 
@@ -558,24 +633,33 @@ export async function updateStatus(payload: UpdateRequestStatusPayload): Promise
             receivedInWarehouseBy: receivedInWarehouseBy !== undefined ? receivedInWarehouseBy : currentRequest.receivedInWarehouseBy,
             receivedDate: receivedDate,
             arrivalDate: arrivalDate !== undefined ? arrivalDate : currentRequest.arrivalDate,
-            previousStatus: previousStatus
+            previousStatus: previousStatus,
+            now: new Date().toISOString(),
         });
         
         const historyStmt = db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-        historyStmt.run(requestId, new Date().toISOString(), status, updatedBy, notes);
+        historyStmt.run(requestId, new Date().toISOString(), status, getActorName(actor, updatedBy), notes);
     });
 
     transaction();
-    const updatedRequest = db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(requestId) as any;
-    return sanitizeRequest(updatedRequest);
+    const updatedRequest = sanitizeRequest(db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(requestId) as any);
+    const notificationEvent = STATUS_NOTIFICATION_EVENTS[status];
+    if (notificationEvent && status !== currentRequest.status) {
+        triggerNotificationEvent(notificationEvent, updatedRequest).catch(e => console.error("Failed to trigger request status notification:", e));
+    }
+    return updatedRequest;
 }
 
 export async function getRequestHistory(requestId: number): Promise<PurchaseRequestHistoryEntry[]> {
+    await authorizeAction('getRequestHistory', 'requests:read');
     const db = await connectDb(REQUESTS_DB_FILE);
     return db.prepare('SELECT * FROM purchase_request_history WHERE requestId = ? ORDER BY timestamp DESC').all(requestId) as PurchaseRequestHistoryEntry[];
 }
 
 export async function updatePendingAction(payload: AdministrativeActionPayload): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('updatePendingAction', payload.action === 'none'
+        ? ['requests:status:unapproval-request:approve', 'requests:status:approve']
+        : ['requests:status:unapproval-request', 'requests:status:cancel']);
     const db = await connectDb(REQUESTS_DB_FILE);
     const { entityId, action, notes, updatedBy } = payload;
 
@@ -594,15 +678,72 @@ export async function updatePendingAction(payload: AdministrativeActionPayload):
         const historyNote = action === 'none' 
             ? 'Acción administrativa rechazada/cancelada' 
             : `Solicitud de ${action === 'unapproval-request' ? 'desaprobación' : 'cancelación'} iniciada`;
-        historyStmt.run(entityId, new Date().toISOString(), currentRequest.status, updatedBy, `${historyNote}: ${notes}`);
+        historyStmt.run(entityId, new Date().toISOString(), currentRequest.status, getActorName(actor, updatedBy), `${historyNote}: ${notes}`);
     });
     
     transaction();
-    const updatedRequest = db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(entityId) as any;
-    return sanitizeRequest(updatedRequest);
+    const updatedRequest = sanitizeRequest(db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(entityId) as any);
+    if (action !== 'none') {
+        triggerNotificationEvent('onRequestActionRequested', { ...updatedRequest, pendingAction: action, actionNotes: notes, actionRequestedBy: getActorName(actor, updatedBy) })
+            .catch(e => console.error("Failed to trigger request action request notification:", e));
+    }
+    return updatedRequest;
+}
+
+/**
+ * Escalates the open requests that stayed in a status longer than its SLA, one step of the
+ * chain at a time: the requester, then the users who can move the request forward, then the
+ * administrators. Each step is recorded in the request history and is not repeated until the
+ * request changes status.
+ * Run by the 'check-status-slas' scheduled task.
+ * @returns The number of escalation steps sent.
+ */
+export async function escalateOverdueRequests(): Promise<number> {
+    const actor = await authorizeAction('escalateOverdueRequests', 'admin:notifications:write');
+    const db = await connectDb(REQUESTS_DB_FILE);
+    const { statusSla } = await getSettings();
+    const slaStatuses = REQUEST_SLA_STATUSES.filter(definition => statusSla.hoursByStatus[definition.status]);
+    if (!statusSla.enabled || slaStatuses.length === 0) return 0;
+
+    const candidates = (db.prepare(`SELECT * FROM purchase_requests WHERE status IN (${slaStatuses.map(() => '?').join(',')})`)
+        .all(...slaStatuses.map(definition => definition.status)) as any[]).map(sanitizeRequest);
+
+    let escalations = 0;
+    for (const request of candidates) {
+        const state = getStatusSlaState(statusSla, request.status, request.statusChangedAt);
+        if (!state || state.dueLevel <= (request.slaEscalationLevel || 0)) continue;
+
+        // One step per run, so no step is skipped when several became due since the last run.
+        const level = (request.slaEscalationLevel || 0) + 1;
+        const definition = slaStatuses.find(d => d.status === request.status)!;
+        const step = STATUS_SLA_ESCALATION_LEVELS[level - 1];
+        const summary = `lleva ${formatSlaHours(state.elapsedHours)} en "${definition.label}" (SLA: ${formatSlaHours(state.limitHours)})`;
+        const notified = await notifyStatusSlaEscalation({
+            level: step.id,
+            ownerName: request.requestedBy,
+            approverPermission: definition.approverPermission,
+            message: `La solicitud ${request.consecutive} ${summary}.`,
+            href: `/dashboard/requests?search=${request.consecutive}`,
+            entityId: request.id,
+            entityType: 'purchase-request',
+            entityStatus: request.status,
+        });
+
+        db.transaction(() => {
+            db.prepare('UPDATE purchase_requests SET slaEscalationLevel = ? WHERE id = ?').run(level, request.id);
+            db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)')
+                .run(request.id, new Date().toISOString(), request.status, getActorName(actor), `SLA vencido: ${summary}. Escalado a ${step.label}: ${notified.join(', ') || 'nadie'}.`);
+        })();
+        escalations++;
+    }
+    if (escalations > 0) {
+        await logInfo(`Escalated ${escalations} purchase request(s) that exceeded their status SLA.`);
+    }
+    return escalations;
 }
 
 export async function getErpOrderData(identifier: string | DateRange): Promise<{headers: ErpOrderHeader[], lines: ErpOrderLine[], inventory: StockInfo[]}> {
+    await authorizeAction('getErpOrderData', 'requests:create');
     const mainDb = await connectDb();
     
     let headers: ErpOrderHeader[] = [];
@@ -645,6 +786,7 @@ export async function getErpOrderData(identifier: string | DateRange): Promise<{
 }
 
 export async function updateRequestDetails(payload: { requestId: number; priority: PurchaseRequestPriority, updatedBy: string }): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('updateRequestDetails', REQUEST_EDIT_PERMISSIONS);
     const db = await connectDb(REQUESTS_DB_FILE);
     const { requestId, priority, updatedBy } = payload;
     
@@ -656,7 +798,7 @@ export async function updateRequestDetails(payload: { requestId: number; priorit
         
         const historyNote = `Prioridad cambiada a: ${priority}`;
         const historyStmt = db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)');
-        historyStmt.run(requestId, new Date().toISOString(), currentRequest.status, updatedBy, historyNote);
+        historyStmt.run(requestId, new Date().toISOString(), currentRequest.status, getActorName(actor, updatedBy), historyNote);
     });
 
     transaction();
@@ -671,10 +813,11 @@ export async function getUserByName(name: string): Promise<User | null> {
 
 export async function getRolesWithPermission(permission: string): Promise<string[]> {
     const roles = await getAllRolesFromMain();
-    return roles.filter(role => role.id === 'admin' || role.permissions.includes(permission)).map(role => role.id);
+    return roles.filter(role => role.id === 'admin' || resolveEffectivePermissions(role.id, roles).some(p => p.permission === permission)).map(role => role.id);
 }
 
 export async function addNote(payload: { requestId: number; notes: string; updatedBy: string; }): Promise<PurchaseRequest> {
+    const actor = await authorizeAction('addNote', 'requests:notes:add');
     const db = await connectDb(REQUESTS_DB_FILE);
     const { requestId, notes, updatedBy } = payload;
 
@@ -684,7 +827,7 @@ export async function addNote(payload: { requestId: number; notes: string; updat
     }
 
     db.prepare('INSERT INTO purchase_request_history (requestId, timestamp, status, updatedBy, notes) VALUES (?, ?, ?, ?, ?)')
-      .run(requestId, new Date().toISOString(), currentRequest.status, updatedBy, `Nota agregada: ${notes}`);
+      .run(requestId, new Date().toISOString(), currentRequest.status, getActorName(actor, updatedBy), `Nota agregada: ${notes}`);
 
     const updatedRequest = db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(requestId) as any;
     return sanitizeRequest(updatedRequest);
@@ -692,6 +835,7 @@ export async function addNote(payload: { requestId: number; notes: string; updat
 
 
 export async function saveCostAnalysis(requestId: number, cost: number, salePrice: number): Promise<PurchaseRequest> {
+    await authorizeAction('saveCostAnalysis', REQUEST_EDIT_PERMISSIONS);
     const db = await connectDb(REQUESTS_DB_FILE);
     
     if (cost <= 0) {
@@ -706,3 +850,100 @@ export async function saveCostAnalysis(requestId: number, cost: number, salePric
     const updatedRequest = db.prepare('SELECT * FROM purchase_requests WHERE id = ?').get(requestId) as any;
     return sanitizeRequest(updatedRequest);
 }
+
+/**
+ * Analyzes ERP orders within a date range and suggests purchases for items with stock shortages.
+ * @param dateRange - The date range for ERP orders to analyze.
+ * @returns A promise that resolves to an array of purchase suggestions.
+ */
+export async function getPurchaseSuggestions(dateRange: DateRange): Promise<PurchaseSuggestion[]> {
+    const { headers, lines } = await getErpOrderData(dateRange);
+    const [allStock, allProducts, allCustomers, erpPoHeaders, erpPoLines] = await Promise.all([
+        getAllStock(),
+        getAllProducts(),
+        getAllCustomers(),
+        getAllErpPurchaseOrderHeaders(),
+        getAllErpPurchaseOrderLines(),
+    ]);
+    const allActiveRequests = await getRequests({ page: 0, pageSize: 99999, isArchived: false, filters: {} }).then(res => res.requests.filter(r => ['pending', 'approved', 'ordered', 'purchasing-review', 'pending-approval'].includes(r.status)));
+
+    const activePoNumbers = new Set(erpPoHeaders.filter((h: any) => h.ESTADO === 'A').map((h: any) => h.ORDEN_COMPRA));
+
+    const requiredItems = new Map<string, { totalRequired: number; sourceOrders: Set<string>; clientIds: Set<string>; erpUsers: Set<string>; earliestCreationDate: Date | null, earliestDueDate: Date | null; }>();
+
+    for (const line of lines) {
+        const header = headers.find(h => h.PEDIDO === line.PEDIDO);
+        if (!header) continue;
+
+        if (!requiredItems.has(line.ARTICULO)) {
+            requiredItems.set(line.ARTICULO, { totalRequired: 0, sourceOrders: new Set(), clientIds: new Set(), erpUsers: new Set(), earliestCreationDate: null, earliestDueDate: null });
+        }
+        
+        const item = requiredItems.get(line.ARTICULO)!;
+        item.totalRequired += line.CANTIDAD_PEDIDA;
+        item.sourceOrders.add(header.PEDIDO);
+        item.clientIds.add(header.CLIENTE);
+        if (header.USUARIO) {
+            item.erpUsers.add(header.USUARIO);
+        }
+        
+        const creationDate = new Date(header.FECHA_PEDIDO);
+        if (!item.earliestCreationDate || creationDate < item.earliestCreationDate) {
+            item.earliestCreationDate = creationDate;
+        }
+
+        const dueDate = new Date(header.FECHA_PROMETIDA);
+        if (!item.earliestDueDate || dueDate < item.earliestDueDate) {
+            item.earliestDueDate = dueDate;
+        }
+    }
+
+    const suggestions: PurchaseSuggestion[] = [];
+
+    for (const [itemId, data] of requiredItems.entries()) {
+        const stockInfo: StockInfo | undefined = allStock.find((s: StockInfo) => s.itemId === itemId);
+        const currentStock = stockInfo?.totalStock ?? 0;
+        
+        const inTransitStock = erpPoLines
+            .filter((line: any) => line.ARTICULO === itemId && activePoNumbers.has(line.ORDEN_COMPRA))
+            .reduce((sum: any, line: any) => sum + line.CANTIDAD_ORDENADA, 0);
+
+        const existingActiveRequests = allActiveRequests.filter(r => r.itemId === itemId);
+        
+        const shortage = data.totalRequired - currentStock - inTransitStock;
+
+        if (shortage > 0) {
+            const productInfo = allProducts.find((p: any) => p.id === itemId);
+            const involvedClients = Array.from(data.clientIds).map(id => {
+                const customer = allCustomers.find((c: any) => c.id === id);
+                return { id, name: customer?.name || 'Desconocido' };
+            });
+            
+            suggestions.push({
+                itemId,
+                itemDescription: productInfo?.description || 'Artículo no encontrado',
+                itemClassification: productInfo?.classification || 'N/A',
+                totalRequired: data.totalRequired,
+                currentStock,
+                inTransitStock,
+                shortage,
+                sourceOrders: Array.from(data.sourceOrders),
+                involvedClients,
+                erpUsers: Array.from(data.erpUsers),
+                earliestCreationDate: data.earliestCreationDate ? data.earliestCreationDate.toISOString() : null,
+                earliestDueDate: data.earliestDueDate ? data.earliestDueDate.toISOString() : null,
+                existingActiveRequests: existingActiveRequests.map(r => ({
+                    id: r.id,
+                    consecutive: r.consecutive,
+                    status: r.status,
+                    quantity: r.quantity,
+                    purchaseOrder: r.purchaseOrder,
+                    erpOrderNumber: r.erpOrderNumber,
+                    requestedBy: r.requestedBy,
+                })),
+            });
+        }
+    }
+
+    return suggestions;
+}
@@ -15,7 +15,7 @@ export const requestSchema: ExpectedSchema = {
         'manualSupplier', 'route', 'shippingMethod', 'status', 'pendingAction', 'notes',
         'requestedBy', 'approvedBy', 'receivedInWarehouseBy', 'lastStatusUpdateBy',
         'lastStatusUpdateNotes', 'reopened', 'previousStatus', 'lastModifiedBy', 'lastModifiedAt',
-        'hasBeenModified', 'sourceOrders', 'involvedClients', 'analysis'
+        'hasBeenModified', 'sourceOrders', 'involvedClients', 'analysis', 'statusChangedAt', 'slaEscalationLevel'
     ],
     'purchase_request_history': ['id', 'requestId', 'timestamp', 'status', 'notes', 'updatedBy'],
 };
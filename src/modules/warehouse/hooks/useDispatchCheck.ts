@@ -491,7 +491,18 @@ export function useDispatchCheck() {
             const hasDiscrepancy = dispatchLogData.items.some(i => i.requiredQuantity !== i.verifiedQuantity);
             await updateAssignmentStatus(dispatchLogData.documentId, hasDiscrepancy ? 'discrepancy' : 'completed');
 
-            await triggerNotificationEvent('onDispatchCompleted', dispatchLogData);
+            const notificationPayload = {
+                ...dispatchLogData,
+                clientId: state.currentDocument.clientId,
+                clientName: state.currentDocument.clientName,
+                containerId: state.currentDocument.containerId ?? null,
+                hasDiscrepancy,
+                discrepancyCount: dispatchLogData.items.filter(i => i.requiredQuantity !== i.verifiedQuantity).length,
+            };
+            await triggerNotificationEvent('onDispatchCompleted', notificationPayload);
+            if (hasDiscrepancy) {
+                await triggerNotificationEvent('onDispatchDiscrepancy', notificationPayload);
+            }
     
             if (action === 'pdf') {
                 handlePrintPdf({ document: state.currentDocument, items: state.verificationItems, verifiedBy: user.name, companyData });
@@ -65,81 +65,167 @@ import type { HAlignType, FontStyle, RowInput } from 'jspdf-autotable';
 import { triggerNotificationEvent } from '@/modules/notifications/lib/notifications-engine';
 import path from 'path';
 import { renderLocationPathAsString } from './utils';
+import { authorizeAction } from '@/modules/core/lib/authorization';
+import { recordAuditEvent } from '@/modules/core/lib/audit';
+import { getScopedContainerIds, getScopedCustomerIds, getScopedLocationIds } from '@/modules/core/lib/data-scopes';
 
 
-export const getWarehouseSettings = async (): Promise<WarehouseSettings> => getWarehouseSettingsServer();
+export const getWarehouseSettings = async (): Promise<WarehouseSettings> => {
+    await authorizeAction('getWarehouseSettings');
+    return getWarehouseSettingsServer();
+};
 export async function saveWarehouseSettings(settings: WarehouseSettings): Promise<void> {
+    const actor = await authorizeAction('saveWarehouseSettings', 'admin:settings:warehouse');
+    const before = await getWarehouseSettingsServer();
+    await saveWarehouseSettingsServer(settings);
     await logInfo('Warehouse settings updated.');
-    return saveWarehouseSettingsServer(settings);
+    await recordAuditEvent(actor, { entityType: 'warehouse_settings', entityId: 'warehouse', before, after: await getWarehouseSettingsServer() });
 }
-export const getStockSettings = async (): Promise<StockSettings> => getStockSettingsDb();
+export const getStockSettings = async (): Promise<StockSettings> => {
+    await authorizeAction('getStockSettings');
+    return getStockSettingsDb();
+};
 export async function saveStockSettings(settings: StockSettings): Promise<void> {
+    await authorizeAction('saveStockSettings', 'admin:settings:stock');
     await logInfo('Stock settings updated.');
     return saveStockSettingsDb(settings);
 }
-export const getLocations = async (): Promise<WarehouseLocation[]> => getLocationsServer();
-export const getSelectableLocations = async (): Promise<WarehouseLocation[]> => getSelectableLocationsServer();
-export const getPhysicalInventory = async (dateRange?: DateRange): Promise<InventoryUnit[]> => getInventoryUnitsServer(dateRange);
+export const getLocations = async (): Promise<WarehouseLocation[]> => {
+    await authorizeAction('getLocations');
+    return getLocationsServer();
+};
+export const getSelectableLocations = async (): Promise<WarehouseLocation[]> => {
+    await authorizeAction('getSelectableLocations');
+    return getSelectableLocationsServer();
+};
+export const getPhysicalInventory = async (dateRange?: DateRange): Promise<InventoryUnit[]> => {
+    await authorizeAction('getPhysicalInventory');
+    return getInventoryUnitsServer(dateRange);
+};
 
 
 export async function addLocation(location: Omit<WarehouseLocation, 'id'>): Promise<WarehouseLocation> {
+    await authorizeAction('addLocation', 'warehouse:locations:create');
     const newLocation = await addLocationServer(location);
     await logInfo(`New warehouse location created: ${newLocation.name} (${newLocation.code})`);
     return newLocation;
 }
 
 export async function addBulkLocations(payload: { type: 'rack' | 'clone'; params: any; }): Promise<void> {
+    await authorizeAction('addBulkLocations', 'warehouse:locations:create');
     await addBulkLocationsServer(payload);
     await logInfo('Bulk locations created via wizard', { payload });
 }
 
 export async function updateLocation(location: WarehouseLocation): Promise<WarehouseLocation> {
+    await authorizeAction('updateLocation', 'warehouse:locations:update');
     const updatedLocation = await updateLocationServer(location);
     await logInfo(`Warehouse location updated: ${updatedLocation.name} (${updatedLocation.code})`);
     return updatedLocation;
 }
 export async function deleteLocation(id: number, userName: string): Promise<void> {
+    await authorizeAction('deleteLocation', 'warehouse:locations:delete');
     return deleteLocationServer(id, userName);
 }
-export const getInventoryForItem = async (itemId: string): Promise<WarehouseInventoryItem[]> => getInventoryForItemServer(itemId);
-export const logMovement = async (movement: Omit<MovementLog, 'id'|'timestamp'>): Promise<void> => logMovementServer(movement);
+export const getInventoryForItem = async (itemId: string): Promise<WarehouseInventoryItem[]> => {
+    await authorizeAction('getInventoryForItem');
+    return getInventoryForItemServer(itemId);
+};
+export const logMovement = async (movement: Omit<MovementLog, 'id'|'timestamp'>): Promise<void> => {
+    await authorizeAction('logMovement', 'warehouse:access');
+    return logMovementServer(movement);
+};
 
 export const updateInventory = async(itemId: string, locationId: number, newQuantity: number, userId: number): Promise<void> => {
+    await authorizeAction('updateInventory', ['warehouse:inventory-count:create', 'warehouse:inventory-count:edit']);
     return updateInventoryServer(itemId, locationId, newQuantity, userId);
 };
 
-export const getAllItemLocations = async (itemId?: string): Promise<ItemLocation[]> => getAllItemLocationsServer(itemId);
+export const getAllItemLocations = async (itemId?: string): Promise<ItemLocation[]> => {
+    await authorizeAction('getAllItemLocations');
+    return getAllItemLocationsServer(itemId);
+};
 
-export const assignItemToLocation = async (itemId: string, locationId: number, clientId: string | null, updatedBy: string): Promise<ItemLocation> => assignItemToLocationServer(itemId, locationId, clientId, updatedBy);
+export const assignItemToLocation = async (itemId: string, locationId: number, clientId: string | null, updatedBy: string): Promise<ItemLocation> => {
+    await authorizeAction('assignItemToLocation', ['warehouse:item-assignment:create', 'warehouse:population-wizard:use', 'warehouse:receiving-wizard:use']);
+    return assignItemToLocationServer(itemId, locationId, clientId, updatedBy);
+};
 export async function unassignItemFromLocation(assignmentId: number): Promise<void> {
+    await authorizeAction('unassignItemFromLocation', 'warehouse:item-assignment:delete');
     return unassignItemFromLocationServer(assignmentId);
 }
 
 // --- Page-specific data loaders ---
-export const getWarehouseData = async () => getWarehouseDataServer();
-export const getMovements = async (itemId?: string): Promise<MovementLog[]> => getMovementsServer(itemId);
+export const getWarehouseData = async () => {
+    const user = await authorizeAction('getWarehouseData');
+    return getWarehouseDataServer(getScopedLocationIds(user));
+};
+export const getMovements = async (itemId?: string): Promise<MovementLog[]> => {
+    await authorizeAction('getMovements');
+    return getMovementsServer(itemId);
+};
 
 // --- Inventory Unit Actions ---
-export const addInventoryUnit = async (unit: Omit<InventoryUnit, 'id' | 'createdAt' | 'unitCode'>): Promise<InventoryUnit> => addInventoryUnitServer(unit);
-export const getInventoryUnits = async (dateRange?: DateRange): Promise<InventoryUnit[]> => getInventoryUnitsServer(dateRange);
-export const deleteInventoryUnit = async (id: number): Promise<void> => deleteInventoryUnitServer(id);
-export const getInventoryUnitById = async (id: string | number): Promise<InventoryUnit | null> => getInventoryUnitByIdServer(id);
+export const addInventoryUnit = async (unit: Omit<InventoryUnit, 'id' | 'createdAt' | 'unitCode'>): Promise<InventoryUnit> => {
+    await authorizeAction('addInventoryUnit', ['warehouse:units:create', 'warehouse:receiving-wizard:use', 'warehouse:labels:print', 'warehouse:search:full', 'warehouse:search:simple']);
+    return addInventoryUnitServer(unit);
+};
+export const getInventoryUnits = async (dateRange?: DateRange): Promise<InventoryUnit[]> => {
+    await authorizeAction('getInventoryUnits');
+    return getInventoryUnitsServer(dateRange);
+};
+export const deleteInventoryUnit = async (id: number): Promise<void> => {
+    await authorizeAction('deleteInventoryUnit', 'warehouse:units:delete');
+    return deleteInventoryUnitServer(id);
+};
+export const getInventoryUnitById = async (id: string | number): Promise<InventoryUnit | null> => {
+    await authorizeAction('getInventoryUnitById');
+    return getInventoryUnitByIdServer(id);
+};
 export async function correctInventoryUnit(originalUnit: InventoryUnit, newProductId: string, correctedByUserId: number): Promise<void> {
+    await authorizeAction('correctInventoryUnit', 'warehouse:correction:use');
     return correctInventoryUnitServer(originalUnit, newProductId, correctedByUserId);
 }
 
 // --- Wizard Lock Actions ---
-export const getActiveLocks = async (): Promise<any[]> => getActiveLocksServer();
-export const lockEntity = async (payload: { entityIds: number[]; entityType: 'location' | 'container', userName: string; userId: number; }): Promise<{ locked: boolean; error?: string }> => lockEntityServer(payload);
-export const releaseLock = async (entityIds: number[], entityType: 'location' | 'container', userId: number): Promise<void> => releaseLockServer(entityIds, entityType, userId);
-export const forceReleaseLock = async (entityId: number, entityType: 'location' | 'container'): Promise<void> => forceReleaseLockServer(entityId, entityType);
-export const getChildLocations = async (parentIds: number[]): Promise<WarehouseLocation[]> => getChildLocationsServer(parentIds);
+export const getActiveLocks = async (): Promise<any[]> => {
+    await authorizeAction('getActiveLocks');
+    return getActiveLocksServer();
+};
+export const lockEntity = async (payload: { entityIds: number[]; entityType: 'location' | 'container', userName: string; userId: number; }): Promise<{ locked: boolean; error?: string }> => {
+    await authorizeAction('lockEntity', ['warehouse:population-wizard:use', 'warehouse:dispatch-check:use']);
+    return lockEntityServer(payload);
+};
+export const releaseLock = async (entityIds: number[], entityType: 'location' | 'container', userId: number): Promise<void> => {
+    await authorizeAction('releaseLock', ['warehouse:population-wizard:use', 'warehouse:dispatch-check:use']);
+    return releaseLockServer(entityIds, entityType, userId);
+};
+export const forceReleaseLock = async (entityId: number, entityType: 'location' | 'container'): Promise<void> => {
+    await authorizeAction('forceReleaseLock', 'warehouse:locks:manage');
+    return forceReleaseLockServer(entityId, entityType);
+};
+export const getChildLocations = async (parentIds: number[]): Promise<WarehouseLocation[]> => {
+    await authorizeAction('getChildLocations');
+    return getChildLocationsServer(parentIds);
+};
 
 // --- Dispatch Check Actions ---
-export const searchDocuments = async (searchTerm: string): Promise<{ id: string, type: string, clientId: string, clientName: string }[]> => searchDocumentsServer(searchTerm);
-export const getInvoiceData = async (documentId: string): Promise<{ header: ErpInvoiceHeader, lines: ErpInvoiceLine[] } | null> => getInvoiceDataServer(documentId);
-export const logDispatch = async (dispatchData: any): Promise<void> => logDispatchServer(dispatchData);
-export const getDispatchLogs = async (dateRange?: DateRange): Promise<DispatchLog[]> => getDispatchLogsServer(dateRange);
+export const searchDocuments = async (searchTerm: string): Promise<{ id: string, type: string, clientId: string, clientName: string }[]> => {
+    const user = await authorizeAction('searchDocuments');
+    return searchDocumentsServer(searchTerm, { customerIds: await getScopedCustomerIds(user), containerIds: getScopedContainerIds(user) });
+};
+export const getInvoiceData = async (documentId: string): Promise<{ header: ErpInvoiceHeader, lines: ErpInvoiceLine[] } | null> => {
+    await authorizeAction('getInvoiceData');
+    return getInvoiceDataServer(documentId);
+};
+export const logDispatch = async (dispatchData: any): Promise<void> => {
+    await authorizeAction('logDispatch', 'warehouse:dispatch-check:use');
+    return logDispatchServer(dispatchData);
+};
+export const getDispatchLogs = async (dateRange?: DateRange): Promise<DispatchLog[]> => {
+    await authorizeAction('getDispatchLogs');
+    return getDispatchLogsServer(dateRange);
+};
 
 export async function sendDispatchEmail(payload: { 
     to: string[]; 
@@ -149,6 +235,7 @@ export async function sendDispatchEmail(payload: {
     items: VerificationItem[],
     verifiedBy: string,
 }): Promise<void> {
+    await authorizeAction('sendDispatchEmail', 'warehouse:dispatch-check:use');
     const { to, cc, body, items, document, verifiedBy } = payload;
     
     const warehouseSettings = await getWarehouseSettingsServer();
@@ -231,23 +318,78 @@ export async function sendDispatchEmail(payload: {
 }
 
 // --- Dispatch Container Actions ---
-export const getContainers = async (): Promise<DispatchContainer[]> => getContainersServer();
-export const saveContainer = async (container: Omit<DispatchContainer, 'id' | 'createdAt'>, updatedBy: string): Promise<DispatchContainer> => saveContainerServer(container, updatedBy);
-export const deleteContainer = async (id: number): Promise<void> => deleteContainerServer(id);
-export const getUnassignedDocuments = async (dateRange: DateRange): Promise<ErpInvoiceHeader[]> => getUnassignedDocumentsServer(dateRange);
-export const assignDocumentsToContainer = async (documentIds: string[], containerId: number, updatedBy: string): Promise<void> => assignDocumentsToContainerServer(documentIds, containerId, updatedBy);
-export const updateAssignmentOrder = async (containerId: number, orderedDocumentIds: string[]): Promise<void> => updateAssignmentOrderServer(containerId, orderedDocumentIds);
-export const getAssignmentsForContainer = async (containerId: number): Promise<DispatchAssignment[]> => getAssignmentsForContainerServer(containerId);
-export const getAssignmentsByIds = async (documentIds: string[]): Promise<DispatchAssignment[]> => getAssignmentsByIdsServer(documentIds);
-export const getNextDocumentInContainer = async (containerId: number, currentDocumentId: string): Promise<string | null> => getNextDocumentInContainerServer(containerId, currentDocumentId);
-export const moveAssignmentToContainer = async (assignmentId: number, targetContainerId: number, documentId?: string): Promise<void> => moveAssignmentToContainerServer(assignmentId, targetContainerId, documentId);
-export const updateAssignmentStatus = async (documentId: string, status: 'pending' | 'in-progress' | 'completed' | 'discrepancy' | 'partial'): Promise<void> => updateAssignmentStatusServer(documentId, status);
-export const resetContainerAssignments = async (containerId: number): Promise<void> => resetContainerAssignmentsServer(containerId);
-export const unassignAllFromContainer = async (containerId: number): Promise<void> => unassignAllFromContainerServer(containerId);
-export const unassignDocumentFromContainer = async (assignmentId: number): Promise<void> => unassignDocumentFromContainerServer(assignmentId);
-export const finalizeDispatch = async (containerId: number, vehiclePlate: string, driverName: string, helper1Name: string, helper2Name: string): Promise<void> => finalizeDispatchServer(containerId, vehiclePlate, driverName, helper1Name, helper2Name);
-export const getVehicles = async (): Promise<Vehiculo[]> => getVehiclesServer();
-export const getEmployees = async (): Promise<Empleado[]> => getEmployeesServer();
+export const getContainers = async (): Promise<DispatchContainer[]> => {
+    const user = await authorizeAction('getContainers');
+    return getContainersServer(getScopedContainerIds(user));
+};
+export const saveContainer = async (container: Omit<DispatchContainer, 'id' | 'createdAt'>, updatedBy: string): Promise<DispatchContainer> => {
+    await authorizeAction('saveContainer', 'warehouse:dispatch-containers:manage');
+    return saveContainerServer(container, updatedBy);
+};
+export const deleteContainer = async (id: number): Promise<void> => {
+    await authorizeAction('deleteContainer', 'warehouse:dispatch-containers:manage');
+    return deleteContainerServer(id);
+};
+export const getUnassignedDocuments = async (dateRange: DateRange): Promise<ErpInvoiceHeader[]> => {
+    await authorizeAction('getUnassignedDocuments');
+    return getUnassignedDocumentsServer(dateRange);
+};
+export const assignDocumentsToContainer = async (documentIds: string[], containerId: number, updatedBy: string): Promise<void> => {
+    await authorizeAction('assignDocumentsToContainer', ['warehouse:dispatch-classifier:use', 'warehouse:dispatch-check:use']);
+    return assignDocumentsToContainerServer(documentIds, containerId, updatedBy);
+};
+export const updateAssignmentOrder = async (containerId: number, orderedDocumentIds: string[]): Promise<void> => {
+    await authorizeAction('updateAssignmentOrder', ['warehouse:dispatch-classifier:use', 'warehouse:dispatch-check:use']);
+    return updateAssignmentOrderServer(containerId, orderedDocumentIds);
+};
+export const getAssignmentsForContainer = async (containerId: number): Promise<DispatchAssignment[]> => {
+    const user = await authorizeAction('getAssignmentsForContainer');
+    const scopedContainerIds = getScopedContainerIds(user);
+    if (scopedContainerIds && !scopedContainerIds.includes(containerId)) {
+        return [];
+    }
+    return getAssignmentsForContainerServer(containerId);
+};
+export const getAssignmentsByIds = async (documentIds: string[]): Promise<DispatchAssignment[]> => {
+    await authorizeAction('getAssignmentsByIds');
+    return getAssignmentsByIdsServer(documentIds);
+};
+export const getNextDocumentInContainer = async (containerId: number, currentDocumentId: string): Promise<string | null> => {
+    await authorizeAction('getNextDocumentInContainer');
+    return getNextDocumentInContainerServer(containerId, currentDocumentId);
+};
+export const moveAssignmentToContainer = async (assignmentId: number, targetContainerId: number, documentId?: string): Promise<void> => {
+    await authorizeAction('moveAssignmentToContainer', ['warehouse:dispatch-classifier:use', 'warehouse:dispatch-check:move-document']);
+    return moveAssignmentToContainerServer(assignmentId, targetContainerId, documentId);
+};
+export const updateAssignmentStatus = async (documentId: string, status: 'pending' | 'in-progress' | 'completed' | 'discrepancy' | 'partial'): Promise<void> => {
+    await authorizeAction('updateAssignmentStatus', 'warehouse:dispatch-check:use');
+    return updateAssignmentStatusServer(documentId, status);
+};
+export const resetContainerAssignments = async (containerId: number): Promise<void> => {
+    await authorizeAction('resetContainerAssignments', 'warehouse:dispatch:reset');
+    return resetContainerAssignmentsServer(containerId);
+};
+export const unassignAllFromContainer = async (containerId: number): Promise<void> => {
+    await authorizeAction('unassignAllFromContainer', ['warehouse:dispatch:reset', 'warehouse:dispatch-classifier:use']);
+    return unassignAllFromContainerServer(containerId);
+};
+export const unassignDocumentFromContainer = async (assignmentId: number): Promise<void> => {
+    await authorizeAction('unassignDocumentFromContainer', ['warehouse:dispatch-classifier:use', 'warehouse:dispatch-check:use']);
+    return unassignDocumentFromContainerServer(assignmentId);
+};
+export const finalizeDispatch = async (containerId: number, vehiclePlate: string, driverName: string, helper1Name: string, helper2Name: string): Promise<void> => {
+    const actor = await authorizeAction('finalizeDispatch', 'warehouse:dispatch-check:use');
+    return finalizeDispatchServer(containerId, vehiclePlate, driverName, helper1Name, helper2Name, actor.name);
+};
+export const getVehicles = async (): Promise<Vehiculo[]> => {
+    await authorizeAction('getVehicles');
+    return getVehiclesServer();
+};
+export const getEmployees = async (): Promise<Empleado[]> => {
+    await authorizeAction('getEmployees');
+    return getEmployeesServer();
+};
 
 // New search action for correction page
 export const searchInventoryUnits = async (filters: {
@@ -256,4 +398,7 @@ export const searchInventoryUnits = async (filters: {
     humanReadableId?: string;
     unitCode?: string;
     documentId?: string;
-}): Promise<InventoryUnit[]> => searchInventoryUnitsServer(filters);
+}): Promise<InventoryUnit[]> => {
+    await authorizeAction('searchInventoryUnits');
+    return searchInventoryUnitsServer(filters);
+};
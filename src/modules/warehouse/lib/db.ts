@@ -288,11 +288,13 @@ export async function updateInventory(itemId: string, locationId: number, newQua
     const user = mainDb.prepare('SELECT name FROM users WHERE id = ?').get(userId) as User | undefined;
     const userName = user?.name || 'Sistema';
 
+    let oldQuantity = 0;
+    let difference = 0;
     try {
         const transaction = warehouseDb.transaction(() => {
             const currentInventory = warehouseDb.prepare('SELECT quantity FROM inventory WHERE itemId = ? AND locationId = ?').get(itemId, locationId) as { quantity: number } | undefined;
-            const oldQuantity = currentInventory?.quantity ?? 0;
-            const difference = newQuantity - oldQuantity;
+            oldQuantity = currentInventory?.quantity ?? 0;
+            difference = newQuantity - oldQuantity;
 
             if (difference !== 0) {
                 warehouseDb.prepare(
@@ -313,16 +315,63 @@ export async function updateInventory(itemId: string, locationId: number, newQua
         logError('Error in updateInventory transaction', { error: (error as Error).message, user: userName });
         throw error;
     }
+
+    if (difference !== 0) {
+        const product = mainDb.prepare('SELECT description FROM products WHERE id = ?').get(itemId) as { description: string } | undefined;
+        const allLocations = warehouseDb.prepare('SELECT * FROM locations').all() as WarehouseLocation[];
+        triggerNotificationEvent('onPhysicalCountDifference', {
+            itemId,
+            itemDescription: product?.description || itemId,
+            locationId,
+            locationPath: renderLocationPathAsString(locationId, allLocations),
+            previousQuantity: oldQuantity,
+            countedQuantity: newQuantity,
+            difference,
+            absoluteDifference: Math.abs(difference),
+            differencePercent: oldQuantity !== 0 ? Math.round((difference / oldQuantity) * 10000) / 100 : null,
+            countedBy: userName,
+        }).catch(e => console.error("Failed to trigger physical count notification:", e));
+    }
 }
 
 
-export async function getWarehouseData(): Promise<{ locations: WarehouseLocation[], inventory: WarehouseInventoryItem[], stock: StockInfo[], itemLocations: ItemLocation[], warehouseSettings: WarehouseSettings, stockSettings: StockSettings }> {
+/**
+ * Collects the given locations and every location below them.
+ * @param locations - All warehouse locations.
+ * @param rootIds - The roots of the subtrees.
+ * @returns The IDs of the roots and all of their descendants.
+ */
+function collectLocationSubtreeIds(locations: WarehouseLocation[], rootIds: number[]): Set<number> {
+    const subtreeIds = new Set<number>();
+    const queue = [...rootIds];
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        if (subtreeIds.has(currentId)) continue;
+        subtreeIds.add(currentId);
+        queue.push(...locations.filter(l => l.parentId === currentId).map(l => l.id));
+    }
+    return subtreeIds;
+}
+
+/**
+ * Loads everything the warehouse search needs.
+ * @param scopedLocationIds - When set, only these locations and their subtrees (with the inventory
+ *   and item assignments they hold) are returned, for users with a location data scope.
+ */
+export async function getWarehouseData(scopedLocationIds?: number[] | null): Promise<{ locations: WarehouseLocation[], inventory: WarehouseInventoryItem[], stock: StockInfo[], itemLocations: ItemLocation[], warehouseSettings: WarehouseSettings, stockSettings: StockSettings }> {
     const db = await connectDb(WAREHOUSE_DB_FILE);
     const mainDb = await connectDb();
     
-    const locations = db.prepare('SELECT * FROM locations').all() as WarehouseLocation[];
-    const inventory = db.prepare('SELECT * FROM inventory').all() as WarehouseInventoryItem[];
-    const itemLocations = await getAllItemLocations();
+    let locations = db.prepare('SELECT * FROM locations').all() as WarehouseLocation[];
+    let inventory = db.prepare('SELECT * FROM inventory').all() as WarehouseInventoryItem[];
+    let itemLocations = await getAllItemLocations();
+
+    if (scopedLocationIds) {
+        const allowedIds = collectLocationSubtreeIds(locations, scopedLocationIds);
+        locations = locations.filter(l => allowedIds.has(l.id));
+        inventory = inventory.filter(i => allowedIds.has(i.locationId));
+        itemLocations = itemLocations.filter(il => allowedIds.has(il.locationId));
+    }
     
     const stock = mainDb.prepare('SELECT * FROM stock').all() as {itemId: string; stockByWarehouse: string, totalStock: number}[];
     const parsedStock = stock.map(s => ({...s, stockByWarehouse: JSON.parse(s.stockByWarehouse)}));
@@ -520,7 +569,7 @@ export async function getChildLocations(parentIds: number[]): Promise<WarehouseL
 }
 
 // --- Dispatch Check Actions ---
-export const searchDocuments = async (searchTerm: string): Promise<{ id: string, type: string, clientId: string, clientName: string }[]> => {
+export const searchDocuments = async (searchTerm: string, scope: { customerIds?: string[] | null; containerIds?: number[] | null } = {}): Promise<{ id: string, type: string, clientId: string, clientName: string }[]> => {
     const db = await connectDb();
     const likeTerm = `%${searchTerm}%`;
 
@@ -536,7 +585,19 @@ export const searchDocuments = async (searchTerm: string): Promise<{ id: string,
         WHERE h.PEDIDO LIKE @term
     `;
 
-    const results = db.prepare(query).all({ term: likeTerm }) as any[];
+    let results = db.prepare(query).all({ term: likeTerm }) as any[];
+
+    // Row-level scopes: only the user's customers and the documents assigned to their containers.
+    if (scope.customerIds) {
+        const allowedCustomers = new Set(scope.customerIds);
+        results = results.filter(r => allowedCustomers.has(r.clientId));
+    }
+    if (scope.containerIds) {
+        const warehouseDb = await connectDb(WAREHOUSE_DB_FILE);
+        const assigned = warehouseDb.prepare(`SELECT documentId FROM dispatch_assignments WHERE containerId IN (${scope.containerIds.map(() => '?').join(',')})`).all(...scope.containerIds) as { documentId: string }[];
+        const allowedDocuments = new Set(assigned.map(a => a.documentId));
+        results = results.filter(r => allowedDocuments.has(r.id));
+    }
     
     const combinedResults = results.map(r => ({
         ...r,
@@ -616,8 +677,9 @@ export const getDispatchLogs = async (dateRange?: DateRange): Promise<DispatchLo
     }));
 };
 
-export const getContainers = async (): Promise<DispatchContainer[]> => {
+export const getContainers = async (scopedContainerIds?: number[] | null): Promise<DispatchContainer[]> => {
     const db = await connectDb(WAREHOUSE_DB_FILE);
+    const scopeClause = scopedContainerIds ? `WHERE c.id IN (${scopedContainerIds.map(() => '?').join(',')})` : '';
     const rows = db.prepare(`
         SELECT 
             c.id, c.name, c.createdBy, c.createdAt, c.isLocked, c.lockedBy, c.lockedByUserId, c.lockedAt,
@@ -626,9 +688,10 @@ export const getContainers = async (): Promise<DispatchContainer[]> => {
             (SELECT dl.verifiedByUserName FROM dispatch_assignments da JOIN dispatch_logs dl ON da.documentId = dl.documentId WHERE da.containerId = c.id ORDER BY dl.verifiedAt DESC LIMIT 1) as lastVerifiedBy,
             (SELECT dl.verifiedAt FROM dispatch_assignments da JOIN dispatch_logs dl ON da.documentId = dl.documentId WHERE da.containerId = c.id ORDER BY dl.verifiedAt DESC LIMIT 1) as lastVerifiedAt
         FROM dispatch_containers c
+        ${scopeClause}
         GROUP BY c.id
         ORDER BY c.name ASC
-    `).all() as (DispatchContainer & { assignmentCount: number, completedAssignmentCount: number, lastVerifiedBy: string | null, lastVerifiedAt: string | null })[];
+    `).all(...(scopedContainerIds || [])) as (DispatchContainer & { assignmentCount: number, completedAssignmentCount: number, lastVerifiedBy: string | null, lastVerifiedAt: string | null })[];
     return JSON.parse(JSON.stringify(rows));
 };
 
@@ -792,10 +855,10 @@ export const unassignDocumentFromContainer = async (assignmentId: number): Promi
     db.prepare('DELETE FROM dispatch_assignments WHERE id = ?').run(assignmentId);
 };
 
-export const finalizeDispatch = async (containerId: number, vehiclePlate: string, driverName: string, helper1Name: string, helper2Name: string): Promise<void> => {
+export const finalizeDispatch = async (containerId: number, vehiclePlate: string, driverName: string, helper1Name: string, helper2Name: string, finalizedBy: string): Promise<void> => {
     const db = await connectDb(WAREHOUSE_DB_FILE);
     const logs = db.prepare(`
-        SELECT dl.* 
+        SELECT dl.*, da.clientName
         FROM dispatch_logs dl
         JOIN dispatch_assignments da ON dl.documentId = da.documentId
         WHERE da.containerId = ? AND dl.vehiclePlate IS NULL
@@ -811,6 +874,19 @@ export const finalizeDispatch = async (containerId: number, vehiclePlate: string
 
     transaction(logs);
     logInfo(`Finalized dispatch for container ${containerId}`, { vehiclePlate, driverName, helper1Name, helper2Name });
+
+    const container = db.prepare('SELECT name FROM dispatch_containers WHERE id = ?').get(containerId) as { name: string } | undefined;
+    triggerNotificationEvent('onDispatchContainerFinalized', {
+        containerId,
+        containerName: container?.name || `Contenedor ${containerId}`,
+        vehiclePlate,
+        driverName,
+        helper1Name: helper1Name || null,
+        helper2Name: helper2Name || null,
+        documentCount: logs.length,
+        documents: logs.map(log => ({ documentId: log.documentId, documentType: log.documentType, clientName: log.clientName || null, verifiedByUserName: log.verifiedByUserName })),
+        finalizedBy,
+    }).catch(e => console.error("Failed to trigger dispatch finalization notification:", e));
 };
 
 export async function getEmployees(): Promise<Empleado[]> {
@@ -939,13 +1015,28 @@ export async function correctInventoryUnit(originalUnit: InventoryUnit, newProdu
             `INSERT INTO movements (itemId, quantity, fromLocationId, toLocationId, timestamp, userId, notes) 
              VALUES (?, ?, ?, ?, datetime('now'), ?, ?)`
         ).run(newProductId, originalUnit.quantity, null, originalUnit.locationId, correctedByUserId, newUnitPayload.notes);
+
+        return newUnitCode;
     });
 
+    let newUnitCode: string;
     try {
-        transaction();
+        newUnitCode = transaction();
         logInfo(`Inventory unit ${originalUnit.unitCode} corrected by ${userName}. New product: ${newProductId}.`);
     } catch(err) {
         logError('Failed to execute correctInventoryUnit transaction', { error: (err as Error).message });
         throw err;
     }
+
+    triggerNotificationEvent('onInventoryUnitCorrected', {
+        originalUnitCode: originalUnit.unitCode || String(originalUnit.id),
+        newUnitCode,
+        previousProductId: originalUnit.productId,
+        newProductId,
+        quantity: originalUnit.quantity,
+        locationId: originalUnit.locationId,
+        humanReadableId: originalUnit.humanReadableId || null,
+        documentId: originalUnit.documentId || null,
+        correctedBy: userName,
+    }).catch(e => console.error("Failed to trigger inventory correction notification:", e));
 }